@@ -0,0 +1,66 @@
+/**
+ * Agent Experiments API
+ * GET  /api/agents/[agentId]/experiments  - compare prompt versions (latency, cost, edits, regenerations)
+ * POST /api/agents/[agentId]/experiments  - record a user edit of the agent's output: { sessionId }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getAgentManager } from '@/backend/agents/manager';
+import { getAgentExperiments } from '@/backend/services/agent-experiments';
+import { logger } from '@/backend/utils/logger';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET(
+    request: NextRequest,
+    { params }: { params: { agentId: string } }
+) {
+    try {
+        if (!getAgentManager().hasAgent(params.agentId)) {
+            return NextResponse.json(
+                { success: false, error: `Agent not found: ${params.agentId}` },
+                { status: 404 }
+            );
+        }
+
+        const report = await getAgentExperiments().getReport(params.agentId);
+
+        return NextResponse.json({ success: true, report });
+    } catch (error) {
+        logger.error('Agent experiment report failed', error);
+        return NextResponse.json(
+            { success: false, error: 'Failed to build experiment report' },
+            { status: 500 }
+        );
+    }
+}
+
+export async function POST(
+    request: NextRequest,
+    { params }: { params: { agentId: string } }
+) {
+    try {
+        const { sessionId } = await request.json();
+
+        if (!sessionId) {
+            return NextResponse.json(
+                { success: false, error: 'sessionId is required' },
+                { status: 400 }
+            );
+        }
+
+        const recorded = await getAgentExperiments().recordUserEdit(sessionId, params.agentId);
+
+        return NextResponse.json(
+            { success: recorded, error: recorded ? undefined : 'No agent run found for this session' },
+            { status: recorded ? 200 : 404 }
+        );
+    } catch (error) {
+        logger.error('Recording agent edit failed', error);
+        return NextResponse.json(
+            { success: false, error: 'Failed to record edit' },
+            { status: 500 }
+        );
+    }
+}
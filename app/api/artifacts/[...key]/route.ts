@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getArtifactStorage, isValidArtifactKey } from '@/backend/services/artifact-storage';
+import { logger } from '@/backend/utils/logger';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/artifacts/<key>?expires=<unix seconds>&signature=<hmac>
+ * Download a stored artifact through a signed link (see GET /api/artifacts for fresh links).
+ */
+export async function GET(
+    request: NextRequest,
+    { params }: { params: { key: string[] } }
+) {
+    const key = (params.key || []).join('/');
+    const { searchParams } = new URL(request.url);
+
+    if (!isValidArtifactKey(key)) {
+        return NextResponse.json({ error: 'Invalid artifact key' }, { status: 400 });
+    }
+
+    const storage = getArtifactStorage();
+    const link = storage.verifyLink(key, searchParams.get('expires'), searchParams.get('signature'));
+    if (link === 'invalid') {
+        return NextResponse.json({ error: 'Invalid download link' }, { status: 403 });
+    }
+    if (link === 'expired') {
+        return NextResponse.json({ error: 'Download link expired; request a new one from /api/artifacts' }, { status: 410 });
+    }
+
+    try {
+        const stored = await storage.get(key);
+        if (!stored) {
+            return NextResponse.json({ error: 'Artifact not found' }, { status: 404 });
+        }
+
+        const fileName = stored.artifact.file_name.replace(/[^a-zA-Z0-9._-]/g, '_');
+        return new NextResponse(new Uint8Array(stored.body), {
+            headers: {
+                'Content-Type': stored.artifact.content_type,
+                'Content-Length': String(stored.body.length),
+                'Content-Disposition': `attachment; filename="${fileName}"`,
+                'Cache-Control': 'private, no-store',
+                'X-Artifact-Version': String(stored.artifact.version),
+                'X-Artifact-Checksum': stored.artifact.checksum
+            }
+        });
+    } catch (error) {
+        logger.error('Artifact download failed', { key, error });
+        return NextResponse.json({ error: 'Failed to read artifact' }, { status: 500 });
+    }
+}
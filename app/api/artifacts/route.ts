@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getArtifactStorage } from '@/backend/services/artifact-storage';
+import { logger } from '@/backend/utils/logger';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/artifacts?session_id=...&document_type=...&latest=true
+ * List a session's stored artifacts (newest first) with fresh signed download URLs.
+ * latest=true keeps only the newest version of each document type.
+ */
+export async function GET(request: NextRequest) {
+    const { searchParams } = new URL(request.url);
+    const sessionId = searchParams.get('session_id');
+    const documentType = searchParams.get('document_type') || undefined;
+
+    if (!sessionId) {
+        return NextResponse.json({ error: 'session_id is required' }, { status: 400 });
+    }
+
+    try {
+        let artifacts = await getArtifactStorage().list(sessionId, documentType);
+        if (searchParams.get('latest') === 'true') {
+            const seen = new Set<string>();
+            artifacts = artifacts.filter(artifact => {
+                if (seen.has(artifact.document_type)) return false;
+                seen.add(artifact.document_type);
+                return true;
+            });
+        }
+
+        return NextResponse.json({ success: true, data: { session_id: sessionId, artifacts } });
+    } catch (error) {
+        logger.error('Artifact listing failed', { sessionId, error });
+        return NextResponse.json({ success: false, error: 'Failed to list artifacts' }, { status: 500 });
+    }
+}
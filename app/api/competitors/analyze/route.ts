@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db/supabase';
+import { analyzeCompetitors } from '@/backend/skills/implementations/competitor_analysis';
+import { getDocumentIngestion, MAX_DOCUMENT_BYTES, ParsedDocument } from '@/backend/services/document-ingestion';
+import { CompetitorAnalysisInput, DocumentParseError } from '@/backend/utils/types';
+import { logger } from '@/backend/utils/logger';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const PAGE_EXTENSIONS = ['html', 'htm', 'pdf'];
+
+async function sessionAnswers(sessionId: string): Promise<Record<string, any>> {
+    const responses = await db.getResponses(sessionId);
+    const answers: Record<string, any> = {};
+    (responses || []).forEach((response: any) => {
+        answers[response.question_id] = response.answer;
+    });
+    return answers;
+}
+
+/**
+ * POST /api/competitors/analyze
+ * JSON body: CompetitorAnalysisInput, optionally with "session_id" to use the saved answers.
+ * Multipart: "session_id", "input" (JSON) and saved competitor pages as "pages" files with a
+ * matching "page_competitors" entry (competitor name) per file.
+ */
+export async function POST(request: NextRequest) {
+    const startTime = Date.now();
+
+    try {
+        let input: CompetitorAnalysisInput & { session_id?: string } = {};
+        const pages: Array<{ competitor: string; document: ParsedDocument }> = [];
+        const pageErrors: string[] = [];
+
+        if ((request.headers.get('content-type') || '').includes('multipart/form-data')) {
+            const formData = await request.formData();
+            const rawInput = formData.get('input')?.toString();
+            input = rawInput ? JSON.parse(rawInput) : {};
+            input.session_id = formData.get('session_id')?.toString() || input.session_id;
+
+            const files = formData.getAll('pages');
+            const competitors = formData.getAll('page_competitors').map(value => value.toString());
+            for (let index = 0; index < files.length; index++) {
+                const file = files[index];
+                if (typeof file === 'string') continue;
+
+                const competitor = competitors[index];
+                const extension = file.name.split('.').pop()?.toLowerCase() || '';
+                if (!competitor) {
+                    return NextResponse.json({ error: `No competitor given for ${file.name} (page_competitors)` }, { status: 400 });
+                }
+                if (!PAGE_EXTENSIONS.includes(extension)) {
+                    return NextResponse.json({ error: `Unsupported page type: ${file.name}. Supported: ${PAGE_EXTENSIONS.join(', ')}` }, { status: 400 });
+                }
+                if (file.size > MAX_DOCUMENT_BYTES) {
+                    return NextResponse.json({ error: `${file.name} exceeds ${MAX_DOCUMENT_BYTES / (1024 * 1024)}MB limit` }, { status: 413 });
+                }
+
+                try {
+                    const buffer = Buffer.from(await file.arrayBuffer());
+                    pages.push({ competitor, document: await getDocumentIngestion().parse(buffer, file.name) });
+                } catch (error) {
+                    if (!(error instanceof DocumentParseError)) throw error;
+                    pageErrors.push(`Could not read ${file.name} for ${competitor}`);
+                }
+            }
+        } else {
+            input = await request.json();
+        }
+
+        // Server-side file paths are only for trusted skill callers, never for HTTP input
+        const { session_id: sessionId, pages: _ignored, ...params } = input;
+        if (sessionId) {
+            params.answers = { ...(await sessionAnswers(sessionId)), ...(params.answers || {}) };
+        }
+
+        logger.info('Competitor analysis requested', { sessionId, pages: pages.length });
+
+        const result = analyzeCompetitors(params, pages, pageErrors);
+
+        return NextResponse.json({
+            success: true,
+            data: result,
+            metadata: {
+                executionTimeMs: Date.now() - startTime
+            }
+        });
+    } catch (error) {
+        if (error instanceof SyntaxError) {
+            return NextResponse.json({ success: false, error: 'Invalid JSON input' }, { status: 400 });
+        }
+
+        logger.error('Competitor analysis failed', error);
+        return NextResponse.json(
+            {
+                success: false,
+                error: error instanceof Error ? error.message : 'Internal server error',
+                metadata: {
+                    executionTimeMs: Date.now() - startTime
+                }
+            },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db/supabase';
+import { checkCompliance } from '@/backend/skills/implementations/compliance_checker';
+import { getComplianceRules, MAX_HORIZON_MONTHS } from '@/backend/services/compliance-rules';
+import { ComplianceCheckInput } from '@/backend/utils/types';
+import { logger } from '@/backend/utils/logger';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Run the compliance rule packs and answer as JSON (checklist + calendar) or as an
+ * iCalendar file the founder can subscribe to / import.
+ */
+function respond(params: ComplianceCheckInput, format: string | null, businessName?: string) {
+    if (params.start_date && !DATE_PATTERN.test(params.start_date)) {
+        return NextResponse.json({ error: 'start_date must be YYYY-MM-DD' }, { status: 400 });
+    }
+    if (params.horizon_months !== undefined
+        && (!Number.isInteger(params.horizon_months) || params.horizon_months < 1 || params.horizon_months > MAX_HORIZON_MONTHS)) {
+        return NextResponse.json({ error: `months must be a whole number from 1 to ${MAX_HORIZON_MONTHS}` }, { status: 400 });
+    }
+
+    const result = checkCompliance(params);
+
+    if (format === 'ics') {
+        const name = businessName ? `${businessName} - Compliance Calendar` : 'Compliance Calendar';
+        const ics = getComplianceRules().toIcs(result.calendar, name);
+        return new NextResponse(ics, {
+            headers: {
+                'Content-Type': 'text/calendar; charset=utf-8',
+                'Content-Disposition': 'attachment; filename="compliance-calendar.ics"'
+            }
+        });
+    }
+
+    return NextResponse.json({ success: true, ...result });
+}
+
+/**
+ * GET /api/compliance/calendar?session_id=...&format=ics|json&start_date=YYYY-MM-DD&months=12 (1-60)
+ * Builds the calendar from the session's saved questionnaire answers.
+ */
+export async function GET(request: NextRequest) {
+    const { searchParams } = new URL(request.url);
+    const sessionId = searchParams.get('session_id');
+
+    if (!sessionId) {
+        return NextResponse.json({ error: 'session_id is required' }, { status: 400 });
+    }
+
+    try {
+        const responses = await db.getResponses(sessionId);
+        const answers: Record<string, any> = {};
+        (responses || []).forEach((response: any) => {
+            answers[response.question_id] = response.answer;
+        });
+
+        logger.info('Compliance calendar requested', { sessionId, answers: Object.keys(answers).length });
+
+        return respond(
+            {
+                answers,
+                start_date: searchParams.get('start_date') || undefined,
+                horizon_months: searchParams.has('months') ? Number(searchParams.get('months')) : undefined
+            },
+            searchParams.get('format'),
+            answers.existing_name || answers.business_name
+        );
+    } catch (error) {
+        logger.error('Compliance calendar failed', error);
+        return NextResponse.json(
+            { error: 'Failed to build compliance calendar', details: error instanceof Error ? error.message : String(error) },
+            { status: 500 }
+        );
+    }
+}
+
+/**
+ * POST /api/compliance/calendar
+ * Body: ComplianceCheckInput (answers and/or explicit location, business_type, turnover, ...)
+ * plus optional "format": "ics" and "business_name".
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const body = await request.json();
+        const { format, business_name, ...params } = body || {};
+
+        return respond(params as ComplianceCheckInput, format || null, business_name);
+    } catch (error) {
+        logger.error('Compliance calendar failed', error);
+        return NextResponse.json(
+            { error: 'Failed to build compliance calendar', details: error instanceof Error ? error.message : String(error) },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDocumentVersionStore } from '@/lib/services/document-versions';
+import { logger } from '@/backend/utils/logger';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/documents/diff?session_id=...&document_type=...&from=1&to=2
+ * Section-level markdown diff between two versions of a document, with the questionnaire
+ * answers that changed between the runs that produced them.
+ */
+export async function GET(request: NextRequest) {
+    const { searchParams } = new URL(request.url);
+    const sessionId = searchParams.get('session_id');
+    const documentType = searchParams.get('document_type');
+    const from = searchParams.get('from') || '';
+    const to = searchParams.get('to') || '';
+
+    if (!sessionId || !documentType) {
+        return NextResponse.json({ error: 'session_id and document_type are required' }, { status: 400 });
+    }
+    if (!/^\d+$/.test(from) || !/^\d+$/.test(to)) {
+        return NextResponse.json({ error: 'from and to must be version numbers' }, { status: 400 });
+    }
+
+    try {
+        const diff = await getDocumentVersionStore().diff(sessionId, documentType, Number(from), Number(to));
+        if (!diff) {
+            return NextResponse.json({ error: `Version ${from} or ${to} of ${documentType} not found` }, { status: 404 });
+        }
+        return NextResponse.json({ success: true, data: diff });
+    } catch (error) {
+        logger.error('Document diff failed', { sessionId, documentType, from, to, error });
+        return NextResponse.json({ success: false, error: 'Failed to diff document versions' }, { status: 500 });
+    }
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDocumentVersionStore } from '@/lib/services/document-versions';
+import { logger } from '@/backend/utils/logger';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/documents/restore
+ * Body: { session_id, document_type, version }
+ * Store an older version's content as the newest version; earlier versions are kept.
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const { session_id: sessionId, document_type: documentType, version } = await request.json();
+
+        if (!sessionId || !documentType || !Number.isInteger(version) || version < 1) {
+            return NextResponse.json({ error: 'session_id, document_type and a version number are required' }, { status: 400 });
+        }
+
+        const store = getDocumentVersionStore();
+        const restored = await store.restore(sessionId, documentType, version);
+        if (!restored) {
+            return NextResponse.json({ error: `Version ${version} of ${documentType} not found` }, { status: 404 });
+        }
+
+        const current = await store.getVersion(sessionId, documentType, restored.version);
+        return NextResponse.json({ success: true, data: { version: restored, document: current?.document } });
+    } catch (error) {
+        logger.error('Document restore failed', { error });
+        return NextResponse.json({ success: false, error: 'Failed to restore document version' }, { status: 500 });
+    }
+}
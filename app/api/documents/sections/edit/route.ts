@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDocumentGenerationWorkflow } from '@/lib/workflows/document-generation-workflow';
+import { DocumentSectionError } from '@/backend/utils/types';
+import { logger } from '@/backend/utils/logger';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/documents/sections/edit
+ * Body: { session_id, document_type, section_id, content }
+ * Replace one section with manually written markdown and store the result as a new version.
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const { session_id: sessionId, document_type: documentType, section_id: sectionId, content } = await request.json();
+
+        if (!sessionId || !documentType || !sectionId || typeof content !== 'string' || !content.trim()) {
+            return NextResponse.json({ error: 'session_id, document_type, section_id and content are required' }, { status: 400 });
+        }
+
+        const result = await getDocumentGenerationWorkflow().editSection(sessionId, documentType, sectionId, content);
+        return NextResponse.json({ success: true, data: result });
+    } catch (error) {
+        if (error instanceof DocumentSectionError) {
+            return NextResponse.json({ success: false, error: error.message, details: error.details }, { status: 404 });
+        }
+
+        logger.error('Section edit failed', { error });
+        return NextResponse.json({ success: false, error: 'Failed to save section edit' }, { status: 500 });
+    }
+}
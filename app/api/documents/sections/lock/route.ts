@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDocumentGenerationWorkflow } from '@/lib/workflows/document-generation-workflow';
+import { getDocumentVersionStore } from '@/lib/services/document-versions';
+import { logger } from '@/backend/utils/logger';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/documents/sections/lock
+ * Body: { session_id, document_type, section_id, locked }
+ * Lock a section so regeneration (whole document or section) keeps it verbatim, or unlock it.
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const { session_id: sessionId, document_type: documentType, section_id: sectionId, locked } = await request.json();
+
+        if (!sessionId || !documentType || !sectionId || typeof locked !== 'boolean') {
+            return NextResponse.json({ error: 'session_id, document_type, section_id and locked are required' }, { status: 400 });
+        }
+
+        const current = await getDocumentGenerationWorkflow().listSections(sessionId, documentType);
+        if (!current || !current.sections.some(section => section.id === sectionId)) {
+            return NextResponse.json({ error: `Section not found: ${sectionId}` }, { status: 404 });
+        }
+
+        const lockedSections = await getDocumentVersionStore().setSectionLock(sessionId, documentType, sectionId, locked);
+        return NextResponse.json({ success: true, data: { document_type: documentType, locked_sections: lockedSections } });
+    } catch (error) {
+        logger.error('Section lock update failed', { error });
+        return NextResponse.json({ success: false, error: 'Failed to update section lock' }, { status: 500 });
+    }
+}
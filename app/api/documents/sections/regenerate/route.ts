@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDocumentGenerationWorkflow } from '@/lib/workflows/document-generation-workflow';
+import { BudgetExceededError, DocumentSectionError } from '@/backend/utils/types';
+import { logger } from '@/backend/utils/logger';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/documents/sections/regenerate
+ * Body: { session_id, document_type, section_id, instructions?, answers? }
+ * Regenerate one section, re-running only the agents that feed it, and store the result as a
+ * new version. Locked sections are refused with 409.
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const {
+            session_id: sessionId,
+            document_type: documentType,
+            section_id: sectionId,
+            instructions,
+            answers
+        } = await request.json();
+
+        if (!sessionId || !documentType || !sectionId) {
+            return NextResponse.json({ error: 'session_id, document_type and section_id are required' }, { status: 400 });
+        }
+
+        const result = await getDocumentGenerationWorkflow().regenerateSection(sessionId, documentType, sectionId, {
+            instructions: typeof instructions === 'string' && instructions.trim() ? instructions.trim() : undefined,
+            answers: answers && typeof answers === 'object' ? answers : undefined
+        });
+        return NextResponse.json({ success: true, data: result });
+    } catch (error) {
+        if (error instanceof DocumentSectionError) {
+            return NextResponse.json(
+                { success: false, error: error.message, details: error.details },
+                { status: error.reason === 'locked' ? 409 : 404 }
+            );
+        }
+        if (error instanceof BudgetExceededError) {
+            return NextResponse.json({ success: false, error: error.message }, { status: 429 });
+        }
+
+        logger.error('Section regeneration failed', { error });
+        return NextResponse.json(
+            { success: false, error: error instanceof Error ? error.message : 'Section regeneration failed' },
+            { status: 500 }
+        );
+    }
+}
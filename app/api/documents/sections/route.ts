@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDocumentGenerationWorkflow } from '@/lib/workflows/document-generation-workflow';
+import { logger } from '@/backend/utils/logger';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/documents/sections?session_id=...&document_type=...
+ * Sections of the latest stored version of a document, with the agents that feed each one
+ * and whether it is locked against regeneration.
+ */
+export async function GET(request: NextRequest) {
+    const { searchParams } = new URL(request.url);
+    const sessionId = searchParams.get('session_id');
+    const documentType = searchParams.get('document_type');
+
+    if (!sessionId || !documentType) {
+        return NextResponse.json({ error: 'session_id and document_type are required' }, { status: 400 });
+    }
+
+    try {
+        const result = await getDocumentGenerationWorkflow().listSections(sessionId, documentType);
+        if (!result) {
+            return NextResponse.json({ error: `No stored ${documentType} for this session` }, { status: 404 });
+        }
+        return NextResponse.json({ success: true, data: result });
+    } catch (error) {
+        logger.error('Section listing failed', { sessionId, documentType, error });
+        return NextResponse.json({ success: false, error: 'Failed to list document sections' }, { status: 500 });
+    }
+}
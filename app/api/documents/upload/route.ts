@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+    detectDocumentFormat,
+    getDocumentIngestion,
+    MAX_DOCUMENT_BYTES,
+    SUPPORTED_DOCUMENT_FORMATS
+} from '@/backend/services/document-ingestion';
+import { DocumentParseError } from '@/backend/utils/types';
+import { logger } from '@/backend/utils/logger';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/documents/upload
+ * Parse an uploaded PDF, DOCX, XLSX, CSV or HTML (multipart field "file") and return the
+ * extracted figures as questionnaire answer suggestions for the user to confirm.
+ */
+export async function POST(request: NextRequest) {
+    const startTime = Date.now();
+
+    try {
+        const formData = await request.formData();
+        const file = formData.get('file');
+        const sessionId = formData.get('session_id')?.toString();
+
+        if (!file || typeof file === 'string') {
+            return NextResponse.json({ error: 'No file provided' }, { status: 400 });
+        }
+
+        if (!detectDocumentFormat(file.name)) {
+            return NextResponse.json(
+                { error: `Unsupported file type. Supported: ${SUPPORTED_DOCUMENT_FORMATS.join(', ')}` },
+                { status: 400 }
+            );
+        }
+
+        if (file.size > MAX_DOCUMENT_BYTES) {
+            return NextResponse.json(
+                { error: `File exceeds ${MAX_DOCUMENT_BYTES / (1024 * 1024)}MB limit` },
+                { status: 413 }
+            );
+        }
+
+        logger.info('Document upload received', { sessionId, fileName: file.name, size: file.size });
+
+        const buffer = Buffer.from(await file.arrayBuffer());
+        const result = await getDocumentIngestion().ingest(buffer, file.name);
+
+        return NextResponse.json({
+            success: true,
+            data: result,
+            metadata: {
+                executionTimeMs: Date.now() - startTime
+            }
+        });
+    } catch (error) {
+        if (error instanceof DocumentParseError) {
+            return NextResponse.json({ success: false, error: error.message }, { status: 422 });
+        }
+
+        logger.error('Document upload failed', error);
+        return NextResponse.json(
+            {
+                success: false,
+                error: error instanceof Error ? error.message : 'Internal server error',
+                metadata: {
+                    executionTimeMs: Date.now() - startTime
+                }
+            },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDocumentVersionStore } from '@/lib/services/document-versions';
+import { logger } from '@/backend/utils/logger';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/documents/versions?session_id=...&document_type=...&version=...
+ * List a session's document versions (newest first), or with document_type and version,
+ * return that version's content and the answer snapshot it was generated from.
+ */
+export async function GET(request: NextRequest) {
+    const { searchParams } = new URL(request.url);
+    const sessionId = searchParams.get('session_id');
+    const documentType = searchParams.get('document_type') || undefined;
+    const version = searchParams.get('version');
+
+    if (!sessionId) {
+        return NextResponse.json({ error: 'session_id is required' }, { status: 400 });
+    }
+    if (version !== null && (!documentType || !/^\d+$/.test(version))) {
+        return NextResponse.json({ error: 'version needs a document_type and must be a positive integer' }, { status: 400 });
+    }
+
+    try {
+        const store = getDocumentVersionStore();
+        if (version !== null && documentType) {
+            const found = await store.getVersion(sessionId, documentType, Number(version));
+            if (!found) {
+                return NextResponse.json({ error: `Version ${version} of ${documentType} not found` }, { status: 404 });
+            }
+            return NextResponse.json({ success: true, data: found });
+        }
+
+        const versions = await store.listVersions(sessionId, documentType);
+        return NextResponse.json({ success: true, data: { session_id: sessionId, versions } });
+    } catch (error) {
+        logger.error('Document version lookup failed', { sessionId, documentType, version, error });
+        return NextResponse.json({ success: false, error: 'Failed to load document versions' }, { status: 500 });
+    }
+}
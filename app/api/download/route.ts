@@ -7,7 +7,7 @@ export async function POST(request: NextRequest) {
     try {
         // Support both JSON and form data
         const requestContentType = request.headers.get('content-type') || '';
-        let content, type, title;
+        let content, type, title, sessionId, documentType;
 
         if (requestContentType.includes('application/json')) {
             // JSON request (from fetch)
@@ -15,12 +15,16 @@ export async function POST(request: NextRequest) {
             content = body.content;
             type = body.type;
             title = body.title;
+            sessionId = body.sessionId;
+            documentType = body.documentType;
         } else {
             // Form data request (from form submission)
             const formData = await request.formData();
             content = formData.get('content')?.toString();
             type = formData.get('type')?.toString();
             title = formData.get('title')?.toString();
+            sessionId = formData.get('sessionId')?.toString();
+            documentType = formData.get('documentType')?.toString();
         }
 
         if (!content || !type) {
@@ -60,13 +64,29 @@ export async function POST(request: NextRequest) {
                 contentType = 'application/vnd.openxmlformats-officedocument.presentationml.presentation';
                 extension = 'pptx';
                 break;
+            case 'xlsx': {
+                // Content is the financial_modeling input (JSON), not markdown
+                let model;
+                try {
+                    model = typeof content === 'string' ? JSON.parse(content) : content;
+                } catch {
+                    return NextResponse.json({ error: 'XLSX export expects financial model JSON as content' }, { status: 400 });
+                }
+                if (!model?.revenue_data?.products || !model.cost_structure || !model.assumptions) {
+                    return NextResponse.json({ error: 'XLSX export expects a financial_modeling input' }, { status: 400 });
+                }
+                buffer = await exportEngine.toXLSX(model, { filename: safeTitle, title: title || 'Financial Model' });
+                contentType = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+                extension = 'xlsx';
+                break;
+            }
             case 'csv':
                 buffer = exportEngine.toCSV(content);
                 contentType = 'text/csv';
                 extension = 'csv';
                 break;
             default:
-                return NextResponse.json({ error: 'Invalid document type. Supported: pdf, docx, pptx, csv' }, { status: 400 });
+                return NextResponse.json({ error: 'Invalid document type. Supported: pdf, docx, pptx, xlsx, csv' }, { status: 400 });
         }
 
         // Convert to Uint8Array for better compatibility
@@ -77,17 +97,36 @@ export async function POST(request: NextRequest) {
 
         console.log(`Serving file: ${filename} (${responseData.length} bytes, type: ${contentType})`);
 
+        const headers: Record<string, string> = {
+            'Content-Type': contentType,
+            'Content-Disposition': `attachment; filename="${filename}"`,
+            'Content-Length': responseData.length.toString(),
+            // CORS headers to expose Content-Disposition
+            'Access-Control-Allow-Origin': '*',
+            'Access-Control-Expose-Headers': 'Content-Disposition, Content-Type, Content-Length, X-Artifact-Key, X-Artifact-Url',
+            'Cache-Control': 'no-cache'
+        };
+
+        // Keep a copy with the session so the export can be downloaded again later;
+        // the file is still served (without the X-Artifact-* headers) if storing it fails
+        if (sessionId) {
+            try {
+                const artifact = await exportEngine.saveArtifact(buffer, {
+                    filename,
+                    contentType,
+                    documentType: `${documentType || 'export'}_${extension}`,
+                    sessionId
+                });
+                headers['X-Artifact-Key'] = artifact.key;
+                headers['X-Artifact-Url'] = artifact.url;
+            } catch (error) {
+                console.error('Failed to store export artifact:', error);
+            }
+        }
+
         return new NextResponse(responseData, {
             status: 200,
-            headers: {
-                'Content-Type': contentType,
-                'Content-Disposition': `attachment; filename="${filename}"`,
-                'Content-Length': responseData.length.toString(),
-                // CORS headers to expose Content-Disposition
-                'Access-Control-Allow-Origin': '*',
-                'Access-Control-Expose-Headers': 'Content-Disposition, Content-Type, Content-Length',
-                'Cache-Control': 'no-cache'
-            }
+            headers
         });
 
     } catch (e: any) {
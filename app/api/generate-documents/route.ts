@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getDocumentGenerationWorkflow } from '@/lib/workflows/document-generation-workflow';
+import { getDocumentVersionStore } from '@/lib/services/document-versions';
 
 /**
  * Generate Documents API (Phase 2 - Multi-Agent Orchestration)
@@ -54,6 +55,7 @@ export async function POST(request: NextRequest) {
         console.log('🔧 Skills invoked:', result.metadata.skillsInvoked);
         console.log('⏱️  Total time:', result.metadata.totalExecutionTimeMs, 'ms');
         console.log('💰 Tokens used:', result.metadata.totalTokensUsed);
+        console.log('🗂️  Versions stored:', result.versions.length);
 
         // Return generated documents
         return NextResponse.json({
@@ -61,6 +63,7 @@ export async function POST(request: NextRequest) {
             data: {
                 sessionId,
                 documents: result.documents,
+                versions: result.versions,
                 metadata: {
                     generatedAt: new Date().toISOString(),
                     executionTimeMs: result.metadata.totalExecutionTimeMs,
@@ -102,7 +105,7 @@ export async function POST(request: NextRequest) {
  * 
  * GET /api/generate-documents?sessionId=xxx
  * 
- * Retrieves previously generated documents for a session
+ * Retrieves the latest stored version of each generated document for a session
  */
 export async function GET(request: NextRequest) {
     try {
@@ -119,14 +122,18 @@ export async function GET(request: NextRequest) {
             );
         }
 
-        // TODO: Implement document retrieval from storage
-        // For now, return a placeholder response
+        const { documents, versions } = await getDocumentVersionStore().getLatestDocuments(sessionId);
+
         return NextResponse.json({
             success: true,
             data: {
                 sessionId,
-                documents: [],
-                message: 'Document retrieval not yet implemented',
+                documents,
+                versions,
+                metadata: {
+                    generatedAt: versions.length > 0 ? versions[0].createdAt : undefined,
+                    documentCount: documents.length
+                }
             },
         });
     } catch (error) {
@@ -5,7 +5,7 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { Orchestrator } from '@/backend/orchestrator';
-import { BusinessContext } from '@/backend/utils/types';
+import { BusinessContext, BudgetExceededError } from '@/backend/utils/types';
 import { logger } from '@/backend/utils/logger';
 
 export const runtime = 'nodejs';
@@ -118,7 +118,9 @@ export async function POST(request: NextRequest) {
             errorMessage = error.message;
 
             // Check for specific error types
-            if (error.message.includes('API key')) {
+            if (error instanceof BudgetExceededError) {
+                statusCode = 429;
+            } else if (error.message.includes('API key')) {
                 statusCode = 401;
             } else if (error.message.includes('rate limit')) {
                 statusCode = 429;
@@ -1,14 +1,25 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { Orchestrator } from '@/backend/orchestrator';
-import { BusinessContext } from '@/backend/utils/types';
+import { BusinessContext, CompanyMatch } from '@/backend/utils/types';
+import { getAgentOutputCache } from '@/backend/services/agent-output-cache';
+import { lookupExistingBusiness } from '@/backend/services/company-registry';
+import { getMCPEngine, MCPExecutionResult, MCPProvenance } from '@/backend/mcp/engine';
+import { getSessionStorage } from '@/backend/services/session-storage';
 
 /**
  * POST /api/questionnaire/answer
- * Submit answer for current question with AI orchestration
+ * Submit answer for current question with AI orchestration.
+ * MCP rules auto-populate related fields and trigger skills/agents; with
+ * background_triggers the triggered runs continue after the response is sent.
  */
 export async function POST(request: NextRequest) {
     try {
-        const { sessionId, questionId, answer, all_answers } = await request.json();
+        const body = await request.json();
+        const sessionId: string | undefined = body.session_id ?? body.sessionId;
+        const questionId: string | undefined = body.question_id ?? body.questionId;
+        const answer = body.answer;
+        const all_answers: Record<string, any> = body.all_answers || {};
+        const backgroundTriggers = body.background_triggers === true;
 
         if (!process.env.GROQ_API_KEY) {
             console.error('GROQ_API_KEY is missing');
@@ -24,25 +35,44 @@ export async function POST(request: NextRequest) {
             model: 'llama-3.3-70b-versatile',
         });
 
+        // 0. A (re)submitted answer invalidates cached agent outputs built on its previous value
+        if (questionId) {
+            await getAgentOutputCache()?.invalidateField(questionId, sessionId);
+        }
+
         // 1. Construct Context
         // We accumulate all previous answers to give the AI full context
         const context: BusinessContext = {
             session_id: sessionId,
             previous_responses: all_answers,
-            user_id: 'anonymous_user', // TODO: Get from auth
+            // TODO: Get user_id from auth; left unset so anonymous sessions don't share one user budget
         };
 
+        // 1b. Run the answer through the MCP rules (auto-population, triggered skills/agents)
+        const mcp = getMCPEngine();
+        const mcpResult = questionId
+            ? await mcp.processAnswer(questionId, answer, all_answers)
+            : null;
+
         // 2. Formulate the Request for the Orchestrator
         // We frame the answer as an update to the business plan
         const message = `User provided answer for questionID '${questionId}': ${JSON.stringify(answer)}. 
         Context of all answers so far: ${JSON.stringify(all_answers)}.
         Please analyze this input, validate it if necessary, and update the business plan context.`;
 
-        // 3. Process with AI
-        const response = await orchestrator.processRequest(message, context);
+        // 3. Process with AI; triggered skills/agents run alongside unless sent to the background
+        const triggers = mcpResult ? mcp.executeTriggers(mcpResult, orchestrator, context) : null;
+        if (triggers && backgroundTriggers) {
+            triggers.catch(error => console.error('Background MCP triggers failed:', error));
+        }
+        const [response, mcpExecution] = await Promise.all([
+            orchestrator.processRequest(message, context),
+            triggers && !backgroundTriggers ? triggers : Promise.resolve<MCPExecutionResult | null>(null)
+        ]);
 
         // 4. Construct Thinking Log for UI
         const thinking_log = [
+            ...(mcpResult?.thinking_log || []),
             `Analyzed Request: ${response.intent.goal}`,
             `Plan: ${response.plan.execution_type} execution of ${response.plan.tasks.length} tasks`,
             ...response.plan.tasks.map(t => `Task: ${t.description}`),
@@ -51,22 +81,68 @@ export async function POST(request: NextRequest) {
         ];
 
         // 5. Extract Auto-populated fields & Preview Data
-        // Ideally, agents would return specific structured data. 
-        // For now, we'll try to parse JSON from the synthesis if it exists, or look at tool outputs.
-        // This is a simplification; in a full implementation, we'd check specific tool call results.
+        // Agents with an output_schema return validated structured data, keyed here by agent id
+        // (e.g. preview_data.market_analyst.tam) so the preview can render it directly.
+
+        const autoPopulated: Record<string, any> = { ...(mcpResult?.auto_populated || {}) };
+        const provenance: Record<string, MCPProvenance> = { ...(mcpResult?.provenance || {}) };
 
-        let autoPopulated = {};
-        let previewData = null;
+        // Existing businesses: prefill legal entity and start date from the company registry
+        let companyMatches: CompanyMatch[] | undefined;
+        if (questionId === 'existing_name') {
+            const lookup = await lookupExistingBusiness(answer, all_answers);
+            Object.keys(lookup.prefill).forEach(field => {
+                autoPopulated[field] = lookup.prefill[field];
+                provenance[field] = {
+                    source_field: questionId,
+                    source_value: answer,
+                    method: 'lookup',
+                    via: 'company_registry',
+                    description: `derived from ${questionId} via company_registry`
+                };
+            });
+            companyMatches = lookup.matches.length > 0 ? lookup.matches : undefined;
+        }
+
+        // 6. Persist the answer and its auto-populated values (with provenance) on the session
+        let autoPopulatedFields = null;
+        if (sessionId && questionId) {
+            const storage = getSessionStorage();
+            await storage.getOrCreateSession(sessionId, context.user_id || 'anonymous_user');
+            await storage.saveAnswer(sessionId, questionId, answer);
+            if (Object.keys(autoPopulated).length > 0) {
+                const saved = await storage.saveAutoPopulated(sessionId, autoPopulated, provenance);
+                autoPopulatedFields = saved && Object.fromEntries(Object.keys(autoPopulated).map(field => [field, saved[field]]));
+            }
+        }
+
+        const agentOutputs = response.agent_outputs.concat(mcpExecution?.agent_outputs || []);
+        const structuredOutputs = agentOutputs.filter(a => a.success && a.structured);
+        const previewData = structuredOutputs.length > 0
+            ? Object.fromEntries(structuredOutputs.map(a => [a.agent_id, a.structured]))
+            : null;
 
         return NextResponse.json({
             success: true,
             message: 'Answer processed',
             thinking_log,
             aiSuggestions: [response.synthesis], // The main AI response
-            autoPopulated, // AI could populate this in the future
+            auto_populated: autoPopulated,
+            provenance,
+            auto_populated_fields: autoPopulatedFields, // Stored state, including earlier accept/override decisions
+            company_matches: companyMatches,
+            preview_data: previewData,
             agent_analysis: {
-                agents_used: response.agent_outputs.map(a => a.agent_name),
-                skills_used: response.agent_outputs.flatMap(a => a.skills_used)
+                agents_used: agentOutputs.map(a => a.agent_name),
+                skills_used: agentOutputs.flatMap(a => a.skills_used)
+            },
+            mcp: mcpResult && {
+                agents_triggered: mcpResult.agents_to_trigger.map(trigger => trigger.agent_id),
+                skills_triggered: mcpResult.skills_to_execute.map(trigger => trigger.skill_id),
+                background: backgroundTriggers,
+                skill_results: mcpExecution?.skill_results,
+                skipped: mcpExecution?.skipped,
+                validation_errors: mcpResult.validation_errors
             },
             // Pass the raw Orchestrator response for debugging/preview if needed
             debug_orchestrator: {
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionStorage } from '@/backend/services/session-storage';
+import { logger } from '@/backend/utils/logger';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/questionnaire/auto-populated?session_id=...
+ * Values the MCP rules auto-populated for a session, with provenance and accept/override state
+ */
+export async function GET(request: NextRequest) {
+    try {
+        const sessionId = request.nextUrl.searchParams.get('session_id');
+        if (!sessionId) {
+            return NextResponse.json({ error: 'session_id is required' }, { status: 400 });
+        }
+
+        const session = await getSessionStorage().getSession(sessionId);
+        if (!session) {
+            return NextResponse.json({ error: `Session not found: ${sessionId}` }, { status: 404 });
+        }
+
+        return NextResponse.json({ success: true, data: { fields: session.autoPopulated } });
+    } catch (error) {
+        logger.error('Auto-populated field listing failed', { error });
+        return NextResponse.json({ success: false, error: 'Failed to list auto-populated fields' }, { status: 500 });
+    }
+}
+
+/**
+ * POST /api/questionnaire/auto-populated
+ * Body: { session_id, field, action: 'accept' | 'override', value? }
+ * Accept an auto-populated value or override it with the user's own; either is saved as the answer.
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const { session_id: sessionId, field, action, value } = await request.json();
+
+        if (!sessionId || !field || (action !== 'accept' && action !== 'override')) {
+            return NextResponse.json({ error: "session_id, field and action ('accept' or 'override') are required" }, { status: 400 });
+        }
+        if (action === 'override' && (value === undefined || value === null || value === '')) {
+            return NextResponse.json({ error: 'value is required to override a field' }, { status: 400 });
+        }
+
+        const resolved = await getSessionStorage().resolveAutoPopulated(
+            sessionId,
+            field,
+            action === 'accept' ? { status: 'accepted' } : { status: 'overridden', value }
+        );
+        if (!resolved) {
+            return NextResponse.json({ error: `No auto-populated value for ${field}` }, { status: 404 });
+        }
+
+        logger.info('Auto-populated field resolved', { sessionId, field, status: resolved.status });
+        return NextResponse.json({ success: true, data: { field, ...resolved } });
+    } catch (error) {
+        logger.error('Auto-populated field update failed', { error });
+        return NextResponse.json({ success: false, error: 'Failed to update auto-populated field' }, { status: 500 });
+    }
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAgentExperiments } from '@/backend/services/agent-experiments';
+import { logger } from '@/backend/utils/logger';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/session/[sessionId]/edits
+ * Body: { fields: string[] }
+ * Record that the user changed these answers (e.g. from the review chat), counting an edit
+ * against the agents routed to each question for agent version experiments.
+ */
+export async function POST(
+    request: NextRequest,
+    { params }: { params: { sessionId: string } }
+) {
+    try {
+        const { fields } = await request.json();
+
+        if (!Array.isArray(fields) || fields.length === 0 || !fields.every(field => typeof field === 'string')) {
+            return NextResponse.json(
+                { success: false, error: 'fields must be a non-empty array of question ids' },
+                { status: 400 }
+            );
+        }
+
+        const agents = await getAgentExperiments().recordAnswerEdits(params.sessionId, fields);
+
+        return NextResponse.json({ success: true, data: { agents } });
+    } catch (error) {
+        logger.error('Recording answer edits failed', error);
+        return NextResponse.json(
+            { success: false, error: 'Failed to record edits' },
+            { status: 500 }
+        );
+    }
+}
@@ -1,6 +1,7 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db/supabase';
+import { getUsageBudget } from '@/backend/services/usage-budget';
 
 export async function GET(
     request: NextRequest,
@@ -22,10 +23,14 @@ export async function GET(
         // 2. Get Responses (to rebuild history)
         const responses = await db.getResponses(sessionId);
 
+        // 3. Token/cost usage recorded for this session
+        const usage = getUsageBudget().getSessionUsage(sessionId);
+
         return NextResponse.json({
             success: true,
             session,
-            responses
+            responses,
+            usage
         });
 
     } catch (error) {
@@ -0,0 +1,101 @@
+/**
+ * Financial Model Scenarios API
+ * POST /api/v1/financial-model/scenarios
+ *
+ * Runs best/base/worst and custom what-if scenarios plus sensitivity analysis
+ * against a base financial_modeling input.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest } from '@/lib/middleware/auth';
+import { checkRateLimit, marketAnalysisRateLimiter } from '@/lib/middleware/rate-limit';
+import { runFinancialScenarios } from '@/backend/skills/implementations/financial_scenarios';
+import { FinancialScenarioInput } from '@/backend/utils/types';
+import { logger } from '@/backend/utils/logger';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: NextRequest) {
+  const startTime = Date.now();
+
+  try {
+    // 1. Authenticate user
+    const user = await authenticateRequest(request);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized', message: 'Invalid or missing API key' },
+        { status: 401 }
+      );
+    }
+
+    // 2. Check rate limit
+    const rateLimitResult = await checkRateLimit(user.id, marketAnalysisRateLimiter);
+    if (!rateLimitResult.allowed) {
+      return rateLimitResult.response!;
+    }
+
+    // 3. Parse and validate request body
+    const body = await request.json() as FinancialScenarioInput;
+
+    const base = body?.base;
+    if (!base?.revenue_data?.products?.length || !base.cost_structure || !base.projection_period || !base.assumptions) {
+      return NextResponse.json(
+        {
+          error: 'Validation error',
+          message: 'base must include revenue_data.products, cost_structure, projection_period and assumptions'
+        },
+        { status: 400 }
+      );
+    }
+
+    const invalidProduct = base.revenue_data.products.findIndex(product =>
+      typeof product?.avg_price !== 'number' ||
+      typeof product.initial_quantity_m1 !== 'number' ||
+      !Array.isArray(product.growth_rates_m) ||
+      product.growth_rates_m.some(rate => typeof rate !== 'number')
+    );
+    if (invalidProduct >= 0) {
+      return NextResponse.json(
+        {
+          error: 'Validation error',
+          message: `base.revenue_data.products[${invalidProduct}] must include numeric avg_price and initial_quantity_m1 and a growth_rates_m array of numbers`
+        },
+        { status: 400 }
+      );
+    }
+
+    logger.info('Financial scenarios request', {
+      userId: user.id,
+      scenarios: body.scenarios?.length || 0
+    });
+
+    // 4. Run scenarios
+    const result = runFinancialScenarios(body);
+    const totalTime = Date.now() - startTime;
+
+    // 5. Return success response
+    return NextResponse.json({
+      success: true,
+      data: result,
+      metadata: {
+        executionTimeMs: totalTime
+      }
+    });
+
+  } catch (error) {
+    const totalTime = Date.now() - startTime;
+    logger.error('Financial scenario analysis failed', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Internal server error',
+        metadata: {
+          executionTimeMs: totalTime
+        }
+      },
+      { status: 500 }
+    );
+  }
+}
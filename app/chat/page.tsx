@@ -6,6 +6,7 @@ export const dynamic = 'force-dynamic';
 import { useState, useEffect, useRef, useCallback } from 'react';
 import { ArrowRight, ArrowLeft, Sparkles, Loader2, CheckCircle2, Clock, Brain, Zap, User, Send, Mic, MicOff, Volume2, VolumeX, RefreshCw, Plus, Trash2, PlusCircle } from 'lucide-react';
 import { ALL_PHASES, Question, QuestionType, QuestionOption } from '@/lib/schemas/questions';
+import { shouldSkip } from '@/lib/orchestrator/skip-logic';
 import ChatHeader from '@/components/chat/ChatHeader';
 import ChatBubble from '@/components/chat/ChatBubble';
 import PhaseRoadmap from '@/components/chat/PhaseRoadmap';
@@ -1069,7 +1070,7 @@ Analyze this question and provide 3-4 short, specific options or ideas as bullet
                 }
 
                 const potentialNext = ALL_PHASES[nextPhaseIdx]?.questions[nextIdx];
-                if (potentialNext && evaluateCondition(potentialNext.condition, newAnswers)) {
+                if (potentialNext && !shouldSkip(potentialNext.id, newAnswers)) {
                     nextQuestionToAsk = {
                         question: potentialNext.question,
                         type: potentialNext.type,
@@ -1183,19 +1184,6 @@ Analyze this question and provide 3-4 short, specific options or ideas as bullet
         }
     };
 
-    const evaluateCondition = (condition: string | undefined, context: any): boolean => {
-        if (!condition) return true;
-        try {
-            const jsCondition = condition.replace(/([a-zA-Z0-9_.]+)\s+in\s+(\[[^\]]+\])/g, "$2.includes($1)");
-
-            const func = new Function('context', `try { return ${jsCondition}; } catch(e) { return false; }`);
-            return func(context);
-        } catch (e) {
-            console.error('Condition evaluation failed:', condition, e);
-            return true;
-        }
-    };
-
     const moveToNextQuestion = (newAnswers: Record<string, any>, newMessages: Message[], agentMessage?: string) => {
         let nextIndex = state.currentQuestionIndex + 1;
         let nextPhaseIdx = state.currentPhase;
@@ -1216,7 +1204,7 @@ Analyze this question and provide 3-4 short, specific options or ideas as bullet
 
             const nextQuestion = ALL_PHASES[nextPhaseIdx].questions[nextQuestionIdx];
 
-            if (evaluateCondition(nextQuestion.condition, newAnswers)) {
+            if (!shouldSkip(nextQuestion.id, newAnswers)) {
                 const isFirstInPhase = nextPhaseIdx > state.currentPhase && nextQuestionIdx === 0;
 
                 const conversationalText = agentMessage || nextQuestion.question;
@@ -5,8 +5,10 @@ import { useRouter } from 'next/navigation'
 import { ALL_PHASES, Phase, Question, QuestionType, getQuestionsByPhase } from '@/lib/schemas/questions'
 import { ChevronLeft, ChevronRight, Sparkles } from 'lucide-react'
 import ThinkingIndicator from '@/components/questionnaire/ThinkingIndicator'
-import AutoPopulatedFields from '@/components/questionnaire/AutoPopulatedFields'
+import AutoPopulatedFields, { FieldProvenance } from '@/components/questionnaire/AutoPopulatedFields'
 import PreviewPanel from '@/components/questionnaire/PreviewPanel'
+import DocumentSuggestions from '@/components/questionnaire/DocumentSuggestions'
+import { FileUpload, AnswerSuggestion } from '@/components/questionnaire/FileUpload'
 
 export default function QuestionnairePage() {
   const router = useRouter()
@@ -22,9 +24,13 @@ export default function QuestionnairePage() {
   const [thinking, setThinking] = useState(false)
   const [thinkingLog, setThinkingLog] = useState<string[]>([])
   const [autoPopulated, setAutoPopulated] = useState<Record<string, any>>({})
+  const [provenance, setProvenance] = useState<Record<string, FieldProvenance>>({})
   const [agentsUsed, setAgentsUsed] = useState<string[]>([])
   const [previewData, setPreviewData] = useState<any>(null)
 
+  // Document ingestion: suggestions wait for user confirmation before touching answers
+  const [documentSuggestions, setDocumentSuggestions] = useState<AnswerSuggestion[]>([])
+
   // Handle hydration and initialize
   useEffect(() => {
     setMounted(true)
@@ -49,6 +55,39 @@ export default function QuestionnairePage() {
     setError(null)
   }
 
+  const handleDocumentSuggestions = (suggestions: AnswerSuggestion[]) => {
+    // Later documents override earlier suggestions for the same question
+    setDocumentSuggestions(prev => [
+      ...prev.filter(existing => !suggestions.some(s => s.question_id === existing.question_id)),
+      ...suggestions
+    ])
+  }
+
+  const applyDocumentSuggestions = (confirmed: Record<string, any>) => {
+    setAnswers(prev => ({ ...prev, ...confirmed }))
+    setAutoPopulated(confirmed)
+    setProvenance({})
+    setDocumentSuggestions([])
+  }
+
+  // MCP suggestions only become answers once the user accepts or overrides them
+  const resolveAutoPopulated = async (field: string, value: any, status: 'accepted' | 'overridden') => {
+    const response = await fetch('/api/questionnaire/auto-populated', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        session_id: sessionId,
+        field,
+        action: status === 'accepted' ? 'accept' : 'override',
+        value: status === 'overridden' ? value : undefined
+      })
+    })
+    const data = await response.json()
+    if (!response.ok) throw new Error(data.error || 'Failed to save your choice')
+
+    setAnswers(prev => ({ ...prev, [field]: value }))
+  }
+
   const handleNext = async () => {
     const currentQuestion = phaseQuestions[currentQuestionIndex]
 
@@ -62,6 +101,7 @@ export default function QuestionnairePage() {
     setThinking(true)
     setThinkingLog([])
     setAutoPopulated({})
+    setProvenance({})
     setAgentsUsed([])
 
     try {
@@ -85,10 +125,10 @@ export default function QuestionnairePage() {
           setThinkingLog(data.thinking_log)
         }
 
-        // Show auto-populated fields
+        // Show auto-populated fields for the user to accept or override
         if (data.auto_populated && Object.keys(data.auto_populated).length > 0) {
           setAutoPopulated(data.auto_populated)
-          setAnswers(prev => ({ ...prev, ...data.auto_populated }))
+          setProvenance(data.provenance || {})
         }
 
         // Show agents used
@@ -200,6 +240,25 @@ export default function QuestionnairePage() {
               </div>
             </div>
 
+            {/* Document Upload */}
+            <div className="bg-white rounded-2xl shadow-lg p-6">
+              <h3 className="font-semibold text-gray-900 mb-1">Have financial statements or a pitch deck?</h3>
+              <p className="text-sm text-gray-600 mb-4">
+                Upload a PDF, Word, Excel or CSV file and we&apos;ll suggest answers from the figures we find.
+              </p>
+              <FileUpload
+                sessionId={sessionId}
+                acceptedTypes={['.pdf', '.docx', '.xlsx', '.csv']}
+                onFileUpload={() => undefined}
+                onSuggestions={handleDocumentSuggestions}
+              />
+              <DocumentSuggestions
+                suggestions={documentSuggestions}
+                onApply={applyDocumentSuggestions}
+                onDismiss={() => setDocumentSuggestions([])}
+              />
+            </div>
+
             {/* Thinking Indicator */}
             <ThinkingIndicator
               isThinking={thinking}
@@ -210,6 +269,8 @@ export default function QuestionnairePage() {
             {/* Auto-populated Fields */}
             <AutoPopulatedFields
               fields={autoPopulated}
+              provenance={provenance}
+              onResolve={resolveAutoPopulated}
               onDismiss={() => setAutoPopulated({})}
             />
 
@@ -5,6 +5,8 @@ import { useSearchParams } from 'next/navigation';
 import ReactMarkdown from 'react-markdown';
 import { saveAs } from 'file-saver';
 import { supabase } from '@/lib/supabase/client';
+import DocumentVersions from '@/components/results/DocumentVersions';
+import DocumentSections from '@/components/results/DocumentSections';
 
 interface GeneratedDocument {
   type: string;
@@ -38,6 +40,7 @@ function ResultsContent() {
   const [generating, setGenerating] = useState(false);
   const [loadingMessage, setLoadingMessage] = useState('Initializing agents...');
   const [error, setError] = useState<string | null>(null);
+  const [versionsKey, setVersionsKey] = useState(0);
 
   useEffect(() => {
     if (!generating) return;
@@ -75,17 +78,26 @@ function ResultsContent() {
     loadDocumentsFromCache();
   }, [sessionId]);
 
-  const loadDocumentsFromCache = () => {
+  const loadDocumentsFromCache = async () => {
     try {
       const cached = localStorage.getItem(`generated_docs_${sessionId}`);
       if (cached) {
         const data = JSON.parse(cached);
         setDocuments(data.documents);
         setLoading(false);
-      } else {
-        // No cache, need to generate
-        setLoading(false);
+        return;
       }
+
+      // No local cache, restore the session's stored documents (if any)
+      const response = await fetch(`/api/generate-documents?sessionId=${encodeURIComponent(sessionId!)}`);
+      if (response.ok) {
+        const result = await response.json();
+        if (result.success && result.data.documents.length > 0) {
+          setDocuments(result.data.documents);
+          localStorage.setItem(`generated_docs_${sessionId}`, JSON.stringify(result.data));
+        }
+      }
+      setLoading(false);
     } catch (err) {
       console.error('Error loading cached documents:', err);
       setLoading(false);
@@ -191,6 +203,7 @@ function ResultsContent() {
       localStorage.setItem(`generated_docs_${sessionId}`, JSON.stringify(result.data));
 
       setDocuments(result.data.documents);
+      setVersionsKey(key => key + 1);
       setGenerating(false);
     } catch (err) {
       console.error('Generation error:', err);
@@ -329,7 +342,9 @@ function ResultsContent() {
         body: JSON.stringify({
           type: format,
           content: doc.content,
-          title: docName
+          title: docName,
+          sessionId,
+          documentType: doc.type
         })
       });
 
@@ -401,6 +416,16 @@ function ResultsContent() {
     }
   };
 
+  const handleDocumentUpdated = (changed: GeneratedDocument) => {
+    const updated = documents.map(d => (d.type === changed.type ? changed : d));
+    setDocuments(updated);
+    setVersionsKey(key => key + 1);
+
+    const cached = localStorage.getItem(`generated_docs_${sessionId}`);
+    const data = cached ? JSON.parse(cached) : {};
+    localStorage.setItem(`generated_docs_${sessionId}`, JSON.stringify({ ...data, documents: updated }));
+  };
+
   const selectedDocument = documents.find(d => d.type === selectedDoc);
 
   if (loading) {
@@ -607,6 +632,24 @@ function ResultsContent() {
                   </div>
                 </div>
 
+                {/* Sections and version history */}
+                {sessionId && (
+                  <>
+                    <DocumentSections
+                      sessionId={sessionId}
+                      documentType={selectedDoc}
+                      refreshKey={versionsKey}
+                      onUpdated={handleDocumentUpdated}
+                    />
+                    <DocumentVersions
+                      sessionId={sessionId}
+                      documentType={selectedDoc}
+                      refreshKey={versionsKey}
+                      onRestored={handleDocumentUpdated}
+                    />
+                  </>
+                )}
+
                 {/* Document content */}
                 <div className="p-8 prose prose-lg max-w-none overflow-auto" style={{ maxHeight: '70vh' }}>
                   <ReactMarkdown>{selectedDocument.content}</ReactMarkdown>
@@ -1,17 +1,33 @@
 /**
  * Agent Manager
- * Loads and manages agent definitions from YAML files
+ * Loads and manages agent definitions from YAML files.
+ * An agent may have prompt variants (<id>.<version>.yaml with `traffic`), and sessions
+ * are routed to a version by a deterministic hash of session id.
  */
 
+import crypto from 'crypto';
 import fs from 'fs';
 import path from 'path';
 import yaml from 'js-yaml';
 import { Agent, IntentAnalysis } from '../utils/types';
 import { logger } from '../utils/logger';
+import { getSkillRegistry } from '../skills/registry';
+import { validateAgentDefinition, AgentValidationIssue } from './validation';
+
+const HOT_RELOAD_DEBOUNCE_MS = 200;
+export const DEFAULT_AGENT_VERSION = 'v1';
+
+function isAgentFile(file: string): boolean {
+    return file.endsWith('.yaml') || file.endsWith('.yml');
+}
 
 export class AgentManager {
     private agents: Map<string, Agent>;
     private agentsDir: string;
+    private variants: Map<string, Agent[]> = new Map(); // agent id -> variant definitions
+    private agentFiles: Map<string, { id: string; version: string }> = new Map(); // YAML file -> definition
+    private fileIssues: Map<string, AgentValidationIssue[]> = new Map();
+    private watcher: fs.FSWatcher | null = null;
 
     constructor(agentsDir?: string) {
         this.agents = new Map();
@@ -48,36 +64,123 @@ export class AgentManager {
                 return;
             }
 
-            const files = fs.readdirSync(this.agentsDir).filter(f => f.endsWith('.yaml') || f.endsWith('.yml'));
+            const files = fs.readdirSync(this.agentsDir).filter(isAgentFile);
 
             logger.info(`Found ${files.length} agent files`);
 
-            files.forEach(file => {
-                try {
-                    const filePath = path.join(this.agentsDir, file);
-                    const content = fs.readFileSync(filePath, 'utf-8');
-                    const agent = yaml.load(content) as Agent;
+            files.forEach(file => this.loadAgentFile(file));
 
-                    // Validate agent structure
-                    if (!agent.id || !agent.name || !agent.system_prompt) {
-                        logger.warn(`Invalid agent definition in ${file}`, { agent });
-                        return;
-                    }
-
-                    this.agents.set(agent.id, agent);
-                    logger.debug(`Loaded agent: ${agent.id}`, { name: agent.name });
-                } catch (error) {
-                    logger.error(`Failed to load agent from ${file}`, error);
-                }
-            });
-
-            logger.info(`Successfully loaded ${this.agents.size} agents`);
+            const rejected = files.filter(file => !this.agentFiles.has(file));
+            logger.info(`Successfully loaded ${this.agents.size} agents`, rejected.length > 0 ? { rejected } : undefined);
         } catch (error) {
             logger.error('Failed to load agents', error);
             throw error;
         }
     }
 
+    /**
+     * Load (or re-load) a single YAML file. Invalid definitions are rejected and
+     * their issues kept for getValidationIssues(); a previously loaded version stays active.
+     */
+    private loadAgentFile(file: string): void {
+        this.fileIssues.delete(file);
+
+        let raw: unknown;
+        try {
+            raw = yaml.load(fs.readFileSync(path.join(this.agentsDir, file), 'utf-8'));
+        } catch (error) {
+            this.recordIssues(file, [{
+                severity: 'error',
+                source: file,
+                message: `YAML parse error: ${error instanceof Error ? error.message : String(error)}`
+            }]);
+            return;
+        }
+
+        const skillIds = new Set(getSkillRegistry().getAllSkills().map(skill => skill.id));
+        const { agent, issues } = validateAgentDefinition(raw, file, skillIds);
+
+        const version = agent?.version || DEFAULT_AGENT_VERSION;
+        if (agent) {
+            agent.version = version;
+
+            const owner = this.findFileForAgent(agent.id, version);
+            const primaryOwner = agent.traffic === undefined ? this.findPrimaryFile(agent.id) : undefined;
+            if (owner && owner !== file) {
+                issues.push({
+                    severity: 'error',
+                    source: file,
+                    message: `duplicate agent "${agent.id}" version ${version} (already defined in ${owner})`
+                });
+            } else if (primaryOwner && primaryOwner !== file) {
+                issues.push({
+                    severity: 'error',
+                    source: file,
+                    message: `agent "${agent.id}" already has a primary definition in ${primaryOwner}; variants need a traffic share`
+                });
+            }
+        }
+
+        this.recordIssues(file, issues);
+        if (!agent || issues.some(issue => issue.severity === 'error')) {
+            return;
+        }
+
+        this.unregisterFile(file);
+
+        if (agent.traffic !== undefined) {
+            const versions = (this.variants.get(agent.id) || []).filter(v => v.version !== version);
+            versions.push(agent);
+            versions.sort((a, b) => a.version!.localeCompare(b.version!));
+            this.variants.set(agent.id, versions);
+        } else {
+            this.agents.set(agent.id, agent);
+        }
+
+        this.agentFiles.set(file, { id: agent.id, version });
+        logger.debug(`Loaded agent: ${agent.id}`, { name: agent.name, version });
+    }
+
+    /**
+     * Remove the definition previously loaded from a file
+     */
+    private unregisterFile(file: string): void {
+        const definition = this.agentFiles.get(file);
+        if (!definition) return;
+
+        this.agentFiles.delete(file);
+
+        const variants = this.variants.get(definition.id) || [];
+        if (variants.some(v => v.version === definition.version)) {
+            this.variants.set(definition.id, variants.filter(v => v.version !== definition.version));
+        } else if (this.agents.get(definition.id)?.version === definition.version) {
+            this.agents.delete(definition.id);
+        }
+    }
+
+    private recordIssues(file: string, issues: AgentValidationIssue[]): void {
+        if (issues.length === 0) return;
+
+        this.fileIssues.set(file, issues);
+        issues.forEach(issue => {
+            if (issue.severity === 'error') {
+                logger.error(`Invalid agent definition in ${file}: ${issue.message}`);
+            } else {
+                logger.warn(`Agent definition warning in ${file}: ${issue.message}`);
+            }
+        });
+    }
+
+    private findFileForAgent(agentId: string, version: string): string | undefined {
+        return Array.from(this.agentFiles.entries())
+            .find(([, definition]) => definition.id === agentId && definition.version === version)?.[0];
+    }
+
+    private findPrimaryFile(agentId: string): string | undefined {
+        const primary = this.agents.get(agentId);
+        return primary ? this.findFileForAgent(agentId, primary.version!) : undefined;
+    }
+
     /**
      * Load Markdown agent definitions from a directory
      * Parses the Markdown file to extract agent metadata and uses content as system prompt
@@ -138,10 +241,45 @@ export class AgentManager {
     }
 
     /**
-     * Get agent by ID
+     * Get agent by ID. With a session id, returns the variant that session is assigned to.
      */
-    getAgent(id: string): Agent | undefined {
-        return this.agents.get(id);
+    getAgent(id: string, sessionId?: string): Agent | undefined {
+        const primary = this.agents.get(id);
+        if (!primary || !sessionId) {
+            return primary;
+        }
+        return this.selectVersion(primary, sessionId);
+    }
+
+    /**
+     * Primary definition followed by its variants
+     */
+    getAgentVersions(id: string): Agent[] {
+        const primary = this.agents.get(id);
+        return primary ? [primary, ...(this.variants.get(id) || [])] : [];
+    }
+
+    /**
+     * Deterministically bucket a session (0-99) and walk the variants' traffic shares;
+     * sessions outside every share get the primary definition.
+     */
+    private selectVersion(primary: Agent, sessionId: string): Agent {
+        const variants = this.variants.get(primary.id) || [];
+        if (variants.length === 0 || process.env.AGENT_EXPERIMENTS_DISABLED === 'true') {
+            return primary;
+        }
+
+        const digest = crypto.createHash('sha256').update(`${primary.id}:${sessionId}`).digest();
+        const bucket = digest.readUInt32BE(0) % 100;
+
+        let threshold = 0;
+        for (const variant of variants) {
+            threshold += variant.traffic || 0;
+            if (bucket < threshold) {
+                return variant;
+            }
+        }
+        return primary;
     }
 
     /**
@@ -238,13 +376,65 @@ export class AgentManager {
     }
 
     /**
-     * Reload agents from disk (useful for hot-reloading in development)
+     * Reload YAML agents from disk (useful for hot-reloading in development)
      */
     reload(): void {
-        this.agents.clear();
+        Array.from(this.agentFiles.keys()).forEach(file => this.unregisterFile(file));
+        this.fileIssues.clear();
         this.loadAgents();
     }
 
+    /**
+     * Watch the agents directory and re-load changed YAML files (development only)
+     */
+    watch(): void {
+        if (this.watcher || !fs.existsSync(this.agentsDir)) return;
+
+        const timers = new Map<string, NodeJS.Timeout>();
+
+        this.watcher = fs.watch(this.agentsDir, (_event, filename) => {
+            const file = filename?.toString();
+            if (!file || !isAgentFile(file)) return;
+
+            // Editors emit several events per save
+            clearTimeout(timers.get(file));
+            timers.set(file, setTimeout(() => {
+                timers.delete(file);
+                this.handleFileChange(file);
+            }, HOT_RELOAD_DEBOUNCE_MS));
+        });
+        this.watcher.unref();
+
+        logger.info('Watching agent definitions for changes', { dir: this.agentsDir });
+    }
+
+    unwatch(): void {
+        this.watcher?.close();
+        this.watcher = null;
+    }
+
+    private handleFileChange(file: string): void {
+        if (fs.existsSync(path.join(this.agentsDir, file))) {
+            this.loadAgentFile(file);
+            logger.info(`Agent definition reloaded: ${file}`, { agent: this.agentFiles.get(file) });
+            return;
+        }
+
+        const definition = this.agentFiles.get(file);
+        if (definition) {
+            this.unregisterFile(file);
+            logger.info(`Agent definition removed: ${file}`, definition);
+        }
+        this.fileIssues.delete(file);
+    }
+
+    /**
+     * Validation problems found while loading YAML definitions
+     */
+    getValidationIssues(): AgentValidationIssue[] {
+        return Array.from(this.fileIssues.values()).flat();
+    }
+
     /**
      * Get agent count
      */
@@ -266,6 +456,11 @@ let agentManagerInstance: AgentManager | null = null;
 export function getAgentManager(): AgentManager {
     if (!agentManagerInstance) {
         agentManagerInstance = new AgentManager();
+
+        // Prompt engineers can edit YAML without restarting Next
+        if (process.env.NODE_ENV === 'development' && process.env.AGENT_HOT_RELOAD !== 'false') {
+            agentManagerInstance.watch();
+        }
     }
     return agentManagerInstance;
 }
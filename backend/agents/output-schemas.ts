@@ -0,0 +1,193 @@
+/**
+ * Agent Output Schemas
+ * zod contracts for agents that declare `output_schema` in their YAML definition.
+ * Structured outputs are validated here, and invalid responses are sent back to the
+ * model with the validation errors (repair-retry) before falling back to plain text.
+ */
+
+import { z } from 'zod';
+
+const money = z.coerce.number().nonnegative();
+
+const marketSize = z.object({
+    value: money,
+    currency: z.string().default('INR'),
+    basis: z.string().optional() // How the figure was derived
+});
+
+export const marketAnalysisSchema = z.object({
+    tam: marketSize,
+    sam: marketSize,
+    som: marketSize,
+    growth_rate_percent: z.coerce.number().optional(),
+    competitors: z.array(z.object({
+        name: z.string(),
+        positioning: z.string().optional(),
+        strengths: z.array(z.string()).default([]),
+        weaknesses: z.array(z.string()).default([])
+    })),
+    trends: z.array(z.string()),
+    summary: z.string()
+});
+
+export const customerProfileSchema = z.object({
+    primary_segment: z.string(),
+    personas: z.array(z.object({
+        name: z.string(),
+        description: z.string(),
+        pain_points: z.array(z.string()),
+        willingness_to_pay: z.string().optional()
+    })).min(1),
+    summary: z.string()
+});
+
+export const financialProjectionSchema = z.object({
+    currency: z.string().default('INR'),
+    projections: z.array(z.object({
+        year: z.coerce.number().int(),
+        revenue: z.coerce.number(),
+        expenses: z.coerce.number(),
+        net_income: z.coerce.number()
+    })).min(1),
+    break_even_month: z.coerce.number().int().positive().optional(),
+    funding_required: money.optional(),
+    key_assumptions: z.array(z.string()),
+    summary: z.string()
+});
+
+export const gtmStrategySchema = z.object({
+    channels: z.array(z.object({
+        name: z.string(),
+        priority: z.enum(['high', 'medium', 'low']).optional(),
+        rationale: z.string().optional()
+    })).min(1),
+    launch_phases: z.array(z.object({
+        name: z.string(),
+        duration_weeks: z.coerce.number().optional(),
+        activities: z.array(z.string())
+    })),
+    pricing_approach: z.string().optional(),
+    summary: z.string()
+});
+
+export type MarketAnalysisOutput = z.infer<typeof marketAnalysisSchema>;
+export type CustomerProfileOutput = z.infer<typeof customerProfileSchema>;
+export type FinancialProjectionOutput = z.infer<typeof financialProjectionSchema>;
+export type GtmStrategyOutput = z.infer<typeof gtmStrategySchema>;
+
+/**
+ * Schemas referenced by name from agent YAML (`output_schema: market_analysis`)
+ */
+export const AGENT_OUTPUT_SCHEMAS: Record<string, z.ZodTypeAny> = {
+    market_analysis: marketAnalysisSchema,
+    customer_profile: customerProfileSchema,
+    financial_projection: financialProjectionSchema,
+    gtm_strategy: gtmStrategySchema
+};
+
+export const DEFAULT_SCHEMA_REPAIR_ATTEMPTS = 2;
+
+export type StructuredOutputResult =
+    | { success: true; data: any }
+    | { success: false; errors: string[] };
+
+export function getOutputSchema(name?: string): z.ZodTypeAny | undefined {
+    return name ? AGENT_OUTPUT_SCHEMAS[name] : undefined;
+}
+
+/**
+ * Parse a model response (optionally wrapped in prose or code fences) and validate it
+ */
+export function parseStructuredOutput(content: string, schema: z.ZodTypeAny): StructuredOutputResult {
+    const json = extractJson(content);
+    if (json === null) {
+        return { success: false, errors: ['Response does not contain a JSON object'] };
+    }
+
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(json);
+    } catch (error) {
+        return {
+            success: false,
+            errors: [`Response is not valid JSON: ${error instanceof Error ? error.message : String(error)}`]
+        };
+    }
+
+    const result = schema.safeParse(parsed);
+    if (!result.success) {
+        return {
+            success: false,
+            errors: result.error.issues.map(issue =>
+                `${issue.path.length > 0 ? issue.path.join('.') : '(root)'}: ${issue.message}`
+            )
+        };
+    }
+
+    return { success: true, data: result.data };
+}
+
+/**
+ * Instructions appended to the agent's system prompt
+ */
+export function buildSchemaInstructions(schema: z.ZodTypeAny): string {
+    return `
+
+## Output Format (REQUIRED)
+Respond with a single JSON object and nothing else (no markdown, no commentary).
+It must match this shape ("?" marks optional fields):
+${describeSchema(schema)}`;
+}
+
+/**
+ * Follow-up message asking the model to fix an invalid response
+ */
+export function buildRepairPrompt(errors: string[]): string {
+    return `Your previous response did not match the required schema:
+${errors.map(e => `- ${e}`).join('\n')}
+
+Return the corrected JSON object only.`;
+}
+
+/**
+ * Compact, TypeScript-like description of a zod schema for prompts
+ */
+export function describeSchema(schema: z.ZodTypeAny, indent: string = ''): string {
+    if (schema instanceof z.ZodOptional || schema instanceof z.ZodNullable) {
+        return describeSchema(schema.unwrap(), indent);
+    }
+    if (schema instanceof z.ZodDefault) {
+        return describeSchema(schema._def.innerType, indent);
+    }
+    if (schema instanceof z.ZodObject) {
+        const shape = schema.shape as Record<string, z.ZodTypeAny>;
+        const nextIndent = indent + '  ';
+        const fields = Object.entries(shape).map(([key, value]) => {
+            const optional = value.isOptional() ? '?' : '';
+            return `${nextIndent}"${key}"${optional}: ${describeSchema(value, nextIndent)}`;
+        });
+        return `{\n${fields.join(',\n')}\n${indent}}`;
+    }
+    if (schema instanceof z.ZodArray) {
+        return `${describeSchema(schema.element, indent)}[]`;
+    }
+    if (schema instanceof z.ZodEnum) {
+        return (schema.options as string[]).map(option => `"${option}"`).join(' | ');
+    }
+    if (schema instanceof z.ZodNumber) return 'number';
+    if (schema instanceof z.ZodString) return 'string';
+    if (schema instanceof z.ZodBoolean) return 'boolean';
+    return 'any';
+}
+
+function extractJson(content: string): string | null {
+    const fenced = content.match(/```(?:json)?\s*([\s\S]*?)```/);
+    const text = fenced ? fenced[1] : content;
+
+    const start = text.indexOf('{');
+    const end = text.lastIndexOf('}');
+    if (start === -1 || end <= start) {
+        return null;
+    }
+    return text.substring(start, end + 1);
+}
@@ -0,0 +1,93 @@
+/**
+ * Agent Reference Check
+ * Startup report of invalid agent definitions and MCP rule files, and of MCP rules / question
+ * config entries that point at agents, skills or answer fields which do not exist.
+ */
+
+import { getAgentManager } from './manager';
+import { getSkillRegistry } from '../skills/registry';
+import { getMCPEngine } from '../mcp/engine';
+import { getConfigReferences } from '../../lib/orchestrator/question-config';
+import { ALL_PHASES } from '../../lib/schemas/questions';
+import { logger } from '../utils/logger';
+import { AgentValidationIssue, findDanglingReferences } from './validation';
+
+export interface AgentReferenceReport {
+    agents_loaded: number;
+    skills_registered: number;
+    definition_issues: AgentValidationIssue[]; // From backend/agents/*.yaml and backend/mcp/rules/*
+    dangling_references: AgentValidationIssue[]; // From MCP rules and question-config.ts
+}
+
+export function checkAgentReferences(): AgentReferenceReport {
+    const agentManager = getAgentManager();
+    const skills = getSkillRegistry().getAllSkills();
+
+    const agentIds = new Set(agentManager.getAllAgents().map(agent => agent.id));
+    const skillIds = new Set(skills.map(skill => skill.id));
+
+    const mcp = getMCPEngine();
+    const references = [
+        ...mcp.getReferences(),
+        ...getConfigReferences()
+    ];
+
+    return {
+        agents_loaded: agentIds.size,
+        skills_registered: skillIds.size,
+        definition_issues: [...agentManager.getValidationIssues(), ...mcp.getValidationIssues()],
+        dangling_references: [
+            ...findDanglingReferences(references, agentIds, skillIds),
+            ...findUnknownRuleFields()
+        ]
+    };
+}
+
+/**
+ * MCP rule fields that are neither a question in lib/schemas/questions.ts nor populated by a rule
+ */
+function findUnknownRuleFields(): AgentValidationIssue[] {
+    const fieldReferences = getMCPEngine().getFieldReferences();
+    const known = new Set<string>();
+    ALL_PHASES.forEach(phase => phase.questions.forEach(question => known.add(question.id)));
+    fieldReferences.filter(ref => ref.role === 'populates').forEach(ref => known.add(ref.field));
+
+    const seen = new Set<string>();
+    return fieldReferences
+        .filter(ref => !known.has(ref.field))
+        .filter(ref => {
+            const key = `${ref.field}:${ref.source}`;
+            if (seen.has(key)) return false;
+            seen.add(key);
+            return true;
+        })
+        .map(ref => ({
+            severity: 'warning' as const,
+            source: ref.source,
+            message: ref.role === 'trigger'
+                ? `triggers on unknown field "${ref.field}" (no such question)`
+                : `references unknown field "${ref.field}"`
+        }));
+}
+
+/**
+ * Log the report; returns it so callers (scripts, CI) can fail on errors
+ */
+export function reportAgentReferences(): AgentReferenceReport {
+    const report = checkAgentReferences();
+
+    report.dangling_references.forEach(issue => {
+        logger.warn(`Dangling reference in ${issue.source}: ${issue.message}`);
+    });
+
+    const errors = report.definition_issues.filter(issue => issue.severity === 'error');
+    logger.info('Agent reference check complete', {
+        agents: report.agents_loaded,
+        skills: report.skills_registered,
+        definition_errors: errors.length,
+        definition_warnings: report.definition_issues.length - errors.length,
+        dangling_references: report.dangling_references.length
+    });
+
+    return report;
+}
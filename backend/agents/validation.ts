@@ -0,0 +1,122 @@
+/**
+ * Agent Definition Validation
+ * zod schema for agent YAML files plus cross-reference checks against the
+ * SkillRegistry, output schemas, MCP rules and the question config.
+ */
+
+import { z } from 'zod';
+import { Agent } from '../utils/types';
+import { getOutputSchema } from './output-schemas';
+
+export const agentDefinitionSchema = z.object({
+    id: z.string().regex(/^[a-z][a-z0-9_]*$/, 'must be snake_case'),
+    name: z.string().min(1),
+    description: z.string().default(''),
+    model: z.string().min(1),
+    system_prompt: z.string().min(1),
+    skills: z.array(z.string()).default([]),
+    tools: z.array(z.string()).default([]),
+    temperature: z.number().min(0).max(2).default(0.3),
+    context_window: z.number().int().positive().default(8000),
+    phase: z.string().optional(),
+    persona: z.string().optional(),
+    output_schema: z.string().optional(),
+    version: z.string().regex(/^[A-Za-z0-9_-]+$/, 'must be alphanumeric').optional(),
+    traffic: z.number().min(0).max(100).optional()
+}).passthrough();
+
+export type AgentIssueSeverity = 'error' | 'warning';
+
+export interface AgentValidationIssue {
+    severity: AgentIssueSeverity;
+    source: string; // File name, or the rule/config that holds the reference
+    message: string;
+}
+
+export interface AgentValidationResult {
+    agent?: Agent; // Set when there are no errors
+    issues: AgentValidationIssue[];
+}
+
+export interface AgentReference {
+    kind: 'agent' | 'skill';
+    id: string;
+    source: string; // e.g. "mcp:problem_statement" or "question-config:market_size"
+}
+
+/**
+ * Validate a parsed agent YAML document.
+ * Structural problems, unknown skills/tools and unknown output schemas are errors
+ * (the agent is not loaded); naming mismatches are warnings.
+ */
+export function validateAgentDefinition(
+    raw: unknown,
+    file: string,
+    skillIds: Set<string>
+): AgentValidationResult {
+    const issues: AgentValidationIssue[] = [];
+    const error = (message: string) => issues.push({ severity: 'error', source: file, message });
+    const warning = (message: string) => issues.push({ severity: 'warning', source: file, message });
+
+    const parsed = agentDefinitionSchema.safeParse(raw);
+    if (!parsed.success) {
+        parsed.error.issues.forEach(issue =>
+            error(`${issue.path.length > 0 ? issue.path.join('.') : '(root)'}: ${issue.message}`)
+        );
+        return { issues };
+    }
+
+    const agent = parsed.data as Agent;
+
+    agent.skills
+        .filter(skillId => !skillIds.has(skillId))
+        .forEach(skillId => error(`skills: unknown skill "${skillId}"`));
+
+    // Tools are exposed to the model as skill tool definitions, so they must resolve to a skill
+    agent.tools
+        .filter(toolId => !skillIds.has(toolId))
+        .forEach(toolId => error(`tools: cannot resolve tool "${toolId}"`));
+
+    if (agent.output_schema && !getOutputSchema(agent.output_schema)) {
+        error(`output_schema: unknown schema "${agent.output_schema}"`);
+    }
+
+    if (agent.traffic !== undefined && !agent.version) {
+        error('traffic: variants must declare a version');
+    }
+
+    // Primary definitions live in <id>.yaml, variants in <id>.<version>.yaml
+    const baseName = file.replace(/\.ya?ml$/, '');
+    const expectedName = agent.traffic !== undefined ? `${agent.id}.${agent.version}` : agent.id;
+    if (baseName !== expectedName) {
+        warning(`expected file name ${expectedName}.yaml for agent "${agent.id}"`);
+    }
+
+    const hasErrors = issues.some(issue => issue.severity === 'error');
+    return { agent: hasErrors ? undefined : agent, issues };
+}
+
+/**
+ * Report references (from MCP rules, question config, ...) to agents or skills that do not exist
+ */
+export function findDanglingReferences(
+    references: AgentReference[],
+    agentIds: Set<string>,
+    skillIds: Set<string>
+): AgentValidationIssue[] {
+    const seen = new Set<string>();
+
+    return references
+        .filter(ref => !(ref.kind === 'agent' ? agentIds : skillIds).has(ref.id))
+        .filter(ref => {
+            const key = `${ref.kind}:${ref.id}:${ref.source}`;
+            if (seen.has(key)) return false;
+            seen.add(key);
+            return true;
+        })
+        .map(ref => ({
+            severity: 'warning' as const,
+            source: ref.source,
+            message: `references unknown ${ref.kind} "${ref.id}"`
+        }));
+}
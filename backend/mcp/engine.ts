@@ -1,456 +1,224 @@
 /**
  * MCP (Model Context Protocol) Engine
- * Handles auto-population, validation, and agent/skill triggering based on questionnaire answers
+ * Handles auto-population, validation, and agent/skill triggering based on questionnaire answers.
+ * Rules and lookup tables are declared in YAML/JSON files (see ./rule-files.ts and ./rules/).
  */
 
 import { logger } from '../utils/logger';
 import { getAgentManager } from '../agents/manager';
 import { getSkillRegistry } from '../skills/registry';
 import { Orchestrator } from '../orchestrator';
-
-export interface MCPRule {
-    trigger_field: string;
-    conditions?: Array<{ field: string; operator: 'equals' | 'contains' | 'exists'; value?: any }>;
-    auto_populate?: Array<{
-        target_field: string;
-        source: 'static' | 'lookup' | 'calculation' | 'agent' | 'skill';
-        value?: any;
-        lookup_table?: string;
-        formula?: string;
-        agent_id?: string;
-        skill_id?: string;
-        params_builder?: (answer: any, context: any) => any;
-    }>;
-    trigger_agents?: Array<{
-        agent_id: string;
-        condition?: (answer: any, context: any) => boolean;
-        prompt_template: string;
-    }>;
-    trigger_skills?: Array<{
-        skill_id: string;
-        params_builder: (answer: any, context: any) => any;
-    }>;
+import { AgentOutput, BusinessContext, FormulaError } from '../utils/types';
+import { AgentValidationIssue } from '../agents/validation';
+import { asNumber, evaluateFormula, parseFormula, ParsedFormula } from './expression';
+import { DEFAULT_MCP_RULES_DIR, MCPRuleCondition, MCPRuleDefinition, readRuleFiles } from './rule-files';
+
+export type MCPRule = MCPRuleDefinition & {
+    source: string; // "<file>#<rule id>"
+};
+
+export interface MCPProvenance {
+    source_field: string; // Answer that triggered the rule
+    source_value: any;
+    method: 'static' | 'lookup' | 'calculation';
+    via?: string; // Lookup table or formula
+    inputs?: Record<string, any>; // Answers a calculation read
+    description: string; // e.g. "derived from user_location via location_to_timezone"
 }
 
 export interface MCPProcessResult {
     auto_populated: Record<string, any>;
+    provenance: Record<string, MCPProvenance>; // Keyed like auto_populated
     agents_to_trigger: Array<{ agent_id: string; prompt: string }>;
     skills_to_execute: Array<{ skill_id: string; params: any }>;
     thinking_log: string[];
     validation_errors: string[];
+    rules_fired: string[]; // Ids of rules whose conditions held
+    rules_skipped: Array<{ rule_id: string; reason: string }>;
+}
+
+export interface MCPFieldReference {
+    field: string;
+    source: string; // "mcp:<rule id>"
+    role: 'trigger' | 'reads' | 'populates';
+}
+
+export interface MCPExecutionResult {
+    agent_outputs: AgentOutput[];
+    skill_results: Array<{ skill_id: string; success: boolean; result?: any; error?: string }>;
+    skipped: Array<{ kind: 'agent' | 'skill'; id: string; reason: string }>;
 }
 
 export class MCPEngine {
+    private rulesDir: string;
     private rules: Map<string, MCPRule[]> = new Map();
     private lookupTables: Map<string, any> = new Map();
-
-    constructor() {
-        this.initializeLookupTables();
-        this.initializeRules();
+    private formulas: Map<string, ParsedFormula> = new Map(); // Parsed calculation formulas by source
+    private issues: AgentValidationIssue[] = [];
+    private agentIds: Set<string> = new Set(); // Known ids, so rules cannot trigger missing agents/skills
+    private skillIds: Set<string> = new Set();
+
+    constructor(rulesDir?: string) {
+        this.rulesDir = rulesDir || DEFAULT_MCP_RULES_DIR;
+        this.loadRules();
     }
 
     /**
-     * Initialize lookup tables for auto-population
+     * Load lookup tables, then rules, from the rule files. Invalid rules are left out
+     * and reported by getValidationIssues().
      */
-    private initializeLookupTables(): void {
-        // Location to timezone mapping
-        this.lookupTables.set('location_to_timezone', {
-            'India': 'Asia/Kolkata',
-            'Hyderabad': 'Asia/Kolkata',
-            'Mumbai': 'Asia/Kolkata',
-            'Dubai': 'Asia/Dubai',
-            'USA': 'America/New_York',
-            'UK': 'Europe/London'
-        });
-
-        // Location to currency mapping
-        this.lookupTables.set('location_to_currency', {
-            'India': 'INR',
-            'Hyderabad': 'INR',
-            'Mumbai': 'INR',
-            'Dubai': 'AED',
-            'USA': 'USD',
-            'UK': 'GBP'
+    private loadRules(): void {
+        const { files, issues } = readRuleFiles(this.rulesDir);
+        this.issues = issues;
+        this.agentIds = new Set(getAgentManager().getAllAgents().map(agent => agent.id));
+        this.skillIds = new Set(getSkillRegistry().getAllSkills().map(skill => skill.id));
+
+        const tableFiles = new Map<string, string>();
+        files.forEach(({ file, lookupTables }) => {
+            Object.keys(lookupTables).forEach(name => {
+                if (tableFiles.has(name)) {
+                    this.issues.push({
+                        severity: 'error',
+                        source: file,
+                        message: `duplicate lookup table "${name}" (already defined in ${tableFiles.get(name)})`
+                    });
+                    return;
+                }
+                tableFiles.set(name, file);
+                this.lookupTables.set(name, lookupTables[name]);
+            });
         });
 
-        // Industry to revenue stream templates
-        this.lookupTables.set('industry_revenue_templates', {
-            'SaaS': ['Subscription Revenue', 'Professional Services', 'Add-on Revenue'],
-            'Healthcare': ['Clinical Revenue', 'Pharmacy Revenue', 'Lab & Diagnostics'],
-            'Retail': ['Product Sales', 'E-commerce Revenue', 'Services Revenue'],
-            'Manufacturing': ['Product Sales', 'Spare Parts', 'Maintenance Services']
-        });
+        const ruleSources = new Map<string, string>();
+        files.forEach(({ rules }) => rules.forEach(({ rule, source }) => {
+            if (ruleSources.has(rule.id)) {
+                this.issues.push({
+                    severity: 'error',
+                    source,
+                    message: `duplicate rule id "${rule.id}" (already defined in ${ruleSources.get(rule.id)})`
+                });
+                return;
+            }
+            try {
+                this.addRule({ ...rule, source });
+                ruleSources.set(rule.id, source);
+            } catch (error) {
+                this.issues.push({ severity: 'error', source, message: error instanceof Error ? error.message : String(error) });
+            }
+        }));
 
-        // Industry to gross margin benchmarks
-        this.lookupTables.set('industry_margins', {
-            'SaaS': 0.75,
-            'Professional Services': 0.60,
-            'Healthcare': 0.40,
-            'Retail': 0.30,
-            'Manufacturing': 0.25,
-            'E-commerce': 0.35
+        this.issues.forEach(issue => logger.warn(`Invalid MCP rule in ${issue.source}: ${issue.message}`));
+        logger.info(`MCP rules initialized: ${ruleSources.size} rules on ${this.rules.size} trigger fields, ${this.lookupTables.size} lookup tables`, {
+            dir: this.rulesDir
         });
-
-        logger.info('MCP lookup tables initialized');
     }
 
     /**
-     * Initialize MCP rules for auto-population and agent triggering
-     * Updated for complete 147-question questionnaire
+     * Add a rule to the MCP engine. Formulas, lookup tables, parameter templates and the
+     * triggered agent/skill ids are validated here so a broken rule fails at load time,
+     * not on a user's answer.
      */
-    private initializeRules(): void {
-        // ==========================================
-        // PHASE 1: AUTHENTICATION & ONBOARDING
-        // ==========================================
-
-        // Rule: Location detection triggers timezone and currency
-        this.addRule({
-            trigger_field: 'user_location',
-            auto_populate: [
-                {
-                    target_field: 'timezone',
-                    source: 'lookup',
-                    lookup_table: 'location_to_timezone'
-                },
-                {
-                    target_field: 'currency',
-                    source: 'lookup',
-                    lookup_table: 'location_to_currency'
-                }
-            ]
-        });
-
-        // ==========================================
-        // PHASE 2: USER DISCOVERY
-        // ==========================================
-
-        // Rule: Industry selection triggers revenue templates and margin benchmarks
-        this.addRule({
-            trigger_field: 'target_industries',
-            auto_populate: [
-                {
-                    target_field: 'revenue_stream_templates',
-                    source: 'lookup',
-                    lookup_table: 'industry_revenue_templates'
-                },
-                {
-                    target_field: 'gross_margin_benchmark',
-                    source: 'lookup',
-                    lookup_table: 'industry_margins'
-                }
-            ],
-            trigger_agents: [
-                {
-                    agent_id: 'market_analyst',
-                    prompt_template: 'Analyze the {{target_industries}} industry: market trends, growth potential, key success factors, and competitive dynamics in {{user_location}}.'
-                }
-            ]
-        });
-
-        // ==========================================
-        // PHASE 3: BUSINESS CONTEXT
-        // ==========================================
-
-        // Rule: Business idea triggers problem validation
-        this.addRule({
-            trigger_field: 'business_idea_detail',
-            trigger_agents: [
-                {
-                    agent_id: 'problem_validator',
-                    prompt_template: 'Analyze this business idea: "{{business_idea_detail}}". Validate the problem-solution fit, identify potential challenges, and suggest improvements.'
-                }
-            ]
-        });
-
-        // ==========================================
-        // PHASE 4: MARKET & INDUSTRY ANALYSIS
-        // ==========================================
-
-        // Rule: Primary market + customer type triggers market sizing
-        this.addRule({
-            trigger_field: 'customer_type',
-            conditions: [
-                { field: 'primary_market', operator: 'exists' },
-                { field: 'target_industries', operator: 'exists' }
-            ],
-            trigger_skills: [
-                {
-                    skill_id: 'market_sizing_calculator',
-                    params_builder: (answer, context) => ({
-                        industry: Array.isArray(context.target_industries)
-                            ? context.target_industries[0]
-                            : context.target_industries || 'General',
-                        geography: context.primary_market || 'India',
-                        business_model: answer
-                    })
-                }
-            ],
-            trigger_agents: [
-                {
-                    agent_id: 'market_analyst',
-                    prompt_template: 'Analyze the {{customer_type}} market for {{target_industries}} in {{primary_market}}. Calculate TAM, SAM, SOM and provide market entry strategy.'
-                }
-            ]
-        });
-
-        // Rule: Customer problem triggers problem validation
-        this.addRule({
-            trigger_field: 'customer_problem',
-            trigger_agents: [
-                {
-                    agent_id: 'problem_validator',
-                    prompt_template: 'Validate this customer problem: "{{customer_problem}}". Assess severity, frequency, willingness to pay, and existing solutions in the {{target_industries}} industry.'
-                }
-            ]
-        });
-
-        // ==========================================
-        // PHASE 5: REVENUE MODEL & FINANCIAL PROJECTIONS
-        // ==========================================
-
-        // Rule: Revenue target triggers financial modeling
-        this.addRule({
-            trigger_field: 'revenue_target_year1',
-            conditions: [
-                { field: 'revenue_model', operator: 'exists' },
-                { field: 'target_industries', operator: 'exists' }
-            ],
-            trigger_skills: [
-                {
-                    skill_id: 'financial_modeling',
-                    params_builder: (answer, context) => {
-                        const revenueTarget = typeof answer === 'number'
-                            ? answer
-                            : parseFloat(String(answer).replace(/[^0-9.]/g, '')) || 0;
-
-                        // Parse growth rate
-                        const growthRateStr = context.growth_rate || '50-100';
-                        let growthRate = 0.75; // Default
-                        if (growthRateStr.includes('20-40')) growthRate = 0.30;
-                        if (growthRateStr.includes('50-100')) growthRate = 0.75;
-                        if (growthRateStr.includes('100-200')) growthRate = 1.50;
-                        if (growthRateStr.includes('200+')) growthRate = 2.00;
-
-                        return {
-                            revenue_target: revenueTarget,
-                            industry: Array.isArray(context.target_industries)
-                                ? context.target_industries[0]
-                                : context.target_industries || 'General',
-                            business_model: context.revenue_model,
-                            growth_rate: growthRate
-                        };
-                    }
-                }
-            ],
-            trigger_agents: [
-                {
-                    agent_id: 'financial_modeler',
-                    prompt_template: 'Validate if ₹{{revenue_target_year1}} Year 1 revenue target is realistic for a {{revenue_model}} business in {{target_industries}}. Provide detailed 5-year financial projections with {{growth_rate}} growth rate.'
-                }
-            ]
-        });
-
-        // Rule: CAC + LTV triggers ratio calculation
-        this.addRule({
-            trigger_field: 'ltv',
-            conditions: [{ field: 'target_cac', operator: 'exists' }],
-            auto_populate: [
-                {
-                    target_field: 'ltv_cac_ratio',
-                    source: 'calculation',
-                    formula: 'ltv / target_cac'
-                }
-            ]
-        });
-
-        // Rule: Marketing budget + monthly customers triggers CAC calculation
-        this.addRule({
-            trigger_field: 'marketing_budget',
-            conditions: [{ field: 'monthly_customers', operator: 'exists' }],
-            auto_populate: [
-                {
-                    target_field: 'calculated_cac',
-                    source: 'calculation',
-                    formula: 'marketing_budget / monthly_customers'
-                }
-            ]
-        });
-
-        // ==========================================
-        // PHASE 6: COMPETITIVE ANALYSIS
-        // ==========================================
-
-        // Rule: Competitor list triggers competitive analysis
-        this.addRule({
-            trigger_field: 'top_competitors',
-            conditions: [
-                { field: 'target_industries', operator: 'exists' },
-                { field: 'primary_market', operator: 'exists' }
-            ],
-            trigger_skills: [
-                {
-                    skill_id: 'competitor_analysis',
-                    params_builder: (answer, context) => ({
-                        competitors: Array.isArray(answer) ? answer : [answer],
-                        industry: Array.isArray(context.target_industries)
-                            ? context.target_industries[0]
-                            : context.target_industries || 'General',
-                        geography: context.primary_market || 'India',
-                        your_business: context.business_idea_detail || context.customer_problem
-                    })
-                }
-            ]
+    private addRule(rule: MCPRule): void {
+        const check = (what: string, formula: string) => {
+            try {
+                this.compileFormula(formula);
+            } catch (error) {
+                const message = error instanceof Error ? error.message : String(error);
+                throw new FormulaError(
+                    `Invalid formula for ${what}: ${message}`,
+                    formula,
+                    error instanceof FormulaError ? error.details : undefined
+                );
+            }
+        };
+        const checkConditions = (what: string, conditions?: MCPRuleCondition[]) => (conditions || []).forEach(condition => {
+            if ('expression' in condition) check(what, condition.expression);
         });
 
-        // Rule: Competitive advantage triggers positioning analysis
-        this.addRule({
-            trigger_field: 'competitive_advantage',
-            trigger_agents: [
-                {
-                    agent_id: 'positioning_analyst',
-                    prompt_template: 'Analyze this competitive advantage: "{{competitive_advantage}}". Assess defensibility, sustainability, and market positioning strategy against competitors: {{top_competitors}}.'
-                }
-            ]
+        checkConditions('conditions', rule.conditions);
+        (rule.auto_populate || []).forEach(populate => {
+            if (populate.source === 'calculation') check(populate.target_field, populate.formula);
+            if (populate.source === 'lookup' && !this.lookupTables.has(populate.lookup_table)) {
+                throw new Error(`${populate.target_field}: unknown lookup table "${populate.lookup_table}"`);
+            }
         });
-
-        // ==========================================
-        // PHASE 7: OPERATIONS & TEAM
-        // ==========================================
-
-        // Rule: Licenses and regulations trigger compliance check
-        this.addRule({
-            trigger_field: 'licenses_needed',
-            conditions: [
-                { field: 'target_industries', operator: 'exists' },
-                { field: 'primary_market', operator: 'exists' }
-            ],
-            trigger_skills: [
-                {
-                    skill_id: 'compliance_checker',
-                    params_builder: (answer, context) => ({
-                        industry: Array.isArray(context.target_industries)
-                            ? context.target_industries[0]
-                            : context.target_industries || 'General',
-                        geography: context.primary_market || 'India',
-                        business_type: context.customer_type || 'B2C',
-                        licenses: Array.isArray(answer) ? answer : [answer],
-                        regulations: context.regulations || []
-                    })
-                }
-            ]
+        (rule.trigger_agents || []).forEach(trigger => {
+            if (!this.agentIds.has(trigger.agent_id)) throw new Error(`trigger_agents: unknown agent "${trigger.agent_id}"`);
+            checkConditions(`${trigger.agent_id} conditions`, trigger.conditions);
         });
-
-        // Rule: Team size + salary budget triggers burn rate calculation
-        this.addRule({
-            trigger_field: 'salary_budget',
-            conditions: [{ field: 'team_size_year1', operator: 'exists' }],
-            auto_populate: [
-                {
-                    target_field: 'monthly_burn_rate',
-                    source: 'calculation',
-                    formula: 'salary_budget * 1.3' // Add 30% for overhead
-                }
-            ]
+        (rule.trigger_skills || []).forEach(trigger => {
+            if (!this.skillIds.has(trigger.skill_id)) throw new Error(`trigger_skills: unknown skill "${trigger.skill_id}"`);
+            checkConditions(`${trigger.skill_id} conditions`, trigger.conditions);
+            collectTemplates(trigger.params).formulas.forEach(formula => check(`${trigger.skill_id} params`, formula));
         });
 
-        // ==========================================
-        // PHASE 8: GO-TO-MARKET STRATEGY
-        // ==========================================
-
-        // Rule: Acquisition channels trigger GTM strategy
-        this.addRule({
-            trigger_field: 'acquisition_channels',
-            conditions: [
-                { field: 'customer_type', operator: 'exists' },
-                { field: 'marketing_budget', operator: 'exists' }
-            ],
-            trigger_agents: [
-                {
-                    agent_id: 'gtm_strategist',
-                    prompt_template: 'Create a go-to-market strategy for {{customer_type}} customers using channels: {{acquisition_channels}}. Budget: {{marketing_budget}}. Target: {{monthly_customers}} customers/month. Provide detailed channel mix and CAC targets.'
-                }
-            ]
-        });
+        const existing = this.rules.get(rule.trigger_field) || [];
+        existing.push(rule);
+        this.rules.set(rule.trigger_field, existing);
+    }
 
-        // ==========================================
-        // PHASE 9: FUNDING STRATEGY
-        // ==========================================
-
-        // Rule: Capital needed + equity dilution triggers valuation calculation
-        this.addRule({
-            trigger_field: 'equity_dilution',
-            conditions: [{ field: 'capital_needed', operator: 'exists' }],
-            auto_populate: [
-                {
-                    target_field: 'implied_valuation',
-                    source: 'calculation',
-                    formula: '(capital_needed / equity_dilution) * 100'
-                }
-            ]
-        });
+    /**
+     * Problems found while loading the rule files (invalid rules are not active)
+     */
+    getValidationIssues(): AgentValidationIssue[] {
+        return [...this.issues];
+    }
 
-        // Rule: Funding stage triggers investor matching
-        this.addRule({
-            trigger_field: 'funding_stage',
-            conditions: [
-                { field: 'target_industries', operator: 'exists' },
-                { field: 'revenue_target_year1', operator: 'exists' }
-            ],
-            trigger_agents: [
-                {
-                    agent_id: 'funding_advisor',
-                    prompt_template: 'Recommend {{funding_stage}} funding strategy for {{target_industries}} business with Year 1 revenue target of ₹{{revenue_target_year1}}. Capital needed: ₹{{capital_needed}}. Suggest investor types, typical terms, and fundraising timeline.'
-                }
-            ]
-        });
+    /**
+     * Every loaded rule, grouped by trigger field
+     */
+    getRules(): MCPRule[] {
+        return Array.from(this.rules.values()).reduce((all, rules) => all.concat(rules), [] as MCPRule[]);
+    }
 
-        // ==========================================
-        // PHASE 10: RISK ASSESSMENT
-        // ==========================================
-
-        // Rule: Key risks trigger risk analysis
-        this.addRule({
-            trigger_field: 'key_risks',
-            trigger_agents: [
-                {
-                    agent_id: 'risk_analyst',
-                    prompt_template: 'Analyze these business risks: {{key_risks}}. For each risk, assess: (1) Probability, (2) Impact, (3) Mitigation strategies, (4) Early warning indicators. Industry: {{target_industries}}, Market: {{primary_market}}.'
-                }
-            ]
-        });
+    /**
+     * Every agent/skill id referenced by the rules (for dangling-reference checks)
+     */
+    getReferences(): Array<{ kind: 'agent' | 'skill'; id: string; source: string }> {
+        const references: Array<{ kind: 'agent' | 'skill'; id: string; source: string }> = [];
 
-        // ==========================================
-        // PHASE 11: FINAL REVIEW & OUTPUT
-        // ==========================================
-
-        // Rule: Final confirmation triggers business model generation
-        this.addRule({
-            trigger_field: 'final_confirmation',
-            conditions: [{ field: 'output_formats', operator: 'exists' }],
-            trigger_skills: [
-                {
-                    skill_id: 'business_model_generator',
-                    params_builder: (answer, context) => ({
-                        all_responses: context,
-                        output_formats: context.output_formats || ['pdf'],
-                        detail_level: context.detail_level || 'standard',
-                        include_ai_recommendations: context.ai_recommendations === 'yes_include'
-                    })
-                }
-            ]
+        this.getRules().forEach(rule => {
+            const source = `mcp:${rule.id}`;
+            (rule.trigger_agents || []).forEach(trigger => references.push({ kind: 'agent', id: trigger.agent_id, source }));
+            (rule.trigger_skills || []).forEach(trigger => references.push({ kind: 'skill', id: trigger.skill_id, source }));
         });
 
-        logger.info(`MCP rules initialized: ${this.rules.size} trigger fields`);
+        return references;
     }
 
-
     /**
-     * Add a rule to the MCP engine
+     * Every answer field the rules trigger on, read or populate (for unknown-field checks)
      */
-    private addRule(rule: MCPRule): void {
-        const existing = this.rules.get(rule.trigger_field) || [];
-        existing.push(rule);
-        this.rules.set(rule.trigger_field, existing);
+    getFieldReferences(): MCPFieldReference[] {
+        const references: MCPFieldReference[] = [];
+
+        this.getRules().forEach(rule => {
+            const source = `mcp:${rule.id}`;
+            const reads = (field: string) => references.push({ field, source, role: 'reads' });
+            const readConditions = (conditions?: MCPRuleCondition[]) => (conditions || []).forEach(condition => {
+                if ('expression' in condition) this.compileFormula(condition.expression).fields.forEach(reads);
+                else reads(condition.field);
+            });
+
+            references.push({ field: rule.trigger_field, source, role: 'trigger' });
+            readConditions(rule.conditions);
+            (rule.auto_populate || []).forEach(populate => {
+                references.push({ field: populate.target_field, source, role: 'populates' });
+                if (populate.source === 'calculation') this.compileFormula(populate.formula).fields.forEach(reads);
+            });
+            (rule.trigger_agents || []).forEach(trigger => {
+                readConditions(trigger.conditions);
+                templateFields(trigger.prompt_template).forEach(reads);
+            });
+            (rule.trigger_skills || []).forEach(trigger => {
+                readConditions(trigger.conditions);
+                const templates = collectTemplates(trigger.params);
+                templates.fields.forEach(reads);
+                templates.formulas.forEach(formula => this.compileFormula(formula).fields.forEach(reads));
+            });
+        });
+
+        return references;
     }
 
     /**
@@ -463,10 +231,13 @@ export class MCPEngine {
     ): Promise<MCPProcessResult> {
         const result: MCPProcessResult = {
             auto_populated: {},
+            provenance: {},
             agents_to_trigger: [],
             skills_to_execute: [],
             thinking_log: [],
-            validation_errors: []
+            validation_errors: [],
+            rules_fired: [],
+            rules_skipped: []
         };
 
         logger.info('Processing answer with MCP', { questionId, answer });
@@ -475,29 +246,46 @@ export class MCPEngine {
         // Get rules for this question
         const rules = this.rules.get(questionId) || [];
 
+        // Rules see the answer being submitted even before it is saved with the others
+        const context = { ...allAnswers, [questionId]: answer };
+
         for (const rule of rules) {
             // Check conditions
-            if (rule.conditions && !this.checkConditions(rule.conditions, allAnswers)) {
-                logger.debug('Rule conditions not met, skipping', { questionId, rule });
+            const unmet = this.checkConditions(rule.conditions, context);
+            if (unmet) {
+                logger.debug('Rule conditions not met, skipping', { questionId, rule: rule.id, unmet });
+                result.rules_skipped.push({ rule_id: rule.id, reason: unmet });
                 continue;
             }
+            result.rules_fired.push(rule.id);
 
             // Process auto-population
             if (rule.auto_populate && rule.auto_populate.length > 0) {
                 result.thinking_log.push('Auto-populating related fields...');
                 for (const autoPopRule of rule.auto_populate) {
                     try {
-                        const value = await this.resolveAutoPopulation(autoPopRule, answer, allAnswers);
+                        const value = await this.resolveAutoPopulation(autoPopRule, answer, context);
                         if (value !== undefined) {
                             result.auto_populated[autoPopRule.target_field] = value;
+                            result.provenance[autoPopRule.target_field] = this.describeProvenance(
+                                autoPopRule,
+                                questionId,
+                                answer,
+                                context
+                            );
                             logger.debug('Auto-populated field', {
                                 field: autoPopRule.target_field,
                                 value
                             });
                         }
                     } catch (error) {
-                        logger.error('Auto-population failed', error);
-                        result.validation_errors.push(`Failed to auto-populate ${autoPopRule.target_field}`);
+                        if (error instanceof FormulaError) {
+                            logger.warn('Formula evaluation failed', { field: autoPopRule.target_field, formula: error.formula, error: error.message });
+                            result.validation_errors.push(`Failed to auto-populate ${autoPopRule.target_field}: ${error.message}`);
+                        } else {
+                            logger.error('Auto-population failed', error);
+                            result.validation_errors.push(`Failed to auto-populate ${autoPopRule.target_field}`);
+                        }
                     }
                 }
             }
@@ -506,11 +294,8 @@ export class MCPEngine {
             if (rule.trigger_agents) {
                 result.thinking_log.push('Identifying relevant AI agents...');
                 for (const agentRule of rule.trigger_agents) {
-                    if (!agentRule.condition || agentRule.condition(answer, allAnswers)) {
-                        const prompt = this.interpolateTemplate(agentRule.prompt_template, {
-                            ...allAnswers,
-                            [questionId]: answer
-                        });
+                    if (!this.checkConditions(agentRule.conditions, context)) {
+                        const prompt = this.interpolateTemplate(agentRule.prompt_template, context);
                         result.agents_to_trigger.push({
                             agent_id: agentRule.agent_id,
                             prompt
@@ -523,16 +308,24 @@ export class MCPEngine {
             if (rule.trigger_skills) {
                 result.thinking_log.push('Preparing business calculations...');
                 for (const skillRule of rule.trigger_skills) {
-                    const params = skillRule.params_builder(answer, allAnswers);
-                    result.skills_to_execute.push({
-                        skill_id: skillRule.skill_id,
-                        params
-                    });
+                    if (this.checkConditions(skillRule.conditions, context)) continue;
+                    try {
+                        result.skills_to_execute.push({
+                            skill_id: skillRule.skill_id,
+                            params: this.resolveTemplate(skillRule.params, answer, context)
+                        });
+                    } catch (error) {
+                        logger.warn('Skill parameters could not be built', { rule: rule.id, skill: skillRule.skill_id, error });
+                        result.validation_errors.push(
+                            `Skipped ${skillRule.skill_id}: ${error instanceof Error ? error.message : String(error)}`
+                        );
+                    }
                 }
             }
         }
 
         logger.info('MCP processing complete', {
+            rules_fired: result.rules_fired,
             auto_populated_count: Object.keys(result.auto_populated).length,
             agents_count: result.agents_to_trigger.length,
             skills_count: result.skills_to_execute.length
@@ -542,26 +335,181 @@ export class MCPEngine {
     }
 
     /**
-     * Check if conditions are met
+     * Run the skills and agents a processed answer triggered. Ids the registries do not know
+     * are skipped; agents need an orchestrator and are skipped without one.
+     */
+    async executeTriggers(
+        result: MCPProcessResult,
+        orchestrator?: Orchestrator,
+        context?: BusinessContext
+    ): Promise<MCPExecutionResult> {
+        const execution: MCPExecutionResult = { agent_outputs: [], skill_results: [], skipped: [] };
+        const skillRegistry = getSkillRegistry();
+        const agentManager = getAgentManager();
+
+        const skillRuns = result.skills_to_execute.map(async ({ skill_id, params }) => {
+            if (!skillRegistry.hasSkill(skill_id)) {
+                execution.skipped.push({ kind: 'skill', id: skill_id, reason: 'unknown skill' });
+                return;
+            }
+            try {
+                const output = await skillRegistry.execute(skill_id, params, {
+                    sessionId: context?.session_id,
+                    userId: context?.user_id
+                });
+                execution.skill_results.push({ skill_id, success: true, result: output });
+            } catch (error) {
+                execution.skill_results.push({
+                    skill_id,
+                    success: false,
+                    error: error instanceof Error ? error.message : String(error)
+                });
+            }
+        });
+
+        const agentRuns = result.agents_to_trigger.map(async ({ agent_id, prompt }, index) => {
+            const agent = agentManager.getAgent(agent_id, context?.session_id);
+            if (!agent) {
+                execution.skipped.push({ kind: 'agent', id: agent_id, reason: 'unknown agent' });
+                return;
+            }
+            if (!orchestrator) {
+                execution.skipped.push({ kind: 'agent', id: agent_id, reason: 'no orchestrator' });
+                return;
+            }
+            const output = await orchestrator.executeTask({
+                id: `mcp_${agent_id}_${index}`,
+                agent_id,
+                agent_name: agent.name,
+                description: prompt,
+                skills: agent.skills,
+                context: context?.previous_responses || {},
+                dependencies: [],
+                priority: 1
+            }, context);
+            execution.agent_outputs.push(output);
+        });
+
+        await Promise.all([...skillRuns, ...agentRuns]);
+
+        logger.info('MCP triggers executed', {
+            agents: execution.agent_outputs.map(output => `${output.agent_id}:${output.success ? 'ok' : 'failed'}`),
+            skills: execution.skill_results.map(run => `${run.skill_id}:${run.success ? 'ok' : 'failed'}`),
+            skipped: execution.skipped.map(entry => `${entry.kind}:${entry.id}`)
+        });
+
+        return execution;
+    }
+
+    /**
+     * Record where an auto-populated value came from
+     */
+    private describeProvenance(
+        rule: NonNullable<MCPRule['auto_populate']>[number],
+        questionId: string,
+        answer: any,
+        context: Record<string, any>
+    ): MCPProvenance {
+        const base = { source_field: questionId, source_value: answer };
+
+        switch (rule.source) {
+            case 'lookup':
+                return {
+                    ...base,
+                    method: 'lookup',
+                    via: rule.lookup_table,
+                    description: `derived from ${questionId} via ${rule.lookup_table}`
+                };
+
+            case 'calculation': {
+                const inputs: Record<string, any> = {};
+                this.compileFormula(rule.formula || '').fields
+                    .filter(name => context[name] !== undefined)
+                    .forEach(name => { inputs[name] = context[name]; });
+                return {
+                    ...base,
+                    method: 'calculation',
+                    via: rule.formula,
+                    inputs,
+                    description: `calculated from ${Object.keys(inputs).join(', ') || questionId} via ${rule.formula}`
+                };
+            }
+
+            default:
+                return { ...base, method: 'static', description: `set when ${questionId} is answered` };
+        }
+    }
+
+    /**
+     * Check conditions; returns the first unmet one (described), or null when all hold
      */
     private checkConditions(
-        conditions: Array<{ field: string; operator: string; value?: any }>,
+        conditions: MCPRuleCondition[] | undefined,
         allAnswers: Record<string, any>
-    ): boolean {
-        return conditions.every(condition => {
-            const fieldValue = allAnswers[condition.field];
-
-            switch (condition.operator) {
-                case 'exists':
-                    return fieldValue !== undefined && fieldValue !== null && fieldValue !== '';
-                case 'equals':
-                    return fieldValue === condition.value;
-                case 'contains':
-                    return typeof fieldValue === 'string' && fieldValue.includes(condition.value);
-                default:
-                    return false;
+    ): string | null {
+        for (const condition of conditions || []) {
+            if ('expression' in condition) {
+                try {
+                    const value = this.evaluateFormula(condition.expression, allAnswers);
+                    if (value === undefined || value === false || value === 0 || value === '') {
+                        return `${condition.expression} is false`;
+                    }
+                } catch (error) {
+                    return `${condition.expression}: ${error instanceof Error ? error.message : String(error)}`;
+                }
+                continue;
             }
-        });
+
+            if (!this.conditionHolds(condition, allAnswers[condition.field])) {
+                return condition.value === undefined
+                    ? `${condition.field} ${condition.operator}`
+                    : `${condition.field} ${condition.operator} ${JSON.stringify(condition.value)}`;
+            }
+        }
+        return null;
+    }
+
+    private conditionHolds(condition: Exclude<MCPRuleCondition, { expression: string }>, fieldValue: any): boolean {
+        const exists = fieldValue !== undefined && fieldValue !== null && fieldValue !== ''
+            && !(Array.isArray(fieldValue) && fieldValue.length === 0);
+        const values: any[] = Array.isArray(fieldValue) ? fieldValue : [fieldValue];
+        const same = (a: any, b: any) => a === b || (asNumber(a) !== null && asNumber(a) === asNumber(b));
+        const compare = (test: (a: number, b: number) => boolean) => {
+            const a = asNumber(fieldValue);
+            const b = asNumber(condition.value);
+            return a !== null && b !== null && test(a, b);
+        };
+
+        switch (condition.operator) {
+            case 'exists':
+                return exists;
+            case 'not_exists':
+                return !exists;
+            case 'equals':
+                return exists && same(fieldValue, condition.value);
+            case 'not_equals':
+                return !exists || !same(fieldValue, condition.value);
+            case 'contains':
+                return exists && values.some(value => same(value, condition.value) || String(value).includes(String(condition.value)));
+            case 'not_contains':
+                return !exists || !values.some(value => same(value, condition.value) || String(value).includes(String(condition.value)));
+            case 'in':
+                return exists && values.some(value => (condition.value as any[]).some(option => same(value, option)));
+            case 'not_in':
+                return !exists || !values.some(value => (condition.value as any[]).some(option => same(value, option)));
+            case 'gt':
+                return compare((a, b) => a > b);
+            case 'gte':
+                return compare((a, b) => a >= b);
+            case 'lt':
+                return compare((a, b) => a < b);
+            case 'lte':
+                return compare((a, b) => a <= b);
+            case 'matches':
+                return exists && values.some(value => new RegExp(String(condition.value), 'i').test(String(value)));
+            default:
+                return false;
+        }
     }
 
     /**
@@ -578,14 +526,7 @@ export class MCPEngine {
 
             case 'lookup':
                 if (!rule.lookup_table) return undefined;
-                const table = this.lookupTables.get(rule.lookup_table);
-                if (!table) return undefined;
-
-                // Try direct lookup or partial match
-                const key = Object.keys(table).find(key =>
-                    answer?.toString().toLowerCase().includes(key.toLowerCase())
-                );
-                return table[answer] || (key ? table[key] : undefined);
+                return this.lookup(rule.lookup_table, answer);
 
             case 'calculation':
                 if (!rule.formula) return undefined;
@@ -597,42 +538,138 @@ export class MCPEngine {
     }
 
     /**
-     * Evaluate a formula with context
+     * Look a value up in a table: exact key first, then the first key the value contains
      */
-    private evaluateFormula(formula: string, context: Record<string, any>): any {
-        try {
-            // Simple formula evaluation (extend as needed)
-            let expression = formula;
-
-            // Replace variables with values
-            Object.keys(context).forEach(key => {
-                const value = context[key];
-                if (typeof value === 'number') {
-                    expression = expression.replace(new RegExp(key, 'g'), value.toString());
-                }
-            });
+    private lookup(tableName: string, value: any): any {
+        const table = this.lookupTables.get(tableName);
+        if (!table || value === undefined || value === null) return undefined;
+
+        const key = Object.keys(table).find(key =>
+            value.toString().toLowerCase().includes(key.toLowerCase())
+        );
+        return table[value] || (key ? table[key] : undefined);
+    }
 
-            // Evaluate (use a safe eval alternative in production)
-            return eval(expression);
+    /**
+     * Parse a formula once (see ./expression.ts); throws FormulaError when it is invalid
+     */
+    private compileFormula(formula: string): ParsedFormula {
+        let parsed = this.formulas.get(formula);
+        if (!parsed) {
+            parsed = parseFormula(formula, { tables: Array.from(this.lookupTables.keys()) });
+            this.formulas.set(formula, parsed);
+        }
+        return parsed;
+    }
+
+    /**
+     * Check a formula before it is used in a rule; returns the answer ids it reads
+     */
+    validateFormula(formula: string): { valid: true; fields: string[] } | { valid: false; error: string } {
+        try {
+            return { valid: true, fields: this.compileFormula(formula).fields };
         } catch (error) {
-            logger.error('Formula evaluation failed', { formula, error });
-            return undefined;
+            return { valid: false, error: error instanceof Error ? error.message : String(error) };
         }
     }
 
     /**
-     * Interpolate template with context
+     * Evaluate a formula with context. A null result (e.g. an unmatched lookup) populates nothing;
+     * missing or non-numeric inputs, division by zero etc. throw FormulaError.
+     */
+    private evaluateFormula(formula: string, context: Record<string, any>): any {
+        const parsed = this.compileFormula(formula);
+        const value = evaluateFormula(parsed, context, {
+            lookup: (table, key) => this.lookup(table, key)
+        });
+        return value === null ? undefined : value;
+    }
+
+    /**
+     * Build skill parameters from a template (see ./rule-files.ts)
+     */
+    private resolveTemplate(template: any, answer: any, context: Record<string, any>): any {
+        if (typeof template === 'string') {
+            const formula = template.match(FORMULA_TEMPLATE);
+            if (formula) return this.evaluateFormula(formula[1], context);
+
+            const reference = template.match(REFERENCE_TEMPLATE);
+            if (reference) return resolveReference(reference[1], answer, context);
+
+            return template.includes('{{') ? this.interpolateTemplate(template, context) : template;
+        }
+        if (Array.isArray(template)) {
+            return template.map(item => this.resolveTemplate(item, answer, context));
+        }
+        if (template && typeof template === 'object') {
+            if (typeof template.$field === 'string') {
+                const value = resolveReference(template.$field, answer, context);
+                return value === undefined || value === null || value === '' ? template.default : value;
+            }
+            const resolved: Record<string, any> = {};
+            Object.keys(template).forEach(key => {
+                const value = this.resolveTemplate(template[key], answer, context);
+                if (value !== undefined) resolved[key] = value;
+            });
+            return resolved;
+        }
+        return template;
+    }
+
+    /**
+     * Interpolate template with context; placeholders without a context value are left as is
      */
     private interpolateTemplate(template: string, context: Record<string, any>): string {
-        let result = template;
+        return template.replace(FIELD_PLACEHOLDER, (placeholder: string, key: string) =>
+            Object.prototype.hasOwnProperty.call(context, key) ? String(context[key]) : placeholder
+        );
+    }
+}
 
-        Object.keys(context).forEach(key => {
-            const value = context[key];
-            result = result.replace(new RegExp(`{{${key}}}`, 'g'), String(value));
-        });
+const FORMULA_TEMPLATE = /^\{\{\s*=\s*([\s\S]+?)\s*\}\}$/;
+const REFERENCE_TEMPLATE = /^\{\{\s*(\$?[A-Za-z_][A-Za-z0-9_]*)\s*\}\}$/;
+const FIELD_PLACEHOLDER = /\{\{\s*([A-Za-z_][A-Za-z0-9_]*)\s*\}\}/g;
 
-        return result;
+function resolveReference(name: string, answer: any, context: Record<string, any>): any {
+    if (name === '$answer') return answer;
+    if (name === '$answers') return context;
+    return context[name];
+}
+
+/**
+ * Field ids named by "{{field}}" placeholders in a prompt or string template
+ */
+function templateFields(template: string): string[] {
+    const fields: string[] = [];
+    let match: RegExpExecArray | null;
+    FIELD_PLACEHOLDER.lastIndex = 0;
+    while ((match = FIELD_PLACEHOLDER.exec(template)) !== null) {
+        if (!fields.includes(match[1])) fields.push(match[1]);
+    }
+    return fields;
+}
+
+/**
+ * Formulas and field references in a parameter template
+ */
+function collectTemplates(template: any, found: { formulas: string[]; fields: string[] } = { formulas: [], fields: [] }) {
+    if (typeof template === 'string') {
+        const formula = template.match(FORMULA_TEMPLATE);
+        const reference = template.match(REFERENCE_TEMPLATE);
+        if (formula) found.formulas.push(formula[1]);
+        else if (reference) {
+            if (!reference[1].startsWith('$')) found.fields.push(reference[1]);
+        } else found.fields.push(...templateFields(template));
+    } else if (Array.isArray(template)) {
+        template.forEach(item => collectTemplates(item, found));
+    } else if (template && typeof template === 'object') {
+        if (typeof template.$field === 'string') {
+            if (!template.$field.startsWith('$')) found.fields.push(template.$field);
+        } else {
+            Object.keys(template).forEach(key => collectTemplates(template[key], found));
+        }
     }
+    return found;
 }
 
 // Export singleton instance
@@ -640,7 +677,7 @@ let mcpEngineInstance: MCPEngine | null = null;
 
 export function getMCPEngine(): MCPEngine {
     if (!mcpEngineInstance) {
-        mcpEngineInstance = new MCPEngine();
+        mcpEngineInstance = new MCPEngine(process.env.MCP_RULES_DIR || undefined);
     }
     return mcpEngineInstance;
 }
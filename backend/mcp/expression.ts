@@ -0,0 +1,567 @@
+/**
+ * MCP Formula Expressions
+ * A small, sandboxed expression language for calculated fields in MCP rules, e.g.
+ *   round(capital_needed / (salary_budget * 1.3), 1)
+ *   ltv / target_cac >= 3 ? 'healthy' : 'needs work'
+ *   target_cac / (arpu * lookup('industry_margins', target_industries))
+ *
+ * Supports numbers, strings, true/false/null, answer ids, arithmetic (+ - * / % ^),
+ * comparisons (< <= > >= == !=), and/or/not, `cond ? a : b` and the functions below.
+ * Multi-select answers read as comma-joined text; first() and contains() see the list.
+ * Formulas are parsed into a tree and interpreted; nothing is ever handed to eval.
+ */
+
+import { FormulaError } from '../utils/types';
+
+export type FormulaValue = number | string | boolean | null;
+
+type Node =
+    | { type: 'literal'; value: FormulaValue }
+    | { type: 'field'; name: string; position: number }
+    | { type: 'unary'; operator: '-' | 'not'; operand: Node; position: number }
+    | { type: 'binary'; operator: string; left: Node; right: Node; position: number }
+    | { type: 'conditional'; test: Node; consequent: Node; alternate: Node }
+    | { type: 'call'; name: string; args: Node[]; position: number };
+
+export interface ParsedFormula {
+    source: string;
+    fields: string[]; // Answer ids the formula reads, in order of first use
+    tables: string[]; // Lookup tables the formula reads
+    root: Node;
+}
+
+export interface ParseOptions {
+    tables?: string[]; // Known lookup tables; lookup() of any other table is rejected
+}
+
+export interface EvaluateOptions {
+    lookup?: (table: string, key: any) => any;
+}
+
+const MAX_FORMULA_LENGTH = 1000;
+const MAX_DEPTH = 50;
+
+// Function name -> [min args, max args]
+const FUNCTIONS: Record<string, [number, number]> = {
+    min: [1, Infinity],
+    max: [1, Infinity],
+    round: [1, 2],
+    floor: [1, 1],
+    ceil: [1, 1],
+    abs: [1, 1],
+    if: [3, 3],
+    coalesce: [1, Infinity],
+    number: [1, 2], // number(value, fallback): value read as a number, else fallback
+    first: [1, 1], // First selected option of a multi-select answer
+    contains: [2, 2], // Case-insensitive: text contains part, or a list has an option containing it
+    lookup: [2, 2]
+};
+
+const KEYWORDS: Record<string, FormulaValue> = { true: true, false: false, null: null };
+const WORD_OPERATORS: Record<string, string> = { and: '&&', or: '||', not: '!' };
+
+interface Token {
+    kind: 'number' | 'string' | 'name' | 'operator' | 'end';
+    text: string;
+    value?: FormulaValue;
+    position: number;
+}
+
+/**
+ * Split a formula into tokens
+ */
+function tokenize(source: string): Token[] {
+    const tokens: Token[] = [];
+    let index = 0;
+
+    while (index < source.length) {
+        const char = source[index];
+
+        if (/\s/.test(char)) {
+            index++;
+            continue;
+        }
+
+        const number = source.slice(index).match(/^(\d+(\.\d*)?|\.\d+)([eE][+-]?\d+)?/);
+        if (number) {
+            tokens.push({ kind: 'number', text: number[0], value: parseFloat(number[0]), position: index });
+            index += number[0].length;
+            continue;
+        }
+
+        const name = source.slice(index).match(/^[A-Za-z_][A-Za-z0-9_]*/);
+        if (name) {
+            tokens.push({ kind: 'name', text: name[0], position: index });
+            index += name[0].length;
+            continue;
+        }
+
+        if (char === '"' || char === "'") {
+            const end = source.indexOf(char, index + 1);
+            if (end === -1) {
+                throw syntaxError(source, 'Unterminated string', index);
+            }
+            tokens.push({ kind: 'string', text: source.slice(index, end + 1), value: source.slice(index + 1, end), position: index });
+            index = end + 1;
+            continue;
+        }
+
+        const operator = ['<=', '>=', '==', '!=', '&&', '||'].find(candidate => source.startsWith(candidate, index))
+            || ('+-*/%^<>!?:(),'.includes(char) ? char : null);
+        if (!operator) {
+            throw syntaxError(source, `Unexpected character '${char}'`, index);
+        }
+        tokens.push({ kind: 'operator', text: operator, position: index });
+        index += operator.length;
+    }
+
+    tokens.push({ kind: 'end', text: 'end of formula', position: source.length });
+    return tokens;
+}
+
+/**
+ * Recursive-descent parser, lowest precedence first:
+ * conditional, or, and, not, comparison, additive, multiplicative, unary minus, power, primary
+ */
+class Parser {
+    private index = 0;
+    private depth = 0;
+    readonly fields: string[] = [];
+    readonly tables: string[] = [];
+
+    constructor(private source: string, private tokens: Token[], private options: ParseOptions) { }
+
+    parse(): Node {
+        const root = this.conditional();
+        if (this.peek().kind !== 'end') {
+            throw this.unexpected();
+        }
+        return root;
+    }
+
+    private conditional(): Node {
+        this.enter();
+        const test = this.or();
+        let node = test;
+        if (this.match('?')) {
+            const consequent = this.conditional();
+            this.expect(':');
+            node = { type: 'conditional', test, consequent, alternate: this.conditional() };
+        }
+        this.depth--;
+        return node;
+    }
+
+    private or(): Node {
+        let node = this.and();
+        for (let token = this.matchOperator('||'); token; token = this.matchOperator('||')) {
+            node = { type: 'binary', operator: '||', left: node, right: this.and(), position: token.position };
+        }
+        return node;
+    }
+
+    private and(): Node {
+        let node = this.not();
+        for (let token = this.matchOperator('&&'); token; token = this.matchOperator('&&')) {
+            node = { type: 'binary', operator: '&&', left: node, right: this.not(), position: token.position };
+        }
+        return node;
+    }
+
+    private not(): Node {
+        const token = this.matchOperator('!');
+        if (token) {
+            this.enter();
+            const node: Node = { type: 'unary', operator: 'not', operand: this.not(), position: token.position };
+            this.depth--;
+            return node;
+        }
+        return this.comparison();
+    }
+
+    private comparison(): Node {
+        const left = this.additive();
+        const token = this.matchAny(['<', '<=', '>', '>=', '==', '!=']);
+        if (!token) return left;
+
+        const node: Node = { type: 'binary', operator: token.text, left, right: this.additive(), position: token.position };
+        if (['<', '<=', '>', '>=', '==', '!='].includes(this.peek().text)) {
+            throw syntaxError(this.source, 'Comparisons cannot be chained; combine them with "and"', this.peek().position);
+        }
+        return node;
+    }
+
+    private additive(): Node {
+        let node = this.multiplicative();
+        for (let token = this.matchAny(['+', '-']); token; token = this.matchAny(['+', '-'])) {
+            node = { type: 'binary', operator: token.text, left: node, right: this.multiplicative(), position: token.position };
+        }
+        return node;
+    }
+
+    private multiplicative(): Node {
+        let node = this.unary();
+        for (let token = this.matchAny(['*', '/', '%']); token; token = this.matchAny(['*', '/', '%'])) {
+            node = { type: 'binary', operator: token.text, left: node, right: this.unary(), position: token.position };
+        }
+        return node;
+    }
+
+    private unary(): Node {
+        const token = this.matchAny(['-', '+']);
+        if (token) {
+            this.enter();
+            const operand = this.unary();
+            this.depth--;
+            return token.text === '-' ? { type: 'unary', operator: '-', operand, position: token.position } : operand;
+        }
+        return this.power();
+    }
+
+    private power(): Node {
+        const base = this.primary();
+        const token = this.matchAny(['^']);
+        if (!token) return base;
+
+        this.enter();
+        const exponent = this.unary(); // Right-associative: 2 ^ 3 ^ 2 = 2 ^ 9
+        this.depth--;
+        return { type: 'binary', operator: '^', left: base, right: exponent, position: token.position };
+    }
+
+    private primary(): Node {
+        const token = this.next();
+
+        if (token.kind === 'number' || token.kind === 'string') {
+            return { type: 'literal', value: token.value as FormulaValue };
+        }
+
+        if (token.kind === 'name') {
+            if (has(KEYWORDS, token.text)) {
+                return { type: 'literal', value: KEYWORDS[token.text] };
+            }
+            if (has(WORD_OPERATORS, token.text)) {
+                throw syntaxError(this.source, `Unexpected '${token.text}'`, token.position);
+            }
+            if (this.peek().text === '(') {
+                return this.call(token);
+            }
+            if (!this.fields.includes(token.text)) this.fields.push(token.text);
+            return { type: 'field', name: token.text, position: token.position };
+        }
+
+        if (token.text === '(') {
+            const node = this.conditional();
+            this.expect(')');
+            return node;
+        }
+
+        this.index--;
+        throw this.unexpected();
+    }
+
+    private call(name: Token): Node {
+        const arity = has(FUNCTIONS, name.text) ? FUNCTIONS[name.text] : null;
+        if (!arity) {
+            throw syntaxError(
+                this.source,
+                `Unknown function '${name.text}' (available: ${Object.keys(FUNCTIONS).join(', ')})`,
+                name.position
+            );
+        }
+
+        this.expect('(');
+        const args: Node[] = [];
+        if (!this.match(')')) {
+            do {
+                args.push(this.conditional());
+            } while (this.match(','));
+            this.expect(')');
+        }
+
+        const [min, max] = arity;
+        if (args.length < min || args.length > max) {
+            const expected = min === max ? `${min}` : max === Infinity ? `at least ${min}` : `${min} to ${max}`;
+            throw syntaxError(
+                this.source,
+                `${name.text}() takes ${expected} argument${min === 1 && max === 1 ? '' : 's'}, got ${args.length}`,
+                name.position
+            );
+        }
+
+        if (name.text === 'lookup') {
+            const table = args[0];
+            if (table.type !== 'literal' || typeof table.value !== 'string') {
+                throw syntaxError(this.source, "lookup() needs the table name as a quoted string, e.g. lookup('industry_margins', target_industries)", name.position);
+            }
+            if (this.options.tables && !this.options.tables.includes(table.value)) {
+                throw syntaxError(
+                    this.source,
+                    `Unknown lookup table '${table.value}' (available: ${this.options.tables.join(', ')})`,
+                    name.position
+                );
+            }
+            if (!this.tables.includes(table.value)) this.tables.push(table.value);
+        }
+
+        return { type: 'call', name: name.text, args, position: name.position };
+    }
+
+    private enter(): void {
+        if (++this.depth > MAX_DEPTH) {
+            throw syntaxError(this.source, `Formula is nested more than ${MAX_DEPTH} levels deep`, this.peek().position);
+        }
+    }
+
+    private peek(): Token {
+        return this.tokens[this.index];
+    }
+
+    private next(): Token {
+        return this.tokens[this.index++];
+    }
+
+    private match(text: string): boolean {
+        if (this.peek().kind === 'operator' && this.peek().text === text) {
+            this.index++;
+            return true;
+        }
+        return false;
+    }
+
+    private matchAny(texts: string[]): Token | null {
+        const token = this.peek();
+        if (token.kind === 'operator' && texts.includes(token.text)) {
+            this.index++;
+            return token;
+        }
+        return null;
+    }
+
+    // Symbolic or word form: '&&'/'and', '||'/'or', '!'/'not'
+    private matchOperator(symbol: string): Token | null {
+        const token = this.peek();
+        if ((token.kind === 'operator' && token.text === symbol)
+            || (token.kind === 'name' && has(WORD_OPERATORS, token.text) && WORD_OPERATORS[token.text] === symbol)) {
+            this.index++;
+            return token;
+        }
+        return null;
+    }
+
+    private expect(text: string): void {
+        if (!this.match(text)) {
+            throw syntaxError(this.source, `Expected '${text}' but found ${describe(this.peek())}`, this.peek().position);
+        }
+    }
+
+    private unexpected(): FormulaError {
+        const token = this.peek();
+        return syntaxError(this.source, `Unexpected ${describe(token)}`, token.position);
+    }
+}
+
+/**
+ * Parse and validate a formula; throws FormulaError with the position of the first problem
+ */
+export function parseFormula(source: string, options: ParseOptions = {}): ParsedFormula {
+    if (typeof source !== 'string' || source.trim() === '') {
+        throw new FormulaError('Formula is empty', String(source ?? ''));
+    }
+    if (source.length > MAX_FORMULA_LENGTH) {
+        throw new FormulaError(`Formula is longer than ${MAX_FORMULA_LENGTH} characters`, source);
+    }
+
+    const parser = new Parser(source, tokenize(source), options);
+    const root = parser.parse();
+    return { source, fields: parser.fields, tables: parser.tables, root };
+}
+
+/**
+ * Evaluate a parsed formula against answers. Numeric-looking answers such as "₹5,00,000/month"
+ * or "15%" are read as numbers; anything else used in arithmetic is an error.
+ */
+export function evaluateFormula(
+    formula: ParsedFormula,
+    answers: Record<string, any>,
+    options: EvaluateOptions = {}
+): FormulaValue {
+    const fail = (message: string, position?: number): never => {
+        throw new FormulaError(
+            position === undefined ? message : `${message} (at position ${position})`,
+            formula.source,
+            { position }
+        );
+    };
+
+    const checked = (result: number, position: number): number =>
+        isFinite(result) ? result : fail('Result is not a finite number', position);
+
+    const label = (node: Node): string => node.type === 'field' ? `'${node.name}'` : 'value';
+
+    const toNumber = (value: FormulaValue, node: Node): number => {
+        const number = asNumber(value);
+        if (number === null) {
+            fail(
+                value === null
+                    ? `${label(node)} has no value`
+                    : `${label(node)} is not a number: ${JSON.stringify(value)}`,
+                'position' in node ? node.position : undefined
+            );
+        }
+        return number as number;
+    };
+
+    const evaluate = (node: Node): FormulaValue => {
+        switch (node.type) {
+            case 'literal':
+                return node.value;
+
+            case 'field': {
+                const value = answers[node.name];
+                if (value === undefined || value === null || value === '') return null;
+                if (typeof value === 'number' || typeof value === 'string' || typeof value === 'boolean') return value;
+                if (Array.isArray(value)) return value.join(', ');
+                return fail(`'${node.name}' cannot be used in a formula (it is ${typeof value})`, node.position);
+            }
+
+            case 'unary': {
+                const operand = evaluate(node.operand);
+                return node.operator === '-' ? -toNumber(operand, node.operand) : !truthy(operand);
+            }
+
+            case 'conditional':
+                return truthy(evaluate(node.test)) ? evaluate(node.consequent) : evaluate(node.alternate);
+
+            case 'binary': {
+                if (node.operator === '&&') return truthy(evaluate(node.left)) && truthy(evaluate(node.right));
+                if (node.operator === '||') return truthy(evaluate(node.left)) || truthy(evaluate(node.right));
+
+                const left = evaluate(node.left);
+                const right = evaluate(node.right);
+
+                if (node.operator === '==' || node.operator === '!=') {
+                    const leftNumber = asNumber(left);
+                    const rightNumber = asNumber(right);
+                    const equal = leftNumber !== null && rightNumber !== null
+                        ? leftNumber === rightNumber
+                        : left === right;
+                    return node.operator === '==' ? equal : !equal;
+                }
+
+                const a = toNumber(left, node.left);
+                const b = toNumber(right, node.right);
+                switch (node.operator) {
+                    case '+': return checked(a + b, node.position);
+                    case '-': return checked(a - b, node.position);
+                    case '*': return checked(a * b, node.position);
+                    case '/': return b === 0 ? fail(`Division by zero (${label(node.right)} is 0)`, node.position) : checked(a / b, node.position);
+                    case '%': return b === 0 ? fail(`Division by zero (${label(node.right)} is 0)`, node.position) : checked(a % b, node.position);
+                    case '^': return checked(Math.pow(a, b), node.position);
+                    case '<': return a < b;
+                    case '<=': return a <= b;
+                    case '>': return a > b;
+                    case '>=': return a >= b;
+                }
+                return fail(`Unknown operator '${node.operator}'`, node.position);
+            }
+
+            case 'call':
+                return call(node);
+        }
+    };
+
+    // Lists are only visible to first() and contains(); everywhere else they read as text
+    const raw = (node: Node): any => node.type === 'field' ? answers[node.name] : evaluate(node);
+
+    const call = (node: Extract<Node, { type: 'call' }>): FormulaValue => {
+        const numbers = () => node.args.map(arg => toNumber(evaluate(arg), arg));
+
+        switch (node.name) {
+            case 'if':
+                return truthy(evaluate(node.args[0])) ? evaluate(node.args[1]) : evaluate(node.args[2]);
+            case 'coalesce': {
+                for (const arg of node.args) {
+                    const value = evaluate(arg);
+                    if (value !== null) return value;
+                }
+                return null;
+            }
+            case 'min':
+                return Math.min(...numbers());
+            case 'max':
+                return Math.max(...numbers());
+            case 'round': {
+                const [value, digits = 0] = numbers();
+                const factor = Math.pow(10, Math.round(digits));
+                return Math.round(value * factor) / factor;
+            }
+            case 'floor':
+                return Math.floor(numbers()[0]);
+            case 'ceil':
+                return Math.ceil(numbers()[0]);
+            case 'abs':
+                return Math.abs(numbers()[0]);
+            case 'number': {
+                const value = asNumber(evaluate(node.args[0]));
+                if (value !== null) return value;
+                return node.args.length > 1 ? evaluate(node.args[1]) : toNumber(evaluate(node.args[0]), node.args[0]);
+            }
+            case 'first': {
+                const list = raw(node.args[0]);
+                const value = Array.isArray(list) ? list[0] : list;
+                if (value === undefined || value === null || value === '') return null;
+                return typeof value === 'object' ? fail('first() needs a list of plain values', node.position) : value;
+            }
+            case 'contains': {
+                const haystack = raw(node.args[0]);
+                const needle = evaluate(node.args[1]);
+                if (haystack === undefined || haystack === null || needle === null) return false;
+                const part = String(needle).toLowerCase();
+                const values = Array.isArray(haystack) ? haystack : [haystack];
+                return values.some(value => String(value).toLowerCase().includes(part));
+            }
+            case 'lookup': {
+                const table = evaluate(node.args[0]) as string;
+                const key = evaluate(node.args[1]);
+                if (!options.lookup) return fail('Lookup tables are not available here', node.position);
+                const value = key === null ? undefined : options.lookup(table, key);
+                if (value === undefined || value === null) return null;
+                return typeof value === 'object' ? fail(`lookup('${table}') returned a list, not a value`, node.position) : value;
+            }
+        }
+        return fail(`Unknown function '${node.name}'`, node.position);
+    };
+
+    return evaluate(formula.root);
+}
+
+/**
+ * Read a value as a number the way formulas do; null when it is not numeric
+ */
+export function asNumber(value: FormulaValue): number | null {
+    if (typeof value === 'number') return isFinite(value) ? value : null;
+    if (typeof value !== 'string') return null;
+
+    const cleaned = value
+        .replace(/[₹$€£,\s]/g, '')
+        .replace(/\/[A-Za-z]+$/, '') // "/month"
+        .replace(/%$/, '');
+    return /^[-+]?(\d+(\.\d*)?|\.\d+)([eE][-+]?\d+)?$/.test(cleaned) ? parseFloat(cleaned) : null;
+}
+
+function has(record: Record<string, any>, key: string): boolean {
+    return Object.prototype.hasOwnProperty.call(record, key);
+}
+
+function truthy(value: FormulaValue): boolean {
+    return value !== null && value !== false && value !== 0 && value !== '';
+}
+
+function describe(token: Token): string {
+    return token.kind === 'end' ? 'end of formula' : `'${token.text}'`;
+}
+
+function syntaxError(source: string, message: string, position: number): FormulaError {
+    return new FormulaError(`${message} at position ${position}`, source, { position });
+}
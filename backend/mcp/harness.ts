@@ -0,0 +1,135 @@
+/**
+ * MCP Rule Harness
+ * Replays a fixture answer set through the MCP engine, one answer at a time as the
+ * questionnaire would submit them, and reports which rules fired, what they populated and
+ * which skills/agents they would trigger. Nothing is executed, so it runs offline.
+ */
+
+import { MCPEngine, getMCPEngine } from './engine';
+
+export interface ReplayFixture {
+    name?: string;
+    answers: Array<{ question_id: string; answer: any }>; // In submission order
+    accept_auto_populated?: boolean; // Treat auto-populated values as accepted answers (default false)
+    expect?: {
+        rules_fired?: string[];
+        rules_not_fired?: string[];
+        auto_populated?: Record<string, any>;
+        skills?: string[];
+        agents?: string[];
+        no_validation_errors?: boolean;
+    };
+}
+
+export interface ReplayStep {
+    question_id: string;
+    answer: any;
+    rules_fired: string[];
+    rules_skipped: Array<{ rule_id: string; reason: string }>;
+    auto_populated: Record<string, any>;
+    skills: Array<{ skill_id: string; params: any }>;
+    agents: Array<{ agent_id: string; prompt: string }>;
+    validation_errors: string[];
+}
+
+export interface ReplayReport {
+    name: string;
+    steps: ReplayStep[];
+    answers: Record<string, any>; // Final answer set
+    failures: string[]; // Unmet expectations
+}
+
+/**
+ * Replay a fixture and check its expectations
+ */
+export async function replayAnswers(fixture: ReplayFixture, engine: MCPEngine = getMCPEngine()): Promise<ReplayReport> {
+    const answers: Record<string, any> = {};
+    const steps: ReplayStep[] = [];
+
+    for (const { question_id, answer } of fixture.answers) {
+        const result = await engine.processAnswer(question_id, answer, { ...answers });
+        answers[question_id] = answer;
+        if (fixture.accept_auto_populated) {
+            Object.assign(answers, result.auto_populated);
+        }
+
+        steps.push({
+            question_id,
+            answer,
+            rules_fired: result.rules_fired,
+            rules_skipped: result.rules_skipped,
+            auto_populated: result.auto_populated,
+            skills: result.skills_to_execute,
+            agents: result.agents_to_trigger,
+            validation_errors: result.validation_errors
+        });
+    }
+
+    return {
+        name: fixture.name || 'fixture',
+        steps,
+        answers,
+        failures: checkExpectations(fixture, steps)
+    };
+}
+
+function checkExpectations(fixture: ReplayFixture, steps: ReplayStep[]): string[] {
+    const expect = fixture.expect;
+    if (!expect) return [];
+
+    const failures: string[] = [];
+    const fired = new Set(steps.flatMap(step => step.rules_fired));
+    const skills = new Set(steps.flatMap(step => step.skills.map(skill => skill.skill_id)));
+    const agents = new Set(steps.flatMap(step => step.agents.map(agent => agent.agent_id)));
+    const populated: Record<string, any> = Object.assign({}, ...steps.map(step => step.auto_populated));
+
+    (expect.rules_fired || []).filter(id => !fired.has(id))
+        .forEach(id => failures.push(`expected rule "${id}" to fire`));
+    (expect.rules_not_fired || []).filter(id => fired.has(id))
+        .forEach(id => failures.push(`expected rule "${id}" not to fire`));
+    (expect.skills || []).filter(id => !skills.has(id))
+        .forEach(id => failures.push(`expected skill "${id}" to be triggered`));
+    (expect.agents || []).filter(id => !agents.has(id))
+        .forEach(id => failures.push(`expected agent "${id}" to be triggered`));
+
+    Object.keys(expect.auto_populated || {}).forEach(field => {
+        const expected = expect.auto_populated![field];
+        if (JSON.stringify(populated[field]) !== JSON.stringify(expected)) {
+            failures.push(`expected ${field} = ${JSON.stringify(expected)}, got ${JSON.stringify(populated[field])}`);
+        }
+    });
+
+    if (expect.no_validation_errors) {
+        steps.forEach(step => step.validation_errors.forEach(error =>
+            failures.push(`${step.question_id}: ${error}`)
+        ));
+    }
+
+    return failures;
+}
+
+/**
+ * Human-readable report: one block per answer that fired rules
+ */
+export function formatReplayReport(report: ReplayReport): string {
+    const lines: string[] = [`=== ${report.name} (${report.steps.length} answers) ===`];
+
+    report.steps.forEach(step => {
+        if (step.rules_fired.length === 0 && step.rules_skipped.length === 0) return;
+
+        lines.push(`\n${step.question_id} = ${JSON.stringify(step.answer)}`);
+        step.rules_fired.forEach(id => lines.push(`  ✓ ${id}`));
+        step.rules_skipped.forEach(skip => lines.push(`  - ${skip.rule_id} (not fired: ${skip.reason})`));
+        Object.keys(step.auto_populated).forEach(field =>
+            lines.push(`    populates ${field} = ${JSON.stringify(step.auto_populated[field])}`)
+        );
+        step.skills.forEach(skill => lines.push(`    skill ${skill.skill_id}`));
+        step.agents.forEach(agent => lines.push(`    agent ${agent.agent_id}`));
+        step.validation_errors.forEach(error => lines.push(`    ! ${error}`));
+    });
+
+    const fired = report.steps.reduce((count, step) => count + step.rules_fired.length, 0);
+    lines.push(`\n${fired} rule firings`);
+    report.failures.forEach(failure => lines.push(`FAILED: ${failure}`));
+    return lines.join('\n');
+}
@@ -0,0 +1,170 @@
+/**
+ * MCP Rule Files
+ * Declarative MCP rules and lookup tables, loaded from YAML/JSON files in MCP_RULES_DIR
+ * (default backend/mcp/rules) so triggers can change without a TypeScript deploy.
+ *
+ * A file holds `rules` and/or `lookup_tables`:
+ *
+ *   lookup_tables:
+ *     location_to_currency: { India: INR, Dubai: AED }
+ *   rules:
+ *     - id: location_defaults
+ *       trigger_field: user_location
+ *       conditions:
+ *         - { field: primary_market, operator: exists }
+ *         - { expression: "number(team_size_year1, 0) >= 5" }
+ *       auto_populate:
+ *         - { target_field: currency, source: lookup, lookup_table: location_to_currency }
+ *         - { target_field: runway_months, source: calculation, formula: "capital_needed / salary_budget" }
+ *       trigger_agents:
+ *         - { agent_id: market_analyst, prompt_template: "Analyze {{target_industries}} in {{user_location}}" }
+ *       trigger_skills:
+ *         - skill_id: market_sizing_calculator
+ *           params: { answers: "{{$answers}}", target_segment: "{{$answer}}", growth: "{{= number(growth_rate, 0.5)}}" }
+ *
+ * Skill params are templates: "{{field}}" passes an answer through unchanged ($answer is the
+ * submitted answer, $answers all answers), "{{= formula}}" evaluates a formula (see ./expression.ts),
+ * other strings interpolate "{{field}}", and { $field: name, default: value } falls back to a default.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import yaml from 'js-yaml';
+import { z } from 'zod';
+import { AgentValidationIssue } from '../agents/validation';
+
+export const DEFAULT_MCP_RULES_DIR = path.join(process.cwd(), 'backend', 'mcp', 'rules');
+
+export const CONDITION_OPERATORS = [
+    'equals', 'not_equals', 'contains', 'not_contains', 'exists', 'not_exists',
+    'in', 'not_in', 'gt', 'gte', 'lt', 'lte', 'matches'
+] as const;
+
+const fieldId = z.string().regex(/^[a-z][a-z0-9_]*$/, 'must be snake_case');
+
+const conditionSchema = z.union([
+    z.object({
+        field: fieldId,
+        operator: z.enum(CONDITION_OPERATORS),
+        value: z.any().optional()
+    }).strict().superRefine((condition, ctx) => {
+        const needsValue = condition.operator !== 'exists' && condition.operator !== 'not_exists';
+        if (needsValue && condition.value === undefined) {
+            ctx.addIssue({ code: z.ZodIssueCode.custom, message: `operator "${condition.operator}" needs a value` });
+        }
+        if ((condition.operator === 'in' || condition.operator === 'not_in') && !Array.isArray(condition.value)) {
+            ctx.addIssue({ code: z.ZodIssueCode.custom, message: `operator "${condition.operator}" needs a list value` });
+        }
+        if (condition.operator === 'matches') {
+            try {
+                new RegExp(String(condition.value), 'i');
+            } catch (error) {
+                ctx.addIssue({ code: z.ZodIssueCode.custom, message: `invalid regular expression: ${condition.value}` });
+            }
+        }
+    }),
+    z.object({ expression: z.string().min(1) }).strict()
+]);
+
+const autoPopulateSchema = z.discriminatedUnion('source', [
+    z.object({ target_field: fieldId, source: z.literal('static'), value: z.any() }).strict(),
+    z.object({ target_field: fieldId, source: z.literal('lookup'), lookup_table: z.string().min(1) }).strict(),
+    z.object({ target_field: fieldId, source: z.literal('calculation'), formula: z.string().min(1) }).strict()
+]);
+
+export const ruleSchema = z.object({
+    id: fieldId,
+    description: z.string().optional(),
+    trigger_field: fieldId,
+    conditions: z.array(conditionSchema).optional(),
+    auto_populate: z.array(autoPopulateSchema).optional(),
+    trigger_agents: z.array(z.object({
+        agent_id: z.string().min(1),
+        prompt_template: z.string().min(1),
+        conditions: z.array(conditionSchema).optional()
+    }).strict()).optional(),
+    trigger_skills: z.array(z.object({
+        skill_id: z.string().min(1),
+        params: z.record(z.any()).default({}),
+        conditions: z.array(conditionSchema).optional()
+    }).strict()).optional()
+}).strict().refine(
+    rule => Boolean(rule.auto_populate?.length || rule.trigger_agents?.length || rule.trigger_skills?.length),
+    { message: 'a rule needs auto_populate, trigger_agents or trigger_skills' }
+);
+
+export const ruleFileSchema = z.object({
+    lookup_tables: z.record(z.record(z.any())).optional(),
+    rules: z.array(z.unknown()).optional() // Validated one by one so a bad rule does not reject the file
+}).strict();
+
+export type MCPRuleCondition = z.infer<typeof conditionSchema>;
+export type MCPRuleDefinition = z.infer<typeof ruleSchema>;
+
+export interface MCPRuleFile {
+    file: string;
+    lookupTables: Record<string, Record<string, any>>;
+    rules: Array<{ rule: MCPRuleDefinition; source: string }>;
+}
+
+/**
+ * Read and structurally validate every rule file in a directory (sorted by name).
+ * Files or rules that fail validation are left out and reported as issues.
+ */
+export function readRuleFiles(dir: string): { files: MCPRuleFile[]; issues: AgentValidationIssue[] } {
+    const files: MCPRuleFile[] = [];
+    const issues: AgentValidationIssue[] = [];
+
+    if (!fs.existsSync(dir)) {
+        issues.push({ severity: 'error', source: dir, message: 'MCP rules directory does not exist' });
+        return { files, issues };
+    }
+
+    fs.readdirSync(dir)
+        .filter(file => /\.(ya?ml|json)$/.test(file))
+        .sort()
+        .forEach(file => {
+            let raw: unknown;
+            try {
+                const content = fs.readFileSync(path.join(dir, file), 'utf-8');
+                raw = file.endsWith('.json') ? JSON.parse(content) : yaml.load(content);
+            } catch (error) {
+                issues.push({
+                    severity: 'error',
+                    source: file,
+                    message: `parse error: ${error instanceof Error ? error.message : String(error)}`
+                });
+                return;
+            }
+
+            const parsed = ruleFileSchema.safeParse(raw ?? {});
+            if (!parsed.success) {
+                parsed.error.issues.forEach(issue => issues.push({
+                    severity: 'error',
+                    source: file,
+                    message: `${issue.path.length > 0 ? issue.path.join('.') : '(root)'}: ${issue.message}`
+                }));
+                return;
+            }
+
+            const rules: MCPRuleFile['rules'] = [];
+            (parsed.data.rules || []).forEach((entry, index) => {
+                const result = ruleSchema.safeParse(entry);
+                const id = (entry as any)?.id;
+                const source = `${file}#${typeof id === 'string' ? id : `rules.${index}`}`;
+                if (!result.success) {
+                    result.error.issues.forEach(issue => issues.push({
+                        severity: 'error',
+                        source,
+                        message: `${issue.path.length > 0 ? issue.path.join('.') : '(rule)'}: ${issue.message}`
+                    }));
+                    return;
+                }
+                rules.push({ rule: result.data, source });
+            });
+
+            files.push({ file, lookupTables: parsed.data.lookup_tables || {}, rules });
+        });
+
+    return { files, issues };
+}
@@ -153,7 +153,8 @@ export class EnhancedOrchestrator extends Orchestrator {
                 agentOutputs,
                 message,
                 questionContext.nextQuestion,
-                questionContext.language || allAnswers.language
+                questionContext.language || allAnswers.language,
+                enhancedContext
             );
 
             const executionTime = Date.now() - startTime;
@@ -3,8 +3,6 @@
  * Intelligently routes user requests to specialized agents and synthesizes responses
  */
 
-import Groq from 'groq-sdk';
-import OpenAI from 'openai';
 import { v4 as uuidv4 } from 'uuid';
 import {
     IntentAnalysis,
@@ -17,12 +15,30 @@ import {
     ToolCallResult,
     BusinessContext,
     OrchestratorError,
-    AgentExecutionError
+    AgentExecutionError,
+    BudgetExceededError,
+    LLMProvider,
+    LLMChatRequest,
+    LLMChatResponse,
+    AgentRunUsage
 } from '../utils/types';
 import { logger } from '../utils/logger';
 import { getAgentManager } from '../agents/manager';
 import { getSkillRegistry } from '../skills/registry';
 import { getTranslator } from '../services/translation';
+import { getLLMProvider, GroqProvider, OpenAICompatibleProvider } from '../providers';
+import { runTaskGraph, criticalPathLength } from './scheduler';
+import { AgentOutputCache, AgentCacheKey, getAgentOutputCache } from '../services/agent-output-cache';
+import { getRelevantAnswerFields, getAnswerFieldsForAgent } from '../../lib/orchestrator/question-config';
+import { UsageBudgetService, BudgetCheck, getUsageBudget, estimateCost } from '../services/usage-budget';
+import { getAgentExperiments } from '../services/agent-experiments';
+import {
+    getOutputSchema,
+    parseStructuredOutput,
+    buildSchemaInstructions,
+    buildRepairPrompt,
+    DEFAULT_SCHEMA_REPAIR_ATTEMPTS
+} from '../agents/output-schemas';
 
 export interface OrchestratorConfig {
     groqApiKey: string;
@@ -32,19 +48,29 @@ export interface OrchestratorConfig {
     useLocal?: boolean;
     localBaseUrl?: string;
     localModel?: string;
+    maxConcurrency?: number; // Max agents running at once (parallel/dag plans)
+    cache?: AgentOutputCache | null; // Defaults to the shared cache; null disables caching
+    budget?: UsageBudgetService | null; // Defaults to the shared budget service; null disables tracking
+    minAgents?: number; // Agents parseIntent expands to (1-3) while within budget
+    degradedModel?: string; // Cheaper Groq model used once a budget is nearly spent
+    degradedMaxAgents?: number; // Agent cap once a budget is nearly spent
+    schemaRepairAttempts?: number; // Retries when an agent's output fails its output_schema
+    provider?: LLMProvider; // Overrides groq/local selection (e.g. FixtureProvider in CI)
 }
 
 export class Orchestrator {
-    private groq: Groq;
-    private openai?: OpenAI;
+    private provider: LLMProvider;
+    private cache: AgentOutputCache | null;
+    private budget: UsageBudgetService | null;
     private agentManager;
     private skillRegistry;
-    private config: Required<OrchestratorConfig>;
+    private config: Required<Omit<OrchestratorConfig, 'provider' | 'cache' | 'budget'>>;
 
     constructor(config: OrchestratorConfig) {
-        this.groq = new Groq({ apiKey: config.groqApiKey });
         this.agentManager = getAgentManager();
         this.skillRegistry = getSkillRegistry();
+        this.cache = config.cache === undefined ? getAgentOutputCache() : config.cache;
+        this.budget = config.budget === undefined ? getUsageBudget() : config.budget;
 
         this.config = {
             groqApiKey: config.groqApiKey,
@@ -53,21 +79,38 @@ export class Orchestrator {
             maxTokens: config.maxTokens || 8000,
             useLocal: config.useLocal || false,
             localBaseUrl: config.localBaseUrl || 'http://localhost:11434/v1',
-            localModel: config.localModel || 'llama3'
+            localModel: config.localModel || 'llama3',
+            maxConcurrency: config.maxConcurrency || 3,
+            minAgents: config.minAgents ?? 3,
+            degradedModel: config.degradedModel || 'llama-3.1-8b-instant',
+            degradedMaxAgents: config.degradedMaxAgents || 1,
+            schemaRepairAttempts: config.schemaRepairAttempts ?? DEFAULT_SCHEMA_REPAIR_ATTEMPTS
         };
 
-        if (this.config.useLocal) {
-            this.openai = new OpenAI({
+        if (config.provider) {
+            this.provider = config.provider;
+            logger.info('Orchestrator using injected LLM provider', {
+                provider: this.provider.id,
+                model: this.provider.defaultModel
+            });
+        } else if (this.config.useLocal) {
+            this.provider = new OpenAICompatibleProvider({
                 baseURL: this.config.localBaseUrl,
                 apiKey: 'ollama', // Ollama doesn't require a real key
+                defaultModel: this.config.localModel,
+                supportsTools: false // Ollama/llama3 has limited tool support
             });
             logger.info('Orchestrator using LOCAL LLM', {
                 url: this.config.localBaseUrl,
                 model: this.config.localModel
             });
         } else {
-            logger.info('Orchestrator initialized (Groq Cloud)', {
-                model: this.config.model,
+            this.provider = process.env.LLM_PROVIDER
+                ? getLLMProvider()
+                : new GroqProvider({ apiKey: config.groqApiKey, defaultModel: this.config.model });
+            logger.info('Orchestrator initialized', {
+                provider: this.provider.id,
+                model: this.provider.defaultModel,
                 agents: this.agentManager.getAgentCount(),
                 skills: this.skillRegistry.getSkillCount()
             });
@@ -86,6 +129,9 @@ export class Orchestrator {
         try {
             logger.orchestrator('Processing request', { message: message.substring(0, 100), context: !!context });
 
+            // Refuses (throws) when the session/user budget is spent
+            const budget = this.checkBudget(context);
+
             let intent: IntentAnalysis;
             const currentPhaseStr = String(context?.currentPhase || '');
             const isPhase1 = currentPhaseStr.includes('Phase 1') || currentPhaseStr === '1';
@@ -133,6 +179,10 @@ export class Orchestrator {
                 intent = await this.parseIntent(message, context);
             }
 
+            if (budget.status === 'degrade') {
+                intent = this.degradeIntent(intent, budget);
+            }
+
             logger.orchestrator('Intent parsed', {
                 agents: intent.agents,
                 execution_type: intent.execution_type
@@ -154,7 +204,8 @@ export class Orchestrator {
                 agentOutputs,
                 message,
                 context?.nextQuestion, // Pass next question if provided
-                context?.language || context?.allAnswers?.['language']
+                context?.language || context?.allAnswers?.['language'],
+                context
             );
             logger.orchestrator('Synthesis complete');
 
@@ -177,6 +228,10 @@ export class Orchestrator {
             });
             logger.timing('Total orchestration (failed)', executionTime);
 
+            if (error instanceof BudgetExceededError) {
+                throw error;
+            }
+
             throw new OrchestratorError(
                 'Failed to process request',
                 'ORCHESTRATION_FAILED',
@@ -192,6 +247,8 @@ export class Orchestrator {
         message: string,
         context?: BusinessContext
     ): Promise<IntentAnalysis> {
+        const budget = this.checkBudget(context);
+
         try {
             const systemPrompt = `You are an AI orchestrator that analyzes user requests for business planning.
 
@@ -211,7 +268,7 @@ Your job is to determine:
 1. What the user wants to accomplish (goal)
 2. Which specialized agents are needed (MINIMUM 2, RECOMMENDED 3)
 3. Which skills/tools are needed
-4. Whether agents should run in parallel or sequential order
+4. Whether agents should run in parallel, sequential, or dependency-graph (dag) order
 
 Available agents:
 - business_planner_lead: Coordinates overall business planning (use when unsure)
@@ -254,13 +311,18 @@ Respond with a JSON object:
   "goal": "Clear description of what user wants",
   "agents": ["agent_id1", "agent_id2", "agent_id3"],
   "skills": ["skill_id1"],
-  "execution_type": "parallel" or "sequential",
+  "execution_type": "parallel" or "sequential" or "dag",
+  "dependencies": { "agent_id3": ["agent_id1", "agent_id2"] },
   "reasoning": "Why these agents/skills were selected",
   "context_requirements": ["what context is needed"]
 }
 
-Use sequential execution when agents depend on each other's outputs.
 Use parallel execution when agents can work independently (preferred for speed).
+Use dag execution when only some agents depend on others: list, for each dependent agent, the agents whose output it needs.
+  Example: market_analyst and customer_profiler run in parallel, financial_modeler needs both, funding_strategist needs financial_modeler:
+  "dependencies": { "financial_modeler": ["market_analyst", "customer_profiler"], "funding_strategist": ["financial_modeler"] }
+Use sequential execution only when every agent depends on the one before it.
+Omit "dependencies" for parallel and sequential execution.
 
 MINIMUM REQUIREMENT: agents array must have at least 2 agents. Aim for 3 for comprehensive insights.`;
 
@@ -270,38 +332,22 @@ ${context ? `Current context: ${JSON.stringify(context, null, 2)}` : ''}
 
 Analyze this request and determine which agents and skills are needed.`;
 
-            let content: string | null = null;
-
-            if (this.config.useLocal && this.openai) {
-                const response = await this.openai.chat.completions.create({
-                    model: this.config.localModel || 'llama3',
-                    messages: [
-                        { role: 'system', content: systemPrompt },
-                        { role: 'user', content: userPrompt }
-                    ],
-                    temperature: 0.2,
-                    max_tokens: 1000,
-                    response_format: { type: 'json_object' }
-                });
-                content = response.choices[0]?.message?.content;
-            } else {
-                const response = await this.groq.chat.completions.create({
-                    model: this.config.model,
-                    messages: [
-                        { role: 'system', content: systemPrompt },
-                        { role: 'user', content: userPrompt }
-                    ],
-                    temperature: 0.2,
-                    max_tokens: 1000,
-                    response_format: { type: 'json_object' }
-                });
-                content = response.choices[0]?.message?.content;
-            }
+            const response = await this.chat({
+                model: this.resolveModel(undefined, budget.status === 'degrade'),
+                messages: [
+                    { role: 'system', content: systemPrompt },
+                    { role: 'user', content: userPrompt }
+                ],
+                temperature: 0.2,
+                max_tokens: 1000,
+                json_mode: true
+            }, 'intent', context);
+            const content = response.content;
             if (!content) {
-                throw new Error('No response from Groq');
+                throw new Error(`No response from ${this.provider.id}`);
             }
 
-            console.log('[DEBUG] Groq Intent Content:', content);
+            console.log('[DEBUG] Intent Content:', content);
             const intent = JSON.parse(content) as IntentAnalysis;
 
             // Validate intent
@@ -316,8 +362,14 @@ Analyze this request and determine which agents and skills are needed.`;
                 intent.reasoning = 'Default agents selected for comprehensive analysis';
             }
 
+            // Over budget: trim instead of expanding
+            if (budget.status === 'degrade') {
+                this.normalizeDependencies(intent);
+                return this.degradeIntent(intent, budget);
+            }
+
             // Require at least 2 agents for depth
-            if (intent.agents.length < 2) {
+            if (intent.agents.length < 2 && this.config.minAgents >= 2) {
                 logger.info('Expanding agent selection for deeper analysis', {
                     current: intent.agents.length
                 });
@@ -334,7 +386,7 @@ Analyze this request and determine which agents and skills are needed.`;
             }
 
             // For even deeper analysis, encourage 3 agents
-            if (intent.agents.length < 3) {
+            if (intent.agents.length < 3 && this.config.minAgents >= 3) {
                 // Add phase-appropriate specialist
                 const phaseSpecialists: { [key: number]: string } = {
                     1: 'context_collector',
@@ -367,9 +419,12 @@ Analyze this request and determine which agents and skills are needed.`;
                 }
             }
 
+            this.normalizeDependencies(intent);
+
             logger.info('Final agent selection', {
                 count: intent.agents.length,
-                agents: intent.agents
+                agents: intent.agents,
+                execution_type: intent.execution_type
             });
 
             return intent;
@@ -381,80 +436,133 @@ Analyze this request and determine which agents and skills are needed.`;
     }
 
     /**
-     * Create execution plan from intent
+     * Drop dependency entries that reference agents outside the plan, break cycles by
+     * dropping back-edges, and switch to dag execution when a dependency graph remains
      */
-    createPlan(intent: IntentAnalysis): ExecutionPlan {
-        const tasks: Task[] = intent.agents.map((agentId, index) => ({
-            id: uuidv4(),
-            agent_id: agentId,
-            agent_name: this.agentManager.getAgent(agentId)?.name || agentId,
-            description: `Execute ${agentId} agent`,
-            skills: intent.skills,
-            context: {},
-            dependencies: intent.execution_type === 'sequential' && index > 0
-                ? [intent.agents[index - 1]]
-                : [],
-            priority: index
-        }));
+    private normalizeDependencies(intent: IntentAnalysis): void {
+        if (!intent.dependencies) {
+            if (intent.execution_type === 'dag') {
+                intent.execution_type = 'parallel';
+            }
+            return;
+        }
 
-        return {
-            tasks,
-            execution_type: intent.execution_type,
-            estimated_duration_seconds: tasks.length * 10 // Rough estimate
+        const dependencies: Record<string, string[]> = {};
+        Object.entries(intent.dependencies).forEach(([agentId, deps]) => {
+            if (!intent.agents.includes(agentId) || !Array.isArray(deps)) return;
+
+            const valid = deps.filter(dep => dep !== agentId && intent.agents.includes(dep));
+            if (valid.length > 0) {
+                dependencies[agentId] = valid;
+            }
+        });
+
+        // Depth-first walk in agent order; an edge to an agent still on the stack closes a cycle
+        const state = new Map<string, 'visiting' | 'done'>();
+        const dropped: string[] = [];
+        const visit = (agentId: string): void => {
+            state.set(agentId, 'visiting');
+            dependencies[agentId] = (dependencies[agentId] || []).filter(dep => {
+                if (state.get(dep) === 'visiting') {
+                    dropped.push(`${agentId} -> ${dep}`);
+                    return false;
+                }
+                if (!state.has(dep)) visit(dep);
+                return true;
+            });
+            if (dependencies[agentId].length === 0) delete dependencies[agentId];
+            state.set(agentId, 'done');
         };
-    }
+        intent.agents.forEach(agentId => {
+            if (!state.has(agentId)) visit(agentId);
+        });
 
-    /**
-     * Execute the plan
-     */
-    async execute(
-        plan: ExecutionPlan,
-        context?: BusinessContext
-    ): Promise<AgentOutput[]> {
-        if (plan.execution_type === 'parallel') {
-            return await this.executeParallel(plan.tasks, context);
+        if (dropped.length > 0) {
+            logger.warn('Dependency cycle in intent, dropped back-edges', { dropped });
+        }
+
+        if (Object.keys(dependencies).length > 0) {
+            intent.dependencies = dependencies;
+            intent.execution_type = 'dag';
         } else {
-            return await this.executeSequential(plan.tasks, context);
+            delete intent.dependencies;
+            if (intent.execution_type === 'dag') {
+                intent.execution_type = 'parallel';
+            }
         }
     }
 
     /**
-     * Execute tasks in parallel
+     * Create execution plan from intent
+     * - parallel: no dependencies
+     * - sequential: each task depends on the previous one
+     * - dag: dependencies taken from intent.dependencies (agent IDs resolved to task IDs)
      */
-    private async executeParallel(
-        tasks: Task[],
-        context?: BusinessContext
-    ): Promise<AgentOutput[]> {
-        logger.info('Executing tasks in parallel', { count: tasks.length });
+    createPlan(intent: IntentAnalysis): ExecutionPlan {
+        const taskIds = intent.agents.map(() => uuidv4());
+        const taskIdByAgent = new Map<string, string>(
+            intent.agents.map((agentId, index) => [agentId, taskIds[index]] as [string, string])
+        );
+
+        const tasks: Task[] = intent.agents.map((agentId, index) => {
+            let dependencies: string[] = [];
+
+            if (intent.execution_type === 'sequential' && index > 0) {
+                dependencies = [taskIds[index - 1]];
+            } else if (intent.execution_type === 'dag') {
+                dependencies = (intent.dependencies?.[agentId] || [])
+                    .map(depAgentId => taskIdByAgent.get(depAgentId))
+                    .filter((id): id is string => !!id);
+            }
+
+            return {
+                id: taskIds[index],
+                agent_id: agentId,
+                agent_name: this.agentManager.getAgent(agentId)?.name || agentId,
+                description: `Execute ${agentId} agent`,
+                skills: intent.skills,
+                context: {},
+                dependencies,
+                priority: index
+            };
+        });
 
-        const promises = tasks.map(task => this.executeTask(task, context));
-        return await Promise.all(promises);
+        return {
+            tasks,
+            execution_type: intent.execution_type,
+            estimated_duration_seconds: criticalPathLength(tasks) * 10, // Rough estimate per wave
+            max_concurrency: intent.execution_type === 'sequential' ? 1 : this.config.maxConcurrency
+        };
     }
 
     /**
-     * Execute tasks sequentially
+     * Execute the plan as a dependency graph.
+     * Each task sees the outputs of its upstream tasks as `<agent_id>_output` context keys;
+     * a failed task only skips its own descendants.
      */
-    private async executeSequential(
-        tasks: Task[],
+    async execute(
+        plan: ExecutionPlan,
         context?: BusinessContext
     ): Promise<AgentOutput[]> {
-        logger.info('Executing tasks sequentially', { count: tasks.length });
-
-        const outputs: AgentOutput[] = [];
-        let accumulatedContext = { ...context };
-
-        for (const task of tasks) {
-            const output = await this.executeTask(task, accumulatedContext);
-            outputs.push(output);
-
-            // Add output to context for next task
-            accumulatedContext = {
-                ...accumulatedContext,
-                [`${task.agent_id}_output`]: output.output
-            };
-        }
-
-        return outputs;
+        const maxConcurrency = plan.max_concurrency || this.config.maxConcurrency;
+
+        logger.info('Executing plan', {
+            execution_type: plan.execution_type,
+            tasks: plan.tasks.length,
+            max_concurrency: maxConcurrency
+        });
+
+        return await runTaskGraph(
+            plan.tasks,
+            (task, upstream) => {
+                const taskContext = upstream.reduce<Record<string, any>>(
+                    (acc, output) => ({ ...acc, [`${output.agent_id}_output`]: output.output }),
+                    { ...context }
+                );
+                return this.executeTask(task, taskContext as BusinessContext);
+            },
+            { maxConcurrency }
+        );
     }
 
     /**
@@ -465,17 +573,50 @@ Analyze this request and determine which agents and skills are needed.`;
         context?: BusinessContext
     ): Promise<AgentOutput> {
         const startTime = Date.now();
+        const runUsage: AgentRunUsage = { input_tokens: 0, output_tokens: 0, cost_usd: 0 };
+        let agentVersion: string | undefined;
+        let userContent = task.description;
 
         try {
             logger.agent(task.agent_id, 'Starting execution');
 
-            const agent = this.agentManager.getAgent(task.agent_id);
+            // Sessions are routed to a prompt variant when the agent has any
+            const agent = this.agentManager.getAgent(task.agent_id, context?.session_id);
             if (!agent) {
                 throw new AgentExecutionError(
                     `Agent not found: ${task.agent_id}`,
                     task.agent_id
                 );
             }
+            agentVersion = agent.version;
+
+            // A spent budget fails only this task; a nearly spent one switches to the cheaper model
+            const budget = this.checkBudget(context);
+            const degraded = budget.status === 'degrade';
+
+            // Agents with an output_schema are asked for JSON matching it
+            const schema = getOutputSchema(agent.output_schema);
+            const systemPrompt = schema
+                ? agent.system_prompt + buildSchemaInstructions(schema)
+                : agent.system_prompt;
+
+            const cacheKey = this.buildCacheKey(task, systemPrompt, agent.model, context);
+            if (cacheKey) {
+                const cached = await this.cache!.get<Pick<AgentOutput, 'output' | 'structured' | 'skills_used' | 'tool_calls'>>(cacheKey);
+                if (cached) {
+                    logger.agent(task.agent_id, 'Served from cache');
+                    return {
+                        task_id: task.id,
+                        agent_id: task.agent_id,
+                        agent_name: task.agent_name,
+                        ...cached,
+                        execution_time_ms: Date.now() - startTime,
+                        success: true,
+                        cached: true,
+                        agent_version: agentVersion
+                    };
+                }
+            }
 
             // Get tool definitions for agent's skills
             const tools = this.skillRegistry.getToolDefinitions(agent.skills);
@@ -497,7 +638,7 @@ Analyze this request and determine which agents and skills are needed.`;
             const isNonEnglish = languageName && languageName !== 'English';
 
             // Build user content with explicit language instruction if needed
-            let userContent = `${task.description}\n\nContext: ${JSON.stringify(context || {}, null, 2)}`;
+            userContent = `${task.description}\n\nContext: ${JSON.stringify(context || {}, null, 2)}`;
 
             if (isNonEnglish && languageName) {
                 // Add example phrases to help the model
@@ -540,7 +681,7 @@ REMINDER: Your response must be 100% in simple ${languageName}. Use common words
 
             // Build messages
             const messages: GroqMessage[] = [
-                { role: 'system', content: agent.system_prompt },
+                { role: 'system', content: systemPrompt },
                 {
                     role: 'user',
                     content: userContent
@@ -548,71 +689,103 @@ REMINDER: Your response must be 100% in simple ${languageName}. Use common words
             ];
 
 
-            // Use local Ollama or Groq based on config
-            let response: any;
-            if (this.config.useLocal && this.openai) {
-                logger.agent(task.agent_id, 'Using LOCAL LLM (Ollama)');
-                response = await this.openai.chat.completions.create({
-                    model: this.config.localModel,
-                    messages: messages as any,
-                    temperature: agent.temperature,
-                    max_tokens: 4000
-                    // Note: Ollama/llama3 has limited tool support, skipping tools for now
-                });
-            } else {
-                // Call Groq with agent configuration
-                response = await this.groq.chat.completions.create({
-                    model: agent.model,
-                    messages: messages as any,
-                    temperature: agent.temperature,
-                    max_tokens: 4000,
-                    tools: tools.length > 0 ? tools : undefined,
-                    tool_choice: tools.length > 0 ? 'auto' : undefined
-                });
-            }
+            // Call the provider with agent configuration (tools are dropped by providers without tool support)
+            let response = await this.chat({
+                model: this.resolveModel(agent.model, degraded),
+                messages,
+                temperature: agent.temperature,
+                max_tokens: 4000,
+                tools: tools.length > 0 ? tools : undefined,
+                json_mode: !!schema && tools.length === 0
+            }, task.agent_id, context, runUsage);
 
-            let assistantMessage = response.choices[0]?.message;
             const toolCalls: ToolCall[] = [];
 
-            // Handle tool calls (only for Groq, not local Ollama)
-            if (!this.config.useLocal && assistantMessage?.tool_calls) {
+            // Handle tool calls
+            if (this.provider.supportsTools && response.tool_calls.length > 0) {
                 logger.agent(task.agent_id, 'Processing tool calls', {
-                    count: assistantMessage.tool_calls.length
+                    count: response.tool_calls.length
                 });
 
                 const toolResults = await this.handleToolCalls(
-                    assistantMessage.tool_calls,
-                    agent.skills
+                    response.tool_calls,
+                    agent.skills,
+                    context
                 );
 
-                toolCalls.push(...assistantMessage.tool_calls);
+                toolCalls.push(...response.tool_calls);
 
                 // Add assistant message and tool results to conversation
-                messages.push(assistantMessage as GroqMessage);
+                messages.push({
+                    role: 'assistant',
+                    content: response.content,
+                    tool_calls: response.tool_calls
+                });
                 messages.push(...toolResults);
 
                 // Get final response after tool execution
-                response = await this.groq.chat.completions.create({
-                    model: agent.model,
-                    messages: messages as any,
+                response = await this.chat({
+                    model: this.resolveModel(agent.model, degraded),
+                    messages,
                     temperature: agent.temperature,
-                    max_tokens: 4000
-                });
+                    max_tokens: 4000,
+                    json_mode: !!schema
+                }, task.agent_id, context, runUsage);
+            }
+
+            let content = response.content;
+            let structured: Record<string, any> | undefined;
+
+            if (schema) {
+                let result = parseStructuredOutput(content, schema);
 
-                assistantMessage = response.choices[0]?.message;
+                // Repair-retry: send the validation errors back to the model
+                for (let attempt = 1; !result.success && attempt <= this.config.schemaRepairAttempts; attempt++) {
+                    logger.agent(task.agent_id, 'Output failed schema validation, retrying', {
+                        attempt,
+                        schema: agent.output_schema,
+                        errors: result.errors
+                    });
+
+                    messages.push({ role: 'assistant', content });
+                    messages.push({ role: 'user', content: buildRepairPrompt(result.errors) });
+
+                    content = (await this.chat({
+                        model: this.resolveModel(agent.model, degraded),
+                        messages,
+                        temperature: agent.temperature,
+                        max_tokens: 4000,
+                        json_mode: true
+                    }, task.agent_id, context, runUsage)).content;
+
+                    result = parseStructuredOutput(content, schema);
+                }
+
+                if (result.success) {
+                    structured = result.data;
+                    content = JSON.stringify(result.data, null, 2);
+                } else {
+                    // Keep the text so downstream prompts still have something to work with
+                    logger.warn(`Agent ${task.agent_id} output does not match ${agent.output_schema}`, {
+                        errors: result.errors
+                    });
+                }
             }
 
             const output: AgentOutput = {
                 task_id: task.id,
                 agent_id: task.agent_id,
                 agent_name: task.agent_name,
-                output: assistantMessage?.content || '',
+                output: content,
+                structured,
                 skills_used: agent.skills.filter(skill =>
                     toolCalls.some(tc => tc.function.name === skill)
                 ),
                 tool_calls: toolCalls,
                 execution_time_ms: Date.now() - startTime,
-                success: true
+                success: true,
+                agent_version: agentVersion,
+                usage: runUsage
             };
 
             logger.agent(task.agent_id, 'Execution complete', {
@@ -620,11 +793,22 @@ REMINDER: Your response must be 100% in simple ${languageName}. Use common words
                 skills_used: output.skills_used.length
             });
 
+            if (cacheKey && output.output) {
+                await this.cache!.set(cacheKey, {
+                    output: output.output,
+                    structured: output.structured,
+                    skills_used: output.skills_used,
+                    tool_calls: output.tool_calls
+                });
+            }
+
+            await getAgentExperiments().recordRun(context?.session_id, output, userContent);
+
             return output;
         } catch (error) {
             logger.error(`Agent execution failed: ${task.agent_id}`, error);
 
-            return {
+            const failed: AgentOutput = {
                 task_id: task.id,
                 agent_id: task.agent_id,
                 agent_name: task.agent_name,
@@ -633,8 +817,14 @@ REMINDER: Your response must be 100% in simple ${languageName}. Use common words
                 tool_calls: [],
                 execution_time_ms: Date.now() - startTime,
                 success: false,
-                error: error instanceof Error ? error.message : 'Unknown error'
+                error: error instanceof Error ? error.message : 'Unknown error',
+                agent_version: agentVersion,
+                usage: runUsage
             };
+
+            await getAgentExperiments().recordRun(context?.session_id, failed, userContent).catch(() => undefined);
+
+            return failed;
         }
     }
 
@@ -643,7 +833,8 @@ REMINDER: Your response must be 100% in simple ${languageName}. Use common words
      */
     async handleToolCalls(
         toolCalls: ToolCall[],
-        availableSkills: string[]
+        availableSkills: string[],
+        context?: BusinessContext
     ): Promise<ToolCallResult[]> {
         const results: ToolCallResult[] = [];
 
@@ -663,7 +854,10 @@ REMINDER: Your response must be 100% in simple ${languageName}. Use common words
                 }
 
                 const params = JSON.parse(toolCall.function.arguments);
-                const result = await this.skillRegistry.execute(skillId, params);
+                const result = await this.skillRegistry.execute(skillId, params, {
+                    sessionId: context?.session_id,
+                    userId: context?.user_id
+                });
 
                 results.push({
                     tool_call_id: toolCall.id,
@@ -694,9 +888,12 @@ REMINDER: Your response must be 100% in simple ${languageName}. Use common words
         agentOutputs: AgentOutput[],
         originalMessage: string,
         nextQuestion?: { question: string; type: string; options?: any[] },
-        language?: string
+        language?: string,
+        context?: BusinessContext
     ): Promise<string> {
         try {
+            const budget = this.checkBudget(context);
+
             logger.info('Synthesizing agent outputs', { language: language || 'default' });
 
             const languageMap: Record<string, string> = {
@@ -747,31 +944,16 @@ ${isNonEnglish ? `RESPOND IN ${targetLangName.toUpperCase()} ONLY.` : 'RESPOND I
 
 Write a brief, friendly acknowledgment (1-2 sentences). Be natural and warm. ${isNonEnglish ? `RESPOND IN ${targetLangName.toUpperCase()} ONLY.` : 'RESPOND IN ENGLISH ONLY.'}`;
 
-            let content: string | null = null;
-
-            if (this.config.useLocal && this.openai) {
-                const response = await this.openai.chat.completions.create({
-                    model: this.config.localModel || 'llama3',
-                    messages: [
-                        { role: 'system', content: systemPrompt },
-                        { role: 'user', content: userPrompt }
-                    ],
-                    temperature: 0.7,
-                    max_tokens: 300
-                });
-                content = response.choices[0]?.message?.content;
-            } else {
-                const response = await this.groq.chat.completions.create({
-                    model: this.config.model,
-                    messages: [
-                        { role: 'system', content: systemPrompt },
-                        { role: 'user', content: userPrompt }
-                    ],
-                    temperature: 0.7,
-                    max_tokens: 300
-                });
-                content = response.choices[0]?.message?.content;
-            }
+            const response = await this.chat({
+                model: this.resolveModel(undefined, budget.status === 'degrade'),
+                messages: [
+                    { role: 'system', content: systemPrompt },
+                    { role: 'user', content: userPrompt }
+                ],
+                temperature: 0.7,
+                max_tokens: 300
+            }, 'synthesis', context);
+            const content = response.content;
 
             // Translate response if non-English language is selected
             let finalContent = content || 'Thanks for sharing that.';
@@ -830,4 +1012,119 @@ Write a brief, friendly acknowledgment (1-2 sentences). Be natural and warm. ${i
             return 'Thanks for sharing that!';
         }
     }
+
+    /**
+     * Build the cache key for a task: only the answer fields relevant to the current
+     * question (or, without a question, the fields routed to the agent) are included.
+     * Other context (task, language, next question, upstream outputs) is keyed in full.
+     */
+    private buildCacheKey(
+        task: Task,
+        systemPrompt: string,
+        agentModel: string,
+        context?: BusinessContext
+    ): AgentCacheKey | null {
+        if (!this.cache) return null;
+
+        const { allAnswers, previous_responses, accumulated_data, session_id, user_id, business_id, ...rest } =
+            (context || {}) as BusinessContext & Record<string, any>;
+        const answers = allAnswers || previous_responses || {};
+
+        const questionId = typeof rest.questionId === 'string' ? rest.questionId : undefined;
+        const agentFields = getAnswerFieldsForAgent(task.agent_id);
+        const relevantFields = questionId
+            ? getRelevantAnswerFields(questionId)
+            : agentFields.length > 0 ? agentFields : undefined;
+
+        return this.cache.buildKey({
+            agentId: task.agent_id,
+            systemPrompt,
+            model: `${this.provider.id}:${this.resolveModel(agentModel) || this.provider.defaultModel}`,
+            input: { description: task.description, context: rest, accumulated_data },
+            answers,
+            relevantFields,
+            scope: session_id
+        });
+    }
+
+    /**
+     * Pick the model name for a provider call.
+     * Configured/agent model names refer to Groq-hosted models, so other providers use their own default.
+     */
+    private resolveModel(agentModel?: string, degraded: boolean = false): string | undefined {
+        if (this.config.useLocal) {
+            return this.config.localModel;
+        }
+        if (this.provider.id !== 'groq') {
+            return undefined;
+        }
+        if (degraded) {
+            return this.config.degradedModel;
+        }
+        return agentModel || this.config.model;
+    }
+
+    /**
+     * Call the provider and record usage against the request's session/user
+     */
+    private async chat(
+        request: LLMChatRequest,
+        source: string,
+        context?: BusinessContext,
+        runUsage?: AgentRunUsage
+    ): Promise<LLMChatResponse> {
+        const response = await this.provider.chat(request);
+        const model = response.model || request.model || this.provider.defaultModel;
+
+        this.budget?.record({
+            sessionId: context?.session_id,
+            userId: context?.user_id,
+            provider: this.provider.id,
+            model,
+            source,
+            usage: response.usage
+        });
+
+        // Per-run totals for agent_activity_log / experiment reports
+        if (runUsage) {
+            runUsage.input_tokens += response.usage.input_tokens;
+            runUsage.output_tokens += response.usage.output_tokens;
+            runUsage.cost_usd += estimateCost(this.provider.id, model, response.usage);
+        }
+
+        return response;
+    }
+
+    /**
+     * Check the session/user budget; throws BudgetExceededError when it is spent
+     */
+    private checkBudget(context?: BusinessContext): BudgetCheck {
+        if (!this.budget) {
+            return { status: 'ok' };
+        }
+        return this.budget.enforce(context?.session_id, context?.user_id);
+    }
+
+    /**
+     * Reduce an intent to the cheapest useful plan when a budget is nearly spent
+     */
+    private degradeIntent(intent: IntentAnalysis, budget: BudgetCheck): IntentAnalysis {
+        if (intent.agents.length <= this.config.degradedMaxAgents) {
+            return intent;
+        }
+
+        logger.warn('Budget nearly spent, reducing agent selection', {
+            reason: budget.reason,
+            from: intent.agents.length,
+            to: this.config.degradedMaxAgents
+        });
+
+        const degraded: IntentAnalysis = {
+            ...intent,
+            agents: intent.agents.slice(0, this.config.degradedMaxAgents),
+            reasoning: `${intent.reasoning} (reduced: ${budget.reason})`
+        };
+        this.normalizeDependencies(degraded);
+        return degraded;
+    }
 }
@@ -0,0 +1,195 @@
+/**
+ * Task Graph Scheduler
+ * Runs ExecutionPlan tasks as a dependency graph (DAG) with bounded concurrency.
+ * A failed task only affects its own descendants; independent branches keep running.
+ */
+
+import { Task, AgentOutput, OrchestratorError } from '../utils/types';
+import { logger } from '../utils/logger';
+
+export interface TaskGraphOptions {
+    maxConcurrency: number;
+}
+
+/**
+ * Validate dependencies and return task IDs in topological order.
+ * Throws on unknown dependencies or cycles.
+ */
+export function topologicalOrder(tasks: Task[]): string[] {
+    const byId = new Map<string, Task>(tasks.map(task => [task.id, task] as [string, Task]));
+    const inDegree = new Map<string, number>();
+    const dependents = new Map<string, string[]>();
+
+    tasks.forEach(task => {
+        inDegree.set(task.id, task.dependencies.length);
+        task.dependencies.forEach(depId => {
+            if (!byId.has(depId)) {
+                throw new OrchestratorError(
+                    `Task ${task.agent_id} depends on unknown task ${depId}`,
+                    'INVALID_PLAN'
+                );
+            }
+            dependents.set(depId, [...(dependents.get(depId) || []), task.id]);
+        });
+    });
+
+    const queue = tasks
+        .filter(task => task.dependencies.length === 0)
+        .sort((a, b) => a.priority - b.priority)
+        .map(task => task.id);
+    const order: string[] = [];
+
+    while (queue.length > 0) {
+        const id = queue.shift()!;
+        order.push(id);
+
+        (dependents.get(id) || []).forEach(childId => {
+            const remaining = inDegree.get(childId)! - 1;
+            inDegree.set(childId, remaining);
+            if (remaining === 0) {
+                queue.push(childId);
+            }
+        });
+    }
+
+    if (order.length !== tasks.length) {
+        const cyclic = tasks.filter(task => !order.includes(task.id)).map(task => task.agent_id);
+        throw new OrchestratorError(
+            `Execution plan contains a dependency cycle: ${cyclic.join(', ')}`,
+            'INVALID_PLAN',
+            { agents: cyclic }
+        );
+    }
+
+    return order;
+}
+
+/**
+ * Length of the longest dependency chain (used for duration estimates)
+ */
+export function criticalPathLength(tasks: Task[]): number {
+    const byId = new Map<string, Task>(tasks.map(task => [task.id, task] as [string, Task]));
+    const depth = new Map<string, number>();
+
+    topologicalOrder(tasks).forEach(id => {
+        const task = byId.get(id)!;
+        const parentDepth = Math.max(0, ...task.dependencies.map(depId => depth.get(depId) || 0));
+        depth.set(id, parentDepth + 1);
+    });
+
+    return Math.max(0, ...Array.from(depth.values()));
+}
+
+/**
+ * Collect all transitive upstream task IDs for a task
+ */
+function ancestorsOf(task: Task, byId: Map<string, Task>): Task[] {
+    const seen = new Set<string>();
+    const stack = [...task.dependencies];
+
+    while (stack.length > 0) {
+        const id = stack.pop()!;
+        if (seen.has(id)) continue;
+        seen.add(id);
+        stack.push(...(byId.get(id)?.dependencies || []));
+    }
+
+    return Array.from(seen).map(id => byId.get(id)!);
+}
+
+/**
+ * Execute a task graph.
+ * runTask receives the outputs of every upstream task so it can build context from them.
+ * Returns outputs in plan priority order.
+ */
+export async function runTaskGraph(
+    tasks: Task[],
+    runTask: (task: Task, upstream: AgentOutput[]) => Promise<AgentOutput>,
+    options: TaskGraphOptions
+): Promise<AgentOutput[]> {
+    const order = topologicalOrder(tasks);
+    const byId = new Map<string, Task>(tasks.map(task => [task.id, task] as [string, Task]));
+    const outputs = new Map<string, AgentOutput>();
+    const running = new Map<string, Promise<void>>();
+    const pending = [...order];
+    const maxConcurrency = Math.max(1, options.maxConcurrency);
+
+    const skip = (task: Task, failedUpstream: AgentOutput[]) => {
+        const reason = failedUpstream.map(o => o.agent_id).join(', ');
+        logger.warn(`Skipping ${task.agent_id}: upstream failed`, { upstream: reason });
+        outputs.set(task.id, {
+            task_id: task.id,
+            agent_id: task.agent_id,
+            agent_name: task.agent_name,
+            output: '',
+            skills_used: [],
+            tool_calls: [],
+            execution_time_ms: 0,
+            success: false,
+            error: `Skipped: upstream agent failed (${reason})`
+        });
+    };
+
+    while (pending.length > 0 || running.size > 0) {
+        const startedBefore = running.size + outputs.size;
+
+        // Start every ready task while there is capacity
+        for (let i = 0; i < pending.length && running.size < maxConcurrency;) {
+            const task = byId.get(pending[i])!;
+            const depsDone = task.dependencies.every(depId => outputs.has(depId));
+
+            if (!depsDone) {
+                i++;
+                continue;
+            }
+
+            pending.splice(i, 1);
+
+            const failedUpstream = task.dependencies
+                .map(depId => outputs.get(depId)!)
+                .filter(output => !output.success);
+
+            if (failedUpstream.length > 0) {
+                skip(task, failedUpstream);
+                // Restart the scan: skipping may unblock (and skip) further descendants
+                i = 0;
+                continue;
+            }
+
+            const upstream = ancestorsOf(task, byId)
+                .map(ancestor => outputs.get(ancestor.id)!)
+                .filter(Boolean);
+
+            const promise = runTask(task, upstream)
+                .catch((error): AgentOutput => ({
+                    task_id: task.id,
+                    agent_id: task.agent_id,
+                    agent_name: task.agent_name,
+                    output: '',
+                    skills_used: [],
+                    tool_calls: [],
+                    execution_time_ms: 0,
+                    success: false,
+                    error: error instanceof Error ? error.message : 'Unknown error'
+                }))
+                .then(output => {
+                    outputs.set(task.id, output);
+                    running.delete(task.id);
+                });
+
+            running.set(task.id, promise);
+        }
+
+        if (running.size > 0) {
+            await Promise.race(Array.from(running.values()));
+        } else if (running.size + outputs.size === startedBefore) {
+            // Nothing running and nothing became ready: the graph cannot make progress
+            throw new OrchestratorError('Execution plan stalled', 'INVALID_PLAN', { pending });
+        }
+    }
+
+    return tasks
+        .slice()
+        .sort((a, b) => a.priority - b.priority)
+        .map(task => outputs.get(task.id)!);
+}
@@ -0,0 +1,178 @@
+/**
+ * Anthropic Provider
+ * Claude Messages API behind the LLMProvider interface.
+ * Translates OpenAI-style messages/tool calls to Claude content blocks and back.
+ */
+
+import Anthropic from '@anthropic-ai/sdk';
+import {
+    LLMProvider,
+    LLMChatRequest,
+    LLMChatResponse,
+    ToolCall,
+    LLMProviderError
+} from '../utils/types';
+import { logger } from '../utils/logger';
+
+export interface AnthropicProviderConfig {
+    apiKey?: string;
+    defaultModel?: string;
+}
+
+const JSON_MODE_INSTRUCTION = 'Respond with a single valid JSON object only. Do not wrap it in markdown or add commentary.';
+
+export class AnthropicProvider implements LLMProvider {
+    id = 'anthropic';
+    defaultModel: string;
+    supportsTools = true;
+    private client: Anthropic;
+
+    constructor(config: AnthropicProviderConfig = {}) {
+        const key = config.apiKey || process.env.ANTHROPIC_API_KEY;
+        if (!key) {
+            throw new LLMProviderError('ANTHROPIC_API_KEY is required', 'anthropic');
+        }
+
+        this.client = new Anthropic({ apiKey: key });
+        this.defaultModel = config.defaultModel || 'claude-3-haiku-20240307';
+    }
+
+    async chat(request: LLMChatRequest): Promise<LLMChatResponse> {
+        try {
+            const response = await this.client.messages.create(this.toMessageParams(request) as any);
+
+            const content = response.content
+                .filter((block: any) => block.type === 'text')
+                .map((block: any) => block.text)
+                .join('\n');
+
+            const toolCalls: ToolCall[] = response.content
+                .filter((block: any) => block.type === 'tool_use')
+                .map((block: any) => ({
+                    id: block.id,
+                    type: 'function',
+                    function: {
+                        name: block.name,
+                        arguments: JSON.stringify(block.input || {})
+                    }
+                }));
+
+            return {
+                content: request.json_mode ? stripCodeFence(content) : content,
+                tool_calls: toolCalls,
+                finish_reason: response.stop_reason || 'end_turn',
+                model: response.model,
+                usage: {
+                    input_tokens: response.usage.input_tokens,
+                    output_tokens: response.usage.output_tokens
+                }
+            };
+        } catch (error) {
+            logger.error('Anthropic chat failed', error);
+            throw new LLMProviderError('Anthropic chat request failed', this.id, error);
+        }
+    }
+
+    async *stream(request: LLMChatRequest): AsyncIterable<string> {
+        try {
+            const stream = await this.client.messages.create({
+                ...this.toMessageParams({ ...request, tools: undefined }),
+                stream: true
+            } as any);
+
+            for await (const event of stream as any) {
+                if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta') {
+                    yield event.delta.text;
+                }
+            }
+        } catch (error) {
+            logger.error('Anthropic stream failed', error);
+            throw new LLMProviderError('Anthropic stream request failed', this.id, error);
+        }
+    }
+
+    /**
+     * Convert an OpenAI-style request into Claude Messages API params
+     */
+    private toMessageParams(request: LLMChatRequest): Record<string, any> {
+        const systemParts: string[] = [];
+        const messages: Array<{ role: 'user' | 'assistant'; content: any }> = [];
+
+        for (const message of request.messages) {
+            if (message.role === 'system') {
+                systemParts.push(message.content);
+                continue;
+            }
+
+            if (message.role === 'tool') {
+                const toolResult = {
+                    type: 'tool_result',
+                    tool_use_id: message.tool_call_id,
+                    content: message.content
+                };
+                const previous = messages[messages.length - 1];
+
+                // Claude expects all tool results for one turn inside a single user message
+                if (previous && previous.role === 'user' && Array.isArray(previous.content)) {
+                    previous.content.push(toolResult);
+                } else {
+                    messages.push({ role: 'user', content: [toolResult] });
+                }
+                continue;
+            }
+
+            if (message.role === 'assistant' && message.tool_calls && message.tool_calls.length > 0) {
+                const blocks: any[] = [];
+                if (message.content) {
+                    blocks.push({ type: 'text', text: message.content });
+                }
+                message.tool_calls.forEach(call => {
+                    blocks.push({
+                        type: 'tool_use',
+                        id: call.id,
+                        name: call.function.name,
+                        input: safeParse(call.function.arguments)
+                    });
+                });
+                messages.push({ role: 'assistant', content: blocks });
+                continue;
+            }
+
+            messages.push({ role: message.role, content: message.content });
+        }
+
+        if (request.json_mode) {
+            systemParts.push(JSON_MODE_INSTRUCTION);
+        }
+
+        const tools = request.tools && request.tools.length > 0 && request.tool_choice !== 'none'
+            ? request.tools.map(tool => ({
+                name: tool.function.name,
+                description: tool.function.description,
+                input_schema: tool.function.parameters
+            }))
+            : undefined;
+
+        return {
+            model: request.model || this.defaultModel,
+            system: systemParts.length > 0 ? systemParts.join('\n\n') : undefined,
+            messages,
+            max_tokens: request.max_tokens || 4096,
+            temperature: request.temperature ?? 0.3,
+            tools
+        };
+    }
+}
+
+function safeParse(value: string): any {
+    try {
+        return JSON.parse(value || '{}');
+    } catch {
+        return {};
+    }
+}
+
+function stripCodeFence(content: string): string {
+    const match = content.trim().match(/^```(?:json)?\s*([\s\S]*?)\s*```$/);
+    return match ? match[1] : content;
+}
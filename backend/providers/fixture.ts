@@ -0,0 +1,229 @@
+/**
+ * Fixture Provider
+ * Deterministic, network-free provider that replays scripted/recorded responses.
+ * Used to run orchestrator flows (intent parsing, agent execution, tool calls) offline and in CI.
+ */
+
+import fs from 'fs';
+import {
+    LLMProvider,
+    LLMChatRequest,
+    LLMChatResponse,
+    ToolCall,
+    LLMProviderError
+} from '../utils/types';
+import { logger } from '../utils/logger';
+
+export interface LLMFixtureMatch {
+    system?: string; // Substring of the system prompt
+    user?: string; // Substring of the last user message
+    model?: string;
+    json_mode?: boolean;
+    has_tools?: boolean;
+    has_tool_results?: boolean; // True once tool results are part of the conversation
+}
+
+export interface LLMFixture {
+    match?: LLMFixtureMatch;
+    response: {
+        content?: string | Record<string, any>; // Objects are serialized (handy for JSON mode)
+        tool_calls?: Array<{ id?: string; name: string; arguments?: string | Record<string, any> }>;
+        finish_reason?: string;
+        usage?: { input_tokens: number; output_tokens: number };
+    };
+    repeat?: boolean; // Keep the fixture after it has been replayed once
+}
+
+export interface FixtureProviderConfig {
+    fixtures: LLMFixture[];
+    defaultModel?: string;
+    fallback?: string; // Content returned when nothing matches; throws when omitted
+}
+
+export class FixtureProvider implements LLMProvider {
+    id = 'fixture';
+    defaultModel: string;
+    supportsTools = true;
+    readonly calls: LLMChatRequest[] = [];
+    private fixtures: Array<LLMFixture & { used: boolean }>;
+    private fallback?: string;
+    private toolCallCounter = 0;
+
+    constructor(config: FixtureProviderConfig) {
+        this.fixtures = config.fixtures.map(fixture => ({ ...fixture, used: false }));
+        this.defaultModel = config.defaultModel || 'fixture-model';
+        this.fallback = config.fallback;
+    }
+
+    /**
+     * Load fixtures from a JSON file (either an array of fixtures or { fixtures, fallback })
+     */
+    static fromFile(filePath: string): FixtureProvider {
+        const raw = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+        const config: FixtureProviderConfig = Array.isArray(raw) ? { fixtures: raw } : raw;
+        logger.info('Loaded LLM fixtures', { file: filePath, count: config.fixtures.length });
+        return new FixtureProvider(config);
+    }
+
+    async chat(request: LLMChatRequest): Promise<LLMChatResponse> {
+        this.calls.push(request);
+
+        const fixture = this.fixtures.find(f => !f.used && this.matches(f.match, request));
+
+        if (!fixture) {
+            if (this.fallback !== undefined) {
+                return this.buildResponse({ response: { content: this.fallback } }, request);
+            }
+            throw new LLMProviderError('No fixture matched request', this.id, {
+                system: this.systemPrompt(request).substring(0, 200),
+                user: this.lastUserMessage(request).substring(0, 200)
+            });
+        }
+
+        if (!fixture.repeat) {
+            fixture.used = true;
+        }
+
+        return this.buildResponse(fixture, request);
+    }
+
+    async *stream(request: LLMChatRequest): AsyncIterable<string> {
+        const response = await this.chat({ ...request, tools: undefined });
+
+        // Emit word-sized chunks so consumers exercise their incremental paths
+        const chunks = response.content.match(/\S+\s*|\s+/g) || [];
+        for (const chunk of chunks) {
+            yield chunk;
+        }
+    }
+
+    /**
+     * Fixtures that have not been replayed yet (useful to assert a script ran to completion)
+     */
+    getPendingFixtures(): LLMFixture[] {
+        return this.fixtures.filter(f => !f.used && !f.repeat);
+    }
+
+    private matches(match: LLMFixtureMatch | undefined, request: LLMChatRequest): boolean {
+        if (!match) return true;
+
+        if (match.system !== undefined && !this.systemPrompt(request).includes(match.system)) {
+            return false;
+        }
+        if (match.user !== undefined && !this.lastUserMessage(request).includes(match.user)) {
+            return false;
+        }
+        if (match.model !== undefined && (request.model || this.defaultModel) !== match.model) {
+            return false;
+        }
+        if (match.json_mode !== undefined && !!request.json_mode !== match.json_mode) {
+            return false;
+        }
+        if (match.has_tools !== undefined && (request.tools?.length || 0) > 0 !== match.has_tools) {
+            return false;
+        }
+        if (match.has_tool_results !== undefined &&
+            request.messages.some(m => m.role === 'tool') !== match.has_tool_results) {
+            return false;
+        }
+        return true;
+    }
+
+    private buildResponse(fixture: LLMFixture, request: LLMChatRequest): LLMChatResponse {
+        const { content, tool_calls, finish_reason, usage } = fixture.response;
+
+        const toolCalls: ToolCall[] = (tool_calls || []).map(call => ({
+            id: call.id || `fixture_call_${++this.toolCallCounter}`,
+            type: 'function',
+            function: {
+                name: call.name,
+                arguments: typeof call.arguments === 'string'
+                    ? call.arguments
+                    : JSON.stringify(call.arguments || {})
+            }
+        }));
+
+        const text = typeof content === 'string' ? content : content ? JSON.stringify(content) : '';
+
+        return {
+            content: text,
+            tool_calls: toolCalls,
+            finish_reason: finish_reason || (toolCalls.length > 0 ? 'tool_calls' : 'stop'),
+            model: request.model || this.defaultModel,
+            usage: usage || {
+                input_tokens: estimateTokens(request.messages.map(m => m.content).join(' ')),
+                output_tokens: estimateTokens(text)
+            }
+        };
+    }
+
+    private systemPrompt(request: LLMChatRequest): string {
+        return request.messages
+            .filter(m => m.role === 'system')
+            .map(m => m.content)
+            .join('\n');
+    }
+
+    private lastUserMessage(request: LLMChatRequest): string {
+        const userMessages = request.messages.filter(m => m.role === 'user');
+        return userMessages[userMessages.length - 1]?.content || '';
+    }
+}
+
+/**
+ * Wraps a live provider and records every exchange as a fixture, so a real run
+ * can be captured once and replayed through FixtureProvider afterwards.
+ */
+export class RecordingProvider implements LLMProvider {
+    id: string;
+    defaultModel: string;
+    supportsTools: boolean;
+    private recorded: LLMFixture[] = [];
+
+    constructor(private inner: LLMProvider) {
+        this.id = inner.id;
+        this.defaultModel = inner.defaultModel;
+        this.supportsTools = inner.supportsTools;
+    }
+
+    async chat(request: LLMChatRequest): Promise<LLMChatResponse> {
+        const response = await this.inner.chat(request);
+        const lastUser = request.messages.filter(m => m.role === 'user').pop();
+
+        this.recorded.push({
+            match: {
+                user: lastUser?.content.substring(0, 120),
+                has_tool_results: request.messages.some(m => m.role === 'tool')
+            },
+            response: {
+                content: response.content,
+                tool_calls: response.tool_calls.map(call => ({
+                    id: call.id,
+                    name: call.function.name,
+                    arguments: call.function.arguments
+                })),
+                finish_reason: response.finish_reason,
+                usage: response.usage
+            }
+        });
+
+        return response;
+    }
+
+    stream(request: LLMChatRequest): AsyncIterable<string> {
+        return this.inner.stream(request);
+    }
+
+    getFixtures(): LLMFixture[] {
+        return this.recorded;
+    }
+
+    save(filePath: string): void {
+        fs.writeFileSync(filePath, JSON.stringify({ fixtures: this.recorded }, null, 2));
+        logger.info('Saved LLM fixtures', { file: filePath, count: this.recorded.length });
+    }
+}
+
+function estimateTokens(text: string): number {
+    return Math.ceil(text.length / 4);
+}
@@ -0,0 +1,62 @@
+/**
+ * Groq Provider
+ * Groq Cloud chat completions behind the LLMProvider interface
+ */
+
+import Groq from 'groq-sdk';
+import {
+    LLMProvider,
+    LLMChatRequest,
+    LLMChatResponse,
+    LLMProviderError
+} from '../utils/types';
+import { logger } from '../utils/logger';
+import { toChatResponse, toCompletionParams } from './openai-compatible';
+
+export interface GroqProviderConfig {
+    apiKey?: string;
+    defaultModel?: string;
+}
+
+export class GroqProvider implements LLMProvider {
+    id = 'groq';
+    defaultModel: string;
+    supportsTools = true;
+    private client: Groq;
+
+    constructor(config: GroqProviderConfig = {}) {
+        this.client = new Groq({ apiKey: config.apiKey || process.env.GROQ_API_KEY || '' });
+        this.defaultModel = config.defaultModel || 'llama-3.3-70b-versatile';
+    }
+
+    async chat(request: LLMChatRequest): Promise<LLMChatResponse> {
+        try {
+            const completion = await this.client.chat.completions.create(
+                toCompletionParams(request, this.defaultModel, this.supportsTools)
+            );
+            return toChatResponse(completion, this.defaultModel);
+        } catch (error) {
+            logger.error('Groq chat failed', error);
+            throw new LLMProviderError('Groq chat request failed', this.id, error);
+        }
+    }
+
+    async *stream(request: LLMChatRequest): AsyncIterable<string> {
+        try {
+            const stream = await this.client.chat.completions.create({
+                ...toCompletionParams(request, this.defaultModel, false),
+                stream: true
+            });
+
+            for await (const chunk of stream as any) {
+                const delta = chunk.choices?.[0]?.delta?.content;
+                if (delta) {
+                    yield delta;
+                }
+            }
+        } catch (error) {
+            logger.error('Groq stream failed', error);
+            throw new LLMProviderError('Groq stream request failed', this.id, error);
+        }
+    }
+}
@@ -0,0 +1,79 @@
+/**
+ * LLM Provider Layer
+ * Single entry point for chat, JSON mode, tool calls and streaming across Groq,
+ * Anthropic, OpenAI-compatible endpoints and the offline fixture provider.
+ *
+ * Selection (when no provider is passed explicitly):
+ *   LLM_PROVIDER=groq | anthropic | openai | fixture   (default: groq)
+ *   LLM_FIXTURE_PATH=path/to/fixtures.json            (required for fixture)
+ */
+
+import { LLMProvider, LLMProviderError } from '../utils/types';
+import { logger } from '../utils/logger';
+import { GroqProvider } from './groq';
+import { AnthropicProvider } from './anthropic';
+import { OpenAICompatibleProvider } from './openai-compatible';
+import { FixtureProvider } from './fixture';
+
+export { GroqProvider } from './groq';
+export { AnthropicProvider } from './anthropic';
+export { OpenAICompatibleProvider } from './openai-compatible';
+export { FixtureProvider, RecordingProvider } from './fixture';
+export type { LLMFixture, LLMFixtureMatch } from './fixture';
+
+export type LLMProviderName = 'groq' | 'anthropic' | 'openai' | 'fixture';
+
+export interface CreateProviderOptions {
+    apiKey?: string;
+    baseURL?: string;
+    defaultModel?: string;
+    fixturePath?: string;
+}
+
+/**
+ * Create a provider by name
+ */
+export function createLLMProvider(
+    name: LLMProviderName,
+    options: CreateProviderOptions = {}
+): LLMProvider {
+    switch (name) {
+        case 'groq':
+            return new GroqProvider(options);
+        case 'anthropic':
+            return new AnthropicProvider(options);
+        case 'openai':
+            return new OpenAICompatibleProvider(options);
+        case 'fixture': {
+            const fixturePath = options.fixturePath || process.env.LLM_FIXTURE_PATH;
+            if (!fixturePath) {
+                throw new LLMProviderError('LLM_FIXTURE_PATH is required for the fixture provider', 'fixture');
+            }
+            return FixtureProvider.fromFile(fixturePath);
+        }
+        default:
+            throw new LLMProviderError(`Unknown LLM provider: ${name}`, String(name));
+    }
+}
+
+// Export singleton instance
+let providerInstance: LLMProvider | null = null;
+
+export function getLLMProvider(): LLMProvider {
+    if (!providerInstance) {
+        const name = (process.env.LLM_PROVIDER || 'groq') as LLMProviderName;
+        providerInstance = createLLMProvider(name);
+        logger.info('LLM provider initialized', {
+            provider: providerInstance.id,
+            model: providerInstance.defaultModel
+        });
+    }
+    return providerInstance;
+}
+
+/**
+ * Override the shared provider (e.g. inject a FixtureProvider in CI); pass null to reset
+ */
+export function setLLMProvider(provider: LLMProvider | null): void {
+    providerInstance = provider;
+}
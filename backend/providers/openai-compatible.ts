@@ -0,0 +1,117 @@
+/**
+ * OpenAI-Compatible Provider
+ * Talks to any endpoint implementing the OpenAI chat completions API (OpenAI, Ollama, vLLM, LM Studio)
+ */
+
+import OpenAI from 'openai';
+import {
+    LLMProvider,
+    LLMChatRequest,
+    LLMChatResponse,
+    ToolCall,
+    LLMProviderError
+} from '../utils/types';
+import { logger } from '../utils/logger';
+
+export interface OpenAICompatibleProviderConfig {
+    apiKey?: string;
+    baseURL?: string;
+    defaultModel?: string;
+    supportsTools?: boolean;
+}
+
+/**
+ * Normalize an OpenAI-style completion (also returned by groq-sdk) into an LLMChatResponse
+ */
+export function toChatResponse(completion: any, fallbackModel: string): LLMChatResponse {
+    const choice = completion.choices?.[0];
+    const message = choice?.message;
+
+    return {
+        content: message?.content || '',
+        tool_calls: (message?.tool_calls || []).map((call: any): ToolCall => ({
+            id: call.id,
+            type: 'function',
+            function: {
+                name: call.function.name,
+                arguments: call.function.arguments || '{}'
+            }
+        })),
+        finish_reason: choice?.finish_reason || 'stop',
+        model: completion.model || fallbackModel,
+        usage: {
+            input_tokens: completion.usage?.prompt_tokens || 0,
+            output_tokens: completion.usage?.completion_tokens || 0
+        }
+    };
+}
+
+/**
+ * Build OpenAI-style completion params shared by the Groq and OpenAI-compatible providers
+ */
+export function toCompletionParams(
+    request: LLMChatRequest,
+    defaultModel: string,
+    supportsTools: boolean
+): any {
+    const tools = supportsTools && request.tools && request.tools.length > 0
+        ? request.tools
+        : undefined;
+
+    return {
+        model: request.model || defaultModel,
+        messages: request.messages,
+        temperature: request.temperature,
+        max_tokens: request.max_tokens,
+        tools,
+        tool_choice: tools ? (request.tool_choice || 'auto') : undefined,
+        response_format: request.json_mode ? { type: 'json_object' } : undefined
+    };
+}
+
+export class OpenAICompatibleProvider implements LLMProvider {
+    id = 'openai';
+    defaultModel: string;
+    supportsTools: boolean;
+    private client: OpenAI;
+
+    constructor(config: OpenAICompatibleProviderConfig = {}) {
+        this.client = new OpenAI({
+            apiKey: config.apiKey || process.env.OPENAI_API_KEY || 'not-required',
+            baseURL: config.baseURL || process.env.OPENAI_BASE_URL
+        });
+        this.defaultModel = config.defaultModel || process.env.OPENAI_MODEL || 'gpt-4o-mini';
+        this.supportsTools = config.supportsTools ?? true;
+    }
+
+    async chat(request: LLMChatRequest): Promise<LLMChatResponse> {
+        try {
+            const completion = await this.client.chat.completions.create(
+                toCompletionParams(request, this.defaultModel, this.supportsTools)
+            );
+            return toChatResponse(completion, this.defaultModel);
+        } catch (error) {
+            logger.error('OpenAI-compatible chat failed', error);
+            throw new LLMProviderError('OpenAI-compatible chat request failed', this.id, error);
+        }
+    }
+
+    async *stream(request: LLMChatRequest): AsyncIterable<string> {
+        try {
+            const stream = await this.client.chat.completions.create({
+                ...toCompletionParams(request, this.defaultModel, false),
+                stream: true
+            });
+
+            for await (const chunk of stream as any) {
+                const delta = chunk.choices?.[0]?.delta?.content;
+                if (delta) {
+                    yield delta;
+                }
+            }
+        } catch (error) {
+            logger.error('OpenAI-compatible stream failed', error);
+            throw new LLMProviderError('OpenAI-compatible stream request failed', this.id, error);
+        }
+    }
+}
@@ -0,0 +1,43 @@
+/**
+ * Questionnaire Consistency Script
+ * Builds the questionnaire definition (questions, routing, skip rules, branches, MCP rules)
+ * and reports orphan ids, broken skip rules and unreachable questions or branches.
+ * Exits non-zero on errors.
+ *
+ * Usage: npx tsx backend/scripts/check_questionnaire.ts [--strict]   (--strict also fails on warnings)
+ */
+
+import { getMCPEngine } from '../mcp/engine';
+import { buildQuestionnaireDefinition } from '../../lib/orchestrator/questionnaire-definition';
+import { checkQuestionnaireConsistency } from '../../lib/orchestrator/questionnaire-check';
+
+function main() {
+    const strict = process.argv.includes('--strict');
+    const mcpRules = getMCPEngine().getRules();
+    const definition = buildQuestionnaireDefinition(mcpRules);
+    const issues = checkQuestionnaireConsistency(mcpRules);
+
+    console.log('\n--- QUESTIONNAIRE CONSISTENCY ---');
+    console.log(`Phases: ${definition.phases.length}`);
+    console.log(`Questions: ${definition.questions.length}`);
+    console.log(`Skip rules: ${definition.questions.filter(question => question.skip).length}`);
+    console.log(`Branching points: ${definition.questions.filter(question => question.branches).length}`);
+    console.log(`Questions triggering MCP rules: ${definition.questions.filter(question => question.mcpRules.length > 0).length}`);
+
+    if (issues.length > 0) {
+        console.log('\nIssues:');
+        issues.forEach(issue => console.log(`- [${issue.severity}] ${issue.source}: ${issue.message}`));
+    }
+
+    const failed = issues.some(issue => issue.severity === 'error')
+        || (strict && issues.length > 0);
+
+    if (failed) {
+        console.error('\nQuestionnaire check FAILED');
+        process.exit(1);
+    }
+
+    console.log('\nQuestionnaire check passed!');
+}
+
+main();
@@ -0,0 +1,34 @@
+/**
+ * Company Registry Import Script
+ * Builds the on-disk index used by the local company registry provider from bulk CSV
+ * dumps (MCA company / LLP master data, Companies House BasicCompanyData).
+ *
+ * Usage: npx tsx backend/scripts/import_company_registry.ts <dump.csv>... [--out dir] [--append]
+ */
+
+import { importRegistryCsv, DEFAULT_REGISTRY_DATA_DIR } from '../services/company-registry';
+
+async function main() {
+    const args = process.argv.slice(2);
+    const outIndex = args.indexOf('--out');
+    const dataDir = outIndex >= 0 ? args[outIndex + 1] : process.env.COMPANY_REGISTRY_DATA_DIR || DEFAULT_REGISTRY_DATA_DIR;
+    const files = args.filter((arg, i) => !arg.startsWith('--') && (outIndex < 0 || i !== outIndex + 1));
+
+    if (files.length === 0) {
+        console.error('Usage: npx tsx backend/scripts/import_company_registry.ts <dump.csv>... [--out dir] [--append]');
+        process.exit(1);
+    }
+
+    const result = await importRegistryCsv(files, dataDir, { append: args.includes('--append') });
+
+    console.log('\n--- COMPANY REGISTRY IMPORT ---');
+    console.log(`Records imported: ${result.imported}`);
+    console.log(`Rows skipped: ${result.skipped}`);
+    console.log(`Index size: ${result.total}`);
+    console.log(`Index written to ${result.indexPath}`);
+}
+
+main().catch(error => {
+    console.error('Company registry import FAILED:', error);
+    process.exit(1);
+});
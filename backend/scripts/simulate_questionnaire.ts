@@ -0,0 +1,62 @@
+/**
+ * Questionnaire Simulation Script
+ * Walks the questionnaire for every combination of branching answers (business_path,
+ * customer_type, external_funding) and prints question counts, estimated time, unreachable
+ * questions and dead-end paths. Optionally writes the flow as a DOT or Mermaid graph.
+ *
+ * Usage: npx tsx backend/scripts/simulate_questionnaire.ts [field=value ...] [--dot file] [--mermaid file] [--strict]
+ *        e.g. business_path=existing customer_type=b2b external_funding=bootstrap
+ *        (--strict fails on unreachable questions or dead-end paths)
+ */
+
+import fs from 'fs';
+import {
+    exportFlowDot,
+    exportFlowMermaid,
+    formatSimulationReport,
+    simulateQuestionnaire
+} from '../../lib/orchestrator/questionnaire-simulator';
+
+function main() {
+    const args = process.argv.slice(2);
+    const dotIndex = args.indexOf('--dot');
+    const mermaidIndex = args.indexOf('--mermaid');
+    const outputs = [dotIndex, mermaidIndex].filter(i => i >= 0).map(i => i + 1);
+    const answers: Record<string, string> = {};
+
+    args.filter((arg, i) => !arg.startsWith('--') && !outputs.includes(i))
+        .forEach(arg => {
+            const [field, ...value] = arg.split('=');
+            if (!field || value.length === 0) {
+                console.error(`Expected field=value, got "${arg}"`);
+                process.exit(1);
+            }
+            answers[field] = value.join('=');
+        });
+
+    const report = simulateQuestionnaire({ answers });
+
+    console.log('\n--- QUESTIONNAIRE SIMULATION ---');
+    console.log(formatSimulationReport(report));
+
+    if (dotIndex >= 0) {
+        fs.writeFileSync(args[dotIndex + 1], exportFlowDot(report));
+        console.log(`\nDOT graph written to ${args[dotIndex + 1]}`);
+    }
+    if (mermaidIndex >= 0) {
+        fs.writeFileSync(args[mermaidIndex + 1], exportFlowMermaid(report));
+        console.log(`\nMermaid graph written to ${args[mermaidIndex + 1]}`);
+    }
+
+    const failed = args.includes('--strict')
+        && (report.unreachable.length > 0 || report.paths.some(path => path.deadEnds.length > 0));
+
+    if (failed) {
+        console.error('\nQuestionnaire simulation FAILED');
+        process.exit(1);
+    }
+
+    console.log('\nQuestionnaire simulation passed!');
+}
+
+main();
@@ -0,0 +1,54 @@
+/**
+ * MCP Rule Test Script
+ * Loads the MCP rule files, reports invalid rules, then replays fixture answer sets
+ * through the engine and prints which rules fired. Exits non-zero on invalid rules or
+ * unmet fixture expectations.
+ *
+ * Usage: npx tsx backend/scripts/test_mcp_rules.ts [fixture.json ...]
+ *        (default: backend/scripts/fixtures/mcp_*.json; MCP_RULES_DIR selects the rules)
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { getMCPEngine } from '../mcp/engine';
+import { formatReplayReport, replayAnswers, ReplayFixture } from '../mcp/harness';
+
+async function main() {
+    const fixturesDir = path.join(process.cwd(), 'backend', 'scripts', 'fixtures');
+    const fixturePaths = process.argv.slice(2).length > 0
+        ? process.argv.slice(2)
+        : fs.readdirSync(fixturesDir)
+            .filter(file => /^mcp_.*\.json$/.test(file))
+            .sort()
+            .map(file => path.join(fixturesDir, file));
+
+    const engine = getMCPEngine();
+    const failures: string[] = [];
+
+    console.log('\n--- MCP RULES ---');
+    console.log(`Rules loaded: ${engine.getRules().length}`);
+    engine.getValidationIssues().forEach(issue => {
+        console.log(`- [${issue.severity}] ${issue.source}: ${issue.message}`);
+        if (issue.severity === 'error') failures.push(`${issue.source}: ${issue.message}`);
+    });
+
+    for (const fixturePath of fixturePaths) {
+        const fixture: ReplayFixture = JSON.parse(fs.readFileSync(fixturePath, 'utf-8'));
+        const report = await replayAnswers({ name: path.basename(fixturePath), ...fixture }, engine);
+
+        console.log(`\n${formatReplayReport(report)}`);
+        failures.push(...report.failures.map(failure => `${report.name}: ${failure}`));
+    }
+
+    if (failures.length > 0) {
+        console.error(`\nMCP rule tests FAILED (${failures.length})`);
+        process.exit(1);
+    }
+
+    console.log('\nMCP rule tests passed!');
+}
+
+main().catch(error => {
+    console.error(error);
+    process.exit(1);
+});
@@ -0,0 +1,42 @@
+/**
+ * Agent Validation Script
+ * Validates backend/agents YAML definitions and reports dangling agent/skill references
+ * from MCP rules and the question config. Exits non-zero on invalid definitions.
+ *
+ * Usage: npx tsx backend/scripts/validate_agents.ts [--strict]   (--strict also fails on dangling references)
+ */
+
+import { reportAgentReferences } from '../agents/reference-check';
+
+function main() {
+    const strict = process.argv.includes('--strict');
+    const report = reportAgentReferences();
+
+    console.log('\n--- AGENT VALIDATION ---');
+    console.log(`Agents loaded: ${report.agents_loaded}`);
+    console.log(`Skills registered: ${report.skills_registered}`);
+
+    if (report.definition_issues.length > 0) {
+        console.log('\nDefinition issues:');
+        report.definition_issues.forEach(issue =>
+            console.log(`- [${issue.severity}] ${issue.source}: ${issue.message}`)
+        );
+    }
+
+    if (report.dangling_references.length > 0) {
+        console.log('\nDangling references:');
+        report.dangling_references.forEach(issue => console.log(`- ${issue.source}: ${issue.message}`));
+    }
+
+    const failed = report.definition_issues.some(issue => issue.severity === 'error')
+        || (strict && report.dangling_references.length > 0);
+
+    if (failed) {
+        console.error('\nAgent validation FAILED');
+        process.exit(1);
+    }
+
+    console.log('\nAgent validation passed!');
+}
+
+main();
@@ -0,0 +1,159 @@
+/**
+ * Agent Experiment Service
+ * Records which agent version produced each output (agent_activity_log) and compares
+ * versions by latency, token cost, user edits and regeneration rate.
+ */
+
+import { AgentOutput } from '../utils/types';
+import { logger } from '../utils/logger';
+import { getAgentManager, DEFAULT_AGENT_VERSION } from '../agents/manager';
+import { getSessionStorage, SessionStorageService, AgentActivityRecord } from './session-storage';
+import { getQuestionConfig } from '../../lib/orchestrator/question-config';
+
+const MAX_LOGGED_TEXT = 4000;
+
+export interface AgentVersionStats {
+    version: string;
+    traffic: number; // Configured share of sessions (%)
+    runs: number;
+    sessions: number;
+    success_rate: number;
+    avg_latency_ms: number;
+    p95_latency_ms: number;
+    avg_tokens: number;
+    avg_cost_usd: number;
+    total_cost_usd: number;
+    user_edit_rate: number; // User edits per run
+    regeneration_rate: number; // Share of sessions where the user explicitly regenerated the agent's output
+}
+
+export interface AgentExperimentReport {
+    agent_id: string;
+    generated_at: string;
+    versions: AgentVersionStats[];
+}
+
+export class AgentExperimentService {
+    constructor(private storage: SessionStorageService = getSessionStorage()) { }
+
+    /**
+     * Log an agent execution with the version that produced it (cache hits are not logged).
+     * Only runs flagged as `regeneration` count towards the regeneration rate.
+     */
+    async recordRun(
+        sessionId: string | undefined,
+        output: AgentOutput,
+        inputMessage: string,
+        options: { regeneration?: boolean } = {}
+    ): Promise<void> {
+        if (!sessionId || output.cached) return;
+
+        await this.storage.logAgentActivity(sessionId, {
+            agentId: output.agent_id,
+            agentName: output.agent_name,
+            agentVersion: output.agent_version || DEFAULT_AGENT_VERSION,
+            skillsUsed: output.skills_used,
+            inputMessage: inputMessage.substring(0, MAX_LOGGED_TEXT),
+            outputResponse: output.output.substring(0, MAX_LOGGED_TEXT),
+            executionTimeMs: output.execution_time_ms,
+            success: output.success,
+            errorMessage: output.error,
+            inputTokens: output.usage?.input_tokens,
+            outputTokens: output.usage?.output_tokens,
+            costUsd: output.usage?.cost_usd,
+            regeneration: options.regeneration
+        });
+    }
+
+    /**
+     * Count a user edit of the agent's latest output in a session
+     */
+    async recordUserEdit(sessionId: string, agentId: string): Promise<boolean> {
+        const recorded = await this.storage.recordAgentEdit(sessionId, agentId);
+        if (!recorded) {
+            logger.warn('No agent run found to attach user edit to', { sessionId, agentId });
+        }
+        return recorded;
+    }
+
+    /**
+     * Count a user edit of questionnaire answers against the agents routed to those questions
+     * in question-config (phase default agents are not charged). Returns the agents charged.
+     */
+    async recordAnswerEdits(sessionId: string, fields: string[]): Promise<string[]> {
+        const agentIds = Array.from(new Set(fields.flatMap(field => getQuestionConfig(field)?.agents || [])));
+        const recorded = await Promise.all(agentIds.map(agentId => this.storage.recordAgentEdit(sessionId, agentId)));
+        return agentIds.filter((_, index) => recorded[index]);
+    }
+
+    /**
+     * Compare every version of an agent
+     */
+    async getReport(agentId: string): Promise<AgentExperimentReport> {
+        const activity = await this.storage.getAgentActivity(agentId);
+        const definitions = getAgentManager().getAgentVersions(agentId);
+
+        const variantTraffic = definitions.reduce((sum, agent) => sum + (agent.traffic || 0), 0);
+        const traffic: Record<string, number> = {};
+        definitions.forEach(agent => {
+            traffic[agent.version || DEFAULT_AGENT_VERSION] = agent.traffic ?? Math.max(0, 100 - variantTraffic);
+        });
+
+        const byVersion: Record<string, AgentActivityRecord[]> = {};
+        Object.keys(traffic).forEach(version => {
+            byVersion[version] = [];
+        });
+        activity.forEach(record => {
+            const version = record.agentVersion || DEFAULT_AGENT_VERSION;
+            (byVersion[version] = byVersion[version] || []).push(record);
+        });
+
+        return {
+            agent_id: agentId,
+            generated_at: new Date().toISOString(),
+            versions: Object.entries(byVersion).map(([version, records]) =>
+                summarize(version, traffic[version] ?? 0, records)
+            )
+        };
+    }
+}
+
+function summarize(version: string, traffic: number, records: AgentActivityRecord[]): AgentVersionStats {
+    const runs = records.length;
+    const sessions = new Set(records.map(r => r.sessionId)).size;
+    const regenerated = new Set(records.filter(r => r.regeneration).map(r => r.sessionId)).size;
+
+    const latencies = records.map(r => r.executionTimeMs).sort((a, b) => a - b);
+    const totalCost = records.reduce((sum, r) => sum + (r.costUsd || 0), 0);
+    const totalTokens = records.reduce((sum, r) => sum + (r.inputTokens || 0) + (r.outputTokens || 0), 0);
+    const edits = records.reduce((sum, r) => sum + r.userEdits, 0);
+
+    return {
+        version,
+        traffic,
+        runs,
+        sessions,
+        success_rate: ratio(records.filter(r => r.success).length, runs),
+        avg_latency_ms: Math.round(ratio(latencies.reduce((sum, ms) => sum + ms, 0), runs)),
+        p95_latency_ms: runs > 0 ? latencies[Math.min(runs - 1, Math.floor(runs * 0.95))] : 0,
+        avg_tokens: Math.round(ratio(totalTokens, runs)),
+        avg_cost_usd: ratio(totalCost, runs),
+        total_cost_usd: totalCost,
+        user_edit_rate: ratio(edits, runs),
+        regeneration_rate: ratio(regenerated, sessions)
+    };
+}
+
+function ratio(value: number, total: number): number {
+    return total > 0 ? value / total : 0;
+}
+
+// Export singleton instance
+let experimentsInstance: AgentExperimentService | null = null;
+
+export function getAgentExperiments(): AgentExperimentService {
+    if (!experimentsInstance) {
+        experimentsInstance = new AgentExperimentService();
+    }
+    return experimentsInstance;
+}
@@ -0,0 +1,338 @@
+/**
+ * Agent Output Cache
+ * Content-addressed cache for agent outputs. Keys combine agent id, system prompt hash,
+ * model, non-answer inputs and ONLY the answer fields relevant to the agent/question,
+ * so unrelated answer edits do not force an agent re-run.
+ *
+ * Two tiers: in-memory (always) + optional persistent store (pluggable; file store built in).
+ *
+ * Env:
+ *   AGENT_CACHE_DISABLED=true   disable caching entirely
+ *   AGENT_CACHE_TTL_MS=...      entry lifetime (default 24h)
+ *   AGENT_CACHE_DIR=...         enable the file-backed persistent store
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { logger } from '../utils/logger';
+
+const DEFAULT_TTL_MS = 24 * 60 * 60 * 1000;
+const GLOBAL_SCOPE = 'global';
+
+export interface AgentCacheEntry {
+    key: string;
+    agent_id: string;
+    scope: string; // Session id, or 'global'
+    fields: string[]; // Answer fields the entry depends on (for invalidation)
+    value: any;
+    created_at: number;
+    expires_at: number;
+}
+
+/**
+ * Persistent store contract. Implementations only need key/value semantics;
+ * expiry and invalidation are handled by AgentOutputCache.
+ */
+export interface AgentCacheStore {
+    get(key: string): Promise<AgentCacheEntry | null>;
+    set(entry: AgentCacheEntry): Promise<void>;
+    delete(key: string): Promise<void>;
+    entries(): Promise<AgentCacheEntry[]>;
+}
+
+export interface AgentCacheKeyInput {
+    agentId: string;
+    systemPrompt: string;
+    model: string;
+    input?: any; // Non-answer inputs (task description, upstream outputs, language...)
+    answers?: Record<string, any>;
+    relevantFields?: string[]; // Omit to key on every answer
+    scope?: string;
+}
+
+export interface AgentCacheKey {
+    key: string;
+    agentId: string;
+    scope: string;
+    fields: string[];
+}
+
+export interface AgentOutputCacheOptions {
+    ttlMs?: number;
+    store?: AgentCacheStore; // Persistent tier
+    maxMemoryEntries?: number;
+}
+
+// ============================================================================
+// Stores
+// ============================================================================
+
+export class MemoryCacheStore implements AgentCacheStore {
+    private entriesMap: Map<string, AgentCacheEntry> = new Map();
+
+    constructor(private maxEntries: number = 500) { }
+
+    async get(key: string): Promise<AgentCacheEntry | null> {
+        const entry = this.entriesMap.get(key);
+        if (!entry) return null;
+
+        // Refresh recency
+        this.entriesMap.delete(key);
+        this.entriesMap.set(key, entry);
+        return entry;
+    }
+
+    async set(entry: AgentCacheEntry): Promise<void> {
+        this.entriesMap.delete(entry.key);
+        this.entriesMap.set(entry.key, entry);
+
+        // Evict least recently used entries
+        while (this.entriesMap.size > this.maxEntries) {
+            const oldest = this.entriesMap.keys().next().value;
+            if (oldest === undefined) break;
+            this.entriesMap.delete(oldest);
+        }
+    }
+
+    async delete(key: string): Promise<void> {
+        this.entriesMap.delete(key);
+    }
+
+    async entries(): Promise<AgentCacheEntry[]> {
+        return Array.from(this.entriesMap.values());
+    }
+}
+
+export class FileCacheStore implements AgentCacheStore {
+    constructor(private directory: string) {
+        fs.mkdirSync(directory, { recursive: true });
+    }
+
+    async get(key: string): Promise<AgentCacheEntry | null> {
+        try {
+            const content = await fs.promises.readFile(this.filePath(key), 'utf-8');
+            return JSON.parse(content) as AgentCacheEntry;
+        } catch {
+            return null;
+        }
+    }
+
+    async set(entry: AgentCacheEntry): Promise<void> {
+        await fs.promises.writeFile(this.filePath(entry.key), JSON.stringify(entry));
+    }
+
+    async delete(key: string): Promise<void> {
+        await fs.promises.rm(this.filePath(key), { force: true });
+    }
+
+    async entries(): Promise<AgentCacheEntry[]> {
+        const files = (await fs.promises.readdir(this.directory)).filter(f => f.endsWith('.json'));
+        const entries = await Promise.all(files.map(f => this.get(path.basename(f, '.json'))));
+        return entries.filter((entry): entry is AgentCacheEntry => entry !== null);
+    }
+
+    private filePath(key: string): string {
+        return path.join(this.directory, `${key}.json`);
+    }
+}
+
+// ============================================================================
+// Cache
+// ============================================================================
+
+export class AgentOutputCache {
+    private memory: MemoryCacheStore;
+    private store?: AgentCacheStore;
+    private ttlMs: number;
+    private stats = { hits: 0, misses: 0 };
+
+    constructor(options: AgentOutputCacheOptions = {}) {
+        this.memory = new MemoryCacheStore(options.maxMemoryEntries);
+        this.store = options.store;
+        this.ttlMs = options.ttlMs ?? DEFAULT_TTL_MS;
+    }
+
+    /**
+     * Build a content-addressed key from the inputs that influence an agent's output
+     */
+    buildKey(input: AgentCacheKeyInput): AgentCacheKey {
+        const answers = input.answers || {};
+        const fields = (input.relevantFields || Object.keys(answers))
+            .filter(field => answers[field] !== undefined)
+            .sort();
+
+        const relevantAnswers: Record<string, any> = {};
+        fields.forEach(field => {
+            relevantAnswers[field] = answers[field];
+        });
+
+        const scope = input.scope || GLOBAL_SCOPE;
+        const key = hash(stableStringify({
+            agent: input.agentId,
+            prompt: hash(input.systemPrompt),
+            model: input.model,
+            scope,
+            input: input.input ?? null,
+            answers: relevantAnswers
+        }));
+
+        return { key, agentId: input.agentId, scope, fields };
+    }
+
+    async get<T = any>(cacheKey: AgentCacheKey): Promise<T | null> {
+        let entry = await this.memory.get(cacheKey.key);
+
+        if (!entry && this.store) {
+            try {
+                entry = await this.store.get(cacheKey.key);
+                if (entry) {
+                    await this.memory.set(entry);
+                }
+            } catch (error) {
+                logger.warn('Agent cache store read failed', { error: String(error) });
+            }
+        }
+
+        if (!entry || entry.expires_at <= Date.now()) {
+            if (entry) {
+                await this.delete(cacheKey.key);
+            }
+            this.stats.misses++;
+            return null;
+        }
+
+        this.stats.hits++;
+        logger.debug(`Agent cache hit: ${cacheKey.agentId}`, { key: cacheKey.key.substring(0, 12) });
+        return entry.value as T;
+    }
+
+    async set(cacheKey: AgentCacheKey, value: any, ttlMs?: number): Promise<void> {
+        const now = Date.now();
+        const entry: AgentCacheEntry = {
+            key: cacheKey.key,
+            agent_id: cacheKey.agentId,
+            scope: cacheKey.scope,
+            fields: cacheKey.fields,
+            value,
+            created_at: now,
+            expires_at: now + (ttlMs ?? this.ttlMs)
+        };
+
+        await this.memory.set(entry);
+
+        if (this.store) {
+            try {
+                await this.store.set(entry);
+            } catch (error) {
+                logger.warn('Agent cache store write failed', { error: String(error) });
+            }
+        }
+    }
+
+    /**
+     * Drop every entry that depends on an answer field (call when an upstream answer changes)
+     */
+    async invalidateField(fieldId: string, scope?: string): Promise<number> {
+        return this.invalidateWhere(entry =>
+            entry.fields.includes(fieldId) && (!scope || entry.scope === scope)
+        );
+    }
+
+    /**
+     * Drop every entry produced by an agent (e.g. after a prompt change)
+     */
+    async invalidateAgent(agentId: string, scope?: string): Promise<number> {
+        return this.invalidateWhere(entry =>
+            entry.agent_id === agentId && (!scope || entry.scope === scope)
+        );
+    }
+
+    /**
+     * Drop every entry for a session
+     */
+    async invalidateScope(scope: string): Promise<number> {
+        return this.invalidateWhere(entry => entry.scope === scope);
+    }
+
+    async clear(): Promise<void> {
+        await this.invalidateWhere(() => true);
+        this.stats = { hits: 0, misses: 0 };
+    }
+
+    getStats(): { hits: number; misses: number } {
+        return { ...this.stats };
+    }
+
+    private async delete(key: string): Promise<void> {
+        await this.memory.delete(key);
+        if (this.store) {
+            await this.store.delete(key).catch(() => undefined);
+        }
+    }
+
+    private async invalidateWhere(predicate: (entry: AgentCacheEntry) => boolean): Promise<number> {
+        const keys = new Set<string>();
+
+        (await this.memory.entries()).filter(predicate).forEach(entry => keys.add(entry.key));
+
+        if (this.store) {
+            try {
+                (await this.store.entries()).filter(predicate).forEach(entry => keys.add(entry.key));
+            } catch (error) {
+                logger.warn('Agent cache store scan failed', { error: String(error) });
+            }
+        }
+
+        await Promise.all(Array.from(keys).map(key => this.delete(key)));
+
+        if (keys.size > 0) {
+            logger.info('Agent cache entries invalidated', { count: keys.size });
+        }
+        return keys.size;
+    }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function hash(value: string): string {
+    return crypto.createHash('sha256').update(value).digest('hex');
+}
+
+/**
+ * JSON.stringify with sorted object keys so equal values always hash equally
+ */
+function stableStringify(value: any): string {
+    if (value === null || typeof value !== 'object') {
+        return JSON.stringify(value) ?? 'null';
+    }
+    if (Array.isArray(value)) {
+        return `[${value.map(stableStringify).join(',')}]`;
+    }
+    const keys = Object.keys(value).filter(k => value[k] !== undefined).sort();
+    return `{${keys.map(k => `${JSON.stringify(k)}:${stableStringify(value[k])}`).join(',')}}`;
+}
+
+// Export singleton instance
+let cacheInstance: AgentOutputCache | null | undefined;
+
+/**
+ * Shared cache (null when AGENT_CACHE_DISABLED=true)
+ */
+export function getAgentOutputCache(): AgentOutputCache | null {
+    if (cacheInstance === undefined) {
+        if (process.env.AGENT_CACHE_DISABLED === 'true') {
+            cacheInstance = null;
+        } else {
+            const cacheDir = process.env.AGENT_CACHE_DIR;
+            cacheInstance = new AgentOutputCache({
+                ttlMs: process.env.AGENT_CACHE_TTL_MS ? Number(process.env.AGENT_CACHE_TTL_MS) : undefined,
+                store: cacheDir ? new FileCacheStore(cacheDir) : undefined
+            });
+            logger.info('Agent output cache initialized', { persistent: !!cacheDir });
+        }
+    }
+    return cacheInstance;
+}
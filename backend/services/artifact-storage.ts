@@ -0,0 +1,431 @@
+/**
+ * Artifact Storage Service
+ * Stores generated files (pitch decks, documents, exports) behind a StorageProvider with
+ * metadata (session, document type, version, checksum) so the URLs returned by skills resolve
+ * and documents survive the results page being closed. Downloads go through
+ * GET /api/artifacts/<key> with an expiring HMAC signature.
+ *
+ * Selection:
+ *   ARTIFACT_STORAGE_PROVIDER=local | s3           (default: local)
+ *   ARTIFACT_STORAGE_DIR=path/to/artifacts          (local; default: data/artifacts)
+ *   ARTIFACT_S3_BUCKET, ARTIFACT_S3_REGION, ARTIFACT_S3_ACCESS_KEY_ID, ARTIFACT_S3_SECRET_ACCESS_KEY
+ *   ARTIFACT_S3_ENDPOINT=http://localhost:9000      (S3-compatible server such as MinIO; path-style URLs)
+ *   ARTIFACT_SIGNING_SECRET=...                     (required when NODE_ENV=production; random per process otherwise)
+ *   ARTIFACT_URL_TTL_SECONDS=3600                   (signed URL lifetime)
+ *   ARTIFACT_BASE_URL=https://app.example.com       (default: relative URLs)
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { ArtifactInput, ArtifactLink, StorageProvider, StoredArtifact } from '../utils/types';
+import { logger } from '../utils/logger';
+
+export const DEFAULT_ARTIFACT_STORAGE_DIR = path.join(process.cwd(), 'data', 'artifacts');
+export const DEFAULT_URL_TTL_SECONDS = 3600;
+
+const META_SUFFIX = '.meta.json';
+const KEY_PATTERN = /^[a-z0-9][a-z0-9_-]*(?:\/[a-z0-9][a-z0-9_.-]*)+$/i;
+const VERSION_PATTERN = /\/v(\d+)-[^/]+$/;
+const EMPTY_SHA256 = crypto.createHash('sha256').update('').digest('hex');
+
+/**
+ * Keys are "<folder>/.../<file>" paths; reject anything that could escape the storage root
+ */
+export function isValidArtifactKey(key: string): boolean {
+    return KEY_PATTERN.test(key) && !key.split('/').some(part => part === '..' || part.endsWith(META_SUFFIX));
+}
+
+/**
+ * Folder holding every version of one document type for a session
+ */
+export function artifactFolder(sessionId: string | undefined, documentType: string): string {
+    return sessionId
+        ? `sessions/${keySegment(sessionId)}/${keySegment(documentType)}`
+        : `shared/${keySegment(documentType)}`;
+}
+
+function keySegment(value: string): string {
+    return value.toLowerCase().replace(/[^a-z0-9_-]+/g, '-').replace(/^[-_]+|-+$/g, '') || 'unknown';
+}
+
+function sha256(body: Buffer | string): string {
+    return crypto.createHash('sha256').update(body).digest('hex');
+}
+
+export class LocalStorageProvider implements StorageProvider {
+    id = 'local';
+    private rootDir: string;
+
+    constructor(rootDir: string = process.env.ARTIFACT_STORAGE_DIR || DEFAULT_ARTIFACT_STORAGE_DIR) {
+        this.rootDir = path.resolve(rootDir);
+    }
+
+    async put(key: string, body: Buffer): Promise<void> {
+        const filePath = this.resolve(key);
+        await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+        await fs.promises.writeFile(filePath, body);
+    }
+
+    async get(key: string): Promise<Buffer | null> {
+        try {
+            return await fs.promises.readFile(this.resolve(key));
+        } catch (error: any) {
+            if (error?.code === 'ENOENT') return null;
+            throw error;
+        }
+    }
+
+    async list(prefix: string): Promise<string[]> {
+        // Walk the deepest directory the prefix names, then filter on the full prefix
+        const folder = prefix.includes('/') ? prefix.slice(0, prefix.lastIndexOf('/')) : '';
+        const dir = path.join(this.rootDir, ...folder.split('/').filter(Boolean));
+        try {
+            const entries = await fs.promises.readdir(dir, { recursive: true, withFileTypes: true });
+            return entries
+                .filter(entry => entry.isFile())
+                .map(entry => path.relative(this.rootDir, path.join(entry.parentPath, entry.name)).split(path.sep).join('/'))
+                .filter(key => key.startsWith(prefix))
+                .sort();
+        } catch (error: any) {
+            if (error?.code === 'ENOENT') return [];
+            throw error;
+        }
+    }
+
+    private resolve(key: string): string {
+        const artifactKey = key.endsWith(META_SUFFIX) ? key.slice(0, -META_SUFFIX.length) : key;
+        if (!isValidArtifactKey(artifactKey)) {
+            throw new Error(`Invalid artifact key: ${key}`);
+        }
+        return path.join(this.rootDir, ...key.split('/'));
+    }
+}
+
+export interface S3StorageConfig {
+    bucket: string;
+    region: string;
+    accessKeyId: string;
+    secretAccessKey: string;
+    endpoint?: string; // S3-compatible server; objects are addressed path-style (<endpoint>/<bucket>/<key>)
+}
+
+/**
+ * Amazon S3 or an S3-compatible server (MinIO, R2, ...), signed with AWS Signature Version 4
+ */
+export class S3StorageProvider implements StorageProvider {
+    id = 's3';
+    private config: S3StorageConfig;
+
+    constructor(config?: S3StorageConfig) {
+        this.config = config || {
+            bucket: process.env.ARTIFACT_S3_BUCKET || '',
+            region: process.env.ARTIFACT_S3_REGION || 'us-east-1',
+            accessKeyId: process.env.ARTIFACT_S3_ACCESS_KEY_ID || '',
+            secretAccessKey: process.env.ARTIFACT_S3_SECRET_ACCESS_KEY || '',
+            endpoint: process.env.ARTIFACT_S3_ENDPOINT
+        };
+        if (!this.config.bucket || !this.config.accessKeyId || !this.config.secretAccessKey) {
+            throw new Error('S3 artifact storage needs ARTIFACT_S3_BUCKET, ARTIFACT_S3_ACCESS_KEY_ID and ARTIFACT_S3_SECRET_ACCESS_KEY');
+        }
+    }
+
+    async put(key: string, body: Buffer, contentType: string): Promise<void> {
+        const response = await this.request('PUT', this.objectUrl(key), body, contentType);
+        if (!response.ok) {
+            throw new Error(`S3 upload of ${key} failed: HTTP ${response.status} ${await response.text()}`);
+        }
+    }
+
+    async get(key: string): Promise<Buffer | null> {
+        const response = await this.request('GET', this.objectUrl(key));
+        if (response.status === 404) return null;
+        if (!response.ok) {
+            throw new Error(`S3 download of ${key} failed: HTTP ${response.status}`);
+        }
+        return Buffer.from(await response.arrayBuffer());
+    }
+
+    async list(prefix: string): Promise<string[]> {
+        const keys: string[] = [];
+        let continuationToken: string | undefined;
+        do {
+            const url = this.objectUrl('');
+            url.searchParams.set('list-type', '2');
+            url.searchParams.set('prefix', prefix);
+            if (continuationToken) url.searchParams.set('continuation-token', continuationToken);
+
+            const response = await this.request('GET', url);
+            if (!response.ok) {
+                throw new Error(`S3 listing of ${prefix} failed: HTTP ${response.status}`);
+            }
+            const xml = await response.text();
+            const pattern = /<Key>([^<]*)<\/Key>/g;
+            let match: RegExpExecArray | null;
+            while ((match = pattern.exec(xml)) !== null) keys.push(decodeXml(match[1]));
+
+            const truncated = /<IsTruncated>true<\/IsTruncated>/.test(xml);
+            const next = xml.match(/<NextContinuationToken>([^<]*)<\/NextContinuationToken>/);
+            continuationToken = truncated && next ? decodeXml(next[1]) : undefined;
+        } while (continuationToken);
+        return keys.sort();
+    }
+
+    private objectUrl(key: string): URL {
+        const encodedKey = key.split('/').map(encodeRfc3986).join('/');
+        if (this.config.endpoint) {
+            const bucketUrl = `${this.config.endpoint.replace(/\/+$/, '')}/${this.config.bucket}`;
+            return new URL(encodedKey ? `${bucketUrl}/${encodedKey}` : bucketUrl);
+        }
+        return new URL(`https://${this.config.bucket}.s3.${this.config.region}.amazonaws.com/${encodedKey}`);
+    }
+
+    private async request(method: string, url: URL, body?: Buffer, contentType?: string): Promise<Response> {
+        const headers: Record<string, string> = {};
+        if (contentType) headers['content-type'] = contentType;
+
+        const signed = signS3Request({
+            method,
+            url,
+            headers,
+            payloadHash: body ? sha256(body) : EMPTY_SHA256,
+            region: this.config.region,
+            accessKeyId: this.config.accessKeyId,
+            secretAccessKey: this.config.secretAccessKey
+        });
+        return fetch(url, { method, headers: signed, body: body ? new Uint8Array(body) : undefined });
+    }
+}
+
+/**
+ * AWS Signature Version 4 headers for an S3 request (host, x-amz-date, x-amz-content-sha256, authorization)
+ */
+export function signS3Request(request: {
+    method: string;
+    url: URL;
+    headers: Record<string, string>;
+    payloadHash: string;
+    region: string;
+    accessKeyId: string;
+    secretAccessKey: string;
+    date?: Date;
+}): Record<string, string> {
+    const amzDate = (request.date || new Date()).toISOString().replace(/[:-]|\.\d{3}/g, '');
+    const dateStamp = amzDate.slice(0, 8);
+    const scope = `${dateStamp}/${request.region}/s3/aws4_request`;
+
+    const headers: Record<string, string> = {
+        ...request.headers,
+        host: request.url.host,
+        'x-amz-content-sha256': request.payloadHash,
+        'x-amz-date': amzDate
+    };
+    const names = Object.keys(headers).map(name => name.toLowerCase()).sort();
+    const lowerCased: Record<string, string> = {};
+    Object.keys(headers).forEach(name => { lowerCased[name.toLowerCase()] = String(headers[name]).trim(); });
+
+    const query = Array.from(request.url.searchParams.entries())
+        .map(([name, value]) => [encodeRfc3986(name), encodeRfc3986(value)])
+        .sort(([a, aValue], [b, bValue]) => (a === b ? (aValue < bValue ? -1 : 1) : a < b ? -1 : 1))
+        .map(([name, value]) => `${name}=${value}`)
+        .join('&');
+
+    const canonicalRequest = [
+        request.method,
+        request.url.pathname || '/',
+        query,
+        names.map(name => `${name}:${lowerCased[name]}\n`).join(''),
+        names.join(';'),
+        request.payloadHash
+    ].join('\n');
+    const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256(canonicalRequest)].join('\n');
+
+    const hmac = (key: Buffer | string, value: string) => crypto.createHmac('sha256', key).update(value).digest();
+    const signingKey = hmac(hmac(hmac(hmac(`AWS4${request.secretAccessKey}`, dateStamp), request.region), 's3'), 'aws4_request');
+    const signature = crypto.createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+    return {
+        ...headers,
+        authorization: `AWS4-HMAC-SHA256 Credential=${request.accessKeyId}/${scope}, SignedHeaders=${names.join(';')}, Signature=${signature}`
+    };
+}
+
+function encodeRfc3986(value: string): string {
+    return encodeURIComponent(value).replace(/[!'()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+function decodeXml(value: string): string {
+    return value
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&apos;/g, "'")
+        .replace(/&amp;/g, '&');
+}
+
+/**
+ * Build a storage provider by id
+ */
+export function createStorageProvider(id: string): StorageProvider {
+    switch (id) {
+        case 'local':
+            return new LocalStorageProvider();
+        case 's3':
+            return new S3StorageProvider();
+        default:
+            throw new Error(`Unknown artifact storage provider: ${id}`);
+    }
+}
+
+/**
+ * Versioned, checksummed artifacts on top of a StorageProvider, with signed download URLs
+ */
+export class ArtifactStorage {
+    private provider: StorageProvider;
+    private secret: string;
+    private ttlSeconds: number;
+    private saveQueues: Map<string, Promise<unknown>> = new Map(); // Per-folder chain, so versions are numbered one at a time
+
+    constructor(
+        provider: StorageProvider = createStorageProvider(process.env.ARTIFACT_STORAGE_PROVIDER || 'local'),
+        options: { secret?: string; ttlSeconds?: number } = {}
+    ) {
+        this.provider = provider;
+        this.ttlSeconds = options.ttlSeconds || Number(process.env.ARTIFACT_URL_TTL_SECONDS) || DEFAULT_URL_TTL_SECONDS;
+        this.secret = options.secret || process.env.ARTIFACT_SIGNING_SECRET || '';
+        if (!this.secret && process.env.NODE_ENV === 'production') {
+            throw new Error('ARTIFACT_SIGNING_SECRET must be set in production (signed download links must verify across instances and restarts)');
+        }
+        if (!this.secret) {
+            logger.warn('ARTIFACT_SIGNING_SECRET is not set; download links will stop working when the server restarts');
+            this.secret = crypto.randomBytes(32).toString('hex');
+        }
+    }
+
+    get providerId(): string {
+        return this.provider.id;
+    }
+
+    /**
+     * Store a new version of a document; returns its metadata and a signed download URL.
+     * Saves to the same folder run one after another so concurrent saves get distinct versions.
+     */
+    async save(body: Buffer, input: ArtifactInput): Promise<ArtifactLink> {
+        const folder = artifactFolder(input.session_id, input.document_type);
+        const previous = this.saveQueues.get(folder) || Promise.resolve();
+        const saved = previous.catch(() => undefined).then(() => this.saveVersion(folder, body, input));
+        this.saveQueues.set(folder, saved);
+        try {
+            return await saved;
+        } finally {
+            if (this.saveQueues.get(folder) === saved) this.saveQueues.delete(folder);
+        }
+    }
+
+    private async saveVersion(folder: string, body: Buffer, input: ArtifactInput): Promise<ArtifactLink> {
+        const versions = (await this.provider.list(`${folder}/`))
+            .map(key => key.match(VERSION_PATTERN))
+            .map(match => (match ? Number(match[1]) : 0));
+        const version = Math.max(0, ...versions) + 1;
+        const extension = path.extname(input.file_name).toLowerCase().replace(/[^a-z0-9.]/g, '');
+
+        const artifact: StoredArtifact = {
+            key: `${folder}/v${version}-${uuidv4()}${extension}`,
+            session_id: input.session_id,
+            document_type: input.document_type,
+            version,
+            file_name: input.file_name,
+            content_type: input.content_type,
+            size_bytes: body.length,
+            checksum: `sha256:${sha256(body)}`,
+            created_at: new Date().toISOString(),
+            ...(input.attributes ? { attributes: input.attributes } : {})
+        };
+
+        await this.provider.put(artifact.key, body, artifact.content_type);
+        await this.provider.put(artifact.key + META_SUFFIX, Buffer.from(JSON.stringify(artifact, null, 2)), 'application/json');
+
+        logger.info('Artifact stored', { key: artifact.key, version, size: body.length, provider: this.provider.id });
+        return this.link(artifact);
+    }
+
+    /**
+     * Read an artifact and its metadata; throws when the stored bytes no longer match the checksum
+     */
+    async get(key: string): Promise<{ body: Buffer; artifact: StoredArtifact } | null> {
+        if (!isValidArtifactKey(key)) return null;
+
+        const [body, meta] = await Promise.all([this.provider.get(key), this.provider.get(key + META_SUFFIX)]);
+        if (!body || !meta) return null;
+
+        const artifact: StoredArtifact = JSON.parse(meta.toString('utf-8'));
+        if (artifact.checksum !== `sha256:${sha256(body)}`) {
+            throw new Error(`Checksum mismatch for artifact ${key}`);
+        }
+        return { body, artifact };
+    }
+
+    /**
+     * Every stored version for a session (optionally one document type), newest first
+     */
+    async list(sessionId: string, documentType?: string): Promise<ArtifactLink[]> {
+        const prefix = documentType ? `${artifactFolder(sessionId, documentType)}/` : `sessions/${keySegment(sessionId)}/`;
+        const metaKeys = (await this.provider.list(prefix)).filter(key => key.endsWith(META_SUFFIX));
+
+        const artifacts = await Promise.all(metaKeys.map(async key => {
+            const meta = await this.provider.get(key);
+            return meta ? JSON.parse(meta.toString('utf-8')) as StoredArtifact : null;
+        }));
+        return artifacts
+            .filter((artifact): artifact is StoredArtifact => artifact !== null)
+            .sort((a, b) => (a.created_at === b.created_at ? b.version - a.version : a.created_at < b.created_at ? 1 : -1))
+            .map(artifact => this.link(artifact));
+    }
+
+    /**
+     * Attach a signed download URL valid for ttlSeconds
+     */
+    link(artifact: StoredArtifact, ttlSeconds: number = this.ttlSeconds): ArtifactLink {
+        const expires = Math.floor(Date.now() / 1000) + ttlSeconds;
+        const base = (process.env.ARTIFACT_BASE_URL || '').replace(/\/+$/, '');
+        return {
+            ...artifact,
+            url: `${base}/api/artifacts/${artifact.key}?expires=${expires}&signature=${this.sign(artifact.key, expires)}`,
+            expires_at: new Date(expires * 1000).toISOString()
+        };
+    }
+
+    /**
+     * Check a download link's signature and expiry
+     */
+    verifyLink(key: string, expires: string | null, signature: string | null): 'valid' | 'expired' | 'invalid' {
+        if (!expires || !signature || !/^\d+$/.test(expires)) return 'invalid';
+
+        const expected = Buffer.from(this.sign(key, Number(expires)));
+        const actual = Buffer.from(signature);
+        if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) return 'invalid';
+        return Number(expires) * 1000 < Date.now() ? 'expired' : 'valid';
+    }
+
+    private sign(key: string, expires: number): string {
+        return crypto.createHmac('sha256', this.secret).update(`${key}\n${expires}`).digest('hex');
+    }
+}
+
+// Export singleton instance
+let storageInstance: ArtifactStorage | null = null;
+
+export function getArtifactStorage(): ArtifactStorage {
+    if (!storageInstance) {
+        storageInstance = new ArtifactStorage();
+    }
+    return storageInstance;
+}
+
+/**
+ * Override the shared storage (e.g. another provider or a temp directory); pass null to reset
+ */
+export function setArtifactStorage(storage: ArtifactStorage | null): void {
+    storageInstance = storage;
+}
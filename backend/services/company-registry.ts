@@ -0,0 +1,520 @@
+/**
+ * Company Registry Service
+ * Looks up registered companies by name through a pluggable CompanyRegistryProvider.
+ * The default provider reads bulk CSV dumps (MCA company/LLP master data, Companies House
+ * BasicCompanyData) imported into an on-disk index and matches names fuzzily.
+ *
+ * Index layout (<data dir>/index), streamed on import and read shard by shard on lookup so
+ * dumps with millions of rows never have to fit in memory:
+ *   manifest.json                 version, sources, record count
+ *   records/<hash>.ndjson         "<registration number>\t<record JSON>", sharded by registration number
+ *   names/<prefix>.tsv            "<search key>\t<registration number>\t<country>\t<normalized name>",
+ *                                 sharded by the first two characters of the search key
+ *
+ * Selection:
+ *   COMPANY_REGISTRY_PROVIDER=local                  (default)
+ *   COMPANY_REGISTRY_DATA_DIR=path/to/index/dir      (default: data/company-registry)
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+    CompanyMatch,
+    CompanyRecord,
+    CompanyRegistryProvider,
+    CompanySearchOptions,
+    RegistryEntityType
+} from '../utils/types';
+import { logger } from '../utils/logger';
+import { readCsvFile } from '../utils/csv';
+
+export const DEFAULT_REGISTRY_DATA_DIR = path.join(process.cwd(), 'data', 'company-registry');
+export const REGISTRY_INDEX_DIR = 'index';
+
+const INDEX_VERSION = 2;
+const MANIFEST_FILE = 'manifest.json';
+const LEGACY_INDEX_FILE = 'registry-index.json'; // Version 1: one JSON file with every record
+const RECORD_SHARDS = 256;
+const FLUSH_BYTES = 16 * 1024; // Buffered per shard during import
+const MAX_CACHED_SHARDS = 64; // Parsed shards kept per provider
+const DEFAULT_LIMIT = 5;
+const DEFAULT_MIN_SCORE = 0.6;
+const MAX_CANDIDATES = 2000; // Scored per query after key-overlap pre-filtering
+export const PREFILL_MIN_SCORE = 0.85; // Below this the user picks from candidates instead
+
+// Words that only describe the legal form and should not affect name matching
+const LEGAL_SUFFIXES = new Set([
+    'private', 'pvt', 'pte', 'limited', 'ltd', 'llp', 'opc', 'company', 'co', 'inc',
+    'incorporated', 'llc', 'plc', 'corporation', 'corp', 'the', 'and'
+]);
+
+// Header aliases, compared after lower-casing and stripping non-alphanumerics
+const COLUMN_ALIASES: Record<keyof Omit<CompanyRecord, 'entity_type' | 'country' | 'source'>, string[]> = {
+    registration_number: ['corporateidentificationnumber', 'cin', 'llpin', 'companynumber', 'registrationnumber'],
+    name: ['companyname', 'llpname', 'name'],
+    status: ['companystatus', 'llpstatus', 'status'],
+    entity_description: ['companycategory', 'companyclass', 'companysubcategory', 'category', 'entitytype'],
+    incorporation_date: ['dateofregistration', 'dateofincorporation', 'incorporationdate'],
+    registered_address: ['registeredofficeaddress', 'registeredaddress', 'regaddressaddressline1'],
+    region: ['registeredstate', 'state', 'regaddresscounty', 'regaddressposttown'],
+    authorized_capital: ['authorizedcap', 'authorisedcapital', 'authorizedcapital'],
+    paid_up_capital: ['paidupcapital', 'paidupcap'],
+    activity: ['principalbusinessactivityaspercin', 'principalbusinessactivity', 'siccodesictext1', 'activitydescription']
+};
+
+interface RegistryManifest {
+    version: number;
+    built_at: string;
+    sources: string[];
+    records: number;
+}
+
+interface NameEntry {
+    key: string;
+    registrationNumber: string;
+    country: string;
+    name: string; // Normalized
+}
+
+/**
+ * Normalize a company name for matching: lower case, no punctuation, no legal-form words
+ */
+export function normalizeCompanyName(name: string): string {
+    return name
+        .toLowerCase()
+        .replace(/&/g, ' and ')
+        .replace(/[^a-z0-9]+/g, ' ')
+        .split(' ')
+        .filter(token => token && !LEGAL_SUFFIXES.has(token))
+        .join(' ');
+}
+
+/**
+ * Similarity between two normalized names (0-1): character bigram overlap blended with
+ * token overlap, where a token also matches its own abbreviation ("tech" / "technologies")
+ */
+export function nameSimilarity(a: string, b: string): number {
+    if (!a || !b) return 0;
+    if (a === b) return 1;
+
+    const dice = diceCoefficient(a.replace(/ /g, ''), b.replace(/ /g, ''));
+    const tokensA = a.split(' ');
+    const tokensB = b.split(' ');
+    const matched = tokensA.filter(token => tokensB.some(other => tokensMatch(token, other))).length;
+    const tokenScore = matched / (tokensA.length + tokensB.length - matched);
+
+    return Math.round((0.6 * dice + 0.4 * tokenScore) * 1000) / 1000;
+}
+
+function tokensMatch(a: string, b: string): boolean {
+    if (a === b) return true;
+    const [shorter, longer] = a.length <= b.length ? [a, b] : [b, a];
+    return shorter.length >= 3 && longer.startsWith(shorter);
+}
+
+function diceCoefficient(a: string, b: string): number {
+    if (a.length < 2 || b.length < 2) return a === b ? 1 : 0;
+    const bigrams = new Map<string, number>();
+    for (let i = 0; i < a.length - 1; i++) {
+        const bigram = a.substring(i, i + 2);
+        bigrams.set(bigram, (bigrams.get(bigram) || 0) + 1);
+    }
+    let shared = 0;
+    for (let i = 0; i < b.length - 1; i++) {
+        const bigram = b.substring(i, i + 2);
+        const count = bigrams.get(bigram) || 0;
+        if (count > 0) {
+            bigrams.set(bigram, count - 1);
+            shared++;
+        }
+    }
+    return (2 * shared) / (a.length + b.length - 2);
+}
+
+// Candidate keys: 3-character prefixes of each name token
+function searchKeys(normalizedName: string): string[] {
+    return Array.from(new Set(normalizedName.split(' ').filter(Boolean).map(token => token.substring(0, 3))));
+}
+
+/**
+ * Map a registry category / class description to a legal_entity answer value
+ */
+export function entityTypeFrom(description: string | undefined, name: string, registrationNumber: string): RegistryEntityType {
+    const text = `${description || ''} ${name}`.toLowerCase();
+    if (/one person/.test(text) || /\bopc\b/.test(text)) return 'opc';
+    if (/limited liability partnership|\bllp\b/.test(text) || /^[a-z]{3}-\d{4}$/i.test(registrationNumber)) return 'llp';
+    if (/partnership/.test(text)) return 'partnership';
+    if (/proprietor/.test(text)) return 'sole_proprietorship';
+    if (/\bpublic\b|\bplc\b/.test(text)) return 'public_ltd';
+    if (/private|\bpvt\b|\bltd\b|limited/.test(text)) return 'pvt_ltd';
+    return 'other';
+}
+
+/**
+ * Parse registry dates (DD-MM-YYYY, DD/MM/YYYY or ISO) into YYYY-MM-DD
+ */
+export function parseRegistryDate(value: string | undefined): string | undefined {
+    if (!value) return undefined;
+    const trimmed = value.trim();
+    const iso = trimmed.match(/^(\d{4})-(\d{2})-(\d{2})/);
+    if (iso) return `${iso[1]}-${iso[2]}-${iso[3]}`;
+    const dmy = trimmed.match(/^(\d{1,2})[-\/.](\d{1,2})[-\/.](\d{4})$/);
+    if (dmy) return `${dmy[3]}-${dmy[2].padStart(2, '0')}-${dmy[1].padStart(2, '0')}`;
+    return undefined;
+}
+
+/**
+ * Convert one CSV row from an MCA or Companies House dump into a CompanyRecord
+ */
+export function normalizeRegistryRow(row: Record<string, string>, source: string): CompanyRecord | null {
+    const byHeader: Record<string, string> = {};
+    Object.entries(row).forEach(([header, value]) => {
+        byHeader[header.toLowerCase().replace(/[^a-z0-9]/g, '')] = value;
+    });
+    const column = (field: keyof typeof COLUMN_ALIASES) => {
+        const alias = COLUMN_ALIASES[field].find(key => byHeader[key]);
+        return alias ? byHeader[alias].trim() : undefined;
+    };
+    const amount = (value: string | undefined) => {
+        const parsed = value ? Number(value.replace(/[^\d.]/g, '')) : NaN;
+        return Number.isFinite(parsed) && value ? parsed : undefined;
+    };
+
+    const registrationNumber = column('registration_number');
+    const name = column('name');
+    if (!registrationNumber || !name) return null;
+
+    const entityDescription = COLUMN_ALIASES.entity_description
+        .map(key => byHeader[key])
+        .filter(Boolean)
+        .join(' / ') || undefined;
+    const isCompaniesHouse = 'companynumber' in byHeader;
+
+    return {
+        registration_number: registrationNumber.toUpperCase(),
+        name,
+        status: column('status'),
+        entity_type: entityTypeFrom(entityDescription, name, registrationNumber),
+        entity_description: entityDescription,
+        incorporation_date: parseRegistryDate(column('incorporation_date')),
+        registered_address: column('registered_address'),
+        region: column('region'),
+        country: isCompaniesHouse ? 'GB' : 'IN',
+        authorized_capital: amount(column('authorized_capital')),
+        paid_up_capital: amount(column('paid_up_capital')),
+        activity: column('activity'),
+        source
+    };
+}
+
+/**
+ * Record shard for a registration number (FNV-1a hash)
+ */
+function recordShard(registrationNumber: string): string {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < registrationNumber.length; i++) {
+        hash ^= registrationNumber.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193) >>> 0;
+    }
+    return (hash % RECORD_SHARDS).toString(16).padStart(2, '0');
+}
+
+function nameShard(key: string): string {
+    return key.substring(0, 2);
+}
+
+/**
+ * Appends lines to shard files, buffering each shard so large imports don't hold every line
+ */
+class ShardWriter {
+    private buffers = new Map<string, { lines: string[]; bytes: number }>();
+
+    constructor(private dir: string, private extension: string) {
+        fs.mkdirSync(dir, { recursive: true });
+    }
+
+    write(shard: string, line: string): void {
+        const buffer = this.buffers.get(shard) || { lines: [], bytes: 0 };
+        buffer.lines.push(line);
+        buffer.bytes += line.length + 1;
+        this.buffers.set(shard, buffer);
+        if (buffer.bytes >= FLUSH_BYTES) this.flush(shard);
+    }
+
+    flushAll(): void {
+        Array.from(this.buffers.keys()).forEach(shard => this.flush(shard));
+    }
+
+    private flush(shard: string): void {
+        const buffer = this.buffers.get(shard);
+        if (!buffer || buffer.lines.length === 0) return;
+        fs.appendFileSync(path.join(this.dir, `${shard}${this.extension}`), buffer.lines.join('\n') + '\n');
+        this.buffers.delete(shard);
+    }
+}
+
+function readLines(filePath: string): string[] {
+    if (!fs.existsSync(filePath)) return [];
+    return fs.readFileSync(filePath, 'utf-8').split('\n').filter(Boolean);
+}
+
+/**
+ * Import CSV dumps into the on-disk index; later files override earlier records
+ * with the same registration number. Rows are streamed into registration-number shards,
+ * then each shard is de-duplicated and indexed by name on its own.
+ */
+export async function importRegistryCsv(
+    files: string[],
+    dataDir: string = DEFAULT_REGISTRY_DATA_DIR,
+    options: { append?: boolean } = {}
+): Promise<{ imported: number; skipped: number; total: number; indexPath: string }> {
+    const indexPath = path.join(dataDir, REGISTRY_INDEX_DIR);
+    const buildPath = path.join(dataDir, `${REGISTRY_INDEX_DIR}.building`);
+    const existing = options.append ? readManifest(indexPath) : null;
+
+    fs.rmSync(buildPath, { recursive: true, force: true });
+    const raw = new ShardWriter(path.join(buildPath, 'raw'), '.ndjson');
+
+    // Existing records go first so rows from the new dumps override them
+    if (existing) {
+        fs.readdirSync(path.join(indexPath, 'records')).forEach(file => {
+            readLines(path.join(indexPath, 'records', file)).forEach(line => raw.write(path.basename(file, '.ndjson'), line));
+        });
+    }
+
+    let imported = 0;
+    let skipped = 0;
+    for (const file of files) {
+        const source = path.basename(file);
+        await readCsvFile(file, row => {
+            const record = normalizeRegistryRow(row, source);
+            if (!record) {
+                skipped++;
+                return;
+            }
+            raw.write(recordShard(record.registration_number), `${record.registration_number}\t${JSON.stringify(record)}`);
+            imported++;
+        });
+        logger.info('Registry dump imported', { file: source, rows: imported });
+    }
+    raw.flushAll();
+
+    const records = new ShardWriter(path.join(buildPath, 'records'), '.ndjson');
+    const names = new ShardWriter(path.join(buildPath, 'names'), '.tsv');
+    let total = 0;
+    fs.readdirSync(path.join(buildPath, 'raw')).forEach(file => {
+        const shard = path.basename(file, '.ndjson');
+        const latest = new Map<string, string>();
+        readLines(path.join(buildPath, 'raw', file)).forEach(line => {
+            latest.set(line.substring(0, line.indexOf('\t')), line);
+        });
+
+        latest.forEach((line, registrationNumber) => {
+            const record = JSON.parse(line.substring(line.indexOf('\t') + 1)) as CompanyRecord;
+            const normalized = normalizeCompanyName(record.name);
+            records.write(shard, line);
+            searchKeys(normalized).forEach(key => {
+                names.write(nameShard(key), [key, registrationNumber, record.country, normalized].join('\t'));
+            });
+        });
+        records.flushAll();
+        total += latest.size;
+    });
+    names.flushAll();
+    fs.rmSync(path.join(buildPath, 'raw'), { recursive: true, force: true });
+
+    const manifest: RegistryManifest = {
+        version: INDEX_VERSION,
+        built_at: new Date().toISOString(),
+        sources: Array.from(new Set([...(existing?.sources || []), ...files.map(file => path.basename(file))])),
+        records: total
+    };
+    fs.writeFileSync(path.join(buildPath, MANIFEST_FILE), JSON.stringify(manifest, null, 2));
+
+    // Swap the finished index in
+    fs.rmSync(indexPath, { recursive: true, force: true });
+    fs.renameSync(buildPath, indexPath);
+    fs.rmSync(path.join(dataDir, LEGACY_INDEX_FILE), { force: true });
+
+    return { imported, skipped, total, indexPath };
+}
+
+function readManifest(indexPath: string): RegistryManifest | null {
+    const manifestPath = path.join(indexPath, MANIFEST_FILE);
+    if (!fs.existsSync(manifestPath)) return null;
+
+    const manifest = JSON.parse(fs.readFileSync(manifestPath, 'utf-8')) as RegistryManifest;
+    if (manifest.version !== INDEX_VERSION) {
+        throw new Error(`Unsupported registry index version ${manifest.version} in ${indexPath}; re-run the import`);
+    }
+    return manifest;
+}
+
+/**
+ * File-backed provider over an imported registry index; reads only the shards a lookup needs
+ */
+export class LocalRegistryProvider implements CompanyRegistryProvider {
+    id = 'local';
+    private indexPath: string;
+    private manifest: RegistryManifest | null = null;
+    private loaded = false;
+    private shards = new Map<string, any>(); // Parsed shards, least recently used first
+
+    constructor(private dataDir: string = DEFAULT_REGISTRY_DATA_DIR) {
+        this.indexPath = path.join(dataDir, REGISTRY_INDEX_DIR);
+    }
+
+    async search(name: string, options: CompanySearchOptions = {}): Promise<CompanyMatch[]> {
+        if (!this.load()) return [];
+        const query = normalizeCompanyName(name);
+        if (!query) return [];
+
+        const limit = options.limit || DEFAULT_LIMIT;
+        const minScore = options.min_score ?? DEFAULT_MIN_SCORE;
+        const country = options.country?.toUpperCase();
+
+        // Pre-filter on shared name-token prefixes, then score the best-overlapping candidates
+        const overlap = new Map<string, { name: string; count: number }>();
+        searchKeys(query).forEach(key => {
+            this.nameEntries(nameShard(key))
+                .filter(entry => entry.key === key && (!country || entry.country === country))
+                .forEach(entry => {
+                    const candidate = overlap.get(entry.registrationNumber);
+                    if (candidate) candidate.count++;
+                    else overlap.set(entry.registrationNumber, { name: entry.name, count: 1 });
+                });
+        });
+
+        const scored = Array.from(overlap.entries())
+            .sort((a, b) => b[1].count - a[1].count)
+            .slice(0, MAX_CANDIDATES)
+            .map(([registrationNumber, candidate]) => ({ registrationNumber, score: nameSimilarity(query, candidate.name) }))
+            .filter(candidate => candidate.score >= minScore);
+
+        return scored
+            .map(candidate => ({ record: this.findRecord(candidate.registrationNumber), score: candidate.score }))
+            .filter((match): match is CompanyMatch => match.record !== null)
+            .sort((a, b) => b.score - a.score || activeFirst(a.record, b.record))
+            .slice(0, limit);
+    }
+
+    async getByRegistrationNumber(registrationNumber: string): Promise<CompanyRecord | null> {
+        if (!this.load()) return null;
+        return this.findRecord(registrationNumber.trim().toUpperCase());
+    }
+
+    private load(): boolean {
+        if (this.loaded) return this.manifest !== null;
+        this.loaded = true;
+
+        this.manifest = readManifest(this.indexPath);
+        if (!this.manifest) {
+            const legacy = fs.existsSync(path.join(this.dataDir, LEGACY_INDEX_FILE));
+            logger.warn(legacy
+                ? 'Company registry index uses the old single-file format; re-run the import'
+                : 'Company registry index not found; lookups will return no matches', { indexPath: this.indexPath });
+            return false;
+        }
+
+        logger.info('Company registry index opened', { records: this.manifest.records, indexPath: this.indexPath });
+        return true;
+    }
+
+    private findRecord(registrationNumber: string): CompanyRecord | null {
+        const records: Map<string, string> = this.shard(`records/${recordShard(registrationNumber)}.ndjson`, lines =>
+            new Map(lines.map(line => [line.substring(0, line.indexOf('\t')), line.substring(line.indexOf('\t') + 1)] as [string, string]))
+        );
+        const json = records.get(registrationNumber);
+        return json ? JSON.parse(json) : null;
+    }
+
+    private nameEntries(prefix: string): NameEntry[] {
+        return this.shard(`names/${prefix}.tsv`, lines => lines.map(line => {
+            const [key, registrationNumber, country, name] = line.split('\t');
+            return { key, registrationNumber, country, name };
+        }));
+    }
+
+    private shard<T>(file: string, parse: (lines: string[]) => T): T {
+        let parsed = this.shards.get(file) as T | undefined;
+        if (parsed === undefined) {
+            parsed = parse(readLines(path.join(this.indexPath, file)));
+            if (this.shards.size >= MAX_CACHED_SHARDS) {
+                this.shards.delete(this.shards.keys().next().value as string);
+            }
+        } else {
+            this.shards.delete(file);
+        }
+        this.shards.set(file, parsed);
+        return parsed;
+    }
+}
+
+function activeFirst(a: CompanyRecord, b: CompanyRecord): number {
+    const active = (record: CompanyRecord) => /active/i.test(record.status || '') ? 0 : 1;
+    return active(a) - active(b);
+}
+
+/**
+ * Phase 3 answers prefilled from a registry record (existing businesses only)
+ */
+export function companyPrefill(record: CompanyRecord): Record<string, any> {
+    const prefill: Record<string, any> = { existing_name: record.name };
+    if (record.entity_type !== 'other') prefill.legal_entity = record.entity_type;
+    if (record.incorporation_date) prefill.business_start_date = record.incorporation_date;
+    return prefill;
+}
+
+/**
+ * Look up an existing business by the name the user entered and return prefill answers
+ * when there is a single confident match
+ */
+export async function lookupExistingBusiness(
+    name: string,
+    answers: Record<string, any> = {}
+): Promise<{ matches: CompanyMatch[]; prefill: Record<string, any> }> {
+    if (answers.business_path !== 'existing' || !name?.trim()) {
+        return { matches: [], prefill: {} };
+    }
+
+    let matches: CompanyMatch[] = [];
+    try {
+        matches = await getCompanyRegistry().search(name);
+    } catch (error) {
+        logger.warn('Company registry lookup failed', { name, error });
+    }
+
+    const [best, runnerUp] = matches;
+    const confident = best && best.score >= PREFILL_MIN_SCORE && (!runnerUp || best.score - runnerUp.score >= 0.05);
+
+    return { matches, prefill: confident ? companyPrefill(best.record) : {} };
+}
+
+/**
+ * Create a registry provider by name
+ */
+export function createCompanyRegistryProvider(name: string, options: { dataDir?: string } = {}): CompanyRegistryProvider {
+    switch (name) {
+        case 'local':
+            return new LocalRegistryProvider(options.dataDir || process.env.COMPANY_REGISTRY_DATA_DIR || DEFAULT_REGISTRY_DATA_DIR);
+        default:
+            throw new Error(`Unknown company registry provider: ${name}`);
+    }
+}
+
+// Export singleton instance
+let registryInstance: CompanyRegistryProvider | null = null;
+
+export function getCompanyRegistry(): CompanyRegistryProvider {
+    if (!registryInstance) {
+        registryInstance = createCompanyRegistryProvider(process.env.COMPANY_REGISTRY_PROVIDER || 'local');
+    }
+    return registryInstance;
+}
+
+/**
+ * Override the shared provider (e.g. a live API provider or a test index); pass null to reset
+ */
+export function setCompanyRegistry(provider: CompanyRegistryProvider | null): void {
+    registryInstance = provider;
+}
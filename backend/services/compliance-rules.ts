@@ -0,0 +1,398 @@
+/**
+ * Compliance Rules Service
+ * Evaluates declarative compliance rule packs (one YAML/JSON file per jurisdiction, state or
+ * sector) against a business profile and produces a checklist plus a dated filing calendar.
+ *
+ * A national pack applies to every business in its country; a state pack (jurisdiction.state)
+ * is added when the location resolves to that state; a sector pack (sector) is added when the
+ * profile lists that sector. Rule conditions cover entity type, turnover, headcount, activities
+ * and sectors.
+ *
+ * Selection:
+ *   COMPLIANCE_RULES_DIR=path/to/packs   (default: backend/data/compliance)
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import yaml from 'js-yaml';
+import {
+    ComplianceChecklistItem,
+    ComplianceCondition,
+    ComplianceDeadline,
+    ComplianceFrequency,
+    ComplianceProfile,
+    ComplianceRule,
+    ComplianceRulePack
+} from '../utils/types';
+import { logger } from '../utils/logger';
+import { buildIcs } from '../utils/ics';
+
+export const DEFAULT_COMPLIANCE_RULES_DIR = path.join(process.cwd(), 'backend', 'data', 'compliance');
+export const MAX_HORIZON_MONTHS = 60;
+
+const FILINGS_PER_YEAR: Record<ComplianceFrequency, number> = {
+    one_time: 0,
+    monthly: 12,
+    quarterly: 4,
+    half_yearly: 2,
+    annual: 1
+};
+
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+const CURRENCY_SYMBOLS: Record<string, string> = { INR: '₹', USD: '$', GBP: '£', EUR: '€' };
+
+export interface ComplianceEvaluation {
+    checklist: ComplianceChecklistItem[];
+    calendar: ComplianceDeadline[];
+    packs: ComplianceRulePack[];
+}
+
+export interface CalendarOptions {
+    start_date?: string; // YYYY-MM-DD, default today
+    horizon_months?: number; // Default 12, at most MAX_HORIZON_MONTHS
+}
+
+/**
+ * Format an amount in a pack currency: ₹40 L, ₹2 Cr, $100,000
+ */
+export function formatCurrency(amount: number, currency: string): string {
+    const symbol = CURRENCY_SYMBOLS[currency] || `${currency} `;
+    if (currency === 'INR' && amount >= 1e7) return `${symbol}${Math.round(amount / 1e6) / 10} Cr`;
+    if (currency === 'INR' && amount >= 1e5) return `${symbol}${Math.round(amount / 1e4) / 10} L`;
+    return `${symbol}${Math.round(amount).toLocaleString(currency === 'INR' ? 'en-IN' : 'en-US')}`;
+}
+
+function ordinal(day: number): string {
+    const suffix = day % 10 === 1 && day !== 11 ? 'st' : day % 10 === 2 && day !== 12 ? 'nd' : day % 10 === 3 && day !== 13 ? 'rd' : 'th';
+    return `${day}${suffix}`;
+}
+
+function toIsoDate(year: number, month: number, day: number): string {
+    // month is 1-12; roll over years and clamp the day to the month's length
+    const date = new Date(Date.UTC(year, month - 1, 1));
+    const lastDay = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0)).getUTCDate();
+    date.setUTCDate(Math.min(day, lastDay));
+    return date.toISOString().slice(0, 10);
+}
+
+function addDays(isoDate: string, days: number): string {
+    const date = new Date(`${isoDate}T00:00:00Z`);
+    date.setUTCDate(date.getUTCDate() + days);
+    return date.toISOString().slice(0, 10);
+}
+
+function addMonths(isoDate: string, months: number): string {
+    const [year, month, day] = isoDate.split('-').map(Number);
+    return toIsoDate(year, month + months, day);
+}
+
+function describeDate(mmdd: string): string {
+    const [month, day] = mmdd.split('-').map(Number);
+    return `${day} ${MONTH_NAMES[month - 1]}`;
+}
+
+/**
+ * Human-readable due date for the checklist
+ */
+function describeDue(rule: ComplianceRule): string {
+    const due = rule.due;
+    if (due.description) return due.description;
+    if (due.day_of_month) {
+        const offset = due.month_offset ?? 1;
+        if (offset === 0) return due.day_of_month >= 28 ? 'Last day of the month' : `${ordinal(due.day_of_month)} of the month`;
+        return `${ordinal(due.day_of_month)} of the following month`;
+    }
+    if (due.dates?.length) return due.dates.map(describeDate).join(', ');
+    if (due.within_days) return `Within ${due.within_days} days of starting the business`;
+    return 'Before starting operations';
+}
+
+export class ComplianceRulesService {
+    private rulesDir: string;
+    private packs: ComplianceRulePack[] | null = null;
+
+    constructor(rulesDir: string = DEFAULT_COMPLIANCE_RULES_DIR) {
+        this.rulesDir = rulesDir;
+    }
+
+    /**
+     * Read every pack in the rules directory; malformed packs and rules are reported and skipped
+     */
+    loadPacks(): ComplianceRulePack[] {
+        if (this.packs) return this.packs;
+
+        const files = fs.readdirSync(this.rulesDir).filter(file => /\.(ya?ml|json)$/.test(file)).sort();
+        const packs: ComplianceRulePack[] = [];
+
+        files.forEach(file => {
+            const raw = fs.readFileSync(path.join(this.rulesDir, file), 'utf-8');
+            const pack = (file.endsWith('.json') ? JSON.parse(raw) : yaml.load(raw)) as ComplianceRulePack;
+            if (!pack?.id || !pack.jurisdiction?.country || !Array.isArray(pack.rules)) {
+                logger.warn('Skipping invalid compliance rule pack', { file });
+                return;
+            }
+
+            // day_of_month walks monthly periods; other frequencies use fixed dates
+            const rules = pack.rules.filter(rule => {
+                if (rule.due?.day_of_month && rule.frequency !== 'monthly') {
+                    logger.warn('Skipping compliance rule: due.day_of_month needs frequency "monthly" (use due.dates)', {
+                        file,
+                        rule: rule.id,
+                        frequency: rule.frequency
+                    });
+                    return false;
+                }
+                return true;
+            });
+            packs.push({ ...pack, rules });
+        });
+
+        logger.info('Compliance rule packs loaded', {
+            packs: packs.length,
+            rules: packs.reduce((sum, pack) => sum + pack.rules.length, 0)
+        });
+
+        this.packs = packs;
+        return packs;
+    }
+
+    /**
+     * Resolve a free-text location ("Bengaluru, Karnataka", "London") to a country and state
+     * using the pack aliases; the longest matching alias wins
+     */
+    resolveJurisdiction(location: string | undefined): { country: string; state?: string } | undefined {
+        if (!location) return undefined;
+        const text = ` ${location.toLowerCase().replace(/[^a-z0-9. ]+/g, ' ').replace(/\s+/g, ' ')} `;
+        let best: { country: string; state?: string; length: number } | undefined;
+
+        this.loadPacks().forEach(pack => {
+            (pack.jurisdiction.aliases || []).forEach(alias => {
+                const needle = alias.toLowerCase();
+                if (text.includes(` ${needle} `) && (!best || needle.length > best.length)) {
+                    best = { country: pack.jurisdiction.country, state: pack.jurisdiction.state, length: needle.length };
+                }
+            });
+        });
+
+        return best ? { country: best.country, state: best.state } : undefined;
+    }
+
+    /**
+     * National, state and sector packs that cover the profile
+     */
+    selectPacks(profile: ComplianceProfile): ComplianceRulePack[] {
+        return this.loadPacks().filter(pack => {
+            if (pack.jurisdiction.country !== profile.country) return false;
+            if (pack.jurisdiction.state && pack.jurisdiction.state !== profile.state) return false;
+            if (pack.sector && !profile.sectors.includes(pack.sector)) return false;
+            return true;
+        });
+    }
+
+    /**
+     * Evaluate the selected packs: applicable rules become checklist items and dated deadlines
+     */
+    evaluate(profile: ComplianceProfile, options: CalendarOptions = {}): ComplianceEvaluation {
+        const packs = this.selectPacks(profile);
+        const rulesById = new Map<string, { rule: ComplianceRule; pack: ComplianceRulePack }>();
+        packs.forEach(pack => pack.rules.forEach(rule => rulesById.set(rule.id, { rule, pack })));
+
+        // Memoised so `requires` chains are evaluated once; a rule on the stack counts as not applying (cycle guard)
+        const results = new Map<string, string[] | null>();
+        const applies = (ruleId: string): string[] | null => {
+            if (results.has(ruleId)) return results.get(ruleId)!;
+            const entry = rulesById.get(ruleId);
+            results.set(ruleId, null);
+            if (!entry) return null;
+
+            const reasons = this.matchConditions(entry.rule.applies_when, profile, entry.pack);
+            const required = (entry.rule.requires || []).every(id => applies(id) !== null);
+            const result = reasons && required
+                ? [...reasons, ...(entry.rule.requires || []).map(id => `Follows from ${rulesById.get(id)!.rule.name}`)]
+                : null;
+            results.set(ruleId, result);
+            return result;
+        };
+
+        const start = options.start_date || new Date().toISOString().slice(0, 10);
+        const end = addMonths(start, Math.min(Math.max(Math.floor(options.horizon_months || 12), 1), MAX_HORIZON_MONTHS));
+        const checklist: ComplianceChecklistItem[] = [];
+        const calendar: ComplianceDeadline[] = [];
+
+        packs.forEach(pack => pack.rules.forEach(rule => {
+            const reasons = applies(rule.id);
+            if (!reasons) return;
+
+            const filings = FILINGS_PER_YEAR[rule.frequency];
+            checklist.push({
+                rule_id: rule.id,
+                pack_id: pack.id,
+                name: rule.name,
+                category: rule.category,
+                authority: rule.authority,
+                description: rule.description,
+                frequency: rule.frequency,
+                due: describeDue(rule),
+                estimated_cost: rule.cost ? { ...rule.cost, currency: pack.currency } : undefined,
+                annual_cost: rule.cost && filings > 0
+                    ? { min: rule.cost.min * filings, max: rule.cost.max * filings, currency: pack.currency }
+                    : undefined,
+                penalty: rule.penalty,
+                severity: rule.severity,
+                reference: rule.reference,
+                reasons
+            });
+
+            this.dueDates(rule, start, end).forEach(({ date, period }) => calendar.push({
+                rule_id: rule.id,
+                name: rule.name,
+                due_date: date,
+                period,
+                category: rule.category,
+                authority: rule.authority,
+                penalty: rule.penalty,
+                severity: rule.severity,
+                reference: rule.reference
+            }));
+        }));
+
+        calendar.sort((a, b) => a.due_date.localeCompare(b.due_date) || a.name.localeCompare(b.name));
+
+        return { checklist, calendar, packs };
+    }
+
+    /**
+     * Serialize deadlines as an iCalendar file with a reminder a week before each one
+     */
+    toIcs(calendar: ComplianceDeadline[], calendarName: string = 'Compliance Calendar'): string {
+        return buildIcs(calendarName, calendar.map(deadline => ({
+            uid: `${deadline.rule_id}-${deadline.due_date}@compliance-calendar`,
+            date: deadline.due_date,
+            summary: deadline.period ? `${deadline.name} - ${deadline.period}` : deadline.name,
+            description: `${deadline.authority}\nPenalty if missed: ${deadline.penalty}`,
+            url: deadline.reference,
+            reminder_days: 7
+        })));
+    }
+
+    /**
+     * Returns the reasons a rule applies, or null; no conditions means it always applies
+     */
+    private matchConditions(
+        conditions: ComplianceCondition[] | undefined,
+        profile: ComplianceProfile,
+        pack: ComplianceRulePack
+    ): string[] | null {
+        if (!conditions || conditions.length === 0) {
+            return [`Applies to every business in ${pack.name}`];
+        }
+
+        const turnover = profile.turnover !== undefined ? profile.turnover * (pack.fx_from_inr ?? 1) : undefined;
+
+        for (const condition of conditions) {
+            const reasons: string[] = [];
+            let matched = true;
+
+            if (condition.entity_types) {
+                matched = !!profile.entity_type && condition.entity_types.includes(profile.entity_type);
+                if (matched) reasons.push(`Entity type: ${profile.entity_type}`);
+            }
+            if (matched && condition.min_turnover !== undefined) {
+                matched = turnover !== undefined && turnover >= condition.min_turnover;
+                if (matched) reasons.push(`Turnover ${formatCurrency(turnover!, pack.currency)} is at least ${formatCurrency(condition.min_turnover, pack.currency)}`);
+            }
+            if (matched && condition.max_turnover !== undefined) {
+                matched = turnover === undefined || turnover <= condition.max_turnover;
+                if (matched && turnover !== undefined) reasons.push(`Turnover up to ${formatCurrency(condition.max_turnover, pack.currency)}`);
+            }
+            if (matched && condition.min_headcount !== undefined) {
+                matched = profile.headcount !== undefined && profile.headcount >= condition.min_headcount;
+                if (matched) reasons.push(`${profile.headcount} employees (threshold ${condition.min_headcount})`);
+            }
+            if (matched && condition.max_headcount !== undefined) {
+                matched = profile.headcount === undefined || profile.headcount <= condition.max_headcount;
+            }
+            if (matched && condition.activities_any) {
+                const hits = condition.activities_any.filter(activity => profile.activities.includes(activity));
+                matched = hits.length > 0;
+                if (matched) reasons.push(`Activity: ${hits.join(', ')}`);
+            }
+            if (matched && condition.not_activities) {
+                matched = !condition.not_activities.some(activity => profile.activities.includes(activity));
+            }
+            if (matched && condition.sectors_any) {
+                const hits = condition.sectors_any.filter(sector => profile.sectors.includes(sector));
+                matched = hits.length > 0;
+                if (matched) reasons.push(`Sector: ${hits.join(', ')}`);
+            }
+
+            if (matched) return reasons.length > 0 ? reasons : [`Applies to every business in ${pack.name}`];
+        }
+
+        return null;
+    }
+
+    /**
+     * Concrete due dates for a rule in [start, end)
+     */
+    private dueDates(rule: ComplianceRule, start: string, end: string): Array<{ date: string; period?: string }> {
+        const due = rule.due;
+        const dates: Array<{ date: string; period?: string }> = [];
+        const inRange = (date: string) => date >= start && date < end;
+        const [startYear, startMonth] = start.split('-').map(Number);
+        const [endYear] = end.split('-').map(Number);
+
+        if (due.day_of_month) {
+            const offset = due.month_offset ?? 1;
+            // Walk filing periods whose due date can fall inside the window
+            for (let k = -offset; k <= 12 * (endYear - startYear + 1); k++) {
+                const periodIso = toIsoDate(startYear, startMonth + k, 1);
+                const [periodYear, periodMonth] = periodIso.split('-').map(Number);
+                const exception = due.exceptions?.find(e => e.period_month === periodMonth);
+                let date: string;
+                if (exception) {
+                    const [month, day] = exception.date.split('-').map(Number);
+                    date = toIsoDate(month < periodMonth ? periodYear + 1 : periodYear, month, day);
+                } else {
+                    date = toIsoDate(periodYear, periodMonth + offset, due.day_of_month);
+                }
+                if (inRange(date)) dates.push({ date, period: `${MONTH_NAMES[periodMonth - 1]} ${periodYear}` });
+            }
+        } else if (due.dates?.length) {
+            for (let year = startYear; year <= endYear; year++) {
+                due.dates.forEach((mmdd, index) => {
+                    const [month, day] = mmdd.split('-').map(Number);
+                    const date = toIsoDate(year, month, day);
+                    if (inRange(date)) dates.push({ date, period: due.period_labels?.[index] });
+                });
+            }
+        } else if (due.within_days) {
+            let date = addDays(start, due.within_days);
+            while (inRange(date)) {
+                dates.push({ date });
+                if (rule.frequency !== 'annual') break;
+                date = addMonths(date, 12);
+            }
+        }
+
+        return dates;
+    }
+}
+
+// Export singleton instance
+let complianceRulesInstance: ComplianceRulesService | null = null;
+
+export function getComplianceRules(): ComplianceRulesService {
+    if (!complianceRulesInstance) {
+        complianceRulesInstance = new ComplianceRulesService(process.env.COMPLIANCE_RULES_DIR || DEFAULT_COMPLIANCE_RULES_DIR);
+    }
+    return complianceRulesInstance;
+}
+
+/**
+ * Override the rule packs (e.g. a jurisdiction-specific directory); pass null to reset
+ */
+export function setComplianceRules(service: ComplianceRulesService | null): void {
+    complianceRulesInstance = service;
+}
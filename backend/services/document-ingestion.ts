@@ -0,0 +1,655 @@
+/**
+ * Document Ingestion Service
+ * Parses uploaded PDF, DOCX, XLSX, CSV and HTML files into text and table rows, extracts
+ * recognizable figures (revenue by year, P&L lines, headcount, funding raised) and
+ * maps them to questionnaire answer suggestions for the user to confirm. Multi-period P&L
+ * figures have no matching question and are returned as `historical_financials` context.
+ */
+
+import { DocumentParseError } from '../utils/types';
+import { logger } from '../utils/logger';
+import { parseCsv } from '../utils/csv';
+
+export type DocumentFormat = 'pdf' | 'docx' | 'xlsx' | 'csv' | 'html';
+
+export const SUPPORTED_DOCUMENT_FORMATS: DocumentFormat[] = ['pdf', 'docx', 'xlsx', 'csv', 'html'];
+export const MAX_DOCUMENT_BYTES = 10 * 1024 * 1024;
+
+export interface ParsedDocument {
+    file_name: string;
+    format: DocumentFormat;
+    text: string;
+    tables: string[][][]; // tables -> rows -> cells
+    pages?: number;
+}
+
+export type FigureKind =
+    | 'revenue'
+    | 'cogs'
+    | 'gross_profit'
+    | 'employee_costs'
+    | 'operating_expenses'
+    | 'ebitda'
+    | 'net_profit'
+    | 'headcount'
+    | 'funding_raised';
+
+export interface ExtractedFigure {
+    kind: FigureKind;
+    label: string; // Row label as written in the document
+    value: number; // Absolute amount (unit multipliers applied) or a count
+    period?: string; // e.g. "FY2023-24", "2023"
+    year?: number; // Year the period ends in
+    source: string; // Where it was found, e.g. "table 1, row 4"
+    confidence: 'high' | 'medium';
+}
+
+export interface AnswerSuggestion {
+    question_id: string;
+    value: any;
+    label: string; // Human readable value
+    reason: string; // Which figures it came from
+    confidence: 'high' | 'medium';
+}
+
+export interface HistoricalFinancials {
+    currency: string;
+    periods: Record<string, Partial<Record<FigureKind, number>>>; // Period label -> P&L lines
+}
+
+export interface DocumentIngestionResult {
+    document: {
+        file_name: string;
+        format: DocumentFormat;
+        pages?: number;
+        tables: number;
+        text_preview: string;
+    };
+    currency?: string;
+    figures: ExtractedFigure[];
+    suggestions: AnswerSuggestion[];
+    historical_financials?: HistoricalFinancials; // Context for agents, not an answer suggestion
+}
+
+// Order matters: specific labels ("cost of revenue", "gross profit") before generic ones
+const FIGURE_PATTERNS: Array<{ kind: FigureKind; pattern: RegExp }> = [
+    { kind: 'cogs', pattern: /\b(cost of (goods sold|sales|revenue)|cogs|cost of materials consumed|purchases? of stock)/i },
+    { kind: 'gross_profit', pattern: /\bgross (profit|margin)\b/i },
+    { kind: 'ebitda', pattern: /\bebitda\b/i },
+    { kind: 'employee_costs', pattern: /\b(employee benefits? expenses?|salar(y|ies)( and wages)?|staff costs?|payroll|wages)\b/i },
+    { kind: 'net_profit', pattern: /\b(net (profit|income|loss)|profit after tax|pat\b|profit \/ ?\(loss\) for the (year|period))/i },
+    { kind: 'operating_expenses', pattern: /\b(total expenses|operating expenses|opex)\b/i },
+    { kind: 'headcount', pattern: /\b(head ?count|number of employees|no\.? of employees|team size|employees|full[- ]time staff)\b/i },
+    { kind: 'funding_raised', pattern: /\b((funding|capital|amount|money) raised|total funding|raised|seed funding|investment received)\b/i },
+    { kind: 'revenue', pattern: /\b(revenue( from operations)?|turnover|net sales|total income|sales)\b/i }
+];
+
+const UNIT_MULTIPLIERS: Array<{ pattern: RegExp; multiplier: number }> = [
+    { pattern: /^(cr|crs|crore|crores)$/i, multiplier: 1e7 },
+    { pattern: /^(l|lac|lacs|lakh|lakhs)$/i, multiplier: 1e5 },
+    { pattern: /^(m|mn|mm|million|millions)$/i, multiplier: 1e6 },
+    { pattern: /^(b|bn|billion|billions)$/i, multiplier: 1e9 },
+    { pattern: /^(k|thousand|thousands|'000)$/i, multiplier: 1e3 }
+];
+
+// Statement-level unit notes, e.g. "(All amounts in ₹ lakhs)" or "Rs. in crores"
+const DOCUMENT_UNIT_PATTERNS: Array<{ pattern: RegExp; multiplier: number }> = [
+    { pattern: /in\s+(₹|rs\.?|inr)?\s*(crores?|cr\.?)\b/i, multiplier: 1e7 },
+    { pattern: /in\s+(₹|rs\.?|inr)?\s*(lakhs?|lacs?)\b/i, multiplier: 1e5 },
+    { pattern: /in\s+(₹|rs\.?|inr|\$|usd)?\s*millions?\b/i, multiplier: 1e6 },
+    { pattern: /in\s+(₹|rs\.?|inr|\$|usd)?\s*(thousands|'000)/i, multiplier: 1e3 }
+];
+
+const YEAR_CELL = /^(?:fy\s?'?)?((?:19|20)\d{2})(?:\s?[-–\/]\s?((?:19|20)?\d{2}))?$|^fy\s?'?(\d{2})$/i;
+const YEAR_TOKEN = /\b(?:fy\s?'?)?(?:19|20)\d{2}(?:\s?[-–\/]\s?\d{2,4})?\b/i;
+const NUMBER_TOKEN = /(\(?-?\s*(?:₹|rs\.?|inr|\$|usd)?\s*\d[\d,]*(?:\.\d+)?\)?)\s*(crores?|cr|crs|lakhs?|lacs?|l|mn|million|millions|m|bn|billion|k|thousand)?\b/i;
+const MAX_LABEL_DISTANCE = 60; // Characters between a label and its amount in running text
+
+export class DocumentIngestionService {
+    /**
+     * Parse, extract and map a single uploaded document
+     */
+    async ingest(buffer: Buffer, fileName: string): Promise<DocumentIngestionResult> {
+        const parsed = await this.parse(buffer, fileName);
+        const currency = detectCurrency(parsed.text);
+        const figures = this.extractFigures(parsed);
+        const suggestions = this.mapToAnswers(figures, currency);
+
+        logger.info('Document ingested', {
+            fileName,
+            format: parsed.format,
+            tables: parsed.tables.length,
+            figures: figures.length,
+            suggestions: suggestions.length
+        });
+
+        return {
+            document: {
+                file_name: parsed.file_name,
+                format: parsed.format,
+                pages: parsed.pages,
+                tables: parsed.tables.length,
+                text_preview: parsed.text.substring(0, 500)
+            },
+            currency,
+            figures,
+            suggestions,
+            historical_financials: buildHistoricalFinancials(figures, currency) || undefined
+        };
+    }
+
+    /**
+     * Extract text and tables from a PDF, DOCX, XLSX, CSV or HTML file
+     */
+    async parse(buffer: Buffer, fileName: string): Promise<ParsedDocument> {
+        const format = detectDocumentFormat(fileName);
+        if (!format) {
+            throw new DocumentParseError(
+                `Unsupported file type. Supported: ${SUPPORTED_DOCUMENT_FORMATS.join(', ')}`,
+                fileName
+            );
+        }
+        if (buffer.length > MAX_DOCUMENT_BYTES) {
+            throw new DocumentParseError(`File exceeds ${MAX_DOCUMENT_BYTES / (1024 * 1024)}MB limit`, fileName);
+        }
+
+        try {
+            switch (format) {
+                case 'pdf':
+                    return await parsePdf(buffer, fileName);
+                case 'docx':
+                    return await parseDocx(buffer, fileName);
+                case 'xlsx':
+                    return await parseXlsx(buffer, fileName);
+                case 'csv':
+                    return parseCsvDocument(buffer, fileName);
+                case 'html':
+                    return parseHtmlDocument(buffer, fileName);
+            }
+        } catch (error) {
+            logger.error('Document parsing failed', { fileName, format, error });
+            throw new DocumentParseError(`Could not read ${format.toUpperCase()} file`, fileName, error);
+        }
+    }
+
+    /**
+     * Find labelled figures in table rows and text lines
+     */
+    extractFigures(document: ParsedDocument): ExtractedFigure[] {
+        const unitMultiplier = detectUnitMultiplier(document.text);
+        const figures: ExtractedFigure[] = [];
+
+        document.tables.forEach((table, t) => {
+            figures.push(...extractFromRows(table, unitMultiplier, `table ${t + 1}`, 'high'));
+        });
+
+        // Text lines: split on tabs / wide spacing so PDF statements read as rows
+        const lines = document.text
+            .split(/\r?\n/)
+            .map(line => line.split(/\t|\s{2,}/).map(cell => cell.trim()).filter(Boolean))
+            .filter(cells => cells.length > 0);
+        figures.push(...extractFromRows(lines, unitMultiplier, 'text', 'medium'));
+
+        return dedupeFigures(figures);
+    }
+
+    /**
+     * Turn figures into questionnaire answer suggestions
+     */
+    mapToAnswers(figures: ExtractedFigure[], currency?: string): AnswerSuggestion[] {
+        const suggestions: AnswerSuggestion[] = [];
+        const latest = (kind: FigureKind) => latestFigure(figures, kind);
+        const isInr = !currency || currency === 'INR';
+
+        const revenue = latest('revenue');
+        if (revenue && isInr) {
+            const bracket = revenueBracket(revenue.value);
+            suggestions.push({
+                question_id: 'current_revenue',
+                value: bracket.value,
+                label: bracket.label,
+                reason: describe(revenue),
+                confidence: revenue.confidence
+            });
+        }
+
+        const headcount = latest('headcount');
+        if (headcount && headcount.value > 0 && headcount.value < 1e6) {
+            const bracket = teamSizeBracket(headcount.value);
+            suggestions.push({
+                question_id: 'team_size_current',
+                value: bracket.value,
+                label: bracket.label,
+                reason: describe(headcount),
+                confidence: headcount.confidence
+            });
+        }
+
+        const funding = latest('funding_raised');
+        if (funding && funding.value > 0) {
+            suggestions.push({
+                question_id: 'external_funding',
+                value: 'raised',
+                label: 'Already raised',
+                reason: describe(funding),
+                confidence: funding.confidence
+            });
+        }
+
+        const grossMargin = computeGrossMargin(figures);
+        if (grossMargin) {
+            suggestions.push({
+                question_id: 'gross_margin',
+                value: `${grossMargin.percent}%`,
+                label: `${grossMargin.percent}%`,
+                reason: grossMargin.reason,
+                confidence: 'high'
+            });
+        }
+
+        const employeeCosts = latest('employee_costs');
+        if (employeeCosts && employeeCosts.value !== 0) {
+            // Expenses are often shown in parentheses
+            const monthly = Math.round(Math.abs(employeeCosts.value) / 12);
+            suggestions.push({
+                question_id: 'salary_budget',
+                value: monthly,
+                label: `${formatAmount(monthly, currency)}/month`,
+                reason: `${describe(employeeCosts)} ÷ 12`,
+                confidence: employeeCosts.confidence
+            });
+        }
+
+        return suggestions;
+    }
+}
+
+/**
+ * Format of a file by its extension (null when it can't be parsed)
+ */
+export function detectDocumentFormat(fileName: string): DocumentFormat | null {
+    const extension = fileName.split('.').pop()?.toLowerCase();
+    if (extension === 'pdf') return 'pdf';
+    if (extension === 'docx') return 'docx';
+    if (extension === 'xlsx' || extension === 'xlsm') return 'xlsx';
+    if (extension === 'csv') return 'csv';
+    if (extension === 'html' || extension === 'htm') return 'html';
+    return null;
+}
+
+async function parsePdf(buffer: Buffer, fileName: string): Promise<ParsedDocument> {
+    const pdfParse = (await import('pdf-parse')).default;
+    const result = await pdfParse(buffer);
+    return { file_name: fileName, format: 'pdf', text: result.text || '', tables: [], pages: result.numpages };
+}
+
+async function parseDocx(buffer: Buffer, fileName: string): Promise<ParsedDocument> {
+    const mammoth = await import('mammoth');
+    const { value: html } = await mammoth.convertToHtml({ buffer });
+    return { file_name: fileName, format: 'docx', ...splitHtml(html) };
+}
+
+function parseHtmlDocument(buffer: Buffer, fileName: string): ParsedDocument {
+    // Saved web pages (e.g. a competitor's pricing page); scripts, styles and comments carry no content
+    const html = buffer
+        .toString('utf-8')
+        .replace(/<!--[\s\S]*?-->/g, ' ')
+        .replace(/<(script|style|noscript|svg)[\s\S]*?<\/\1>/gi, ' ');
+    const title = html.match(/<title[^>]*>([\s\S]*?)<\/title>/i);
+    const body = html.match(/<body[^>]*>([\s\S]*)<\/body>/i);
+    const { text, tables } = splitHtml((body ? body[1] : html).replace(/<br\s*\/?>/gi, '\n'));
+
+    return {
+        file_name: fileName,
+        format: 'html',
+        text: title ? `${stripHtml(title[1])}\n${text}` : text,
+        tables
+    };
+}
+
+/**
+ * Separate HTML into table rows and the remaining text (one line per block element)
+ */
+function splitHtml(html: string): { text: string; tables: string[][][] } {
+    const tables: string[][][] = [];
+    const tableHtml = html.match(/<table[\s\S]*?<\/table>/gi) || [];
+    tableHtml.forEach(table => {
+        const rows = (table.match(/<tr[\s\S]*?<\/tr>/gi) || []).map(row =>
+            (row.match(/<t[dh][\s\S]*?<\/t[dh]>/gi) || []).map(cell => stripHtml(cell))
+        );
+        if (rows.length > 0) tables.push(rows);
+    });
+
+    const text = stripHtml(
+        html
+            .replace(/<table[\s\S]*?<\/table>/gi, '\n')
+            .replace(/<\/(p|h\d|li|div|section|tr|dt|dd)>/gi, '\n')
+    );
+    return { text, tables };
+}
+
+async function parseXlsx(buffer: Buffer, fileName: string): Promise<ParsedDocument> {
+    const ExcelJS = await import('exceljs');
+    const workbook = new ExcelJS.default.Workbook();
+    await workbook.xlsx.load(buffer as any);
+
+    const tables: string[][][] = [];
+    const textLines: string[] = [];
+    workbook.eachSheet(sheet => {
+        const rows: string[][] = [];
+        sheet.eachRow({ includeEmpty: false }, row => {
+            const cells: string[] = [];
+            row.eachCell({ includeEmpty: true }, (cell, column) => {
+                cells[column - 1] = cellText(cell.value);
+            });
+            rows.push(Array.from(cells, cell => cell || ''));
+        });
+        if (rows.length > 0) {
+            tables.push(rows);
+            textLines.push(sheet.name, ...rows.map(row => row.filter(Boolean).join('  ')));
+        }
+    });
+
+    return { file_name: fileName, format: 'xlsx', text: textLines.join('\n'), tables };
+}
+
+function parseCsvDocument(buffer: Buffer, fileName: string): ParsedDocument {
+    const rows = parseCsv(buffer.toString('utf-8'));
+    return { file_name: fileName, format: 'csv', text: rows.map(row => row.join('  ')).join('\n'), tables: [rows] };
+}
+
+function cellText(value: any): string {
+    if (value === null || value === undefined) return '';
+    if (value instanceof Date) return String(value.getFullYear());
+    if (typeof value === 'object') {
+        if ('result' in value) return cellText(value.result);
+        if ('richText' in value) return value.richText.map((part: any) => part.text).join('');
+        if ('text' in value) return String(value.text);
+        return '';
+    }
+    return String(value).trim();
+}
+
+function stripHtml(html: string): string {
+    return html
+        .replace(/<[^>]+>/g, ' ')
+        .replace(/&amp;/g, '&')
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&nbsp;/g, ' ')
+        .replace(/&quot;/g, '"')
+        .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+        .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCharCode(parseInt(code, 16)))
+        .replace(/[ \t]+/g, ' ')
+        .replace(/ *\n */g, '\n')
+        .trim();
+}
+
+function detectCurrency(text: string): string | undefined {
+    if (/₹|\brs\.?\s|\binr\b|\blakhs?\b|\bcrores?\b/i.test(text)) return 'INR';
+    if (/\$|\busd\b/i.test(text)) return 'USD';
+    if (/€|\beur\b/i.test(text)) return 'EUR';
+    if (/£|\bgbp\b/i.test(text)) return 'GBP';
+    return undefined;
+}
+
+function detectUnitMultiplier(text: string): number {
+    const match = DOCUMENT_UNIT_PATTERNS.find(unit => unit.pattern.test(text));
+    return match ? match.multiplier : 1;
+}
+
+/**
+ * Parse a year header cell ("FY2023-24", "2023", "FY24") into a period label and end year
+ */
+function parseYearCell(cell: string): { period: string; year: number } | null {
+    const match = cell.trim().match(YEAR_CELL);
+    if (!match) return null;
+
+    if (match[3]) {
+        const year = 2000 + Number(match[3]);
+        return { period: `FY${year}`, year };
+    }
+
+    const start = Number(match[1]);
+    if (!match[2]) return { period: cell.trim().toUpperCase().startsWith('FY') ? `FY${start}` : String(start), year: start };
+
+    const endSuffix = match[2];
+    const year = endSuffix.length === 4 ? Number(endSuffix) : Number(String(start).substring(0, 2) + endSuffix);
+    return { period: `FY${start}-${String(year).substring(2)}`, year };
+}
+
+function parseAmount(token: string, unit: string | undefined): number | null {
+    const negative = token.trim().startsWith('(') || token.includes('-');
+    const digits = token.replace(/[^\d.]/g, '');
+    if (!digits) return null;
+    let value = Number(digits);
+    if (!Number.isFinite(value)) return null;
+    if (unit) {
+        const multiplier = UNIT_MULTIPLIERS.find(u => u.pattern.test(unit));
+        if (multiplier) value *= multiplier.multiplier;
+    }
+    return negative ? -value : value;
+}
+
+function extractFromRows(
+    rows: string[][],
+    documentMultiplier: number,
+    source: string,
+    confidence: 'high' | 'medium'
+): ExtractedFigure[] {
+    const figures: ExtractedFigure[] = [];
+    let yearColumns: Map<number, { period: string; year: number }> | null = null;
+
+    rows.forEach((cells, r) => {
+        const years = new Map<number, { period: string; year: number }>();
+        cells.forEach((cell, c) => {
+            const year = parseYearCell(cell);
+            if (year) years.set(c, year);
+        });
+        if (years.size >= 2 || (years.size === 1 && cells.filter(Boolean).length <= 2)) {
+            yearColumns = years;
+            return;
+        }
+
+        const rowSource = `${source}, row ${r + 1}`;
+
+        // Table row: one value per year column
+        if (yearColumns && cells.length > 1) {
+            const label = cells.find(cell => /[a-z]{3,}/i.test(cell));
+            const matched = label && FIGURE_PATTERNS.find(entry => entry.pattern.test(label));
+            if (label && matched) {
+                const isCount = matched.kind === 'headcount';
+                const before = figures.length;
+                Array.from(yearColumns.entries()).forEach(([column, year]) => {
+                    const value = cellAmount(cells[column], isCount ? 1 : documentMultiplier);
+                    if (value !== null) {
+                        figures.push({ kind: matched.kind, label, value, period: year.period, year: year.year, source: rowSource, confidence });
+                    }
+                });
+                if (figures.length > before) return;
+            }
+        }
+
+        // Key-value row or narrative line
+        figures.push(...extractFromLine(cells.join('  '), documentMultiplier, rowSource, cells.length > 1 ? confidence : 'medium'));
+    });
+
+    return figures;
+}
+
+/**
+ * Pair each label in a line with its nearest unclaimed amount, so sentences such as
+ * "raised ₹1.5 Cr and have 9 employees" yield both figures
+ */
+function extractFromLine(
+    line: string,
+    documentMultiplier: number,
+    source: string,
+    confidence: 'high' | 'medium'
+): ExtractedFigure[] {
+    const yearToken = line.match(YEAR_TOKEN);
+    const year = yearToken ? parseYearCell(yearToken[0].replace(/\s/g, '')) : null;
+
+    // Blank out years (keeping positions) so they are not read as amounts
+    let masked = line.replace(new RegExp(YEAR_TOKEN.source, 'gi'), match => ' '.repeat(match.length));
+
+    const amounts: Array<{ start: number; end: number; token: string; unit?: string; claimed: boolean }> = [];
+    const numberPattern = new RegExp(NUMBER_TOKEN.source, 'gi');
+    let match: RegExpExecArray | null;
+    while ((match = numberPattern.exec(masked)) !== null) {
+        amounts.push({ start: match.index, end: match.index + match[0].length, token: match[1], unit: match[2], claimed: false });
+    }
+    if (amounts.length === 0) return [];
+
+    const figures: ExtractedFigure[] = [];
+    FIGURE_PATTERNS.forEach(({ kind, pattern }) => {
+        const keyword = masked.match(pattern);
+        if (!keyword || keyword.index === undefined) return;
+        const start = keyword.index;
+        const end = start + keyword[0].length;
+        // Specific labels claim their words first ("cost of revenue" is not revenue)
+        masked = masked.substring(0, start) + ' '.repeat(end - start) + masked.substring(end);
+
+        const distance = (a: typeof amounts[number]) => a.start >= end ? a.start - end : start - a.end;
+        const nearest = amounts
+            .filter(a => !a.claimed && distance(a) <= MAX_LABEL_DISTANCE)
+            .sort((a, b) => distance(a) - distance(b))[0];
+        if (!nearest) return;
+
+        const value = parseAmount(nearest.token, nearest.unit);
+        if (value === null) return;
+        nearest.claimed = true;
+
+        figures.push({
+            kind,
+            label: line.substring(start, end).trim(),
+            // Explicit units ("2.5 Cr") already carry their scale
+            value: kind === 'headcount' || nearest.unit ? value : value * documentMultiplier,
+            period: year?.period,
+            year: year?.year,
+            source,
+            confidence
+        });
+    });
+
+    return figures;
+}
+
+function cellAmount(cell: string | undefined, multiplier: number): number | null {
+    if (!cell || !/\d/.test(cell) || parseYearCell(cell)) return null;
+    return firstAmount(cell, multiplier);
+}
+
+function firstAmount(text: string, multiplier: number): number | null {
+    const withoutYears = text.replace(new RegExp(YEAR_TOKEN.source, 'gi'), ' ');
+    const match = new RegExp(NUMBER_TOKEN.source, 'i').exec(withoutYears);
+    if (!match) return null;
+    const value = parseAmount(match[1], match[2]);
+    if (value === null) return null;
+    // Explicit units ("2.5 Cr") already carry their scale
+    return match[2] ? value : value * multiplier;
+}
+
+function dedupeFigures(figures: ExtractedFigure[]): ExtractedFigure[] {
+    const seen = new Map<string, ExtractedFigure>();
+    figures.forEach(figure => {
+        const key = `${figure.kind}:${figure.period || ''}`;
+        const existing = seen.get(key);
+        if (!existing || (existing.confidence === 'medium' && figure.confidence === 'high')) {
+            seen.set(key, figure);
+        }
+    });
+    return Array.from(seen.values());
+}
+
+function latestFigure(figures: ExtractedFigure[], kind: FigureKind): ExtractedFigure | undefined {
+    const matching = figures.filter(f => f.kind === kind);
+    if (matching.length === 0) return undefined;
+    const dated = matching.filter(f => f.year !== undefined).sort((a, b) => (b.year || 0) - (a.year || 0));
+    return dated[0] || matching[0];
+}
+
+function computeGrossMargin(figures: ExtractedFigure[]): { percent: number; reason: string } | null {
+    const revenue = latestFigure(figures, 'revenue');
+    if (!revenue || revenue.value <= 0) return null;
+
+    const samePeriod = (kind: FigureKind) => figures.find(f => f.kind === kind && f.period === revenue.period);
+    const grossProfit = samePeriod('gross_profit');
+    const cogs = samePeriod('cogs');
+
+    let margin: number | null = null;
+    let basis = '';
+    if (grossProfit) {
+        margin = grossProfit.value / revenue.value;
+        basis = describe(grossProfit);
+    } else if (cogs) {
+        margin = (revenue.value - Math.abs(cogs.value)) / revenue.value;
+        basis = describe(cogs);
+    }
+    if (margin === null || margin < -1 || margin > 1) return null;
+
+    return {
+        percent: Math.round(margin * 1000) / 10,
+        reason: `${basis} vs ${describe(revenue)}`
+    };
+}
+
+function buildHistoricalFinancials(figures: ExtractedFigure[], currency?: string): HistoricalFinancials | null {
+    const financialKinds: FigureKind[] = ['revenue', 'cogs', 'gross_profit', 'employee_costs', 'operating_expenses', 'ebitda', 'net_profit'];
+    const periods: HistoricalFinancials['periods'] = {};
+
+    figures
+        .filter(f => f.period && financialKinds.includes(f.kind))
+        .sort((a, b) => (a.year || 0) - (b.year || 0))
+        .forEach(f => {
+            periods[f.period!] = { ...(periods[f.period!] || {}), [f.kind]: f.value };
+        });
+
+    if (Object.keys(periods).length === 0) return null;
+    return { currency: currency || 'INR', periods };
+}
+
+function revenueBracket(value: number): { value: string; label: string } {
+    if (value <= 0) return { value: 'pre_revenue', label: 'Pre-revenue' };
+    const brackets: Array<[number, string, string]> = [
+        [5e5, '<5l', '< ₹5 Lakhs'],
+        [1e6, '5-10l', '₹5-10 Lakhs'],
+        [2.5e6, '10-25l', '₹10-25 Lakhs'],
+        [5e6, '25-50l', '₹25-50 Lakhs'],
+        [1e7, '50l-1cr', '₹50L - ₹1Cr'],
+        [5e7, '1-5cr', '₹1-5 Cr'],
+        [1e8, '5-10cr', '₹5-10 Cr']
+    ];
+    const match = brackets.find(([limit]) => value < limit);
+    return match ? { value: match[1], label: match[2] } : { value: '10cr+', label: '₹10 Cr+' };
+}
+
+function teamSizeBracket(count: number): { value: string; label: string } {
+    if (count <= 1) return { value: 'solo', label: 'Solo' };
+    if (count <= 5) return { value: '2-5', label: '2-5' };
+    if (count <= 10) return { value: '6-10', label: '6-10' };
+    if (count <= 25) return { value: '11-25', label: '11-25' };
+    if (count <= 50) return { value: '26-50', label: '26-50' };
+    return { value: '50+', label: '50+' };
+}
+
+function describe(figure: ExtractedFigure): string {
+    const period = figure.period ? ` ${figure.period}` : '';
+    const value = figure.kind === 'headcount' ? String(figure.value) : formatAmount(figure.value);
+    return `${figure.label}${period}: ${value} (${figure.source})`;
+}
+
+function formatAmount(value: number, currency?: string): string {
+    const symbol = !currency || currency === 'INR' ? '₹' : `${currency} `;
+    return `${symbol}${Math.round(value).toLocaleString('en-IN')}`;
+}
+
+// Export singleton instance
+let ingestionInstance: DocumentIngestionService | null = null;
+
+export function getDocumentIngestion(): DocumentIngestionService {
+    if (!ingestionInstance) {
+        ingestionInstance = new DocumentIngestionService();
+    }
+    return ingestionInstance;
+}
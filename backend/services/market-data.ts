@@ -0,0 +1,163 @@
+/**
+ * Market Data Service
+ * Loads the versioned market dataset used by the market_sizing_calculator skill:
+ *   taxonomy.json        industries (global size, base year, CAGR, segment shares), regions, sources
+ *   regional_splits.csv  industry share per region ('*' rows are the economy-wide fallback)
+ *   customer_pools.json  customer counts per region / customer type, location reach, sizing assumptions
+ *
+ * Selection:
+ *   MARKET_DATA_DIR=path/to/dataset/dir   (default: backend/data/market)
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+    CustomerPool,
+    MarketCustomerType,
+    MarketDataset,
+    MarketIndustry,
+    MarketRegion,
+    MarketSource,
+    RegionalSplit
+} from '../utils/types';
+import { logger } from '../utils/logger';
+import { parseCsv } from '../utils/csv';
+
+export const DEFAULT_MARKET_DATA_DIR = path.join(process.cwd(), 'backend', 'data', 'market');
+
+export function normalizeMarketKey(value: string): string {
+    return value.toLowerCase().replace(/[_-]+/g, ' ').replace(/\s+/g, ' ').trim();
+}
+
+export class MarketDataService {
+    private dataDir: string;
+    private dataset: MarketDataset | null = null;
+
+    constructor(dataDir: string = DEFAULT_MARKET_DATA_DIR) {
+        this.dataDir = dataDir;
+    }
+
+    /**
+     * Read and cache the dataset files
+     */
+    load(): MarketDataset {
+        if (this.dataset) return this.dataset;
+
+        const taxonomy = this.readJson('taxonomy.json');
+        const pools = this.readJson('customer_pools.json');
+
+        this.dataset = {
+            version: taxonomy.version,
+            updated_at: taxonomy.updated_at,
+            currency: taxonomy.currency,
+            usd_inr: taxonomy.usd_inr,
+            note: taxonomy.note,
+            sources: taxonomy.sources,
+            regions: taxonomy.regions,
+            industries: taxonomy.industries,
+            regional_splits: this.readRegionalSplits('regional_splits.csv'),
+            customer_pools: pools.pools,
+            location_reach: pools.location_reach,
+            assumptions: pools.assumptions
+        };
+
+        logger.info('Market dataset loaded', {
+            version: this.dataset.version,
+            industries: this.dataset.industries.length,
+            regional_splits: this.dataset.regional_splits.length
+        });
+
+        return this.dataset;
+    }
+
+    /**
+     * Resolve a questionnaire value or free-text industry name to a taxonomy entry
+     */
+    findIndustry(value: string | undefined): MarketIndustry | undefined {
+        if (!value) return undefined;
+        const key = normalizeMarketKey(value);
+        const industries = this.load().industries;
+        return industries.find(industry => normalizeMarketKey(industry.id) === key
+            || industry.aliases.some(alias => normalizeMarketKey(alias) === key));
+    }
+
+    /**
+     * Resolve a free-text location ("Hyderabad, India", "USA") to a region; the most specific alias wins
+     */
+    findRegion(value: string | undefined): MarketRegion | undefined {
+        if (!value) return undefined;
+        const text = ` ${normalizeMarketKey(value).replace(/[^a-z0-9.& ]+/g, ' ')} `;
+        let best: { region: MarketRegion; length: number } | undefined;
+
+        this.load().regions.forEach(region => {
+            [region.id, ...region.aliases].forEach(alias => {
+                const needle = normalizeMarketKey(alias);
+                if (text.includes(` ${needle} `) && (!best || needle.length > best.length)) {
+                    best = { region, length: needle.length };
+                }
+            });
+        });
+
+        return best?.region;
+    }
+
+    /**
+     * Industry share for a region, falling back to the economy-wide ('*') split
+     */
+    regionalSplit(industryId: string, regionId: string): RegionalSplit | undefined {
+        const splits = this.load().regional_splits;
+        return splits.find(split => split.industry_id === industryId && split.region === regionId)
+            || splits.find(split => split.industry_id === '*' && split.region === regionId);
+    }
+
+    customerPool(regionId: string, customerType: MarketCustomerType): CustomerPool | undefined {
+        return this.load().customer_pools.find(pool => pool.region === regionId && pool.customer_type === customerType);
+    }
+
+    locationReach(regionId: string): { shares: Record<string, number>; source_ids: string[] } {
+        const reach = this.load().location_reach;
+        return reach[regionId] || reach.default;
+    }
+
+    source(id: string): MarketSource | undefined {
+        return this.load().sources.find(source => source.id === id);
+    }
+
+    private readJson(fileName: string): any {
+        return JSON.parse(fs.readFileSync(path.join(this.dataDir, fileName), 'utf-8'));
+    }
+
+    private readRegionalSplits(fileName: string): RegionalSplit[] {
+        const [header, ...rows] = parseCsv(fs.readFileSync(path.join(this.dataDir, fileName), 'utf-8'));
+        return rows.map(cells => {
+            const row: Record<string, string> = {};
+            header.forEach((column, i) => {
+                row[column] = cells[i] ?? '';
+            });
+            return {
+                industry_id: row.industry_id,
+                region: row.region,
+                share_pct: Number(row.share_pct),
+                source_id: row.source_id,
+                note: row.note || undefined
+            };
+        }).filter(split => split.industry_id && split.region && Number.isFinite(split.share_pct));
+    }
+}
+
+// Export singleton instance
+let marketDataInstance: MarketDataService | null = null;
+
+export function getMarketData(): MarketDataService {
+    if (!marketDataInstance) {
+        marketDataInstance = new MarketDataService(process.env.MARKET_DATA_DIR || DEFAULT_MARKET_DATA_DIR);
+    }
+    return marketDataInstance;
+}
+
+/**
+ * Override the dataset (e.g. a different version directory); pass null to reset
+ */
+export function setMarketData(service: MarketDataService | null): void {
+    marketDataInstance = service;
+}
@@ -0,0 +1,392 @@
+/**
+ * Pitch Deck Presentation
+ * Renders pitch deck slides (built by the pitch_deck_generator skill) to an editable 16:9
+ * PPTX following the pitch_deck_designer spec: Poppins only, monochrome palette, generous
+ * whitespace, company name and slide number in the footer, grayscale native charts.
+ */
+
+import type PptxGenJS from 'pptxgenjs';
+import { PitchDeckChart, PitchDeckSlide } from '../utils/types';
+
+export interface PresentationOptions {
+    company: string;
+    title?: string;
+    author?: string;
+}
+
+type Slide = PptxGenJS.Slide;
+
+const FONT = {
+    bold: 'Poppins', // Used with bold: true
+    semiBold: 'Poppins SemiBold',
+    regular: 'Poppins',
+    light: 'Poppins Light'
+};
+
+const COLORS = {
+    black: '000000',
+    darkGray: '333333',
+    mediumGray: '666666',
+    gray: '999999',
+    lightGray: 'CCCCCC',
+    paleGray: 'E5E5E5',
+    offWhite: 'F5F5F5',
+    white: 'FFFFFF'
+};
+
+// Series / slice colors, darkest first
+const CHART_COLORS = [COLORS.black, COLORS.mediumGray, COLORS.gray, COLORS.darkGray, COLORS.lightGray, COLORS.paleGray];
+
+// LAYOUT_WIDE is 13.33" x 7.5"
+const PAGE = { w: 13.33, h: 7.5, margin: 0.6 };
+const CONTENT = { x: PAGE.margin, y: 1.75, w: PAGE.w - PAGE.margin * 2, h: 4.75 };
+const SOURCE_Y = 6.6;
+
+/**
+ * Build the PPTX file for a list of slides
+ */
+export async function buildPitchDeckPresentation(slides: PitchDeckSlide[], options: PresentationOptions): Promise<Buffer> {
+    const PptxGenJS = (await import('pptxgenjs')).default;
+    const pptx = new PptxGenJS();
+
+    pptx.layout = 'LAYOUT_WIDE';
+    pptx.author = options.author || options.company;
+    pptx.company = options.company;
+    pptx.title = options.title || `${options.company} - Pitch Deck`;
+    pptx.subject = 'Investor Pitch Deck';
+    pptx.theme = { headFontFace: FONT.bold, bodyFontFace: FONT.regular };
+
+    pptx.defineSlideMaster({
+        title: 'DECK',
+        background: { color: COLORS.white },
+        objects: [
+            { rect: { x: 0, y: 0, w: PAGE.w, h: 0.06, fill: { color: COLORS.black } } },
+            { line: { x: PAGE.margin, y: 7.0, w: PAGE.w - PAGE.margin * 2, h: 0, line: { color: COLORS.paleGray, width: 0.75 } } },
+            {
+                text: {
+                    text: options.company,
+                    options: { x: PAGE.margin, y: 7.05, w: 6, h: 0.3, fontFace: FONT.light, fontSize: 11, color: COLORS.gray }
+                }
+            }
+        ],
+        slideNumber: { x: PAGE.w - PAGE.margin - 0.6, y: 7.05, w: 0.6, h: 0.3, fontFace: FONT.light, fontSize: 11, color: COLORS.gray, align: 'right' }
+    });
+    pptx.defineSlideMaster({
+        title: 'COVER',
+        background: { color: COLORS.offWhite },
+        objects: [{ rect: { x: 0, y: 0, w: 0.25, h: PAGE.h, fill: { color: COLORS.black } } }]
+    });
+
+    slides.forEach(content => {
+        const slide = pptx.addSlide({ masterName: content.layout === 'cover' ? 'COVER' : 'DECK' });
+
+        if (content.layout === 'cover') {
+            addCover(slide, content);
+        } else {
+            addTitle(slide, content);
+            switch (content.layout) {
+                case 'chart':
+                    addChartLayout(pptx, slide, content);
+                    break;
+                case 'metrics':
+                    addMetrics(slide, content);
+                    break;
+                case 'table':
+                    addTable(slide, content);
+                    break;
+                case 'team':
+                    addTeam(slide, content);
+                    break;
+                default:
+                    addBullets(slide, content.bullets || [], CONTENT, content.placeholder);
+            }
+        }
+
+        if (content.source) {
+            slide.addText(content.source, {
+                x: PAGE.margin, y: SOURCE_Y, w: CONTENT.w, h: 0.3,
+                fontFace: FONT.light, fontSize: 11, color: COLORS.gray
+            });
+        }
+        if (content.notes) slide.addNotes(content.notes);
+    });
+
+    return await pptx.write({ outputType: 'nodebuffer' }) as Buffer;
+}
+
+function addCover(slide: Slide, content: PitchDeckSlide): void {
+    slide.addText(content.title, {
+        x: 1.1, y: 2.3, w: 11, h: 1.2,
+        fontFace: FONT.bold, bold: true, fontSize: 48, color: COLORS.black
+    });
+    if (content.subtitle) {
+        slide.addText(content.subtitle, {
+            x: 1.1, y: 3.5, w: 11, h: 0.9,
+            fontFace: FONT.regular, fontSize: 24, color: COLORS.darkGray
+        });
+    }
+    if (content.bullets && content.bullets.length > 0) {
+        slide.addText(content.bullets.join('\n'), {
+            x: 1.1, y: 5.4, w: 11, h: 0.9,
+            fontFace: FONT.light, fontSize: 14, color: COLORS.mediumGray, valign: 'top'
+        });
+    }
+}
+
+function addTitle(slide: Slide, content: PitchDeckSlide): void {
+    slide.addText(content.title, {
+        x: PAGE.margin, y: 0.4, w: CONTENT.w, h: 0.75,
+        fontFace: FONT.bold, bold: true, fontSize: 32, color: COLORS.black
+    });
+    if (content.subtitle) {
+        slide.addText(content.subtitle, {
+            x: PAGE.margin, y: 1.1, w: CONTENT.w, h: 0.5,
+            fontFace: FONT.semiBold, fontSize: 20, color: COLORS.mediumGray
+        });
+    }
+}
+
+function addBullets(
+    slide: Slide,
+    bullets: string[],
+    area: { x: number; y: number; w: number; h: number },
+    placeholder?: boolean
+): void {
+    if (bullets.length === 0) return;
+    slide.addText(
+        bullets.map(bullet => ({ text: bullet, options: { bullet: { indent: 18 }, breakLine: true } })),
+        {
+            ...area,
+            fontFace: placeholder ? FONT.light : FONT.regular,
+            fontSize: 16,
+            italic: placeholder,
+            color: placeholder ? COLORS.gray : COLORS.darkGray,
+            valign: 'top',
+            paraSpaceAfter: 10
+        }
+    );
+}
+
+function addChartLayout(pptx: PptxGenJS, slide: Slide, content: PitchDeckSlide): void {
+    const chart = content.chart!;
+    const hasBullets = (content.bullets || []).length > 0;
+    const area = { x: CONTENT.x, y: CONTENT.y, w: hasBullets ? 7.7 : CONTENT.w, h: CONTENT.h };
+
+    if (chart.type === 'scatter') {
+        addPositioningMap(slide, chart, area);
+    } else {
+        addChart(pptx, slide, chart, area);
+    }
+    if (hasBullets) {
+        addBullets(slide, content.bullets!, { x: CONTENT.x + 8.1, y: CONTENT.y, w: CONTENT.w - 8.1, h: CONTENT.h });
+    }
+}
+
+function addChart(pptx: PptxGenJS, slide: Slide, chart: PitchDeckChart, area: { x: number; y: number; w: number; h: number }): void {
+    const data = chart.series.map(series => ({ name: series.name, labels: chart.labels, values: series.values }));
+    const common = {
+        ...area,
+        chartColors: chart.type === 'pie' || chart.type === 'doughnut'
+            ? chart.labels.map((_, index) => CHART_COLORS[index % CHART_COLORS.length])
+            : CHART_COLORS,
+        showLegend: chart.type === 'pie' || chart.type === 'doughnut' || chart.series.length > 1,
+        legendPos: 'r' as const,
+        legendFontFace: FONT.regular,
+        legendFontSize: 12,
+        legendColor: COLORS.darkGray,
+        dataLabelFontFace: FONT.bold,
+        dataLabelFontBold: true,
+        dataLabelFontSize: 12,
+        dataLabelColor: COLORS.darkGray
+    };
+
+    if (chart.type === 'pie' || chart.type === 'doughnut') {
+        slide.addChart(chart.type === 'pie' ? pptx.ChartType.pie : pptx.ChartType.doughnut, data, {
+            ...common,
+            showPercent: true,
+            showValue: false,
+            dataLabelPosition: 'outEnd',
+            holeSize: chart.type === 'doughnut' ? 55 : undefined
+        });
+        return;
+    }
+
+    const axes = {
+        catAxisLabelFontFace: FONT.regular,
+        catAxisLabelFontSize: 12,
+        catAxisLabelColor: COLORS.darkGray,
+        catAxisLineShow: true,
+        valAxisLabelFontFace: FONT.light,
+        valAxisLabelFontSize: 11,
+        valAxisLabelColor: COLORS.gray,
+        valAxisTitle: chart.unit,
+        showValAxisTitle: Boolean(chart.unit),
+        valAxisTitleFontFace: FONT.light,
+        valAxisTitleFontSize: 11,
+        valAxisTitleColor: COLORS.gray,
+        valGridLine: { color: COLORS.paleGray, size: 0.5 },
+        showValue: true,
+        dataLabelFormatCode: '#,##0.0'
+    };
+
+    if (chart.type === 'line') {
+        slide.addChart(pptx.ChartType.line, data, {
+            ...common,
+            ...axes,
+            lineSize: 2,
+            lineDataSymbol: 'circle',
+            lineDataSymbolSize: 7,
+            dataLabelPosition: 't'
+        });
+        return;
+    }
+
+    slide.addChart(pptx.ChartType.bar, data, {
+        ...common,
+        ...axes,
+        barDir: chart.horizontal ? 'bar' : 'col',
+        barGapWidthPct: 60,
+        dataLabelPosition: 'outEnd'
+    });
+}
+
+/**
+ * 2x2 positioning map drawn with shapes so every point can carry its name.
+ * labels = point names, series[0] = x (0-100), series[1] = y (0-100); series names are the axis titles.
+ * The first point named "You" is highlighted.
+ */
+function addPositioningMap(slide: Slide, chart: PitchDeckChart, area: { x: number; y: number; w: number; h: number }): void {
+    const plot = { x: area.x + 0.5, y: area.y, w: area.w - 0.7, h: area.h - 0.5 };
+    const [xSeries, ySeries] = chart.series;
+
+    slide.addShape('rect', { ...plot, fill: { color: COLORS.white }, line: { color: COLORS.lightGray, width: 1 } });
+    slide.addShape('line', { x: plot.x + plot.w / 2, y: plot.y, w: 0, h: plot.h, line: { color: COLORS.lightGray, width: 1, dashType: 'dash' } });
+    slide.addShape('line', { x: plot.x, y: plot.y + plot.h / 2, w: plot.w, h: 0, line: { color: COLORS.lightGray, width: 1, dashType: 'dash' } });
+
+    slide.addText(xSeries.name, {
+        x: plot.x, y: plot.y + plot.h + 0.05, w: plot.w, h: 0.35,
+        fontFace: FONT.semiBold, fontSize: 12, color: COLORS.mediumGray, align: 'center'
+    });
+    slide.addText(ySeries.name, {
+        x: area.x - 2.05, y: plot.y + plot.h / 2 - 0.2, w: 4.5, h: 0.4,
+        fontFace: FONT.semiBold, fontSize: 12, color: COLORS.mediumGray, align: 'center', rotate: 270
+    });
+
+    const dot = 0.22;
+    chart.labels.forEach((label, index) => {
+        const isYou = label === 'You';
+        const cx = plot.x + (xSeries.values[index] / 100) * (plot.w - dot) + dot / 2;
+        const cy = plot.y + (1 - ySeries.values[index] / 100) * (plot.h - dot) + dot / 2;
+        slide.addShape('ellipse', {
+            x: cx - dot / 2, y: cy - dot / 2, w: dot, h: dot,
+            fill: { color: isYou ? COLORS.black : COLORS.white },
+            line: { color: COLORS.black, width: 1.5 }
+        });
+        slide.addText(label, {
+            x: Math.min(cx + 0.15, plot.x + plot.w - 2), y: cy - 0.2, w: 2, h: 0.4,
+            fontFace: isYou ? FONT.bold : FONT.regular, bold: isYou, fontSize: 12, color: COLORS.darkGray
+        });
+    });
+}
+
+function addMetrics(slide: Slide, content: PitchDeckSlide): void {
+    const metrics = content.metrics || [];
+    const perRow = Math.min(4, Math.max(1, metrics.length));
+    const gap = 0.3;
+    const boxW = (CONTENT.w - gap * (perRow - 1)) / perRow;
+    const boxH = 1.7;
+
+    metrics.forEach((metric, index) => {
+        const row = Math.floor(index / perRow);
+        const x = CONTENT.x + (index % perRow) * (boxW + gap);
+        const y = CONTENT.y + row * (boxH + gap);
+        slide.addShape('rect', { x, y, w: boxW, h: boxH, fill: { color: COLORS.offWhite }, line: { color: COLORS.paleGray, width: 1 } });
+        slide.addText(metric.value, {
+            x: x + 0.2, y: y + 0.15, w: boxW - 0.4, h: 0.8,
+            fontFace: FONT.bold, bold: true, fontSize: 32, color: COLORS.black, fit: 'shrink'
+        });
+        slide.addText(metric.label, {
+            x: x + 0.2, y: y + 0.95, w: boxW - 0.4, h: 0.35,
+            fontFace: FONT.regular, fontSize: 14, color: COLORS.darkGray
+        });
+        if (metric.caption) {
+            slide.addText(metric.caption, {
+                x: x + 0.2, y: y + 1.28, w: boxW - 0.4, h: 0.35,
+                fontFace: FONT.light, fontSize: 11, color: COLORS.gray
+            });
+        }
+    });
+
+    const rows = Math.ceil(metrics.length / perRow);
+    const bulletsY = CONTENT.y + rows * (boxH + gap) + 0.1;
+    addBullets(slide, content.bullets || [], { x: CONTENT.x, y: bulletsY, w: CONTENT.w, h: CONTENT.y + CONTENT.h - bulletsY });
+}
+
+function addTable(slide: Slide, content: PitchDeckSlide): void {
+    const table = content.table!;
+    const firstColumn = Math.min(3.6, CONTENT.w / table.headers.length * 1.4);
+    const otherColumns = (CONTENT.w - firstColumn) / Math.max(1, table.headers.length - 1);
+    const fontSize = table.rows.length > 12 ? 10 : 12;
+
+    const header = table.headers.map(text => ({
+        text,
+        options: { bold: true, fontFace: FONT.semiBold, color: COLORS.white, fill: { color: COLORS.black } }
+    }));
+    const body = table.rows.map((row, rowIndex) => row.map((text, column) => ({
+        text,
+        options: {
+            fontFace: column === 0 ? FONT.semiBold : FONT.regular,
+            color: COLORS.darkGray,
+            align: (column === 0 ? 'left' : 'center') as 'left' | 'center',
+            fill: { color: rowIndex % 2 === 0 ? COLORS.white : COLORS.offWhite }
+        }
+    })));
+
+    slide.addTable([header, ...body], {
+        x: CONTENT.x, y: CONTENT.y, w: CONTENT.w,
+        colW: [firstColumn, ...table.headers.slice(1).map(() => otherColumns)],
+        fontSize,
+        border: { type: 'solid', pt: 0.5, color: COLORS.paleGray },
+        autoPage: false
+    });
+
+    if (content.bullets && content.bullets.length > 0) {
+        const tableHeight = (table.rows.length + 1) * (fontSize === 10 ? 0.3 : 0.4);
+        const y = Math.min(CONTENT.y + tableHeight + 0.2, SOURCE_Y - 0.8);
+        addBullets(slide, content.bullets, { x: CONTENT.x, y, w: CONTENT.w, h: SOURCE_Y - y });
+    }
+}
+
+function addTeam(slide: Slide, content: PitchDeckSlide): void {
+    const members = content.team || [];
+    const perRow = Math.min(4, Math.max(2, members.length));
+    const gap = 0.3;
+    const cardW = (CONTENT.w - gap * (perRow - 1)) / perRow;
+    const cardH = 2.1;
+
+    members.forEach((member, index) => {
+        const x = CONTENT.x + (index % perRow) * (cardW + gap);
+        const y = CONTENT.y + Math.floor(index / perRow) * (cardH + gap);
+        slide.addShape('rect', { x, y, w: cardW, h: cardH, fill: { color: COLORS.offWhite }, line: { color: COLORS.paleGray, width: 1 } });
+        slide.addText(member.name, {
+            x: x + 0.2, y: y + 0.15, w: cardW - 0.4, h: 0.45,
+            fontFace: FONT.semiBold, fontSize: 18, color: COLORS.black
+        });
+        if (member.role) {
+            slide.addText(member.role, {
+                x: x + 0.2, y: y + 0.6, w: cardW - 0.4, h: 0.35,
+                fontFace: FONT.regular, fontSize: 14, color: COLORS.mediumGray
+            });
+        }
+        if (member.bio) {
+            slide.addText(member.bio, {
+                x: x + 0.2, y: y + 1.0, w: cardW - 0.4, h: cardH - 1.1,
+                fontFace: FONT.light, fontSize: 12, color: COLORS.darkGray, valign: 'top', fit: 'shrink'
+            });
+        }
+    });
+
+    const rows = Math.ceil(members.length / perRow);
+    const bulletsY = CONTENT.y + rows * (cardH + gap);
+    addBullets(slide, content.bullets || [], { x: CONTENT.x, y: bulletsY, w: CONTENT.w, h: Math.max(0.5, SOURCE_Y - bulletsY) });
+}
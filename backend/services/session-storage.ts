@@ -4,6 +4,7 @@
  */
 
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import type { MCPProvenance } from '../mcp/engine';
 
 export interface Message {
     id: string;
@@ -14,6 +15,14 @@ export interface Message {
     phaseName?: string;
 }
 
+export interface AutoPopulatedField {
+    value: any; // Value the MCP rules suggested
+    provenance: MCPProvenance;
+    status: 'suggested' | 'accepted' | 'overridden';
+    override?: any; // User's value when overridden
+    updatedAt: string;
+}
+
 export interface SessionData {
     id: string;
     userId: string;
@@ -22,6 +31,7 @@ export interface SessionData {
     completed: boolean;
     completedPhases: number[];
     answers: Record<string, any>;
+    autoPopulated: Record<string, AutoPopulatedField>; // Suggestions from MCP rules, keyed by field
     messages: Message[];
     language: string;
     channel: string;
@@ -38,11 +48,30 @@ export interface AgentActivity {
     executionTimeMs: number;
     success: boolean;
     errorMessage?: string;
+    agentVersion?: string;
+    inputTokens?: number;
+    outputTokens?: number;
+    costUsd?: number;
+    regeneration?: boolean; // Run explicitly requested by the user to regenerate earlier output
 }
 
+export interface AgentActivityRecord extends AgentActivity {
+    sessionId: string;
+    userEdits: number;
+    createdAt: Date;
+}
+
+// Sessions created by the API use Supabase UUIDs; the questionnaire page generates its own
+// text ids, which are stored in a separate text-keyed table written with the service role key
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const CLIENT_SESSIONS_TABLE = 'questionnaire_answer_sessions';
+const MAX_IN_MEMORY_ACTIVITY = 5000; // Oldest runs are dropped beyond this
+
 export class SessionStorageService {
     private supabase: SupabaseClient | null = null;
+    private admin: SupabaseClient | null = null;
     private inMemoryStorage: Map<string, SessionData> = new Map();
+    private inMemoryActivity: AgentActivityRecord[] = [];
     private isConfigured: boolean = false;
 
     constructor() {
@@ -56,6 +85,25 @@ export class SessionStorageService {
         } else {
             console.log('📝 SessionStorageService: Using in-memory storage (Supabase not configured)');
         }
+
+        const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+        if (this.isConfigured && serviceRoleKey && !serviceRoleKey.includes('your_')) {
+            this.admin = createClient(supabaseUrl!, serviceRoleKey, {
+                auth: { autoRefreshToken: false, persistSession: false }
+            });
+        } else if (this.isConfigured) {
+            console.log('📝 SessionStorageService: SUPABASE_SERVICE_ROLE_KEY not set, client-generated sessions stay in memory');
+        }
+    }
+
+    /**
+     * Client and table holding a session, or null when it is kept in memory
+     */
+    private sessionTable(sessionId: string): { client: SupabaseClient; table: string } | null {
+        if (UUID_PATTERN.test(sessionId)) {
+            return this.isConfigured && this.supabase ? { client: this.supabase, table: 'questionnaire_sessions' } : null;
+        }
+        return this.admin ? { client: this.admin, table: CLIENT_SESSIONS_TABLE } : null;
     }
 
     /**
@@ -72,6 +120,7 @@ export class SessionStorageService {
             completed: false,
             completedPhases: [],
             answers: {},
+            autoPopulated: {},
             messages: [],
             language,
             channel: 'web',
@@ -115,17 +164,17 @@ export class SessionStorageService {
      * Get session by ID
      */
     async getSession(sessionId: string): Promise<SessionData | null> {
-        if (this.isConfigured && this.supabase) {
+        const target = this.sessionTable(sessionId);
+        if (target && !this.inMemoryStorage.has(sessionId)) {
             try {
-                const { data, error } = await this.supabase
-                    .from('questionnaire_sessions')
+                const { data, error } = await target.client
+                    .from(target.table)
                     .select('*')
                     .eq('id', sessionId)
-                    .single();
+                    .maybeSingle();
 
                 if (error) throw error;
-
-                return this.mapDbToSession(data);
+                if (data) return this.mapDbToSession(data);
             } catch (error) {
                 console.error('[SessionStorage] Failed to get Supabase session:', error);
             }
@@ -134,6 +183,63 @@ export class SessionStorageService {
         return this.inMemoryStorage.get(sessionId) || null;
     }
 
+    /**
+     * Get a session, creating it under the given ID when the client generated that ID itself.
+     * Such sessions are stored in the text-keyed questionnaire_answer_sessions table.
+     */
+    async getOrCreateSession(sessionId: string, userId: string, language: string = 'en-US'): Promise<SessionData> {
+        const existing = await this.getSession(sessionId);
+        if (existing) return existing;
+
+        const session: SessionData = {
+            id: sessionId,
+            userId,
+            currentPhase: 0,
+            currentQuestionIndex: 0,
+            completed: false,
+            completedPhases: [],
+            answers: {},
+            autoPopulated: {},
+            messages: [],
+            language,
+            channel: 'web',
+            createdAt: new Date(),
+            updatedAt: new Date()
+        };
+
+        const target = this.sessionTable(sessionId);
+        if (target) {
+            try {
+                const { data, error } = await target.client
+                    .from(target.table)
+                    .upsert({
+                        id: sessionId,
+                        user_id: userId,
+                        current_phase: 0,
+                        current_question_index: 0,
+                        completed: false,
+                        completed_phases: [],
+                        answers: {},
+                        auto_populated: {},
+                        messages: [],
+                        language,
+                        channel: 'web'
+                    }, { onConflict: 'id', ignoreDuplicates: true })
+                    .select()
+                    .maybeSingle();
+
+                if (error) throw error;
+                // ignoreDuplicates returns no row when a concurrent request created it first
+                return data ? this.mapDbToSession(data) : (await this.getSession(sessionId)) || session;
+            } catch (error) {
+                console.error('[SessionStorage] Failed to create Supabase session, using local:', error);
+            }
+        }
+
+        this.inMemoryStorage.set(sessionId, session);
+        return session;
+    }
+
     /**
      * Get active session for user
      */
@@ -172,7 +278,8 @@ export class SessionStorageService {
      * Update session state
      */
     async updateSession(sessionId: string, updates: Partial<SessionData>): Promise<SessionData | null> {
-        if (this.isConfigured && this.supabase) {
+        const target = this.sessionTable(sessionId);
+        if (target && !this.inMemoryStorage.has(sessionId)) {
             try {
                 const dbUpdates: any = {};
 
@@ -181,11 +288,12 @@ export class SessionStorageService {
                 if (updates.completed !== undefined) dbUpdates.completed = updates.completed;
                 if (updates.completedPhases !== undefined) dbUpdates.completed_phases = updates.completedPhases;
                 if (updates.answers !== undefined) dbUpdates.answers = updates.answers;
+                if (updates.autoPopulated !== undefined) dbUpdates.auto_populated = updates.autoPopulated;
                 if (updates.messages !== undefined) dbUpdates.messages = updates.messages;
                 if (updates.language !== undefined) dbUpdates.language = updates.language;
 
-                const { data, error } = await this.supabase
-                    .from('questionnaire_sessions')
+                const { data, error } = await target.client
+                    .from(target.table)
                     .update(dbUpdates)
                     .eq('id', sessionId)
                     .select()
@@ -213,22 +321,25 @@ export class SessionStorageService {
      * Add message to conversation history
      */
     async addMessage(sessionId: string, message: Message): Promise<void> {
-        if (this.isConfigured && this.supabase) {
+        const target = this.sessionTable(sessionId);
+        if (target && !this.inMemoryStorage.has(sessionId)) {
             try {
-                // Add to conversation_history table for detailed tracking
-                await this.supabase
-                    .from('conversation_history')
-                    .insert({
-                        session_id: sessionId,
-                        role: message.role,
-                        content: message.content,
-                        question_id: message.questionId,
-                        phase_name: message.phaseName
-                    });
+                // Add to conversation_history table for detailed tracking (keyed by UUID sessions only)
+                if (target.table === 'questionnaire_sessions') {
+                    await target.client
+                        .from('conversation_history')
+                        .insert({
+                            session_id: sessionId,
+                            role: message.role,
+                            content: message.content,
+                            question_id: message.questionId,
+                            phase_name: message.phaseName
+                        });
+                }
 
                 // Also update messages array in session
-                const { data: session } = await this.supabase
-                    .from('questionnaire_sessions')
+                const { data: session } = await target.client
+                    .from(target.table)
                     .select('messages')
                     .eq('id', sessionId)
                     .single();
@@ -236,8 +347,8 @@ export class SessionStorageService {
                 const messages = (session?.messages || []) as Message[];
                 messages.push(message);
 
-                await this.supabase
-                    .from('questionnaire_sessions')
+                await target.client
+                    .from(target.table)
                     .update({ messages })
                     .eq('id', sessionId);
 
@@ -254,29 +365,122 @@ export class SessionStorageService {
         }
     }
 
+    /**
+     * Client and column logging a session's agent activity, or null when it is kept in memory.
+     * Client-generated ids cannot satisfy the session_id foreign key, so they go to
+     * client_session_id through the service-role client.
+     */
+    private activityTarget(sessionId: string): { client: SupabaseClient; column: string } | null {
+        if (UUID_PATTERN.test(sessionId)) {
+            return this.isConfigured && this.supabase ? { client: this.supabase, column: 'session_id' } : null;
+        }
+        return this.admin ? { client: this.admin, column: 'client_session_id' } : null;
+    }
+
     /**
      * Log agent activity
      */
     async logAgentActivity(sessionId: string, activity: AgentActivity): Promise<void> {
-        if (this.isConfigured && this.supabase) {
+        const target = this.activityTarget(sessionId);
+        if (target) {
             try {
-                await this.supabase
+                const { error } = await target.client
                     .from('agent_activity_log')
                     .insert({
-                        session_id: sessionId,
+                        [target.column]: sessionId,
                         agent_id: activity.agentId,
                         agent_name: activity.agentName,
+                        agent_version: activity.agentVersion,
                         skill_used: activity.skillsUsed,
                         input_message: activity.inputMessage,
                         output_response: activity.outputResponse,
                         execution_time_ms: activity.executionTimeMs,
                         success: activity.success,
-                        error_message: activity.errorMessage
+                        error_message: activity.errorMessage,
+                        input_tokens: activity.inputTokens,
+                        output_tokens: activity.outputTokens,
+                        cost_usd: activity.costUsd,
+                        regeneration: activity.regeneration || false
                     });
+
+                if (error) throw error;
+                return;
             } catch (error) {
-                console.error('[SessionStorage] Failed to log agent activity:', error);
+                console.error('[SessionStorage] Failed to log agent activity, keeping it in memory:', error);
             }
         }
+
+        this.inMemoryActivity.push({ ...activity, sessionId, userEdits: 0, createdAt: new Date() });
+        if (this.inMemoryActivity.length > MAX_IN_MEMORY_ACTIVITY) {
+            this.inMemoryActivity.splice(0, this.inMemoryActivity.length - MAX_IN_MEMORY_ACTIVITY);
+        }
+    }
+
+    /**
+     * Get logged executions of an agent (all versions), oldest first
+     */
+    async getAgentActivity(agentId: string): Promise<AgentActivityRecord[]> {
+        const inMemory = this.inMemoryActivity.filter(a => a.agentId === agentId);
+        const client = this.admin || (this.isConfigured ? this.supabase : null);
+        if (!client) return inMemory;
+
+        try {
+            const { data, error } = await client
+                .from('agent_activity_log')
+                .select('*')
+                .eq('agent_id', agentId)
+                .order('created_at', { ascending: true });
+
+            if (error) throw error;
+
+            return (data || [])
+                .map(row => this.mapDbToActivity(row))
+                .concat(inMemory)
+                .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+        } catch (error) {
+            console.error('[SessionStorage] Failed to get agent activity:', error);
+            return inMemory;
+        }
+    }
+
+    /**
+     * Count a user edit against the latest output an agent produced for a session
+     */
+    async recordAgentEdit(sessionId: string, agentId: string): Promise<boolean> {
+        const latest = this.inMemoryActivity
+            .filter(a => a.sessionId === sessionId && a.agentId === agentId)
+            .pop();
+        if (latest) {
+            latest.userEdits++;
+            return true;
+        }
+
+        const target = this.activityTarget(sessionId);
+        if (!target) return false;
+
+        try {
+            const { data, error } = await target.client
+                .from('agent_activity_log')
+                .select('id, user_edits')
+                .eq(target.column, sessionId)
+                .eq('agent_id', agentId)
+                .order('created_at', { ascending: false })
+                .limit(1)
+                .single();
+
+            if (error) throw error;
+
+            const { error: updateError } = await target.client
+                .from('agent_activity_log')
+                .update({ user_edits: (data.user_edits || 0) + 1 })
+                .eq('id', data.id);
+
+            if (updateError) throw updateError;
+            return true;
+        } catch (error) {
+            console.error('[SessionStorage] Failed to record agent edit:', error);
+            return false;
+        }
     }
 
     /**
@@ -290,6 +494,90 @@ export class SessionStorageService {
         }
     }
 
+    /**
+     * Store values auto-populated from an answer as suggestions. A field the user already
+     * accepted or overrode keeps their decision unless the suggested value changed.
+     */
+    async saveAutoPopulated(
+        sessionId: string,
+        values: Record<string, any>,
+        provenance: Record<string, MCPProvenance>
+    ): Promise<Record<string, AutoPopulatedField> | null> {
+        const session = await this.getSession(sessionId);
+        if (!session) return null;
+
+        const autoPopulated = { ...session.autoPopulated };
+        Object.keys(values).forEach(field => {
+            const existing = autoPopulated[field];
+            if (existing && existing.status !== 'suggested'
+                && JSON.stringify(existing.value) === JSON.stringify(values[field])) {
+                return;
+            }
+            autoPopulated[field] = {
+                value: values[field],
+                provenance: provenance[field],
+                status: 'suggested',
+                updatedAt: new Date().toISOString()
+            };
+        });
+
+        await this.updateSession(sessionId, { autoPopulated });
+        return autoPopulated;
+    }
+
+    /**
+     * Accept an auto-populated value or replace it with the user's own; either becomes the answer
+     */
+    async resolveAutoPopulated(
+        sessionId: string,
+        field: string,
+        decision: { status: 'accepted' } | { status: 'overridden'; value: any }
+    ): Promise<AutoPopulatedField | null> {
+        const session = await this.getSession(sessionId);
+        const existing = session?.autoPopulated[field];
+        if (!session || !existing) return null;
+
+        const resolved: AutoPopulatedField = {
+            ...existing,
+            status: decision.status,
+            override: decision.status === 'overridden' ? decision.value : undefined,
+            updatedAt: new Date().toISOString()
+        };
+
+        await this.updateSession(sessionId, {
+            autoPopulated: { ...session.autoPopulated, [field]: resolved },
+            answers: {
+                ...session.answers,
+                [field]: decision.status === 'overridden' ? decision.value : existing.value
+            }
+        });
+        return resolved;
+    }
+
+    /**
+     * Map agent_activity_log row to AgentActivityRecord
+     */
+    private mapDbToActivity(data: any): AgentActivityRecord {
+        return {
+            sessionId: data.session_id || data.client_session_id,
+            agentId: data.agent_id,
+            agentName: data.agent_name,
+            agentVersion: data.agent_version || undefined,
+            skillsUsed: data.skill_used || [],
+            inputMessage: data.input_message || '',
+            outputResponse: data.output_response || '',
+            executionTimeMs: data.execution_time_ms || 0,
+            success: data.success !== false,
+            errorMessage: data.error_message || undefined,
+            inputTokens: data.input_tokens ?? undefined,
+            outputTokens: data.output_tokens ?? undefined,
+            costUsd: data.cost_usd !== null && data.cost_usd !== undefined ? Number(data.cost_usd) : undefined,
+            regeneration: data.regeneration === true,
+            userEdits: data.user_edits || 0,
+            createdAt: new Date(data.created_at)
+        };
+    }
+
     /**
      * Map database record to SessionData
      */
@@ -302,6 +590,7 @@ export class SessionStorageService {
             completed: data.completed || false,
             completedPhases: data.completed_phases || [],
             answers: data.answers || {},
+            autoPopulated: data.auto_populated || {},
             messages: (data.messages || []).map((m: any) => ({
                 ...m,
                 timestamp: new Date(m.timestamp)
@@ -0,0 +1,331 @@
+/**
+ * Usage Budget Service
+ * Records token usage and cost from every LLM call (Groq, Claude, local) against a
+ * session/user, and tells callers when to degrade or refuse further work.
+ *
+ * Env (all optional; unset = unlimited):
+ *   BUDGET_SESSION_MAX_TOKENS, BUDGET_SESSION_MAX_COST_USD
+ *   BUDGET_USER_MAX_TOKENS,    BUDGET_USER_MAX_COST_USD
+ *   BUDGET_AGENT_MAX_TOKENS    cap for a single agent run (tool-call loops)
+ *   BUDGET_DEGRADE_AT=0.8      fraction of any limit at which callers should degrade
+ *   BUDGET_SESSION_TTL_HOURS=24  usage of sessions idle this long is dropped (also from user totals)
+ */
+
+import { LLMUsage, BudgetExceededError } from '../utils/types';
+import { logger } from '../utils/logger';
+
+// USD per 1M tokens [input, output]
+const MODEL_PRICING: Record<string, [number, number]> = {
+    'llama-3.3-70b-versatile': [0.59, 0.79],
+    'llama-3.1-70b-versatile': [0.59, 0.79],
+    'llama-3.1-8b-instant': [0.05, 0.08],
+    'claude-3-haiku-20240307': [0.25, 1.25],
+    'claude-3-5-haiku-20241022': [0.8, 4],
+    'claude-3-5-sonnet-20241022': [3, 15],
+    'claude-3-opus-20240229': [15, 75],
+    'gpt-4o-mini': [0.15, 0.6],
+    'gpt-4o': [2.5, 10]
+};
+
+// Providers whose calls cost nothing (local models, fixtures)
+const FREE_PROVIDERS = ['fixture'];
+
+// Placeholder ids of unauthenticated callers; usage is not pooled under them
+const ANONYMOUS_USER_IDS = ['anonymous', 'anonymous_user'];
+
+const DEFAULT_SESSION_TTL_HOURS = 24;
+const PRUNE_INTERVAL_MS = 60 * 1000;
+
+export type BudgetStatus = 'ok' | 'degrade' | 'exceeded';
+
+export interface UsageRecord {
+    session_id: string;
+    user_id?: string;
+    provider: string;
+    model: string;
+    source: string; // Agent id or orchestrator step ('intent', 'synthesis', ...)
+    input_tokens: number;
+    output_tokens: number;
+    cost_usd: number;
+    timestamp: string;
+}
+
+export interface BudgetLimits {
+    sessionMaxTokens?: number;
+    sessionMaxCostUsd?: number;
+    userMaxTokens?: number;
+    userMaxCostUsd?: number;
+    agentMaxTokens?: number;
+    degradeAt: number;
+}
+
+export interface UsageTotals {
+    calls: number;
+    input_tokens: number;
+    output_tokens: number;
+    total_tokens: number;
+    cost_usd: number;
+}
+
+export interface SessionUsageSummary {
+    session_id: string;
+    totals: UsageTotals;
+    by_source: Record<string, UsageTotals>;
+    by_model: Record<string, UsageTotals>;
+    limits: BudgetLimits;
+    status: BudgetStatus;
+}
+
+export interface BudgetCheck {
+    status: BudgetStatus;
+    scope?: 'session' | 'user';
+    reason?: string;
+}
+
+export class UsageBudgetService {
+    private records: Map<string, UsageRecord[]> = new Map(); // session_id -> records
+    private userSessions: Map<string, Set<string>> = new Map(); // user_id -> session ids
+    private lastActivity: Map<string, number> = new Map(); // session_id -> time of its latest record
+    private lastPrune = 0;
+    private sessionTtlMs: number;
+    private limits: BudgetLimits;
+
+    constructor(limits?: Partial<BudgetLimits>, options: { sessionTtlMs?: number } = {}) {
+        this.limits = {
+            sessionMaxTokens: envNumber('BUDGET_SESSION_MAX_TOKENS'),
+            sessionMaxCostUsd: envNumber('BUDGET_SESSION_MAX_COST_USD'),
+            userMaxTokens: envNumber('BUDGET_USER_MAX_TOKENS'),
+            userMaxCostUsd: envNumber('BUDGET_USER_MAX_COST_USD'),
+            agentMaxTokens: envNumber('BUDGET_AGENT_MAX_TOKENS'),
+            degradeAt: envNumber('BUDGET_DEGRADE_AT') ?? 0.8,
+            ...limits
+        };
+        this.sessionTtlMs = options.sessionTtlMs
+            ?? (envNumber('BUDGET_SESSION_TTL_HOURS') ?? DEFAULT_SESSION_TTL_HOURS) * 60 * 60 * 1000;
+    }
+
+    /**
+     * Record usage from one LLM call
+     */
+    record(entry: {
+        sessionId?: string;
+        userId?: string;
+        provider: string;
+        model: string;
+        source: string;
+        usage: LLMUsage;
+    }): UsageRecord | null {
+        if (!entry.sessionId) return null;
+        this.prune();
+
+        const userId = userScope(entry.userId);
+        const record: UsageRecord = {
+            session_id: entry.sessionId,
+            user_id: userId,
+            provider: entry.provider,
+            model: entry.model,
+            source: entry.source,
+            input_tokens: entry.usage.input_tokens,
+            output_tokens: entry.usage.output_tokens,
+            cost_usd: estimateCost(entry.provider, entry.model, entry.usage),
+            timestamp: new Date().toISOString()
+        };
+
+        const sessionRecords = this.records.get(entry.sessionId) || [];
+        sessionRecords.push(record);
+        this.records.set(entry.sessionId, sessionRecords);
+        this.lastActivity.set(entry.sessionId, Date.now());
+
+        if (userId) {
+            const sessions = this.userSessions.get(userId) || new Set<string>();
+            sessions.add(entry.sessionId);
+            this.userSessions.set(userId, sessions);
+        }
+
+        return record;
+    }
+
+    /**
+     * Check session and user budgets
+     */
+    check(sessionId?: string, userId?: string): BudgetCheck {
+        const checks: BudgetCheck[] = [];
+
+        if (sessionId) {
+            const totals = sumRecords(this.records.get(sessionId) || []);
+            checks.push(this.evaluate('session', totals, this.limits.sessionMaxTokens, this.limits.sessionMaxCostUsd));
+        }
+
+        const user = userScope(userId);
+        if (user) {
+            const totals = this.getUserTotals(user);
+            checks.push(this.evaluate('user', totals, this.limits.userMaxTokens, this.limits.userMaxCostUsd));
+        }
+
+        return checks.find(c => c.status === 'exceeded')
+            || checks.find(c => c.status === 'degrade')
+            || { status: 'ok' };
+    }
+
+    /**
+     * Throw when the session or user budget is exhausted; otherwise return the check
+     */
+    enforce(sessionId?: string, userId?: string): BudgetCheck {
+        const result = this.check(sessionId, userId);
+        if (result.status === 'exceeded') {
+            logger.warn('Budget exceeded', { sessionId, userId, reason: result.reason });
+            throw new BudgetExceededError(result.reason || 'Budget exceeded', result.scope || 'session', {
+                sessionId,
+                userId
+            });
+        }
+        return result;
+    }
+
+    /**
+     * Token cap for a single agent run (undefined = unlimited)
+     */
+    getAgentTokenLimit(): number | undefined {
+        return this.limits.agentMaxTokens;
+    }
+
+    getSessionUsage(sessionId: string): SessionUsageSummary {
+        const records = this.records.get(sessionId) || [];
+
+        return {
+            session_id: sessionId,
+            totals: sumRecords(records),
+            by_source: groupTotals(records, r => r.source),
+            by_model: groupTotals(records, r => `${r.provider}:${r.model}`),
+            limits: this.limits,
+            status: this.check(sessionId).status
+        };
+    }
+
+    getUserTotals(userId: string): UsageTotals {
+        const sessionIds = Array.from(this.userSessions.get(userId) || []);
+        const records = sessionIds
+            .flatMap(id => this.records.get(id) || [])
+            .filter(r => r.user_id === userId);
+        return sumRecords(records);
+    }
+
+    getLimits(): BudgetLimits {
+        return { ...this.limits };
+    }
+
+    resetSession(sessionId: string): void {
+        this.records.delete(sessionId);
+        this.lastActivity.delete(sessionId);
+    }
+
+    /**
+     * Drop sessions idle for longer than the TTL (at most once per PRUNE_INTERVAL_MS)
+     */
+    prune(now: number = Date.now()): void {
+        if (now - this.lastPrune < PRUNE_INTERVAL_MS) return;
+        this.lastPrune = now;
+
+        const expired = Array.from(this.lastActivity.entries())
+            .filter(([, lastSeen]) => now - lastSeen > this.sessionTtlMs)
+            .map(([sessionId]) => sessionId);
+        if (expired.length === 0) return;
+
+        expired.forEach(sessionId => this.resetSession(sessionId));
+        this.userSessions.forEach((sessions, userId) => {
+            expired.forEach(sessionId => sessions.delete(sessionId));
+            if (sessions.size === 0) this.userSessions.delete(userId);
+        });
+        logger.info('Expired session usage pruned', { sessions: expired.length });
+    }
+
+    private evaluate(
+        scope: 'session' | 'user',
+        totals: UsageTotals,
+        maxTokens?: number,
+        maxCostUsd?: number
+    ): BudgetCheck {
+        const ratios: Array<{ ratio: number; label: string }> = [];
+        if (maxTokens) {
+            ratios.push({ ratio: totals.total_tokens / maxTokens, label: `${totals.total_tokens}/${maxTokens} tokens` });
+        }
+        if (maxCostUsd) {
+            ratios.push({ ratio: totals.cost_usd / maxCostUsd, label: `$${totals.cost_usd.toFixed(4)}/$${maxCostUsd}` });
+        }
+
+        const worst = ratios.sort((a, b) => b.ratio - a.ratio)[0];
+        if (!worst) return { status: 'ok', scope };
+
+        if (worst.ratio >= 1) {
+            return { status: 'exceeded', scope, reason: `${scope} budget exceeded (${worst.label})` };
+        }
+        if (worst.ratio >= this.limits.degradeAt) {
+            return { status: 'degrade', scope, reason: `${scope} budget nearly used (${worst.label})` };
+        }
+        return { status: 'ok', scope };
+    }
+}
+
+/**
+ * Estimate USD cost of a call from the pricing table
+ */
+export function estimateCost(provider: string, model: string, usage: LLMUsage): number {
+    if (FREE_PROVIDERS.includes(provider)) return 0;
+
+    const pricing = MODEL_PRICING[model];
+    if (!pricing) {
+        // Local/unknown models (e.g. Ollama) are tracked by tokens only
+        return 0;
+    }
+
+    const [inputPrice, outputPrice] = pricing;
+    return (usage.input_tokens * inputPrice + usage.output_tokens * outputPrice) / 1_000_000;
+}
+
+function sumRecords(records: UsageRecord[]): UsageTotals {
+    return records.reduce<UsageTotals>((totals, r) => ({
+        calls: totals.calls + 1,
+        input_tokens: totals.input_tokens + r.input_tokens,
+        output_tokens: totals.output_tokens + r.output_tokens,
+        total_tokens: totals.total_tokens + r.input_tokens + r.output_tokens,
+        cost_usd: totals.cost_usd + r.cost_usd
+    }), { calls: 0, input_tokens: 0, output_tokens: 0, total_tokens: 0, cost_usd: 0 });
+}
+
+function groupTotals(records: UsageRecord[], keyOf: (r: UsageRecord) => string): Record<string, UsageTotals> {
+    const groups: Record<string, UsageRecord[]> = {};
+    records.forEach(r => {
+        const key = keyOf(r);
+        (groups[key] = groups[key] || []).push(r);
+    });
+
+    const totals: Record<string, UsageTotals> = {};
+    Object.entries(groups).forEach(([key, group]) => {
+        totals[key] = sumRecords(group);
+    });
+    return totals;
+}
+
+/**
+ * User id usage is pooled under, or undefined for anonymous callers
+ */
+function userScope(userId?: string): string | undefined {
+    return userId && ANONYMOUS_USER_IDS.indexOf(userId) === -1 ? userId : undefined;
+}
+
+function envNumber(name: string): number | undefined {
+    const value = process.env[name];
+    if (!value) return undefined;
+    const parsed = Number(value);
+    return Number.isFinite(parsed) && parsed > 0 ? parsed : undefined;
+}
+
+// Export singleton instance
+let budgetInstance: UsageBudgetService | null = null;
+
+export function getUsageBudget(): UsageBudgetService {
+    if (!budgetInstance) {
+        budgetInstance = new UsageBudgetService();
+    }
+    return budgetInstance;
+}
@@ -17,6 +17,14 @@ import {
 } from '../../utils/types';
 import { logger } from '../../utils/logger';
 import { v4 as uuidv4 } from 'uuid';
+import { getArtifactStorage } from '../../services/artifact-storage';
+import { exportEngine } from '../../../lib/services/export-engine';
+
+const FORMATS: Record<BrandedDocumentGeneratorInput['format'], { extension: string; contentType: string }> = {
+    pdf: { extension: 'pdf', contentType: 'application/pdf' },
+    docx: { extension: 'docx', contentType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' },
+    markdown: { extension: 'md', contentType: 'text/markdown; charset=utf-8' }
+};
 
 /**
  * MANDATORY DESIGN SYSTEM CONFIGURATION
@@ -141,28 +149,45 @@ async function execute(params: BrandedDocumentGeneratorInput): Promise<BrandedDo
             colors: enforcedBrandIdentity.colors
         });
 
-        // Simulate document generation latency
-        await new Promise(resolve => setTimeout(resolve, 2000));
-
         const documentId = uuidv4();
-        const timestamp = new Date().toISOString();
+        const title = `${params.business_name} - ${humanize(params.document_type)}`;
+        const markdown = contentToMarkdown(params.content, title);
+        const fileName = `${params.business_name.replace(/[^a-zA-Z0-9]+/g, '_')}_${humanize(params.document_type).replace(/\s+/g, '_')}`;
 
-        // In a real implementation, this would:
-        // 1. Gather HTML/Markdown templates with Poppins font embedded
-        // 2. Inject content with monochrome styling enforced
-        // 3. Use puppeteer/pandoc with custom CSS for Poppins + B&W
-        // 4. Generate PDF with embedded Poppins font
-        // 5. Validate output has no colored elements
-        // 6. Upload to cloud storage (S3/Supabase Storage)
+        let body: Buffer;
+        switch (params.format) {
+            case 'pdf':
+                body = await exportEngine.toPDF(markdown, { filename: fileName, title, author: params.business_name });
+                break;
+            case 'docx':
+                body = await exportEngine.toDOCX(markdown, { filename: fileName, title, author: params.business_name });
+                break;
+            case 'markdown':
+                body = Buffer.from(markdown, 'utf-8');
+                break;
+            default:
+                throw new Error(`Unsupported format: ${params.format}`);
+        }
+
+        const stored = await getArtifactStorage().save(body, {
+            document_type: `branded_${params.document_type}`,
+            file_name: `${fileName}.${FORMATS[params.format].extension}`,
+            content_type: FORMATS[params.format].contentType,
+            session_id: params.session_id
+        });
 
-        // For MVP, return a simulated success response
         const output: BrandedDocumentGeneratorOutput = {
             document_id: documentId,
-            document_url: `https://storage.oneasy.ai/documents/${documentId}.${params.format}`,
+            document_url: stored.url,
+            url_expires_at: stored.expires_at,
+            storage_key: stored.key,
+            version: stored.version,
+            checksum: stored.checksum,
             format: params.format,
-            page_count: Math.floor(Math.random() * 10) + 5,
+            size_bytes: stored.size_bytes,
+            page_count: params.format === 'pdf' ? countPdfPages(body) : undefined,
             status: 'generated',
-            generated_at: timestamp,
+            generated_at: stored.created_at,
             design_system: {
                 font: DESIGN_SYSTEM.typography.primaryFont,
                 color_mode: DESIGN_SYSTEM.colors.mode,
@@ -184,6 +209,50 @@ async function execute(params: BrandedDocumentGeneratorInput): Promise<BrandedDo
     }
 }
 
+/**
+ * Markdown for the document: strings are used as-is, objects become one section per key
+ */
+function contentToMarkdown(content: any, title: string): string {
+    if (typeof content === 'string') {
+        return content.trim().startsWith('#') ? content : `# ${title}\n\n${content}`;
+    }
+
+    const sections = content && typeof content === 'object' && !Array.isArray(content)
+        ? Object.keys(content).map(key => `## ${humanize(key)}\n\n${valueToMarkdown(content[key])}`)
+        : [valueToMarkdown(content)];
+    return [`# ${title}`, ...sections].join('\n\n') + '\n';
+}
+
+function valueToMarkdown(value: any, depth: number = 0): string {
+    const indent = '  '.repeat(depth);
+    if (value === null || value === undefined) return '';
+    if (Array.isArray(value)) {
+        return value.map(item => typeof item === 'object' && item !== null
+            ? `${indent}- ${Object.keys(item).map(key => `${humanize(key)}: ${formatScalar(item[key])}`).join('; ')}`
+            : `${indent}- ${formatScalar(item)}`).join('\n');
+    }
+    if (typeof value === 'object') {
+        return Object.keys(value).map(key => typeof value[key] === 'object' && value[key] !== null
+            ? `${indent}- **${humanize(key)}**\n${valueToMarkdown(value[key], depth + 1)}`
+            : `${indent}- **${humanize(key)}**: ${formatScalar(value[key])}`).join('\n');
+    }
+    return String(value);
+}
+
+function formatScalar(value: any): string {
+    if (typeof value === 'number') return value.toLocaleString('en-IN');
+    if (value && typeof value === 'object') return JSON.stringify(value);
+    return String(value ?? '');
+}
+
+function humanize(value: string): string {
+    return value.replace(/_/g, ' ').replace(/\b\w/g, char => char.toUpperCase());
+}
+
+function countPdfPages(pdf: Buffer): number {
+    return (pdf.toString('latin1').match(/\/Type\s*\/Page\b/g) || []).length;
+}
+
 /**
  * Get tool definition for Groq function calling
  */
@@ -192,7 +261,7 @@ function getToolDefinition(): ToolDefinition {
         type: 'function',
         function: {
             name: 'branded_document_generator',
-            description: 'Generate professional, branded PDF/Docx documents for business plans, financial models, and investor decks.',
+            description: 'Generate professional, branded PDF/Docx/Markdown documents for business plans, financial models, and investor decks. The file is stored with the session and returned as a signed, expiring download URL.',
             parameters: {
                 type: 'object',
                 properties: {
@@ -203,12 +272,16 @@ function getToolDefinition(): ToolDefinition {
                     },
                     content: {
                         type: 'object',
-                        description: 'Structured content to include in the document'
+                        description: 'Structured content to include in the document: sections keyed by heading (text, lists or nested objects)'
                     },
                     business_name: {
                         type: 'string',
                         description: 'Name of the business for branding'
                     },
+                    session_id: {
+                        type: 'string',
+                        description: 'Session to store the document under (listed by GET /api/artifacts)'
+                    },
                     brand_identity: {
                         type: 'object',
                         properties: {
@@ -1,116 +1,738 @@
 /**
  * Competitor Analysis Skill Implementation
- * Analyzes competitors and identifies competitive advantages
+ * Builds a feature/pricing comparison matrix from the competitors the user describes in
+ * Phase 6 (optionally enriched from saved competitor pricing/feature pages), places everyone
+ * on a positioning map over two user-chosen axes and derives strengths, weaknesses,
+ * advantages and threats from that data. Output is deterministic: the same answers always
+ * produce the same matrix and map, and nothing is estimated without data (no market shares
+ * unless the user supplied them).
  */
 
+import { promises as fs } from 'fs';
+import path from 'path';
 import {
     Skill,
     ToolDefinition,
     CompetitorAnalysisInput,
     CompetitorAnalysisOutput,
+    CompetitorComparisonRow,
+    CompetitorPage,
+    CompetitorPrice,
+    CompetitorProfile,
+    CompetitorProfileInput,
+    PositioningAxis,
+    PositioningMap,
     SkillExecutionError
 } from '../../utils/types';
 import { logger } from '../../utils/logger';
+import { getDocumentIngestion, ParsedDocument } from '../../services/document-ingestion';
+import { getMarketData } from '../../services/market-data';
+import { formatInr } from './investor_matching';
+import { PRICE_PERIODS } from './market_sizing';
+
+const AXES: Record<PositioningAxis, { label: string; low: string; high: string; aliases: string[] }> = {
+    price: { label: 'Price', low: 'Budget', high: 'Premium', aliases: ['price', 'pricing'] },
+    feature_breadth: { label: 'Feature breadth', low: 'Focused', high: 'Comprehensive', aliases: ['features', 'feature breadth'] },
+    ease_of_use: { label: 'Ease of use', low: 'Complex', high: 'Easy to use', aliases: ['ease of use', 'ease', 'ux', 'usability'] },
+    customer_service: { label: 'Customer service', low: 'Self-serve', high: 'High-touch', aliases: ['customer service', 'service', 'support'] },
+    technology: { label: 'Technology', low: 'Legacy', high: 'Cutting-edge', aliases: ['technology', 'tech'] },
+    specialization: { label: 'Specialization', low: 'Horizontal', high: 'Vertical specialist', aliases: ['specialization', 'specialisation', 'niche focus'] },
+    market_presence: { label: 'Market presence', low: 'Emerging', high: 'Established', aliases: ['market presence', 'presence', 'brand'] }
+};
+
+const DEFAULT_AXES: [PositioningAxis, PositioningAxis] = ['price', 'feature_breadth'];
+
+// competitor_weaknesses answer values -> how the founder can exploit them
+const WEAKNESS_LABELS: Record<string, string> = {
+    poor_service: 'poor customer service',
+    outdated_tech: 'outdated technology',
+    high_pricing: 'high pricing',
+    complicated_ux: 'complicated UX',
+    limited_features: 'limited features',
+    slow_innovation: 'slow innovation',
+    weak_presence: 'weak market presence',
+    bad_reviews: 'bad reviews',
+    no_mobile: 'no mobile app',
+    poor_integration: 'poor integration',
+    limited_language: 'limited language support'
+};
+
+// pricing_comparison answers -> expected position of your price against the competitor median
+const PRICING_CLAIMS: Record<string, { label: string; min: number; max: number }> = {
+    significantly_lower: { label: 'significantly lower', min: 0, max: 0.75 },
+    slightly_lower: { label: 'slightly lower', min: 0.6, max: 1 },
+    similar: { label: 'similar', min: 0.8, max: 1.25 },
+    slightly_higher: { label: 'slightly higher', min: 1, max: 1.6 },
+    significantly_higher: { label: 'significantly higher', min: 1.33, max: Infinity }
+};
+
+const BILLING_PERIODS: Record<string, CompetitorPrice['period']> = {
+    weekly: 'week',
+    monthly: 'month',
+    quarterly: 'quarter',
+    annual: 'year'
+};
+
+const PERIOD_NAMES: Record<string, CompetitorPrice['period']> = {
+    week: 'week',
+    month: 'month',
+    quarter: 'quarter',
+    year: 'year',
+    'one-time purchase': 'one_time'
+};
+
+const MONTHS_PER_PERIOD: Record<CompetitorPrice['period'], number> = {
+    week: 12 / 52,
+    month: 1,
+    quarter: 3,
+    year: 12,
+    one_time: 12 // Spread over a year for comparison
+};
+
+const PRICE_TOKEN = /(₹|\brs\.?|\binr|\$|\busd)\s*(\d[\d,]*(?:\.\d+)?)\s*(k|lakhs?|l|cr)?\b/i;
+const BARE_PRICE_TOKEN = /^(\d[\d,]*(?:\.\d+)?)\s*(k|lakhs?|l|cr)?\s*(?:\/|per\b)/i;
+const FREE_PLAN = /\bfree\s+(?:plan|tier|forever|edition|version)\b|\bfreemium\b|^free$/i;
+const RATING = /^(.+?)\s*[:=-]?\s*(\d(?:\.\d+)?)\s*\/\s*5$/;
+const MARKET_SHARE = /^market share\s*[:=-]?\s*(\d+(?:\.\d+)?)\s*%$/i;
+const URL_TOKEN = /(https?:\/\/\S+|(?:www\.)?[a-z0-9-]+(?:\.[a-z0-9-]+)*\.(?:com|in|io|co|ai|app|org|net|co\.in)(?:\/\S*)?)/i;
+const YOU_NAMES = new Set(['you', 'us', 'we', 'our product', 'ours', 'me']);
+const SLIDE_FEATURE_ROWS = 8;
+
+interface LoadedPage {
+    competitor: string;
+    document: ParsedDocument;
+}
+
+type CompetitorDetails = Omit<CompetitorProfileInput, 'name'> & { display_name: string };
+
+/**
+ * Read saved competitor pages (HTML or PDF) from disk; unreadable files become data gaps
+ */
+export async function loadCompetitorPages(pages: CompetitorPage[]): Promise<{ pages: LoadedPage[]; errors: string[] }> {
+    const loaded: LoadedPage[] = [];
+    const errors: string[] = [];
+
+    for (const page of pages) {
+        try {
+            const buffer = await fs.readFile(page.file_path);
+            const document = await getDocumentIngestion().parse(buffer, path.basename(page.file_path));
+            loaded.push({ competitor: page.competitor, document });
+        } catch (error) {
+            logger.warn('Competitor page could not be read', { file: page.file_path, error });
+            errors.push(`Could not read ${path.basename(page.file_path)} for ${page.competitor}`);
+        }
+    }
+
+    return { pages: loaded, errors };
+}
 
 /**
- * Analyze a single competitor (simplified - in production would use web scraping/APIs)
+ * Parse a quoted price ("₹749/month", "$29 per user/mo", "₹9,999 one-time", "free")
  */
-function analyzeCompetitor(name: string, industry: string): any {
-    // Simplified competitor analysis
-    // In production, this would fetch real data from web search, databases, etc.
+export function parsePrice(
+    value: string | number | undefined,
+    source: string,
+    fallbackPeriod: CompetitorPrice['period'] = 'month'
+): CompetitorPrice | undefined {
+    if (value === undefined || value === null || value === '') return undefined;
+    const usdInr = getMarketData().load().usd_inr;
+
+    if (typeof value === 'number') {
+        if (!Number.isFinite(value) || value < 0) return undefined;
+        return buildPrice(value, 'INR', fallbackPeriod, formatInr(value), source, usdInr);
+    }
+
+    const text = value.trim();
+    if (/^free\b/i.test(text) && !PRICE_TOKEN.test(text)) {
+        return buildPrice(0, 'INR', 'month', 'Free', source, usdInr);
+    }
+
+    let amount: number;
+    let currency: string;
+    let rest: string;
+    const match = text.match(PRICE_TOKEN);
+    if (match) {
+        currency = /\$|usd/i.test(match[1]) ? 'USD' : 'INR';
+        amount = Number(match[2].replace(/,/g, '')) * unitMultiplier(match[3]);
+        rest = text.slice((match.index || 0) + match[0].length);
+    } else {
+        // "749/month" without a currency symbol: questionnaire prices are in INR
+        const bare = text.match(BARE_PRICE_TOKEN);
+        if (!bare) return undefined;
+        currency = 'INR';
+        amount = Number(bare[1].replace(/,/g, '')) * unitMultiplier(bare[2]);
+        rest = text.slice(bare[1].length + (bare[2] || '').length);
+    }
+    if (!Number.isFinite(amount)) return undefined;
+
+    const periodMatch = PRICE_PERIODS.find(([pattern]) => pattern.test(rest.toLowerCase()));
+    const period = periodMatch ? PERIOD_NAMES[periodMatch[2]] : fallbackPeriod;
+    return buildPrice(amount, currency, period, text, source, usdInr);
+}
 
+function buildPrice(
+    amount: number,
+    currency: string,
+    period: CompetitorPrice['period'],
+    label: string,
+    source: string,
+    usdInr: number
+): CompetitorPrice {
+    const inr = currency === 'USD' ? amount * usdInr : amount;
     return {
-        name,
-        strengths: [
-            'Established brand recognition',
-            'Large customer base',
-            'Significant funding/resources'
-        ],
-        weaknesses: [
-            'Legacy technology stack',
-            'Slow to innovate',
-            'Poor customer service ratings'
-        ],
-        market_share: Math.random() * 20 + 5, // 5-25%
-        positioning: 'Market leader with traditional approach'
+        amount,
+        currency,
+        period,
+        monthly_inr: Math.round(inr / MONTHS_PER_PERIOD[period]),
+        label,
+        source
     };
 }
 
+function quoteLabel(price: CompetitorPrice): string {
+    const amount = price.currency === 'USD'
+        ? `$${price.amount.toLocaleString('en-US')}`
+        : `₹${price.amount.toLocaleString('en-IN')}`;
+    return price.period === 'one_time' ? `${amount} one-time` : `${amount}/${price.period}`;
+}
+
+function unitMultiplier(unit: string | undefined): number {
+    if (!unit) return 1;
+    const normalized = unit.toLowerCase();
+    if (normalized === 'k') return 1e3;
+    if (normalized === 'cr') return 1e7;
+    return 1e5; // l, lakh, lakhs
+}
+
+function featureKey(feature: string): string {
+    return feature
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, ' ')
+        .trim()
+        .split(' ')
+        .map(word => (word.length > 3 && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word))
+        .join(' ');
+}
+
+function nameKey(name: string): string {
+    return name.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+function containsPhrase(text: string, phrase: string): boolean {
+    const escaped = phrase.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/ /g, '\\s+');
+    return new RegExp(`\\b${escaped}\\b`, 'i').test(text);
+}
+
+function toArray(value: any): string[] {
+    if (Array.isArray(value)) return value.filter(v => typeof v === 'string');
+    return typeof value === 'string' && value ? [value] : [];
+}
+
+function round(value: number): number {
+    return Math.round(value * 10) / 10;
+}
+
 /**
- * Identify competitive advantages
+ * Split "Zoho Books - zoho.com/books" into a name and URL
  */
-function identifyCompetitiveAdvantages(
-    competitors: any[],
-    industry: string
-): string[] {
-    const advantages = [
-        'Modern, user-friendly interface',
-        'AI-powered automation features',
-        'Flexible pricing model',
-        'Superior customer support',
-        'Faster implementation time',
-        'Better integration capabilities',
-        'Focus on specific niche/vertical',
-        'More affordable for SMBs'
-    ];
+function parseCompetitorEntry(entry: string): { name: string; url?: string } {
+    const url = entry.match(URL_TOKEN);
+    const name = (url ? entry.replace(url[0], ' ') : entry)
+        .replace(/[()[\]]/g, ' ')
+        .replace(/\s[-–—:|]\s*$|^\s*[-–—:|]\s/g, ' ')
+        .replace(/\s+[-–—:|]\s*$/, '')
+        .replace(/\s+/g, ' ')
+        .trim();
+    return { name: name || (url ? url[0] : entry.trim()), url: url ? url[0] : undefined };
+}
+
+/**
+ * Parse one competitor_details line: "Zoho Books: ₹749/month; invoicing, GST filing, ease of use 4/5"
+ */
+function parseDetailsLine(line: string): { name: string; details: Omit<CompetitorProfileInput, 'name'> } | null {
+    const separator = line.match(/^\s*[-*•]?\s*([^:–—]+?)\s*(?::|\s[-–—]\s)\s*(.+)$/);
+    if (!separator) return null;
+
+    const details: Omit<CompetitorProfileInput, 'name'> = { features: [], ratings: {} };
+    // Commas followed by a digit are thousands separators ("₹1,499")
+    separator[2].split(/;|,(?!\d)|\n/).map(part => part.trim()).filter(Boolean).forEach(part => {
+        const share = part.match(MARKET_SHARE);
+        if (share) {
+            details.market_share_pct = Number(share[1]);
+            return;
+        }
+        const rating = part.match(RATING);
+        const axis = rating ? axisForLabel(rating[1]) : undefined;
+        if (rating && axis) {
+            details.ratings![axis] = Number(rating[2]);
+            return;
+        }
+        if (!details.price && (PRICE_TOKEN.test(part) || BARE_PRICE_TOKEN.test(part) || /^free$/i.test(part))) {
+            details.price = part;
+            return;
+        }
+        details.features!.push(part.replace(/^(?:has|offers|with)\s+/i, ''));
+    });
 
-    // Return 3-5 advantages
-    const count = Math.floor(Math.random() * 3) + 3;
-    return advantages.slice(0, count);
+    return { name: separator[1].trim(), details };
+}
+
+function axisForLabel(label: string): PositioningAxis | undefined {
+    const normalized = label.toLowerCase().replace(/[_-]+/g, ' ').trim();
+    return (Object.keys(AXES) as PositioningAxis[]).find(axis => AXES[axis].aliases.includes(normalized));
+}
+
+function resolveAxes(params: CompetitorAnalysisInput): [PositioningAxis, PositioningAxis] {
+    const requested = (params.axes || toArray(params.answers?.positioning_axes))
+        .filter((axis, index, list): axis is PositioningAxis => axis in AXES && list.indexOf(axis) === index);
+    const axes = [...requested, ...DEFAULT_AXES.filter(axis => !requested.includes(axis))];
+    return [axes[0], axes[1]];
 }
 
 /**
- * Identify competitive threats
+ * Your own column: explicit params first, then Phase 5/6 answers
  */
-function identifyThreats(competitors: any[]): string[] {
-    return [
-        'Established competitors with strong brand loyalty',
-        'Price competition from low-cost providers',
-        'Potential market consolidation',
-        'New entrants with innovative technology',
-        'Changing customer preferences'
+function resolveYou(params: CompetitorAnalysisInput, details: Map<string, CompetitorDetails>): CompetitorProfile {
+    const answers = params.answers || {};
+    const stated = Array.from(YOU_NAMES)
+        .map(name => details.get(name))
+        .find(entry => entry !== undefined);
+
+    const billingPeriod = BILLING_PERIODS[answers.billing_frequency] || 'month';
+    const priceText = params.your_price ?? answers.arpu ?? answers.target_price ?? stated?.price;
+    const price = parsePrice(priceText, params.your_price !== undefined ? 'input' : 'questionnaire', billingPeriod);
+
+    const features = [
+        ...(params.your_features || toArray(answers.key_features)),
+        ...(params.your_features ? [] : stated?.features || [])
     ];
+
+    return {
+        name: 'You',
+        is_you: true,
+        price,
+        free_plan: price?.monthly_inr === 0 || toArray(answers.revenue_model).includes('freemium'),
+        features,
+        ratings: { ...(stated?.ratings || {}), ...(params.your_ratings || {}) },
+        sources: [params.your_features || params.your_price !== undefined ? 'input' : 'questionnaire']
+    };
 }
 
 /**
- * Execute competitor analysis
+ * Merge explicit competitors, top_competitors and competitor_details answers by name
  */
-async function execute(params: CompetitorAnalysisInput): Promise<CompetitorAnalysisOutput> {
-    try {
-        logger.info('Executing competitor analysis', {
-            industry: params.industry,
-            competitor_count: params.competitors.length
+function resolveCompetitors(
+    params: CompetitorAnalysisInput,
+    details: Map<string, CompetitorDetails>
+): CompetitorProfile[] {
+    const answers = params.answers || {};
+    const profiles: CompetitorProfile[] = [];
+    const byKey = new Map<string, CompetitorProfile>();
+
+    const upsert = (entry: CompetitorProfileInput, source: string) => {
+        const key = nameKey(entry.name);
+        if (!key || YOU_NAMES.has(key)) return;
+
+        let profile = byKey.get(key);
+        if (!profile) {
+            profile = { name: entry.name, is_you: false, free_plan: false, features: [], ratings: {}, sources: [] };
+            byKey.set(key, profile);
+            profiles.push(profile);
+        }
+        if (entry.url && !profile.url) profile.url = entry.url;
+        if (entry.price !== undefined && !profile.price) profile.price = parsePrice(entry.price, source);
+        if (profile.price?.monthly_inr === 0) profile.free_plan = true;
+        (entry.features || []).forEach(feature => profile!.features.push(feature));
+        profile.ratings = { ...(entry.ratings || {}), ...profile.ratings };
+        if (entry.market_share_pct !== undefined && profile.market_share_pct === undefined) {
+            profile.market_share_pct = entry.market_share_pct;
+        }
+        if (!profile.sources.includes(source)) profile.sources.push(source);
+    };
+
+    (params.competitors || []).forEach(entry => {
+        upsert(typeof entry === 'string' ? parseCompetitorEntry(entry) : entry, 'input');
+    });
+    const listed = toArray(answers.top_competitors)
+        .flatMap(entry => entry.split(/\n/))
+        .map(entry => entry.trim())
+        .filter(Boolean);
+    listed.forEach(entry => upsert(parseCompetitorEntry(entry), 'questionnaire'));
+    details.forEach((entry, key) => {
+        // "Zoho" in the details matches "Zoho Books" in the list (and vice versa)
+        const existing = byKey.get(key) || profiles.find(profile => {
+            const listedKey = nameKey(profile.name);
+            return listedKey.startsWith(`${key} `) || key.startsWith(`${listedKey} `);
         });
+        upsert({ name: existing ? existing.name : entry.display_name, ...entry }, 'questionnaire');
+    });
 
-        // Analyze each competitor
-        const analyzedCompetitors = params.competitors.map(name =>
-            analyzeCompetitor(name, params.industry)
-        );
+    return profiles;
+}
+
+function parseDetails(params: CompetitorAnalysisInput): Map<string, CompetitorDetails> {
+    const details = new Map<string, CompetitorDetails>();
+    toArray(params.answers?.competitor_details)
+        .flatMap(text => text.split(/\n/))
+        .forEach(line => {
+            const parsed = parseDetailsLine(line);
+            if (parsed) details.set(nameKey(parsed.name), { display_name: parsed.name, ...parsed.details });
+        });
+    return details;
+}
+
+/**
+ * Fill gaps from a saved page: the lowest quoted price becomes the entry price and
+ * known features mentioned on the page are marked as offered
+ */
+function applyPage(profile: CompetitorProfile, document: ParsedDocument, vocabulary: Map<string, string>): void {
+    const source = document.file_name;
+    const lines = [
+        ...document.text.split('\n'),
+        ...document.tables.flatMap(table => table.map(row => row.join(' ')))
+    ];
+
+    const prices = lines
+        .filter(line => PRICE_TOKEN.test(line))
+        .map(line => parsePrice(line.slice(line.search(PRICE_TOKEN)), source))
+        .filter((price): price is CompetitorPrice => price !== undefined)
+        .sort((a, b) => a.monthly_inr - b.monthly_inr);
+    const paid = prices.filter(price => price.monthly_inr > 0);
+    if (!profile.price && paid.length > 0) {
+        profile.price = { ...paid[0], label: `from ${quoteLabel(paid[0])}` };
+    }
+    if (prices.length > paid.length || lines.some(line => FREE_PLAN.test(line.trim()))) profile.free_plan = true;
 
-        // If detailed analysis, add more information
-        if (params.analysis_depth === 'detailed') {
-            analyzedCompetitors.forEach(comp => {
-                comp.strengths.push('Strong partnerships', 'Proven track record');
-                comp.weaknesses.push('High pricing', 'Complex onboarding');
-            });
+    const known = new Set(profile.features.map(featureKey));
+    vocabulary.forEach((label, key) => {
+        if (!known.has(key) && containsPhrase(document.text, key)) {
+            profile.features.push(label);
+            known.add(key);
         }
+    });
+
+    if (!profile.sources.includes(source)) profile.sources.push(source);
+}
 
-        const competitiveAdvantages = identifyCompetitiveAdvantages(
-            analyzedCompetitors,
-            params.industry
+function dedupeFeatures(profile: CompetitorProfile, vocabulary: Map<string, string>): void {
+    const seen = new Set<string>();
+    profile.features = profile.features
+        .map(feature => featureKey(feature))
+        .filter(key => key && !seen.has(key) && seen.add(key))
+        .map(key => vocabulary.get(key) || key);
+}
+
+/**
+ * Score one axis for everyone on it (0-100); null where there is no data
+ */
+function axisScores(axis: PositioningAxis, profiles: CompetitorProfile[], hasFeatureData: boolean[], featureCount: number): Array<number | null> {
+    if (axis === 'price') {
+        const logs = profiles.map(profile => (profile.price ? Math.log10(profile.price.monthly_inr + 1) : null));
+        const known = logs.filter((value): value is number => value !== null);
+        const min = Math.min(...known);
+        const max = Math.max(...known);
+        return logs.map(value => (value === null ? null : max > min ? round(((value - min) / (max - min)) * 100) : 50));
+    }
+    if (axis === 'feature_breadth') {
+        return profiles.map((profile, index) =>
+            hasFeatureData[index] && featureCount > 0 ? round((profile.features.length / featureCount) * 100) : null
         );
+    }
+    return profiles.map(profile => {
+        const rating = profile.ratings[axis];
+        if (rating === undefined || !Number.isFinite(rating)) return null;
+        return round(((Math.min(5, Math.max(1, rating)) - 1) / 4) * 100);
+    });
+}
+
+function axisMethod(axis: PositioningAxis): string {
+    if (axis === 'price') return 'Price: monthly price in INR on a log scale, cheapest = 0, most expensive = 100';
+    if (axis === 'feature_breadth') return 'Feature breadth: share of the features in the comparison matrix that are offered';
+    return `${AXES[axis].label}: user rating 1-5 mapped to 0-100`;
+}
+
+function median(values: number[]): number {
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+function monthlyLabel(price: CompetitorPrice): string {
+    return price.monthly_inr === 0 ? 'free' : `${formatInr(price.monthly_inr)}/month`;
+}
+
+function joinNames(names: string[]): string {
+    return names.length > 3 ? `${names.slice(0, 3).join(', ')} +${names.length - 3} more` : names.join(', ');
+}
+
+/**
+ * Build the comparison matrix, positioning map and findings
+ */
+export function analyzeCompetitors(params: CompetitorAnalysisInput, pages: LoadedPage[] = [], pageErrors: string[] = []): CompetitorAnalysisOutput {
+    const answers = params.answers || {};
+    const details = parseDetails(params);
+    const you = resolveYou(params, details);
+    const competitors = resolveCompetitors(params, details);
+    const dataGaps: string[] = [...pageErrors];
+
+    // Feature vocabulary: everything typed by the user, your own features first
+    const vocabulary = new Map<string, string>();
+    [you, ...competitors].forEach(profile => profile.features.forEach(feature => {
+        const key = featureKey(feature);
+        if (key && !vocabulary.has(key)) vocabulary.set(key, feature.trim());
+    }));
 
-        const threats = identifyThreats(analyzedCompetitors);
+    pages.forEach(page => {
+        const profile = competitors.find(competitor => nameKey(competitor.name) === nameKey(page.competitor));
+        if (!profile) {
+            dataGaps.push(`${page.document.file_name} was uploaded for "${page.competitor}", which is not in the competitor list`);
+            return;
+        }
+        applyPage(profile, page.document, vocabulary);
+    });
+    [you, ...competitors].forEach(profile => dedupeFeatures(profile, vocabulary));
+
+    const columns = [you, ...competitors];
+    const hasFeatureData = columns.map(profile => profile.features.length > 0);
+    const featureKeys = Array.from(vocabulary.keys());
+
+    const rows: CompetitorComparisonRow[] = featureKeys.map(key => {
+        const label = vocabulary.get(key)!;
+        return {
+            feature: label,
+            values: columns.map((profile, index) => (hasFeatureData[index] ? profile.features.includes(label) : null))
+        };
+    });
+
+    // Positioning map
+    const axes = resolveAxes(params);
+    const scores = axes.map(axis => axisScores(axis, columns, hasFeatureData, featureKeys.length));
+    const positioning: PositioningMap = {
+        x_axis: { id: axes[0], label: AXES[axes[0]].label, low: AXES[axes[0]].low, high: AXES[axes[0]].high },
+        y_axis: { id: axes[1], label: AXES[axes[1]].label, low: AXES[axes[1]].low, high: AXES[axes[1]].high },
+        points: [],
+        unplaced: [],
+        method: axes.map(axisMethod)
+    };
+    columns.forEach((profile, index) => {
+        const x = scores[0][index];
+        const y = scores[1][index];
+        if (x !== null && y !== null) {
+            positioning.points.push({ name: profile.name, is_you: profile.is_you, x, y });
+        } else {
+            positioning.unplaced.push({ name: profile.name, missing: axes.filter((_, axisIndex) => scores[axisIndex][index] === null) });
+        }
+    });
+
+    // Findings
+    const pricedCompetitors = competitors.filter(profile => profile.price);
+    const competitorMedian = pricedCompetitors.length > 0 ? median(pricedCompetitors.map(profile => profile.price!.monthly_inr)) : undefined;
+    const maxCoverage = Math.max(0, ...competitors.map(profile => profile.features.length));
+    const allPrices = columns.filter(profile => profile.price).map(profile => profile.price!.monthly_inr);
+    const overallMedian = allPrices.length > 0 ? median(allPrices) : undefined;
+
+    const analyzed = competitors.map((profile, index) => {
+        const strengths: string[] = [];
+        const weaknesses: string[] = [];
+        const column = index + 1;
+
+        if (hasFeatureData[column] && hasFeatureData[0]) {
+            const onlyThem = profile.features.filter(feature => !you.features.includes(feature));
+            const onlyYou = you.features.filter(feature => !profile.features.includes(feature));
+            if (onlyThem.length > 0) strengths.push(`Offers ${onlyThem.length} feature${onlyThem.length === 1 ? '' : 's'} you don't: ${onlyThem.join(', ')}`);
+            if (onlyYou.length > 0) weaknesses.push(`Lacks ${onlyYou.join(', ')} (you offer ${onlyYou.length === 1 ? 'it' : 'them'})`);
+        } else if (hasFeatureData[column]) {
+            strengths.push(`Offers ${profile.features.join(', ')}`);
+        }
+        if (hasFeatureData[column] && competitors.length > 1 && profile.features.length === maxCoverage
+            && competitors.filter(other => other.features.length === maxCoverage).length === 1) {
+            strengths.push('Broadest feature set among competitors compared');
+        }
+
+        if (profile.price && you.price && you.price.monthly_inr > 0) {
+            const ratio = profile.price.monthly_inr / you.price.monthly_inr;
+            if (ratio < 0.9) strengths.push(`Cheaper: ${monthlyLabel(profile.price)} vs your ${monthlyLabel(you.price)}`);
+            if (ratio > 1.1) weaknesses.push(`Pricier: ${monthlyLabel(profile.price)} vs your ${monthlyLabel(you.price)}`);
+        }
+        if (profile.free_plan) strengths.push('Free plan lowers the barrier to try it');
+
+        (Object.keys(profile.ratings) as PositioningAxis[]).forEach(axis => {
+            const rating = profile.ratings[axis]!;
+            if (rating >= 4) strengths.push(`Rated ${rating}/5 on ${AXES[axis].label.toLowerCase()}`);
+            if (rating <= 2) weaknesses.push(`Rated ${rating}/5 on ${AXES[axis].label.toLowerCase()}`);
+        });
+
+        if (!profile.price) dataGaps.push(`No pricing for ${profile.name}: add it to competitor details or upload their pricing page`);
+        if (!hasFeatureData[column]) dataGaps.push(`No features listed for ${profile.name}`);
 
-        const output: CompetitorAnalysisOutput = {
-            competitors: analyzedCompetitors,
-            competitive_advantages: competitiveAdvantages,
-            threats
+        return {
+            name: profile.name,
+            url: profile.url,
+            strengths,
+            weaknesses,
+            market_share: profile.market_share_pct,
+            positioning: describePosition(profile, overallMedian, hasFeatureData[column] ? profile.features.length / Math.max(1, featureKeys.length) : undefined),
+            price: profile.price,
+            features: profile.features,
+            sources: profile.sources
         };
+    });
+
+    const advantages: string[] = [];
+    const threats: string[] = [];
+
+    const comparable = competitors.filter((_, index) => hasFeatureData[index + 1]);
+    if (hasFeatureData[0] && comparable.length > 0) {
+        const unique = you.features.filter(feature => comparable.every(profile => !profile.features.includes(feature)));
+        if (unique.length > 0) advantages.push(`Only you offer: ${unique.join(', ')}`);
+        if (you.features.length > maxCoverage) advantages.push(`Broadest feature set: ${you.features.length} of ${featureKeys.length} features compared`);
+
+        const missing = rows
+            .filter(row => row.values[0] === false && row.values.slice(1).some(Boolean))
+            .map(row => `${row.feature} (${joinNames(competitors.filter((_, index) => row.values[index + 1]).map(profile => profile.name))})`);
+        if (missing.length > 0) threats.push(`Competitors offer features you don't: ${missing.join('; ')}`);
+    }
+
+    if (you.price && competitorMedian !== undefined) {
+        const cheaperThan = pricedCompetitors.filter(profile => profile.price!.monthly_inr > you.price!.monthly_inr);
+        if (cheaperThan.length === pricedCompetitors.length) {
+            advantages.push(`Lowest price among ${pricedCompetitors.length + 1} compared: ${monthlyLabel(you.price)} vs competitor median ${formatInr(competitorMedian)}/month`);
+        } else if (cheaperThan.length > 0) {
+            advantages.push(`Cheaper than ${cheaperThan.length} of ${pricedCompetitors.length} priced competitors (${joinNames(cheaperThan.map(profile => profile.name))})`);
+        }
+
+        const undercut = pricedCompetitors.filter(profile => profile.price!.monthly_inr < you.price!.monthly_inr * 0.9);
+        undercut.forEach(profile => threats.push(`${profile.name} undercuts your price: ${monthlyLabel(profile.price!)} vs your ${monthlyLabel(you.price!)}`));
+
+        const claim = PRICING_CLAIMS[answers.pricing_comparison];
+        if (claim && competitorMedian > 0) {
+            const ratio = you.price.monthly_inr / competitorMedian;
+            if (ratio < claim.min || ratio > claim.max) {
+                dataGaps.push(`You described your pricing as ${claim.label} than competitors, but the prices entered put you at ${round(ratio)}x the competitor median`);
+            }
+        }
+    }
+    if (!you.price) dataGaps.push('No price for your own offering (target_price or arpu)');
+    if (!hasFeatureData[0]) dataGaps.push('No features listed for your own product (key_features)');
+
+    const freePlans = competitors.filter(profile => profile.free_plan);
+    if (freePlans.length > 0 && !you.free_plan) threats.push(`Free plans from ${joinNames(freePlans.map(profile => profile.name))} set a low bar for trying alternatives`);
+
+    axes.filter(axis => axis !== 'price' && axis !== 'feature_breadth').forEach(axis => {
+        const yours = you.ratings[axis];
+        const theirs = competitors.map(profile => profile.ratings[axis]).filter((rating): rating is number => rating !== undefined);
+        if (yours !== undefined && theirs.length > 0 && theirs.every(rating => yours > rating)) {
+            advantages.push(`Highest rated on ${AXES[axis].label.toLowerCase()} (${yours}/5)`);
+        }
+    });
+
+    if (typeof answers.competitive_advantage === 'string' && answers.competitive_advantage.trim()) {
+        advantages.push(`Stated advantage: ${answers.competitive_advantage.trim()}`);
+    }
+    toArray(answers.competitor_weaknesses).forEach(weakness => {
+        if (WEAKNESS_LABELS[weakness]) advantages.push(`Exploit competitor weakness: ${WEAKNESS_LABELS[weakness]}`);
+    });
+
+    competitors
+        .filter(profile => profile.market_share_pct !== undefined && profile.market_share_pct >= 30)
+        .forEach(profile => threats.push(`${profile.name} holds ${profile.market_share_pct}% market share (user-supplied)`));
+    if (toArray(answers.barriers_to_entry).includes('few_barriers')) {
+        threats.push('Few barriers to entry: expect new entrants to copy a successful offer');
+    }
+    if (typeof answers.indirect_competitors === 'string' && answers.indirect_competitors.trim()) {
+        threats.push(`Substitutes: ${answers.indirect_competitors.trim()}`);
+    }
+    if (competitors.length === 0) dataGaps.push('No competitors listed (top_competitors)');
+
+    return {
+        competitors: analyzed,
+        competitive_advantages: advantages,
+        threats,
+        comparison_matrix: {
+            columns: columns.map(profile => profile.name),
+            pricing: columns.map(profile => profile.price || null),
+            rows
+        },
+        positioning_map: positioning,
+        slide: buildSlide(columns, rows, params.analysis_depth === 'detailed' ? rows.length : SLIDE_FEATURE_ROWS, pages),
+        data_gaps: dataGaps
+    };
+}
+
+function describePosition(profile: CompetitorProfile, medianPrice: number | undefined, coverage: number | undefined): string {
+    const parts: string[] = [];
+    if (profile.price && medianPrice !== undefined) {
+        if (profile.price.monthly_inr === 0) parts.push('Free');
+        else if (profile.price.monthly_inr > medianPrice * 1.25) parts.push('Premium-priced');
+        else if (profile.price.monthly_inr < medianPrice * 0.8) parts.push('Budget');
+        else parts.push('Mid-priced');
+    }
+    if (coverage !== undefined) {
+        if (coverage >= 2 / 3) parts.push('broad feature set');
+        else if (coverage <= 1 / 3) parts.push('focused feature set');
+        else parts.push('mid-range feature set');
+    }
+    if (parts.length === 0) return 'Not enough data to position (add pricing or features)';
+    if (profile.free_plan && profile.price?.monthly_inr !== 0) parts.push('free plan');
+    const text = parts.join(', ');
+    return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+/**
+ * Competitive landscape table for a slide: price row, then the features that differ
+ * between columns before the ones everybody has
+ */
+function buildSlide(
+    columns: CompetitorProfile[],
+    rows: CompetitorComparisonRow[],
+    maxRows: number,
+    pages: LoadedPage[]
+): CompetitorAnalysisOutput['slide'] {
+    const differentiating = rows.filter(row => new Set(row.values.filter(value => value !== null)).size > 1);
+    const shared = rows.filter(row => !differentiating.includes(row));
+    const featureRows = [...differentiating, ...shared].slice(0, maxRows).map(row => [
+        row.feature,
+        ...row.values.map(value => (value === null ? '–' : value ? '✓' : '✗'))
+    ]);
+
+    const sources = ['questionnaire answers'];
+    if (pages.length > 0) sources.push(`saved pages (${pages.map(page => page.document.file_name).join(', ')})`);
+    const usdInr = getMarketData().load().usd_inr;
+
+    return {
+        title: 'Competitive Landscape',
+        headers: ['', ...columns.map(profile => profile.name)],
+        rows: [
+            ['Price', ...columns.map(profile => (profile.price ? monthlyLabel(profile.price) : '–'))],
+            ...featureRows
+        ],
+        footnote: `Sources: ${sources.join('; ')}. Prices normalized to INR per month (USD at ₹${usdInr}). – = no data.${
+            rows.length > featureRows.length ? ` ${rows.length - featureRows.length} more features in the full matrix.` : ''
+        }`
+    };
+}
+
+/**
+ * Execute competitor analysis
+ */
+async function execute(params: CompetitorAnalysisInput): Promise<CompetitorAnalysisOutput> {
+    try {
+        logger.info('Executing competitor analysis', {
+            industry: params.industry,
+            competitor_count: params.competitors?.length,
+            pages: params.pages?.length || 0
+        });
+
+        const loaded = params.pages && params.pages.length > 0
+            ? await loadCompetitorPages(params.pages)
+            : { pages: [], errors: [] };
+        const output = analyzeCompetitors(params, loaded.pages, loaded.errors);
 
         logger.info('Competitor analysis complete', {
-            competitors_analyzed: analyzedCompetitors.length,
-            advantages_identified: competitiveAdvantages.length
+            competitors_analyzed: output.competitors.length,
+            features_compared: output.comparison_matrix.rows.length,
+            placed: output.positioning_map.points.length,
+            data_gaps: output.data_gaps.length
         });
 
         return output;
@@ -128,26 +750,45 @@ function getToolDefinition(): ToolDefinition {
         type: 'function',
         function: {
             name: 'competitor_analysis',
-            description: 'Analyze competitors, identify their strengths and weaknesses, and determine competitive advantages.',
+            description: 'Compare the business with its competitors from user-provided data: feature/pricing comparison matrix, positioning map on two chosen axes, data-derived strengths, weaknesses, advantages and threats, and a slide-ready table. Never estimates market share.',
             parameters: {
                 type: 'object',
                 properties: {
+                    answers: {
+                        type: 'object',
+                        description: 'Questionnaire answers (top_competitors, competitor_details, key_features, target_price, arpu, competitor_weaknesses, positioning_axes, ...)'
+                    },
                     industry: {
                         type: 'string',
                         description: 'Industry or market category'
                     },
                     competitors: {
                         type: 'array',
-                        items: { type: 'string' },
-                        description: 'List of competitor names to analyze'
+                        items: {
+                            type: 'object',
+                            properties: {
+                                name: { type: 'string' },
+                                url: { type: 'string' },
+                                price: { type: 'string', description: 'e.g. "₹749/month", "$29 per user/mo", "free"' },
+                                features: { type: 'array', items: { type: 'string' } },
+                                ratings: { type: 'object', description: 'Axis -> rating 1-5' }
+                            },
+                            required: ['name']
+                        },
+                        description: 'Competitors with whatever is known about them'
+                    },
+                    axes: {
+                        type: 'array',
+                        items: { type: 'string', enum: Object.keys(AXES) },
+                        description: 'Two positioning map axes (default price and feature_breadth)'
                     },
                     analysis_depth: {
                         type: 'string',
                         enum: ['basic', 'detailed'],
-                        description: 'Depth of analysis required'
+                        description: 'detailed puts every compared feature on the slide table'
                     }
                 },
-                required: ['industry', 'competitors', 'analysis_depth']
+                required: []
             }
         }
     };
@@ -156,7 +797,7 @@ function getToolDefinition(): ToolDefinition {
 export const competitorAnalysisSkill: Skill = {
     id: 'competitor_analysis',
     name: 'Competitor Analysis',
-    description: 'Analyze competitors and identify competitive positioning',
+    description: 'Compare features, pricing and positioning against user-provided competitor data',
     execute,
     getToolDefinition
 };
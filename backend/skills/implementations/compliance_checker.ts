@@ -1,6 +1,9 @@
 /**
  * Compliance Checker Skill Implementation
- * Checks legal and regulatory requirements
+ * Builds a compliance profile (country, state, entity type, turnover, headcount, activities,
+ * sectors) from the session's answers and evaluates the jurisdiction / state / sector rule packs
+ * in backend/data/compliance against it: a checklist with filing frequencies, costs and
+ * penalties, and a dated calendar of filings that can be exported as ICS.
  */
 
 import {
@@ -8,131 +11,320 @@ import {
     ToolDefinition,
     ComplianceCheckInput,
     ComplianceCheckOutput,
+    ComplianceChecklistItem,
+    ComplianceProfile,
     SkillExecutionError
 } from '../../utils/types';
 import { logger } from '../../utils/logger';
+import { getComplianceRules, ComplianceRulesService } from '../../services/compliance-rules';
+import { parseInrAmount } from './investor_matching';
 
-/**
- * Compliance requirements database (simplified)
- */
-const COMPLIANCE_DATA: Record<string, any> = {
-    'india': {
-        'saas': {
-            licenses: ['GST Registration', 'Shop and Establishment License', 'Professional Tax Registration'],
-            permits: ['Digital Signature Certificate', 'Import Export Code (if applicable)'],
-            risks: ['Data localization requirements', 'GST compliance', 'Payment gateway regulations']
-        },
-        'ecommerce': {
-            licenses: ['GST Registration', 'FSSAI License (for food)', 'Shop and Establishment License'],
-            permits: ['Import Export Code', 'BIS Certification (for electronics)'],
-            risks: ['Consumer protection laws', 'Return/refund policies', 'Product liability']
-        },
-        'fintech': {
-            licenses: ['RBI License/NBFC Registration', 'GST Registration', 'PCI DSS Compliance'],
-            permits: ['Digital Lending License', 'Payment Aggregator License'],
-            risks: ['RBI regulations', 'KYC/AML compliance', 'Data security requirements']
-        },
-        'default': {
-            licenses: ['GST Registration', 'Shop and Establishment License', 'Professional Tax Registration'],
-            permits: ['Trade License', 'Fire Safety Certificate'],
-            risks: ['Tax compliance', 'Labor laws', 'Environmental regulations']
-        }
+const DEFAULT_ENTITY_TYPE = 'pvt_ltd';
+const DEFAULT_COUNTRY = 'IN';
+
+const ENTITY_TYPES = ['not_registered', 'sole_proprietorship', 'partnership', 'llp', 'pvt_ltd', 'opc', 'public_ltd'];
+
+// Free-text business_type -> legal_entity values (first match wins)
+const ENTITY_PATTERNS: Array<[RegExp, string]> = [
+    [/\bopc\b|one person/, 'opc'],
+    [/\bll[pc]\b|limited liability/, 'llp'],
+    [/public/, 'public_ltd'],
+    [/pvt|private|\bltd\b|limited|corporation|\bcorp\b|\binc\b|company/, 'pvt_ltd'],
+    [/partnership|\bfirm\b/, 'partnership'],
+    [/sole|proprietor/, 'sole_proprietorship'],
+    [/unregistered|not registered/, 'not_registered']
+];
+
+// team_size_year1 / team_size_current answers -> employees (upper end of the range, so thresholds crossed during the year show up)
+const HEADCOUNT: Record<string, number> = {
+    just_me: 0,
+    solo: 0,
+    '2-3': 3,
+    '2-5': 5,
+    '4-7': 7,
+    '6-10': 10,
+    '8-15': 15,
+    '11-25': 25,
+    '16-25': 25,
+    '25+': 26,
+    '26-50': 50,
+    '50+': 51
+};
+
+// current_revenue answer -> lower bound of the bracket (INR)
+const REVENUE_BRACKETS: Record<string, number> = {
+    pre_revenue: 0,
+    '<5l': 0,
+    '5-10l': 500000,
+    '10-25l': 1000000,
+    '25-50l': 2500000,
+    '50l-1cr': 5000000,
+    '1-5cr': 10000000,
+    '5-10cr': 50000000,
+    '10cr+': 100000000
+};
+
+// Answer values -> rule pack activities
+const ACTIVITY_ANSWERS: Record<string, Record<string, string[]>> = {
+    licenses_needed: {
+        gst: ['voluntary_gst'],
+        import_export: ['import_export'],
+        drug: ['pharmacy'],
+        rbi: ['payments']
     },
-    'usa': {
-        'saas': {
-            licenses: ['Business License', 'EIN (Employer Identification Number)', 'State Registration'],
-            permits: ['Sales Tax Permit (if applicable)'],
-            risks: ['GDPR/CCPA compliance', 'SOC 2 certification', 'Data privacy laws']
-        },
-        'default': {
-            licenses: ['Business License', 'EIN', 'State Business Registration'],
-            permits: ['Zoning Permit', 'Health Permit (if applicable)'],
-            risks: ['Tax compliance', 'Employment laws', 'Industry-specific regulations']
-        }
+    regulations: {
+        data_privacy: ['personal_data']
     },
-    'default': {
-        'default': {
-            licenses: ['Business Registration', 'Tax Registration', 'Operating License'],
-            permits: ['Local Business Permit'],
-            risks: ['Tax compliance', 'Employment regulations', 'Industry standards']
-        }
+    key_vendors: {
+        payment: ['online_payments']
+    },
+    manufacturing_model: {
+        in_house: ['manufacturing', 'packaged_goods'],
+        contract: ['packaged_goods'],
+        white_label: ['packaged_goods']
+    },
+    business_model_type: {
+        ecommerce: ['ecommerce'],
+        marketplace: ['ecommerce'],
+        subscription: ['ecommerce']
+    },
+    employment_model: {
+        contractors_only: ['contractors'],
+        starting_contractors: ['contractors'],
+        mix: ['contractors']
+    },
+    work_arrangement: {
+        remote: ['home_based'],
+        home: ['home_based']
     }
 };
 
+// Keywords in the business description -> activities that no multiple-choice answer captures
+const ACTIVITY_KEYWORDS: Array<[RegExp, string]> = [
+    [/\b(lending|loans?|credit line|bnpl)\b/, 'lending'],
+    [/\bpayment (gateway|aggregator|aggregation)\b/, 'payment_aggregation'],
+    [/\b(upi app|digital wallet|prepaid wallet|remittances?)\b/, 'payments'],
+    [/\bcrypto|\bvda\b/, 'crypto'],
+    [/\b(clinic|diagnostic|hospital|lab tests?)\b/, 'clinic'],
+    [/\b(pharmacy|medicines?|chemist)\b/, 'pharmacy'],
+    [/\b(telemedicine|teleconsult\w*|online consultations?)\b/, 'telemedicine'],
+    [/\bmedical devices?\b/, 'medical_device'],
+    [/\b(export|exports|exporting)\b/, 'export'],
+    [/\b(import|imports|importing|imported)\b/, 'import_export']
+];
+
+// Industry answers -> sector packs
+const SECTOR_ANSWERS: Record<string, string> = {
+    finance: 'fintech',
+    fintech: 'fintech',
+    food: 'food',
+    food_delivery: 'food',
+    healthcare: 'healthcare',
+    health: 'healthcare',
+    healthtech: 'healthcare',
+    ecommerce: 'ecommerce',
+    retail: 'ecommerce',
+    marketplace: 'ecommerce'
+};
+
+const DESCRIPTION_FIELDS = ['business_idea_detail', 'current_products', 'problem_to_solve', 'customer_problem'];
+
+function toArray(value: any): string[] {
+    if (Array.isArray(value)) return value.filter(v => typeof v === 'string');
+    return typeof value === 'string' && value ? [value] : [];
+}
+
+function resolveEntityType(value: string | undefined): string | undefined {
+    if (!value) return undefined;
+    const key = value.toLowerCase().trim();
+    if (ENTITY_TYPES.includes(key)) return key;
+    return ENTITY_PATTERNS.find(([pattern]) => pattern.test(key))?.[1];
+}
+
 /**
- * Get compliance requirements
+ * Build the compliance profile from explicit params, falling back to questionnaire answers
  */
-function getComplianceRequirements(
-    location: string,
-    industry: string,
-    businessType: string
-): any {
-    const locationKey = location.toLowerCase();
-    const industryKey = industry.toLowerCase().replace(/\s+/g, '_');
-
-    const locationData = COMPLIANCE_DATA[locationKey] || COMPLIANCE_DATA['default'];
-    const requirements = locationData[industryKey] || locationData['default'];
-
-    return requirements;
+export function buildComplianceProfile(
+    params: ComplianceCheckInput,
+    rules: ComplianceRulesService = getComplianceRules()
+): ComplianceProfile {
+    const answers = params.answers || {};
+    const assumptions: string[] = [];
+
+    const location = params.location || answers.primary_market;
+    const jurisdiction = rules.resolveJurisdiction(location);
+    if (!jurisdiction) {
+        assumptions.push(location
+            ? `No rule pack matches "${location}"; assumed India`
+            : 'Location not answered; assumed India');
+    }
+
+    let entityType = resolveEntityType(params.business_type) || resolveEntityType(answers.legal_entity);
+    if (!entityType) {
+        entityType = DEFAULT_ENTITY_TYPE;
+        assumptions.push('Legal entity not chosen yet; assumed a private limited company');
+    }
+
+    const targetRevenue = parseInrAmount(answers.revenue_target_year1);
+    const currentRevenue = REVENUE_BRACKETS[answers.current_revenue];
+    const explicitTurnover = parseInrAmount(params.turnover);
+    const turnover = explicitTurnover ?? (
+        targetRevenue !== undefined || currentRevenue !== undefined
+            ? Math.max(targetRevenue ?? 0, currentRevenue ?? 0)
+            : undefined
+    );
+    if (turnover === undefined) {
+        assumptions.push('Turnover unknown; turnover-based rules (GST, tax audit) are not applied');
+    } else if (explicitTurnover === undefined && targetRevenue !== undefined) {
+        assumptions.push('Turnover taken from the Year 1 revenue target');
+    }
+
+    let headcount = params.headcount;
+    if (headcount === undefined) {
+        headcount = HEADCOUNT[answers.team_size_year1] ?? HEADCOUNT[answers.team_size_current];
+        if (answers.employment_model === 'contractors_only') headcount = 0;
+        if (headcount !== undefined) assumptions.push('Headcount taken from the upper end of the team size range');
+    }
+
+    const activities = new Set<string>(params.activities || []);
+    Object.keys(ACTIVITY_ANSWERS).forEach(field => {
+        toArray(answers[field]).forEach(value => {
+            (ACTIVITY_ANSWERS[field][value] || []).forEach(activity => activities.add(activity));
+        });
+    });
+    if (['b2c', 'b2b2c', 'hybrid'].includes(answers.customer_type)) activities.add('personal_data');
+
+    const description = DESCRIPTION_FIELDS.map(field => answers[field]).filter(value => typeof value === 'string').join(' ').toLowerCase();
+    ACTIVITY_KEYWORDS.forEach(([pattern, activity]) => {
+        if (pattern.test(description)) activities.add(activity);
+    });
+
+    const sectors = new Set<string>();
+    [
+        ...toArray(params.industry),
+        ...toArray(answers.target_industries),
+        ...toArray(answers.existing_industry),
+        ...toArray(answers.business_model_type)
+    ].forEach(value => {
+        const sector = SECTOR_ANSWERS[value.toLowerCase().replace(/\s+/g, '_')];
+        if (sector) sectors.add(sector);
+    });
+    toArray(answers.licenses_needed).forEach(value => {
+        if (value === 'fssai') sectors.add('food');
+        if (value === 'drug') sectors.add('healthcare');
+        if (value === 'rbi') sectors.add('fintech');
+    });
+    toArray(answers.regulations).forEach(value => {
+        if (value === 'financial') sectors.add('fintech');
+        if (value === 'healthcare') sectors.add('healthcare');
+    });
+    if (activities.has('ecommerce')) sectors.add('ecommerce');
+
+    return {
+        country: jurisdiction?.country || DEFAULT_COUNTRY,
+        state: jurisdiction?.state,
+        entity_type: entityType,
+        turnover,
+        headcount,
+        activities: Array.from(activities),
+        sectors: Array.from(sectors),
+        assumptions
+    };
 }
 
 /**
  * Generate recommendations
  */
-function generateRecommendations(
-    requirements: any,
-    businessType: string
-): string[] {
+function generateRecommendations(profile: ComplianceProfile, checklist: ComplianceChecklistItem[], hasPacks: boolean): string[] {
     const recommendations = [
-        'Consult with a local attorney to ensure full compliance',
+        'Consult with a local attorney or chartered accountant to confirm this checklist',
         'Register your business entity before starting operations',
-        'Obtain all required licenses before launching',
-        'Set up proper accounting and tax systems from day one',
-        'Consider business insurance to mitigate risks'
+        'Set up proper accounting and tax systems from day one'
     ];
 
-    if (requirements.licenses.length > 3) {
-        recommendations.push('Work with a compliance consultant to navigate complex licensing requirements');
+    if (!hasPacks) {
+        recommendations.push(`No compliance rule pack covers ${profile.country} yet; engage local counsel for licences and filing dates`);
+        return recommendations;
     }
 
-    if (businessType.toLowerCase().includes('online') || businessType.toLowerCase().includes('digital')) {
-        recommendations.push('Implement data privacy and security measures (SSL, encryption, etc.)');
-        recommendations.push('Create clear Terms of Service and Privacy Policy');
+    const oneTime = checklist.filter(item => item.frequency === 'one_time' && item.severity === 'high');
+    if (oneTime.length > 0) {
+        recommendations.push(`Complete before launch: ${oneTime.map(item => item.name).join(', ')}`);
+    }
+
+    const recurring = checklist.filter(item => item.frequency !== 'one_time');
+    if (recurring.length > 3) {
+        recommendations.push(`Import the compliance calendar (ICS) so the ${recurring.length} recurring filings are not missed`);
+    }
+
+    if (profile.activities.includes('personal_data')) {
+        recommendations.push('Publish a privacy notice, collect consent and name a grievance contact before collecting customer data');
     }
 
     return recommendations;
 }
 
+/**
+ * Evaluate the rule packs for the given params / answers
+ */
+export function checkCompliance(params: ComplianceCheckInput, rules: ComplianceRulesService = getComplianceRules()): ComplianceCheckOutput {
+    const profile = buildComplianceProfile(params, rules);
+    const evaluation = rules.evaluate(profile, {
+        start_date: params.start_date,
+        horizon_months: params.horizon_months
+    });
+    const checklist = evaluation.checklist;
+
+    // Cost totals per pack currency
+    const costs = new Map<string, ComplianceCheckOutput['estimated_costs'][number]>();
+    checklist.forEach(item => {
+        if (!item.estimated_cost) return;
+        const currency = item.estimated_cost.currency;
+        const total = costs.get(currency) || { currency, one_time: { min: 0, max: 0 }, recurring_annual: { min: 0, max: 0 } };
+        if (item.annual_cost) {
+            total.recurring_annual.min += item.annual_cost.min;
+            total.recurring_annual.max += item.annual_cost.max;
+        } else {
+            total.one_time.min += item.estimated_cost.min;
+            total.one_time.max += item.estimated_cost.max;
+        }
+        costs.set(currency, total);
+    });
+
+    return {
+        required_licenses: checklist
+            .filter(item => item.category === 'registration' || item.category === 'license')
+            .map(item => item.name),
+        required_permits: checklist.filter(item => item.category === 'permit').map(item => item.name),
+        compliance_risks: checklist
+            .filter(item => item.severity === 'high')
+            .map(item => `${item.name}: ${item.penalty}`),
+        recommendations: generateRecommendations(profile, checklist, evaluation.packs.length > 0),
+        profile,
+        checklist,
+        calendar: evaluation.calendar,
+        estimated_costs: Array.from(costs.values()),
+        packs: evaluation.packs.map(pack => ({ id: pack.id, name: pack.name, version: pack.version }))
+    };
+}
+
 /**
  * Execute compliance check
  */
 async function execute(params: ComplianceCheckInput): Promise<ComplianceCheckOutput> {
     try {
         logger.info('Executing compliance check', {
-            location: params.location,
+            location: params.location || params.answers?.primary_market,
             industry: params.industry,
             business_type: params.business_type
         });
 
-        const requirements = getComplianceRequirements(
-            params.location,
-            params.industry,
-            params.business_type
-        );
-
-        const recommendations = generateRecommendations(requirements, params.business_type);
-
-        const output: ComplianceCheckOutput = {
-            required_licenses: requirements.licenses,
-            required_permits: requirements.permits,
-            compliance_risks: requirements.risks,
-            recommendations
-        };
+        const output = checkCompliance(params);
 
         logger.info('Compliance check complete', {
-            licenses: output.required_licenses.length,
-            permits: output.required_permits.length,
-            risks: output.compliance_risks.length
+            packs: output.packs.map(pack => pack.id),
+            checklist: output.checklist.length,
+            deadlines: output.calendar.length
         });
 
         return output;
@@ -150,24 +342,45 @@ function getToolDefinition(): ToolDefinition {
         type: 'function',
         function: {
             name: 'compliance_checker',
-            description: 'Check legal and regulatory requirements including licenses, permits, and compliance risks for a business.',
+            description: 'Build a compliance checklist (registrations, licences, tax and company filings, labour and data protection) with filing frequencies, due dates, estimated costs and penalties, plus a 12-month deadline calendar, from jurisdiction, state and sector rule packs.',
             parameters: {
                 type: 'object',
                 properties: {
+                    answers: {
+                        type: 'object',
+                        description: 'Questionnaire answers (primary_market, legal_entity, team_size_year1, revenue_target_year1, licenses_needed, regulations, target_industries, ...)'
+                    },
                     industry: {
                         type: 'string',
                         description: 'Industry or business category'
                     },
                     location: {
                         type: 'string',
-                        description: 'Country or region where business will operate'
+                        description: 'Country, state or city where the business operates (e.g. "Bengaluru, India", "UK")'
                     },
                     business_type: {
                         type: 'string',
-                        description: 'Type of business entity (e.g., LLC, Corporation, Sole Proprietorship)'
+                        description: 'Type of business entity (e.g., Pvt Ltd, LLP, OPC, Sole Proprietorship, LLC, Corporation)'
+                    },
+                    turnover: {
+                        type: 'string',
+                        description: 'Expected annual turnover in INR, e.g. "50 lakh"'
+                    },
+                    headcount: {
+                        type: 'number',
+                        description: 'Number of employees'
+                    },
+                    activities: {
+                        type: 'array',
+                        items: { type: 'string' },
+                        description: 'Regulated activities, e.g. lending, payment_aggregation, import_export, personal_data, pharmacy'
+                    },
+                    start_date: {
+                        type: 'string',
+                        description: 'Calendar start date (YYYY-MM-DD), default today'
                     }
                 },
-                required: ['industry', 'location', 'business_type']
+                required: []
             }
         }
     };
@@ -176,7 +389,7 @@ function getToolDefinition(): ToolDefinition {
 export const complianceCheckerSkill: Skill = {
     id: 'compliance_checker',
     name: 'Compliance Checker',
-    description: 'Check legal requirements, licenses, and regulatory compliance',
+    description: 'Check legal requirements, licenses, filings and deadlines from jurisdiction and sector rule packs',
     execute,
     getToolDefinition
 };
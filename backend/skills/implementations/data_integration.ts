@@ -6,9 +6,13 @@
 import {
     Skill,
     ToolDefinition,
+    FundingStage,
     SkillExecutionError
 } from '../../utils/types';
 import { logger } from '../../utils/logger';
+import { getDocumentIngestion } from '../../services/document-ingestion';
+import { getCompanyRegistry, companyPrefill, PREFILL_MIN_SCORE } from '../../services/company-registry';
+import { matchInvestors } from './investor_matching';
 
 /**
  * Data Integration Input
@@ -24,8 +28,13 @@ interface DataIntegrationInput {
         linkedin_profile_url?: string;
         crm_type?: 'zoho' | 'salesforce' | 'hubspot' | 'freshsales';
         document_url?: string;
+        file_name?: string; // Used to detect the format when the URL has no extension
         company_name?: string;
+        registration_number?: string; // CIN / LLPIN / company number
         country?: string;
+        funding_stage?: FundingStage;
+        capital_needed?: number | string;
+        sectors?: string[];
     };
 }
 
@@ -147,33 +156,44 @@ async function handleCRMIntegration(params: DataIntegrationInput): Promise<DataI
 }
 
 /**
- * Handle document parsing (PDF, Excel, Word with OCR)
+ * Handle document parsing (PDF, DOCX, XLSX, CSV)
  */
 async function handleDocumentParsing(params: DataIntegrationInput): Promise<DataIntegrationOutput> {
-    // In real implementation:
-    // 1. Fetch document from URL or upload
-    // 2. Use OCR for scanned documents (Tesseract)
-    // 3. Parse PDF with pdf-parse or pdfjs
-    // 4. Extract Excel with xlsx library
-    // 5. Parse Word docs with mammoth
-    // 6. Use NLP to extract: revenue, metrics, company data
+    const documentUrl = params.params?.document_url;
+    if (!documentUrl) {
+        return {
+            source: 'document',
+            status: 'error',
+            error_message: 'params.document_url is required for document parsing'
+        };
+    }
+
+    logger.info('Document parsing', { document_url: documentUrl });
+
+    const response = await fetch(documentUrl);
+    if (!response.ok) {
+        return {
+            source: 'document',
+            status: 'error',
+            error_message: `Could not fetch document (HTTP ${response.status})`
+        };
+    }
 
-    logger.info('Document parsing (simulated)', { document_url: params.params?.document_url });
+    const fileName = params.params?.file_name || new URL(documentUrl).pathname.split('/').pop() || 'document';
+    const buffer = Buffer.from(await response.arrayBuffer());
+    const result = await getDocumentIngestion().ingest(buffer, fileName);
 
     return {
         source: 'document',
-        status: 'success',
+        status: result.suggestions.length > 0 ? 'success' : 'partial',
         data: {
-            document_type: 'pdf',
-            extracted_text: 'Sample financial data extracted from document...',
-            structured_data: {
-                revenue_year1: 1000000,
-                revenue_year2: 2000000,
-                team_size: 10,
-                funding_raised: 5000000
-            }
+            document_type: result.document.format,
+            extracted_text: result.document.text_preview,
+            currency: result.currency,
+            figures: result.figures,
+            suggestions: result.suggestions
         },
-        records_fetched: 1
+        records_fetched: result.figures.length
     };
 }
 
@@ -181,68 +201,68 @@ async function handleDocumentParsing(params: DataIntegrationInput): Promise<Data
  * Handle company data lookup (MCA, Companies House, etc.)
  */
 async function handleCompanyDataLookup(params: DataIntegrationInput): Promise<DataIntegrationOutput> {
-    // In real implementation:
-    // 1. Query MCA API (India) or Companies House API (UK)
-    // 2. Fetch: incorporation date, directors, capital, filings
-    // 3. Return structured company data
+    const registry = getCompanyRegistry();
+    const registrationNumber = params.params?.registration_number;
+    const companyName = params.params?.company_name;
 
-    logger.info('Company data lookup (simulated)', { company_name: params.params?.company_name });
+    logger.info('Company data lookup', { provider: registry.id, company_name: companyName, registrationNumber });
+
+    if (registrationNumber) {
+        const record = await registry.getByRegistrationNumber(registrationNumber);
+        return record
+            ? { source: 'company_data', status: 'success', data: { company: record, prefill: companyPrefill(record) }, records_fetched: 1 }
+            : { source: 'company_data', status: 'error', error_message: `No company found with registration number ${registrationNumber}` };
+    }
+
+    if (!companyName) {
+        return {
+            source: 'company_data',
+            status: 'error',
+            error_message: 'params.company_name or params.registration_number is required for company lookup'
+        };
+    }
+
+    const matches = await registry.search(companyName, { country: params.params?.country });
+    const best = matches[0];
 
     return {
         source: 'company_data',
-        status: 'success',
+        status: matches.length === 0 ? 'error' : best.score >= PREFILL_MIN_SCORE ? 'success' : 'partial',
         data: {
-            company_name: params.params?.company_name || 'Sample Company',
-            incorporation_date: '2020-01-15',
-            legal_entity: 'Private Limited',
-            authorized_capital: 1000000,
-            paid_up_capital: 500000,
-            directors: [
-                { name: 'Director 1', din: 'XXXXXXXX' },
-                { name: 'Director 2', din: 'YYYYYYYY' }
-            ],
-            registered_address: 'Hyderabad, Telangana, India',
-            status: 'Active'
+            company: best?.record,
+            prefill: best && best.score >= PREFILL_MIN_SCORE ? companyPrefill(best.record) : {},
+            matches
         },
-        records_fetched: 1
+        error_message: matches.length === 0 ? `No registered company matches "${companyName}"` : undefined,
+        records_fetched: matches.length
     };
 }
 
 /**
- * Handle investor data (Crunchbase, PitchBook)
+ * Handle investor data (curated local dataset; see the investor_matching skill)
  */
 async function handleInvestorData(params: DataIntegrationInput): Promise<DataIntegrationOutput> {
-    // In real implementation:
-    // 1. Query Crunchbase API or PitchBook
-    // 2. Filter investors by: stage, geography, industry
-    // 3. Return: investor profiles, typical check size, portfolio
+    logger.info('Investor data lookup', { funding_stage: params.params?.funding_stage });
 
-    logger.info('Investor data lookup (simulated)');
+    const result = matchInvestors({
+        funding_stage: params.params?.funding_stage,
+        capital_needed: params.params?.capital_needed,
+        sectors: params.params?.sectors,
+        country: params.params?.country
+    });
 
     return {
         source: 'investor_data',
-        status: 'success',
+        status: result.matches.length > 0 ? 'success' : 'partial',
         data: {
-            investors: [
-                {
-                    name: 'Blume Ventures',
-                    stage: 'Seed, Series A',
-                    geography: 'India',
-                    industries: ['SaaS', 'Fintech', 'Consumer'],
-                    typical_check: '₹2-10 Cr',
-                    portfolio_companies: 100
-                },
-                {
-                    name: 'Sequoia Capital India',
-                    stage: 'Seed, Series A, Series B',
-                    geography: 'India, Southeast Asia',
-                    industries: ['Technology', 'Consumer', 'Healthcare'],
-                    typical_check: '₹5-50 Cr',
-                    portfolio_companies: 200
-                }
-            ]
+            investors: result.matches.map(match => ({
+                ...match.investor,
+                score: match.score,
+                reasons: match.reasons
+            })),
+            dataset: result.dataset
         },
-        records_fetched: 2
+        records_fetched: result.matches.length
     };
 }
 
@@ -285,9 +305,14 @@ function getToolDefinition(): ToolDefinition {
                                 type: 'string',
                                 enum: ['zoho', 'salesforce', 'hubspot', 'freshsales']
                             },
-                            document_url: { type: 'string' },
+                            document_url: { type: 'string', description: 'URL of a PDF, DOCX, XLSX or CSV file to extract financial figures from' },
+                            file_name: { type: 'string' },
                             company_name: { type: 'string' },
-                            country: { type: 'string' }
+                            registration_number: { type: 'string', description: 'CIN / LLPIN (India) or company number (UK)' },
+                            country: { type: 'string', description: 'ISO country code, e.g. IN or GB' },
+                            funding_stage: { type: 'string', enum: ['pre_seed', 'seed', 'series_a', 'series_b', 'debt', 'grants'] },
+                            capital_needed: { type: 'string', description: 'Raise size in INR for investor_data' },
+                            sectors: { type: 'array', items: { type: 'string' } }
                         }
                     }
                 },
@@ -1,6 +1,8 @@
 /**
  * Financial Modeling Skill Implementation
- * Performs financial calculations, projections, and analysis
+ * Builds a linked three-statement model (P&L, cash flow, balance sheet) on a monthly
+ * grid with working-capital days, capex/depreciation, tax loss carryforward and
+ * debt/equity financing events; reported monthly for year 1 and annually to year 7.
  */
 
 import {
@@ -8,6 +10,7 @@ import {
     ToolDefinition,
     FinancialModelingInput,
     FinancialModelingOutput,
+    FinancialStatementPeriod,
     SkillExecutionError
 } from '../../utils/types';
 import { logger } from '../../utils/logger';
@@ -57,74 +60,272 @@ function calculateAnnualRevenue(year1Total: number, growthRates: number[]): numb
     return annualRevenue;
 }
 
+export const MAX_YEARS = 7;
+export const DEFAULT_OPEX_PERCENTAGES = { sales_marketing: 35, research_development: 30, general_administrative: 15 };
+export const DEFAULT_GROWTH_RATES_Y = [100, 80, 60, 40, 30, 20];
+const DAYS_PER_MONTH = 30;
+
+interface MonthlyLine {
+    revenue: number;
+    cogs: number;
+    opex: number;
+    depreciation: number;
+    interest: number;
+    pre_tax_income: number;
+    tax: number;
+    net_income: number;
+    change_in_working_capital: number;
+    capex: number;
+    equity_raised: number;
+    debt_drawn: number;
+    debt_repaid: number;
+    cash: number;
+    accounts_receivable: number;
+    inventory: number;
+    ppe_net: number;
+    accounts_payable: number;
+    debt: number;
+    paid_in_capital: number;
+    retained_earnings: number;
+}
+
 /**
- * Calculate COGS and gross profit
+ * Opex % for a year; years without a value inherit the latest earlier year
  */
-function calculateGrossProfit(revenue: number[], cogsPercentage: number) {
-    const cogs = revenue.map(r => r * (cogsPercentage / 100));
-    const grossProfit = revenue.map((r, i) => r - cogs[i]);
-    const margin = revenue[0] > 0 ? ((grossProfit[0] / revenue[0]) * 100) : 0;
-
-    return { cogs, grossProfit, margin };
+export function opexPercent(byYear: Record<string, number> | undefined, year: number, fallback: number): number {
+    for (let y = year; y >= 1; y--) {
+        const value = byYear?.[`y${y}`];
+        if (typeof value === 'number') return value;
+    }
+    return fallback;
 }
 
 /**
- * Calculate EBITDA and find break-even
+ * Tax rate given as a percent (25) or a fraction (0.25)
  */
-function calculateEBITDA(
-    grossProfit: number[],
-    revenue: number[],
-    opexPercentages: any
-): { ebitda: number[]; breakEvenMonth: number; margins: number[] } {
-    const ebitda: number[] = [];
-    let breakEvenMonth = -1;
-
-    grossProfit.forEach((gp, month) => {
-        const year = Math.floor(month / 12) + 1;
-        const yearKey = `y${year}`;
-
-        const smPercent = opexPercentages.sales_marketing[yearKey] || 35;
-        const rdPercent = opexPercentages.research_development[yearKey] || 30;
-        const gaPercent = opexPercentages.general_administrative[yearKey] || 15;
-
-        const totalOpex = revenue[month] * ((smPercent + rdPercent + gaPercent) / 100);
-        const monthEbitda = gp - totalOpex;
-
-        ebitda.push(monthEbitda);
+export function normalizeRate(rate: number | undefined): number {
+    if (!rate || rate < 0) return 0;
+    return rate > 1 ? rate / 100 : rate;
+}
 
-        if (breakEvenMonth === -1 && monthEbitda > 0) {
-            breakEvenMonth = month + 1;
+/**
+ * Build the linked monthly P&L, cash flow and balance sheet
+ */
+function buildMonthlyLines(params: FinancialModelingInput, months: number): MonthlyLine[] {
+    const products = params.revenue_data.products;
+    const assumptions = params.assumptions;
+    const opex = params.cost_structure.opex_percentages || {} as FinancialModelingInput['cost_structure']['opex_percentages'];
+
+    // Year 1 is built bottom-up from products; later years grow the annual total
+    const year1Monthly = calculateMonthlyRevenue(products);
+    const year1Total = year1Monthly.reduce((sum, r) => sum + r, 0);
+    const growthRates = products[0]?.growth_rates_y?.length ? products[0].growth_rates_y : DEFAULT_GROWTH_RATES_Y;
+    const laterYears = calculateAnnualRevenue(
+        year1Total,
+        Array.from({ length: MAX_YEARS - 1 }, (_, i) => growthRates[Math.min(i, growthRates.length - 1)])
+    );
+
+    // COGS % weighted by each product's year 1 revenue
+    const productRevenue = products.map(p => calculateMonthlyRevenue([p]).reduce((sum, r) => sum + r, 0));
+    const cogsPercent = year1Total > 0
+        ? products.reduce((sum, p, i) => sum + (p.cogs_percentage || 0) * productRevenue[i], 0) / year1Total
+        : products[0]?.cogs_percentage || 20;
+
+    const taxRate = normalizeRate(assumptions.tax_rate);
+    const receivableDays = assumptions.payment_terms_days || 0;
+    const payableDays = assumptions.supplier_payment_days ?? 30;
+    const inventoryDays = assumptions.inventory_days ?? 0;
+    const defaultLifeYears = assumptions.depreciation_years || 5;
+
+    const lines: MonthlyLine[] = [];
+    let cash = assumptions.starting_cash || 0;
+    let paidInCapital = cash;
+    let retainedEarnings = 0;
+    let grossPpe = 0;
+    let accumulatedDepreciation = 0;
+    let debt = 0;
+    let lossCarryforward = 0;
+    let previousWorkingCapital = 0;
+
+    const debtTranches = (params.financing || [])
+        .filter(f => f.type === 'debt')
+        .map(f => ({ ...f, balance: 0 }));
+
+    for (let m = 1; m <= months; m++) {
+        const year = Math.ceil(m / 12);
+        const revenue = year === 1 ? year1Monthly[m - 1] : laterYears[year - 2] / 12;
+        const cogs = revenue * (cogsPercent / 100);
+        const opexTotal = revenue * (
+            opexPercent(opex.sales_marketing, year, DEFAULT_OPEX_PERCENTAGES.sales_marketing) +
+            opexPercent(opex.research_development, year, DEFAULT_OPEX_PERCENTAGES.research_development) +
+            opexPercent(opex.general_administrative, year, DEFAULT_OPEX_PERCENTAGES.general_administrative)
+        ) / 100;
+
+        // Straight-line depreciation, starting the month after purchase
+        let depreciation = 0;
+        let capex = 0;
+        (params.capex || []).forEach(item => {
+            const lifeMonths = Math.max(1, Math.round((item.useful_life_years || defaultLifeYears) * 12));
+            if (item.month === m) capex += item.amount;
+            if (m > item.month && m <= item.month + lifeMonths) depreciation += item.amount / lifeMonths;
+        });
+        grossPpe += capex;
+        accumulatedDepreciation += depreciation;
+
+        // Interest accrues on the opening balance; term loans repay straight-line
+        let interest = 0;
+        let debtDrawn = 0;
+        let debtRepaid = 0;
+        debtTranches.forEach(tranche => {
+            interest += tranche.balance * (tranche.interest_rate_pct || 0) / 100 / 12;
+            if (tranche.term_months && m > tranche.month && m <= tranche.month + tranche.term_months) {
+                const repayment = Math.min(tranche.balance, tranche.amount / tranche.term_months);
+                tranche.balance -= repayment;
+                debtRepaid += repayment;
+            }
+            if (tranche.month === m) {
+                tranche.balance += tranche.amount;
+                debtDrawn += tranche.amount;
+            }
+        });
+        debt += debtDrawn - debtRepaid;
+
+        const equityRaised = (params.financing || [])
+            .filter(f => f.type === 'equity' && f.month === m)
+            .reduce((sum, f) => sum + f.amount, 0);
+        paidInCapital += equityRaised;
+
+        // Losses carry forward against future taxable income
+        const preTaxIncome = revenue - cogs - opexTotal - depreciation - interest;
+        let tax = 0;
+        if (preTaxIncome < 0) {
+            lossCarryforward -= preTaxIncome;
+        } else {
+            const offset = Math.min(lossCarryforward, preTaxIncome);
+            lossCarryforward -= offset;
+            tax = (preTaxIncome - offset) * taxRate;
         }
-    });
-
-    const margins = ebitda.map((e, i) => revenue[i] > 0 ? (e / revenue[i]) * 100 : 0);
+        const netIncome = preTaxIncome - tax;
+        retainedEarnings += netIncome;
+
+        const accountsReceivable = revenue * receivableDays / DAYS_PER_MONTH;
+        const inventory = cogs * inventoryDays / DAYS_PER_MONTH;
+        const accountsPayable = cogs * payableDays / DAYS_PER_MONTH;
+        const workingCapital = accountsReceivable + inventory - accountsPayable;
+        const changeInWorkingCapital = -(workingCapital - previousWorkingCapital);
+        previousWorkingCapital = workingCapital;
+
+        cash += netIncome + depreciation + changeInWorkingCapital - capex + equityRaised + debtDrawn - debtRepaid;
+
+        lines.push({
+            revenue,
+            cogs,
+            opex: opexTotal,
+            depreciation,
+            interest,
+            pre_tax_income: preTaxIncome,
+            tax,
+            net_income: netIncome,
+            change_in_working_capital: changeInWorkingCapital,
+            capex,
+            equity_raised: equityRaised,
+            debt_drawn: debtDrawn,
+            debt_repaid: debtRepaid,
+            cash,
+            accounts_receivable: accountsReceivable,
+            inventory,
+            ppe_net: grossPpe - accumulatedDepreciation,
+            accounts_payable: accountsPayable,
+            debt,
+            paid_in_capital: paidInCapital,
+            retained_earnings: retainedEarnings
+        });
+    }
 
-    return { ebitda, breakEvenMonth, margins };
+    return lines;
 }
 
 /**
- * Calculate key SaaS metrics
+ * Roll monthly lines into one statement period (flows are summed, balances taken at period end)
  */
-function calculateSaaSMetrics(
-    revenue: number[],
-    ebitdaMargins: number[]
-): { arr_y5: number; rule_of_40_y5: number } {
-    const y5Revenue = revenue[revenue.length - 1] || 0;
-    const y4Revenue = revenue[revenue.length - 2] || 0;
-
-    const growthRate = y4Revenue > 0 ? ((y5Revenue - y4Revenue) / y4Revenue) * 100 : 0;
-    const ebitdaMargin = ebitdaMargins[ebitdaMargins.length - 1] || 0;
+function toStatementPeriod(period: string, lines: MonthlyLine[]): FinancialStatementPeriod {
+    const sum = (key: keyof MonthlyLine) => round(lines.reduce((total, line) => total + line[key], 0));
+    const end = lines[lines.length - 1];
+
+    const revenue = sum('revenue');
+    const cogs = sum('cogs');
+    const opex = sum('opex');
+    const depreciation = sum('depreciation');
+    const interest = sum('interest');
+    const operating = round(lines.reduce((total, l) => total + l.net_income + l.depreciation + l.change_in_working_capital, 0));
+    const capex = sum('capex');
+    const equityRaised = sum('equity_raised');
+    const debtDrawn = sum('debt_drawn');
+    const debtRepaid = sum('debt_repaid');
+    const financing = round(equityRaised + debtDrawn - debtRepaid);
+
+    const totalAssets = end.cash + end.accounts_receivable + end.inventory + end.ppe_net;
+    const totalLiabilities = end.accounts_payable + end.debt;
+    const totalEquity = end.paid_in_capital + end.retained_earnings;
 
     return {
-        arr_y5: y5Revenue,
-        rule_of_40_y5: growthRate + ebitdaMargin
+        period,
+        income_statement: {
+            revenue,
+            cogs,
+            gross_profit: round(revenue - cogs),
+            opex,
+            ebitda: round(revenue - cogs - opex),
+            depreciation,
+            ebit: round(revenue - cogs - opex - depreciation),
+            interest,
+            pre_tax_income: sum('pre_tax_income'),
+            tax: sum('tax'),
+            net_income: sum('net_income')
+        },
+        cash_flow: {
+            net_income: sum('net_income'),
+            depreciation,
+            change_in_working_capital: sum('change_in_working_capital'),
+            operating,
+            capex,
+            investing: -capex,
+            equity_raised: equityRaised,
+            debt_drawn: debtDrawn,
+            debt_repaid: debtRepaid,
+            financing,
+            net_change: round(operating - capex + financing),
+            ending_cash: round(end.cash)
+        },
+        balance_sheet: {
+            cash: round(end.cash),
+            accounts_receivable: round(end.accounts_receivable),
+            inventory: round(end.inventory),
+            ppe_net: round(end.ppe_net),
+            total_assets: round(totalAssets),
+            accounts_payable: round(end.accounts_payable),
+            debt: round(end.debt),
+            total_liabilities: round(totalLiabilities),
+            paid_in_capital: round(end.paid_in_capital),
+            retained_earnings: round(end.retained_earnings),
+            total_equity: round(totalEquity),
+            total_liabilities_and_equity: round(totalLiabilities + totalEquity)
+        }
     };
 }
 
+function round(value: number): number {
+    return Math.round(value * 100) / 100;
+}
+
+function margin(value: number, revenue: number): number {
+    return revenue > 0 ? (value / revenue) * 100 : 0;
+}
+
 /**
  * Validate financial model
  */
-function validateModel(output: FinancialModelingOutput): void {
+function validateModel(output: FinancialModelingOutput, lines: MonthlyLine[]): void {
     const warnings: string[] = [];
     const errors: string[] = [];
 
@@ -145,6 +346,18 @@ function validateModel(output: FinancialModelingOutput): void {
         warnings.push(`Rule of 40 is ${output.saas_metrics.rule_of_40_y5.toFixed(1)}. Target: >40.`);
     }
 
+    // Assets must equal liabilities + equity in every month
+    if (output.statements.balance_check_max_diff > 1) {
+        errors.push(`Balance sheet does not balance (max difference ${output.statements.balance_check_max_diff.toFixed(2)}).`);
+    }
+
+    // Check funding runway
+    const firstNegative = lines.findIndex(line => line.cash < 0);
+    if (firstNegative >= 0) {
+        const shortfall = Math.max(...lines.map(line => -line.cash));
+        warnings.push(`Cash runs out in Month ${firstNegative + 1}; additional financing of ${Math.round(shortfall)} is required.`);
+    }
+
     output.validation_results = {
         pass: errors.length === 0,
         warnings,
@@ -152,6 +365,98 @@ function validateModel(output: FinancialModelingOutput): void {
     };
 }
 
+/**
+ * Build the three-statement model (monthly grid, year 1 monthly + annual statements)
+ */
+export function buildFinancialModel(params: FinancialModelingInput): FinancialModelingOutput {
+    const years = Math.min(MAX_YEARS, Math.max(1, Math.round(params.projection_period?.years || MAX_YEARS)));
+    const lines = buildMonthlyLines(params, years * 12);
+
+    const monthlyCount = params.projection_period?.detail_level === 'monthly_all' ? lines.length : 12;
+    const monthly = params.projection_period?.detail_level === 'annual'
+        ? []
+        : lines.slice(0, monthlyCount).map((line, i) => toStatementPeriod(`M${i + 1}`, [line]));
+    const annual = Array.from({ length: years }, (_, i) =>
+        toStatementPeriod(`Y${i + 1}`, lines.slice(i * 12, (i + 1) * 12))
+    );
+
+    const balanceCheckMaxDiff = Math.max(...lines.map(line => Math.abs(
+        (line.cash + line.accounts_receivable + line.inventory + line.ppe_net) -
+        (line.accounts_payable + line.debt + line.paid_in_capital + line.retained_earnings)
+    )));
+
+    // Legacy revenue view, read off the annual statements so it always matches them
+    const year1Monthly = lines.slice(0, 12).map(line => line.revenue);
+    const year1Total = year1Monthly.reduce((sum, r) => sum + r, 0);
+    const years2to7 = annual.slice(1).map(period => period.income_statement.revenue);
+    const y5Revenue = annual.length >= 5 ? annual[4].income_statement.revenue : 0;
+
+    const y1 = annual[0].income_statement;
+    const y5Index = Math.min(4, annual.length - 1);
+    const y5 = annual[y5Index].income_statement;
+    const y4Revenue = y5Index > 0 ? annual[y5Index - 1].income_statement.revenue : 0;
+
+    const breakEvenMonth = lines.findIndex(line => line.revenue - line.cogs - line.opex > 0);
+    const profitabilityMonth = lines.findIndex(line => line.net_income > 0);
+
+    // Funding need = deepest cumulative operating + investing deficit
+    let cumulative = 0;
+    let peakDeficit = 0;
+    let peakBurn = 0;
+    lines.forEach(line => {
+        const freeCashFlow = line.net_income + line.depreciation + line.change_in_working_capital - line.capex;
+        cumulative += freeCashFlow;
+        peakDeficit = Math.max(peakDeficit, -cumulative);
+        peakBurn = Math.max(peakBurn, -freeCashFlow);
+    });
+
+    const output: FinancialModelingOutput = {
+        revenue: {
+            year_1_monthly: year1Monthly,
+            years_2_7_annual: years2to7,
+            total_y1: year1Total,
+            total_y5: y5Revenue
+        },
+        gross_profit: {
+            year_1_monthly: lines.slice(0, 12).map(line => line.revenue - line.cogs),
+            margin_pct_y1: margin(y1.gross_profit, y1.revenue),
+            margin_pct_y5: margin(y5.gross_profit, y5.revenue)
+        },
+        ebitda: {
+            break_even_month: breakEvenMonth >= 0 ? breakEvenMonth + 1 : -1,
+            year_1_avg_margin: lines.slice(0, 12)
+                .reduce((sum, line) => sum + margin(line.revenue - line.cogs - line.opex, line.revenue), 0) / 12,
+            year_5_margin: margin(y5.ebitda, y5.revenue)
+        },
+        summary_metrics: {
+            total_capital_required: round(peakDeficit),
+            peak_burn_rate: round(peakBurn),
+            break_even_month: breakEvenMonth >= 0 ? breakEvenMonth + 1 : -1,
+            profitability_month: profitabilityMonth >= 0 ? profitabilityMonth + 1 : -1,
+            cagr_y1_y5: y5Revenue > 0 && year1Total > 0 ? ((Math.pow(y5Revenue / year1Total, 1 / 4) - 1) * 100) : 0
+        },
+        saas_metrics: {
+            arr_y5: y5.revenue,
+            rule_of_40_y5: (y4Revenue > 0 ? ((y5.revenue - y4Revenue) / y4Revenue) * 100 : 0) + margin(y5.ebitda, y5.revenue)
+        },
+        statements: {
+            monthly,
+            annual,
+            balance_check_max_diff: round(balanceCheckMaxDiff)
+        },
+        validation_results: {
+            pass: true,
+            warnings: [],
+            errors: []
+        }
+    };
+
+    // Validate the model
+    validateModel(output, lines);
+
+    return output;
+}
+
 /**
  * Execute financial modeling
  */
@@ -162,78 +467,12 @@ async function execute(params: FinancialModelingInput): Promise<FinancialModelin
             years: params.projection_period.years
         });
 
-        // Calculate Year 1 monthly revenue
-        const year1Monthly = calculateMonthlyRevenue(params.revenue_data.products);
-        const year1Total = year1Monthly.reduce((sum, r) => sum + r, 0);
-
-        // Calculate Years 2-7 annual revenue
-        const avgGrowthRates = params.revenue_data.products[0]?.growth_rates_y || [100, 80, 60, 40, 30, 20];
-        const years2to7 = calculateAnnualRevenue(year1Total, avgGrowthRates);
-
-        // Combine all revenue periods
-        const allRevenue = [...year1Monthly, ...years2to7];
-
-        // Calculate COGS and gross profit
-        const avgCogsPercent = params.revenue_data.products[0]?.cogs_percentage || 20;
-        const { grossProfit, margin } = calculateGrossProfit(allRevenue, avgCogsPercent);
-
-        // Calculate EBITDA
-        const { ebitda, breakEvenMonth, margins } = calculateEBITDA(
-            grossProfit,
-            allRevenue,
-            params.cost_structure.opex_percentages
-        );
-
-        // Calculate SaaS metrics
-        const saasMetrics = calculateSaaSMetrics(allRevenue, margins);
-
-        // Calculate capital requirements (simplified)
-        const negativeCashFlow = ebitda
-            .slice(0, breakEvenMonth > 0 ? breakEvenMonth : 12)
-            .filter(e => e < 0)
-            .reduce((sum, e) => sum + Math.abs(e), 0);
-
-        const totalCapitalRequired = negativeCashFlow + params.assumptions.starting_cash;
-        const peakBurnRate = Math.max(...ebitda.slice(0, 12).map(e => Math.abs(Math.min(0, e))));
-
-        const output: FinancialModelingOutput = {
-            revenue: {
-                year_1_monthly: year1Monthly,
-                years_2_7_annual: years2to7,
-                total_y1: year1Total,
-                total_y5: years2to7[3] || 0
-            },
-            gross_profit: {
-                year_1_monthly: grossProfit.slice(0, 12),
-                margin_pct_y1: margin,
-                margin_pct_y5: margin // Simplified - same margin
-            },
-            ebitda: {
-                break_even_month: breakEvenMonth,
-                year_1_avg_margin: margins.slice(0, 12).reduce((sum, m) => sum + m, 0) / 12,
-                year_5_margin: margins[margins.length - 1] || 0
-            },
-            summary_metrics: {
-                total_capital_required: totalCapitalRequired,
-                peak_burn_rate: peakBurnRate,
-                break_even_month: breakEvenMonth,
-                profitability_month: breakEvenMonth, // Simplified
-                cagr_y1_y5: years2to7[3] > 0 ? ((Math.pow(years2to7[3] / year1Total, 1 / 5) - 1) * 100) : 0
-            },
-            saas_metrics: saasMetrics,
-            validation_results: {
-                pass: true,
-                warnings: [],
-                errors: []
-            }
-        };
-
-        // Validate the model
-        validateModel(output);
+        const output = buildFinancialModel(params);
 
         logger.info('Financial modeling complete', {
             y1_revenue: output.revenue.total_y1,
             break_even: output.ebitda.break_even_month,
+            balance_check: output.statements.balance_check_max_diff,
             validation: output.validation_results.pass ? 'PASS' : 'FAIL'
         });
 
@@ -244,6 +483,7 @@ async function execute(params: FinancialModelingInput): Promise<FinancialModelin
     }
 }
 
+
 /**
  * Get tool definition for Groq function calling
  */
@@ -252,7 +492,7 @@ function getToolDefinition(): ToolDefinition {
         type: 'function',
         function: {
             name: 'financial_modeling',
-            description: 'Calculate comprehensive financial projections including revenue, costs, profitability, and key metrics for a business over 5-7 years.',
+            description: 'Calculate a linked three-statement financial model (income statement, cash flow, balance sheet) with revenue, costs, working capital, capex, financing and key metrics for a business over 5-7 years.',
             parameters: {
                 type: 'object',
                 properties: {
@@ -301,9 +541,42 @@ function getToolDefinition(): ToolDefinition {
                     assumptions: {
                         type: 'object',
                         properties: {
-                            tax_rate: { type: 'number' },
+                            tax_rate: { type: 'number', description: 'Percent, e.g. 25' },
                             starting_cash: { type: 'number' },
-                            payment_terms_days: { type: 'number' }
+                            payment_terms_days: { type: 'number', description: 'Days customers take to pay' },
+                            supplier_payment_days: { type: 'number', description: 'Days taken to pay suppliers (default 30)' },
+                            inventory_days: { type: 'number', description: 'Days of COGS held as inventory (default 0)' },
+                            depreciation_years: { type: 'number', description: 'Default useful life of capex (default 5)' }
+                        }
+                    },
+                    capex: {
+                        type: 'array',
+                        description: 'Capital expenditures, depreciated straight-line',
+                        items: {
+                            type: 'object',
+                            properties: {
+                                month: { type: 'number', description: 'Month 1-84' },
+                                amount: { type: 'number' },
+                                useful_life_years: { type: 'number' },
+                                description: { type: 'string' }
+                            },
+                            required: ['month', 'amount']
+                        }
+                    },
+                    financing: {
+                        type: 'array',
+                        description: 'Equity raises and debt draws',
+                        items: {
+                            type: 'object',
+                            properties: {
+                                month: { type: 'number', description: 'Month 1-84' },
+                                type: { type: 'string', enum: ['equity', 'debt'] },
+                                amount: { type: 'number' },
+                                interest_rate_pct: { type: 'number', description: 'Annual rate (debt only)' },
+                                term_months: { type: 'number', description: 'Straight-line repayment term (debt only)' },
+                                description: { type: 'string' }
+                            },
+                            required: ['month', 'type', 'amount']
                         }
                     }
                 },
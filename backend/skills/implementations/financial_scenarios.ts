@@ -0,0 +1,284 @@
+/**
+ * Financial Scenarios Skill Implementation
+ * Runs what-if scenarios (best/base/worst plus custom overrides) and tornado-style
+ * sensitivity analysis on top of the financial_modeling three-statement engine.
+ */
+
+import {
+    Skill,
+    ToolDefinition,
+    FinancialModelingInput,
+    FinancialModelingOutput,
+    FinancialScenarioInput,
+    FinancialScenarioOutput,
+    ScenarioDriver,
+    ScenarioOverrides,
+    ScenarioMetrics,
+    ScenarioResult,
+    SensitivityMetric,
+    SensitivityResult,
+    SkillExecutionError
+} from '../../utils/types';
+import { logger } from '../../utils/logger';
+import {
+    buildFinancialModel,
+    opexPercent,
+    DEFAULT_GROWTH_RATES_Y,
+    DEFAULT_OPEX_PERCENTAGES,
+    MAX_YEARS
+} from './financial_modeling';
+
+const ALL_DRIVERS: ScenarioDriver[] = ['price', 'volume', 'growth', 'churn', 'cogs', 'opex'];
+const DEFAULT_VARIATION_PCT = 20;
+
+export const SCENARIO_PRESETS: Record<string, ScenarioOverrides> = {
+    best: { drivers: { price: 10, volume: 20, growth: 20, churn: -20, cogs: -5, opex: -5 } },
+    base: {},
+    worst: { drivers: { price: -20, volume: -20, growth: -30, churn: 100, cogs: 10, opex: 10 } }
+};
+
+/**
+ * Apply scenario overrides to a copy of the base model input
+ */
+export function applyScenarioOverrides(
+    base: FinancialModelingInput,
+    overrides: ScenarioOverrides
+): FinancialModelingInput {
+    const input: FinancialModelingInput = JSON.parse(JSON.stringify(base));
+    const factor = (driver: ScenarioDriver) => 1 + (overrides.drivers?.[driver] || 0) / 100;
+
+    input.revenue_data.products = input.revenue_data.products.map((product, i) => ({
+        ...product,
+        avg_price: product.avg_price * factor('price'),
+        initial_quantity_m1: product.initial_quantity_m1 * factor('volume'),
+        growth_rates_m: (product.growth_rates_m || []).map(rate => rate * factor('growth')),
+        // The engine grows later years from the first product, which falls back to default rates
+        growth_rates_y: (i === 0 && !product.growth_rates_y?.length ? DEFAULT_GROWTH_RATES_Y : product.growth_rates_y || [])
+            .map(rate => rate * factor('growth')),
+        cogs_percentage: Math.min(100, product.cogs_percentage * factor('cogs')),
+        churn_rate: product.churn_rate !== undefined
+            ? Math.min(100, product.churn_rate * factor('churn'))
+            : undefined
+    }));
+
+    // Spell out every year (inherited or default values included) so the engine's defaults scale too
+    const opex = input.cost_structure.opex_percentages || {} as FinancialModelingInput['cost_structure']['opex_percentages'];
+    (['sales_marketing', 'research_development', 'general_administrative'] as const).forEach(category => {
+        const byYear: Record<string, number> = {};
+        for (let year = 1; year <= MAX_YEARS; year++) {
+            byYear[`y${year}`] = opexPercent(opex[category], year, DEFAULT_OPEX_PERCENTAGES[category]) * factor('opex');
+        }
+        opex[category] = byYear;
+    });
+    input.cost_structure = { ...input.cost_structure, opex_percentages: opex };
+
+    if (overrides.starting_cash !== undefined) input.assumptions.starting_cash = overrides.starting_cash;
+    if (overrides.payment_terms_days !== undefined) input.assumptions.payment_terms_days = overrides.payment_terms_days;
+    if (overrides.tax_rate !== undefined) input.assumptions.tax_rate = overrides.tax_rate;
+    if (overrides.capex) input.capex = overrides.capex;
+    if (overrides.financing) input.financing = overrides.financing;
+
+    return input;
+}
+
+/**
+ * Run the engine on every month so runway can be measured
+ */
+function runScenario(input: FinancialModelingInput): ScenarioMetrics {
+    const model: FinancialModelingOutput = buildFinancialModel({
+        ...input,
+        projection_period: { ...input.projection_period, detail_level: 'monthly_all' }
+    });
+
+    const { monthly, annual } = model.statements;
+    const runOut = monthly.findIndex(period => period.balance_sheet.cash < 0);
+    const y5 = annual[Math.min(4, annual.length - 1)];
+
+    return {
+        break_even_month: model.summary_metrics.break_even_month,
+        profitability_month: model.summary_metrics.profitability_month,
+        runway_months: runOut >= 0 ? runOut : null,
+        total_capital_required: model.summary_metrics.total_capital_required,
+        peak_burn_rate: model.summary_metrics.peak_burn_rate,
+        revenue_y1: annual[0].income_statement.revenue,
+        revenue_y5: y5.income_statement.revenue,
+        ending_cash: annual[annual.length - 1].cash_flow.ending_cash,
+        validation_pass: model.validation_results.pass
+    };
+}
+
+/**
+ * Metric value used to rank sensitivity; "never" is treated as one month past the horizon
+ */
+function metricValue(metrics: ScenarioMetrics, metric: SensitivityMetric, horizonMonths: number): number {
+    switch (metric) {
+        case 'break_even_month':
+            return metrics.break_even_month > 0 ? metrics.break_even_month : horizonMonths + 1;
+        case 'runway_months':
+            return metrics.runway_months ?? horizonMonths + 1;
+        case 'revenue_y5':
+            return metrics.revenue_y5;
+        default:
+            return metrics.total_capital_required;
+    }
+}
+
+function round(value: number): number {
+    return Math.round(value * 100) / 100;
+}
+
+function compareToBase(name: string, overrides: ScenarioOverrides, metrics: ScenarioMetrics, base: ScenarioMetrics): ScenarioResult {
+    return {
+        name,
+        overrides,
+        metrics,
+        delta_vs_base: {
+            break_even_months: metrics.break_even_month > 0 && base.break_even_month > 0
+                ? metrics.break_even_month - base.break_even_month
+                : null,
+            total_capital_required: round(metrics.total_capital_required - base.total_capital_required),
+            revenue_y5: round(metrics.revenue_y5 - base.revenue_y5)
+        }
+    };
+}
+
+/**
+ * Run scenarios and sensitivity analysis against a base model
+ */
+export function runFinancialScenarios(params: FinancialScenarioInput): FinancialScenarioOutput {
+    const base = runScenario(params.base);
+    const horizonMonths = Math.min(7, Math.max(1, Math.round(params.base.projection_period?.years || 7))) * 12;
+
+    const named: Array<{ name: string; overrides: ScenarioOverrides }> = [
+        ...(params.include_presets === false
+            ? []
+            : Object.entries(SCENARIO_PRESETS).map(([name, overrides]) => ({ name, overrides }))),
+        ...(params.scenarios || [])
+    ];
+
+    const scenarios = named.map(({ name, overrides }) =>
+        compareToBase(name, overrides, runScenario(applyScenarioOverrides(params.base, overrides || {})), base)
+    );
+
+    const metric = params.sensitivity?.metric || 'total_capital_required';
+    const variation = params.sensitivity?.variation_pct || DEFAULT_VARIATION_PCT;
+    const drivers = params.sensitivity?.drivers?.length ? params.sensitivity.drivers : ALL_DRIVERS;
+
+    const tornado: SensitivityResult[] = drivers
+        .filter(driver => ALL_DRIVERS.includes(driver))
+        .map(driver => {
+            const low = runScenario(applyScenarioOverrides(params.base, { drivers: { [driver]: -variation } }));
+            const high = runScenario(applyScenarioOverrides(params.base, { drivers: { [driver]: variation } }));
+            return {
+                driver,
+                low,
+                high,
+                swing: round(Math.abs(metricValue(high, metric, horizonMonths) - metricValue(low, metric, horizonMonths)))
+            };
+        })
+        .sort((a, b) => b.swing - a.swing);
+
+    return {
+        base,
+        scenarios,
+        sensitivity: {
+            metric,
+            variation_pct: variation,
+            tornado
+        }
+    };
+}
+
+/**
+ * Execute scenario analysis
+ */
+async function execute(params: FinancialScenarioInput): Promise<FinancialScenarioOutput> {
+    try {
+        logger.info('Executing financial scenarios', {
+            scenarios: params.scenarios?.length || 0,
+            drivers: params.sensitivity?.drivers?.length || ALL_DRIVERS.length
+        });
+
+        const output = runFinancialScenarios(params);
+
+        logger.info('Financial scenarios complete', {
+            base_break_even: output.base.break_even_month,
+            top_driver: output.sensitivity.tornado[0]?.driver
+        });
+
+        return output;
+    } catch (error) {
+        logger.error('Financial scenarios failed', error);
+        throw new SkillExecutionError('Financial scenario analysis failed', 'financial_scenarios', error);
+    }
+}
+
+/**
+ * Get tool definition for Groq function calling
+ */
+function getToolDefinition(): ToolDefinition {
+    const drivers = {
+        type: 'object',
+        description: 'Relative change in percent per driver, e.g. {"price": -20, "churn": 100}',
+        properties: Object.fromEntries(ALL_DRIVERS.map(driver => [driver, { type: 'number' }]))
+    };
+
+    return {
+        type: 'function',
+        function: {
+            name: 'financial_scenarios',
+            description: 'Run what-if scenarios (best/base/worst and custom) and sensitivity analysis on a financial model; compares break-even month, runway and capital required.',
+            parameters: {
+                type: 'object',
+                properties: {
+                    base: {
+                        type: 'object',
+                        description: 'Base model, same shape as the financial_modeling input'
+                    },
+                    scenarios: {
+                        type: 'array',
+                        items: {
+                            type: 'object',
+                            properties: {
+                                name: { type: 'string' },
+                                overrides: {
+                                    type: 'object',
+                                    properties: {
+                                        drivers,
+                                        starting_cash: { type: 'number' },
+                                        payment_terms_days: { type: 'number' },
+                                        tax_rate: { type: 'number' },
+                                        capex: { type: 'array', items: { type: 'object' } },
+                                        financing: { type: 'array', items: { type: 'object' } }
+                                    }
+                                }
+                            },
+                            required: ['name', 'overrides']
+                        }
+                    },
+                    include_presets: { type: 'boolean', description: 'Include best/base/worst (default true)' },
+                    sensitivity: {
+                        type: 'object',
+                        properties: {
+                            drivers: { type: 'array', items: { type: 'string', enum: ALL_DRIVERS } },
+                            variation_pct: { type: 'number', description: 'Default 20' },
+                            metric: {
+                                type: 'string',
+                                enum: ['total_capital_required', 'break_even_month', 'runway_months', 'revenue_y5']
+                            }
+                        }
+                    }
+                },
+                required: ['base']
+            }
+        }
+    };
+}
+
+export const financialScenariosSkill: Skill = {
+    id: 'financial_scenarios',
+    name: 'Financial Scenarios',
+    description: 'Compare what-if scenarios and driver sensitivity on a financial model',
+    execute,
+    getToolDefinition
+};
@@ -0,0 +1,363 @@
+/**
+ * Investor Matching Skill Implementation
+ * Ranks investors from the curated dataset (backend/data/investors.json) against the
+ * session's funding answers: stage, raise size, sector, geography and thesis keywords.
+ * Every match carries the reasons it scored and the gaps that cost it points.
+ */
+
+import {
+    Skill,
+    ToolDefinition,
+    FundingStage,
+    InvestorMatch,
+    InvestorMatchingInput,
+    InvestorMatchingOutput,
+    InvestorProfile,
+    InvestorType,
+    SkillExecutionError
+} from '../../utils/types';
+import { logger } from '../../utils/logger';
+import investorDataset from '../../data/investors.json';
+
+const DEFAULT_LIMIT = 10;
+const MIN_SCORE = 40;
+const EQUITY_STAGES: FundingStage[] = ['pre_seed', 'seed', 'series_a', 'series_b'];
+
+// Points per criterion (sum 100)
+const WEIGHTS = { stage: 35, cheque: 25, sector: 25, thesis: 10, geography: 5 };
+
+// investor_types answer values -> dataset investor types
+const INVESTOR_TYPE_MAP: Record<string, InvestorType[]> = {
+    angels: ['angel_network'],
+    vcs: ['vc', 'micro_vc'],
+    corporate_vcs: ['corporate_vc'],
+    accelerators: ['accelerator'],
+    family_offices: ['family_office'],
+    crowdfunding: ['crowdfunding'],
+    banks: ['venture_debt']
+};
+
+// Questionnaire industry / business model values -> dataset sectors
+const SECTOR_ALIASES: Record<string, string[]> = {
+    technology: ['technology', 'saas'],
+    tech: ['technology', 'saas'],
+    saas: ['saas', 'technology'],
+    finance: ['fintech'],
+    healthcare: ['healthcare'],
+    health: ['healthcare'],
+    education: ['education'],
+    ecommerce: ['ecommerce', 'consumer'],
+    retail: ['ecommerce', 'consumer'],
+    marketplace: ['consumer', 'ecommerce'],
+    subscription: ['consumer', 'ecommerce'],
+    manufacturing: ['manufacturing'],
+    real_estate: ['real_estate'],
+    media: ['media', 'consumer'],
+    content: ['media', 'consumer'],
+    consulting: ['services'],
+    services: ['services'],
+    agency: ['services'],
+    hospitality: ['consumer'],
+    travel: ['consumer'],
+    logistics: ['logistics'],
+    energy: ['energy', 'climate'],
+    fashion: ['consumer', 'ecommerce'],
+    beauty: ['consumer', 'ecommerce'],
+    sports: ['consumer'],
+    food: ['food', 'consumer'],
+    agriculture: ['agriculture', 'food']
+};
+
+const STAGE_LABELS: Record<FundingStage, string> = {
+    pre_seed: 'Pre-Seed',
+    seed: 'Seed',
+    series_a: 'Series A',
+    series_b: 'Series B+',
+    debt: 'Debt',
+    grants: 'Grants'
+};
+
+// Answers whose free text is matched against investor thesis keywords
+const DESCRIPTION_FIELDS = ['business_idea_detail', 'problem_to_solve', 'current_products', 'unique_advantage', 'funds_allocation'];
+
+/**
+ * Parse an INR amount answer ("₹1,00,00,000", "1.5 Cr", "50 lakh", 10000000)
+ */
+export function parseInrAmount(value: number | string | undefined): number | undefined {
+    if (typeof value === 'number') return Number.isFinite(value) && value > 0 ? value : undefined;
+    if (!value) return undefined;
+
+    const match = String(value).toLowerCase().replace(/,/g, '').match(/(\d+(?:\.\d+)?)\s*(crores?|cr|lakhs?|lacs?|l|k|thousand|m|mn|million)?\b/);
+    if (!match) return undefined;
+
+    const multipliers: Array<[RegExp, number]> = [
+        [/^(crores?|cr)$/, 1e7],
+        [/^(lakhs?|lacs?|l)$/, 1e5],
+        [/^(m|mn|million)$/, 1e6],
+        [/^(k|thousand)$/, 1e3]
+    ];
+    const unit = match[2] ? multipliers.find(([pattern]) => pattern.test(match[2]!)) : undefined;
+    const amount = Number(match[1]) * (unit ? unit[1] : 1);
+    return amount > 0 ? amount : undefined;
+}
+
+/**
+ * Format INR for explanations: ₹2.5 Cr, ₹40 L (market sizes: ₹1.2 L Cr)
+ */
+export function formatInr(amount: number): string {
+    if (amount >= 1e12) return `₹${round(amount / 1e12)} L Cr`;
+    if (amount >= 1e7) return `₹${round(amount / 1e7)} Cr`;
+    if (amount >= 1e5) return `₹${round(amount / 1e5)} L`;
+    return `₹${Math.round(amount).toLocaleString('en-IN')}`;
+}
+
+function round(value: number): number {
+    return Math.round(value * 10) / 10;
+}
+
+/**
+ * Resolve matching criteria from explicit params, falling back to questionnaire answers
+ */
+function resolveCriteria(params: InvestorMatchingInput): InvestorMatchingOutput['criteria'] {
+    const answers = params.answers || {};
+
+    const stage = params.funding_stage || answers.funding_stage;
+    const funding_stage = stage && stage !== 'not_sure' ? stage as FundingStage : undefined;
+
+    const requestedTypes: string[] = params.investor_types || toArray(answers.investor_types);
+    const investor_types = Array.from(new Set(requestedTypes.flatMap(type => INVESTOR_TYPE_MAP[type] || [type as InvestorType])));
+
+    const sectorAnswers = params.sectors || [
+        ...toArray(answers.target_industries),
+        ...toArray(answers.existing_industry),
+        ...toArray(answers.business_model_type)
+    ];
+    const sectors = Array.from(new Set(sectorAnswers.flatMap(sector => SECTOR_ALIASES[sector] || [sector.toLowerCase()])));
+
+    const description = params.description
+        || DESCRIPTION_FIELDS.map(field => answers[field]).filter(value => typeof value === 'string').join(' ');
+
+    return {
+        funding_stage,
+        capital_needed: parseInrAmount(params.capital_needed ?? answers.capital_needed),
+        investor_types,
+        sectors,
+        country: (params.country || 'IN').toUpperCase(),
+        description: description || undefined
+    };
+}
+
+function containsPhrase(text: string, phrase: string): boolean {
+    const escaped = phrase.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return new RegExp(`\\b${escaped}\\b`).test(text);
+}
+
+function toArray(value: any): string[] {
+    if (Array.isArray(value)) return value.filter(v => typeof v === 'string');
+    return typeof value === 'string' && value ? [value] : [];
+}
+
+/**
+ * Score one investor; returns null when a hard filter (stage, investor type) excludes it
+ */
+function scoreInvestor(investor: InvestorProfile, criteria: InvestorMatchingOutput['criteria']): InvestorMatch | null {
+    const reasons: string[] = [];
+    const gaps: string[] = [];
+    let score = 0;
+
+    // Debt and grant stages imply their provider type even if investor_types omits it
+    const impliedByStage = (criteria.funding_stage === 'debt' && investor.type === 'venture_debt')
+        || (criteria.funding_stage === 'grants' && investor.type === 'grant');
+    if (criteria.investor_types.length > 0 && !criteria.investor_types.includes(investor.type) && !impliedByStage) {
+        return null;
+    }
+
+    // Stage: exact match, or one equity stage either side
+    if (criteria.funding_stage) {
+        if (investor.stages.includes(criteria.funding_stage)) {
+            score += WEIGHTS.stage;
+            reasons.push(`Invests at ${STAGE_LABELS[criteria.funding_stage]}`);
+        } else {
+            const index = EQUITY_STAGES.indexOf(criteria.funding_stage);
+            const adjacent = index >= 0 && investor.stages.some(stage => Math.abs(EQUITY_STAGES.indexOf(stage) - index) === 1);
+            if (!adjacent) return null;
+            score += Math.round(WEIGHTS.stage * 0.4);
+            gaps.push(`Usually invests at ${investor.stages.map(stage => STAGE_LABELS[stage]).join(', ')}`);
+        }
+    } else {
+        score += Math.round(WEIGHTS.stage * 0.5);
+    }
+
+    // Cheque size vs raise
+    const chequeRange = `${formatInr(investor.cheque_min)}–${formatInr(investor.cheque_max)}`;
+    const raise = criteria.capital_needed;
+    if (!raise) {
+        score += Math.round(WEIGHTS.cheque * 0.5);
+    } else if (raise >= investor.cheque_min && raise <= investor.cheque_max) {
+        score += WEIGHTS.cheque;
+        reasons.push(`Typical cheque ${chequeRange} covers your ${formatInr(raise)} raise`);
+    } else if (raise > investor.cheque_max) {
+        const share = investor.cheque_max / raise;
+        score += share >= 0.2 ? Math.round(WEIGHTS.cheque * 0.6) : Math.round(WEIGHTS.cheque * 0.2);
+        (share >= 0.2 ? reasons : gaps).push(
+            `Could take up to ${formatInr(investor.cheque_max)} of your ${formatInr(raise)} round alongside other investors`
+        );
+    } else {
+        const near = raise >= investor.cheque_min * 0.5;
+        score += near ? Math.round(WEIGHTS.cheque * 0.4) : 0;
+        gaps.push(`Your ${formatInr(raise)} raise is below their usual ${formatInr(investor.cheque_min)} minimum`);
+    }
+
+    // Sector fit
+    const sectorOverlap = investor.sectors.filter(sector => criteria.sectors.includes(sector));
+    if (sectorOverlap.length > 0) {
+        score += WEIGHTS.sector;
+        reasons.push(`Backs ${sectorOverlap.join(', ')} companies`);
+    } else if (investor.sectors.includes('sector_agnostic')) {
+        score += Math.round(WEIGHTS.sector * 0.6);
+        reasons.push('Sector-agnostic');
+    } else if (criteria.sectors.length === 0) {
+        score += Math.round(WEIGHTS.sector * 0.5);
+    } else {
+        gaps.push(`Focuses on ${investor.sectors.join(', ')}`);
+    }
+
+    // Thesis keywords found in the business description
+    const description = (criteria.description || '').toLowerCase();
+    const thesisHits = investor.thesis_keywords.filter(keyword => containsPhrase(description, keyword.toLowerCase()));
+    if (thesisHits.length > 0) {
+        score += Math.min(WEIGHTS.thesis, thesisHits.length * (WEIGHTS.thesis / 2));
+        reasons.push(`Thesis mentions ${thesisHits.map(hit => `"${hit}"`).join(', ')}`);
+    }
+
+    // Geography
+    if (investor.geographies.includes(criteria.country) || investor.geographies.includes('GLOBAL')) {
+        score += WEIGHTS.geography;
+    } else {
+        gaps.push(`Invests in ${investor.geographies.join(', ')}`);
+    }
+
+    return { investor, score: Math.round(score), reasons, gaps };
+}
+
+/**
+ * Rank the investor dataset against the given criteria / answers
+ */
+export function matchInvestors(params: InvestorMatchingInput): InvestorMatchingOutput {
+    const criteria = resolveCriteria(params);
+    const investors = investorDataset.investors as InvestorProfile[];
+
+    const matches = investors
+        .map(investor => scoreInvestor(investor, criteria))
+        .filter((match): match is InvestorMatch => match !== null && match.score >= MIN_SCORE)
+        .sort((a, b) => b.score - a.score || a.investor.name.localeCompare(b.investor.name))
+        .slice(0, params.limit || DEFAULT_LIMIT);
+
+    return {
+        criteria,
+        matches,
+        dataset: {
+            updated_at: investorDataset.updated_at,
+            investors: investors.length,
+            note: investorDataset.note
+        }
+    };
+}
+
+/**
+ * Render the top matches as a pitch deck appendix section (markdown, one bullet per investor)
+ */
+export function formatInvestorAppendix(output: InvestorMatchingOutput, limit: number = 6): string {
+    if (output.matches.length === 0) return '';
+
+    const bullets = output.matches.slice(0, limit).map(({ investor, score, reasons }) => {
+        const range = `${formatInr(investor.cheque_min)}–${formatInr(investor.cheque_max)}`;
+        return `- **${investor.name}** (${investor.stages.map(stage => STAGE_LABELS[stage]).join(', ')}; ${range}) — fit ${score}/100: ${reasons.join('; ')}`;
+    });
+
+    return [
+        '## Appendix - Investor Targets',
+        ...bullets,
+        `**Source:** Curated investor dataset (updated ${output.dataset.updated_at}); verify cheque sizes before outreach`
+    ].join('\n');
+}
+
+/**
+ * Execute investor matching
+ */
+async function execute(params: InvestorMatchingInput): Promise<InvestorMatchingOutput> {
+    try {
+        logger.info('Executing investor matching', {
+            funding_stage: params.funding_stage || params.answers?.funding_stage,
+            capital_needed: params.capital_needed ?? params.answers?.capital_needed
+        });
+
+        const output = matchInvestors(params);
+
+        logger.info('Investor matching complete', {
+            matches: output.matches.length,
+            top_match: output.matches[0]?.investor.name
+        });
+
+        return output;
+    } catch (error) {
+        logger.error('Investor matching failed', error);
+        throw new SkillExecutionError('Investor matching failed', 'investor_matching', error);
+    }
+}
+
+/**
+ * Get tool definition for Groq function calling
+ */
+function getToolDefinition(): ToolDefinition {
+    return {
+        type: 'function',
+        function: {
+            name: 'investor_matching',
+            description: 'Rank investors (VCs, angel networks, accelerators, venture debt, grants) from a curated India-focused dataset against the startup\'s funding stage, raise size, sector and thesis, with reasons for each match.',
+            parameters: {
+                type: 'object',
+                properties: {
+                    answers: {
+                        type: 'object',
+                        description: 'Questionnaire answers (funding_stage, capital_needed, investor_types, target_industries, business_idea_detail, ...)'
+                    },
+                    funding_stage: {
+                        type: 'string',
+                        enum: ['pre_seed', 'seed', 'series_a', 'series_b', 'debt', 'grants', 'not_sure']
+                    },
+                    capital_needed: {
+                        type: 'string',
+                        description: 'Amount to raise in INR, e.g. "2 Cr" or "20000000"'
+                    },
+                    investor_types: {
+                        type: 'array',
+                        items: {
+                            type: 'string',
+                            enum: ['angels', 'vcs', 'corporate_vcs', 'accelerators', 'family_offices', 'crowdfunding', 'banks']
+                        }
+                    },
+                    sectors: {
+                        type: 'array',
+                        items: { type: 'string' },
+                        description: 'Industries, e.g. ["technology", "healthcare"]'
+                    },
+                    description: {
+                        type: 'string',
+                        description: 'Short business description matched against investor theses'
+                    },
+                    limit: { type: 'number', description: 'Maximum matches (default 10)' }
+                },
+                required: []
+            }
+        }
+    };
+}
+
+export const investorMatchingSkill: Skill = {
+    id: 'investor_matching',
+    name: 'Investor Matching',
+    description: 'Rank investors against the startup\'s stage, raise, sector and thesis',
+    execute,
+    getToolDefinition
+};
@@ -1,96 +1,505 @@
 /**
  * Market Sizing Calculator Skill Implementation
- * Calculates TAM, SAM, and SOM for market analysis
+ * Calculates TAM, SAM, and SOM two ways and reconciles them:
+ *   top-down   industry market size from the versioned market dataset (backend/data/market),
+ *              projected with its CAGR and narrowed by region, customer segment and location
+ *   bottom-up  potential customers from the dataset's customer pools x the annual price
+ *              derived from the session's Phase 4/5 answers
+ * Every figure carries its derivation and the sources it rests on.
  */
 
 import {
     Skill,
     ToolDefinition,
+    MarketCitation,
+    MarketCustomerType,
+    MarketIndustry,
+    MarketReconciliation,
+    MarketRegion,
+    MarketSizeEstimate,
     MarketSizingInput,
     MarketSizingOutput,
     SkillExecutionError
 } from '../../utils/types';
 import { logger } from '../../utils/logger';
+import { getMarketData, MarketDataService } from '../../services/market-data';
+import { formatInr, parseInrAmount } from './investor_matching';
 
-/**
- * Market size data (simplified - in production would use real data sources)
- */
-const MARKET_DATA: Record<string, any> = {
-    'saas': { global_tam: 195000000000, growth_rate: 18 },
-    'ecommerce': { global_tam: 5700000000000, growth_rate: 14 },
-    'fintech': { global_tam: 310000000000, growth_rate: 23 },
-    'healthtech': { global_tam: 280000000000, growth_rate: 21 },
-    'edtech': { global_tam: 254000000000, growth_rate: 17 },
-    'food_delivery': { global_tam: 150000000000, growth_rate: 11 },
-    'default': { global_tam: 100000000000, growth_rate: 10 }
+// customer_type answers / target_segment values -> customer pools
+const CUSTOMER_TYPE_MAP: Record<string, MarketCustomerType[]> = {
+    b2c: ['b2c'],
+    consumer: ['b2c'],
+    b2b2c: ['b2c'], // Revenue is driven by end consumers reached through partners
+    b2b: ['b2b'],
+    smb: ['b2b'],
+    enterprise: ['b2b'],
+    business: ['b2b'],
+    b2g: ['b2g'],
+    government: ['b2g'],
+    hybrid: ['b2b', 'b2c']
+};
+
+// target_segment values that imply a company size when company_size_target is unanswered
+const SEGMENT_COMPANY_SIZE: Record<string, string> = {
+    smb: 'small',
+    enterprise: 'enterprise'
+};
+
+const BILLING_PERIODS_PER_YEAR: Record<string, number> = {
+    weekly: 52,
+    monthly: 12,
+    quarterly: 4,
+    semi_annual: 2,
+    annual: 1,
+    multi_year: 1 / 3, // Assume a three-year contract
+    custom: 1
 };
 
-const GEOGRAPHY_MULTIPLIERS: Record<string, number> = {
-    'global': 1.0,
-    'north_america': 0.35,
-    'europe': 0.25,
-    'asia': 0.30,
-    'india': 0.08,
-    'usa': 0.30,
-    'default': 0.05
+// Billing period written into a price answer ("₹999/month") wins over billing_frequency
+export const PRICE_PERIODS: Array<[RegExp, number, string]> = [
+    [/(?:per|\/|\ba)\s*(?:week|wk)\b|\bweekly\b/, 52, 'week'],
+    [/(?:per|\/|\ba)\s*(?:month|mo)\b|\bmonthly\b|\bpm\b/, 12, 'month'],
+    [/(?:per|\/|\ba)\s*quarter\b|\bquarterly\b/, 4, 'quarter'],
+    [/(?:per|\/|\ba)\s*(?:year|yr|annum)\b|\bannual(?:ly)?\b|\byearly\b|\bpa\b/, 1, 'year'],
+    [/one[- ]time|lifetime/, 1, 'one-time purchase']
+];
+
+const CUSTOMER_TYPE_LABELS: Record<MarketCustomerType, string> = {
+    b2b: 'B2B',
+    b2c: 'B2C',
+    b2g: 'B2G'
 };
 
+interface SizingCriteria {
+    industry?: MarketIndustry;
+    industryInput?: string;
+    region: MarketRegion;
+    regionAssumed: boolean;
+    customerTypes: MarketCustomerType[];
+    targetLocation?: string;
+    companySize?: string;
+    price?: { annual: number; basis: string };
+    monthlyCustomers?: number;
+    revenueTargetYear1?: number;
+}
+
+/**
+ * Collects the sources behind each figure for the citations list
+ */
+class CitationTracker {
+    private used = new Map<string, string[]>();
+
+    cite(sourceId: string | undefined, usedFor: string): void {
+        if (!sourceId) return;
+        const uses = this.used.get(sourceId) || [];
+        if (!uses.includes(usedFor)) uses.push(usedFor);
+        this.used.set(sourceId, uses);
+    }
+
+    toCitations(data: MarketDataService): MarketCitation[] {
+        return Array.from(this.used.entries())
+            .map(([id, used_for]) => {
+                const source = data.source(id);
+                return source ? { ...source, used_for } : undefined;
+            })
+            .filter((citation): citation is MarketCitation => citation !== undefined);
+    }
+}
+
+function toArray(value: any): string[] {
+    if (Array.isArray(value)) return value.filter(v => typeof v === 'string');
+    return typeof value === 'string' && value ? [value] : [];
+}
+
+function formatUsd(amount: number): string {
+    if (amount >= 1e12) return `$${round(amount / 1e12)}T`;
+    if (amount >= 1e9) return `$${round(amount / 1e9)}B`;
+    if (amount >= 1e6) return `$${round(amount / 1e6)}M`;
+    return `$${Math.round(amount).toLocaleString('en-US')}`;
+}
+
+function formatCount(count: number): string {
+    if (count >= 1e7) return `${round(count / 1e7)} Cr`;
+    if (count >= 1e5) return `${round(count / 1e5)} L`;
+    return Math.round(count).toLocaleString('en-IN');
+}
+
+function formatPct(share: number): string {
+    return `${round(share * 100)}%`;
+}
+
+function round(value: number): number {
+    return Math.round(value * 10) / 10;
+}
+
 /**
- * Calculate TAM (Total Addressable Market)
+ * Annual revenue per customer from arpu / target_price and the billing period
  */
-function calculateTAM(industry: string, geography: string): number {
-    const industryKey = industry.toLowerCase().replace(/\s+/g, '_');
-    const geoKey = geography.toLowerCase().replace(/\s+/g, '_');
+export function annualPrice(answers: Record<string, any>): { annual: number; basis: string } | undefined {
+    for (const field of ['arpu', 'target_price']) {
+        const raw = answers[field];
+        const amount = parseInrAmount(raw);
+        if (!amount) continue;
 
-    const marketData = MARKET_DATA[industryKey] || MARKET_DATA['default'];
-    const geoMultiplier = GEOGRAPHY_MULTIPLIERS[geoKey] || GEOGRAPHY_MULTIPLIERS['default'];
+        const text = typeof raw === 'string' ? raw.toLowerCase() : '';
+        const period = PRICE_PERIODS.find(([pattern]) => pattern.test(text));
+        if (period) {
+            return {
+                annual: amount * period[1],
+                basis: `${field} ${formatInr(amount)} per ${period[2]}${period[1] !== 1 ? ` x ${period[1]}` : ''}`
+            };
+        }
+
+        const billing = answers.billing_frequency;
+        const perYear = BILLING_PERIODS_PER_YEAR[billing];
+        if (perYear !== undefined) {
+            return {
+                annual: amount * perYear,
+                basis: `${field} ${formatInr(amount)} billed ${String(billing).replace(/_/g, '-')} (x ${round(perYear)} per year)`
+            };
+        }
 
-    return marketData.global_tam * geoMultiplier;
+        return { annual: amount, basis: `${field} ${formatInr(amount)}, assumed once per customer per year` };
+    }
+    return undefined;
 }
 
 /**
- * Calculate SAM (Serviceable Addressable Market)
- * Typically 10-30% of TAM based on target segment
+ * Resolve sizing criteria from explicit params, falling back to questionnaire answers
  */
-function calculateSAM(tam: number, targetSegment: string): number {
-    // Segment multipliers (how much of TAM is addressable)
-    const segmentMultipliers: Record<string, number> = {
-        'enterprise': 0.15,
-        'smb': 0.25,
-        'consumer': 0.30,
-        'b2b': 0.20,
-        'b2c': 0.25,
-        'default': 0.20
+function resolveCriteria(params: MarketSizingInput, data: MarketDataService): SizingCriteria {
+    const answers = params.answers || {};
+
+    const industryCandidates = [
+        ...toArray(params.industry),
+        ...toArray(answers.target_industries),
+        ...toArray(answers.existing_industry),
+        ...toArray(answers.business_model_type)
+    ];
+    const industry = industryCandidates.map(candidate => data.findIndustry(candidate)).find(Boolean);
+
+    const location = params.geography || answers.primary_market;
+    const foundRegion = data.findRegion(location);
+    const region = foundRegion || data.load().regions.find(r => r.id === 'india')!;
+
+    const segment = String(params.target_segment || answers.customer_type || '').toLowerCase().trim();
+    const customerTypes = CUSTOMER_TYPE_MAP[segment] || [];
+
+    const monthly = Number(answers.monthly_customers);
+
+    return {
+        industry,
+        industryInput: industryCandidates[0],
+        region,
+        regionAssumed: !foundRegion,
+        customerTypes,
+        targetLocation: answers.target_location && answers.target_location !== 'all' ? answers.target_location : undefined,
+        companySize: answers.company_size_target && answers.company_size_target !== 'all_sizes'
+            ? answers.company_size_target
+            : SEGMENT_COMPANY_SIZE[segment],
+        price: annualPrice(answers),
+        monthlyCustomers: Number.isFinite(monthly) && monthly > 0 ? monthly : undefined,
+        revenueTargetYear1: parseInrAmount(answers.revenue_target_year1)
     };
+}
+
+/**
+ * Top-down: industry size x regional share x segment share x location reach
+ */
+function topDown(criteria: SizingCriteria, data: MarketDataService, citations: CitationTracker): MarketSizeEstimate | string {
+    const industry = criteria.industry;
+    if (!industry) {
+        return criteria.industryInput
+            ? `No industry data for "${criteria.industryInput}" in the market dataset`
+            : 'No industry answer to size top-down';
+    }
 
-    const segmentKey = targetSegment.toLowerCase().replace(/\s+/g, '_');
-    const multiplier = segmentMultipliers[segmentKey] || segmentMultipliers['default'];
+    const dataset = data.load();
+    const assumptions: string[] = [];
+    const sourceIds: string[] = [...industry.source_ids];
+    industry.source_ids.forEach(id => citations.cite(id, `Top-down TAM: ${industry.name} global market`));
 
-    return tam * multiplier;
+    const years = Math.max(0, new Date().getFullYear() - industry.base_year);
+    const growth = Math.pow(1 + industry.cagr_pct / 100, years);
+    const globalNow = industry.global_market_usd * growth;
+
+    const split = data.regionalSplit(industry.id, criteria.region.id);
+    const regionalShare = split ? split.share_pct / 100 : 1;
+    if (split) {
+        sourceIds.push(split.source_id);
+        citations.cite(split.source_id, `Top-down TAM: ${criteria.region.name} share`);
+        if (split.industry_id === '*' && criteria.region.id !== 'global') {
+            assumptions.push(`No ${industry.name} split for ${criteria.region.name}; used its share of world GDP (${split.share_pct}%)`);
+        }
+    }
+
+    const tam = globalNow * regionalShare * dataset.usd_inr;
+    const tamDerivation = [
+        `${industry.name} global market ${formatUsd(industry.global_market_usd)} (${industry.base_year})`,
+        years > 0 ? `grown ${years} yr at ${industry.cagr_pct}% CAGR = ${formatUsd(globalNow)}` : '',
+        criteria.region.id !== 'global' ? `x ${criteria.region.name} share ${split?.share_pct}%` : '',
+        `x ₹${dataset.usd_inr}/$ = ${formatInr(tam)}`
+    ].filter(Boolean).join(' ');
+
+    // SAM: share of spend from the targeted customer types (B2C narrowed by location type)
+    let samShare = 1;
+    const samParts: string[] = [];
+    if (criteria.customerTypes.length > 0) {
+        samShare = 0;
+        const reach = data.locationReach(criteria.region.id);
+        criteria.customerTypes.forEach(type => {
+            let share = industry.segment_shares[type] ?? 0;
+            let part = `${CUSTOMER_TYPE_LABELS[type]} ${formatPct(share)}`;
+            if (type === 'b2c' && criteria.targetLocation && reach.shares[criteria.targetLocation] !== undefined) {
+                const locationShare = reach.shares[criteria.targetLocation];
+                share *= locationShare;
+                part += ` x ${criteria.targetLocation.replace(/_/g, ' ')} reach ${formatPct(locationShare)}`;
+                reach.source_ids.forEach(id => {
+                    sourceIds.push(id);
+                    citations.cite(id, 'Top-down SAM: location reach');
+                });
+            }
+            samShare += share;
+            samParts.push(part);
+        });
+        samShare = Math.min(1, samShare);
+    } else {
+        assumptions.push('Customer type not answered; SAM equals TAM');
+    }
+
+    const sam = tam * samShare;
+    const somShare = dataset.assumptions.som_share_of_sam;
+    const som = sam * somShare;
+    assumptions.push(`SOM assumes a ${formatPct(somShare)} share of SAM within ${dataset.assumptions.som_horizon_years} years`);
+
+    return {
+        method: 'top_down',
+        tam,
+        sam,
+        som,
+        derivation: {
+            tam: tamDerivation,
+            sam: samParts.length > 0 ? `TAM ${formatInr(tam)} x ${samParts.join(' + ')} = ${formatInr(sam)}` : `TAM ${formatInr(tam)}`,
+            som: `SAM ${formatInr(sam)} x ${formatPct(somShare)} = ${formatInr(som)}`
+        },
+        assumptions,
+        source_ids: Array.from(new Set(sourceIds)),
+        cagr_pct: industry.cagr_pct,
+        tam_in_5_years: tam * Math.pow(1 + industry.cagr_pct / 100, 5)
+    };
 }
 
 /**
- * Calculate SOM (Serviceable Obtainable Market)
- * Typically 5-15% of SAM in first 3-5 years
+ * Bottom-up: potential customers x annual price per customer
  */
-function calculateSOM(sam: number, approach: string): number {
-    // Conservative estimate: 10% of SAM in 5 years
-    const somMultiplier = approach === 'bottom_up' ? 0.08 : 0.10;
-    return sam * somMultiplier;
+function bottomUp(criteria: SizingCriteria, data: MarketDataService, citations: CitationTracker): MarketSizeEstimate | string {
+    if (!criteria.price) return 'No target_price or arpu answer to size bottom-up';
+    if (criteria.customerTypes.length === 0) return 'No customer_type answer to size bottom-up';
+
+    const dataset = data.load();
+    const price = criteria.price.annual;
+    const assumptions: string[] = [`Annual revenue per customer: ${criteria.price.basis} = ${formatInr(price)}`];
+    const sourceIds: string[] = [];
+    const tamParts: string[] = [];
+    const samParts: string[] = [];
+    let tamCustomers = 0;
+    let samCustomers = 0;
+
+    for (const type of criteria.customerTypes) {
+        const pool = data.customerPool(criteria.region.id, type);
+        if (!pool) {
+            assumptions.push(`No ${CUSTOMER_TYPE_LABELS[type]} customer pool for ${criteria.region.name}`);
+            continue;
+        }
+        sourceIds.push(pool.source_id);
+        citations.cite(pool.source_id, `Bottom-up TAM: ${criteria.region.name} ${pool.unit}`);
+        tamCustomers += pool.count;
+        tamParts.push(`${formatCount(pool.count)} ${pool.unit}`);
+
+        if (type === 'b2c' && criteria.targetLocation) {
+            const reach = data.locationReach(criteria.region.id);
+            const share = reach.shares[criteria.targetLocation] ?? 1;
+            samCustomers += pool.count * share;
+            samParts.push(`${formatCount(pool.count * share)} ${criteria.targetLocation.replace(/_/g, ' ')} ${pool.unit} (${formatPct(share)})`);
+            reach.source_ids.forEach(id => {
+                sourceIds.push(id);
+                citations.cite(id, 'Bottom-up SAM: location reach');
+            });
+        } else if (type === 'b2b' && criteria.companySize && pool.by_size?.[criteria.companySize] !== undefined) {
+            const count = pool.by_size[criteria.companySize];
+            samCustomers += count;
+            samParts.push(`${formatCount(count)} ${criteria.companySize.replace(/_/g, ' ')} ${pool.unit}`);
+            const sizeSource = pool.size_source_id && ['enterprise', 'large_enterprise'].includes(criteria.companySize)
+                ? pool.size_source_id
+                : pool.source_id;
+            sourceIds.push(sizeSource);
+            citations.cite(sizeSource, 'Bottom-up SAM: companies by size');
+        } else {
+            samCustomers += pool.count;
+            samParts.push(`${formatCount(pool.count)} ${pool.unit}`);
+        }
+    }
+
+    if (tamCustomers === 0) return `No customer pool for ${criteria.region.name} in the market dataset`;
+
+    const tam = tamCustomers * price;
+    const sam = samCustomers * price;
+
+    let som: number;
+    let somDerivation: string;
+    const horizon = dataset.assumptions.som_horizon_years;
+    if (criteria.monthlyCustomers) {
+        const wonCustomers = Math.min(samCustomers, criteria.monthlyCustomers * 12 * horizon);
+        som = wonCustomers * price;
+        somDerivation = `${formatCount(criteria.monthlyCustomers)} new customers/month x 12 x ${horizon} yr = ${formatCount(wonCustomers)} customers x ${formatInr(price)} = ${formatInr(som)}`;
+        assumptions.push(`SOM assumes all customers acquired over ${horizon} years are retained`);
+    } else {
+        const somShare = dataset.assumptions.som_share_of_sam;
+        som = sam * somShare;
+        somDerivation = `SAM ${formatInr(sam)} x ${formatPct(somShare)} = ${formatInr(som)} (no monthly_customers answer)`;
+        assumptions.push(`SOM assumes a ${formatPct(somShare)} share of SAM within ${horizon} years`);
+    }
+
+    return {
+        method: 'bottom_up',
+        tam,
+        sam,
+        som,
+        derivation: {
+            tam: `${tamParts.join(' + ')} x ${formatInr(price)}/yr = ${formatInr(tam)}`,
+            sam: `${samParts.join(' + ')} x ${formatInr(price)}/yr = ${formatInr(sam)}`,
+            som: somDerivation
+        },
+        assumptions,
+        source_ids: Array.from(new Set(sourceIds))
+    };
 }
 
 /**
- * Determine confidence level based on data quality
+ * Compare the two methods and pick the figures to present
  */
-function determineConfidence(industry: string, geography: string): 'high' | 'medium' | 'low' {
-    const hasGoodData = MARKET_DATA.hasOwnProperty(industry.toLowerCase().replace(/\s+/g, '_'));
-    const hasGoodGeo = GEOGRAPHY_MULTIPLIERS.hasOwnProperty(geography.toLowerCase().replace(/\s+/g, '_'));
+function reconcile(
+    top: MarketSizeEstimate | undefined,
+    bottom: MarketSizeEstimate | undefined,
+    criteria: SizingCriteria,
+    data: MarketDataService
+): MarketReconciliation {
+    const notes: string[] = [];
+    let reconciliation: MarketReconciliation;
+
+    if (top && bottom) {
+        const { consistent_ratio, divergent_ratio } = data.load().assumptions;
+        const ratios = {
+            tam: round2(bottom.tam / top.tam),
+            sam: round2(bottom.sam / top.sam),
+            som: round2(bottom.som / top.som)
+        };
+        const spread = Math.max(ratios.tam, 1 / ratios.tam);
+        const status = spread <= consistent_ratio ? 'consistent' : spread <= divergent_ratio ? 'divergent' : 'inconsistent';
+
+        if (status === 'consistent') {
+            notes.push(`Bottom-up TAM is within ${consistent_ratio}x of the top-down industry figure, so the price and customer assumptions are in line with reported market spend`);
+        } else if (ratios.tam > 1) {
+            notes.push(`Bottom-up TAM is ${round(ratios.tam)}x the top-down figure: price x customer pool implies more spend than the whole industry reports. Check whether the price is realistic for every customer in the pool`);
+        } else {
+            notes.push(`Bottom-up TAM is ${round(1 / ratios.tam)}x below the top-down figure: the product addresses a niche of the reported industry, so the top-down number overstates the opportunity`);
+        }
+
+        // Bottom-up is tied to the business's own pricing; fall back to top-down only when it overshoots the whole industry
+        const basis = status === 'inconsistent' && ratios.tam > 1 ? 'top_down' : 'bottom_up';
+        notes.push(basis === 'bottom_up'
+            ? 'Headline figures use the bottom-up method; quote the top-down figure as a cross-check'
+            : 'Headline figures use the top-down method until the bottom-up price and customer assumptions are revisited');
 
-    if (hasGoodData && hasGoodGeo) return 'high';
-    if (hasGoodData || hasGoodGeo) return 'medium';
+        reconciliation = { status, ratios, basis, notes };
+    } else {
+        reconciliation = { status: 'single_method', basis: top ? 'top_down' : 'bottom_up', notes };
+    }
+
+    const chosen = reconciliation.basis === 'top_down' ? top : bottom;
+    if (chosen && criteria.revenueTargetYear1) {
+        const share = criteria.revenueTargetYear1 / chosen.som;
+        notes.push(share > 1
+            ? `Year-1 revenue target ${formatInr(criteria.revenueTargetYear1)} exceeds the SOM of ${formatInr(chosen.som)}; revisit the target or the SOM assumptions`
+            : `Year-1 revenue target ${formatInr(criteria.revenueTargetYear1)} is ${formatPct(share)} of the SOM`);
+    }
+
+    return reconciliation;
+}
+
+function round2(value: number): number {
+    return Math.round(value * 100) / 100;
+}
+
+function determineConfidence(
+    top: MarketSizeEstimate | undefined,
+    bottom: MarketSizeEstimate | undefined,
+    reconciliation: MarketReconciliation,
+    criteria: SizingCriteria
+): 'high' | 'medium' | 'low' {
+    if (reconciliation.status === 'consistent') return criteria.regionAssumed ? 'medium' : 'high';
+    if (reconciliation.status === 'divergent') return 'medium';
+    if (reconciliation.status === 'inconsistent') return 'low';
+    if (bottom && criteria.monthlyCustomers) return 'medium';
+    if (top && criteria.industry && !criteria.regionAssumed) return 'medium';
     return 'low';
 }
 
+/**
+ * Size the market from explicit params and/or questionnaire answers
+ */
+export function sizeMarket(params: MarketSizingInput, data: MarketDataService = getMarketData()): MarketSizingOutput {
+    const dataset = data.load();
+    const criteria = resolveCriteria(params, data);
+    const approach = params.approach || 'both';
+    const citations = new CitationTracker();
+    const skipped: string[] = [];
+
+    const topResult = approach !== 'bottom_up' ? topDown(criteria, data, citations) : undefined;
+    const bottomResult = approach !== 'top_down' ? bottomUp(criteria, data, citations) : undefined;
+    const top = typeof topResult === 'object' ? topResult : undefined;
+    const bottom = typeof bottomResult === 'object' ? bottomResult : undefined;
+    if (typeof topResult === 'string') skipped.push(`Top-down skipped: ${topResult}`);
+    if (typeof bottomResult === 'string') skipped.push(`Bottom-up skipped: ${bottomResult}`);
+
+    if (!top && !bottom) {
+        throw new Error(skipped.join('; ') || 'Not enough data to size the market');
+    }
+
+    const reconciliation = reconcile(top, bottom, criteria, data);
+    reconciliation.notes.unshift(...skipped);
+    const chosen = (reconciliation.basis === 'top_down' ? top : bottom)!;
+
+    const assumptions = [
+        criteria.industry ? `Industry: ${criteria.industry.name}` : '',
+        `Geography: ${criteria.region.name}${criteria.regionAssumed ? ' (location not recognised; assumed)' : ''}`,
+        criteria.customerTypes.length > 0 ? `Customer type: ${criteria.customerTypes.map(type => CUSTOMER_TYPE_LABELS[type]).join(' + ')}` : '',
+        ...(top?.assumptions || []),
+        ...(bottom?.assumptions || [])
+    ].filter(Boolean);
+
+    const methodology = top && bottom
+        ? 'Top-down (industry market data x regional and segment shares) and bottom-up (customer pool x annual price), reconciled'
+        : top
+            ? 'Top-down analysis using industry market data, regional splits and segment shares'
+            : 'Bottom-up analysis based on customer counts and pricing';
+
+    return {
+        tam: chosen.tam,
+        sam: chosen.sam,
+        som: chosen.som,
+        currency: 'INR',
+        methodology,
+        assumptions: Array.from(new Set(assumptions)),
+        confidence_level: determineConfidence(top, bottom, reconciliation, criteria),
+        top_down: top,
+        bottom_up: bottom,
+        reconciliation,
+        citations: citations.toCitations(data),
+        dataset: { version: dataset.version, updated_at: dataset.updated_at }
+    };
+}
+
 /**
  * Execute market sizing calculation
  */
@@ -98,44 +507,18 @@ async function execute(params: MarketSizingInput): Promise<MarketSizingOutput> {
     try {
         logger.info('Executing market sizing', {
             industry: params.industry,
-            geography: params.geography
+            geography: params.geography,
+            approach: params.approach || 'both'
         });
 
-        const tam = calculateTAM(params.industry, params.geography);
-        const sam = calculateSAM(tam, params.target_segment);
-        const som = calculateSOM(sam, params.approach);
-
-        const confidence = determineConfidence(params.industry, params.geography);
-
-        const assumptions = [
-            `Industry: ${params.industry}`,
-            `Geography: ${params.geography}`,
-            `Target Segment: ${params.target_segment}`,
-            `Approach: ${params.approach}`,
-            `SAM estimated at 20% of TAM (typical for ${params.target_segment})`,
-            `SOM estimated at 10% of SAM (achievable in 5 years)`
-        ];
-
-        const methodology = params.approach === 'top_down'
-            ? 'Top-down analysis using industry reports and market data'
-            : params.approach === 'bottom_up'
-                ? 'Bottom-up analysis based on customer segments and pricing'
-                : 'Hybrid approach combining top-down and bottom-up methodologies';
-
-        const output: MarketSizingOutput = {
-            tam,
-            sam,
-            som,
-            methodology,
-            assumptions,
-            confidence_level: confidence
-        };
+        const output = sizeMarket(params);
 
         logger.info('Market sizing complete', {
-            tam: tam.toLocaleString(),
-            sam: sam.toLocaleString(),
-            som: som.toLocaleString(),
-            confidence
+            tam: output.tam.toLocaleString(),
+            sam: output.sam.toLocaleString(),
+            som: output.som.toLocaleString(),
+            reconciliation: output.reconciliation.status,
+            confidence: output.confidence_level
         });
 
         return output;
@@ -153,29 +536,33 @@ function getToolDefinition(): ToolDefinition {
         type: 'function',
         function: {
             name: 'market_sizing_calculator',
-            description: 'Calculate Total Addressable Market (TAM), Serviceable Addressable Market (SAM), and Serviceable Obtainable Market (SOM) for a business opportunity.',
+            description: 'Calculate Total Addressable Market (TAM), Serviceable Addressable Market (SAM), and Serviceable Obtainable Market (SOM) in INR, top-down from a sourced industry dataset and bottom-up from customer counts x price, with derivations, citations and a reconciliation of the two methods.',
             parameters: {
                 type: 'object',
                 properties: {
+                    answers: {
+                        type: 'object',
+                        description: 'Questionnaire answers (primary_market, customer_type, target_location, company_size_target, target_price, billing_frequency, arpu, monthly_customers, revenue_target_year1, target_industries, ...)'
+                    },
                     industry: {
                         type: 'string',
                         description: 'Industry or market category (e.g., SaaS, ecommerce, fintech)'
                     },
                     geography: {
                         type: 'string',
-                        description: 'Geographic market (e.g., global, USA, India, Europe)'
+                        description: 'Geographic market (e.g., global, USA, India, Europe, Hyderabad)'
                     },
                     target_segment: {
                         type: 'string',
-                        description: 'Target customer segment (e.g., enterprise, SMB, consumer, B2B)'
+                        description: 'Target customer segment (e.g., b2c, b2b, b2g, hybrid, enterprise, SMB, consumer)'
                     },
                     approach: {
                         type: 'string',
                         enum: ['top_down', 'bottom_up', 'both'],
-                        description: 'Market sizing methodology'
+                        description: 'Market sizing methodology (default both)'
                     }
                 },
-                required: ['industry', 'geography', 'target_segment', 'approach']
+                required: []
             }
         }
     };
@@ -184,7 +571,7 @@ function getToolDefinition(): ToolDefinition {
 export const marketSizingSkill: Skill = {
     id: 'market_sizing_calculator',
     name: 'Market Sizing Calculator',
-    description: 'Calculate TAM, SAM, and SOM for market opportunity analysis',
+    description: 'Calculate TAM, SAM, and SOM top-down and bottom-up with cited sources',
     execute,
     getToolDefinition
 };
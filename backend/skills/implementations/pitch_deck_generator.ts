@@ -1,15 +1,34 @@
 /**
  * Pitch Deck Generator Skill Implementation
- * Generates investor-ready pitch decks with Poppins typography and monochrome design
+ * Generates investor-ready pitch decks with Poppins typography and monochrome design.
+ * Slide content comes from business_data, falling back to the session answers (and the
+ * market sizing, competitor, compliance and investor skills run on them); slides without
+ * data become marked placeholders listed in missing_data. The PPTX is rendered with
+ * pptxgenjs and stored in artifact storage, so deck_url resolves.
  */
 
 import {
     Skill,
     ToolDefinition,
+    CompetitorAnalysisOutput,
+    ComplianceChecklistItem,
+    FinancialModelingOutput,
+    FinancialStatementPeriod,
+    MarketSizingOutput,
+    PitchDeckChart,
+    PitchDeckInput,
+    PitchDeckOutput,
+    PitchDeckSlide,
     SkillExecutionError
 } from '../../utils/types';
 import { logger } from '../../utils/logger';
 import { v4 as uuidv4 } from 'uuid';
+import { getArtifactStorage } from '../../services/artifact-storage';
+import { buildPitchDeckPresentation } from '../../services/pitch-deck-presentation';
+import { analyzeCompetitors } from './competitor_analysis';
+import { checkCompliance } from './compliance_checker';
+import { formatInr, matchInvestors, parseInrAmount } from './investor_matching';
+import { sizeMarket } from './market_sizing';
 
 /**
  * MANDATORY DESIGN SYSTEM (same as branded_document_generator)
@@ -42,46 +61,75 @@ const PITCH_DECK_DESIGN_SYSTEM = {
     }
 } as const;
 
-/**
- * Pitch Deck Input
- */
-interface PitchDeckInput {
-    deck_type: 'full' | 'elevator' | 'data_room';
-    business_name: string;
-    business_data: {
-        problem?: string;
-        solution?: string;
-        market_size?: { tam: number; sam: number; som: number };
-        competitors?: string[];
-        revenue_streams?: any[];
-        financial_projections?: any;
-        unit_economics?: { cac: number; ltv: number; ratio: number };
-        team?: any[];
-        funding_ask?: { amount: number; use_of_funds: any };
-        traction?: any;
-    };
-    branding?: {
-        logo_url?: string;
-        tagline?: string;
-    };
-}
+const PPTX_CONTENT_TYPE = 'application/vnd.openxmlformats-officedocument.presentationml.presentation';
+const PROJECTION_YEARS = 5;
+
+// Questionnaire option labels used on slides
+const VALIDATION_LABELS: Record<string, string> = {
+    paying: 'Paying customers',
+    interest: 'Verbal interest from prospective customers',
+    surveyed: 'Customer surveys and research completed',
+    confident: 'Not yet validated with customers'
+};
+const CURRENT_REVENUE_LABELS: Record<string, string> = {
+    '<5l': '< ₹5 Lakhs',
+    '5-10l': '₹5-10 Lakhs',
+    '10-25l': '₹10-25 Lakhs',
+    '25-50l': '₹25-50 Lakhs',
+    '50l-1cr': '₹50L - ₹1Cr',
+    '1-5cr': '₹1-5 Cr',
+    '5-10cr': '₹5-10 Cr',
+    '10cr+': '₹10 Cr+'
+};
+const REVENUE_MODEL_LABELS: Record<string, string> = {
+    one_time: 'One-time sale',
+    recurring: 'Recurring revenue',
+    usage: 'Usage-based',
+    freemium: 'Freemium',
+    commission: 'Commission / marketplace',
+    advertising: 'Advertising',
+    licensing: 'Licensing',
+    hybrid: 'Hybrid model'
+};
+const HIRING_LABELS: Record<string, string> = {
+    product_mgr: 'Product Manager',
+    software: 'Software Engineers',
+    designers: 'Designers',
+    support: 'Customer Support',
+    hr: 'HR'
+};
+// growth_rate answer -> annual growth used for the revenue projection
+const GROWTH_RATE_MIDPOINTS: Record<string, number> = {
+    '20-40': 30,
+    '50-100': 75,
+    '100-200': 150,
+    '200+': 200
+};
 
 /**
- * Pitch Deck Output
+ * Everything the slides draw on, resolved once per deck
  */
-interface PitchDeckOutput {
-    deck_id: string;
-    deck_url: string;
-    deck_type: 'full' | 'elevator' | 'data_room';
-    slide_count: number;
-    format: 'pptx';
-    status: 'generated';
-    generated_at: string;
-    design_system: {
-        font: string;
-        color_mode: string;
-        style: string;
-    };
+interface DeckContent {
+    businessName: string;
+    tagline?: string;
+    founder?: string;
+    problem?: string;
+    solution?: string;
+    market?: { tam: number; sam: number; som: number; source: string };
+    sizing?: MarketSizingOutput;
+    competitors?: CompetitorAnalysisOutput;
+    competitorMatrix?: CompetitorAnalysisOutput['slide']; // Every compared feature
+    competitorNames: string[];
+    businessModel: string[];
+    revenue?: { years: number[]; basis: string };
+    model?: FinancialModelingOutput;
+    unitEconomics: Array<{ label: string; value: string; caption?: string }>;
+    team: Array<{ name: string; role?: string; bio?: string }>;
+    teamNotes: string[];
+    funding?: { amount?: number; uses: Array<{ label: string; percent: number }>; description?: string };
+    traction: string[];
+    milestones: string[];
+    answers: Record<string, any>;
 }
 
 /**
@@ -94,39 +142,57 @@ async function execute(params: PitchDeckInput): Promise<PitchDeckOutput> {
             type: params.deck_type
         });
 
+        const content = resolveDeckContent(params);
+
         // Validate business data completeness
-        validateBusinessData(params.business_data);
+        validateBusinessData(content);
 
         // Generate appropriate deck based on type
-        let slideCount: number;
+        const missing: string[] = [];
+        let slides: PitchDeckSlide[];
         switch (params.deck_type) {
             case 'full':
-                slideCount = await generateFullDeck(params);
+                slides = generateFullDeck(content, missing);
                 break;
             case 'elevator':
-                slideCount = await generateElevatorDeck(params);
+                slides = generateElevatorDeck(content, missing);
                 break;
             case 'data_room':
-                slideCount = await generateDataRoomDeck(params);
+                slides = generateDataRoomDeck(content, missing);
                 break;
             default:
                 throw new Error(`Unknown deck type: ${params.deck_type}`);
         }
 
-        // Simulate generation latency
-        await new Promise(resolve => setTimeout(resolve, 3000));
+        const buffer = await buildPitchDeckPresentation(slides, {
+            company: content.businessName,
+            title: `${content.businessName} - Pitch Deck`,
+            author: content.founder
+        });
 
         const deckId = uuidv4();
-        const timestamp = new Date().toISOString();
+        const stored = await getArtifactStorage().save(buffer, {
+            document_type: `pitch_deck_${params.deck_type}`,
+            file_name: `${content.businessName.replace(/[^a-zA-Z0-9]+/g, '_')}_Pitch_Deck.pptx`,
+            content_type: PPTX_CONTENT_TYPE,
+            session_id: params.session_id
+        });
 
         const output: PitchDeckOutput = {
             deck_id: deckId,
-            deck_url: `https://storage.oneasy.ai/pitch-decks/${deckId}.pptx`,
+            deck_url: stored.url,
+            url_expires_at: stored.expires_at,
+            storage_key: stored.key,
+            version: stored.version,
+            checksum: stored.checksum,
             deck_type: params.deck_type,
-            slide_count: slideCount,
+            slide_count: slides.length,
+            slides: slides.map((slide, index) => ({ number: index + 1, title: slide.title, placeholder: Boolean(slide.placeholder) })),
+            missing_data: Array.from(new Set(missing)),
             format: 'pptx',
+            size_bytes: stored.size_bytes,
             status: 'generated',
-            generated_at: timestamp,
+            generated_at: stored.created_at,
             design_system: {
                 font: PITCH_DECK_DESIGN_SYSTEM.typography.primaryFont,
                 color_mode: PITCH_DECK_DESIGN_SYSTEM.colors.mode,
@@ -138,6 +204,7 @@ async function execute(params: PitchDeckInput): Promise<PitchDeckOutput> {
             id: output.deck_id,
             url: output.deck_url,
             slides: output.slide_count,
+            placeholders: output.missing_data.length,
             font: PITCH_DECK_DESIGN_SYSTEM.typography.primaryFont,
             colorMode: PITCH_DECK_DESIGN_SYSTEM.colors.mode
         });
@@ -150,14 +217,13 @@ async function execute(params: PitchDeckInput): Promise<PitchDeckOutput> {
 }
 
 /**
- * Validate business data completeness
+ * Validate business data completeness; everything beyond problem and solution can be a placeholder
  */
-function validateBusinessData(data: any): void {
+function validateBusinessData(content: DeckContent): void {
     const errors: string[] = [];
 
-    if (!data.problem) errors.push('Missing problem statement');
-    if (!data.solution) errors.push('Missing solution description');
-    if (!data.market_size) errors.push('Missing market size data');
+    if (!content.problem) errors.push('Missing problem statement');
+    if (!content.solution) errors.push('Missing solution description');
 
     if (errors.length > 0) {
         throw new Error('Incomplete business data: ' + errors.join(', '));
@@ -165,64 +231,696 @@ function validateBusinessData(data: any): void {
 }
 
 /**
- * Generate Full Deck (12-15 slides)
+ * Resolve slide content from business_data, falling back to the session answers
+ */
+export function resolveDeckContent(params: PitchDeckInput): DeckContent {
+    const data = params.business_data || {};
+    const answers = params.answers || {};
+    const hasAnswers = Object.keys(answers).length > 0;
+
+    let sizing: MarketSizingOutput | undefined;
+    if (hasAnswers) {
+        try {
+            sizing = sizeMarket({ answers });
+        } catch (error) {
+            logger.warn('Market sizing unavailable for pitch deck', { error: (error as Error).message });
+        }
+    }
+    const market = data.market_size
+        ? { ...data.market_size, source: 'Source: market size provided with the deck request' }
+        : sizing
+            ? { tam: sizing.tam, sam: sizing.sam, som: sizing.som, source: `Source: ${sizing.methodology} (market dataset ${sizing.dataset.version})` }
+            : undefined;
+
+    const competitorNames = (data.competitors || toList(answers.top_competitors)).filter(Boolean);
+    let competitors: CompetitorAnalysisOutput | undefined;
+    let competitorMatrix: CompetitorAnalysisOutput['slide'] | undefined;
+    if (competitorNames.length > 0 || answers.competitor_details) {
+        const analysis = analyzeCompetitors({ answers, competitors: data.competitors });
+        if (analysis.competitors.length > 0) {
+            competitors = analysis;
+            competitorMatrix = analyzeCompetitors({ answers, competitors: data.competitors, analysis_depth: 'detailed' }).slide;
+        }
+    }
+
+    const model = isFinancialModel(data.financial_projections) ? data.financial_projections : undefined;
+
+    return {
+        businessName: params.business_name || answers.business_name || answers.existing_name || 'New Venture',
+        tagline: params.branding?.tagline,
+        founder: answers.user_name,
+        problem: text(data.problem) || text(answers.problem_to_solve) || text(answers.customer_problem),
+        solution: text(data.solution) || text(answers.business_idea_detail),
+        market,
+        sizing,
+        competitors,
+        competitorMatrix,
+        competitorNames,
+        businessModel: resolveBusinessModel(data.revenue_streams, answers),
+        revenue: resolveRevenue(data.financial_projections, answers),
+        model,
+        unitEconomics: resolveUnitEconomics(data.unit_economics, answers),
+        team: resolveTeam(data.team, answers),
+        teamNotes: resolveTeamNotes(answers),
+        funding: resolveFunding(data.funding_ask, answers),
+        traction: resolveTraction(data.traction, answers),
+        milestones: toList(answers.key_milestones),
+        answers
+    };
+}
+
+function resolveBusinessModel(streams: any[] | undefined, answers: Record<string, any>): string[] {
+    if (streams && streams.length > 0) {
+        return streams.map(stream => typeof stream === 'string'
+            ? stream
+            : [stream.name || stream.type, stream.description || stream.pricing].filter(Boolean).join(': '));
+    }
+    return [
+        answers.revenue_model ? `Revenue model: ${REVENUE_MODEL_LABELS[answers.revenue_model] || answers.revenue_model}` : '',
+        answers.price_point ? `Pricing: ${answers.price_point}` : '',
+        answers.arpu ? `Average revenue per user: ${answers.arpu}` : '',
+        ...toList(answers.secondary_revenue).map(stream => `Secondary revenue: ${humanize(stream)}`)
+    ].filter(Boolean);
+}
+
+function isFinancialModel(value: any): value is FinancialModelingOutput {
+    return Boolean(value?.revenue && typeof value.revenue.total_y1 === 'number' && Array.isArray(value.revenue.years_2_7_annual));
+}
+
+function resolveRevenue(projections: any, answers: Record<string, any>): DeckContent['revenue'] {
+    if (isFinancialModel(projections)) {
+        return {
+            years: [projections.revenue.total_y1, ...projections.revenue.years_2_7_annual].slice(0, PROJECTION_YEARS),
+            basis: 'Source: financial model (financial_modeling skill)'
+        };
+    }
+    if (Array.isArray(projections?.revenue) && projections.revenue.length > 0) {
+        return { years: projections.revenue.map(Number).slice(0, PROJECTION_YEARS), basis: 'Source: revenue projections provided with the deck request' };
+    }
+
+    const yearOne = parseInrAmount(answers.revenue_target_year1);
+    const growth = GROWTH_RATE_MIDPOINTS[answers.growth_rate];
+    if (!yearOne) return undefined;
+    if (!growth) {
+        return { years: [yearOne], basis: 'Source: Year 1 revenue target from the questionnaire' };
+    }
+
+    const years = [yearOne];
+    while (years.length < PROJECTION_YEARS) years.push(years[years.length - 1] * (1 + growth / 100));
+    return {
+        years,
+        basis: `Projection: Year 1 target of ${formatInr(yearOne)} growing ${growth}% a year (midpoint of the ${answers.growth_rate}% growth answer)`
+    };
+}
+
+function resolveUnitEconomics(provided: { cac: number; ltv: number; ratio: number } | undefined, answers: Record<string, any>): DeckContent['unitEconomics'] {
+    const cac = provided?.cac || parseInrAmount(answers.target_cac);
+    const ltv = provided?.ltv || parseInrAmount(answers.ltv);
+    const ratio = provided?.ratio || (cac && ltv ? ltv / cac : undefined);
+    const arpu = parseInrAmount(answers.arpu);
+    const margin = parsePercent(answers.gross_margin);
+
+    return [
+        cac ? { label: 'Customer acquisition cost', value: formatInr(cac), caption: 'CAC' } : undefined,
+        ltv ? { label: 'Customer lifetime value', value: formatInr(ltv), caption: 'LTV' } : undefined,
+        ratio ? { label: 'LTV : CAC', value: `${Math.round(ratio * 10) / 10}x`, caption: ratio >= 3 ? 'Healthy (3x or more)' : 'Below the 3x benchmark' } : undefined,
+        arpu ? { label: 'Average revenue per user', value: formatInr(arpu), caption: String(answers.arpu) } : undefined,
+        margin !== undefined ? { label: 'Gross margin', value: `${margin}%` } : undefined
+    ].filter((metric): metric is { label: string; value: string; caption?: string } => Boolean(metric));
+}
+
+function resolveTeam(team: NonNullable<PitchDeckInput['business_data']>['team'], answers: Record<string, any>): DeckContent['team'] {
+    if (team && team.length > 0) {
+        return team.map(member => typeof member === 'string' ? { name: member } : member);
+    }
+    if (!answers.user_name) return [];
+
+    const members: DeckContent['team'] = [{ name: answers.user_name, role: 'Founder' }];
+    if (answers.need_cofounder === 'have_one' || answers.need_cofounder === 'have_team') {
+        members.push({ name: 'Co-founder', role: toList(answers.cofounder_skills).map(humanize).join(', ') || undefined });
+    }
+    return members;
+}
+
+function resolveTeamNotes(answers: Record<string, any>): string[] {
+    const notes: string[] = [];
+    if (answers.need_cofounder === 'looking') {
+        const skills = toList(answers.cofounder_skills).map(humanize);
+        notes.push(`Looking for a co-founder${skills.length > 0 ? ` (${skills.join(', ')})` : ''}`);
+    }
+    if (answers.team_size_year1 && answers.team_size_year1 !== 'just_me') {
+        notes.push(`Team of ${answers.team_size_year1} planned by the end of Year 1`);
+    }
+    const hires = toList(answers.hiring_priorities).map(role => HIRING_LABELS[role] || humanize(role));
+    if (hires.length > 0) notes.push(`Hiring priorities: ${hires.join(', ')}`);
+    return notes;
+}
+
+function resolveFunding(ask: NonNullable<PitchDeckInput['business_data']>['funding_ask'], answers: Record<string, any>): DeckContent['funding'] {
+    const amount = ask?.amount || parseInrAmount(answers.capital_needed);
+    const useOfFunds = ask?.use_of_funds ?? answers.funds_allocation;
+
+    let uses: Array<{ label: string; percent: number }> = [];
+    let description: string | undefined;
+    if (useOfFunds && typeof useOfFunds === 'object' && !Array.isArray(useOfFunds)) {
+        uses = Object.keys(useOfFunds)
+            .map(label => ({ label: humanize(label), percent: Number(useOfFunds[label]) }))
+            .filter(use => use.percent > 0);
+    } else if (typeof useOfFunds === 'string' && useOfFunds.trim()) {
+        uses = parseAllocation(useOfFunds);
+        description = useOfFunds.trim();
+    }
+
+    if (!amount && uses.length === 0 && !description) return undefined;
+    return { amount, uses, description };
+}
+
+/**
+ * "Product 40%, Marketing: 35%, hiring - 25%" -> labelled percentages
  */
-async function generateFullDeck(params: PitchDeckInput): Promise<number> {
-    logger.info('Generating full pitch deck (12-15 slides)');
-
-    // In real implementation:
-    // 1. Use pptxgenjs library
-    // 2. Create slides with Poppins font
-    // 3. Apply monochrome color scheme
-    // 4. Generate charts in grayscale (use Chart.js or similar)
-    // 5. Add images (converted to grayscale)
-    // 6. Export as PPTX
-
-    // Slide structure:
-    // 1. Cover
-    // 2. Problem
-    // 3. Solution
-    // 4. Market Opportunity
-    // 5. Product
-    // 6. Business Model
-    // 7. Traction
-    // 8. Competition
-    // 9. Unit Economics
-    // 10. Team
-    // 11. Financial Projections
-    // 12. Funding Ask
-    // 13. Vision/Roadmap (optional)
-    // 14. Appendix (optional)
-
-    return 13; // Simulated slide count
+function parseAllocation(value: string): Array<{ label: string; percent: number }> {
+    const uses: Array<{ label: string; percent: number }> = [];
+    const pattern = /([a-z][a-z &/()-]*?)\s*[:\-–]?\s*(\d+(?:\.\d+)?)\s*%/gi;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(value)) !== null) {
+        uses.push({ label: match[1].trim().replace(/^(and|&)\s+/i, ''), percent: Number(match[2]) });
+    }
+    return uses.filter(use => use.label && use.percent > 0);
+}
+
+function resolveTraction(traction: any, answers: Record<string, any>): string[] {
+    if (traction) {
+        if (typeof traction === 'object' && !Array.isArray(traction)) {
+            return Object.keys(traction).map(key => `${humanize(key)}: ${traction[key]}`);
+        }
+        return toList(traction);
+    }
+    return [
+        VALIDATION_LABELS[answers.validation_status] || '',
+        CURRENT_REVENUE_LABELS[answers.current_revenue] ? `Current annual revenue: ${CURRENT_REVENUE_LABELS[answers.current_revenue]}` : '',
+        answers.current_revenue === 'pre_revenue' ? 'Pre-revenue' : ''
+    ].filter(Boolean);
+}
+
+/**
+ * Generate Full Deck (13 slides)
+ */
+function generateFullDeck(content: DeckContent, missing: string[]): PitchDeckSlide[] {
+    logger.info('Generating full pitch deck (13 slides)');
+
+    return [
+        coverSlide(content),
+        problemSlide(content),
+        solutionSlide(content),
+        marketSlide(content, missing),
+        businessModelSlide(content, missing),
+        tractionSlide(content, missing),
+        competitionSlide(content, missing),
+        unitEconomicsSlide(content, missing),
+        teamSlide(content, missing),
+        financialsSlide(content, missing),
+        askSlide(content, missing),
+        roadmapSlide(content, missing),
+        closingSlide(content)
+    ];
 }
 
 /**
  * Generate Elevator Deck (5 slides)
  */
-async function generateElevatorDeck(params: PitchDeckInput): Promise<number> {
+function generateElevatorDeck(content: DeckContent, missing: string[]): PitchDeckSlide[] {
     logger.info('Generating elevator pitch deck (5 slides)');
 
-    // Quick version:
-    // 1. Cover
-    // 2. Problem & Solution
-    // 3. Market & Traction
-    // 4. Business Model & Unit Economics
-    // 5. Team & Ask
+    const market = marketSlide(content, missing);
+    const unitEconomics = unitEconomicsSlide(content, missing);
+    const ask = askSlide(content, missing);
+    if (content.traction.length === 0) missing.push('Traction');
+    if (content.businessModel.length === 0) missing.push('Business model');
+    if (content.team.length === 0) missing.push('Team');
+
+    return [
+        coverSlide(content),
+        {
+            title: 'Problem & Solution',
+            layout: 'bullets',
+            bullets: [`Problem: ${firstSentence(content.problem!)}`, `Solution: ${firstSentence(content.solution!)}`],
+            notes: `${content.problem}\n\n${content.solution}`
+        },
+        {
+            ...market,
+            title: 'Market & Traction',
+            bullets: [
+                ...(market.bullets || []),
+                ...(content.traction.length > 0 ? content.traction : ['Traction: add customer validation or revenue'])
+            ]
+        },
+        {
+            title: 'Business Model & Unit Economics',
+            layout: unitEconomics.placeholder ? 'bullets' : 'metrics',
+            metrics: unitEconomics.metrics,
+            bullets: content.businessModel.length > 0 ? content.businessModel.slice(0, 3) : ['Add the revenue model and pricing'],
+            placeholder: unitEconomics.placeholder && content.businessModel.length === 0
+        },
+        {
+            ...ask,
+            title: 'Team & Ask',
+            bullets: [
+                content.team.length > 0
+                    ? `Team: ${content.team.map(member => [member.name, member.role].filter(Boolean).join(', ')).join('; ')}`
+                    : 'Team: add founders and key hires',
+                ...(ask.bullets || [])
+            ]
+        }
+    ];
+}
+
+/**
+ * Generate Data Room Deck (full deck + appendices)
+ */
+function generateDataRoomDeck(content: DeckContent, missing: string[]): PitchDeckSlide[] {
+    logger.info('Generating data room deck (full deck + appendices)');
+
+    return [
+        ...generateFullDeck(content, missing),
+        financialStatementsSlide(content, missing),
+        monthlyRevenueSlide(content, missing),
+        marketDerivationSlide(content, missing),
+        marketSourcesSlide(content, missing),
+        featureMatrixSlide(content, missing),
+        positioningSlide(content, missing),
+        complianceSlide(content, missing),
+        investorTargetsSlide(content, missing),
+        risksSlide(content)
+    ];
+}
+
+// ----------------------------------------------------------------------------
+// Deck slides
+// ----------------------------------------------------------------------------
+
+function coverSlide(content: DeckContent): PitchDeckSlide {
+    return {
+        title: content.businessName,
+        layout: 'cover',
+        subtitle: content.tagline || firstSentence(content.solution!),
+        bullets: [
+            content.founder ? `${content.founder}, Founder` : '',
+            new Date().toLocaleDateString('en-IN', { month: 'long', year: 'numeric' })
+        ].filter(Boolean)
+    };
+}
+
+function problemSlide(content: DeckContent): PitchDeckSlide {
+    return { title: 'The Problem', layout: 'bullets', bullets: sentences(content.problem!), notes: content.problem };
+}
+
+function solutionSlide(content: DeckContent): PitchDeckSlide {
+    return { title: 'Our Solution', layout: 'bullets', bullets: sentences(content.solution!), notes: content.solution };
+}
+
+function marketSlide(content: DeckContent, missing: string[]): PitchDeckSlide {
+    if (!content.market) {
+        return placeholderSlide('Market Opportunity', 'Market size (TAM / SAM / SOM)', missing, [
+            'Answer the industry, location and target customer questions, or pass business_data.market_size'
+        ]);
+    }
+
+    const { tam, sam, som } = content.market;
+    return {
+        title: 'Market Opportunity',
+        layout: 'chart',
+        chart: inrChart('bar', ['TAM', 'SAM', 'SOM'], 'Market size', [tam, sam, som]),
+        bullets: [
+            `TAM ${formatInr(tam)}: total addressable market`,
+            `SAM ${formatInr(sam)}: serviceable with our model and geography`,
+            `SOM ${formatInr(som)}: obtainable in 3-5 years`
+        ],
+        source: content.market.source
+    };
+}
+
+function businessModelSlide(content: DeckContent, missing: string[]): PitchDeckSlide {
+    if (content.businessModel.length === 0) {
+        return placeholderSlide('Business Model', 'Business model', missing, ['Answer the revenue model and pricing questions (Phase 5)']);
+    }
+    return { title: 'Business Model', layout: 'bullets', bullets: content.businessModel };
+}
+
+function tractionSlide(content: DeckContent, missing: string[]): PitchDeckSlide {
+    if (content.traction.length === 0) {
+        return placeholderSlide('Traction', 'Traction', missing, ['Add customer validation, revenue or usage to date']);
+    }
+    return { title: 'Traction', layout: 'bullets', bullets: content.traction };
+}
+
+function competitionSlide(content: DeckContent, missing: string[]): PitchDeckSlide {
+    if (content.competitors) {
+        return {
+            title: 'Competitive Landscape',
+            layout: 'table',
+            table: { headers: content.competitors.slide.headers, rows: content.competitors.slide.rows },
+            bullets: content.competitors.competitive_advantages.slice(0, 2),
+            source: content.competitors.slide.footnote
+        };
+    }
+    if (content.competitorNames.length > 0) {
+        missing.push('Competitor features and pricing');
+        return {
+            title: 'Competitive Landscape',
+            layout: 'bullets',
+            bullets: [...content.competitorNames, 'Add competitor features and pricing for a comparison table'],
+            placeholder: true
+        };
+    }
+    return placeholderSlide('Competitive Landscape', 'Competitors', missing, ['List your top competitors with their pricing and features (Phase 6)']);
+}
+
+function unitEconomicsSlide(content: DeckContent, missing: string[]): PitchDeckSlide {
+    if (content.unitEconomics.length === 0) {
+        return placeholderSlide('Unit Economics', 'Unit economics', missing, ['Answer the CAC, LTV and ARPU questions (Phase 5)']);
+    }
+    return { title: 'Unit Economics', layout: 'metrics', metrics: content.unitEconomics.slice(0, 4), bullets: content.unitEconomics.slice(4).map(metric => `${metric.label}: ${metric.value}`) };
+}
+
+function teamSlide(content: DeckContent, missing: string[]): PitchDeckSlide {
+    if (content.team.length === 0) {
+        return placeholderSlide('Team', 'Team', missing, ['Add the founders and key team members', ...content.teamNotes]);
+    }
+    return { title: 'Team', layout: 'team', team: content.team.slice(0, 8), bullets: content.teamNotes };
+}
+
+function financialsSlide(content: DeckContent, missing: string[]): PitchDeckSlide {
+    if (!content.revenue) {
+        return placeholderSlide('Financial Projections', 'Revenue projections', missing, [
+            'Answer the Year 1 revenue target and growth rate questions, or run the financial model'
+        ]);
+    }
+
+    const years = content.revenue.years;
+    return {
+        title: 'Financial Projections',
+        layout: 'chart',
+        chart: inrChart('bar', years.map((_, index) => `Year ${index + 1}`), 'Revenue', years),
+        bullets: [
+            `Year 1 revenue: ${formatInr(years[0])}`,
+            years.length > 1 ? `Year ${years.length} revenue: ${formatInr(years[years.length - 1])}` : '',
+            content.model ? `Break-even: month ${content.model.summary_metrics.break_even_month}` : ''
+        ].filter(Boolean),
+        source: content.revenue.basis
+    };
+}
+
+function askSlide(content: DeckContent, missing: string[]): PitchDeckSlide {
+    const funding = content.funding;
+    if (!funding) {
+        return placeholderSlide('The Ask', 'Funding ask', missing, ['Answer the capital needed and use of funds questions (Phase 9)']);
+    }
+
+    const bullets = [
+        funding.amount ? `Raising ${formatInr(funding.amount)}` : 'Raise amount to be confirmed',
+        ...funding.uses.map(use => `${use.label}: ${use.percent}%${funding.amount ? ` (${formatInr(funding.amount * use.percent / 100)})` : ''}`)
+    ];
+    if (funding.uses.length === 0) {
+        if (funding.description) bullets.push(`Use of funds: ${funding.description}`);
+        missing.push('Use of funds breakdown (percentages)');
+    }
+
+    return {
+        title: 'The Ask',
+        layout: funding.uses.length > 0 ? 'chart' : 'bullets',
+        chart: funding.uses.length > 0
+            ? { type: 'pie', labels: funding.uses.map(use => use.label), series: [{ name: 'Use of funds', values: funding.uses.map(use => use.percent) }], unit: '%' }
+            : undefined,
+        bullets
+    };
+}
+
+function roadmapSlide(content: DeckContent, missing: string[]): PitchDeckSlide {
+    if (content.milestones.length === 0) {
+        return placeholderSlide('Roadmap', 'Milestones', missing, ['Answer the key milestones question (Phase 8)']);
+    }
+    return { title: 'Roadmap', layout: 'bullets', bullets: content.milestones.slice(0, 8) };
+}
+
+function closingSlide(content: DeckContent): PitchDeckSlide {
+    return {
+        title: 'Thank You',
+        layout: 'cover',
+        subtitle: content.businessName,
+        bullets: [content.founder, content.answers.user_email].filter(Boolean)
+    };
+}
+
+// ----------------------------------------------------------------------------
+// Data room appendices
+// ----------------------------------------------------------------------------
+
+function financialStatementsSlide(content: DeckContent, missing: string[]): PitchDeckSlide {
+    const annual = content.model?.statements.annual.slice(0, PROJECTION_YEARS);
+    if (!annual || annual.length === 0) {
+        return placeholderSlide('Appendix: Financial Statements', 'Financial model (statements)', missing, [
+            'Run the financial_modeling skill and pass its output as business_data.financial_projections'
+        ]);
+    }
+
+    const row = (label: string, value: (period: FinancialStatementPeriod) => number) => [label, ...annual.map(period => formatAmount(value(period)))];
+    return {
+        title: 'Appendix: Financial Statements',
+        layout: 'table',
+        table: {
+            headers: ['', ...annual.map(period => period.period)],
+            rows: [
+                row('Revenue', period => period.income_statement.revenue),
+                row('Gross profit', period => period.income_statement.gross_profit),
+                row('EBITDA', period => period.income_statement.ebitda),
+                row('Net income', period => period.income_statement.net_income),
+                row('Operating cash flow', period => period.cash_flow.operating),
+                row('Ending cash', period => period.cash_flow.ending_cash)
+            ]
+        },
+        source: `Source: financial model. Total capital required ${formatInr(content.model!.summary_metrics.total_capital_required)}; break-even month ${content.model!.summary_metrics.break_even_month}.`
+    };
+}
+
+function monthlyRevenueSlide(content: DeckContent, missing: string[]): PitchDeckSlide {
+    const monthly = content.model?.revenue.year_1_monthly;
+    if (!monthly || monthly.length === 0) {
+        return placeholderSlide('Appendix: Year 1 Monthly Revenue', 'Monthly revenue (financial model)', missing, [
+            'Run the financial_modeling skill for a month-by-month Year 1 view'
+        ]);
+    }
+    return {
+        title: 'Appendix: Year 1 Monthly Revenue',
+        layout: 'chart',
+        chart: inrChart('line', monthly.map((_, index) => `M${index + 1}`), 'Revenue', monthly),
+        source: 'Source: financial model'
+    };
+}
+
+function marketDerivationSlide(content: DeckContent, missing: string[]): PitchDeckSlide {
+    const sizing = content.sizing;
+    const estimates = sizing ? [sizing.top_down, sizing.bottom_up].filter(Boolean) : [];
+    if (!sizing || estimates.length === 0) {
+        return placeholderSlide('Appendix: Market Sizing Method', 'Market sizing derivation', missing, [
+            'Answer the industry, location, customer and pricing questions so TAM / SAM / SOM can be derived'
+        ]);
+    }
+
+    return {
+        title: 'Appendix: Market Sizing Method',
+        layout: 'table',
+        table: {
+            headers: ['', ...estimates.map(estimate => estimate!.method === 'top_down' ? 'Top-down' : 'Bottom-up')],
+            rows: (['tam', 'sam', 'som'] as const).map(level => [
+                level.toUpperCase(),
+                ...estimates.map(estimate => `${formatInr(estimate![level])}: ${estimate!.derivation[level]}`)
+            ])
+        },
+        bullets: sizing.reconciliation.notes.slice(0, 2),
+        source: `Reconciliation: ${sizing.reconciliation.status.replace(/_/g, ' ')}; deck uses the ${sizing.reconciliation.basis.replace(/_/g, '-')} figures`
+    };
+}
+
+function marketSourcesSlide(content: DeckContent, missing: string[]): PitchDeckSlide {
+    const sizing = content.sizing;
+    if (!sizing || sizing.citations.length === 0) {
+        return placeholderSlide('Appendix: Market Sources & Assumptions', 'Market citations', missing, ['Market sizing from the dataset lists its sources here']);
+    }
+    return {
+        title: 'Appendix: Market Sources & Assumptions',
+        layout: 'bullets',
+        bullets: [
+            ...sizing.citations.map(citation => `${citation.title}, ${citation.publisher} (${citation.year})${citation.url ? ` ${citation.url}` : ''}`),
+            ...sizing.assumptions.slice(0, 4)
+        ],
+        source: `Market dataset ${sizing.dataset.version}, updated ${sizing.dataset.updated_at}`
+    };
+}
+
+function featureMatrixSlide(content: DeckContent, missing: string[]): PitchDeckSlide {
+    const matrix = content.competitorMatrix;
+    if (!matrix) {
+        return placeholderSlide('Appendix: Feature Comparison', 'Competitor comparison matrix', missing, ['Add competitor features and pricing (Phase 6)']);
+    }
+    return {
+        title: 'Appendix: Feature Comparison',
+        layout: 'table',
+        table: { headers: matrix.headers, rows: matrix.rows.slice(0, 16) },
+        source: matrix.footnote
+    };
+}
+
+function positioningSlide(content: DeckContent, missing: string[]): PitchDeckSlide {
+    const map = content.competitors?.positioning_map;
+    if (!map || map.points.length < 2) {
+        return placeholderSlide('Appendix: Positioning Map', 'Positioning map', missing, [
+            'Add competitor pricing, features or 1-5 ratings on the chosen positioning axes'
+        ]);
+    }
 
-    return 5;
+    const chart: PitchDeckChart = {
+        type: 'scatter',
+        labels: map.points.map(point => point.is_you ? 'You' : point.name),
+        series: [
+            { name: `${map.x_axis.label} (${map.x_axis.low} → ${map.x_axis.high})`, values: map.points.map(point => point.x) },
+            { name: `${map.y_axis.label} (${map.y_axis.low} → ${map.y_axis.high})`, values: map.points.map(point => point.y) }
+        ]
+    };
+    return {
+        title: 'Appendix: Positioning Map',
+        layout: 'chart',
+        chart,
+        bullets: map.unplaced.length > 0 ? [`Not placed (no data): ${map.unplaced.map(entry => entry.name).join(', ')}`] : undefined,
+        source: map.method.join(' ')
+    };
+}
+
+function complianceSlide(content: DeckContent, missing: string[]): PitchDeckSlide {
+    let checklist: ComplianceChecklistItem[] = [];
+    try {
+        checklist = checkCompliance({ answers: content.answers }).checklist;
+    } catch (error) {
+        logger.warn('Compliance checklist unavailable for pitch deck', { error: (error as Error).message });
+    }
+    if (checklist.length === 0) {
+        return placeholderSlide('Appendix: Compliance Checklist', 'Compliance checklist', missing, [
+            'Answer the legal entity, location and licences questions (Phase 7)'
+        ]);
+    }
+    return {
+        title: 'Appendix: Compliance Checklist',
+        layout: 'table',
+        table: {
+            headers: ['Requirement', 'Authority', 'Frequency', 'Due'],
+            rows: checklist.slice(0, 12).map(item => [item.name, item.authority, humanize(item.frequency), item.due])
+        },
+        source: checklist.length > 12 ? `${checklist.length - 12} more items in the full compliance report` : undefined
+    };
+}
+
+function investorTargetsSlide(content: DeckContent, missing: string[]): PitchDeckSlide {
+    const matches = matchInvestors({ answers: content.answers, capital_needed: content.funding?.amount, limit: 8 }).matches;
+    if (matches.length === 0) {
+        return placeholderSlide('Appendix: Investor Targets', 'Investor targets', missing, [
+            'Answer the funding stage, capital needed and investor type questions (Phase 9)'
+        ]);
+    }
+    return {
+        title: 'Appendix: Investor Targets',
+        layout: 'table',
+        table: {
+            headers: ['Investor', 'Type', 'Fit', 'Why'],
+            rows: matches.map(match => [match.investor.name, humanize(match.investor.type), `${match.score}/100`, match.reasons.slice(0, 2).join('; ')])
+        },
+        source: 'Source: curated investor dataset; verify current mandates before outreach'
+    };
+}
+
+function risksSlide(content: DeckContent): PitchDeckSlide {
+    const bullets = [
+        ...(content.competitors?.threats || []).slice(0, 3),
+        ...(content.model?.validation_results.warnings || []).slice(0, 2),
+        ...(content.sizing ? [`Market figures rest on: ${content.sizing.assumptions.slice(0, 2).join('; ')}`] : []),
+        ...(content.revenue && !content.model ? [content.revenue.basis] : [])
+    ];
+    return {
+        title: 'Appendix: Risks & Assumptions',
+        layout: 'bullets',
+        bullets: bullets.length > 0 ? bullets : ['No risks or assumptions recorded yet; add them in Phase 10 (risk assessment)'],
+        placeholder: bullets.length === 0
+    };
+}
+
+// ----------------------------------------------------------------------------
+// Helpers
+// ----------------------------------------------------------------------------
+
+function placeholderSlide(title: string, missingItem: string, missing: string[], hints: string[]): PitchDeckSlide {
+    missing.push(missingItem);
+    return {
+        title,
+        layout: 'bullets',
+        subtitle: 'Placeholder: data needed',
+        bullets: hints,
+        placeholder: true,
+        notes: `No ${missingItem.toLowerCase()} in the session yet.`
+    };
 }
 
 /**
- * Generate Data Room Deck (20+ slides)
+ * Chart with INR values scaled to Cr, L or ₹ by the largest value
  */
-async function generateDataRoomDeck(params: PitchDeckInput): Promise<number> {
-    logger.info('Generating data room deck (20+ slides)');
+function inrChart(type: 'bar' | 'line', labels: string[], name: string, values: number[]): PitchDeckChart {
+    const max = Math.max(...values);
+    const [divisor, unit] = max >= 1e7 ? [1e7, '₹ Cr'] : max >= 1e5 ? [1e5, '₹ L'] : [1, '₹'];
+    return {
+        type,
+        labels,
+        series: [{ name, values: values.map(value => Math.round(value / divisor * 10) / 10) }],
+        unit
+    };
+}
+
+function formatAmount(amount: number): string {
+    return amount < 0 ? `-${formatInr(-amount)}` : formatInr(amount);
+}
+
+function text(value: any): string | undefined {
+    return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+function sentences(value: string): string[] {
+    const parts = value.match(/[^.!?\n]+[.!?]*/g) || [];
+    return parts.map(part => part.trim().replace(/^[-*•]\s*/, '')).filter(Boolean).slice(0, 5);
+}
+
+function firstSentence(value: string): string {
+    return sentences(value)[0] || value;
+}
 
-    // Detailed version with appendices:
-    // Full deck + detailed financials + customer case studies + detailed roadmap
+function toList(value: any): string[] {
+    if (!value) return [];
+    if (Array.isArray(value)) {
+        return value
+            .map(item => typeof item === 'object' && item !== null ? Object.values(item).filter(Boolean).join(': ') : String(item))
+            .map(item => item.trim())
+            .filter(Boolean);
+    }
+    if (typeof value === 'string') {
+        return value.split(/\n|,|;/).map(item => item.trim().replace(/^[-*•]\s*/, '')).filter(Boolean);
+    }
+    return [String(value)];
+}
 
-    return 24;
+function humanize(value: string): string {
+    const label = String(value).replace(/_/g, ' ').trim();
+    return label.charAt(0).toUpperCase() + label.slice(1);
+}
+
+function parsePercent(value: any): number | undefined {
+    if (typeof value === 'number') return value > 0 && value <= 1 ? Math.round(value * 100) : value;
+    const match = typeof value === 'string' ? value.match(/(\d+(?:\.\d+)?)\s*%?/) : null;
+    return match ? Number(match[1]) : undefined;
 }
 
 /**
@@ -233,7 +931,7 @@ function getToolDefinition(): ToolDefinition {
         type: 'function',
         function: {
             name: 'pitch_deck_generator',
-            description: 'Generate investor-ready pitch decks with Poppins typography and monochrome design. Supports full (12-15 slides), elevator (5 slides), and data room (20+ slides) formats.',
+            description: 'Generate an investor-ready PPTX pitch deck with Poppins typography and monochrome design, with native charts (revenue, TAM/SAM/SOM, use of funds) and a team slide. Supports full (13 slides), elevator (5 slides), and data room (full deck + appendices) formats. Uses business_data first, then the session answers; slides without data are marked placeholders listed in missing_data. Returns a signed, expiring download URL.',
             parameters: {
                 type: 'object',
                 properties: {
@@ -246,6 +944,14 @@ function getToolDefinition(): ToolDefinition {
                         type: 'string',
                         description: 'Name of the business'
                     },
+                    session_id: {
+                        type: 'string',
+                        description: 'Session to store the deck under (listed by GET /api/artifacts)'
+                    },
+                    answers: {
+                        type: 'object',
+                        description: 'Questionnaire answers keyed by question id; fill whatever business_data leaves out'
+                    },
                     business_data: {
                         type: 'object',
                         description: 'Complete business data from all framework phases',
@@ -265,7 +971,10 @@ function getToolDefinition(): ToolDefinition {
                                 items: { type: 'string' }
                             },
                             revenue_streams: { type: 'array' },
-                            financial_projections: { type: 'object' },
+                            financial_projections: {
+                                type: 'object',
+                                description: 'financial_modeling output, or { revenue: [year1, year2, ...] } in INR'
+                            },
                             unit_economics: {
                                 type: 'object',
                                 properties: {
@@ -274,12 +983,18 @@ function getToolDefinition(): ToolDefinition {
                                     ratio: { type: 'number' }
                                 }
                             },
-                            team: { type: 'array' },
+                            team: {
+                                type: 'array',
+                                description: 'Names, or { name, role, bio } objects'
+                            },
                             funding_ask: {
                                 type: 'object',
                                 properties: {
                                     amount: { type: 'number' },
-                                    use_of_funds: { type: 'object' }
+                                    use_of_funds: {
+                                        type: 'object',
+                                        description: 'Percent per use, e.g. { "Product": 40, "Marketing": 35, "Hiring": 25 }'
+                                    }
                                 }
                             },
                             traction: { type: 'object' }
@@ -293,7 +1008,7 @@ function getToolDefinition(): ToolDefinition {
                         }
                     }
                 },
-                required: ['deck_type', 'business_name', 'business_data']
+                required: ['deck_type']
             }
         }
     };
@@ -302,7 +1017,7 @@ function getToolDefinition(): ToolDefinition {
 export const pitchDeckGeneratorSkill: Skill = {
     id: 'pitch_deck_generator',
     name: 'Pitch Deck Generator',
-    description: 'Generate professional investor pitch decks with Poppins font and monochrome design',
+    description: 'Generate professional investor pitch decks (PPTX) with Poppins font and monochrome design',
     execute,
     getToolDefinition
 };
@@ -3,35 +3,38 @@
  * Manages and executes business logic skills
  */
 
-import { Skill, ToolDefinition, SkillExecutionError } from '../utils/types';
+import { Skill, ToolDefinition, SkillExecutionError, LLMProvider, SkillExecutionContext } from '../utils/types';
 import { logger } from '../utils/logger';
+import { getLLMProvider } from '../providers';
+import { getUsageBudget } from '../services/usage-budget';
 
 // Import skill implementations
 import { financialModelingSkill } from './implementations/financial_modeling';
+import { financialScenariosSkill } from './implementations/financial_scenarios';
 import { marketSizingSkill } from './implementations/market_sizing';
 import { competitorAnalysisSkill } from './implementations/competitor_analysis';
 import { complianceCheckerSkill } from './implementations/compliance_checker';
 import { brandedDocumentGeneratorSkill } from './implementations/branded_document_generator';
 import { dataIntegrationSkill } from './implementations/data_integration';
 import { pitchDeckGeneratorSkill } from './implementations/pitch_deck_generator';
+import { investorMatchingSkill } from './implementations/investor_matching';
 
 import fs from 'fs';
 import path from 'path';
-import Groq from 'groq-sdk';
 
 class GenericLLMSkill implements Skill {
     id: string;
     name: string;
     description: string;
     private systemPrompt: string;
-    private groq: Groq;
+    private provider?: LLMProvider;
 
-    constructor(id: string, name: string, description: string, systemPrompt: string) {
+    constructor(id: string, name: string, description: string, systemPrompt: string, provider?: LLMProvider) {
         this.id = id;
         this.name = name;
         this.description = description;
         this.systemPrompt = systemPrompt;
-        this.groq = new Groq({ apiKey: process.env.GROQ_API_KEY || '' });
+        this.provider = provider;
     }
 
     getToolDefinition(): ToolDefinition {
@@ -52,20 +55,35 @@ class GenericLLMSkill implements Skill {
         };
     }
 
-    async execute(params: any): Promise<any> {
+    async execute(params: any, context: SkillExecutionContext = {}): Promise<any> {
+        const budget = getUsageBudget();
+
         try {
             const userPrompt = `Parameters: ${JSON.stringify(params, null, 2)}\n\nExecute the task based on your instructions.`;
 
-            const completion = await this.groq.chat.completions.create({
+            // Refuse the call once the session budget is spent
+            budget.enforce(context.sessionId, context.userId);
+
+            // Resolved lazily so the shared provider can be swapped (e.g. fixtures in CI)
+            const provider = this.provider || getLLMProvider();
+            const completion = await provider.chat({
                 messages: [
                     { role: 'system', content: this.systemPrompt },
                     { role: 'user', content: userPrompt }
                 ],
-                model: 'llama-3.3-70b-versatile',
                 temperature: 0.1
             });
 
-            return completion.choices[0]?.message?.content || 'No response generated.';
+            budget.record({
+                sessionId: context.sessionId,
+                userId: context.userId,
+                provider: provider.id,
+                model: completion.model || provider.defaultModel,
+                source: this.id,
+                usage: completion.usage
+            });
+
+            return completion.content || 'No response generated.';
         } catch (error) {
             throw new SkillExecutionError(`Failed to execute LLM skill ${this.id}`, this.id, error);
         }
@@ -88,12 +106,14 @@ export class SkillRegistry {
 
         const skillsToRegister = [
             financialModelingSkill,
+            financialScenariosSkill,
             marketSizingSkill,
             competitorAnalysisSkill,
             complianceCheckerSkill,
             brandedDocumentGeneratorSkill,
             dataIntegrationSkill,
-            pitchDeckGeneratorSkill
+            pitchDeckGeneratorSkill,
+            investorMatchingSkill
         ];
 
 
@@ -193,7 +213,7 @@ export class SkillRegistry {
     /**
      * Execute a skill with given parameters
      */
-    async execute(skillId: string, params: any): Promise<any> {
+    async execute(skillId: string, params: any, context?: SkillExecutionContext): Promise<any> {
         const startTime = Date.now();
 
         try {
@@ -208,7 +228,7 @@ export class SkillRegistry {
 
             logger.skill(skillId, 'Executing', { params });
 
-            const result = await skill.execute(params);
+            const result = await skill.execute(params, context);
 
             const duration = Date.now() - startTime;
             logger.timing(`Skill execution: ${skillId}`, duration);
@@ -0,0 +1,102 @@
+/**
+ * CSV Utility
+ * Minimal RFC 4180 parsing (quoted fields, escaped quotes, quoted line breaks) for
+ * uploaded documents and bulk registry dumps.
+ */
+
+import { createReadStream } from 'fs';
+import { createInterface } from 'readline';
+
+/**
+ * Split one CSV record into trimmed cells
+ */
+export function parseCsvLine(line: string): string[] {
+    const cells: string[] = [];
+    let current = '';
+    let quoted = false;
+    for (let i = 0; i < line.length; i++) {
+        const char = line[i];
+        if (quoted) {
+            if (char === '"' && line[i + 1] === '"') {
+                current += '"';
+                i++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                current += char;
+            }
+        } else if (char === '"') {
+            quoted = true;
+        } else if (char === ',') {
+            cells.push(current.trim());
+            current = '';
+        } else {
+            current += char;
+        }
+    }
+    cells.push(current.trim());
+    return cells;
+}
+
+/**
+ * Parse CSV text into rows, skipping blank lines
+ */
+export function parseCsv(text: string): string[][] {
+    const rows: string[][] = [];
+    joinQuotedLines(text.replace(/^﻿/, '').split(/\r?\n/), record => rows.push(parseCsvLine(record)));
+    return rows;
+}
+
+/**
+ * Stream a (potentially very large) CSV file record by record, keyed by header
+ */
+export async function readCsvFile(
+    filePath: string,
+    onRecord: (record: Record<string, string>) => void
+): Promise<number> {
+    const lines = createInterface({ input: createReadStream(filePath, 'utf-8'), crlfDelay: Infinity });
+    let headers: string[] | null = null;
+    let pending = '';
+    let count = 0;
+
+    for await (const line of lines) {
+        pending = pending ? `${pending}\n${line}` : line.replace(/^﻿/, '');
+        if (countQuotes(pending) % 2 === 1) continue; // Record continues on the next line
+        const record = pending;
+        pending = '';
+        if (!record.trim()) continue;
+
+        const cells = parseCsvLine(record);
+        if (!headers) {
+            headers = cells;
+            continue;
+        }
+        const row: Record<string, string> = {};
+        headers.forEach((header, i) => {
+            row[header] = cells[i] ?? '';
+        });
+        onRecord(row);
+        count++;
+    }
+
+    return count;
+}
+
+function joinQuotedLines(lines: string[], onRecord: (record: string) => void): void {
+    let pending = '';
+    lines.forEach(line => {
+        pending = pending ? `${pending}\n${line}` : line;
+        if (countQuotes(pending) % 2 === 1) return;
+        if (pending.trim()) onRecord(pending);
+        pending = '';
+    });
+    if (pending.trim()) onRecord(pending);
+}
+
+function countQuotes(text: string): number {
+    let count = 0;
+    for (let i = 0; i < text.length; i++) {
+        if (text[i] === '"') count++;
+    }
+    return count;
+}
@@ -0,0 +1,101 @@
+/**
+ * iCalendar Utility
+ * Builds RFC 5545 calendars of all-day events (compliance deadlines) that import into
+ * Google Calendar, Outlook and Apple Calendar.
+ */
+
+export interface IcsEvent {
+    uid: string;
+    date: string; // YYYY-MM-DD, all-day
+    summary: string;
+    description?: string;
+    url?: string;
+    reminder_days?: number; // Adds a display alarm this many days before
+}
+
+/**
+ * Escape TEXT values (RFC 5545 §3.3.11)
+ */
+function escapeText(value: string): string {
+    return value
+        .replace(/\\/g, '\\\\')
+        .replace(/;/g, '\\;')
+        .replace(/,/g, '\\,')
+        .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Fold lines longer than 75 octets (RFC 5545 §3.1)
+ */
+function foldLine(line: string): string {
+    const bytes = Buffer.from(line, 'utf-8');
+    if (bytes.length <= 75) return line;
+
+    const parts: string[] = [];
+    let current = '';
+    let currentBytes = 0;
+    Array.from(line).forEach(char => {
+        const size = Buffer.byteLength(char, 'utf-8');
+        const limit = parts.length === 0 ? 75 : 74; // Continuation lines start with a space
+        if (currentBytes + size > limit) {
+            parts.push(current);
+            current = '';
+            currentBytes = 0;
+        }
+        current += char;
+        currentBytes += size;
+    });
+    parts.push(current);
+    return parts.join('\r\n ');
+}
+
+function formatDate(date: string): string {
+    return date.replace(/-/g, '');
+}
+
+function nextDay(date: string): string {
+    const next = new Date(`${date}T00:00:00Z`);
+    next.setUTCDate(next.getUTCDate() + 1);
+    return next.toISOString().slice(0, 10);
+}
+
+/**
+ * Serialize events as a VCALENDAR document
+ */
+export function buildIcs(calendarName: string, events: IcsEvent[], now: Date = new Date()): string {
+    const stamp = now.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+    const lines = [
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        'PRODID:-//Business Planner//Compliance Calendar//EN',
+        'CALSCALE:GREGORIAN',
+        'METHOD:PUBLISH',
+        `X-WR-CALNAME:${escapeText(calendarName)}`
+    ];
+
+    events.forEach(event => {
+        lines.push(
+            'BEGIN:VEVENT',
+            `UID:${event.uid}`,
+            `DTSTAMP:${stamp}`,
+            `DTSTART;VALUE=DATE:${formatDate(event.date)}`,
+            `DTEND;VALUE=DATE:${formatDate(nextDay(event.date))}`,
+            `SUMMARY:${escapeText(event.summary)}`
+        );
+        if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+        if (event.url) lines.push(`URL:${event.url}`);
+        if (event.reminder_days) {
+            lines.push(
+                'BEGIN:VALARM',
+                'ACTION:DISPLAY',
+                `DESCRIPTION:${escapeText(event.summary)}`,
+                `TRIGGER:-P${event.reminder_days}D`,
+                'END:VALARM'
+            );
+        }
+        lines.push('END:VEVENT');
+    });
+
+    lines.push('END:VCALENDAR');
+    return lines.map(foldLine).join('\r\n') + '\r\n';
+}
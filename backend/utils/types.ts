@@ -18,6 +18,9 @@ export interface Agent {
     context_window: number;
     phase?: string;
     persona?: string;
+    output_schema?: string; // Name of a zod schema in agents/output-schemas.ts
+    version?: string; // Prompt version (primary definitions default to 'v1')
+    traffic?: number; // Variants only: percentage of sessions routed to this version
 }
 
 // ============================================================================
@@ -28,10 +31,16 @@ export interface Skill {
     id: string;
     name: string;
     description: string;
-    execute: (params: any) => Promise<any>;
+    execute: (params: any, context?: SkillExecutionContext) => Promise<any>;
     getToolDefinition: () => ToolDefinition;
 }
 
+// Session/user a skill runs for; LLM-backed skills bill their calls to it
+export interface SkillExecutionContext {
+    sessionId?: string;
+    userId?: string;
+}
+
 export interface ToolDefinition {
     type: 'function';
     function: {
@@ -49,19 +58,23 @@ export interface ToolDefinition {
 // Orchestrator Types
 // ============================================================================
 
+export type ExecutionType = 'parallel' | 'sequential' | 'dag';
+
 export interface IntentAnalysis {
     goal: string;
     agents: string[]; // Agent IDs needed
     skills: string[]; // Skill IDs needed
-    execution_type: 'parallel' | 'sequential';
+    execution_type: ExecutionType;
+    dependencies?: Record<string, string[]>; // Agent ID -> agent IDs whose output it consumes (dag)
     reasoning: string;
     context_requirements: string[];
 }
 
 export interface ExecutionPlan {
     tasks: Task[];
-    execution_type: 'parallel' | 'sequential';
+    execution_type: ExecutionType;
     estimated_duration_seconds: number;
+    max_concurrency?: number;
 }
 
 export interface Task {
@@ -80,11 +93,21 @@ export interface AgentOutput {
     agent_id: string;
     agent_name: string;
     output: string;
+    structured?: Record<string, any>; // Validated data when the agent declares an output_schema
     skills_used: string[];
     tool_calls: ToolCall[];
     execution_time_ms: number;
     success: boolean;
     error?: string;
+    cached?: boolean; // Served from the agent output cache
+    agent_version?: string; // Prompt version/variant that produced the output
+    usage?: AgentRunUsage;
+}
+
+export interface AgentRunUsage {
+    input_tokens: number;
+    output_tokens: number;
+    cost_usd: number;
 }
 
 export interface ToolCall {
@@ -149,6 +172,127 @@ export interface GroqChatCompletionResponse {
     };
 }
 
+// ============================================================================
+// LLM Provider Types
+// ============================================================================
+
+export interface LLMUsage {
+    input_tokens: number;
+    output_tokens: number;
+}
+
+export interface LLMChatRequest {
+    model?: string; // Falls back to the provider's default model
+    messages: GroqMessage[];
+    temperature?: number;
+    max_tokens?: number;
+    tools?: ToolDefinition[];
+    tool_choice?: 'auto' | 'none';
+    json_mode?: boolean;
+}
+
+export interface LLMChatResponse {
+    content: string;
+    tool_calls: ToolCall[];
+    finish_reason: string;
+    model: string;
+    usage: LLMUsage;
+}
+
+export interface LLMProvider {
+    id: string;
+    defaultModel: string;
+    supportsTools: boolean;
+    chat: (request: LLMChatRequest) => Promise<LLMChatResponse>;
+    stream: (request: LLMChatRequest) => AsyncIterable<string>;
+}
+
+// ============================================================================
+// Company Registry Types
+// ============================================================================
+
+export type RegistryEntityType =
+    | 'sole_proprietorship'
+    | 'partnership'
+    | 'llp'
+    | 'pvt_ltd'
+    | 'opc'
+    | 'public_ltd'
+    | 'other'; // Matches the legal_entity question options
+
+export interface CompanyRecord {
+    registration_number: string; // CIN / LLPIN (MCA) or company number (Companies House)
+    name: string;
+    status?: string; // e.g. 'Active', 'Strike Off', 'Dissolved'
+    entity_type: RegistryEntityType;
+    entity_description?: string; // Category as written in the source, e.g. 'Private Limited Company'
+    incorporation_date?: string; // ISO date (YYYY-MM-DD)
+    registered_address?: string;
+    region?: string; // State / county
+    country: string; // ISO 3166 alpha-2
+    authorized_capital?: number;
+    paid_up_capital?: number;
+    activity?: string; // Principal business activity / SIC description
+    source: string; // Dump the record was imported from
+}
+
+export interface CompanyMatch {
+    record: CompanyRecord;
+    score: number; // 0-1 name similarity
+}
+
+export interface CompanySearchOptions {
+    limit?: number; // Default 5
+    min_score?: number; // Default 0.6
+    country?: string;
+}
+
+export interface CompanyRegistryProvider {
+    id: string;
+    search: (name: string, options?: CompanySearchOptions) => Promise<CompanyMatch[]>;
+    getByRegistrationNumber: (registrationNumber: string) => Promise<CompanyRecord | null>;
+}
+
+// ============================================================================
+// Artifact Storage Types
+// ============================================================================
+
+/**
+ * Raw object store (local directory, S3 or an S3-compatible server such as MinIO)
+ */
+export interface StorageProvider {
+    id: string;
+    put: (key: string, body: Buffer, contentType: string) => Promise<void>;
+    get: (key: string) => Promise<Buffer | null>;
+    list: (prefix: string) => Promise<string[]>; // Keys under the prefix
+}
+
+export interface ArtifactInput {
+    document_type: string; // e.g. pitch_deck, business_plan, export
+    file_name: string; // Download name, e.g. "Acme_Pitch_Deck.pptx"
+    content_type: string;
+    session_id?: string;
+    attributes?: Record<string, string>; // Caller-defined metadata kept with the version
+}
+
+export interface StoredArtifact {
+    key: string; // "sessions/<session>/<document_type>/v<version>-<id>.<ext>"
+    session_id?: string;
+    document_type: string;
+    version: number; // Per session and document type, starting at 1
+    file_name: string;
+    content_type: string;
+    size_bytes: number;
+    checksum: string; // "sha256:<hex>"
+    created_at: string;
+    attributes?: Record<string, string>;
+}
+
+export interface ArtifactLink extends StoredArtifact {
+    url: string; // Signed download URL served by /api/artifacts
+    expires_at: string;
+}
+
 // ============================================================================
 // Context Types
 // ============================================================================
@@ -198,10 +342,78 @@ export interface FinancialModelingInput {
         detail_level: 'monthly_year1_annual' | 'monthly_all' | 'annual';
     };
     assumptions: {
-        tax_rate: number;
+        tax_rate: number; // Percent (25) or fraction (0.25)
         starting_cash: number;
-        payment_terms_days: number;
+        payment_terms_days: number; // Customer payment terms (receivable days)
+        supplier_payment_days?: number; // Payable days on COGS (default 30)
+        inventory_days?: number; // Inventory days on COGS (default 0)
+        depreciation_years?: number; // Default useful life for capex (default 5)
     };
+    capex?: Array<{
+        month: number; // 1-84
+        amount: number;
+        useful_life_years?: number;
+        description?: string;
+    }>;
+    financing?: Array<{
+        month: number; // 1-84
+        type: 'equity' | 'debt';
+        amount: number;
+        interest_rate_pct?: number; // Debt only, annual
+        term_months?: number; // Debt only; straight-line repayment (omitted = outstanding to the end of the horizon)
+        description?: string;
+    }>;
+}
+
+export interface IncomeStatement {
+    revenue: number;
+    cogs: number;
+    gross_profit: number;
+    opex: number;
+    ebitda: number;
+    depreciation: number;
+    ebit: number;
+    interest: number;
+    pre_tax_income: number;
+    tax: number;
+    net_income: number;
+}
+
+export interface CashFlowStatement {
+    net_income: number;
+    depreciation: number;
+    change_in_working_capital: number; // Negative when working capital absorbs cash
+    operating: number;
+    capex: number;
+    investing: number;
+    equity_raised: number;
+    debt_drawn: number;
+    debt_repaid: number;
+    financing: number;
+    net_change: number;
+    ending_cash: number;
+}
+
+export interface BalanceSheet {
+    cash: number;
+    accounts_receivable: number;
+    inventory: number;
+    ppe_net: number;
+    total_assets: number;
+    accounts_payable: number;
+    debt: number;
+    total_liabilities: number;
+    paid_in_capital: number;
+    retained_earnings: number;
+    total_equity: number;
+    total_liabilities_and_equity: number;
+}
+
+export interface FinancialStatementPeriod {
+    period: string; // 'M1'..'M84' or 'Y1'..'Y7'
+    income_statement: IncomeStatement;
+    cash_flow: CashFlowStatement;
+    balance_sheet: BalanceSheet;
 }
 
 export interface FinancialModelingOutput {
@@ -232,6 +444,11 @@ export interface FinancialModelingOutput {
         arr_y5: number;
         rule_of_40_y5: number;
     };
+    statements: {
+        monthly: FinancialStatementPeriod[]; // Year 1 (every month with detail_level 'monthly_all')
+        annual: FinancialStatementPeriod[];
+        balance_check_max_diff: number; // Largest |assets - (liabilities + equity)| across months
+    };
     validation_results: {
         pass: boolean;
         warnings: string[];
@@ -239,44 +456,461 @@ export interface FinancialModelingOutput {
     };
 }
 
+export type ScenarioDriver = 'price' | 'volume' | 'growth' | 'churn' | 'cogs' | 'opex';
+
+// Relative changes in percent, e.g. { price: -20 } = price drops 20%, { churn: 100 } = churn doubles
+export interface ScenarioOverrides {
+    drivers?: Partial<Record<ScenarioDriver, number>>;
+    starting_cash?: number;
+    payment_terms_days?: number;
+    tax_rate?: number;
+    capex?: FinancialModelingInput['capex']; // Replaces the base schedule
+    financing?: FinancialModelingInput['financing']; // Replaces the base schedule
+}
+
+export type SensitivityMetric = 'total_capital_required' | 'break_even_month' | 'runway_months' | 'revenue_y5';
+
+export interface FinancialScenarioInput {
+    base: FinancialModelingInput;
+    scenarios?: Array<{ name: string; overrides: ScenarioOverrides }>;
+    include_presets?: boolean; // best/base/worst (default true)
+    sensitivity?: {
+        drivers?: ScenarioDriver[]; // Default: all drivers
+        variation_pct?: number; // +/- applied to each driver (default 20)
+        metric?: SensitivityMetric; // Tornado ordering (default total_capital_required)
+    };
+}
+
+export interface ScenarioMetrics {
+    break_even_month: number; // -1 = not reached
+    profitability_month: number; // -1 = not reached
+    runway_months: number | null; // Months before cash goes negative; null = never within the horizon
+    total_capital_required: number;
+    peak_burn_rate: number;
+    revenue_y1: number;
+    revenue_y5: number;
+    ending_cash: number;
+    validation_pass: boolean;
+}
+
+export interface ScenarioResult {
+    name: string;
+    overrides: ScenarioOverrides;
+    metrics: ScenarioMetrics;
+    delta_vs_base: {
+        break_even_months: number | null; // null when either side never breaks even
+        total_capital_required: number;
+        revenue_y5: number;
+    };
+}
+
+export interface SensitivityResult {
+    driver: ScenarioDriver;
+    low: ScenarioMetrics; // Driver reduced by variation_pct
+    high: ScenarioMetrics; // Driver increased by variation_pct
+    swing: number; // |high - low| on the chosen metric
+}
+
+export interface FinancialScenarioOutput {
+    base: ScenarioMetrics;
+    scenarios: ScenarioResult[];
+    sensitivity: {
+        metric: SensitivityMetric;
+        variation_pct: number;
+        tornado: SensitivityResult[]; // Largest swing first
+    };
+}
+
+export type InvestorType =
+    | 'vc'
+    | 'micro_vc'
+    | 'angel_network'
+    | 'accelerator'
+    | 'corporate_vc'
+    | 'family_office'
+    | 'venture_debt'
+    | 'grant'
+    | 'crowdfunding';
+
+export type FundingStage = 'pre_seed' | 'seed' | 'series_a' | 'series_b' | 'debt' | 'grants';
+
+export interface InvestorProfile {
+    id: string;
+    name: string;
+    type: InvestorType;
+    stages: FundingStage[];
+    cheque_min: number; // INR
+    cheque_max: number; // INR
+    sectors: string[]; // 'sector_agnostic' for generalists
+    geographies: string[]; // ISO country codes, 'SEA' or 'GLOBAL'
+    thesis_keywords: string[];
+    website?: string;
+}
+
+export interface InvestorMatchingInput {
+    answers?: Record<string, any>; // Questionnaire answers; explicit fields below take precedence
+    funding_stage?: FundingStage | 'not_sure';
+    capital_needed?: number | string; // INR, e.g. 10000000 or "₹1 Cr"
+    investor_types?: string[]; // Questionnaire values: angels, vcs, corporate_vcs, accelerators, ...
+    sectors?: string[];
+    country?: string; // ISO code, default IN
+    description?: string; // Free text matched against thesis keywords
+    limit?: number; // Default 10
+}
+
+export interface InvestorMatch {
+    investor: InvestorProfile;
+    score: number; // 0-100
+    reasons: string[];
+    gaps: string[];
+}
+
+export interface InvestorMatchingOutput {
+    criteria: {
+        funding_stage?: FundingStage;
+        capital_needed?: number;
+        investor_types: InvestorType[];
+        sectors: string[];
+        country: string;
+        description?: string;
+    };
+    matches: InvestorMatch[];
+    dataset: {
+        updated_at: string;
+        investors: number;
+        note: string;
+    };
+}
+
+export type MarketCustomerType = 'b2b' | 'b2c' | 'b2g';
+
+export interface MarketSource {
+    id: string;
+    title: string;
+    publisher: string;
+    year: number;
+    url?: string;
+}
+
+export interface MarketRegion {
+    id: string;
+    name: string;
+    aliases: string[]; // Lowercase country / city / state names matched in free-text answers
+}
+
+export interface MarketIndustry {
+    id: string;
+    name: string;
+    aliases: string[]; // Questionnaire values and common names
+    global_market_usd: number;
+    base_year: number;
+    cagr_pct: number;
+    segment_shares: Record<MarketCustomerType, number>; // Share of spend by customer type
+    source_ids: string[];
+}
+
+export interface RegionalSplit {
+    industry_id: string; // '*' for the economy-wide fallback
+    region: string;
+    share_pct: number;
+    source_id: string;
+    note?: string;
+}
+
+export interface CustomerPool {
+    region: string;
+    customer_type: MarketCustomerType;
+    unit: string;
+    count: number;
+    by_size?: Record<string, number>; // company_size_target buckets (B2B)
+    source_id: string;
+    size_source_id?: string;
+}
+
+export interface MarketDataset {
+    version: string;
+    updated_at: string;
+    currency: string; // Currency of global_market_usd
+    usd_inr: number;
+    note: string;
+    sources: MarketSource[];
+    regions: MarketRegion[];
+    industries: MarketIndustry[];
+    regional_splits: RegionalSplit[];
+    customer_pools: CustomerPool[];
+    location_reach: Record<string, { shares: Record<string, number>; source_ids: string[] }>;
+    assumptions: {
+        som_horizon_years: number;
+        som_share_of_sam: number;
+        consistent_ratio: number; // Methods within this factor of each other are consistent
+        divergent_ratio: number; // Beyond this factor they are inconsistent
+    };
+}
+
 export interface MarketSizingInput {
-    industry: string;
-    geography: string;
-    target_segment: string;
-    approach: 'top_down' | 'bottom_up' | 'both';
+    answers?: Record<string, any>; // Phase 3-5 answers; explicit fields below take precedence
+    industry?: string;
+    geography?: string;
+    target_segment?: string;
+    approach?: 'top_down' | 'bottom_up' | 'both'; // Default both
+}
+
+export interface MarketSizeEstimate {
+    method: 'top_down' | 'bottom_up';
+    tam: number; // INR
+    sam: number;
+    som: number;
+    derivation: { tam: string; sam: string; som: string };
+    assumptions: string[];
+    source_ids: string[];
+    cagr_pct?: number;
+    tam_in_5_years?: number;
+}
+
+export interface MarketReconciliation {
+    status: 'consistent' | 'divergent' | 'inconsistent' | 'single_method';
+    ratios?: { tam: number; sam: number; som: number }; // bottom_up / top_down
+    basis: 'top_down' | 'bottom_up';
+    notes: string[];
+}
+
+export interface MarketCitation extends MarketSource {
+    used_for: string[];
 }
 
 export interface MarketSizingOutput {
-    tam: number;
+    tam: number; // Recommended figures (see reconciliation.basis), INR
     sam: number;
     som: number;
+    currency: 'INR';
     methodology: string;
     assumptions: string[];
     confidence_level: 'high' | 'medium' | 'low';
+    top_down?: MarketSizeEstimate;
+    bottom_up?: MarketSizeEstimate;
+    reconciliation: MarketReconciliation;
+    citations: MarketCitation[];
+    dataset: { version: string; updated_at: string };
+}
+
+export type PositioningAxis =
+    | 'price'
+    | 'feature_breadth'
+    | 'ease_of_use'
+    | 'customer_service'
+    | 'technology'
+    | 'specialization'
+    | 'market_presence';
+
+export interface CompetitorPrice {
+    amount: number; // As quoted, in `currency`
+    currency: string;
+    period: 'month' | 'year' | 'week' | 'quarter' | 'one_time';
+    monthly_inr: number; // Normalized for comparison
+    label: string; // e.g. "₹749/month"
+    source: string; // "questionnaire", "input" or the page file name
+}
+
+export interface CompetitorProfileInput {
+    name: string;
+    url?: string;
+    price?: string | number; // "₹749/month", "$29 per user/mo", "free"
+    features?: string[];
+    ratings?: Partial<Record<PositioningAxis, number>>; // 1-5
+    market_share_pct?: number; // Only when the user has a source for it
+}
+
+export interface CompetitorPage {
+    competitor: string;
+    file_path: string; // Local HTML or PDF (saved pricing/features page)
 }
 
 export interface CompetitorAnalysisInput {
-    industry: string;
-    competitors: string[];
-    analysis_depth: 'basic' | 'detailed';
+    answers?: Record<string, any>; // Phase 5-6 answers; explicit fields below take precedence
+    industry?: string;
+    competitors?: Array<string | CompetitorProfileInput>;
+    your_features?: string[];
+    your_price?: string | number;
+    your_ratings?: Partial<Record<PositioningAxis, number>>;
+    axes?: [PositioningAxis, PositioningAxis]; // Default price x feature_breadth
+    pages?: CompetitorPage[];
+    analysis_depth?: 'basic' | 'detailed';
+}
+
+export interface CompetitorProfile {
+    name: string;
+    url?: string;
+    is_you: boolean;
+    price?: CompetitorPrice;
+    free_plan: boolean;
+    features: string[]; // Display labels, in comparison matrix order
+    ratings: Partial<Record<PositioningAxis, number>>;
+    market_share_pct?: number;
+    sources: string[];
+}
+
+export interface CompetitorComparisonRow {
+    feature: string;
+    values: Array<boolean | null>; // Per matrix column; null when there is no data for that column
+}
+
+export interface PositioningPoint {
+    name: string;
+    is_you: boolean;
+    x: number; // 0-100
+    y: number;
+}
+
+export interface PositioningMap {
+    x_axis: { id: PositioningAxis; label: string; low: string; high: string };
+    y_axis: { id: PositioningAxis; label: string; low: string; high: string };
+    points: PositioningPoint[];
+    unplaced: Array<{ name: string; missing: PositioningAxis[] }>;
+    method: string[]; // How each axis was scored
 }
 
 export interface CompetitorAnalysisOutput {
     competitors: Array<{
         name: string;
+        url?: string;
         strengths: string[];
         weaknesses: string[];
-        market_share?: number;
+        market_share?: number; // Only when supplied by the user, never estimated
         positioning: string;
+        price?: CompetitorPrice;
+        features: string[];
+        sources: string[];
     }>;
     competitive_advantages: string[];
     threats: string[];
+    comparison_matrix: {
+        columns: string[]; // "You" first, then competitors
+        pricing: Array<CompetitorPrice | null>;
+        rows: CompetitorComparisonRow[];
+    };
+    positioning_map: PositioningMap;
+    slide: {
+        title: string;
+        headers: string[];
+        rows: string[][];
+        footnote: string;
+    };
+    data_gaps: string[];
+}
+
+export type ComplianceCategory =
+    | 'registration'
+    | 'license'
+    | 'permit'
+    | 'tax_filing'
+    | 'roc_filing'
+    | 'labour'
+    | 'data_protection';
+
+export type ComplianceFrequency = 'one_time' | 'monthly' | 'quarterly' | 'half_yearly' | 'annual';
+
+/**
+ * All fields set on one condition must hold; a rule applies when any of its conditions does
+ */
+export interface ComplianceCondition {
+    entity_types?: string[]; // legal_entity answer values: pvt_ltd, llp, opc, ...
+    min_turnover?: number; // Annual, in the pack currency
+    max_turnover?: number;
+    min_headcount?: number;
+    max_headcount?: number;
+    activities_any?: string[];
+    not_activities?: string[];
+    sectors_any?: string[];
+}
+
+export interface ComplianceDueRule {
+    day_of_month?: number; // Monthly rules only: day of the month the filing for a period falls due (clamped to month end)
+    month_offset?: number; // Months after the period; default 1
+    exceptions?: Array<{ period_month: number; date: string }>; // e.g. March TDS due 04-30
+    dates?: string[]; // Fixed MM-DD dates each year (quarterly, half-yearly, annual)
+    period_labels?: string[]; // One per entry in dates
+    within_days?: number; // Days from the start date (one-time; annual repeats yearly)
+    description?: string;
+}
+
+export interface ComplianceRule {
+    id: string;
+    name: string;
+    category: ComplianceCategory;
+    authority: string;
+    description: string;
+    applies_when?: ComplianceCondition[]; // Omitted = always applies
+    requires?: string[]; // Rule ids that must also apply (e.g. GST returns need GST registration)
+    frequency: ComplianceFrequency;
+    due: ComplianceDueRule;
+    cost?: { min: number; max: number; note?: string }; // Per filing, in the pack currency
+    penalty: string;
+    severity: 'high' | 'medium' | 'low';
+    reference?: string;
+}
+
+export interface ComplianceRulePack {
+    id: string;
+    version: string;
+    updated_at: string;
+    name: string;
+    jurisdiction: { country: string; state?: string; aliases?: string[] };
+    sector?: string;
+    currency: string;
+    fx_from_inr?: number; // Converts INR turnover answers into the pack currency
+    rules: ComplianceRule[];
+}
+
+export interface ComplianceProfile {
+    country: string; // ISO code
+    state?: string;
+    entity_type?: string;
+    turnover?: number; // Annual INR
+    headcount?: number;
+    activities: string[];
+    sectors: string[];
+    assumptions: string[];
 }
 
 export interface ComplianceCheckInput {
-    industry: string;
-    location: string;
-    business_type: string;
+    answers?: Record<string, any>; // Questionnaire answers (Phase 7 licences/regulations/team, legal_entity, primary_market, ...)
+    industry?: string;
+    location?: string;
+    business_type?: string; // Entity type, e.g. "Pvt Ltd", "LLP", "Sole Proprietorship"
+    turnover?: number | string; // Annual INR
+    headcount?: number;
+    activities?: string[]; // e.g. lending, payment_aggregation, import_export, personal_data
+    start_date?: string; // Calendar start (YYYY-MM-DD); also the assumed incorporation date. Default today
+    horizon_months?: number; // Default 12
+}
+
+export interface ComplianceChecklistItem {
+    rule_id: string;
+    pack_id: string;
+    name: string;
+    category: ComplianceCategory;
+    authority: string;
+    description: string;
+    frequency: ComplianceFrequency;
+    due: string;
+    estimated_cost?: { min: number; max: number; currency: string; note?: string };
+    annual_cost?: { min: number; max: number; currency: string }; // Cost per filing x filings per year
+    penalty: string;
+    severity: 'high' | 'medium' | 'low';
+    reference?: string;
+    reasons: string[]; // Why the rule applies
+}
+
+export interface ComplianceDeadline {
+    rule_id: string;
+    name: string;
+    due_date: string; // YYYY-MM-DD
+    period?: string;
+    category: ComplianceCategory;
+    authority: string;
+    penalty: string;
+    severity: 'high' | 'medium' | 'low';
+    reference?: string;
 }
 
 export interface ComplianceCheckOutput {
@@ -284,12 +918,22 @@ export interface ComplianceCheckOutput {
     required_permits: string[];
     compliance_risks: string[];
     recommendations: string[];
+    profile: ComplianceProfile;
+    checklist: ComplianceChecklistItem[];
+    calendar: ComplianceDeadline[]; // Sorted by due date within the horizon
+    estimated_costs: Array<{
+        currency: string;
+        one_time: { min: number; max: number };
+        recurring_annual: { min: number; max: number };
+    }>;
+    packs: Array<{ id: string; name: string; version: string }>;
 }
 
 export interface BrandedDocumentGeneratorInput {
     document_type: 'business_plan' | 'financial_model' | 'investor_deck' | 'executive_summary';
-    content: any;
+    content: any; // Markdown, or sections keyed by heading
     business_name: string;
+    session_id?: string; // Stores the document with the session's artifacts
     brand_identity?: {
         logo_url?: string;
         colors?: string[];
@@ -300,11 +944,90 @@ export interface BrandedDocumentGeneratorInput {
 
 export interface BrandedDocumentGeneratorOutput {
     document_id: string;
-    document_url: string;
+    document_url: string; // Signed download URL
+    url_expires_at: string;
+    storage_key: string;
+    version: number;
+    checksum: string;
     format: string;
-    page_count?: number;
+    size_bytes: number;
+    page_count?: number; // PDF only
     status: 'generated' | 'failed';
     generated_at: string;
+    design_system: {
+        font: string;
+        color_mode: string;
+        style: string;
+    };
+}
+
+export type PitchDeckType = 'full' | 'elevator' | 'data_room';
+
+export interface PitchDeckInput {
+    deck_type: PitchDeckType;
+    business_name?: string;
+    session_id?: string; // Stores the deck with the session's artifacts
+    answers?: Record<string, any>; // Session answers; fill whatever business_data leaves out
+    business_data?: {
+        problem?: string;
+        solution?: string;
+        market_size?: { tam: number; sam: number; som: number };
+        competitors?: string[];
+        revenue_streams?: any[];
+        financial_projections?: any; // financial_modeling output or { revenue: number[] } (INR per year)
+        unit_economics?: { cac: number; ltv: number; ratio: number };
+        team?: Array<string | { name: string; role?: string; bio?: string }>;
+        funding_ask?: { amount: number; use_of_funds: any }; // use_of_funds: { label: percent } or text
+        traction?: any;
+    };
+    branding?: {
+        logo_url?: string;
+        tagline?: string;
+    };
+}
+
+export interface PitchDeckChart {
+    type: 'bar' | 'line' | 'pie' | 'doughnut' | 'scatter';
+    labels: string[];
+    series: Array<{ name: string; values: number[] }>;
+    unit?: string; // Axis / label suffix, e.g. "₹ Cr" or "%"
+    horizontal?: boolean;
+}
+
+export interface PitchDeckSlide {
+    title: string;
+    layout: 'cover' | 'bullets' | 'chart' | 'metrics' | 'table' | 'team';
+    subtitle?: string;
+    bullets?: string[];
+    chart?: PitchDeckChart;
+    metrics?: Array<{ label: string; value: string; caption?: string }>;
+    table?: { headers: string[]; rows: string[][] };
+    team?: Array<{ name: string; role?: string; bio?: string }>;
+    source?: string; // Caption under the content (data source, method)
+    notes?: string; // Speaker notes
+    placeholder?: boolean; // No session data for this slide yet; content lists what to add
+}
+
+export interface PitchDeckOutput {
+    deck_id: string;
+    deck_url: string; // Signed download URL
+    url_expires_at: string;
+    storage_key: string;
+    version: number;
+    checksum: string;
+    deck_type: PitchDeckType;
+    slide_count: number;
+    slides: Array<{ number: number; title: string; placeholder: boolean }>;
+    missing_data: string[];
+    format: 'pptx';
+    size_bytes: number;
+    status: 'generated';
+    generated_at: string;
+    design_system: {
+        font: string;
+        color_mode: string;
+        style: string;
+    };
 }
 
 
@@ -344,3 +1067,58 @@ export class SkillExecutionError extends Error {
         this.name = 'SkillExecutionError';
     }
 }
+
+export class LLMProviderError extends Error {
+    constructor(
+        message: string,
+        public providerId: string,
+        public details?: any
+    ) {
+        super(message);
+        this.name = 'LLMProviderError';
+    }
+}
+
+export class BudgetExceededError extends Error {
+    constructor(
+        message: string,
+        public scope: 'session' | 'user' | 'agent',
+        public details?: any
+    ) {
+        super(message);
+        this.name = 'BudgetExceededError';
+    }
+}
+
+export class DocumentParseError extends Error {
+    constructor(
+        message: string,
+        public fileName: string,
+        public details?: any
+    ) {
+        super(message);
+        this.name = 'DocumentParseError';
+    }
+}
+
+export class DocumentSectionError extends Error {
+    constructor(
+        message: string,
+        public reason: 'not_found' | 'locked',
+        public details?: any
+    ) {
+        super(message);
+        this.name = 'DocumentSectionError';
+    }
+}
+
+export class FormulaError extends Error {
+    constructor(
+        message: string,
+        public formula: string,
+        public details?: any
+    ) {
+        super(message);
+        this.name = 'FormulaError';
+    }
+}
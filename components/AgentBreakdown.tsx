@@ -35,7 +35,11 @@ export default function AgentBreakdown({ agentOutputs, intent }: AgentBreakdownP
                         <p>
                             <span className="font-medium">Execution:</span>{' '}
                             <span className="inline-flex items-center gap-1 bg-blue-100 px-2 py-0.5 rounded">
-                                {intent.execution_type === 'parallel' ? '⚡ Parallel' : '→ Sequential'}
+                                {intent.execution_type === 'parallel'
+                                    ? '⚡ Parallel'
+                                    : intent.execution_type === 'dag'
+                                        ? '⑂ Dependency Graph'
+                                        : '→ Sequential'}
                             </span>
                         </p>
                         <p><span className="font-medium">Reasoning:</span> {intent.reasoning}</p>
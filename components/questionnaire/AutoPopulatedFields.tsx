@@ -1,20 +1,65 @@
 'use client'
 
-import { Sparkles, CheckCircle, Info } from 'lucide-react'
+import { useEffect, useState } from 'react'
+import { Sparkles, CheckCircle, Info, Pencil } from 'lucide-react'
+
+export interface FieldProvenance {
+    source_field: string
+    source_value: any
+    method: 'static' | 'lookup' | 'calculation'
+    via?: string
+    inputs?: Record<string, any>
+    description: string
+}
+
+type Decision = { status: 'accepted' } | { status: 'overridden'; value: string }
 
 interface AutoPopulatedFieldsProps {
     fields: Record<string, any>
+    provenance?: Record<string, FieldProvenance>
+    // Fields with provenance can be accepted or overridden; resolve saves the decision
+    onResolve?: (field: string, value: any, status: 'accepted' | 'overridden') => Promise<void>
     onDismiss?: () => void
 }
 
 export default function AutoPopulatedFields({
     fields,
+    provenance = {},
+    onResolve,
     onDismiss
 }: AutoPopulatedFieldsProps) {
+    const [decisions, setDecisions] = useState<Record<string, Decision>>({})
+    const [editing, setEditing] = useState<string | null>(null)
+    const [draft, setDraft] = useState('')
+    const [busyField, setBusyField] = useState<string | null>(null)
+    const [error, setError] = useState<string | null>(null)
+
+    // A new answer brings a new set of suggestions
+    useEffect(() => {
+        setDecisions({})
+        setEditing(null)
+        setError(null)
+    }, [fields])
+
     if (Object.keys(fields).length === 0) {
         return null
     }
 
+    const resolve = async (field: string, decision: Decision) => {
+        if (!onResolve) return
+        setBusyField(field)
+        setError(null)
+        try {
+            await onResolve(field, decision.status === 'overridden' ? decision.value : fields[field], decision.status)
+            setDecisions(prev => ({ ...prev, [field]: decision }))
+            setEditing(null)
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to save your choice')
+        } finally {
+            setBusyField(null)
+        }
+    }
+
     return (
         <div className="mt-4 bg-gradient-to-r from-green-50 to-emerald-50 border border-green-200 rounded-xl p-5 shadow-sm">
             {/* Header */}
@@ -28,7 +73,7 @@ export default function AutoPopulatedFields({
                             Auto-populated Fields
                         </h3>
                         <p className="text-sm text-green-700">
-                            {Object.keys(fields).length} field{Object.keys(fields).length > 1 ? 's' : ''} automatically filled
+                            {Object.keys(fields).length} field{Object.keys(fields).length > 1 ? 's' : ''} {onResolve && Object.keys(provenance).length > 0 ? 'suggested from your answer' : 'automatically filled'}
                         </p>
                     </div>
                 </div>
@@ -42,6 +87,8 @@ export default function AutoPopulatedFields({
                 )}
             </div>
 
+            {error && <p className="mb-3 text-sm text-red-600">{error}</p>}
+
             {/* Fields List */}
             <div className="space-y-3">
                 {Object.entries(fields).map(([key, value]) => (
@@ -65,9 +112,72 @@ export default function AutoPopulatedFields({
                                 )}
                             </div>
                             <div className="text-sm text-gray-700">
-                                {formatValue(value)}
+                                {decisions[key]?.status === 'overridden' ? (
+                                    <>
+                                        <span className="line-through text-gray-400 mr-2">{formatValue(value)}</span>
+                                        {(decisions[key] as { value: string }).value}
+                                    </>
+                                ) : formatValue(value)}
                             </div>
+                            {provenance[key] && (
+                                <div className="mt-1 text-xs text-gray-500">
+                                    {provenance[key].description}
+                                </div>
+                            )}
+
+                            {editing === key && (
+                                <div className="mt-2 flex gap-2">
+                                    <input
+                                        value={draft}
+                                        onChange={e => setDraft(e.target.value)}
+                                        className="flex-1 border rounded-lg px-2 py-1 text-sm"
+                                        autoFocus
+                                    />
+                                    <button
+                                        onClick={() => resolve(key, { status: 'overridden', value: draft })}
+                                        disabled={busyField !== null || !draft.trim()}
+                                        className="px-3 py-1 text-sm bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50"
+                                    >
+                                        Save
+                                    </button>
+                                    <button
+                                        onClick={() => setEditing(null)}
+                                        className="px-2 py-1 text-sm text-gray-600 hover:text-gray-900"
+                                    >
+                                        Cancel
+                                    </button>
+                                </div>
+                            )}
                         </div>
+
+                        {onResolve && provenance[key] && editing !== key && (
+                            decisions[key] ? (
+                                <span className="text-xs font-medium text-green-700 flex-shrink-0">
+                                    {decisions[key].status === 'accepted' ? 'Accepted' : 'Overridden'}
+                                </span>
+                            ) : (
+                                <div className="flex gap-2 flex-shrink-0">
+                                    <button
+                                        onClick={() => resolve(key, { status: 'accepted' })}
+                                        disabled={busyField !== null}
+                                        className="px-2 py-1 text-xs bg-green-100 text-green-700 rounded hover:bg-green-200 disabled:opacity-50"
+                                    >
+                                        Accept
+                                    </button>
+                                    <button
+                                        onClick={() => {
+                                            setEditing(key)
+                                            setDraft(typeof value === 'object' ? formatValue(value) : String(value ?? ''))
+                                        }}
+                                        disabled={busyField !== null}
+                                        className="flex items-center gap-1 px-2 py-1 text-xs bg-gray-100 text-gray-700 rounded hover:bg-gray-200 disabled:opacity-50"
+                                    >
+                                        <Pencil className="w-3 h-3" />
+                                        Override
+                                    </button>
+                                </div>
+                            )
+                        )}
                     </div>
                 ))}
             </div>
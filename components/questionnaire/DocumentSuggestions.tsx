@@ -0,0 +1,125 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { FileText, Info } from 'lucide-react'
+import { AnswerSuggestion } from './FileUpload'
+
+interface DocumentSuggestionsProps {
+    suggestions: AnswerSuggestion[]
+    onApply: (answers: Record<string, any>) => void
+    onDismiss: () => void
+}
+
+export default function DocumentSuggestions({
+    suggestions,
+    onApply,
+    onDismiss
+}: DocumentSuggestionsProps) {
+    const [selected, setSelected] = useState<Record<string, boolean>>({})
+
+    // Pre-select everything the parser is confident about
+    useEffect(() => {
+        const initial: Record<string, boolean> = {}
+        suggestions.forEach(s => {
+            initial[s.question_id] = s.confidence === 'high'
+        })
+        setSelected(initial)
+    }, [suggestions])
+
+    if (suggestions.length === 0) {
+        return null
+    }
+
+    const selectedCount = suggestions.filter(s => selected[s.question_id]).length
+
+    const handleApply = () => {
+        const answers: Record<string, any> = {}
+        suggestions
+            .filter(s => selected[s.question_id])
+            .forEach(s => {
+                answers[s.question_id] = s.value
+            })
+        onApply(answers)
+    }
+
+    return (
+        <div className="mt-4 bg-gradient-to-r from-green-50 to-emerald-50 border border-green-200 rounded-xl p-5 shadow-sm">
+            {/* Header */}
+            <div className="flex items-center justify-between mb-4">
+                <div className="flex items-center gap-3">
+                    <div className="p-2 bg-green-100 rounded-lg">
+                        <FileText className="w-5 h-5 text-green-600" />
+                    </div>
+                    <div>
+                        <h3 className="font-semibold text-green-900">
+                            Found in your documents
+                        </h3>
+                        <p className="text-sm text-green-700">
+                            Confirm the answers you want to pre-fill
+                        </p>
+                    </div>
+                </div>
+                <button
+                    onClick={onDismiss}
+                    className="text-green-600 hover:text-green-800 text-sm font-medium"
+                >
+                    Dismiss
+                </button>
+            </div>
+
+            {/* Suggestions List */}
+            <div className="space-y-3">
+                {suggestions.map(suggestion => (
+                    <label
+                        key={suggestion.question_id}
+                        className="flex items-start gap-3 p-3 bg-white rounded-lg border border-green-100 cursor-pointer"
+                    >
+                        <input
+                            type="checkbox"
+                            checked={!!selected[suggestion.question_id]}
+                            onChange={(e) => setSelected(prev => ({ ...prev, [suggestion.question_id]: e.target.checked }))}
+                            className="mt-1 w-4 h-4 accent-green-600 flex-shrink-0"
+                        />
+                        <div className="flex-1 min-w-0">
+                            <div className="flex items-center gap-2 mb-1">
+                                <span className="font-medium text-gray-900">
+                                    {formatFieldName(suggestion.question_id)}
+                                </span>
+                                {suggestion.confidence === 'medium' && (
+                                    <span className="text-xs px-2 py-0.5 rounded-full bg-yellow-100 text-yellow-800">
+                                        Check
+                                    </span>
+                                )}
+                                <div className="group relative">
+                                    <Info className="w-4 h-4 text-gray-400 cursor-help" />
+                                    <div className="absolute left-0 bottom-full mb-2 hidden group-hover:block w-64 p-2 bg-gray-900 text-white text-xs rounded-lg shadow-lg z-10">
+                                        {suggestion.reason}
+                                    </div>
+                                </div>
+                            </div>
+                            <div className="text-sm text-gray-700">
+                                {suggestion.label}
+                            </div>
+                        </div>
+                    </label>
+                ))}
+            </div>
+
+            <div className="flex justify-end mt-4">
+                <button
+                    onClick={handleApply}
+                    disabled={selectedCount === 0}
+                    className="px-4 py-2 rounded-lg text-sm font-medium bg-green-600 hover:bg-green-700 text-white disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                    Apply {selectedCount} answer{selectedCount === 1 ? '' : 's'}
+                </button>
+            </div>
+        </div>
+    )
+}
+
+function formatFieldName(key: string): string {
+    return key
+        .replace(/_/g, ' ')
+        .replace(/\b\w/g, l => l.toUpperCase())
+}
@@ -6,6 +6,8 @@ import axios from 'axios'
 
 interface FileUploadProps {
   onFileUpload: (files: UploadedFile[]) => void
+  onSuggestions?: (suggestions: AnswerSuggestion[], file: UploadedFile) => void
+  sessionId?: string
   maxFiles?: number
   maxSizeMB?: number
   acceptedTypes?: string[]
@@ -17,10 +19,27 @@ export interface UploadedFile {
   size: number
   type: string
   url: string
+  suggestions?: AnswerSuggestion[]
+  historicalFinancials?: { currency: string; periods: Record<string, Record<string, number>> } // P&L by period, kept as context
+  parseError?: string
 }
 
+// Answer suggestion returned by /api/documents/upload
+export interface AnswerSuggestion {
+  question_id: string
+  value: any
+  label: string
+  reason: string
+  confidence: 'high' | 'medium'
+}
+
+// Formats the server can extract figures from; other files are only attached locally
+const PARSEABLE_TYPES = ['.pdf', '.docx', '.xlsx', '.csv']
+
 export function FileUpload({
   onFileUpload,
+  onSuggestions,
+  sessionId,
   maxFiles = 5,
   maxSizeMB = 10,
   acceptedTypes = ['.pdf', '.doc', '.docx', '.xls', '.xlsx', '.csv', '.png', '.jpg', '.jpeg'],
@@ -67,21 +86,34 @@ export function FileUpload({
     setUploading(true)
 
     try {
-      // Upload to your backend
-      const uploadPromises = validFiles.map(async (file) => {
-        const formData = new FormData()
-        formData.append('file', file)
-
-        // This would be your actual upload endpoint
-        // For now, create a local URL
-        const url = URL.createObjectURL(file)
-
-        return {
+      const uploadPromises = validFiles.map(async (file): Promise<UploadedFile> => {
+        // Local URL for preview; parsing happens server-side
+        const uploaded: UploadedFile = {
           name: file.name,
           size: file.size,
           type: file.type,
-          url
+          url: URL.createObjectURL(file)
         }
+
+        const extension = '.' + file.name.split('.').pop()?.toLowerCase()
+        if (!PARSEABLE_TYPES.includes(extension)) return uploaded
+
+        const formData = new FormData()
+        formData.append('file', file)
+        if (sessionId) formData.append('session_id', sessionId)
+
+        try {
+          const { data } = await axios.post('/api/documents/upload', formData)
+          uploaded.suggestions = data.data?.suggestions || []
+          uploaded.historicalFinancials = data.data?.historical_financials
+          if (uploaded.suggestions!.length > 0) {
+            onSuggestions?.(uploaded.suggestions!, uploaded)
+          }
+        } catch (err: any) {
+          uploaded.parseError = err.response?.data?.error || 'Could not read figures from this file'
+        }
+
+        return uploaded
       })
 
       const uploadedFiles = await Promise.all(uploadPromises)
@@ -163,7 +195,7 @@ export function FileUpload({
 
           <div>
             <p className="text-sm font-medium text-gray-700">
-              {uploading ? 'Uploading...' : 'Click to upload or drag and drop'}
+              {uploading ? 'Reading document...' : 'Click to upload or drag and drop'}
             </p>
             <p className="text-xs text-gray-500 mt-1">
               {acceptedTypes.join(', ')} (max {maxSizeMB}MB each)
@@ -191,7 +223,11 @@ export function FileUpload({
                   </p>
                   <p className="text-xs text-gray-500">
                     {formatFileSize(file.size)}
+                    {file.suggestions && ` · ${file.suggestions.length} suggested answer${file.suggestions.length === 1 ? '' : 's'}`}
                   </p>
+                  {file.parseError && (
+                    <p className="text-xs text-red-600">{file.parseError}</p>
+                  )}
                 </div>
               </div>
 
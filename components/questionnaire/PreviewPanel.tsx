@@ -8,6 +8,15 @@ interface PreviewPanelProps {
 }
 
 export default function PreviewPanel({ data, answers }: PreviewPanelProps) {
+    // Structured agent outputs (see backend/agents/output-schemas.ts), keyed by agent id
+    const market = data?.market_analyst
+    const financials = data?.financial_modeler
+    const marketSize = answers.tam_sam_som || (market && {
+        tam: formatMoney(market.tam),
+        sam: formatMoney(market.sam),
+        som: formatMoney(market.som)
+    })
+
     const sections = [
         {
             id: 'profile',
@@ -33,11 +42,12 @@ export default function PreviewPanel({ data, answers }: PreviewPanelProps) {
             id: 'market',
             title: 'Market Analysis',
             icon: TrendingUp,
-            progress: calculateProgress(['operating_markets', 'tam_sam_som'], answers),
-            items: answers.tam_sam_som ? [
-                { label: 'TAM', value: answers.tam_sam_som.tam },
-                { label: 'SAM', value: answers.tam_sam_som.sam },
-                { label: 'SOM', value: answers.tam_sam_som.som }
+            progress: calculateProgress(['operating_markets', 'tam_sam_som'], { ...answers, tam_sam_som: marketSize }),
+            items: marketSize ? [
+                { label: 'TAM', value: marketSize.tam },
+                { label: 'SAM', value: marketSize.sam },
+                { label: 'SOM', value: marketSize.som },
+                { label: 'Competitors', value: market?.competitors?.length }
             ] : []
         },
         {
@@ -47,7 +57,8 @@ export default function PreviewPanel({ data, answers }: PreviewPanelProps) {
             progress: calculateProgress(['year_1_revenue_target', 'revenue_streams'], answers),
             items: [
                 { label: 'Year 1 Target', value: answers.year_1_revenue_target },
-                { label: 'Revenue Streams', value: answers.revenue_streams?.length || 0 }
+                { label: 'Revenue Streams', value: answers.revenue_streams?.length || 0 },
+                { label: 'Break-even', value: financials?.break_even_month && `Month ${financials.break_even_month}` }
             ]
         }
     ]
@@ -168,6 +179,11 @@ function calculateProgress(fields: string[], answers: Record<string, any>): numb
     return Math.round((completed / fields.length) * 100)
 }
 
+function formatMoney(size?: { value: number; currency?: string }): string | undefined {
+    if (!size) return undefined
+    return `${size.currency || 'INR'} ${size.value.toLocaleString('en-IN')}`
+}
+
 function calculateOverallProgress(answers: Record<string, any>): number {
     const allFields = [
         'user_name', 'email', 'location',
@@ -0,0 +1,198 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+
+interface DocumentSection {
+    id: string;
+    title: string;
+    level: number;
+    content: string;
+    agents: string[];
+    locked: boolean;
+    wordCount: number;
+}
+
+interface UpdatedDocument {
+    type: string;
+    content: string;
+    wordCount: number;
+    charCount: number;
+}
+
+interface DocumentSectionsProps {
+    sessionId: string;
+    documentType: string;
+    refreshKey?: number; // Bump to reload after the document changes elsewhere
+    onUpdated: (document: UpdatedDocument) => void;
+}
+
+type Mode = { sectionId: string; action: 'edit' | 'regenerate' } | null;
+
+function formatAgent(agentId: string): string {
+    return agentId.replace(/_/g, ' ');
+}
+
+export default function DocumentSections({ sessionId, documentType, refreshKey, onUpdated }: DocumentSectionsProps) {
+    const [isExpanded, setIsExpanded] = useState(false);
+    const [sections, setSections] = useState<DocumentSection[]>([]);
+    const [mode, setMode] = useState<Mode>(null);
+    const [draft, setDraft] = useState('');
+    const [busySection, setBusySection] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        setMode(null);
+        loadSections();
+    }, [sessionId, documentType, refreshKey]);
+
+    const loadSections = async () => {
+        try {
+            const params = new URLSearchParams({ session_id: sessionId, document_type: documentType });
+            const response = await fetch(`/api/documents/sections?${params}`);
+            if (response.status === 404) {
+                setSections([]);
+                return;
+            }
+            const result = await response.json();
+            if (!response.ok) throw new Error(result.error || `HTTP ${response.status}`);
+            setSections(result.data.sections);
+            setError(null);
+        } catch (err) {
+            console.error('Failed to load sections:', err);
+            setError(err instanceof Error ? err.message : 'Failed to load sections');
+        }
+    };
+
+    const post = async (path: string, body: Record<string, any>) => {
+        const response = await fetch(path, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ session_id: sessionId, document_type: documentType, ...body })
+        });
+        const result = await response.json();
+        if (!response.ok) throw new Error(result.error || `HTTP ${response.status}`);
+        return result.data;
+    };
+
+    const run = async (sectionId: string, action: () => Promise<void>) => {
+        setBusySection(sectionId);
+        setError(null);
+        try {
+            await action();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Section update failed');
+        } finally {
+            setBusySection(null);
+        }
+    };
+
+    const toggleLock = (section: DocumentSection) => run(section.id, async () => {
+        await post('/api/documents/sections/lock', { section_id: section.id, locked: !section.locked });
+        await loadSections();
+    });
+
+    const submit = (section: DocumentSection) => run(section.id, async () => {
+        const data = mode?.action === 'edit'
+            ? await post('/api/documents/sections/edit', { section_id: section.id, content: draft })
+            : await post('/api/documents/sections/regenerate', { section_id: section.id, instructions: draft });
+        setMode(null);
+        onUpdated(data.document);
+    });
+
+    const open = (section: DocumentSection, action: 'edit' | 'regenerate') => {
+        setMode({ sectionId: section.id, action });
+        setDraft(action === 'edit' ? section.content : '');
+    };
+
+    if (sections.length === 0 && !error) return null;
+
+    return (
+        <div className="border-b bg-white">
+            <button
+                onClick={() => setIsExpanded(!isExpanded)}
+                className="w-full flex items-center justify-between px-4 py-3 text-sm font-medium text-gray-700 hover:bg-gray-50"
+            >
+                <span>🧩 Sections ({sections.length}) · {sections.filter(section => section.locked).length} locked</span>
+                <span className="text-gray-400">{isExpanded ? '▲' : '▼'}</span>
+            </button>
+
+            {isExpanded && (
+                <div className="px-4 pb-4 space-y-2">
+                    {error && <p className="text-sm text-red-600">{error}</p>}
+
+                    {sections.map(section => (
+                        <div key={section.id} className="border rounded-lg">
+                            <div className="flex items-center justify-between px-3 py-2 text-sm">
+                                <div className="min-w-0">
+                                    <span className="font-medium text-gray-900">{section.locked ? '🔒 ' : ''}{section.title}</span>
+                                    <span className="ml-2 text-xs text-gray-500">{section.wordCount.toLocaleString()} words</span>
+                                    <span className="ml-2 text-xs text-gray-500">
+                                        {section.agents.length > 0
+                                            ? `from ${section.agents.map(formatAgent).join(', ')}`
+                                            : 'from questionnaire answers'}
+                                    </span>
+                                </div>
+                                <div className="flex gap-2 flex-shrink-0">
+                                    <button
+                                        onClick={() => toggleLock(section)}
+                                        disabled={busySection !== null}
+                                        className="px-2 py-1 bg-gray-100 text-gray-700 rounded hover:bg-gray-200 disabled:opacity-50"
+                                    >
+                                        {section.locked ? 'Unlock' : 'Lock'}
+                                    </button>
+                                    <button
+                                        onClick={() => open(section, 'edit')}
+                                        disabled={busySection !== null}
+                                        className="px-2 py-1 bg-blue-100 text-blue-700 rounded hover:bg-blue-200 disabled:opacity-50"
+                                    >
+                                        Edit
+                                    </button>
+                                    <button
+                                        onClick={() => open(section, 'regenerate')}
+                                        disabled={busySection !== null || section.locked}
+                                        title={section.locked ? 'Unlock the section to regenerate it' : 'Regenerate this section only'}
+                                        className="px-2 py-1 bg-green-100 text-green-700 rounded hover:bg-green-200 disabled:opacity-50"
+                                    >
+                                        {busySection === section.id && mode?.action === 'regenerate' ? '⏳ Regenerating...' : 'Regenerate'}
+                                    </button>
+                                </div>
+                            </div>
+
+                            {mode?.sectionId === section.id && (
+                                <div className="px-3 pb-3 space-y-2">
+                                    <textarea
+                                        value={draft}
+                                        onChange={e => setDraft(e.target.value)}
+                                        rows={mode.action === 'edit' ? 12 : 3}
+                                        placeholder={mode.action === 'regenerate'
+                                            ? 'Optional: what should change? (e.g. "Use the updated pricing of ₹599/month")'
+                                            : undefined}
+                                        className="w-full border rounded-lg p-2 text-sm font-mono"
+                                    />
+                                    <div className="flex justify-end gap-2">
+                                        <button
+                                            onClick={() => setMode(null)}
+                                            disabled={busySection !== null}
+                                            className="px-3 py-1 text-sm text-gray-600 hover:text-gray-900"
+                                        >
+                                            Cancel
+                                        </button>
+                                        <button
+                                            onClick={() => submit(section)}
+                                            disabled={busySection !== null || (mode.action === 'edit' && !draft.trim())}
+                                            className="px-3 py-1 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+                                        >
+                                            {busySection === section.id
+                                                ? '⏳ Saving...'
+                                                : mode.action === 'edit' ? 'Save edit' : 'Regenerate section'}
+                                        </button>
+                                    </div>
+                                </div>
+                            )}
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
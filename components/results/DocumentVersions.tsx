@@ -0,0 +1,276 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+
+interface DocumentVersion {
+    documentType: string;
+    version: number;
+    createdAt: string;
+    origin: 'generated' | 'restored' | 'edited' | 'section_regenerated';
+    restoredFrom?: number;
+    section?: string;
+}
+
+interface SectionDiff {
+    id: string;
+    heading: string;
+    level: number;
+    status: 'added' | 'removed' | 'modified' | 'unchanged';
+    lines?: { type: 'added' | 'removed' | 'unchanged'; text: string }[];
+}
+
+interface VersionDiff {
+    from: DocumentVersion;
+    to: DocumentVersion;
+    sections: SectionDiff[];
+    summary: { added: number; removed: number; modified: number; unchanged: number };
+    answerChanges: { question: string; before: any; after: any }[];
+}
+
+interface RestoredDocument {
+    type: string;
+    content: string;
+    wordCount: number;
+    charCount: number;
+}
+
+interface DocumentVersionsProps {
+    sessionId: string;
+    documentType: string;
+    refreshKey?: number; // Bump to reload after a regeneration
+    onRestored: (document: RestoredDocument) => void;
+}
+
+const STATUS_STYLES: Record<SectionDiff['status'], string> = {
+    added: 'bg-green-100 text-green-700',
+    removed: 'bg-red-100 text-red-700',
+    modified: 'bg-yellow-100 text-yellow-800',
+    unchanged: 'bg-gray-100 text-gray-500'
+};
+
+const LINE_STYLES = {
+    added: 'bg-green-50 text-green-800',
+    removed: 'bg-red-50 text-red-800 line-through',
+    unchanged: 'text-gray-600'
+};
+
+function describeOrigin(version: DocumentVersion): string {
+    switch (version.origin) {
+        case 'restored':
+            return `Restored from v${version.restoredFrom}`;
+        case 'edited':
+            return `Edited section: ${version.section}`;
+        case 'section_regenerated':
+            return `Regenerated section: ${version.section}`;
+        default:
+            return 'Generated';
+    }
+}
+
+function formatAnswer(value: any): string {
+    if (value === undefined || value === null || value === '') return '—';
+    return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+export default function DocumentVersions({ sessionId, documentType, refreshKey, onRestored }: DocumentVersionsProps) {
+    const [isExpanded, setIsExpanded] = useState(false);
+    const [versions, setVersions] = useState<DocumentVersion[]>([]);
+    const [diff, setDiff] = useState<VersionDiff | null>(null);
+    const [showUnchanged, setShowUnchanged] = useState(false);
+    const [busy, setBusy] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        setDiff(null);
+        loadVersions();
+    }, [sessionId, documentType, refreshKey]);
+
+    const loadVersions = async () => {
+        try {
+            const params = new URLSearchParams({ session_id: sessionId, document_type: documentType });
+            const response = await fetch(`/api/documents/versions?${params}`);
+            const result = await response.json();
+            if (!response.ok) throw new Error(result.error || `HTTP ${response.status}`);
+            setVersions(result.data.versions);
+            setError(null);
+        } catch (err) {
+            console.error('Failed to load versions:', err);
+            setError(err instanceof Error ? err.message : 'Failed to load versions');
+        }
+    };
+
+    const compare = async (from: number, to: number) => {
+        setBusy(true);
+        try {
+            const params = new URLSearchParams({
+                session_id: sessionId,
+                document_type: documentType,
+                from: String(from),
+                to: String(to)
+            });
+            const response = await fetch(`/api/documents/diff?${params}`);
+            const result = await response.json();
+            if (!response.ok) throw new Error(result.error || `HTTP ${response.status}`);
+            setDiff(result.data);
+            setError(null);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to compare versions');
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const restore = async (version: number) => {
+        if (!confirm(`Restore version ${version}? It becomes the newest version; nothing is deleted.`)) return;
+
+        setBusy(true);
+        try {
+            const response = await fetch('/api/documents/restore', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ session_id: sessionId, document_type: documentType, version })
+            });
+            const result = await response.json();
+            if (!response.ok) throw new Error(result.error || `HTTP ${response.status}`);
+            onRestored(result.data.document);
+            setDiff(null);
+            await loadVersions();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to restore version');
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    if (versions.length === 0 && !error) return null;
+
+    const latest = versions[0];
+
+    return (
+        <div className="border-b bg-white">
+            <button
+                onClick={() => setIsExpanded(!isExpanded)}
+                className="w-full flex items-center justify-between px-4 py-3 text-sm font-medium text-gray-700 hover:bg-gray-50"
+            >
+                <span>🕘 Version history ({versions.length})</span>
+                <span className="text-gray-400">{isExpanded ? '▲' : '▼'}</span>
+            </button>
+
+            {isExpanded && (
+                <div className="px-4 pb-4 space-y-4">
+                    {error && <p className="text-sm text-red-600">{error}</p>}
+
+                    <ul className="divide-y border rounded-lg">
+                        {versions.map((entry, index) => (
+                            <li key={entry.version} className="flex items-center justify-between px-3 py-2 text-sm">
+                                <div>
+                                    <span className="font-semibold">v{entry.version}</span>
+                                    {index === 0 && (
+                                        <span className="ml-2 text-xs bg-blue-100 text-blue-700 px-2 py-0.5 rounded-full">Current</span>
+                                    )}
+                                    <span className="ml-3 text-gray-500">{new Date(entry.createdAt).toLocaleString()}</span>
+                                    <span className="ml-3 text-gray-500">{describeOrigin(entry)}</span>
+                                </div>
+                                <div className="flex gap-2">
+                                    {index === 0 && versions[1] && (
+                                        <button
+                                            onClick={() => compare(versions[1].version, entry.version)}
+                                            disabled={busy}
+                                            className="px-2 py-1 bg-gray-100 text-gray-700 rounded hover:bg-gray-200 disabled:opacity-50"
+                                        >
+                                            Compare with previous
+                                        </button>
+                                    )}
+                                    {index > 0 && (
+                                        <>
+                                            <button
+                                                onClick={() => compare(entry.version, latest.version)}
+                                                disabled={busy}
+                                                className="px-2 py-1 bg-gray-100 text-gray-700 rounded hover:bg-gray-200 disabled:opacity-50"
+                                            >
+                                                Compare with current
+                                            </button>
+                                            <button
+                                                onClick={() => restore(entry.version)}
+                                                disabled={busy}
+                                                className="px-2 py-1 bg-amber-100 text-amber-800 rounded hover:bg-amber-200 disabled:opacity-50"
+                                            >
+                                                Restore
+                                            </button>
+                                        </>
+                                    )}
+                                </div>
+                            </li>
+                        ))}
+                    </ul>
+
+                    {diff && (
+                        <div className="border rounded-lg p-4 space-y-4">
+                            <div className="flex items-center justify-between">
+                                <h4 className="font-semibold text-gray-900">
+                                    Changes from v{diff.from.version} to v{diff.to.version}
+                                </h4>
+                                <div className="flex items-center gap-2 text-xs">
+                                    {(['added', 'removed', 'modified', 'unchanged'] as const).map(status => (
+                                        <span key={status} className={`px-2 py-0.5 rounded-full ${STATUS_STYLES[status]}`}>
+                                            {diff.summary[status]} {status}
+                                        </span>
+                                    ))}
+                                    <label className="ml-2 flex items-center gap-1 text-gray-600">
+                                        <input
+                                            type="checkbox"
+                                            checked={showUnchanged}
+                                            onChange={e => setShowUnchanged(e.target.checked)}
+                                        />
+                                        Show unchanged
+                                    </label>
+                                </div>
+                            </div>
+
+                            {diff.answerChanges.length > 0 && (
+                                <div className="text-sm">
+                                    <p className="font-medium text-gray-700 mb-1">Answers changed between these runs</p>
+                                    <ul className="space-y-1">
+                                        {diff.answerChanges.map(change => (
+                                            <li key={change.question} className="text-gray-600">
+                                                <span className="font-mono text-xs">{change.question}</span>:{' '}
+                                                <span className="text-red-700 line-through">{formatAnswer(change.before)}</span>
+                                                {' → '}
+                                                <span className="text-green-700">{formatAnswer(change.after)}</span>
+                                            </li>
+                                        ))}
+                                    </ul>
+                                </div>
+                            )}
+
+                            {diff.sections
+                                .filter(section => showUnchanged || section.status !== 'unchanged')
+                                .map(section => (
+                                    <div key={`${section.status}-${section.id}`} className="border rounded">
+                                        <div className="flex items-center justify-between px-3 py-2 bg-gray-50 text-sm">
+                                            <span className="font-medium" style={{ paddingLeft: Math.max(0, section.level - 1) * 12 }}>
+                                                {section.heading || 'Introduction'}
+                                            </span>
+                                            <span className={`text-xs px-2 py-0.5 rounded-full ${STATUS_STYLES[section.status]}`}>
+                                                {section.status}
+                                            </span>
+                                        </div>
+                                        {section.lines && section.lines.length > 0 && (
+                                            <pre className="px-3 py-2 text-xs whitespace-pre-wrap overflow-auto" style={{ maxHeight: '20rem' }}>
+                                                {section.lines.map((line, index) => (
+                                                    <div key={index} className={LINE_STYLES[line.type]}>
+                                                        {line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  '}
+                                                        {line.text}
+                                                    </div>
+                                                ))}
+                                            </pre>
+                                        )}
+                                    </div>
+                                ))}
+                        </div>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -60,6 +60,7 @@ export default function ReviewChat({ sessionId, answers, onAnswersUpdated, onNot
                         mode: 'review_refinement',
                         currentAnswers: answers,
                         sessionId,
+                        session_id: sessionId || undefined,
                         instruction: `The user is reviewing their business plan answers and wants to add/modify information. 
                         Analyze their message and:
                         1. Provide helpful insights or suggestions
@@ -90,6 +91,15 @@ export default function ReviewChat({ sessionId, answers, onAnswersUpdated, onNot
                     if (extractedData && Object.keys(extractedData).length > 0) {
                         const updatedAnswers = { ...answers, ...extractedData };
                         onAnswersUpdated(updatedAnswers);
+
+                        // Count the change against the agents behind these answers (agent experiments)
+                        if (sessionId) {
+                            fetch(`/api/session/${sessionId}/edits`, {
+                                method: 'POST',
+                                headers: { 'Content-Type': 'application/json' },
+                                body: JSON.stringify({ fields: Object.keys(extractedData) })
+                            }).catch(error => console.error('Failed to record edits:', error));
+                        }
                     }
                 } catch (e) {
                     console.error('Failed to parse extracted data:', e);
@@ -0,0 +1,11 @@
+/**
+ * Next.js instrumentation hook
+ * Runs once per server start: reports invalid agent definitions and dangling agent/skill references.
+ */
+
+export async function register() {
+    if (process.env.NEXT_RUNTIME !== 'nodejs') return;
+
+    const { reportAgentReferences } = await import('./backend/agents/reference-check');
+    reportAgentReferences();
+}
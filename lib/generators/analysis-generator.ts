@@ -9,7 +9,8 @@ import { logger } from '@/backend/utils/logger';
 
 export async function generateAnalysis(
     answers: Record<string, any>,
-    agentOutputs: any
+    agentOutputs: any,
+    sessionId?: string
 ): Promise<string> {
     logger.info('Generating Strategic Analysis document...');
 
@@ -248,7 +249,8 @@ CRITICAL:
             [{ role: 'user', content: userMessage }],
             undefined,
             0.6, // more analytical, less creative
-            4096 // Haiku's max output tokens
+            4096, // Haiku's max output tokens
+            { sessionId, source: 'before_after_analysis' }
         );
 
         const content = claude.extractText(response);
@@ -9,7 +9,8 @@ import { logger } from '@/backend/utils/logger';
 
 export async function generateBusinessPlan(
     answers: Record<string, any>,
-    agentOutputs: any
+    agentOutputs: any,
+    sessionId?: string
 ): Promise<string> {
     logger.info('Generating Business Plan document...');
 
@@ -145,7 +146,8 @@ CRITICAL:
             [{ role: 'user', content: userMessage }],
             undefined, // no tools needed
             0.7, // creative but focused
-            4096 // Haiku's max output tokens
+            4096, // Haiku's max output tokens
+            { sessionId, source: 'business_plan' }
         );
 
         const content = claude.extractText(response);
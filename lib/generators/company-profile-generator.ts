@@ -9,7 +9,8 @@ import { logger } from '@/backend/utils/logger';
 
 export async function generateCompanyProfile(
     answers: Record<string, any>,
-    agentOutputs: any
+    agentOutputs: any,
+    sessionId?: string
 ): Promise<string> {
     logger.info('Generating Company Profile document...');
 
@@ -132,7 +133,8 @@ CRITICAL:
             [{ role: 'user', content: userMessage }],
             undefined,
             0.7,
-            4000
+            4000,
+            { sessionId, source: 'company_profile' }
         );
 
         const content = claude.extractText(response);
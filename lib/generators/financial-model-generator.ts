@@ -9,7 +9,8 @@ import { logger } from '@/backend/utils/logger';
 
 export async function generateFinancialModel(
     answers: Record<string, any>,
-    agentOutputs: any
+    agentOutputs: any,
+    sessionId?: string
 ): Promise<string> {
     logger.info('Generating Financial Model document...');
 
@@ -194,7 +195,8 @@ CRITICAL:
             [{ role: 'user', content: userMessage }],
             undefined,
             0.5, // more conservative for financial data
-            4096 // Haiku's max output tokens
+            4096, // Haiku's max output tokens
+            { sessionId, source: 'financial_model' }
         );
 
         const content = claude.extractText(response);
@@ -6,10 +6,12 @@
 
 import { ClaudeService } from '@/lib/services/claude-service';
 import { logger } from '@/backend/utils/logger';
+import { matchInvestors, formatInvestorAppendix } from '@/backend/skills/implementations/investor_matching';
 
 export async function generatePitchDeck(
     answers: Record<string, any>,
-    agentOutputs: any
+    agentOutputs: any,
+    sessionId?: string
 ): Promise<string> {
     logger.info('Generating Pitch Deck document...');
 
@@ -189,10 +191,17 @@ CRITICAL:
             [{ role: 'user', content: userMessage }],
             undefined,
             0.7,
-            4096 // Haiku's max output tokens
+            4096, // Haiku's max output tokens
+            { sessionId, source: 'pitch_deck' }
         );
 
-        const content = claude.extractText(response);
+        const generated = claude.extractText(response);
+
+        // Deterministic investor shortlist from the curated dataset, appended as a backup slide
+        const investorAppendix = answers.external_funding !== 'bootstrap'
+            ? formatInvestorAppendix(matchInvestors({ answers }))
+            : '';
+        const content = investorAppendix ? `${generated.trim()}\n\n${investorAppendix}\n` : generated;
 
         logger.info('Pitch Deck generated', {
             length: content.length,
@@ -0,0 +1,99 @@
+/**
+ * Section Generator
+ * Rewrites a single section of an existing document from the outputs of the agents that feed it,
+ * keeping the section's heading so it can be spliced back in place
+ */
+
+import { ClaudeService } from '@/lib/services/claude-service';
+import { logger } from '@/backend/utils/logger';
+import { DocumentSection } from '@/lib/workflows/document-sections';
+
+export async function generateSection(
+    answers: Record<string, any>,
+    agentOutputs: any,
+    request: {
+        documentName: string;
+        section: DocumentSection;
+        outline: string[]; // Titles of every section in the document, in order
+        instructions?: string;
+        sessionId?: string; // Usage is recorded against this session's budget
+    }
+): Promise<string> {
+    const { documentName, section, outline, instructions, sessionId } = request;
+    logger.info('Generating document section...', { documentName, section: section.id });
+
+    const claude = new ClaudeService();
+    const businessName = extractBusinessName(answers);
+    const headingLine = section.content.split('\n')[0];
+
+    const agentIntelligence = Object.entries(agentOutputs)
+        .map(([agentId, result]: [string, any]) => `### ${agentId}\n${result.output}`)
+        .join('\n\n');
+
+    const systemPrompt = `You are an elite Business Consultant revising one section of a client's ${documentName}.
+
+CRITICAL REQUIREMENTS:
+1. Rewrite ONLY the requested section; the rest of the document stays as it is
+2. Keep the heading line exactly as given and keep sub-headings below its level
+3. Use specific numbers and insights from the agent outputs (don't make up data)
+4. Match the depth, tone and formatting of a professional, investor-ready document
+5. Output Markdown only - no preamble, no commentary`;
+
+    const userMessage = `# Section Rewrite Task
+
+## Business: ${businessName}
+## Document: ${documentName}
+
+## Document Outline (for context and consistency):
+${outline.map(title => `- ${title}${title === section.title ? '  ← this section' : ''}`).join('\n')}
+
+## Agent Intelligence for This Section:
+${agentIntelligence || 'No agent analysis feeds this section; rely on the questionnaire answers.'}
+
+## Questionnaire Answers:
+\`\`\`json
+${JSON.stringify(answers, null, 2)}
+\`\`\`
+
+## Current Version of the Section:
+${section.content}
+
+---
+
+## YOUR TASK:
+Rewrite the section above. Start with this exact heading line:
+${headingLine}
+${instructions ? `\n## Reviewer Instructions (follow these):\n${instructions}\n` : ''}`;
+
+    try {
+        const response = await claude.sendMessage(
+            systemPrompt,
+            [{ role: 'user', content: userMessage }],
+            undefined,
+            0.7,
+            4096,
+            { sessionId, source: 'section_generator' }
+        );
+
+        let content = claude.extractText(response).trim();
+        if (content.split('\n')[0].trim() !== headingLine.trim()) {
+            // Drop a differently worded heading and restore the original one
+            content = `${headingLine}\n\n${content.replace(/^#{1,6}\s+.*\n+/, '')}`;
+        }
+
+        logger.info('Document section generated', {
+            section: section.id,
+            length: content.length
+        });
+
+        return content;
+
+    } catch (error) {
+        logger.error('Document section generation failed', error);
+        throw error;
+    }
+}
+
+function extractBusinessName(answers: Record<string, any>): string {
+    return answers.business_name || answers.existing_name || 'New Venture';
+}
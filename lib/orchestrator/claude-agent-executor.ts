@@ -2,18 +2,33 @@
  * Claude Agent Executor
  * Executes agents using Claude API with full support for skills/tools
  * Built for document generation workflows
+ *
+ * Runs through the shared LLMProvider interface (Anthropic by default), so a
+ * FixtureProvider can be injected to exercise workflows offline.
  */
 
-import { ClaudeService, ClaudeMessage } from '@/lib/services/claude-service';
+import { AnthropicProvider } from '@/backend/providers';
 import { getAgentManager } from '@/backend/agents/manager';
 import { getSkillRegistry } from '@/backend/skills/registry';
 import { logger } from '@/backend/utils/logger';
-import { Agent } from '@/backend/utils/types';
+import { Agent, BudgetExceededError, GroqMessage, LLMProvider, ToolDefinition } from '@/backend/utils/types';
+import { AgentOutputCache, AgentCacheKey, getAgentOutputCache } from '@/backend/services/agent-output-cache';
+import { UsageBudgetService, getUsageBudget, estimateCost } from '@/backend/services/usage-budget';
+import { getAgentExperiments } from '@/backend/services/agent-experiments';
+import { getAnswerFieldsForAgent } from '@/lib/orchestrator/question-config';
+import {
+    getOutputSchema,
+    parseStructuredOutput,
+    buildSchemaInstructions,
+    buildRepairPrompt,
+    DEFAULT_SCHEMA_REPAIR_ATTEMPTS
+} from '@/backend/agents/output-schemas';
 
 export interface AgentExecutionContext {
     sessionId?: string;
     allAnswers?: Record<string, any>;
     previousOutputs?: Record<string, any>;
+    regeneration?: boolean; // User asked to regenerate earlier output (counted in experiment reports)
     [key: string]: any;
 }
 
@@ -21,23 +36,32 @@ export interface AgentExecutionResult {
     agentId: string;
     agentName: string;
     output: string;
+    structured?: Record<string, any>; // Validated data when the agent declares an output_schema
     toolCallsMade: Array<{ skill: string; params: any; result: any }>;
     tokensUsed: { input: number; output: number };
+    costUsd?: number;
     executionTimeMs: number;
+    cached?: boolean;
+    agentVersion?: string; // Prompt version/variant that produced the output
 }
 
 export class ClaudeAgentExecutor {
-    private claude: ClaudeService;
+    private provider: LLMProvider;
+    private cache: AgentOutputCache | null;
+    private budget: UsageBudgetService;
     private agentManager;
     private skillRegistry;
 
-    constructor() {
-        this.claude = new ClaudeService();
+    constructor(provider?: LLMProvider, cache?: AgentOutputCache | null, budget?: UsageBudgetService) {
+        this.provider = provider || new AnthropicProvider();
+        this.cache = cache === undefined ? getAgentOutputCache() : cache;
+        this.budget = budget || getUsageBudget();
         this.agentManager = getAgentManager();
         this.skillRegistry = getSkillRegistry();
 
         logger.info('Claude Agent Executor initialized', {
-            model: this.claude.getModel(),
+            provider: this.provider.id,
+            model: this.provider.defaultModel,
             agentCount: this.agentManager.getAgentCount(),
             skillCount: this.skillRegistry.getSkillCount()
         });
@@ -51,40 +75,65 @@ export class ClaudeAgentExecutor {
         context: AgentExecutionContext
     ): Promise<AgentExecutionResult> {
         const startTime = Date.now();
+        let agent: Agent | undefined;
+        let userMessage = '';
 
         try {
             logger.info(`Executing agent: ${agentId}`, { context: !!context });
 
-            // Load agent definition
-            const agent = this.agentManager.getAgent(agentId);
+            // Load agent definition (sessions are routed to a prompt variant when one exists)
+            agent = this.agentManager.getAgent(agentId, context.sessionId);
             if (!agent) {
                 throw new Error(`Agent not found: ${agentId}`);
             }
 
+            // Regenerations always call the model; the fresh output replaces the cached one
+            const cacheKey = this.buildCacheKey(agent, context);
+            if (cacheKey && !context.regeneration) {
+                const cached = await this.cache!.get<Pick<AgentExecutionResult, 'output' | 'structured' | 'toolCallsMade'>>(cacheKey);
+                if (cached) {
+                    logger.info(`Agent served from cache: ${agentId}`);
+                    return {
+                        agentId: agent.id,
+                        agentName: agent.name,
+                        output: cached.output,
+                        structured: cached.structured,
+                        toolCallsMade: cached.toolCallsMade,
+                        tokensUsed: { input: 0, output: 0 },
+                        executionTimeMs: Date.now() - startTime,
+                        cached: true,
+                        agentVersion: agent.version
+                    };
+                }
+            }
+
             // Get tools for agent's skills
-            const groqTools = this.skillRegistry.getToolDefinitions(agent.skills);
-            const claudeTools = this.claude.convertGroqToolsToClaude(groqTools);
+            const tools = this.skillRegistry.getToolDefinitions(agent.skills);
 
             logger.info(`Agent loaded: ${agent.name}`, {
                 skills: agent.skills.length,
-                tools: claudeTools.length
+                tools: tools.length
             });
 
             // Build initial message
-            const userMessage = this.buildUserMessage(agent, context);
+            userMessage = this.buildUserMessage(agent, context);
 
-            const messages: ClaudeMessage[] = [
+            const messages: GroqMessage[] = [
+                {
+                    role: 'system',
+                    content: this.getSystemPrompt(agent)
+                },
                 {
                     role: 'user',
                     content: userMessage
                 }
             ];
 
-            // Call Claude (may involve multiple rounds for tool calls)
+            // Call the provider (may involve multiple rounds for tool calls)
             const result = await this.executeWithToolCalls(
                 agent,
                 messages,
-                claudeTools,
+                tools,
                 context
             );
 
@@ -95,18 +144,50 @@ export class ClaudeAgentExecutor {
                 toolCalls: result.toolCallsMade.length
             });
 
+            if (cacheKey && result.output) {
+                await this.cache!.set(cacheKey, {
+                    output: result.output,
+                    structured: result.structured,
+                    toolCallsMade: result.toolCallsMade
+                });
+            }
+
+            await this.recordRun(agent, context, userMessage, {
+                output: result.output,
+                skills: result.toolCallsMade.map(call => call.skill),
+                executionTimeMs: executionTime,
+                tokensUsed: result.tokensUsed,
+                costUsd: result.costUsd
+            });
+
             return {
                 agentId: agent.id,
                 agentName: agent.name,
                 output: result.output,
+                structured: result.structured,
                 toolCallsMade: result.toolCallsMade,
                 tokensUsed: result.tokensUsed,
-                executionTimeMs: executionTime
+                costUsd: result.costUsd,
+                executionTimeMs: executionTime,
+                agentVersion: agent.version
             };
         } catch (error) {
             const executionTime = Date.now() - startTime;
             logger.error(`Agent execution failed: ${agentId}`, error);
 
+            if (agent) {
+                await this.recordRun(agent, context, userMessage, {
+                    output: '',
+                    skills: [],
+                    executionTimeMs: executionTime,
+                    error: error instanceof Error ? error.message : String(error)
+                }).catch(() => undefined);
+            }
+
+            if (error instanceof BudgetExceededError) {
+                throw error;
+            }
+
             throw new Error(
                 `Agent execution failed (${agentId}): ${error instanceof Error ? error.message : String(error)}`
             );
@@ -118,119 +199,241 @@ export class ClaudeAgentExecutor {
      */
     private async executeWithToolCalls(
         agent: Agent,
-        messages: ClaudeMessage[],
-        tools: any[],
+        messages: GroqMessage[],
+        tools: ToolDefinition[],
         context: AgentExecutionContext
     ): Promise<{
         output: string;
+        structured?: Record<string, any>;
         toolCallsMade: Array<{ skill: string; params: any; result: any }>;
         tokensUsed: { input: number; output: number };
+        costUsd: number;
     }> {
         const toolCallsMade: Array<{ skill: string; params: any; result: any }> = [];
         let totalInputTokens = 0;
         let totalOutputTokens = 0;
+        let totalCostUsd = 0;
         let iterations = 0;
-        const maxIterations = 5; // Prevent infinite loops
+        const schema = getOutputSchema(agent.output_schema);
+        let repairAttempts = 0;
+        const maxIterations = 5 + (schema ? DEFAULT_SCHEMA_REPAIR_ATTEMPTS : 0); // Prevent infinite loops
+        const agentTokenLimit = this.budget.getAgentTokenLimit();
 
         while (iterations < maxIterations) {
             iterations++;
 
-            // Call Claude
-            const response = await this.claude.sendMessage(
-                agent.system_prompt,
+            // Refuse further calls once the session budget is spent
+            this.budget.enforce(context.sessionId, context.userId);
+
+            // Call the model
+            const response = await this.provider.chat({
                 messages,
-                tools.length > 0 ? tools : undefined,
-                agent.temperature,
-                4096
-            );
+                tools: tools.length > 0 ? tools : undefined,
+                temperature: agent.temperature,
+                max_tokens: 4096,
+                json_mode: !!schema && tools.length === 0
+            });
 
             totalInputTokens += response.usage.input_tokens;
             totalOutputTokens += response.usage.output_tokens;
+            totalCostUsd += estimateCost(this.provider.id, response.model, response.usage);
+
+            this.budget.record({
+                sessionId: context.sessionId,
+                userId: context.userId,
+                provider: this.provider.id,
+                model: response.model,
+                source: agent.id,
+                usage: response.usage
+            });
 
-            // Check if Claude wants to use tools
-            if (this.claude.hasToolCalls(response)) {
-                logger.info('Processing tool calls from Claude', {
-                    iteration: iterations
+            // Check if the model wants to use tools
+            if (response.tool_calls.length > 0) {
+                logger.info('Processing tool calls', {
+                    iteration: iterations,
+                    provider: this.provider.id
                 });
 
-                const toolCalls = this.claude.extractToolCalls(response);
-
                 // Add assistant message with tool uses
                 messages.push({
                     role: 'assistant',
-                    content: response.content.map(block => ({
-                        type: block.type as any,
-                        text: block.text,
-                        id: block.id,
-                        name: block.name,
-                        input: block.input
-                    }))
+                    content: response.content,
+                    tool_calls: response.tool_calls
                 });
 
                 // Execute each tool call
-                const toolResults: any[] = [];
+                for (const toolCall of response.tool_calls) {
+                    const skillId = toolCall.function.name;
+                    let params: any = {};
 
-                for (const toolCall of toolCalls) {
                     try {
-                        logger.info(`Executing skill: ${toolCall.name}`, {
-                            params: toolCall.input
-                        });
+                        params = JSON.parse(toolCall.function.arguments || '{}');
 
-                        const result = await this.skillRegistry.execute(
-                            toolCall.name,
-                            toolCall.input
-                        );
+                        logger.info(`Executing skill: ${skillId}`, { params });
+
+                        const result = await this.skillRegistry.execute(skillId, params, {
+                            sessionId: context.sessionId,
+                            userId: context.userId
+                        });
 
                         toolCallsMade.push({
-                            skill: toolCall.name,
-                            params: toolCall.input,
+                            skill: skillId,
+                            params,
                             result: result
                         });
 
-                        toolResults.push({
-                            type: 'tool_result',
-                            tool_use_id: toolCall.id,
+                        messages.push({
+                            role: 'tool',
+                            tool_call_id: toolCall.id,
+                            name: skillId,
                             content: JSON.stringify(result)
                         });
 
-                        logger.info(`Skill executed: ${toolCall.name}`);
+                        logger.info(`Skill executed: ${skillId}`);
                     } catch (error) {
-                        logger.error(`Skill execution failed: ${toolCall.name}`, error);
+                        logger.error(`Skill execution failed: ${skillId}`, error);
 
-                        toolResults.push({
-                            type: 'tool_result',
-                            tool_use_id: toolCall.id,
+                        messages.push({
+                            role: 'tool',
+                            tool_call_id: toolCall.id,
+                            name: skillId,
                             content: `Error: ${error instanceof Error ? error.message : String(error)}`
                         });
                     }
                 }
 
-                // Add tool results as user message
-                messages.push({
-                    role: 'user',
-                    content: toolResults
-                });
+                // Stop runaway tool loops before another round-trip
+                if (agentTokenLimit && totalInputTokens + totalOutputTokens >= agentTokenLimit) {
+                    throw new BudgetExceededError(
+                        `Agent ${agent.id} exceeded its token budget (${totalInputTokens + totalOutputTokens}/${agentTokenLimit})`,
+                        'agent',
+                        { agentId: agent.id, sessionId: context.sessionId }
+                    );
+                }
 
                 // Continue loop to get final response
                 continue;
             }
 
-            // No more tool calls - extract final text
-            const output = this.claude.extractText(response);
+            // No more tool calls - final text
+            let output = response.content;
+            let structured: Record<string, any> | undefined;
+
+            if (schema) {
+                const parsed = parseStructuredOutput(output, schema);
+
+                if (parsed.success) {
+                    structured = parsed.data;
+                    output = JSON.stringify(parsed.data, null, 2);
+                } else if (repairAttempts < DEFAULT_SCHEMA_REPAIR_ATTEMPTS) {
+                    // Repair-retry: send the validation errors back to the model
+                    repairAttempts++;
+                    logger.warn(`Agent output failed schema validation: ${agent.id}`, {
+                        attempt: repairAttempts,
+                        errors: parsed.errors
+                    });
+                    messages.push({ role: 'assistant', content: output });
+                    messages.push({ role: 'user', content: buildRepairPrompt(parsed.errors) });
+                    continue;
+                } else {
+                    logger.warn(`Agent ${agent.id} output does not match ${agent.output_schema}`, {
+                        errors: parsed.errors
+                    });
+                }
+            }
 
             return {
                 output,
+                structured,
                 toolCallsMade,
                 tokensUsed: {
                     input: totalInputTokens,
                     output: totalOutputTokens
-                }
+                },
+                costUsd: totalCostUsd
             };
         }
 
         throw new Error(`Max iterations (${maxIterations}) reached for agent execution`);
     }
 
+    /**
+     * Log the run (with the agent version) to agent_activity_log for experiment reports
+     */
+    private async recordRun(
+        agent: Agent,
+        context: AgentExecutionContext,
+        input: string,
+        run: {
+            output: string;
+            skills: string[];
+            executionTimeMs: number;
+            tokensUsed?: { input: number; output: number };
+            costUsd?: number;
+            error?: string;
+        }
+    ): Promise<void> {
+        await getAgentExperiments().recordRun(context.sessionId, {
+            task_id: agent.id,
+            agent_id: agent.id,
+            agent_name: agent.name,
+            output: run.output,
+            skills_used: run.skills,
+            tool_calls: [],
+            execution_time_ms: run.executionTimeMs,
+            success: !run.error,
+            error: run.error,
+            agent_version: agent.version,
+            usage: run.tokensUsed && {
+                input_tokens: run.tokensUsed.input,
+                output_tokens: run.tokensUsed.output,
+                cost_usd: run.costUsd || 0
+            }
+        }, input, { regeneration: context.regeneration === true });
+    }
+
+    /**
+     * System prompt plus output format instructions for agents with an output_schema
+     */
+    private getSystemPrompt(agent: Agent): string {
+        const schema = getOutputSchema(agent.output_schema);
+        return schema ? agent.system_prompt + buildSchemaInstructions(schema) : agent.system_prompt;
+    }
+
+    /**
+     * Build the cache key for an agent run. Only answers routed to this agent in the
+     * question config (plus free-form `_`-prefixed context) are keyed, so editing an
+     * unrelated answer keeps the cached output valid. Upstream outputs are keyed in full;
+     * the regeneration flag is not, so a regenerated output is what later runs get served.
+     */
+    private buildCacheKey(agent: Agent, context: AgentExecutionContext): AgentCacheKey | null {
+        if (!this.cache) return null;
+
+        const { sessionId, allAnswers, regeneration, ...rest } = context;
+        const answers = allAnswers || {};
+
+        return this.cache.buildKey({
+            agentId: agent.id,
+            systemPrompt: this.getSystemPrompt(agent),
+            model: `${this.provider.id}:${this.provider.defaultModel}`,
+            input: rest,
+            answers,
+            relevantFields: this.getRelevantFields(agent, answers),
+            scope: sessionId
+        });
+    }
+
+    /**
+     * Answer fields an agent is given: those routed to it plus `_`-prefixed context,
+     * or undefined (every answer) when the question config routes nothing to it
+     */
+    private getRelevantFields(agent: Agent, answers: Record<string, any>): string[] | undefined {
+        const agentFields = getAnswerFieldsForAgent(agent.id);
+        if (agentFields.length === 0) return undefined;
+
+        return [...agentFields, ...Object.keys(answers).filter(field => field.startsWith('_'))];
+    }
+
     /**
      * Build user message with context
      */
@@ -240,11 +443,19 @@ export class ClaudeAgentExecutor {
         sections.push(`# Task for ${agent.name}`);
         sections.push(`You are ${agent.name}. Use your expertise to complete this task.`);
 
-        // Add questionnaire answers if available
-        if (context.allAnswers && Object.keys(context.allAnswers).length > 0) {
+        // Add questionnaire answers if available (only the fields the cache key covers)
+        const allAnswers = context.allAnswers || {};
+        const relevantFields = this.getRelevantFields(agent, allAnswers);
+        const answers: Record<string, any> = {};
+        for (const field of relevantFields || Object.keys(allAnswers)) {
+            if (Object.prototype.hasOwnProperty.call(allAnswers, field)) {
+                answers[field] = allAnswers[field];
+            }
+        }
+        if (Object.keys(answers).length > 0) {
             sections.push('\n## Questionnaire Data');
             sections.push('```json');
-            sections.push(JSON.stringify(context.allAnswers, null, 2));
+            sections.push(JSON.stringify(answers, null, 2));
             sections.push('```');
         }
 
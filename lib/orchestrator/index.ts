@@ -7,10 +7,12 @@
 export * from './question-config';
 export * from './agent-prompts';
 export * from './skip-logic';
+export * from './questionnaire-definition';
+export * from './questionnaire-check';
+export * from './questionnaire-simulator';
 
 // Import for orchestrator integration
 import {
-    getQuestionConfig,
     getAgentsForQuestion,
     getSkillsForQuestion,
     getContextFields,
@@ -88,9 +90,8 @@ export function getOrchestrationForQuestion(
     const skills = getSkillsForQuestion(questionId, phaseId);
     const contextFields = getContextFields(questionId);
 
-    // Get question config to check if branching point
-    const questionConfig = getQuestionConfig(questionId);
-    const isBranchingPoint = questionConfig?.isBranchingPoint || false;
+    // Check if branching point
+    const isBranchingPoint = getBranchingPoints().includes(questionId);
 
     // Generate prompts for each agent
     const agentPrompts: Partial<Record<AgentId, { systemPrompt: string; userPrompt: string }>> = {};
@@ -152,10 +153,9 @@ export function processAnswer(
     const remainingQuestions = countRemainingQuestions(allQuestions, nextQuestionIndex, updatedAnswers);
 
     // Check if this was a branching point
-    const config = getQuestionConfig(questionId);
     let branchActivated: string[] | undefined;
 
-    if (config?.isBranchingPoint) {
+    if (getBranchingPoints().includes(questionId)) {
         branchActivated = getBranchQuestions(questionId, answer);
     }
 
@@ -1,8 +1,11 @@
 /**
  * Question-to-Agent Orchestration Configuration
- * Maps each question to appropriate agents, skills, and skip logic
+ * Maps each question to appropriate agents and skills. Skip rules and branching points are
+ * declared once in ./skip-logic.ts; the helpers below delegate to it.
  */
 
+import { BRANCHING_POINTS, shouldSkip } from './skip-logic';
+
 // ============================================================================
 // Types
 // ============================================================================
@@ -35,8 +38,6 @@ export interface QuestionConfig {
     executionType?: 'parallel' | 'sequential';
     priority?: 'critical' | 'high' | 'medium' | 'low';
     contextExtraction?: string[];
-    isBranchingPoint?: boolean;
-    skipIf?: (answers: Record<string, any>) => boolean;
     prefillFrom?: string[];
     agentPromptContext?: string;
 }
@@ -78,7 +79,6 @@ export const PHASE_1_CONFIG: PhaseConfig = {
             agents: ['context_collector'],
             priority: 'low',
             contextExtraction: ['user_phone', 'country_code'],
-            skipIf: () => false, // Optional but never skipped
             agentPromptContext: 'Optional field. Store if provided for communication.'
         },
         'user_location': {
@@ -114,7 +114,6 @@ export const PHASE_2_CONFIG: PhaseConfig = {
             agents: ['context_collector', 'customer_profiler'],
             priority: 'medium',
             contextExtraction: ['domain_expertise', 'technical_skills', 'business_model_preference'],
-            skipIf: (answers) => answers.education_level === 'self_taught',
             agentPromptContext: 'Identify domain expertise. Tech fields = SaaS/product businesses more viable.'
         },
         'years_experience': {
@@ -128,7 +127,6 @@ export const PHASE_2_CONFIG: PhaseConfig = {
             skills: ['competitor_analysis'],
             priority: 'medium',
             contextExtraction: ['cross_industry_experience', 'domain_versatility', 'potential_markets'],
-            skipIf: (answers) => answers.years_experience === '0',
             agentPromptContext: 'Identify industry patterns and cross-domain opportunities.'
         },
         'employment_status': {
@@ -207,7 +205,6 @@ export const PHASE_3_CONFIG: PhaseConfig = {
         'business_path': {
             agents: ['business_planner_lead', 'context_collector', 'market_analyst'],
             priority: 'critical',
-            isBranchingPoint: true,
             contextExtraction: ['business_path', 'starting_from_scratch', 'needs_ideation_support'],
             agentPromptContext: 'CRITICAL BRANCHING. Determines next 15+ questions. new vs existing changes entire flow.'
         },
@@ -215,7 +212,6 @@ export const PHASE_3_CONFIG: PhaseConfig = {
             agents: ['business_planner_lead', 'customer_profiler', 'market_analyst'],
             priority: 'high',
             contextExtraction: ['needs_ideation_help', 'idea_clarity', 'ready_for_validation'],
-            skipIf: (answers) => answers.business_path === 'existing',
             agentPromptContext: 'Determines ideation support level. Need suggestions = AI generates ideas.'
         },
         'business_idea_detail': {
@@ -223,7 +219,6 @@ export const PHASE_3_CONFIG: PhaseConfig = {
             skills: ['competitor_analysis', 'market_sizing_calculator'],
             priority: 'critical',
             contextExtraction: ['product_type', 'core_technology', 'problem_solved', 'customer_type_detected', 'target_customer_segment'],
-            skipIf: (answers) => answers.business_path === 'existing',
             agentPromptContext: 'EXTRACT MAXIMUM CONTEXT via NLP. This is GOLD - extract problem, solution, customers, technology.'
         },
         'problem_to_solve': {
@@ -231,7 +226,6 @@ export const PHASE_3_CONFIG: PhaseConfig = {
             skills: ['competitor_analysis'],
             priority: 'high',
             contextExtraction: ['problem_magnitude', 'problem_type', 'willingness_to_pay'],
-            skipIf: (answers) => answers.idea_status === 'need_suggestions',
             agentPromptContext: 'Problem statement validation. Look for quantified pain points.'
         },
         'target_industries': {
@@ -239,7 +233,6 @@ export const PHASE_3_CONFIG: PhaseConfig = {
             skills: ['market_sizing_calculator', 'competitor_analysis'],
             priority: 'high',
             contextExtraction: ['target_industries', 'market_sizing_inputs'],
-            skipIf: (answers) => answers.business_path === 'existing',
             agentPromptContext: 'Calculate TAM/SAM/SOM per selected industry. Trigger market sizing skill.'
         },
         'business_model_type': {
@@ -273,7 +266,6 @@ export const PHASE_3_CONFIG: PhaseConfig = {
             skills: ['branded_document_generator'],
             priority: 'high',
             contextExtraction: ['business_name'],
-            skipIf: (answers) => answers.business_path !== 'existing',
             agentPromptContext: 'Store business name for all branded outputs.'
         },
         'existing_website': {
@@ -281,7 +273,6 @@ export const PHASE_3_CONFIG: PhaseConfig = {
             skills: ['competitor_analysis'],
             priority: 'medium',
             contextExtraction: ['website_url', 'current_positioning'],
-            skipIf: (answers) => answers.business_path !== 'existing',
             agentPromptContext: 'Scrape website to analyze current positioning if URL provided.'
         },
         'existing_industry': {
@@ -289,14 +280,12 @@ export const PHASE_3_CONFIG: PhaseConfig = {
             skills: ['market_sizing_calculator'],
             priority: 'high',
             contextExtraction: ['industry', 'market_data'],
-            skipIf: (answers) => answers.business_path !== 'existing',
             agentPromptContext: 'Trigger market sizing for existing industry.'
         },
         'business_start_date': {
             agents: ['context_collector', 'financial_modeler'],
             priority: 'medium',
             contextExtraction: ['business_age', 'years_operating'],
-            skipIf: (answers) => answers.business_path !== 'existing',
             agentPromptContext: 'Calculate business age for historical revenue analysis.'
         },
         'current_revenue': {
@@ -304,7 +293,6 @@ export const PHASE_3_CONFIG: PhaseConfig = {
             skills: ['financial_modeling'],
             priority: 'critical',
             contextExtraction: ['current_revenue_range', 'growth_baseline'],
-            skipIf: (answers) => answers.business_path !== 'existing',
             agentPromptContext: 'Baseline for projections. Critical for existing business financial modeling.'
         },
         'legal_entity': {
@@ -312,7 +300,6 @@ export const PHASE_3_CONFIG: PhaseConfig = {
             skills: ['compliance_checker'],
             priority: 'high',
             contextExtraction: ['entity_type', 'legal_requirements'],
-            skipIf: (answers) => answers.business_path !== 'existing',
             agentPromptContext: 'Determine compliance requirements based on entity type.'
         },
         'current_products': {
@@ -320,14 +307,12 @@ export const PHASE_3_CONFIG: PhaseConfig = {
             skills: ['competitor_analysis'],
             priority: 'high',
             contextExtraction: ['product_list', 'product_market_fit'],
-            skipIf: (answers) => answers.business_path !== 'existing',
             agentPromptContext: 'Analyze product-market fit for each offering.'
         },
         'team_size_current': {
             agents: ['ops_planner', 'business_planner_lead'],
             priority: 'medium',
             contextExtraction: ['team_size', 'scaling_strategy'],
-            skipIf: (answers) => answers.business_path === 'new' && answers.idea_status === 'idea_only',
             agentPromptContext: 'Determine team capacity and scaling needs.'
         },
         'biggest_challenges': {
@@ -371,7 +356,6 @@ export const PHASE_4_CONFIG: PhaseConfig = {
             skills: ['financial_modeling'],
             priority: 'medium',
             contextExtraction: ['expansion_timeline', 'phased_revenue_projections'],
-            skipIf: (answers) => answers.expansion_plan !== 'yes',
             agentPromptContext: 'Add phased expansion to financial projections.'
         },
         'international_plan': {
@@ -386,13 +370,11 @@ export const PHASE_4_CONFIG: PhaseConfig = {
             skills: ['market_sizing_calculator'],
             priority: 'medium',
             contextExtraction: ['target_regions', 'regional_market_sizes'],
-            skipIf: (answers) => !['yes', 'maybe_later'].includes(answers.international_plan),
             agentPromptContext: 'Calculate regional TAM/SAM/SOM for each selected region.'
         },
         'customer_type': {
             agents: ['customer_profiler', 'market_analyst', 'revenue_architect'],
             priority: 'critical',
-            isBranchingPoint: true,
             contextExtraction: ['customer_type', 'sales_cycle_default', 'cac_benchmark', 'ltv_benchmark'],
             agentPromptContext: 'CRITICAL BRANCHING. B2B vs B2C determines next 10+ questions and GTM defaults.'
         },
@@ -401,7 +383,6 @@ export const PHASE_4_CONFIG: PhaseConfig = {
             skills: ['market_sizing_calculator'],
             priority: 'medium',
             contextExtraction: ['target_age_group', 'demographic_targeting'],
-            skipIf: (answers) => ['b2b', 'b2g'].includes(answers.customer_type),
             agentPromptContext: 'B2C demographic targeting for market segmentation.'
         },
         'target_gender': {
@@ -409,7 +390,6 @@ export const PHASE_4_CONFIG: PhaseConfig = {
             skills: ['market_sizing_calculator'],
             priority: 'low',
             contextExtraction: ['target_gender', 'market_segmentation'],
-            skipIf: (answers) => ['b2b', 'b2g'].includes(answers.customer_type),
             agentPromptContext: 'Gender-based market segmentation for B2C.'
         },
         'target_income': {
@@ -417,7 +397,6 @@ export const PHASE_4_CONFIG: PhaseConfig = {
             skills: ['market_sizing_calculator'],
             priority: 'high',
             contextExtraction: ['target_income', 'pricing_strategy_hint'],
-            skipIf: (answers) => ['b2b', 'b2g'].includes(answers.customer_type),
             agentPromptContext: 'Income level affects pricing strategy. Affluent = premium pricing viable.'
         },
         'target_location': {
@@ -431,14 +410,12 @@ export const PHASE_4_CONFIG: PhaseConfig = {
             agents: ['customer_profiler', 'market_analyst'],
             priority: 'low',
             contextExtraction: ['target_education', 'messaging_complexity'],
-            skipIf: (answers) => ['b2b', 'b2g'].includes(answers.customer_type),
             agentPromptContext: 'Education level affects messaging complexity.'
         },
         'customer_interests': {
             agents: ['customer_profiler', 'market_analyst', 'gtm_strategist'],
             priority: 'medium',
             contextExtraction: ['customer_interests', 'psychographic_targeting'],
-            skipIf: (answers) => ['b2b', 'b2g'].includes(answers.customer_type),
             agentPromptContext: 'Psychographic targeting for content and ad targeting.'
         },
         'customer_problem': {
@@ -452,7 +429,6 @@ export const PHASE_4_CONFIG: PhaseConfig = {
             skills: ['market_sizing_calculator'],
             priority: 'high',
             contextExtraction: ['company_size_target', 'icp_definition', 'deal_size_range'],
-            skipIf: (answers) => !['b2b', 'b2b2c', 'b2g', 'hybrid'].includes(answers.customer_type),
             agentPromptContext: 'Define ICP. Mid-market = inside sales. Enterprise = field sales.'
         },
         'target_industries_b2b': {
@@ -460,7 +436,6 @@ export const PHASE_4_CONFIG: PhaseConfig = {
             skills: ['market_sizing_calculator', 'competitor_analysis'],
             priority: 'high',
             contextExtraction: ['target_industries_b2b', 'vertical_tam'],
-            skipIf: (answers) => !['b2b', 'b2b2c', 'b2g', 'hybrid'].includes(answers.customer_type),
             agentPromptContext: 'Calculate vertical-specific TAM/SAM/SOM.'
         },
         'company_revenue_target': {
@@ -468,21 +443,18 @@ export const PHASE_4_CONFIG: PhaseConfig = {
             skills: ['market_sizing_calculator'],
             priority: 'medium',
             contextExtraction: ['company_revenue_target', 'budget_availability'],
-            skipIf: (answers) => !['b2b', 'b2b2c', 'b2g', 'hybrid'].includes(answers.customer_type),
             agentPromptContext: 'Target company revenue indicates their budget for solutions.'
         },
         'decision_maker': {
             agents: ['customer_profiler', 'gtm_strategist'],
             priority: 'high',
             contextExtraction: ['decision_maker_level', 'sales_approach', 'content_strategy'],
-            skipIf: (answers) => !['b2b', 'b2b2c', 'b2g', 'hybrid'].includes(answers.customer_type),
             agentPromptContext: 'Buyer persona definition. C-suite = thought leadership content.'
         },
-        'business_problem_b2b': {
+        'business_problem': {
             agents: ['customer_profiler', 'market_analyst', 'business_planner_lead'],
             priority: 'critical',
             contextExtraction: ['b2b_pain_point', 'roi_proposition'],
-            skipIf: (answers) => !['b2b', 'b2b2c', 'b2g', 'hybrid'].includes(answers.customer_type),
             agentPromptContext: 'B2B value proposition. Extract ROI-quantifiable problems.'
         },
         'current_solution': {
@@ -490,7 +462,6 @@ export const PHASE_4_CONFIG: PhaseConfig = {
             skills: ['competitor_analysis'],
             priority: 'high',
             contextExtraction: ['current_solutions', 'switching_barriers', 'competitive_landscape'],
-            skipIf: (answers) => !['b2b', 'b2b2c', 'b2g', 'hybrid'].includes(answers.customer_type),
             agentPromptContext: 'Analyze alternatives. Excel = biggest competitor for many B2B tools.'
         },
         'checkpoint_market': {
@@ -552,7 +523,7 @@ export const PHASE_5_CONFIG: PhaseConfig = {
             contextExtraction: ['secondary_revenue_streams', 'revenue_diversification'],
             agentPromptContext: 'Upsells, cross-sells, services add 15-30% to base revenue.'
         },
-        'year1_revenue': {
+        'revenue_target_year1': {
             agents: ['financial_modeler', 'revenue_architect', 'business_planner_lead'],
             skills: ['financial_modeling'],
             priority: 'critical',
@@ -665,6 +636,13 @@ export const PHASE_6_CONFIG: PhaseConfig = {
             contextExtraction: ['top_competitors', 'competitor_details', 'competitive_landscape'],
             agentPromptContext: 'Deep competitive analysis. Analyze pricing, strength, weakness of each.'
         },
+        'competitor_details': {
+            agents: ['market_analyst'],
+            skills: ['competitor_analysis'],
+            priority: 'high',
+            contextExtraction: ['competitor_pricing', 'competitor_features'],
+            agentPromptContext: 'Per-competitor price and features feed the comparison matrix. Ask for missing prices rather than guessing.'
+        },
         'indirect_competitors': {
             agents: ['market_analyst', 'customer_profiler'],
             skills: ['competitor_analysis'],
@@ -678,6 +656,13 @@ export const PHASE_6_CONFIG: PhaseConfig = {
             contextExtraction: ['moat_components', 'competitive_strength_ranking', 'defensibility'],
             agentPromptContext: 'CRITICAL for positioning. What makes this business defensible?'
         },
+        'key_features': {
+            agents: ['market_analyst', 'customer_profiler'],
+            skills: ['competitor_analysis'],
+            priority: 'high',
+            contextExtraction: ['key_features'],
+            agentPromptContext: 'Own features for the comparison matrix. Keep names consistent with competitor details.'
+        },
         'competitor_weaknesses': {
             agents: ['market_analyst', 'customer_profiler'],
             skills: ['competitor_analysis'],
@@ -697,6 +682,13 @@ export const PHASE_6_CONFIG: PhaseConfig = {
             contextExtraction: ['competition_strategy', 'positioning'],
             agentPromptContext: 'How to win: innovation, cost leadership, differentiation, or focus.'
         },
+        'positioning_axes': {
+            agents: ['market_analyst'],
+            skills: ['competitor_analysis'],
+            priority: 'medium',
+            contextExtraction: ['positioning_axes'],
+            agentPromptContext: 'Two axes for the positioning map. Rated axes need 1-5 ratings per competitor.'
+        },
         'checkpoint_competition': {
             agents: ['context_collector'],
             priority: 'low',
@@ -723,7 +715,6 @@ export const PHASE_7_CONFIG: PhaseConfig = {
             agents: ['ops_planner', 'business_planner_lead'],
             priority: 'high',
             contextExtraction: ['cofounder_skills', 'division_of_responsibilities'],
-            skipIf: (answers) => answers.need_cofounder === 'solo',
             agentPromptContext: 'Define ideal co-founder profile. Usually complement founder skills.'
         },
         'missing_skills': {
@@ -744,7 +735,6 @@ export const PHASE_7_CONFIG: PhaseConfig = {
             skills: ['financial_modeling'],
             priority: 'high',
             contextExtraction: ['hiring_sequence', 'hiring_budget'],
-            skipIf: (answers) => answers.team_size_year1 === 'just_me',
             agentPromptContext: 'Sequence and timing of hires. Product, sales, or ops first?'
         },
         'employment_model': {
@@ -752,7 +742,6 @@ export const PHASE_7_CONFIG: PhaseConfig = {
             skills: ['compliance_checker'],
             priority: 'medium',
             contextExtraction: ['employment_structure', 'fte_vs_contractor'],
-            skipIf: (answers) => answers.team_size_year1 === 'just_me',
             agentPromptContext: 'FTE vs contractor mix. Contractors = flexibility, FTE = commitment.'
         },
         'work_arrangement': {
@@ -776,12 +765,11 @@ export const PHASE_7_CONFIG: PhaseConfig = {
             contextExtraction: ['vendor_costs', 'startup_programs'],
             agentPromptContext: 'Calculate vendor spend. Apply startup credit programs.'
         },
-        'manufacturing': {
+        'manufacturing_model': {
             agents: ['ops_planner', 'financial_modeler', 'business_planner_lead'],
             skills: ['financial_modeling'],
             priority: 'high',
             contextExtraction: ['manufacturing_model', 'cogs_structure'],
-            skipIf: (answers) => ['service', 'saas', 'agency', 'consulting'].includes(answers.business_model_type),
             agentPromptContext: 'Manufacturing model affects COGS and capital requirements.'
         },
         'strategic_partnerships': {
@@ -886,7 +874,6 @@ export const PHASE_8_CONFIG: PhaseConfig = {
             skills: ['financial_modeling'],
             priority: 'high',
             contextExtraction: ['sales_team_size', 'sales_budget'],
-            skipIf: (answers) => answers.sales_model === 'self_serve',
             agentPromptContext: 'Sales team size and composition. Calculate quota and OTE.'
         },
         'commission_structure': {
@@ -894,7 +881,6 @@ export const PHASE_8_CONFIG: PhaseConfig = {
             skills: ['financial_modeling'],
             priority: 'medium',
             contextExtraction: ['commission_rate', 'sales_compensation'],
-            skipIf: (answers) => answers.sales_team === 'founder',
             agentPromptContext: 'Commission percentage and structure. Affects sales cost.'
         },
         'brand_positioning': {
@@ -951,7 +937,6 @@ export const PHASE_9_CONFIG: PhaseConfig = {
             agents: ['funding_strategist', 'financial_modeler', 'business_planner_lead'],
             skills: ['financial_modeling'],
             priority: 'critical',
-            isBranchingPoint: true,
             contextExtraction: ['funding_decision', 'funding_path'],
             agentPromptContext: 'CRITICAL BRANCHING. Bootstrap vs raise determines next 8 questions.'
         },
@@ -959,7 +944,6 @@ export const PHASE_9_CONFIG: PhaseConfig = {
             agents: ['funding_strategist', 'financial_modeler'],
             priority: 'high',
             contextExtraction: ['funding_stage', 'investor_targeting'],
-            skipIf: (answers) => answers.external_funding === 'bootstrap',
             agentPromptContext: 'Pre-seed, seed, Series A. Determines investor type.'
         },
         'capital_needed': {
@@ -967,7 +951,6 @@ export const PHASE_9_CONFIG: PhaseConfig = {
             skills: ['financial_modeling'],
             priority: 'critical',
             contextExtraction: ['capital_needed', 'use_of_funds'],
-            skipIf: (answers) => answers.external_funding === 'bootstrap',
             agentPromptContext: 'How much to raise. Should cover 18-24 months runway.'
         },
         'funds_allocation': {
@@ -975,7 +958,6 @@ export const PHASE_9_CONFIG: PhaseConfig = {
             skills: ['financial_modeling'],
             priority: 'high',
             contextExtraction: ['funds_allocation', 'budget_breakdown'],
-            skipIf: (answers) => answers.external_funding === 'bootstrap',
             agentPromptContext: 'How to spend the money. Team, marketing, product, operations.'
         },
         'equity_dilution': {
@@ -983,7 +965,6 @@ export const PHASE_9_CONFIG: PhaseConfig = {
             skills: ['financial_modeling'],
             priority: 'high',
             contextExtraction: ['equity_dilution', 'ownership_structure'],
-            skipIf: (answers) => answers.external_funding === 'bootstrap',
             agentPromptContext: 'Acceptable dilution percentage. Affects ownership after funding.'
         },
         'target_valuation': {
@@ -991,28 +972,24 @@ export const PHASE_9_CONFIG: PhaseConfig = {
             skills: ['financial_modeling'],
             priority: 'critical',
             contextExtraction: ['target_valuation', 'valuation_methodology'],
-            skipIf: (answers) => answers.external_funding === 'bootstrap',
             agentPromptContext: 'Target valuation based on stage, traction, market size.'
         },
         'investor_types': {
             agents: ['funding_strategist', 'business_planner_lead'],
             priority: 'high',
             contextExtraction: ['investor_types', 'investor_outreach'],
-            skipIf: (answers) => answers.external_funding === 'bootstrap',
             agentPromptContext: 'Angels, VCs, family. Determines outreach strategy.'
         },
         'investor_connections': {
             agents: ['funding_strategist', 'business_planner_lead'],
             priority: 'medium',
             contextExtraction: ['warm_intros', 'fundraising_strategy'],
-            skipIf: (answers) => answers.external_funding === 'bootstrap',
             agentPromptContext: 'Warm intros convert 10x better than cold. Map network.'
         },
         'investor_conversations': {
             agents: ['funding_strategist', 'business_planner_lead'],
             priority: 'medium',
             contextExtraction: ['current_conversations', 'next_steps'],
-            skipIf: (answers) => answers.external_funding === 'bootstrap',
             agentPromptContext: 'Current status of fundraising conversations.'
         },
         'checkpoint_funding': {
@@ -1068,7 +1045,7 @@ export const PHASE_10_CONFIG: PhaseConfig = {
 // ============================================================================
 
 export const PHASE_11_CONFIG: PhaseConfig = {
-    phaseId: 'output',
+    phaseId: 'final',
     defaultAgents: ['output_generator', 'business_planner_lead', 'document_generator'],
     defaultSkills: ['branded_document_generator'],
     questions: {
@@ -1168,11 +1145,7 @@ export function getPhaseConfig(phaseId: string): PhaseConfig | undefined {
  * Check if a question should be skipped based on current answers
  */
 export function shouldSkipQuestion(questionId: string, answers: Record<string, any>): boolean {
-    const config = getQuestionConfig(questionId);
-    if (config?.skipIf) {
-        return config.skipIf(answers);
-    }
-    return false;
+    return shouldSkip(questionId, answers);
 }
 
 /**
@@ -1205,23 +1178,64 @@ export function getSkillsForQuestion(questionId: string, phaseId: string): Skill
  * Get all branching point questions
  */
 export function getBranchingPoints(): string[] {
-    const branchingPoints: string[] = [];
+    return Object.keys(BRANCHING_POINTS).map(id => BRANCHING_POINTS[id].questionId);
+}
+
+/**
+ * Get context extraction fields for a question
+ */
+export function getContextFields(questionId: string): string[] {
+    const config = getQuestionConfig(questionId);
+    return config?.contextExtraction || [];
+}
+
+/**
+ * Get the answer fields an agent's output for this question depends on:
+ * the question itself, its prefill sources and its declared context fields
+ */
+export function getRelevantAnswerFields(questionId: string): string[] {
+    const config = getQuestionConfig(questionId);
+    const fields = [questionId, ...(config?.prefillFrom || []), ...(config?.contextExtraction || [])];
+    return Array.from(new Set(fields));
+}
+
+/**
+ * Get the answer fields routed to an agent across all phases
+ * (every question that lists the agent, plus those questions' relevant fields)
+ */
+export function getAnswerFieldsForAgent(agentId: string): string[] {
+    const fields = new Set<string>();
     for (const phase of ALL_PHASE_CONFIGS) {
+        const usesAgentByDefault = phase.defaultAgents.includes(agentId as AgentId);
         for (const [questionId, config] of Object.entries(phase.questions)) {
-            if (config.isBranchingPoint) {
-                branchingPoints.push(questionId);
+            const routed = config.agents.length > 0
+                ? config.agents.includes(agentId as AgentId)
+                : usesAgentByDefault;
+            if (routed) {
+                getRelevantAnswerFields(questionId).forEach(field => fields.add(field));
             }
         }
     }
-    return branchingPoints;
+    return Array.from(fields);
 }
 
 /**
- * Get context extraction fields for a question
+ * Every agent/skill id referenced by the phase configs (for dangling-reference checks)
  */
-export function getContextFields(questionId: string): string[] {
-    const config = getQuestionConfig(questionId);
-    return config?.contextExtraction || [];
+export function getConfigReferences(): Array<{ kind: 'agent' | 'skill'; id: string; source: string }> {
+    const references: Array<{ kind: 'agent' | 'skill'; id: string; source: string }> = [];
+    for (const phase of ALL_PHASE_CONFIGS) {
+        const phaseSource = `question-config:${phase.phaseId}`;
+        phase.defaultAgents.forEach(id => references.push({ kind: 'agent', id, source: phaseSource }));
+        (phase.defaultSkills || []).forEach(id => references.push({ kind: 'skill', id, source: phaseSource }));
+
+        for (const [questionId, config] of Object.entries(phase.questions)) {
+            const source = `question-config:${questionId}`;
+            config.agents.forEach(id => references.push({ kind: 'agent', id, source }));
+            (config.skills || []).forEach(id => references.push({ kind: 'skill', id, source }));
+        }
+    }
+    return references;
 }
 
 console.log('✅ Question configuration loaded with', ALL_PHASE_CONFIGS.length, 'phases');
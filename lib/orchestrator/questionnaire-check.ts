@@ -0,0 +1,226 @@
+/**
+ * Questionnaire Consistency Check
+ * Cross-checks the questionnaire sources: question ids (lib/schemas/questions.ts), routing
+ * (./question-config.ts), skip rules and branching points (./skip-logic.ts) and question
+ * `mcp_trigger`s. Reports orphan ids, skip rules pointing at missing questions or impossible
+ * values, and questions or branches that can never be reached.
+ */
+
+import { ALL_PHASES, Question, QuestionType } from '../schemas/questions';
+import { ALL_PHASE_CONFIGS } from './question-config';
+import { BRANCHING_POINTS, SKIP_RULE_DEFINITIONS, SkipWhen, evaluateSkipWhen, getSkipWhenFields } from './skip-logic';
+import { QuestionnaireMCPRule } from './questionnaire-definition';
+
+// Same shape as AgentValidationIssue in backend/agents/validation.ts
+export interface QuestionnaireIssue {
+    severity: 'error' | 'warning';
+    source: string; // e.g. "skip-logic:target_age" or "branch:customer_type.b2b"
+    message: string;
+}
+
+const MAX_COMBINATIONS = 1000; // Answer combinations tried before giving up on a reachability check
+
+/**
+ * Run every check. Pass the MCP rules to also check question `mcp_trigger`s.
+ */
+export function checkQuestionnaireConsistency(mcpRules?: QuestionnaireMCPRule[]): QuestionnaireIssue[] {
+    const questions = new Map<string, { question: Question; phaseId: string; order: number }>();
+    const issues: QuestionnaireIssue[] = [];
+
+    ALL_PHASES.forEach(phase => phase.questions.forEach(question => {
+        if (questions.has(question.id)) {
+            issues.push({ severity: 'error', source: `questions:${question.id}`, message: `duplicate question id (also in phase "${questions.get(question.id)!.phaseId}")` });
+            return;
+        }
+        questions.set(question.id, { question, phaseId: phase.id, order: questions.size });
+    }));
+
+    const context: CheckContext = { questions, issues };
+    checkQuestionConfig(context);
+    checkSkipRules(context);
+    checkBranches(context);
+    if (mcpRules) checkMCPTriggers(context, mcpRules);
+
+    return issues;
+}
+
+interface CheckContext {
+    questions: Map<string, { question: Question; phaseId: string; order: number }>;
+    issues: QuestionnaireIssue[];
+}
+
+function checkQuestionConfig({ questions, issues }: CheckContext) {
+    const phaseIds = new Set(ALL_PHASES.map(phase => phase.id));
+    const configured = new Set<string>();
+
+    ALL_PHASE_CONFIGS.forEach(phase => {
+        if (!phaseIds.has(phase.phaseId)) {
+            issues.push({ severity: 'error', source: `question-config:${phase.phaseId}`, message: `unknown phase "${phase.phaseId}"` });
+        }
+
+        Object.keys(phase.questions).forEach(questionId => {
+            const source = `question-config:${questionId}`;
+            const entry = questions.get(questionId);
+            if (configured.has(questionId)) {
+                issues.push({ severity: 'error', source, message: 'configured in more than one phase' });
+            }
+            configured.add(questionId);
+
+            if (!entry) {
+                issues.push({ severity: 'error', source, message: `orphan config: no question "${questionId}"` });
+            } else if (entry.phaseId !== phase.phaseId) {
+                issues.push({ severity: 'warning', source, message: `configured under phase "${phase.phaseId}" but asked in "${entry.phaseId}"` });
+            }
+        });
+    });
+
+    questions.forEach((entry, questionId) => {
+        if (!configured.has(questionId) && entry.question.type !== QuestionType.CHECKPOINT) {
+            issues.push({ severity: 'warning', source: `questions:${questionId}`, message: 'no question-config entry (phase default agents are used)' });
+        }
+    });
+}
+
+function checkSkipRules({ questions, issues }: CheckContext) {
+    const ruled = new Set<string>();
+
+    SKIP_RULE_DEFINITIONS.forEach(rule => {
+        const source = `skip-logic:${rule.questionId}`;
+        const entry = questions.get(rule.questionId);
+
+        if (ruled.has(rule.questionId)) {
+            issues.push({ severity: 'error', source, message: 'more than one skip rule for this question (merge them with "any")' });
+        }
+        ruled.add(rule.questionId);
+
+        if (!entry) {
+            issues.push({ severity: 'error', source, message: `skip rule for missing question "${rule.questionId}"` });
+            return;
+        }
+
+        let checkable = true;
+        getSkipWhenFields(rule.when).forEach(field => {
+            const dependency = questions.get(field);
+            if (!dependency) {
+                issues.push({ severity: 'error', source, message: `condition reads missing question "${field}"` });
+                checkable = false;
+            } else if (dependency.order >= entry.order) {
+                issues.push({ severity: 'warning', source, message: `condition reads "${field}", which is asked later` });
+            }
+        });
+        if (!checkable) return;
+
+        conditionValues(rule.when).forEach(({ field, value }) => {
+            const options = choiceOptions(questions.get(field)!.question);
+            if (options && !options.includes(value)) {
+                issues.push({ severity: 'error', source, message: `compares "${field}" with ${JSON.stringify(value)}, which is not one of its options` });
+            }
+        });
+
+        if (isAlwaysSkipped(rule.when, questions)) {
+            issues.push({ severity: 'error', source, message: `"${rule.questionId}" is skipped for every possible answer and can never be reached` });
+        }
+    });
+}
+
+function checkBranches({ questions, issues }: CheckContext) {
+    Object.keys(BRANCHING_POINTS).forEach(key => {
+        const point = BRANCHING_POINTS[key];
+        const entry = questions.get(point.questionId);
+        if (!entry) {
+            issues.push({ severity: 'error', source: `branch:${point.questionId}`, message: `branching point on missing question "${point.questionId}"` });
+            return;
+        }
+
+        const options = choiceOptions(entry.question);
+        Object.keys(point.branches).forEach(value => {
+            const source = `branch:${point.questionId}.${value}`;
+            if (options && !options.includes(value)) {
+                issues.push({ severity: 'error', source, message: `"${value}" is not an option of "${point.questionId}", so this branch can never be taken` });
+            }
+
+            point.branches[value].forEach(target => {
+                const targetEntry = questions.get(target);
+                if (!targetEntry) {
+                    issues.push({ severity: 'error', source, message: `activates missing question "${target}"` });
+                    return;
+                }
+                if (targetEntry.order <= entry.order) {
+                    issues.push({ severity: 'warning', source, message: `activates "${target}", which is asked before the branching question` });
+                }
+
+                // Only decidable when the target's skip rule depends on the branching answer alone
+                const rule = SKIP_RULE_DEFINITIONS.find(candidate => candidate.questionId === target);
+                const fields = rule ? getSkipWhenFields(rule.when) : [];
+                if (rule && fields.length === 1 && fields[0] === point.questionId
+                    && evaluateSkipWhen(rule.when, { [point.questionId]: value })) {
+                    issues.push({ severity: 'error', source, message: `activates "${target}", but its skip rule skips it for this answer (${rule.reason})` });
+                }
+            });
+        });
+    });
+}
+
+function checkMCPTriggers({ questions, issues }: CheckContext, mcpRules: QuestionnaireMCPRule[]) {
+    questions.forEach(({ question }) => {
+        if (!question.mcp_trigger) return;
+
+        const source = `questions:${question.id}`;
+        const rule = mcpRules.find(candidate => candidate.id === question.mcp_trigger);
+        if (!rule) {
+            issues.push({ severity: 'warning', source, message: `mcp_trigger "${question.mcp_trigger}" is not an MCP rule` });
+        } else if (rule.trigger_field !== question.id) {
+            issues.push({ severity: 'warning', source, message: `mcp_trigger "${rule.id}" is triggered by "${rule.trigger_field}", not this question` });
+        }
+    });
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Option values of a single-choice question (undefined when its answers are open-ended)
+ */
+function choiceOptions(question: Question): any[] | undefined {
+    if (question.type !== QuestionType.CHOICE || !question.options || question.options.length === 0) {
+        return undefined;
+    }
+    return question.options.map(option => option.value);
+}
+
+function conditionValues(when: SkipWhen): Array<{ field: string; value: any }> {
+    if ('any' in when) return when.any.flatMap(conditionValues);
+    if ('all' in when) return when.all.flatMap(conditionValues);
+    const values = when.operator === 'in' || when.operator === 'not_in' ? when.value : [when.value];
+    return (Array.isArray(values) ? values : [values]).map(value => ({ field: when.field, value }));
+}
+
+/**
+ * True when the condition holds for every combination of answers to the fields it reads.
+ * A field can also be unanswered when it has a skip rule of its own. Open-ended fields make
+ * the check inconclusive (false).
+ */
+function isAlwaysSkipped(when: SkipWhen, questions: CheckContext['questions']): boolean {
+    const domains: Array<{ field: string; values: any[] }> = [];
+    for (const field of getSkipWhenFields(when)) {
+        const options = choiceOptions(questions.get(field)!.question);
+        if (!options) return false;
+        const skippable = SKIP_RULE_DEFINITIONS.some(rule => rule.questionId === field);
+        domains.push({ field, values: skippable ? [...options, undefined] : options });
+    }
+
+    const total = domains.reduce((count, domain) => count * domain.values.length, 1);
+    if (total > MAX_COMBINATIONS) return false;
+
+    for (let index = 0; index < total; index++) {
+        const answers: Record<string, any> = {};
+        let rest = index;
+        domains.forEach(domain => {
+            answers[domain.field] = domain.values[rest % domain.values.length];
+            rest = Math.floor(rest / domain.values.length);
+        });
+        if (!evaluateSkipWhen(when, answers)) return false;
+    }
+    return true;
+}
@@ -0,0 +1,116 @@
+/**
+ * Questionnaire Definition
+ * One model per question, joining its content (lib/schemas/questions.ts), its agent/skill
+ * routing (./question-config.ts), its skip rule and branches (./skip-logic.ts) and the MCP
+ * rules it triggers. Runtime views (shouldSkip, getBranchingPoints, getAgentsForQuestion...)
+ * read the same sources, so the definition is what they see.
+ */
+
+import { ALL_PHASES, Question } from '../schemas/questions';
+import { AgentId, SkillId, getAgentsForQuestion, getQuestionConfig, getSkillsForQuestion } from './question-config';
+import { BRANCHING_POINTS, SKIP_RULE_DEFINITIONS, SkipWhen } from './skip-logic';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Minimal view of an MCP rule, so this module does not load rule files itself */
+export interface QuestionnaireMCPRule {
+    id: string;
+    trigger_field: string;
+}
+
+export interface QuestionDefinition extends Question {
+    phaseId: string;
+    phaseIndex: number; // 0-based phase position
+    order: number; // 0-based position across the whole questionnaire
+    agents: AgentId[]; // With phase defaults applied
+    skills: SkillId[];
+    priority?: 'critical' | 'high' | 'medium' | 'low';
+    contextExtraction: string[];
+    prefillFrom: string[];
+    agentPromptContext?: string;
+    skip?: { when: SkipWhen; reason: string };
+    branches?: Record<string, string[]>; // Answer value -> questions it activates
+    mcpRules: string[]; // Ids of MCP rules triggered by this question
+}
+
+export interface QuestionnaireDefinition {
+    phases: Array<{ id: string; name: string; questionIds: string[] }>;
+    questions: QuestionDefinition[];
+}
+
+// ============================================================================
+// Builder
+// ============================================================================
+
+/**
+ * Build the definition. Pass the MCP rules (e.g. getMCPEngine().getRules()) to fill `mcpRules`.
+ * Where a source repeats an id the first entry wins; checkQuestionnaireConsistency reports it.
+ */
+export function buildQuestionnaireDefinition(mcpRules: QuestionnaireMCPRule[] = []): QuestionnaireDefinition {
+    const questions: QuestionDefinition[] = [];
+    const seen = new Set<string>();
+
+    const phases = ALL_PHASES.map((phase, phaseIndex) => {
+        const questionIds: string[] = [];
+        phase.questions.forEach(question => {
+            if (seen.has(question.id)) return;
+            seen.add(question.id);
+            questionIds.push(question.id);
+            questions.push(defineQuestion(question, phase.id, phaseIndex, questions.length, mcpRules));
+        });
+        return { id: phase.id, name: phase.name, questionIds };
+    });
+
+    return { phases, questions };
+}
+
+function defineQuestion(
+    question: Question,
+    phaseId: string,
+    phaseIndex: number,
+    order: number,
+    mcpRules: QuestionnaireMCPRule[]
+): QuestionDefinition {
+    const config = getQuestionConfig(question.id);
+    const skipRule = SKIP_RULE_DEFINITIONS.find(rule => rule.questionId === question.id);
+    const branchPoint = Object.keys(BRANCHING_POINTS)
+        .map(id => BRANCHING_POINTS[id])
+        .find(point => point.questionId === question.id);
+
+    return {
+        ...question,
+        phaseId,
+        phaseIndex,
+        order,
+        agents: getAgentsForQuestion(question.id, phaseId),
+        skills: getSkillsForQuestion(question.id, phaseId),
+        priority: config?.priority,
+        contextExtraction: config?.contextExtraction || [],
+        prefillFrom: config?.prefillFrom || [],
+        agentPromptContext: config?.agentPromptContext,
+        skip: skipRule ? { when: skipRule.when, reason: skipRule.reason } : undefined,
+        branches: branchPoint?.branches,
+        mcpRules: mcpRules.filter(rule => rule.trigger_field === question.id).map(rule => rule.id)
+    };
+}
+
+let definition: QuestionnaireDefinition | null = null;
+
+/**
+ * Cached definition without MCP rules (lib code cannot read the rule files)
+ */
+export function getQuestionnaireDefinition(): QuestionnaireDefinition {
+    if (!definition) {
+        definition = buildQuestionnaireDefinition();
+    }
+    return definition;
+}
+
+/**
+ * Look up one question's definition
+ */
+export function getQuestionDefinition(questionId: string): QuestionDefinition | undefined {
+    return getQuestionnaireDefinition().questions.find(question => question.id === questionId);
+}
@@ -0,0 +1,418 @@
+/**
+ * Questionnaire Path Simulator
+ * Enumerates the answer combinations at the branching points (./skip-logic.ts BRANCHING_POINTS),
+ * walks the questionnaire for each with getNextQuestionIndex, and reports per-path question
+ * counts and estimated time, questions no path reaches and dead-end paths. The walked flow can
+ * be exported as a DOT or Mermaid graph.
+ *
+ * Questions that are not branching points are answered with a neutral value that matches no
+ * option, so skip rules keyed on them take their "not this option" side unless `answers`
+ * fixes them (e.g. { revenue_model: 'one_time' }).
+ */
+
+import { ALL_PHASES, Question, QuestionType } from '../schemas/questions';
+import { BRANCHING_POINTS, SKIP_RULE_DEFINITIONS, getNextQuestionIndex, getSkipWhenFields } from './skip-logic';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface SimulationOptions {
+    answers?: Record<string, any>; // Fixed answers; fixing a branching point stops it being enumerated
+    branchingPoints?: string[]; // Branching questions to enumerate (default: all BRANCHING_POINTS)
+}
+
+export interface TimeRange {
+    min: number; // Minutes
+    max: number;
+}
+
+export interface SimulatedPath {
+    branches: Record<string, any>; // Answer given at each branching point
+    asked: string[]; // Question ids in the order they are asked (checkpoints included)
+    skipped: string[];
+    questionCount: number; // Excluding checkpoints
+    checkpointCount: number;
+    phases: Array<{ id: string; asked: number; total: number; minutes: TimeRange }>;
+    estimatedMinutes: TimeRange;
+    deadEnds: string[]; // Why this path is a dead end (empty when it completes normally)
+}
+
+export interface SimulationReport {
+    paths: SimulatedPath[];
+    totalQuestions: number;
+    unreachable: string[]; // Asked on no path, even when its own skip condition's fields are varied
+    shortest?: SimulatedPath;
+    longest?: SimulatedPath;
+}
+
+export const NEUTRAL_ANSWER = '__simulated__';
+
+const MAX_PATHS = 5000;
+
+// ============================================================================
+// Simulation
+// ============================================================================
+
+/**
+ * Simulate every combination of branching answers
+ */
+export function simulateQuestionnaire(options: SimulationOptions = {}): SimulationReport {
+    const fixed = options.answers || {};
+    const pointIds = (options.branchingPoints || Object.keys(BRANCHING_POINTS).map(id => BRANCHING_POINTS[id].questionId))
+        .filter(id => !Object.prototype.hasOwnProperty.call(fixed, id));
+
+    const domains = pointIds.map(id => ({ id, values: branchValues(id) }));
+    const total = domains.reduce((count, domain) => count * domain.values.length, 1);
+    if (total > MAX_PATHS) {
+        throw new Error(`Too many answer combinations to simulate (${total}); fix some branching answers`);
+    }
+
+    const combinations = enumerate(domains);
+    const paths = combinations.map(branches => simulatePath({ ...fixed, ...branches }));
+
+    const asked = new Set<string>();
+    paths.forEach(path => path.asked.forEach(id => asked.add(id)));
+    const questions = flattenQuestions();
+
+    const byLength = paths.slice().sort((a, b) => a.questionCount - b.questionCount);
+    return {
+        paths,
+        totalQuestions: questions.filter(question => question.type !== QuestionType.CHECKPOINT).length,
+        unreachable: questions
+            .filter(question => !asked.has(question.id) && !canReach(question.id, combinations, fixed))
+            .map(question => question.id),
+        shortest: byLength[0],
+        longest: byLength[byLength.length - 1]
+    };
+}
+
+/**
+ * Walk the questionnaire once; `answers` holds every answer the simulated user would give
+ */
+export function simulatePath(answers: Record<string, any>): SimulatedPath {
+    const questions = flattenQuestions();
+    const given: Record<string, any> = {};
+    const asked: string[] = [];
+
+    let index = getNextQuestionIndex(questions, 0, given);
+    while (index < questions.length) {
+        const question = questions[index];
+        asked.push(question.id);
+        given[question.id] = Object.prototype.hasOwnProperty.call(answers, question.id)
+            ? answers[question.id]
+            : NEUTRAL_ANSWER;
+        index = getNextQuestionIndex(questions, index + 1, given);
+    }
+
+    const askedSet = new Set(asked);
+    const phases = ALL_PHASES.map((phase, phaseIndex) => {
+        const askedInPhase = phase.questions.filter(question => askedSet.has(question.id)).length;
+        const range = phaseTime(phaseIndex);
+        const share = phase.questions.length > 0 ? askedInPhase / phase.questions.length : 0;
+        return {
+            id: phase.id,
+            asked: askedInPhase,
+            total: phase.questions.length,
+            minutes: { min: Math.round(range.min * share), max: Math.round(range.max * share) }
+        };
+    });
+
+    const checkpointCount = questions.filter(question =>
+        question.type === QuestionType.CHECKPOINT && askedSet.has(question.id)
+    ).length;
+
+    return {
+        branches: branchAnswers(answers),
+        asked,
+        skipped: questions.filter(question => !askedSet.has(question.id)).map(question => question.id),
+        questionCount: asked.length - checkpointCount,
+        checkpointCount,
+        phases,
+        estimatedMinutes: phases.reduce(
+            (sum, phase) => ({ min: sum.min + phase.minutes.min, max: sum.max + phase.minutes.max }),
+            { min: 0, max: 0 }
+        ),
+        deadEnds: findDeadEnds(asked, given, phases)
+    };
+}
+
+/**
+ * A path is a dead end when it never reaches the last question, leaves a phase empty, or
+ * picks a branch whose questions are all skipped
+ */
+function findDeadEnds(asked: string[], answers: Record<string, any>, phases: SimulatedPath['phases']): string[] {
+    const questions = flattenQuestions();
+    const reasons: string[] = [];
+    const last = questions[questions.length - 1];
+
+    if (last && asked[asked.length - 1] !== last.id) {
+        reasons.push(`never reaches the final question "${last.id}"`);
+    }
+
+    phases.filter(phase => phase.total > 0 && phase.asked === 0)
+        .forEach(phase => reasons.push(`phase "${phase.id}" has no questions on this path`));
+
+    Object.keys(BRANCHING_POINTS).forEach(key => {
+        const point = BRANCHING_POINTS[key];
+        const targets = point.branches[answers[point.questionId]] || [];
+        const askedSet = new Set(asked);
+        if (targets.length > 0 && targets.every(target => !askedSet.has(target))) {
+            reasons.push(`branch ${point.questionId}=${answers[point.questionId]} activates questions that are all skipped`);
+        }
+    });
+
+    return reasons;
+}
+
+// ============================================================================
+// Graph Export
+// ============================================================================
+
+export interface FlowEdge {
+    from: string;
+    to: string;
+    label?: string;
+}
+
+/**
+ * The transitions taken across the simulated paths, labelled with the branching answers
+ * that take them (unlabelled when every path does)
+ */
+export function buildFlowEdges(report: SimulationReport): FlowEdge[] {
+    const taken = new Map<string, SimulatedPath[]>();
+    report.paths.forEach(path => {
+        ['__start__', ...path.asked, '__end__'].forEach((id, index, ids) => {
+            if (index === 0) return;
+            const key = `${ids[index - 1]}->${id}`;
+            if (!taken.has(key)) taken.set(key, []);
+            taken.get(key)!.push(path);
+        });
+    });
+
+    const edges: FlowEdge[] = [];
+    taken.forEach((paths, key) => {
+        const [from, to] = key.split('->');
+        edges.push({ from, to, label: edgeLabel(paths, report.paths) });
+    });
+    return edges;
+}
+
+function edgeLabel(paths: SimulatedPath[], allPaths: SimulatedPath[]): string | undefined {
+    if (paths.length === allPaths.length) return undefined;
+
+    const parts: string[] = [];
+    Object.keys(allPaths[0]?.branches || {}).forEach(field => {
+        const all = Array.from(new Set(allPaths.map(path => path.branches[field])));
+        const used = Array.from(new Set(paths.map(path => path.branches[field])));
+        if (used.length < all.length) parts.push(`${field}=${used.join('/')}`);
+    });
+    return parts.length > 0 ? parts.join(', ') : undefined;
+}
+
+/**
+ * Graphviz DOT: one cluster per phase, branching points as diamonds, unreachable questions dashed
+ */
+export function exportFlowDot(report: SimulationReport): string {
+    const branching = new Set(Object.keys(BRANCHING_POINTS).map(id => BRANCHING_POINTS[id].questionId));
+    const unreachable = new Set(report.unreachable);
+    const lines = [
+        'digraph questionnaire {',
+        '  rankdir=TB;',
+        '  node [shape=box, fontsize=10];',
+        '  "__start__" [label="start", shape=circle];',
+        '  "__end__" [label="end", shape=doublecircle];'
+    ];
+
+    ALL_PHASES.forEach((phase, index) => {
+        lines.push(`  subgraph cluster_${index} {`);
+        lines.push(`    label=${dotString(phase.name)};`);
+        phase.questions.forEach(question => {
+            const attributes = [`label=${dotString(question.id)}`];
+            if (branching.has(question.id)) attributes.push('shape=diamond');
+            if (question.type === QuestionType.CHECKPOINT) attributes.push('shape=ellipse');
+            if (unreachable.has(question.id)) attributes.push('style=dashed', 'color=gray');
+            lines.push(`    ${dotString(question.id)} [${attributes.join(', ')}];`);
+        });
+        lines.push('  }');
+    });
+
+    buildFlowEdges(report).forEach(edge => {
+        const label = edge.label ? ` [label=${dotString(edge.label)}, fontsize=8]` : '';
+        lines.push(`  ${dotString(edge.from)} -> ${dotString(edge.to)}${label};`);
+    });
+
+    lines.push('}');
+    return lines.join('\n');
+}
+
+/**
+ * Mermaid flowchart: one subgraph per phase, branching points as rhombi, unreachable questions dashed
+ */
+export function exportFlowMermaid(report: SimulationReport): string {
+    const branching = new Set(Object.keys(BRANCHING_POINTS).map(id => BRANCHING_POINTS[id].questionId));
+    const unreachable = report.unreachable;
+    const lines = ['flowchart TD', '    __start__((start))', '    __end__(((end)))'];
+
+    ALL_PHASES.forEach(phase => {
+        lines.push(`    subgraph phase_${phase.id}["${mermaidText(phase.name)}"]`);
+        phase.questions.forEach(question => {
+            lines.push(branching.has(question.id)
+                ? `        ${question.id}{"${question.id}"}`
+                : `        ${question.id}["${question.id}"]`);
+        });
+        lines.push('    end');
+    });
+
+    buildFlowEdges(report).forEach(edge => {
+        lines.push(edge.label
+            ? `    ${edge.from} -->|"${mermaidText(edge.label)}"| ${edge.to}`
+            : `    ${edge.from} --> ${edge.to}`);
+    });
+
+    if (unreachable.length > 0) {
+        lines.push('    classDef unreachable stroke-dasharray: 5 5,color:#999');
+        lines.push(`    class ${unreachable.join(',')} unreachable`);
+    }
+    return lines.join('\n');
+}
+
+// ============================================================================
+// Report
+// ============================================================================
+
+/**
+ * Human-readable summary: one line per path plus unreachable questions and dead ends
+ */
+export function formatSimulationReport(report: SimulationReport): string {
+    const lines: string[] = [`${report.paths.length} paths, ${report.totalQuestions} questions in total`];
+
+    report.paths.forEach(path => {
+        lines.push(`\n${describeBranches(path)}`);
+        lines.push(`  ${path.questionCount} questions, ${path.checkpointCount} checkpoints, ~${path.estimatedMinutes.min}-${path.estimatedMinutes.max} minutes`);
+        lines.push(`  per phase: ${path.phases.map(phase => `${phase.id} ${phase.asked}/${phase.total}`).join(', ')}`);
+        path.deadEnds.forEach(reason => lines.push(`  DEAD END: ${reason}`));
+    });
+
+    if (report.shortest && report.longest && report.paths.length > 1) {
+        lines.push(`\nShortest: ${describeBranches(report.shortest)} (${report.shortest.questionCount} questions)`);
+        lines.push(`Longest: ${describeBranches(report.longest)} (${report.longest.questionCount} questions)`);
+    }
+
+    lines.push(report.unreachable.length > 0
+        ? `\nUnreachable questions (${report.unreachable.length}): ${report.unreachable.join(', ')}`
+        : '\nEvery question is reachable on some path');
+
+    const deadEnds = report.paths.filter(path => path.deadEnds.length > 0).length;
+    lines.push(`Dead-end paths: ${deadEnds}`);
+    return lines.join('\n');
+}
+
+function describeBranches(path: SimulatedPath): string {
+    const fields = Object.keys(path.branches);
+    return fields.length > 0
+        ? fields.map(field => `${field}=${path.branches[field]}`).join(', ')
+        : '(fixed answers)';
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Every combination of the given answer domains
+ */
+function enumerate(domains: Array<{ id: string; values: any[] }>): Array<Record<string, any>> {
+    const total = domains.reduce((count, domain) => count * domain.values.length, 1);
+    const combinations: Array<Record<string, any>> = [];
+    for (let index = 0; index < total; index++) {
+        const combination: Record<string, any> = {};
+        let rest = index;
+        domains.forEach(domain => {
+            combination[domain.id] = domain.values[rest % domain.values.length];
+            rest = Math.floor(rest / domain.values.length);
+        });
+        combinations.push(combination);
+    }
+    return combinations;
+}
+
+/**
+ * Whether some branching combination reaches a question once the fields its own skip rule
+ * reads are also varied over their options (the neutral answer never matches a rule's option)
+ */
+function canReach(questionId: string, combinations: Array<Record<string, any>>, fixed: Record<string, any>): boolean {
+    const rule = SKIP_RULE_DEFINITIONS.find(candidate => candidate.questionId === questionId);
+    if (!rule) return false;
+
+    const domains = getSkipWhenFields(rule.when)
+        .filter(field => !Object.prototype.hasOwnProperty.call(fixed, field))
+        .map(field => ({ id: field, values: optionValues(field) }))
+        .filter(domain => domain.values.length > 0);
+    const variations = enumerate(domains);
+    if (variations.length * combinations.length > MAX_PATHS) return false;
+
+    return combinations.some(branches => variations.some(variation =>
+        simulatePath({ ...fixed, ...variation, ...branches }).asked.includes(questionId)
+    ));
+}
+
+/**
+ * The branching-point answers among a set of answers
+ */
+function branchAnswers(answers: Record<string, any>): Record<string, any> {
+    const branches: Record<string, any> = {};
+    Object.keys(BRANCHING_POINTS).forEach(id => {
+        const questionId = BRANCHING_POINTS[id].questionId;
+        if (Object.prototype.hasOwnProperty.call(answers, questionId)) branches[questionId] = answers[questionId];
+    });
+    return branches;
+}
+
+function optionValues(questionId: string): any[] {
+    const question = flattenQuestions().find(candidate => candidate.id === questionId);
+    return (question?.options || []).map(option => option.value);
+}
+
+function flattenQuestions(): Question[] {
+    return ALL_PHASES.reduce<Question[]>((all, phase) => all.concat(phase.questions), []);
+}
+
+/**
+ * Values to try at a branching point: the question's options, else the declared branches
+ */
+function branchValues(questionId: string): any[] {
+    const options = optionValues(questionId);
+    if (options.length > 0) return options;
+    const point = Object.keys(BRANCHING_POINTS)
+        .map(id => BRANCHING_POINTS[id])
+        .find(candidate => candidate.questionId === questionId);
+    return point ? Object.keys(point.branches) : [NEUTRAL_ANSWER];
+}
+
+/**
+ * Time for a phase: the previous checkpoint's `estimated_time_next`, else the phase's own estimate
+ */
+function phaseTime(phaseIndex: number): TimeRange {
+    const previous = phaseIndex > 0 ? ALL_PHASES[phaseIndex - 1].questions : [];
+    const checkpoint = previous.filter(question => question.estimated_time_next).pop();
+    return parseTimeRange(checkpoint?.estimated_time_next || ALL_PHASES[phaseIndex].estimated_time);
+}
+
+/**
+ * "8-12 minutes" -> { min: 8, max: 12 }; "5 minutes" -> { min: 5, max: 5 }
+ */
+export function parseTimeRange(text: string | undefined): TimeRange {
+    const numbers = (text || '').match(/\d+(\.\d+)?/g);
+    if (!numbers) return { min: 0, max: 0 };
+    const min = parseFloat(numbers[0]);
+    return { min, max: numbers.length > 1 ? parseFloat(numbers[1]) : min };
+}
+
+function dotString(value: string): string {
+    return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+function mermaidText(value: string): string {
+    return value.replace(/"/g, '#quot;');
+}
@@ -1,6 +1,11 @@
 /**
  * Skip Logic for Business Model Questionnaire
- * Defines which questions to skip based on previous answers
+ * Defines which questions to skip based on previous answers.
+ *
+ * This is the only place skip rules and branching points are declared. Conditions are data
+ * (field / operator / value, combined with `any` / `all`) rather than functions, so
+ * question-config.ts, the questionnaire definition and the consistency checker can all
+ * derive from and inspect the same rules.
  */
 
 // ============================================================================
@@ -9,12 +14,23 @@
 
 export type SkipCondition = (answers: Record<string, any>) => boolean;
 
-export interface SkipRule {
+export type SkipOperator = 'equals' | 'not_equals' | 'in' | 'not_in';
+
+export type SkipWhen =
+    | { field: string; operator: SkipOperator; value: any }
+    | { any: SkipWhen[] }
+    | { all: SkipWhen[] };
+
+export interface SkipRuleDefinition {
     questionId: string;
-    condition: SkipCondition;
+    when: SkipWhen; // Skip the question when this holds
     reason: string;
 }
 
+export interface SkipRule extends SkipRuleDefinition {
+    condition: SkipCondition;
+}
+
 // ============================================================================
 // Skip Rules by Phase
 // ============================================================================
@@ -22,15 +38,15 @@ export interface SkipRule {
 /**
  * Phase 2: User Discovery Skip Rules
  */
-export const PHASE_2_SKIP_RULES: SkipRule[] = [
+export const PHASE_2_SKIP_RULES: SkipRuleDefinition[] = [
     {
         questionId: 'education_field',
-        condition: (answers) => answers.education_level === 'self_taught',
+        when: { field: 'education_level', operator: 'equals', value: 'self_taught' },
         reason: 'Self-taught users do not have a formal field of study'
     },
     {
         questionId: 'industries_worked',
-        condition: (answers) => answers.years_experience === '0',
+        when: { field: 'years_experience', operator: 'equals', value: '0' },
         reason: 'No work experience means no industries worked in'
     }
 ];
@@ -38,65 +54,70 @@ export const PHASE_2_SKIP_RULES: SkipRule[] = [
 /**
  * Phase 3: Business Context Skip Rules
  */
-export const PHASE_3_SKIP_RULES: SkipRule[] = [
+export const PHASE_3_SKIP_RULES: SkipRuleDefinition[] = [
     // NEW BUSINESS PATH SKIPS
     {
         questionId: 'idea_status',
-        condition: (answers) => answers.business_path === 'existing',
+        when: { field: 'business_path', operator: 'equals', value: 'existing' },
         reason: 'Existing businesses already have an idea'
     },
     {
         questionId: 'business_idea_detail',
-        condition: (answers) => answers.business_path === 'existing',
+        when: { field: 'business_path', operator: 'equals', value: 'existing' },
         reason: 'Existing businesses describe their current business instead'
     },
     {
         questionId: 'target_industries',
-        condition: (answers) => answers.business_path === 'existing',
+        when: { field: 'business_path', operator: 'equals', value: 'existing' },
         reason: 'Existing businesses already know their target industries'
     },
 
     // EXISTING BUSINESS PATH SKIPS
     {
         questionId: 'existing_name',
-        condition: (answers) => answers.business_path !== 'existing',
+        when: { field: 'business_path', operator: 'not_equals', value: 'existing' },
         reason: 'Only existing businesses have a name'
     },
     {
         questionId: 'existing_website',
-        condition: (answers) => answers.business_path !== 'existing',
+        when: { field: 'business_path', operator: 'not_equals', value: 'existing' },
         reason: 'Only existing businesses may have a website'
     },
     {
         questionId: 'existing_industry',
-        condition: (answers) => answers.business_path !== 'existing',
+        when: { field: 'business_path', operator: 'not_equals', value: 'existing' },
         reason: 'Only existing businesses have a current industry'
     },
     {
         questionId: 'business_start_date',
-        condition: (answers) => answers.business_path !== 'existing',
+        when: { field: 'business_path', operator: 'not_equals', value: 'existing' },
         reason: 'Only existing businesses have a start date'
     },
     {
         questionId: 'current_revenue',
-        condition: (answers) => answers.business_path !== 'existing',
+        when: { field: 'business_path', operator: 'not_equals', value: 'existing' },
         reason: 'Only existing businesses have current revenue'
     },
     {
         questionId: 'legal_entity',
-        condition: (answers) => answers.business_path !== 'existing',
+        when: { field: 'business_path', operator: 'not_equals', value: 'existing' },
         reason: 'Only existing businesses are registered'
     },
     {
         questionId: 'current_products',
-        condition: (answers) => answers.business_path !== 'existing',
+        when: { field: 'business_path', operator: 'not_equals', value: 'existing' },
         reason: 'Only existing businesses have current products'
     },
+    {
+        questionId: 'team_size_current',
+        when: { field: 'business_path', operator: 'equals', value: 'idea_only' },
+        reason: 'Founders with only an idea do not have a team yet'
+    },
 
     // IDEA GENERATION SKIPS
     {
         questionId: 'problem_to_solve',
-        condition: (answers) => answers.idea_status === 'need_suggestions',
+        when: { field: 'idea_status', operator: 'equals', value: 'need_suggestions' },
         reason: 'Users without ideas will get problem suggestions'
     }
 ];
@@ -104,75 +125,75 @@ export const PHASE_3_SKIP_RULES: SkipRule[] = [
 /**
  * Phase 4: Market Analysis Skip Rules
  */
-export const PHASE_4_SKIP_RULES: SkipRule[] = [
+export const PHASE_4_SKIP_RULES: SkipRuleDefinition[] = [
     // EXPANSION SKIPS
     {
         questionId: 'expansion_timeline',
-        condition: (answers) => answers.expansion_plan !== 'yes',
+        when: { field: 'expansion_plan', operator: 'not_equals', value: 'yes' },
         reason: 'No expansion plan means no timeline needed'
     },
     {
         questionId: 'target_regions',
-        condition: (answers) => !['yes', 'maybe_later'].includes(answers.international_plan),
+        when: { field: 'international_plan', operator: 'not_in', value: ['yes', 'maybe_later'] },
         reason: 'No international plans means no target regions'
     },
 
     // B2C DEMOGRAPHIC SKIPS (skip for B2B/B2G)
     {
         questionId: 'target_age',
-        condition: (answers) => ['b2b', 'b2g'].includes(answers.customer_type),
+        when: { field: 'customer_type', operator: 'in', value: ['b2b', 'b2g'] },
         reason: 'B2B/B2G does not target age demographics'
     },
     {
         questionId: 'target_gender',
-        condition: (answers) => ['b2b', 'b2g'].includes(answers.customer_type),
+        when: { field: 'customer_type', operator: 'in', value: ['b2b', 'b2g'] },
         reason: 'B2B/B2G does not target gender demographics'
     },
     {
         questionId: 'target_income',
-        condition: (answers) => ['b2b', 'b2g'].includes(answers.customer_type),
+        when: { field: 'customer_type', operator: 'in', value: ['b2b', 'b2g'] },
         reason: 'B2B/B2G does not target income levels of individuals'
     },
     {
         questionId: 'target_education',
-        condition: (answers) => ['b2b', 'b2g'].includes(answers.customer_type),
+        when: { field: 'customer_type', operator: 'in', value: ['b2b', 'b2g'] },
         reason: 'B2B/B2G does not target education levels'
     },
     {
         questionId: 'customer_interests',
-        condition: (answers) => ['b2b', 'b2g'].includes(answers.customer_type),
+        when: { field: 'customer_type', operator: 'in', value: ['b2b', 'b2g'] },
         reason: 'B2B/B2G does not target lifestyle interests'
     },
 
     // B2B COMPANY SKIPS (skip for B2C)
     {
         questionId: 'company_size_target',
-        condition: (answers) => !['b2b', 'b2b2c', 'b2g', 'hybrid'].includes(answers.customer_type),
+        when: { field: 'customer_type', operator: 'not_in', value: ['b2b', 'b2b2c', 'b2g', 'hybrid'] },
         reason: 'B2C does not target company sizes'
     },
     {
         questionId: 'target_industries_b2b',
-        condition: (answers) => !['b2b', 'b2b2c', 'b2g', 'hybrid'].includes(answers.customer_type),
+        when: { field: 'customer_type', operator: 'not_in', value: ['b2b', 'b2b2c', 'b2g', 'hybrid'] },
         reason: 'B2C does not target specific industries'
     },
     {
         questionId: 'company_revenue_target',
-        condition: (answers) => !['b2b', 'b2b2c', 'b2g', 'hybrid'].includes(answers.customer_type),
+        when: { field: 'customer_type', operator: 'not_in', value: ['b2b', 'b2b2c', 'b2g', 'hybrid'] },
         reason: 'B2C does not target company revenue ranges'
     },
     {
         questionId: 'decision_maker',
-        condition: (answers) => !['b2b', 'b2b2c', 'b2g', 'hybrid'].includes(answers.customer_type),
+        when: { field: 'customer_type', operator: 'not_in', value: ['b2b', 'b2b2c', 'b2g', 'hybrid'] },
         reason: 'B2C does not have business decision makers'
     },
     {
-        questionId: 'business_problem_b2b',
-        condition: (answers) => !['b2b', 'b2b2c', 'b2g', 'hybrid'].includes(answers.customer_type),
+        questionId: 'business_problem',
+        when: { field: 'customer_type', operator: 'not_in', value: ['b2b', 'b2b2c', 'b2g', 'hybrid'] },
         reason: 'B2C does not focus on business problems'
     },
     {
         questionId: 'current_solution',
-        condition: (answers) => !['b2b', 'b2b2c', 'b2g', 'hybrid'].includes(answers.customer_type),
+        when: { field: 'customer_type', operator: 'not_in', value: ['b2b', 'b2b2c', 'b2g', 'hybrid'] },
         reason: 'B2C does not analyze current business solutions'
     }
 ];
@@ -180,26 +201,26 @@ export const PHASE_4_SKIP_RULES: SkipRule[] = [
 /**
  * Phase 5: Revenue Model Skip Rules
  */
-export const PHASE_5_SKIP_RULES: SkipRule[] = [
+export const PHASE_5_SKIP_RULES: SkipRuleDefinition[] = [
     // Skip recurring-specific questions for one-time revenue
     {
         questionId: 'billing_frequency',
-        condition: (answers) => answers.revenue_model === 'one_time',
+        when: { field: 'revenue_model', operator: 'equals', value: 'one_time' },
         reason: 'One-time revenue does not have billing frequency'
     },
     {
         questionId: 'churn_rate',
-        condition: (answers) => answers.revenue_model === 'one_time',
+        when: { field: 'revenue_model', operator: 'equals', value: 'one_time' },
         reason: 'One-time revenue does not have churn'
     },
     {
         questionId: 'expansion_revenue',
-        condition: (answers) => answers.revenue_model === 'one_time',
+        when: { field: 'revenue_model', operator: 'equals', value: 'one_time' },
         reason: 'One-time revenue does not have expansion'
     },
     {
         questionId: 'nrr',
-        condition: (answers) => answers.revenue_model === 'one_time',
+        when: { field: 'revenue_model', operator: 'equals', value: 'one_time' },
         reason: 'Net Revenue Retention only applies to recurring'
     }
 ];
@@ -207,25 +228,25 @@ export const PHASE_5_SKIP_RULES: SkipRule[] = [
 /**
  * Phase 7: Operations Skip Rules
  */
-export const PHASE_7_SKIP_RULES: SkipRule[] = [
+export const PHASE_7_SKIP_RULES: SkipRuleDefinition[] = [
     {
         questionId: 'cofounder_skills',
-        condition: (answers) => answers.need_cofounder === 'solo',
+        when: { field: 'need_cofounder', operator: 'equals', value: 'solo' },
         reason: 'Solo founders do not need co-founder skills'
     },
     {
         questionId: 'hiring_priorities',
-        condition: (answers) => answers.team_size_year1 === 'just_me',
+        when: { field: 'team_size_year1', operator: 'equals', value: 'just_me' },
         reason: 'Solo operators do not have hiring priorities'
     },
     {
         questionId: 'employment_model',
-        condition: (answers) => answers.team_size_year1 === 'just_me',
+        when: { field: 'team_size_year1', operator: 'equals', value: 'just_me' },
         reason: 'Solo operators do not choose employment models'
     },
     {
-        questionId: 'manufacturing',
-        condition: (answers) => ['service', 'saas', 'agency', 'consulting'].includes(answers.business_model_type),
+        questionId: 'manufacturing_model',
+        when: { field: 'business_model_type', operator: 'in', value: ['service', 'saas', 'agency'] },
         reason: 'Service/SaaS businesses do not have manufacturing'
     }
 ];
@@ -233,15 +254,20 @@ export const PHASE_7_SKIP_RULES: SkipRule[] = [
 /**
  * Phase 8: GTM Skip Rules
  */
-export const PHASE_8_SKIP_RULES: SkipRule[] = [
+export const PHASE_8_SKIP_RULES: SkipRuleDefinition[] = [
     {
         questionId: 'sales_team',
-        condition: (answers) => answers.sales_model === 'self_serve',
+        when: { field: 'sales_model', operator: 'equals', value: 'self_serve' },
         reason: 'Self-serve model does not need sales team'
     },
     {
         questionId: 'commission_structure',
-        condition: (answers) => answers.sales_team === 'founder' || answers.sales_model === 'self_serve',
+        when: {
+            any: [
+                { field: 'sales_team', operator: 'equals', value: 'founder' },
+                { field: 'sales_model', operator: 'equals', value: 'self_serve' }
+            ]
+        },
         reason: 'No commission structure for founder-led or self-serve'
     }
 ];
@@ -249,45 +275,45 @@ export const PHASE_8_SKIP_RULES: SkipRule[] = [
 /**
  * Phase 9: Funding Skip Rules
  */
-export const PHASE_9_SKIP_RULES: SkipRule[] = [
+export const PHASE_9_SKIP_RULES: SkipRuleDefinition[] = [
     {
         questionId: 'funding_stage',
-        condition: (answers) => answers.external_funding === 'bootstrap',
+        when: { field: 'external_funding', operator: 'equals', value: 'bootstrap' },
         reason: 'Bootstrap does not have funding stages'
     },
     {
         questionId: 'capital_needed',
-        condition: (answers) => answers.external_funding === 'bootstrap',
+        when: { field: 'external_funding', operator: 'equals', value: 'bootstrap' },
         reason: 'Bootstrap does not need external capital'
     },
     {
         questionId: 'funds_allocation',
-        condition: (answers) => answers.external_funding === 'bootstrap',
+        when: { field: 'external_funding', operator: 'equals', value: 'bootstrap' },
         reason: 'Bootstrap does not allocate raised funds'
     },
     {
         questionId: 'equity_dilution',
-        condition: (answers) => answers.external_funding === 'bootstrap',
+        when: { field: 'external_funding', operator: 'equals', value: 'bootstrap' },
         reason: 'Bootstrap does not dilute equity'
     },
     {
         questionId: 'target_valuation',
-        condition: (answers) => answers.external_funding === 'bootstrap',
+        when: { field: 'external_funding', operator: 'equals', value: 'bootstrap' },
         reason: 'Bootstrap does not need valuation'
     },
     {
         questionId: 'investor_types',
-        condition: (answers) => answers.external_funding === 'bootstrap',
+        when: { field: 'external_funding', operator: 'equals', value: 'bootstrap' },
         reason: 'Bootstrap does not target investors'
     },
     {
         questionId: 'investor_connections',
-        condition: (answers) => answers.external_funding === 'bootstrap',
+        when: { field: 'external_funding', operator: 'equals', value: 'bootstrap' },
         reason: 'Bootstrap does not need investor connections'
     },
     {
         questionId: 'investor_conversations',
-        condition: (answers) => answers.external_funding === 'bootstrap',
+        when: { field: 'external_funding', operator: 'equals', value: 'bootstrap' },
         reason: 'Bootstrap does not have investor conversations'
     }
 ];
@@ -296,7 +322,7 @@ export const PHASE_9_SKIP_RULES: SkipRule[] = [
 // Master Skip Rules
 // ============================================================================
 
-export const ALL_SKIP_RULES: SkipRule[] = [
+export const SKIP_RULE_DEFINITIONS: SkipRuleDefinition[] = [
     ...PHASE_2_SKIP_RULES,
     ...PHASE_3_SKIP_RULES,
     ...PHASE_4_SKIP_RULES,
@@ -306,6 +332,42 @@ export const ALL_SKIP_RULES: SkipRule[] = [
     ...PHASE_9_SKIP_RULES
 ];
 
+/**
+ * Evaluate a declarative skip condition against the answers so far
+ */
+export function evaluateSkipWhen(when: SkipWhen, answers: Record<string, any>): boolean {
+    if ('any' in when) return when.any.some(part => evaluateSkipWhen(part, answers));
+    if ('all' in when) return when.all.every(part => evaluateSkipWhen(part, answers));
+
+    const answer = answers[when.field];
+    switch (when.operator) {
+        case 'equals':
+            return answer === when.value;
+        case 'not_equals':
+            return answer !== when.value;
+        case 'in':
+            return Array.isArray(when.value) && when.value.includes(answer);
+        case 'not_in':
+            return !Array.isArray(when.value) || !when.value.includes(answer);
+        default:
+            return false;
+    }
+}
+
+/**
+ * Every answer field a skip condition reads
+ */
+export function getSkipWhenFields(when: SkipWhen): string[] {
+    if ('any' in when) return Array.from(new Set(when.any.flatMap(getSkipWhenFields)));
+    if ('all' in when) return Array.from(new Set(when.all.flatMap(getSkipWhenFields)));
+    return [when.field];
+}
+
+export const ALL_SKIP_RULES: SkipRule[] = SKIP_RULE_DEFINITIONS.map(rule => ({
+    ...rule,
+    condition: (answers: Record<string, any>) => evaluateSkipWhen(rule.when, answers)
+}));
+
 // Create a lookup map for fast access
 const skipRulesMap = new Map<string, SkipRule>();
 ALL_SKIP_RULES.forEach(rule => {
@@ -412,6 +474,11 @@ export function countRemainingQuestions(
 // Branching Points
 // ============================================================================
 
+const FUNDING_QUESTIONS = [
+    'funding_stage', 'capital_needed', 'funds_allocation', 'equity_dilution',
+    'target_valuation', 'investor_types', 'investor_connections', 'investor_conversations'
+];
+
 export const BRANCHING_POINTS: Record<string, {
     questionId: string;
     branches: Record<string, string[]>;
@@ -423,7 +490,7 @@ export const BRANCHING_POINTS: Record<string, {
             'new': ['idea_status', 'business_idea_detail', 'target_industries', 'problem_to_solve'],
             'existing': ['existing_name', 'existing_website', 'existing_industry', 'business_start_date', 'current_revenue', 'legal_entity', 'current_products'],
             'idea_only': ['idea_status', 'target_industries'],
-            'informal': ['existing_name', 'idea_status']
+            'informal': ['idea_status', 'business_idea_detail', 'target_industries']
         },
         description: 'Determines whether to ask new business or existing business questions'
     },
@@ -431,7 +498,7 @@ export const BRANCHING_POINTS: Record<string, {
         questionId: 'customer_type',
         branches: {
             'b2c': ['target_age', 'target_gender', 'target_income', 'target_education', 'customer_interests'],
-            'b2b': ['company_size_target', 'target_industries_b2b', 'company_revenue_target', 'decision_maker', 'business_problem_b2b', 'current_solution'],
+            'b2b': ['company_size_target', 'target_industries_b2b', 'company_revenue_target', 'decision_maker', 'business_problem', 'current_solution'],
             'b2b2c': ['target_age', 'target_gender', 'company_size_target', 'target_industries_b2b'],
             'b2g': ['company_size_target', 'target_industries_b2b', 'decision_maker'],
             'hybrid': ['target_age', 'target_income', 'company_size_target', 'target_industries_b2b']
@@ -441,9 +508,10 @@ export const BRANCHING_POINTS: Record<string, {
     external_funding: {
         questionId: 'external_funding',
         branches: {
-            'yes': ['funding_stage', 'capital_needed', 'funds_allocation', 'equity_dilution', 'target_valuation', 'investor_types', 'investor_connections', 'investor_conversations'],
             'bootstrap': [], // Skip all funding questions
-            'later': ['capital_needed', 'funds_allocation'] // Some questions
+            'maybe': FUNDING_QUESTIONS,
+            'planning': FUNDING_QUESTIONS,
+            'raised': FUNDING_QUESTIONS
         },
         description: 'Determines whether to ask funding-related questions'
     }
@@ -1,396 +1,17 @@
 /**
- * Complete 147-Question Business Model Questionnaire - TypeScript Implementation
- * 
- * This is the COMPLETE implementation with all 11 phases and 147 questions.
- * Each question integrates with MCP engine for auto-population and agent/skill triggering.
- * 
- * Total Questions: 147
- * Total Phases: 11
- * Estimated Time: 60-90 minutes
+ * Complete Business Model Questionnaire - compatibility entry point
+ *
+ * The questionnaire is defined once, in ./questions.ts (questions, types, options, validation),
+ * with routing in lib/orchestrator/question-config.ts and skip rules / branching points in
+ * lib/orchestrator/skip-logic.ts. lib/orchestrator/questionnaire-definition.ts joins them.
+ * This module only re-exports ./questions.ts so older imports keep working.
  */
 
-export enum QuestionType {
-    TEXT = 'text',
-    NUMBER = 'number',
-    EMAIL = 'email',
-    PHONE = 'phone',
-    CHOICE = 'choice',
-    MULTI_SELECT = 'multiselect',
-    SLIDER = 'slider',
-    RANGE = 'range',
-    DATE = 'date',
-    URL = 'url',
-    LIST = 'list',
-    AMOUNT = 'amount',
-    PERCENTAGE = 'percentage',
-    MILESTONE = 'milestone',
-    RANKING = 'ranking',
-    CHECKPOINT = 'checkpoint',
-    TEXTAREA = 'textarea'
-}
-
-export interface QuestionOption {
-    value: string
-    label: string
-    description?: string
-}
-
-export interface Question {
-    id: string
-    question: string
-    type: QuestionType
-    options?: QuestionOption[]
-    validation?: string
-    mcp_trigger?: string
-    condition?: string
-    placeholder?: string
-    description?: string
-    helper_text?: string
-    estimated_time_next?: string
-    required?: boolean
-}
-
-export interface Phase {
-    id: string
-    name: string
-    description: string
-    estimated_time: string
-    questions: Question[]
-}
+import { ALL_PHASES } from './questions'
 
-// ==========================================
-// ALL 11 PHASES WITH 147 QUESTIONS
-// ==========================================
-
-// Import all phases from your complete code
-// Phase 1: 6 questions
-// Phase 2: 14 questions  
-// Phase 3: 19 questions
-// Phase 4: 20 questions
-// Phase 5: 20 questions
-// Phase 6: 7 questions
-// Phase 7: 18 questions (Note: Your code shows 19 in operations)
-// Phase 8: 13 questions
-// Phase 9: 10 questions
-// Phase 10: 5 questions
-// Phase 11: 8 questions
-// TOTAL: 140 questions (will add 7 more to reach 147)
-
-export const ALL_PHASES: Phase[] = []
+export * from './questions'
 
 // Helper to count total questions
 export function getTotalQuestions(): number {
     return ALL_PHASES.reduce((sum, phase) => sum + phase.questions.length, 0)
 }
-
-// Helper functions
-export function getQuestionsByPhase(phaseNumber: number): Question[] {
-    if (phaseNumber < 1 || phaseNumber > ALL_PHASES.length) {
-        return []
-    }
-    return ALL_PHASES[phaseNumber - 1].questions
-}
-
-export function getQuestionById(questionId: string): Question | undefined {
-    for (const phase of ALL_PHASES) {
-        const question = phase.questions.find(q => q.id === questionId)
-        if (question) return question
-    }
-    return undefined
-}
-
-export function getPhaseById(phaseId: string): Phase | undefined {
-    return ALL_PHASES.find(p => p.id === phaseId)
-}
-
-// ==========================================
-// STATE MANAGEMENT
-// ==========================================
-
-export interface UserResponse {
-    question_id: string
-    answer: any
-    timestamp: Date
-}
-
-export interface QuestionnaireState {
-    user_id: string
-    current_phase: string
-    current_question_index: number
-    responses: Record<string, any>
-    completed_phases: string[]
-    paused: boolean
-    created_at: Date
-    updated_at: Date
-}
-
-// ==========================================
-// QUESTIONNAIRE MANAGER
-// ==========================================
-
-export class BusinessModelQuestionnaire {
-    private phases: Record<string, Phase> = {}
-    private userSessions: Record<string, QuestionnaireState> = {}
-
-    constructor() {
-        ALL_PHASES.forEach(phase => {
-            this.phases[phase.id] = phase
-        })
-    }
-
-    startSession(userId: string): QuestionnaireState {
-        const now = new Date()
-        const session: QuestionnaireState = {
-            user_id: userId,
-            current_phase: 'auth',
-            current_question_index: 0,
-            responses: {},
-            completed_phases: [],
-            paused: false,
-            created_at: now,
-            updated_at: now
-        }
-        this.userSessions[userId] = session
-        return session
-    }
-
-    getCurrentQuestion(userId: string): Question | undefined {
-        const session = this.userSessions[userId]
-        if (!session) return undefined
-
-        const phase = this.phases[session.current_phase]
-        if (!phase) return undefined
-
-        if (session.current_question_index < phase.questions.length) {
-            return phase.questions[session.current_question_index]
-        }
-        return undefined
-    }
-
-    submitAnswer(userId: string, answer: any): {
-        success: boolean
-        message: string
-        nextQuestion?: Question
-    } {
-        const session = this.userSessions[userId]
-        if (!session) {
-            return { success: false, message: 'Session not found' }
-        }
-
-        const currentQuestion = this.getCurrentQuestion(userId)
-        if (!currentQuestion) {
-            return { success: false, message: 'No current question' }
-        }
-
-        // Handle checkpoint questions
-        if (currentQuestion.type === QuestionType.CHECKPOINT) {
-            if (answer === 'pause') {
-                session.paused = true
-                return { success: false, message: 'Session paused' }
-            } else if (answer === 'continue') {
-                session.current_question_index++
-                session.updated_at = new Date()
-
-                const phase = this.phases[session.current_phase]
-                if (session.current_question_index >= phase.questions.length) {
-                    return this.moveToNextPhase(userId)
-                }
-
-                const nextQuestion = this.getCurrentQuestion(userId)
-                return {
-                    success: true,
-                    message: 'Checkpoint passed',
-                    nextQuestion
-                }
-            }
-        }
-
-        // Store answer
-        session.responses[currentQuestion.id] = answer
-        session.current_question_index++
-        session.updated_at = new Date()
-
-        // Check if phase completed
-        const phase = this.phases[session.current_phase]
-        if (session.current_question_index >= phase.questions.length) {
-            return this.moveToNextPhase(userId)
-        }
-
-        const nextQuestion = this.getCurrentQuestion(userId)
-        return {
-            success: true,
-            message: 'Answer submitted',
-            nextQuestion
-        }
-    }
-
-    private moveToNextPhase(userId: string): {
-        success: boolean
-        message: string
-        nextQuestion?: Question
-    } {
-        const session = this.userSessions[userId]
-        if (!session) {
-            return { success: false, message: 'Session not found' }
-        }
-
-        if (!session.completed_phases.includes(session.current_phase)) {
-            session.completed_phases.push(session.current_phase)
-        }
-
-        const phaseOrder = [
-            'auth', 'discovery', 'context', 'market', 'revenue',
-            'competition', 'operations', 'gtm', 'funding', 'risk', 'final'
-        ]
-
-        const currentIndex = phaseOrder.indexOf(session.current_phase)
-        if (currentIndex + 1 < phaseOrder.length) {
-            const nextPhaseId = phaseOrder[currentIndex + 1]
-            session.current_phase = nextPhaseId
-            session.current_question_index = 0
-            session.updated_at = new Date()
-
-            const nextQuestion = this.getCurrentQuestion(userId)
-            return {
-                success: true,
-                message: `Moved to ${nextPhaseId}`,
-                nextQuestion
-            }
-        } else {
-            return { success: false, message: 'Questionnaire completed' }
-        }
-    }
-
-    getProgress(userId: string) {
-        const session = this.userSessions[userId]
-        if (!session) return null
-
-        const totalQuestions = getTotalQuestions()
-        let completedCount = 0
-
-        session.completed_phases.forEach(phaseId => {
-            completedCount += this.phases[phaseId].questions.length
-        })
-
-        const currentPhase = this.phases[session.current_phase]
-        completedCount += session.current_question_index
-
-        return {
-            current_phase: session.current_phase,
-            current_question: session.current_question_index + 1,
-            total_in_current_phase: currentPhase.questions.length,
-            completed_phases: session.completed_phases,
-            total_phases: ALL_PHASES.length,
-            answered_questions: Object.keys(session.responses).length,
-            total_questions: totalQuestions,
-            progress_percentage: parseFloat(((completedCount / totalQuestions) * 100).toFixed(1)),
-            paused: session.paused
-        }
-    }
-}
-
-// ==========================================
-// BUSINESS MODEL GENERATOR
-// ==========================================
-
-export class BusinessModelGenerator {
-    static generateExecutiveSummary(responses: Record<string, any>) {
-        const targetIndustries = responses.target_industries || []
-        const industry = Array.isArray(targetIndustries) && targetIndustries.length > 0
-            ? targetIndustries[0]
-            : responses.existing_industry || 'General'
-
-        return {
-            business_name: responses.existing_name || 'New Venture',
-            industry: industry,
-            business_type: responses.business_model_type || 'Not specified',
-            target_market: responses.primary_market || 'Not specified',
-            customer_type: responses.customer_type || 'Not specified',
-            value_proposition: responses.business_idea_detail || responses.customer_problem || 'Not specified',
-            revenue_model: responses.revenue_model || 'Not specified',
-            year1_target: responses.revenue_target_year1 || 'Not specified',
-            competitive_advantage: responses.competitive_advantage || 'Not specified',
-            team_size: responses.team_size_year1 || 'Solo',
-            funding_needed: responses.capital_needed || 'Bootstrapping',
-            key_risks: responses.key_risks || [],
-            launch_timeline: responses.launch_timeline || 'Not specified'
-        }
-    }
-
-    static generateFinancialProjections(responses: Record<string, any>) {
-        const year1Revenue = typeof responses.revenue_target_year1 === 'number'
-            ? responses.revenue_target_year1
-            : 0
-        const growthRate = responses.growth_rate || '50-100%'
-
-        let growth = 0.50
-        if (growthRate.includes('20-40')) growth = 0.30
-        if (growthRate.includes('50-100')) growth = 0.75
-        if (growthRate.includes('100-200')) growth = 1.50
-        if (growthRate.includes('200+')) growth = 2.00
-
-        const cac = typeof responses.target_cac === 'number' ? responses.target_cac : 0
-        const ltv = typeof responses.ltv === 'number' ? responses.ltv : 0
-
-        return {
-            year1: year1Revenue,
-            year2: year1Revenue * (1 + growth),
-            year3: year1Revenue * (1 + growth) ** 2,
-            year4: year1Revenue * (1 + growth) ** 3,
-            year5: year1Revenue * (1 + growth) ** 4,
-            gross_margin: typeof responses.gross_margin === 'number' ? responses.gross_margin : 0.50,
-            target_cac: cac,
-            ltv: ltv,
-            ltv_cac_ratio: cac > 0 ? ltv / cac : 0
-        }
-    }
-
-    static generateCompleteModel(userId: string, responses: Record<string, any>) {
-        return {
-            executive_summary: this.generateExecutiveSummary(responses),
-            financial_projections: this.generateFinancialProjections(responses),
-            market_analysis: {
-                target_customer: {
-                    type: responses.customer_type || '',
-                    demographics: {
-                        age: responses.target_age || '',
-                        income: responses.target_income || '',
-                        location: responses.target_location || ''
-                    }
-                },
-                market_size: 'Auto-generated based on inputs',
-                competition: responses.top_competitors || []
-            },
-            operations_plan: {
-                team_structure: responses.team_size_year1 || '',
-                key_roles: responses.hiring_priorities || [],
-                technology: responses.tech_stack || [],
-                vendors: responses.key_vendors || []
-            },
-            go_to_market: {
-                channels: responses.acquisition_channels || [],
-                budget: responses.marketing_budget || '',
-                sales_model: responses.sales_model || '',
-                launch_timeline: responses.launch_timeline || ''
-            },
-            funding_strategy: {
-                needed: responses.capital_needed || '',
-                type: responses.funding_stage || '',
-                use_of_funds: responses.funds_allocation || '',
-                valuation: responses.target_valuation || ''
-            },
-            risk_assessment: {
-                key_risks: responses.key_risks || [],
-                mitigations: responses.risk_mitigation || '',
-                assumptions: responses.key_assumptions || []
-            },
-            metadata: {
-                generated_at: new Date().toISOString(),
-                user_id: userId,
-                question_count: Object.keys(responses).length
-            }
-        }
-    }
-}
-
-console.log(`✅ Questionnaire system loaded: ${getTotalQuestions()} questions across ${ALL_PHASES.length} phases`)
@@ -37,7 +37,6 @@ export interface Question {
   options?: QuestionOption[]
   validation?: string
   mcp_trigger?: string
-  condition?: string
   placeholder?: string
   description?: string
   helper_text?: string
@@ -109,7 +108,7 @@ export const PHASE_1_AUTH: Phase = {
       question: 'What is your current location?',
       type: QuestionType.TEXT,
       placeholder: 'City, State, Country',
-      mcp_trigger: 'detect_location',
+      mcp_trigger: 'location_defaults',
       required: true
     },
     {
@@ -365,15 +364,13 @@ export const PHASE_3_CONTEXT: Phase = {
         { value: 'vague', label: 'Vague idea' },
         { value: 'need_suggestions', label: 'No idea, need suggestions' },
         { value: 'multiple', label: 'Multiple ideas' }
-      ],
-      condition: "context.business_path != 'existing'"
+      ]
     },
     {
       id: 'business_idea_detail',
       question: 'Describe your business idea in detail:',
       type: QuestionType.TEXTAREA,
-      placeholder: 'What product/service will you offer? Who are your customers? What problem does this solve?',
-      condition: "context.business_path != 'existing'"
+      placeholder: 'What product/service will you offer? Who are your customers? What problem does this solve?'
     },
     {
       id: 'problem_to_solve',
@@ -403,8 +400,7 @@ export const PHASE_3_CONTEXT: Phase = {
         { value: 'sports', label: 'Sports' },
         { value: 'beauty', label: 'Beauty' },
         { value: 'travel', label: 'Travel' }
-      ],
-      condition: "context.business_path != 'existing'"
+      ]
     },
     {
       id: 'business_model_type',
@@ -462,21 +458,18 @@ export const PHASE_3_CONTEXT: Phase = {
       id: 'existing_name',
       question: 'What is your business name?',
       type: QuestionType.TEXT,
-      placeholder: 'If existing business',
-      condition: "context.business_path == 'existing'"
+      placeholder: 'If existing business'
     },
     {
       id: 'existing_website',
       question: 'What is your business website URL?',
       type: QuestionType.URL,
-      placeholder: 'https://yourbusiness.com',
-      condition: "context.business_path == 'existing'"
+      placeholder: 'https://yourbusiness.com'
     },
     {
       id: 'existing_industry',
       question: 'What industry is your business in?',
       type: QuestionType.CHOICE,
-      condition: "context.business_path == 'existing'",
       options: [
         { value: 'tech', label: 'Technology' },
         { value: 'finance', label: 'Finance' },
@@ -493,8 +486,7 @@ export const PHASE_3_CONTEXT: Phase = {
     {
       id: 'business_start_date',
       question: 'When did you start this business?',
-      type: QuestionType.DATE,
-      condition: "context.business_path == 'existing'"
+      type: QuestionType.DATE
     },
     {
       id: 'current_revenue',
@@ -510,14 +502,12 @@ export const PHASE_3_CONTEXT: Phase = {
         { value: '1-5cr', label: '₹1-5 Cr' },
         { value: '5-10cr', label: '₹5-10 Cr' },
         { value: '10cr+', label: '₹10 Cr+' }
-      ],
-      condition: "context.business_path == 'existing'"
+      ]
     },
     {
       id: 'legal_entity',
       question: 'Is your business registered? What type?',
       type: QuestionType.CHOICE,
-      condition: "context.business_path == 'existing'",
       options: [
         { value: 'not_registered', label: 'Not registered' },
         { value: 'sole_proprietorship', label: 'Sole Proprietorship' },
@@ -532,8 +522,7 @@ export const PHASE_3_CONTEXT: Phase = {
       id: 'current_products',
       question: 'What are your current products or services?',
       type: QuestionType.LIST,
-      placeholder: 'List your main offerings',
-      condition: "context.business_path == 'existing'"
+      placeholder: 'List your main offerings'
     },
     {
       id: 'team_size_current',
@@ -613,8 +602,7 @@ export const PHASE_4_MARKET: Phase = {
         { value: '6-12m', label: '6-12 months' },
         { value: '1-2y', label: '1-2 years' },
         { value: '2-5y', label: '2-5 years' }
-      ],
-      condition: 'context.expansion_plan == \'yes\''
+      ]
     },
     {
       id: 'international_plan',
@@ -638,8 +626,7 @@ export const PHASE_4_MARKET: Phase = {
         { value: 'middle_east', label: 'Middle East' },
         { value: 'africa', label: 'Africa' },
         { value: 'latin_america', label: 'Latin America' }
-      ],
-      condition: 'context.international_plan in [\'yes\', \'maybe_later\']'
+      ]
     },
     {
       id: 'customer_type',
@@ -666,8 +653,7 @@ export const PHASE_4_MARKET: Phase = {
         { value: 'middle_age', label: 'Middle Age' },
         { value: 'seniors', label: 'Seniors' },
         { value: 'all_ages', label: 'All ages' }
-      ],
-      condition: 'context.customer_type in [\'b2c\', \'b2b2c\', \'hybrid\']'
+      ]
     },
     {
       id: 'target_gender',
@@ -678,8 +664,7 @@ export const PHASE_4_MARKET: Phase = {
         { value: 'female', label: 'Primarily Female' },
         { value: 'gender_neutral', label: 'Gender-neutral' },
         { value: 'lgbtq', label: 'Non-binary/LGBTQ+ focused' }
-      ],
-      condition: 'context.customer_type in [\'b2c\', \'b2b2c\', \'hybrid\']'
+      ]
     },
     {
       id: 'target_income',
@@ -693,8 +678,7 @@ export const PHASE_4_MARKET: Phase = {
         { value: 'affluent', label: 'Affluent' },
         { value: 'hnw', label: 'High Net Worth' },
         { value: 'all', label: 'All' }
-      ],
-      condition: 'context.customer_type in [\'b2c\', \'b2b2c\', \'hybrid\']'
+      ]
     },
     {
       id: 'target_location',
@@ -720,8 +704,7 @@ export const PHASE_4_MARKET: Phase = {
         { value: 'college', label: 'College graduate' },
         { value: 'postgraduate', label: 'Postgraduate' },
         { value: 'not_relevant', label: 'Not relevant' }
-      ],
-      condition: 'context.customer_type in [\'b2c\', \'b2b2c\', \'hybrid\']'
+      ]
     },
     {
       id: 'customer_interests',
@@ -741,8 +724,7 @@ export const PHASE_4_MARKET: Phase = {
         { value: 'home_design', label: 'Home Design' },
         { value: 'gaming', label: 'Gaming' },
         { value: 'sustainability', label: 'Sustainability' }
-      ],
-      condition: 'context.customer_type in [\'b2c\', \'b2b2c\', \'hybrid\']'
+      ]
     },
     {
       id: 'customer_problem',
@@ -762,8 +744,7 @@ export const PHASE_4_MARKET: Phase = {
         { value: 'enterprise', label: 'Enterprise' },
         { value: 'large_enterprise', label: 'Large Enterprise' },
         { value: 'all_sizes', label: 'All sizes' }
-      ],
-      condition: 'context.customer_type in [\'b2b\', \'b2b2c\', \'b2g\', \'hybrid\']'
+      ]
     },
     {
       id: 'target_industries_b2b',
@@ -780,8 +761,7 @@ export const PHASE_4_MARKET: Phase = {
         { value: 'agriculture', label: 'Agriculture' },
         { value: 'real_estate', label: 'Real Estate' },
         { value: 'other', label: 'Other' }
-      ],
-      condition: 'context.customer_type in [\'b2b\', \'b2b2c\', \'b2g\', \'hybrid\']'
+      ]
     },
     {
       id: 'company_revenue_target',
@@ -794,8 +774,7 @@ export const PHASE_4_MARKET: Phase = {
         { value: 'large', label: 'Large' },
         { value: 'enterprise', label: 'Enterprise' },
         { value: 'all', label: 'All' }
-      ],
-      condition: 'context.customer_type in [\'b2b\', \'b2b2c\', \'b2g\', \'hybrid\']'
+      ]
     },
     {
       id: 'decision_maker',
@@ -808,15 +787,13 @@ export const PHASE_4_MARKET: Phase = {
         { value: 'individual', label: 'Individual' },
         { value: 'procurement', label: 'Procurement' },
         { value: 'multiple', label: 'Multiple' }
-      ],
-      condition: 'context.customer_type in [\'b2b\', \'b2b2c\', \'b2g\', \'hybrid\']'
+      ]
     },
     {
       id: 'business_problem',
       question: 'What is the primary business problem you solve for them?',
       type: QuestionType.TEXTAREA,
-      placeholder: 'Describe the business problem or need',
-      condition: 'context.customer_type in [\'b2b\', \'b2b2c\', \'b2g\', \'hybrid\']'
+      placeholder: 'Describe the business problem or need'
     },
     {
       id: 'current_solution',
@@ -830,8 +807,7 @@ export const PHASE_4_MARKET: Phase = {
         { value: 'outsourced', label: 'Outsourced' },
         { value: 'excel', label: 'Excel' },
         { value: 'multiple_tools', label: 'Multiple tools' }
-      ],
-      condition: 'context.customer_type in [\'b2b\', \'b2b2c\', \'b2g\', \'hybrid\']'
+      ]
     },
     {
       id: 'checkpoint_market',
@@ -1071,7 +1047,7 @@ export const PHASE_5_REVENUE: Phase = {
 }
 
 // ==========================================
-// PHASE 6: COMPETITIVE ANALYSIS (7 questions)
+// PHASE 6: COMPETITIVE ANALYSIS (10 questions)
 // ==========================================
 
 export const PHASE_6_COMPETITION: Phase = {
@@ -1086,6 +1062,13 @@ export const PHASE_6_COMPETITION: Phase = {
       question: 'Who are your top 3-5 direct competitors?',
       placeholder: 'List competitor names and URLs'
     },
+    {
+      id: 'competitor_details',
+      question: 'What does each competitor charge, and which key features do they offer?',
+      type: QuestionType.TEXTAREA,
+      placeholder: 'One line per competitor, e.g. Zoho Books: ₹749/month; invoicing, GST filing, inventory; ease of use 4/5',
+      helper_text: 'Used for the feature and pricing comparison. Add "Us: ..." for your own ratings, or upload their pricing pages instead'
+    },
     {
       id: 'indirect_competitors',
       question: 'Are there indirect competitors or substitute solutions?',
@@ -1099,6 +1082,12 @@ export const PHASE_6_COMPETITION: Phase = {
       placeholder: 'What makes you different and better?',
       required: true
     },
+    {
+      id: 'key_features',
+      question: 'What are the key features of your product or service?',
+      type: QuestionType.LIST,
+      placeholder: 'Use the same names as in the competitor details so they line up in the comparison'
+    },
     {
       id: 'competitor_weaknesses',
       question: 'What are key weaknesses of your competitors that you can exploit?',
@@ -1148,6 +1137,21 @@ export const PHASE_6_COMPETITION: Phase = {
         { value: 'hybrid', label: 'Hybrid' }
       ]
     },
+    {
+      id: 'positioning_axes',
+      question: 'Which two dimensions should your positioning map compare?',
+      type: QuestionType.MULTI_SELECT,
+      options: [
+        { value: 'price', label: 'Price' },
+        { value: 'feature_breadth', label: 'Feature breadth' },
+        { value: 'ease_of_use', label: 'Ease of use' },
+        { value: 'customer_service', label: 'Customer service' },
+        { value: 'technology', label: 'Technology' },
+        { value: 'specialization', label: 'Specialization' },
+        { value: 'market_presence', label: 'Market presence' }
+      ],
+      helper_text: 'Pick two. Price and feature breadth come from the details above; other dimensions need ratings like "ease of use 4/5"'
+    },
     {
       id: 'checkpoint_competition',
       question: 'Great competitive analysis! Ready to plan operations and team?',
@@ -5,6 +5,7 @@
 
 import Anthropic from '@anthropic-ai/sdk';
 import { logger } from '@/backend/utils/logger';
+import { getUsageBudget } from '@/backend/services/usage-budget';
 
 export interface ClaudeMessage {
     role: 'user' | 'assistant';
@@ -45,6 +46,13 @@ export interface ClaudeResponse {
     };
 }
 
+// Session/user a call is billed to; usage is recorded and the budget enforced when given
+export interface ClaudeUsageScope {
+    sessionId?: string;
+    userId?: string;
+    source: string; // Generator or step name shown in usage reports
+}
+
 export class ClaudeService {
     private client: Anthropic;
     private model: string;
@@ -72,8 +80,14 @@ export class ClaudeService {
         messages: ClaudeMessage[],
         tools?: ClaudeTool[],
         temperature?: number,
-        maxTokens?: number
+        maxTokens?: number,
+        scope?: ClaudeUsageScope
     ): Promise<ClaudeResponse> {
+        // Refuse the call once the session budget is spent
+        if (scope) {
+            getUsageBudget().enforce(scope.sessionId, scope.userId);
+        }
+
         try {
             logger.info('Sending request to Claude', {
                 model: this.model,
@@ -97,6 +111,20 @@ export class ClaudeService {
                 outputTokens: response.usage.output_tokens
             });
 
+            if (scope) {
+                getUsageBudget().record({
+                    sessionId: scope.sessionId,
+                    userId: scope.userId,
+                    provider: 'anthropic',
+                    model: response.model || this.model,
+                    source: scope.source,
+                    usage: {
+                        input_tokens: response.usage.input_tokens,
+                        output_tokens: response.usage.output_tokens
+                    }
+                });
+            }
+
             return response as ClaudeResponse;
         } catch (error) {
             logger.error('Claude API error', error);
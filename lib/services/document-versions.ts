@@ -0,0 +1,325 @@
+/**
+ * Document Version Store
+ * Keeps every generated document as a version in artifact storage together with a snapshot of
+ * the questionnaire answers that produced it, so regenerations can be compared and rolled back.
+ * Also holds each session's locked sections (see lib/workflows/document-sections.ts).
+ */
+
+import { getArtifactStorage } from '@/backend/services/artifact-storage';
+import { ArtifactLink } from '@/backend/utils/types';
+import { logger } from '@/backend/utils/logger';
+import { diffMarkdown, MarkdownDiff } from '@/lib/utils/markdown-diff';
+import { DocumentAnswers, GeneratedDocument } from '@/lib/workflows/document-generation-workflow';
+
+const MARKDOWN_CONTENT_TYPE = 'text/markdown; charset=utf-8';
+const ANSWERS_SNAPSHOT_TYPE = 'answers_snapshot';
+const SECTION_LOCKS_TYPE = 'section_locks';
+
+export type VersionOrigin = 'generated' | 'restored' | 'edited' | 'section_regenerated';
+
+export interface DocumentVersion {
+    documentType: string;
+    version: number;
+    key: string;
+    createdAt: string;
+    checksum: string;
+    sizeBytes: number;
+    origin: VersionOrigin;
+    restoredFrom?: number; // Version whose content was restored
+    section?: string; // Section edited or regenerated
+    answersKey?: string; // Artifact key of the answer snapshot that produced the content
+    url: string;
+    expiresAt: string;
+}
+
+export interface StoredDocumentVersion {
+    version: DocumentVersion;
+    document: GeneratedDocument;
+    answers: DocumentAnswers | null; // Snapshot the content was generated from
+}
+
+export interface VersionChange {
+    origin: VersionOrigin;
+    answersKey?: string;
+    restoredFrom?: number;
+    section?: string;
+}
+
+export interface AnswerChange {
+    question: string;
+    before: any;
+    after: any;
+}
+
+export interface DocumentVersionDiff extends MarkdownDiff {
+    documentType: string;
+    from: DocumentVersion;
+    to: DocumentVersion;
+    answerChanges: AnswerChange[];
+}
+
+export class DocumentVersionStore {
+    private lockUpdates: Map<string, Promise<unknown>> = new Map(); // Per-session chain, so lock changes don't overwrite each other
+
+    /**
+     * Store one generation run: the answer snapshot, then a new version of each document
+     */
+    async saveGeneration(
+        sessionId: string,
+        answers: DocumentAnswers,
+        documents: GeneratedDocument[]
+    ): Promise<DocumentVersion[]> {
+        const answersKey = await this.saveAnswers(sessionId, answers);
+        const versions = await Promise.all(documents.map(doc => this.saveVersion(sessionId, doc.type, doc.content, {
+            origin: 'generated',
+            answersKey
+        })));
+
+        logger.info('Document versions stored', {
+            sessionId,
+            versions: versions.map(version => `${version.documentType}@v${version.version}`)
+        });
+        return versions;
+    }
+
+    /**
+     * Snapshot the answers a document was generated from; returns the snapshot's artifact key
+     */
+    async saveAnswers(sessionId: string, answers: DocumentAnswers): Promise<string> {
+        const snapshot = await getArtifactStorage().save(Buffer.from(JSON.stringify(answers, null, 2), 'utf-8'), {
+            document_type: ANSWERS_SNAPSHOT_TYPE,
+            file_name: 'answers.json',
+            content_type: 'application/json',
+            session_id: sessionId
+        });
+        return snapshot.key;
+    }
+
+    /**
+     * Store new content for a document as its next version
+     */
+    async saveVersion(
+        sessionId: string,
+        documentType: string,
+        content: string,
+        change: VersionChange
+    ): Promise<DocumentVersion> {
+        const attributes: Record<string, string> = { origin: change.origin };
+        if (change.answersKey) attributes.answers_key = change.answersKey;
+        if (change.restoredFrom !== undefined) attributes.restored_from = String(change.restoredFrom);
+        if (change.section) attributes.section = change.section;
+
+        const stored = await getArtifactStorage().save(Buffer.from(content, 'utf-8'), {
+            document_type: documentType,
+            file_name: `${documentType}.md`,
+            content_type: MARKDOWN_CONTENT_TYPE,
+            session_id: sessionId,
+            attributes
+        });
+        return toDocumentVersion(stored);
+    }
+
+    /**
+     * Versions for a session (optionally one document type), newest first
+     */
+    async listVersions(sessionId: string, documentType?: string): Promise<DocumentVersion[]> {
+        const artifacts = await getArtifactStorage().list(sessionId, documentType);
+        return artifacts
+            .filter(artifact => artifact.attributes?.origin !== undefined)
+            .map(toDocumentVersion);
+    }
+
+    /**
+     * The newest version of every document type
+     */
+    async getLatestDocuments(sessionId: string): Promise<{ documents: GeneratedDocument[]; versions: DocumentVersion[] }> {
+        const latest = new Map<string, DocumentVersion>();
+        (await this.listVersions(sessionId)).forEach(version => {
+            if (!latest.has(version.documentType)) latest.set(version.documentType, version);
+        });
+
+        const documents: GeneratedDocument[] = [];
+        const versions: DocumentVersion[] = [];
+        for (const version of Array.from(latest.values())) {
+            const content = await this.readContent(version.key);
+            if (content === null) continue;
+            documents.push(toGeneratedDocument(version.documentType, content));
+            versions.push(version);
+        }
+        return { documents, versions };
+    }
+
+    /**
+     * One version's content and the answers it was generated from
+     */
+    async getVersion(
+        sessionId: string,
+        documentType: string,
+        version: number
+    ): Promise<StoredDocumentVersion | null> {
+        const found = (await this.listVersions(sessionId, documentType)).find(entry => entry.version === version);
+        if (!found) return null;
+
+        const content = await this.readContent(found.key);
+        if (content === null) return null;
+
+        return {
+            version: found,
+            document: toGeneratedDocument(documentType, content),
+            answers: found.answersKey ? await this.readAnswers(found.answersKey) : null
+        };
+    }
+
+    /**
+     * The newest version of one document, with its content and answers
+     */
+    async getLatestVersion(
+        sessionId: string,
+        documentType: string
+    ): Promise<StoredDocumentVersion | null> {
+        const [latest] = await this.listVersions(sessionId, documentType);
+        return latest ? this.getVersion(sessionId, documentType, latest.version) : null;
+    }
+
+    /**
+     * Section-level diff between two versions, plus the answers that changed in between
+     */
+    async diff(
+        sessionId: string,
+        documentType: string,
+        fromVersion: number,
+        toVersion: number
+    ): Promise<DocumentVersionDiff | null> {
+        const [from, to] = await Promise.all([
+            this.getVersion(sessionId, documentType, fromVersion),
+            this.getVersion(sessionId, documentType, toVersion)
+        ]);
+        if (!from || !to) return null;
+
+        return {
+            documentType,
+            from: from.version,
+            to: to.version,
+            ...diffMarkdown(from.document.content, to.document.content),
+            answerChanges: diffAnswers(from.answers || {}, to.answers || {})
+        };
+    }
+
+    /**
+     * Store an older version's content as the newest version
+     */
+    async restore(sessionId: string, documentType: string, version: number): Promise<DocumentVersion | null> {
+        const found = await this.getVersion(sessionId, documentType, version);
+        if (!found) return null;
+
+        const restored = await this.saveVersion(sessionId, documentType, found.document.content, {
+            origin: 'restored',
+            restoredFrom: version,
+            answersKey: found.version.answersKey
+        });
+
+        logger.info('Document version restored', { sessionId, documentType, from: version, to: restored.version });
+        return restored;
+    }
+
+    /**
+     * Section ids locked against regeneration for one document
+     */
+    async getLockedSections(sessionId: string, documentType: string): Promise<string[]> {
+        return (await this.readLocks(sessionId))[documentType] || [];
+    }
+
+    /**
+     * Lock or unlock a section; returns the document's locked section ids.
+     * Updates for the same session run one after another (read-modify-write of one locks file).
+     */
+    async setSectionLock(sessionId: string, documentType: string, sectionId: string, locked: boolean): Promise<string[]> {
+        const previous = this.lockUpdates.get(sessionId) || Promise.resolve();
+        const updated = previous.catch(() => undefined).then(() => this.updateSectionLock(sessionId, documentType, sectionId, locked));
+        this.lockUpdates.set(sessionId, updated);
+        try {
+            return await updated;
+        } finally {
+            if (this.lockUpdates.get(sessionId) === updated) this.lockUpdates.delete(sessionId);
+        }
+    }
+
+    private async updateSectionLock(sessionId: string, documentType: string, sectionId: string, locked: boolean): Promise<string[]> {
+        const locks = await this.readLocks(sessionId);
+        const current = (locks[documentType] || []).filter(id => id !== sectionId);
+        locks[documentType] = locked ? current.concat(sectionId) : current;
+
+        await getArtifactStorage().save(Buffer.from(JSON.stringify(locks, null, 2), 'utf-8'), {
+            document_type: SECTION_LOCKS_TYPE,
+            file_name: 'section_locks.json',
+            content_type: 'application/json',
+            session_id: sessionId
+        });
+
+        logger.info('Section lock updated', { sessionId, documentType, sectionId, locked });
+        return locks[documentType];
+    }
+
+    private async readLocks(sessionId: string): Promise<Record<string, string[]>> {
+        const [latest] = await getArtifactStorage().list(sessionId, SECTION_LOCKS_TYPE);
+        const content = latest ? await this.readContent(latest.key) : null;
+        return content === null ? {} : JSON.parse(content);
+    }
+
+    private async readContent(key: string): Promise<string | null> {
+        const stored = await getArtifactStorage().get(key);
+        return stored ? stored.body.toString('utf-8') : null;
+    }
+
+    private async readAnswers(key: string): Promise<DocumentAnswers | null> {
+        const content = await this.readContent(key);
+        return content === null ? null : JSON.parse(content);
+    }
+}
+
+function toDocumentVersion(artifact: ArtifactLink): DocumentVersion {
+    const attributes = artifact.attributes || {};
+    return {
+        documentType: artifact.document_type,
+        version: artifact.version,
+        key: artifact.key,
+        createdAt: artifact.created_at,
+        checksum: artifact.checksum,
+        sizeBytes: artifact.size_bytes,
+        origin: (attributes.origin || 'generated') as VersionOrigin,
+        restoredFrom: attributes.restored_from ? Number(attributes.restored_from) : undefined,
+        section: attributes.section,
+        answersKey: attributes.answers_key,
+        url: artifact.url,
+        expiresAt: artifact.expires_at
+    };
+}
+
+function toGeneratedDocument(type: string, content: string): GeneratedDocument {
+    return {
+        type,
+        content,
+        wordCount: content.split(/\s+/).length,
+        charCount: content.length
+    };
+}
+
+/**
+ * Questions whose answers were added, removed or changed between two snapshots
+ */
+function diffAnswers(before: DocumentAnswers, after: DocumentAnswers): AnswerChange[] {
+    const questions = Array.from(new Set(Object.keys(before).concat(Object.keys(after)))).sort();
+    return questions
+        .filter(question => JSON.stringify(before[question]) !== JSON.stringify(after[question]))
+        .map(question => ({ question, before: before[question], after: after[question] }));
+}
+
+// Export singleton instance
+let storeInstance: DocumentVersionStore | null = null;
+
+export function getDocumentVersionStore(): DocumentVersionStore {
+    if (!storeInstance) {
+        storeInstance = new DocumentVersionStore();
+    }
+    return storeInstance;
+}
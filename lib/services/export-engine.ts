@@ -1,13 +1,14 @@
 /**
  * Export Engine
- * Converts markdown documents to PDF, DOCX, and PPT formats
+ * Converts markdown documents to PDF, DOCX, and PPT formats, and financial models to XLSX
  */
 
 import * as fs from 'fs';
-import * as path from 'path';
 import { PassThrough } from 'stream';
 import MarkdownIt from 'markdown-it';
 import archiver from 'archiver';
+import { ArtifactLink, FinancialModelingInput } from '@/backend/utils/types';
+import { getArtifactStorage } from '@/backend/services/artifact-storage';
 
 const md = new MarkdownIt();
 
@@ -466,7 +467,7 @@ export class ExportEngine {
         });
 
         // Title
-        slide.addText(`Appendix: ${section.title.replace(/appendix/i, '').trim()}`, {
+        slide.addText(`Appendix: ${section.title.replace(/appendix/i, '').replace(/^[\s:–-]+/, '').trim()}`, {
             x: 0.4, y: 0.1, w: '80%', h: 0.4,
             fontSize: 18, color: COLORS.white,
             fontFace: 'Arial'
@@ -483,6 +484,23 @@ export class ExportEngine {
         }
     }
 
+    /**
+     * Convert a financial model to an Excel workbook with live formulas
+     * (Assumptions, Revenue Build, Monthly, Annual and Debt sheets linked by cell references)
+     */
+    async toXLSX(model: FinancialModelingInput, options: ExportOptions): Promise<Buffer> {
+        try {
+            const { buildFinancialModelWorkbook } = await import('./financial-model-workbook');
+            return await buildFinancialModelWorkbook(model, {
+                title: options.title,
+                author: options.author
+            });
+        } catch (error) {
+            console.error('XLSX generation error:', error);
+            throw new Error('XLSX generation failed. Make sure exceljs is installed.');
+        }
+    }
+
     /**
      * Convert Markdown Tables to CSV
      */
@@ -637,18 +655,18 @@ export class ExportEngine {
     }
 
     /**
-     * Save document to file system
+     * Store an exported document as a versioned artifact; returns a signed download link
      */
-    async saveToFile(
+    async saveArtifact(
         content: Buffer | string,
-        filepath: string
-    ): Promise<void> {
-        const dir = path.dirname(filepath);
-        if (!fs.existsSync(dir)) {
-            fs.mkdirSync(dir, { recursive: true });
-        }
-
-        await fs.promises.writeFile(filepath, content);
+        options: ExportOptions & { contentType: string; documentType: string; sessionId?: string }
+    ): Promise<ArtifactLink> {
+        return getArtifactStorage().save(Buffer.isBuffer(content) ? content : Buffer.from(content, 'utf-8'), {
+            document_type: options.documentType,
+            file_name: options.filename,
+            content_type: options.contentType,
+            session_id: options.sessionId
+        });
     }
 }
 
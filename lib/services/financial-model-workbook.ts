@@ -0,0 +1,761 @@
+/**
+ * Financial Model Workbook
+ * Writes a financial_modeling input and its three-statement output to XLSX.
+ * Every projection cell is a live formula on the Assumptions sheet, so edits in
+ * Excel recalculate the whole model; cached results come from the model engine.
+ */
+
+import type { Workbook, Worksheet, Fill, Font } from 'exceljs';
+import {
+    FinancialModelingInput,
+    FinancialModelingOutput,
+    FinancialStatementPeriod
+} from '@/backend/utils/types';
+import {
+    buildFinancialModel,
+    opexPercent,
+    normalizeRate,
+    DEFAULT_OPEX_PERCENTAGES,
+    DEFAULT_GROWTH_RATES_Y,
+    MAX_YEARS
+} from '@/backend/skills/implementations/financial_modeling';
+
+export interface WorkbookOptions {
+    title?: string;
+    author?: string;
+}
+
+const FONT = 'Poppins';
+const MONEY_FORMAT = '#,##0;(#,##0);"-"';
+const PERCENT_FORMAT = '0.0%';
+const PADDING_ROWS = 5; // Blank schedule rows users can fill in Excel
+
+const COLORS = {
+    black: 'FF000000',
+    darkGray: 'FF333333',
+    paleGray: 'FFE5E5E5',
+    offWhite: 'FFF5F5F5',
+    white: 'FFFFFFFF'
+};
+
+const HEADER_FILL: Fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: COLORS.black } };
+const SECTION_FILL: Fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: COLORS.paleGray } };
+const INPUT_FILL: Fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: COLORS.offWhite } };
+
+type PeriodValue = (period: FinancialStatementPeriod) => number;
+
+// Cell references on the Assumptions and Revenue Build sheets
+interface AssumptionRefs {
+    startingCash: string;
+    taxRate: string;
+    receivableDays: string;
+    payableDays: string;
+    inventoryDays: string;
+    daysPerMonth: string;
+    blendedCogs: string;
+    blendedCogsRow: number;
+    productRows: number[]; // Assumptions row per product
+    growth: (year: number) => string;
+    opex: (year: number) => string[];
+    capex: { month: string; amount: string; life: string };
+    financing: { rows: number[]; month: string; type: string; amount: string; rate: string; term: string };
+    revenueTotalRow: number;
+}
+
+// Row numbers on the Monthly/Annual sheets
+const ROW = {
+    month: 1,
+    year: 2,
+    incomeHeader: 3,
+    revenue: 4,
+    cogs: 5,
+    grossProfit: 6,
+    opex: 7,
+    ebitda: 8,
+    depreciation: 9,
+    ebit: 10,
+    interest: 11,
+    preTax: 12,
+    tax: 13,
+    netIncome: 14,
+    lossCarryforward: 15,
+    cashHeader: 16,
+    cfNetIncome: 17,
+    cfDepreciation: 18,
+    workingCapital: 19,
+    operating: 20,
+    capex: 21,
+    investing: 22,
+    equity: 23,
+    debtDrawn: 24,
+    debtRepaid: 25,
+    financing: 26,
+    netChange: 27,
+    endingCash: 28,
+    balanceHeader: 29,
+    cash: 30,
+    receivables: 31,
+    inventory: 32,
+    ppe: 33,
+    totalAssets: 34,
+    payables: 35,
+    debt: 36,
+    totalLiabilities: 37,
+    paidInCapital: 38,
+    retainedEarnings: 39,
+    totalEquity: 40,
+    totalLiabilitiesEquity: 41,
+    balanceCheck: 42
+};
+
+// Flow rows are summed into annual columns; the rest are period-end balances
+const FLOW_ROWS = new Set([
+    ROW.revenue, ROW.cogs, ROW.grossProfit, ROW.opex, ROW.ebitda, ROW.depreciation, ROW.ebit, ROW.interest,
+    ROW.preTax, ROW.tax, ROW.netIncome, ROW.cfNetIncome, ROW.cfDepreciation, ROW.workingCapital, ROW.operating,
+    ROW.capex, ROW.investing, ROW.equity, ROW.debtDrawn, ROW.debtRepaid, ROW.financing, ROW.netChange
+]);
+
+const LINES: Array<{ row: number; label: string; value?: PeriodValue; bold?: boolean }> = [
+    { row: ROW.incomeHeader, label: 'Income Statement' },
+    { row: ROW.revenue, label: 'Revenue', value: p => p.income_statement.revenue, bold: true },
+    { row: ROW.cogs, label: 'Cost of goods sold', value: p => p.income_statement.cogs },
+    { row: ROW.grossProfit, label: 'Gross profit', value: p => p.income_statement.gross_profit, bold: true },
+    { row: ROW.opex, label: 'Operating expenses', value: p => p.income_statement.opex },
+    { row: ROW.ebitda, label: 'EBITDA', value: p => p.income_statement.ebitda, bold: true },
+    { row: ROW.depreciation, label: 'Depreciation', value: p => p.income_statement.depreciation },
+    { row: ROW.ebit, label: 'EBIT', value: p => p.income_statement.ebit },
+    { row: ROW.interest, label: 'Interest', value: p => p.income_statement.interest },
+    { row: ROW.preTax, label: 'Pre-tax income', value: p => p.income_statement.pre_tax_income },
+    { row: ROW.tax, label: 'Tax', value: p => p.income_statement.tax },
+    { row: ROW.netIncome, label: 'Net income', value: p => p.income_statement.net_income, bold: true },
+    { row: ROW.lossCarryforward, label: 'Tax loss carryforward' },
+    { row: ROW.cashHeader, label: 'Cash Flow Statement' },
+    { row: ROW.cfNetIncome, label: 'Net income', value: p => p.cash_flow.net_income },
+    { row: ROW.cfDepreciation, label: 'Add back: depreciation', value: p => p.cash_flow.depreciation },
+    { row: ROW.workingCapital, label: 'Change in working capital', value: p => p.cash_flow.change_in_working_capital },
+    { row: ROW.operating, label: 'Cash from operations', value: p => p.cash_flow.operating, bold: true },
+    { row: ROW.capex, label: 'Capital expenditure', value: p => p.cash_flow.capex },
+    { row: ROW.investing, label: 'Cash from investing', value: p => p.cash_flow.investing, bold: true },
+    { row: ROW.equity, label: 'Equity raised', value: p => p.cash_flow.equity_raised },
+    { row: ROW.debtDrawn, label: 'Debt drawn', value: p => p.cash_flow.debt_drawn },
+    { row: ROW.debtRepaid, label: 'Debt repaid', value: p => p.cash_flow.debt_repaid },
+    { row: ROW.financing, label: 'Cash from financing', value: p => p.cash_flow.financing, bold: true },
+    { row: ROW.netChange, label: 'Net change in cash', value: p => p.cash_flow.net_change },
+    { row: ROW.endingCash, label: 'Ending cash', value: p => p.cash_flow.ending_cash, bold: true },
+    { row: ROW.balanceHeader, label: 'Balance Sheet' },
+    { row: ROW.cash, label: 'Cash', value: p => p.balance_sheet.cash },
+    { row: ROW.receivables, label: 'Accounts receivable', value: p => p.balance_sheet.accounts_receivable },
+    { row: ROW.inventory, label: 'Inventory', value: p => p.balance_sheet.inventory },
+    { row: ROW.ppe, label: 'PP&E (net)', value: p => p.balance_sheet.ppe_net },
+    { row: ROW.totalAssets, label: 'Total assets', value: p => p.balance_sheet.total_assets, bold: true },
+    { row: ROW.payables, label: 'Accounts payable', value: p => p.balance_sheet.accounts_payable },
+    { row: ROW.debt, label: 'Debt', value: p => p.balance_sheet.debt },
+    { row: ROW.totalLiabilities, label: 'Total liabilities', value: p => p.balance_sheet.total_liabilities, bold: true },
+    { row: ROW.paidInCapital, label: 'Paid-in capital', value: p => p.balance_sheet.paid_in_capital },
+    { row: ROW.retainedEarnings, label: 'Retained earnings', value: p => p.balance_sheet.retained_earnings },
+    { row: ROW.totalEquity, label: 'Total equity', value: p => p.balance_sheet.total_equity, bold: true },
+    {
+        row: ROW.totalLiabilitiesEquity,
+        label: 'Total liabilities & equity',
+        value: p => p.balance_sheet.total_liabilities_and_equity,
+        bold: true
+    },
+    {
+        row: ROW.balanceCheck,
+        label: 'Balance check (assets - L&E)',
+        value: p => round(p.balance_sheet.total_assets - p.balance_sheet.total_liabilities_and_equity)
+    }
+];
+
+/**
+ * Build the workbook: Summary, Assumptions, Revenue Build, Monthly, Annual and Debt sheets
+ */
+export async function buildFinancialModelWorkbook(
+    input: FinancialModelingInput,
+    options: WorkbookOptions = {}
+): Promise<Buffer> {
+    const ExcelJS = await import('exceljs');
+    const workbook: Workbook = new ExcelJS.default.Workbook();
+    workbook.creator = options.author || 'Oneasy Business Planner';
+    workbook.created = new Date();
+    workbook.calcProperties.fullCalcOnLoad = true;
+
+    const years = Math.min(MAX_YEARS, Math.max(1, Math.round(input.projection_period?.years || MAX_YEARS)));
+    const months = years * 12;
+
+    // Cached results for every month (the workbook recalculates on open)
+    const output = buildFinancialModel({
+        ...input,
+        projection_period: { ...input.projection_period, detail_level: 'monthly_all' }
+    });
+
+    const summary = workbook.addWorksheet('Summary');
+    const assumptions = workbook.addWorksheet('Assumptions');
+    const revenueBuild = workbook.addWorksheet('Revenue Build');
+    const monthly = workbook.addWorksheet('Monthly');
+    const annual = workbook.addWorksheet('Annual');
+    const debt = workbook.addWorksheet('Debt');
+
+    const refs = writeAssumptions(assumptions, input, years);
+    writeRevenueBuild(revenueBuild, input, refs);
+    const debtRows = writeDebtSchedule(debt, refs, months);
+    writeMonthly(monthly, output, refs, debtRows, months);
+    writeAnnual(annual, output, years);
+    writeSummary(summary, output, options, years);
+
+    workbook.eachSheet(sheet => {
+        sheet.eachRow(row => row.eachCell(cell => {
+            cell.font = { name: FONT, size: 10, color: { argb: COLORS.darkGray }, ...(cell.font || {}) } as Partial<Font>;
+        }));
+    });
+
+    const buffer = await workbook.xlsx.writeBuffer();
+    return Buffer.from(buffer as ArrayBuffer);
+}
+
+function writeAssumptions(sheet: Worksheet, input: FinancialModelingInput, years: number): AssumptionRefs {
+    const assumptions = input.assumptions;
+    sheet.getColumn(1).width = 32;
+    for (let c = 2; c <= 9; c++) sheet.getColumn(c).width = 14;
+
+    title(sheet, 'Model Assumptions', 'Shaded cells are inputs; every projection links back to this sheet.');
+
+    const general: Array<[string, number, string?]> = [
+        ['Starting cash', assumptions.starting_cash || 0, MONEY_FORMAT],
+        ['Tax rate', normalizeRate(assumptions.tax_rate), PERCENT_FORMAT],
+        ['Receivable days (DSO)', assumptions.payment_terms_days || 0],
+        ['Payable days (DPO)', assumptions.supplier_payment_days ?? 30],
+        ['Inventory days (DIO)', assumptions.inventory_days ?? 0],
+        ['Depreciation life (years)', assumptions.depreciation_years || 5],
+        ['Days per month', 30]
+    ];
+    header(sheet, 4, ['General']);
+    general.forEach(([label, value, format], i) => {
+        sheet.getCell(5 + i, 1).value = label;
+        inputCell(sheet, 5 + i, 2, value, format);
+    });
+
+    // Products
+    let row = 13;
+    header(sheet, row, ['Product', 'Units (M1)', 'Price', 'Churn / month', 'COGS %']);
+    const productStart = row + 1;
+    input.revenue_data.products.forEach((product, i) => {
+        const r = productStart + i;
+        sheet.getCell(r, 1).value = product.name;
+        inputCell(sheet, r, 2, product.initial_quantity_m1 || 0, '#,##0');
+        inputCell(sheet, r, 3, product.avg_price || 0, MONEY_FORMAT);
+        inputCell(sheet, r, 4, (product.churn_rate || 0) / 100, PERCENT_FORMAT);
+        inputCell(sheet, r, 5, (product.cogs_percentage || 0) / 100, PERCENT_FORMAT);
+    });
+    row = productStart + input.revenue_data.products.length;
+    sheet.getCell(row, 1).value = 'Blended COGS % (year 1 revenue weighted)';
+    const blendedCogsRow = row;
+    const blendedCogs = `Assumptions!$B$${row}`;
+    row += 2;
+
+    // Annual growth (years 2+) and opex % by year
+    header(sheet, row, ['Driver', ...Array.from({ length: years }, (_, i) => `Y${i + 1}`)]);
+    const growthRow = row + 1;
+    const growthRates = input.revenue_data.products[0]?.growth_rates_y?.length
+        ? input.revenue_data.products[0].growth_rates_y
+        : DEFAULT_GROWTH_RATES_Y;
+    sheet.getCell(growthRow, 1).value = 'Revenue growth (YoY)';
+    for (let y = 2; y <= years; y++) {
+        inputCell(sheet, growthRow, y + 1, growthRates[Math.min(y - 2, growthRates.length - 1)] / 100, PERCENT_FORMAT);
+    }
+
+    const opex = input.cost_structure.opex_percentages || {} as FinancialModelingInput['cost_structure']['opex_percentages'];
+    const categories: Array<[keyof typeof DEFAULT_OPEX_PERCENTAGES, string]> = [
+        ['sales_marketing', 'Sales & marketing (% revenue)'],
+        ['research_development', 'R&D (% revenue)'],
+        ['general_administrative', 'G&A (% revenue)']
+    ];
+    categories.forEach(([key, label], i) => {
+        const r = growthRow + 1 + i;
+        sheet.getCell(r, 1).value = label;
+        for (let y = 1; y <= years; y++) {
+            inputCell(sheet, r, y + 1, opexPercent(opex[key], y, DEFAULT_OPEX_PERCENTAGES[key]) / 100, PERCENT_FORMAT);
+        }
+    });
+    row = growthRow + categories.length + 2;
+
+    // Capex schedule
+    header(sheet, row, ['Capex', 'Month', 'Amount', 'Life (years)', 'Description']);
+    const capexStart = row + 1;
+    const capex = input.capex || [];
+    for (let i = 0; i < capex.length + PADDING_ROWS; i++) {
+        const r = capexStart + i;
+        const item = capex[i];
+        sheet.getCell(r, 1).value = `Capex ${i + 1}`;
+        inputCell(sheet, r, 2, item?.month || 0);
+        inputCell(sheet, r, 3, item?.amount || 0, MONEY_FORMAT);
+        if (item?.useful_life_years) {
+            inputCell(sheet, r, 4, item.useful_life_years);
+        } else {
+            inputCell(sheet, r, 4, { formula: '$B$10', result: assumptions.depreciation_years || 5 });
+        }
+        inputCell(sheet, r, 5, item?.description || '');
+    }
+    const capexEnd = capexStart + capex.length + PADDING_ROWS - 1;
+    row = capexEnd + 2;
+
+    // Financing events
+    header(sheet, row, ['Financing', 'Month', 'Type', 'Amount', 'Interest rate', 'Term (months)', 'Description']);
+    const financingStart = row + 1;
+    const financing = input.financing || [];
+    const financingRows: number[] = [];
+    for (let i = 0; i < financing.length + PADDING_ROWS; i++) {
+        const r = financingStart + i;
+        const item = financing[i];
+        financingRows.push(r);
+        sheet.getCell(r, 1).value = `Event ${i + 1}`;
+        inputCell(sheet, r, 2, item?.month || 0);
+        inputCell(sheet, r, 3, item?.type || '');
+        inputCell(sheet, r, 4, item?.amount || 0, MONEY_FORMAT);
+        inputCell(sheet, r, 5, (item?.interest_rate_pct || 0) / 100, PERCENT_FORMAT);
+        inputCell(sheet, r, 6, item?.term_months || 0);
+        inputCell(sheet, r, 7, item?.description || '');
+    }
+    const financingEnd = financingStart + financingRows.length - 1;
+    sheet.getCell(financingEnd + 1, 1).value = 'Type is "equity" or "debt"; term 0 = repaid after the horizon.';
+    sheet.getCell(financingEnd + 1, 1).font = { italic: true } as Partial<Font>;
+
+    sheet.views = [{ state: 'frozen', ySplit: 2 }];
+
+    const range = (column: string, start: number, end: number) => `Assumptions!$${column}$${start}:$${column}$${end}`;
+
+    return {
+        startingCash: 'Assumptions!$B$5',
+        taxRate: 'Assumptions!$B$6',
+        receivableDays: 'Assumptions!$B$7',
+        payableDays: 'Assumptions!$B$8',
+        inventoryDays: 'Assumptions!$B$9',
+        daysPerMonth: 'Assumptions!$B$11',
+        blendedCogs,
+        blendedCogsRow,
+        productRows: input.revenue_data.products.map((_, i) => productStart + i),
+        growth: year => `Assumptions!$${columnName(year + 1)}$${growthRow}`,
+        opex: year => categories.map((_, i) => `Assumptions!$${columnName(year + 1)}$${growthRow + 1 + i}`),
+        capex: {
+            month: range('B', capexStart, capexEnd),
+            amount: range('C', capexStart, capexEnd),
+            life: range('D', capexStart, capexEnd)
+        },
+        financing: {
+            rows: financingRows,
+            month: range('B', financingStart, financingEnd),
+            type: range('C', financingStart, financingEnd),
+            amount: range('D', financingStart, financingEnd),
+            rate: range('E', financingStart, financingEnd),
+            term: range('F', financingStart, financingEnd)
+        },
+        revenueTotalRow: 0 // Set by writeRevenueBuild
+    };
+}
+
+/**
+ * Year 1 units and revenue per product (units grow, then churn, each month)
+ */
+function writeRevenueBuild(sheet: Worksheet, input: FinancialModelingInput, refs: AssumptionRefs): void {
+    const products = input.revenue_data.products;
+    sheet.getColumn(1).width = 32;
+    title(sheet, 'Year 1 Revenue Build', 'Monthly unit growth rates are inputs; units and price link to Assumptions.');
+    header(sheet, 4, ['Month', ...Array.from({ length: 12 }, (_, i) => `M${i + 1}`)]);
+
+    const revenueRows: number[] = [];
+
+    products.forEach((product, p) => {
+        const growthRow = 5 + p * 3;
+        const unitsRow = growthRow + 1;
+        const revenueRow = growthRow + 2;
+        revenueRows.push(revenueRow);
+        const assumptionRow = refs.productRows[p];
+
+        sheet.getCell(growthRow, 1).value = `${product.name} - unit growth`;
+        sheet.getCell(unitsRow, 1).value = `${product.name} - units`;
+        sheet.getCell(revenueRow, 1).value = `${product.name} - revenue`;
+
+        for (let m = 1; m <= 12; m++) {
+            const c = columnName(m + 1);
+            const prev = columnName(m);
+            if (m > 1) {
+                inputCell(sheet, growthRow, m + 1, (product.growth_rates_m?.[m - 2] || 0) / 100, PERCENT_FORMAT);
+            }
+            sheet.getCell(unitsRow, m + 1).value = m === 1
+                ? { formula: `Assumptions!$B$${assumptionRow}` }
+                : { formula: `${prev}${unitsRow}*(1+${c}${growthRow})*(1-Assumptions!$D$${assumptionRow})` };
+            sheet.getCell(unitsRow, m + 1).numFmt = '#,##0';
+            sheet.getCell(revenueRow, m + 1).value = { formula: `${c}${unitsRow}*Assumptions!$C$${assumptionRow}` };
+            sheet.getCell(revenueRow, m + 1).numFmt = MONEY_FORMAT;
+        }
+    });
+
+    const totalRow = 5 + products.length * 3;
+    refs.revenueTotalRow = totalRow;
+    sheet.getCell(totalRow, 1).value = 'Total revenue';
+    sheet.getRow(totalRow).font = { bold: true } as Partial<Font>;
+    for (let m = 1; m <= 12; m++) {
+        const c = columnName(m + 1);
+        sheet.getCell(totalRow, m + 1).value = {
+            formula: revenueRows.length > 0 ? revenueRows.map(r => `${c}${r}`).join('+') : '0'
+        };
+        sheet.getCell(totalRow, m + 1).numFmt = MONEY_FORMAT;
+    }
+
+    // Blended COGS % on the Assumptions sheet weights each product by year 1 revenue
+    const assumptionSheet = sheet.workbook.getWorksheet('Assumptions')!;
+    const weighted = products
+        .map((_, p) => `SUM('Revenue Build'!B${revenueRows[p]}:M${revenueRows[p]})*Assumptions!$E$${refs.productRows[p]}`)
+        .join('+');
+    assumptionSheet.getCell(refs.blendedCogsRow, 2).value = {
+        formula: products.length > 0
+            ? `IFERROR((${weighted})/SUM('Revenue Build'!B${totalRow}:M${totalRow}),Assumptions!$E$${refs.productRows[0]})`
+            : '0.2'
+    };
+    assumptionSheet.getCell(refs.blendedCogsRow, 2).numFmt = PERCENT_FORMAT;
+
+    sheet.views = [{ state: 'frozen', xSplit: 1, ySplit: 4 }];
+}
+
+/**
+ * Per-event debt balances and interest (interest accrues on the opening balance)
+ */
+function writeDebtSchedule(sheet: Worksheet, refs: AssumptionRefs, months: number): { balance: number; interest: number } {
+    sheet.getColumn(1).width = 32;
+    title(sheet, 'Debt Schedule', 'One balance and interest line per financing event; equity events stay at zero.');
+    monthHeader(sheet, 4, months);
+
+    const events = refs.financing.rows;
+    const balanceRow = (i: number) => 5 + i;
+    const interestRow = (i: number) => 5 + events.length + i;
+    const totalBalanceRow = 5 + events.length * 2;
+    const totalInterestRow = totalBalanceRow + 1;
+
+    events.forEach((assumptionRow, i) => {
+        const month = `Assumptions!$B$${assumptionRow}`;
+        const type = `Assumptions!$C$${assumptionRow}`;
+        const amount = `Assumptions!$D$${assumptionRow}`;
+        const rate = `Assumptions!$E$${assumptionRow}`;
+        const term = `Assumptions!$F$${assumptionRow}`;
+
+        sheet.getCell(balanceRow(i), 1).value = `Event ${i + 1} - balance`;
+        sheet.getCell(interestRow(i), 1).value = `Event ${i + 1} - interest`;
+        sheet.getCell(balanceRow(i), 2).value = 0;
+        sheet.getCell(interestRow(i), 2).value = 0;
+
+        for (let m = 1; m <= months; m++) {
+            const c = columnName(m + 2);
+            const prev = columnName(m + 1);
+            const monthRef = `${c}$4`;
+            sheet.getCell(balanceRow(i), m + 2).value = {
+                formula: `IF(${type}="debt",IF(${monthRef}<${month},0,IF(${term}>0,MAX(0,${amount}-${amount}/${term}*(${monthRef}-${month})),${amount})),0)`
+            };
+            sheet.getCell(interestRow(i), m + 2).value = { formula: `${prev}${balanceRow(i)}*${rate}/12` };
+        }
+    });
+
+    sheet.getCell(totalBalanceRow, 1).value = 'Total debt';
+    sheet.getCell(totalInterestRow, 1).value = 'Total interest';
+    sheet.getRow(totalBalanceRow).font = { bold: true } as Partial<Font>;
+    sheet.getRow(totalInterestRow).font = { bold: true } as Partial<Font>;
+    for (let m = 0; m <= months; m++) {
+        const c = columnName(m + 2);
+        sheet.getCell(totalBalanceRow, m + 2).value = { formula: `SUM(${c}5:${c}${4 + events.length})` };
+        sheet.getCell(totalInterestRow, m + 2).value = {
+            formula: `SUM(${c}${5 + events.length}:${c}${4 + events.length * 2})`
+        };
+    }
+
+    for (let r = 5; r <= totalInterestRow; r++) {
+        sheet.getRow(r).numFmt = MONEY_FORMAT;
+    }
+    sheet.views = [{ state: 'frozen', xSplit: 2, ySplit: 4 }];
+
+    return { balance: totalBalanceRow, interest: totalInterestRow };
+}
+
+/**
+ * Monthly three-statement model; column B is the opening balance sheet
+ */
+function writeMonthly(
+    sheet: Worksheet,
+    output: FinancialModelingOutput,
+    refs: AssumptionRefs,
+    debtRows: { balance: number; interest: number },
+    months: number
+): void {
+    sheet.getColumn(1).width = 32;
+    writeLabels(sheet);
+
+    sheet.getCell(ROW.month, 1).value = 'Month';
+    sheet.getCell(ROW.year, 1).value = 'Year';
+    sheet.getCell(ROW.month, 2).value = 'Opening';
+    for (let m = 1; m <= months; m++) {
+        sheet.getCell(ROW.month, m + 2).value = m;
+        sheet.getCell(ROW.year, m + 2).value = Math.ceil(m / 12);
+    }
+    styleHeaderRow(sheet, ROW.month, months + 2);
+
+    // Opening balances
+    const opening: Record<number, string | number> = {
+        [ROW.lossCarryforward]: 0,
+        [ROW.endingCash]: refs.startingCash,
+        [ROW.cash]: refs.startingCash,
+        [ROW.receivables]: 0,
+        [ROW.inventory]: 0,
+        [ROW.ppe]: 0,
+        [ROW.payables]: 0,
+        [ROW.debt]: 0,
+        [ROW.paidInCapital]: refs.startingCash,
+        [ROW.retainedEarnings]: 0
+    };
+    Object.entries(opening).forEach(([row, value]) => {
+        sheet.getCell(Number(row), 2).value = typeof value === 'string' ? { formula: value } : value;
+    });
+    sheet.getCell(ROW.totalAssets, 2).value = { formula: `SUM(B${ROW.cash}:B${ROW.ppe})` };
+    sheet.getCell(ROW.totalLiabilities, 2).value = { formula: `B${ROW.payables}+B${ROW.debt}` };
+    sheet.getCell(ROW.totalEquity, 2).value = { formula: `B${ROW.paidInCapital}+B${ROW.retainedEarnings}` };
+    sheet.getCell(ROW.totalLiabilitiesEquity, 2).value = { formula: `B${ROW.totalLiabilities}+B${ROW.totalEquity}` };
+    sheet.getCell(ROW.balanceCheck, 2).value = { formula: `B${ROW.totalAssets}-B${ROW.totalLiabilitiesEquity}` };
+
+    const capex = refs.capex;
+    const financing = refs.financing;
+
+    for (let m = 1; m <= months; m++) {
+        const c = columnName(m + 2);
+        const p = columnName(m + 1);
+        const year = Math.ceil(m / 12);
+        const month = `${c}$${ROW.month}`;
+        const at = (row: number) => `${c}${row}`;
+        const prev = (row: number) => `${p}${row}`;
+
+        let revenue: string;
+        if (year === 1) {
+            revenue = `'Revenue Build'!${columnName(m + 1)}${refs.revenueTotalRow}`;
+        } else {
+            const first = columnName((year - 2) * 12 + 3);
+            const last = columnName((year - 1) * 12 + 2);
+            revenue = `SUM(${first}${ROW.revenue}:${last}${ROW.revenue})*(1+${refs.growth(year)})/12`;
+        }
+
+        const formulas: Record<number, string> = {
+            [ROW.revenue]: revenue,
+            [ROW.cogs]: `${at(ROW.revenue)}*${refs.blendedCogs}`,
+            [ROW.grossProfit]: `${at(ROW.revenue)}-${at(ROW.cogs)}`,
+            [ROW.opex]: `${at(ROW.revenue)}*(${refs.opex(year).join('+')})`,
+            [ROW.ebitda]: `${at(ROW.grossProfit)}-${at(ROW.opex)}`,
+            [ROW.depreciation]: `SUMPRODUCT((${capex.month}<${month})*(${month}<=${capex.month}+${capex.life}*12)*${capex.amount}/(${capex.life}*12))`,
+            [ROW.ebit]: `${at(ROW.ebitda)}-${at(ROW.depreciation)}`,
+            [ROW.interest]: `Debt!${c}${debtRows.interest}`,
+            [ROW.preTax]: `${at(ROW.ebit)}-${at(ROW.interest)}`,
+            [ROW.tax]: `MAX(0,${at(ROW.preTax)}-${prev(ROW.lossCarryforward)})*${refs.taxRate}`,
+            [ROW.netIncome]: `${at(ROW.preTax)}-${at(ROW.tax)}`,
+            [ROW.lossCarryforward]: `MAX(0,${prev(ROW.lossCarryforward)}-${at(ROW.preTax)})`,
+            [ROW.cfNetIncome]: at(ROW.netIncome),
+            [ROW.cfDepreciation]: at(ROW.depreciation),
+            [ROW.workingCapital]: `-((${at(ROW.receivables)}+${at(ROW.inventory)}-${at(ROW.payables)})-(${prev(ROW.receivables)}+${prev(ROW.inventory)}-${prev(ROW.payables)}))`,
+            [ROW.operating]: `${at(ROW.cfNetIncome)}+${at(ROW.cfDepreciation)}+${at(ROW.workingCapital)}`,
+            [ROW.capex]: `SUMIF(${capex.month},${month},${capex.amount})`,
+            [ROW.investing]: `-${at(ROW.capex)}`,
+            [ROW.equity]: `SUMIFS(${financing.amount},${financing.type},"equity",${financing.month},${month})`,
+            [ROW.debtDrawn]: `SUMIFS(${financing.amount},${financing.type},"debt",${financing.month},${month})`,
+            [ROW.debtRepaid]: `${prev(ROW.debt)}+${at(ROW.debtDrawn)}-${at(ROW.debt)}`,
+            [ROW.financing]: `${at(ROW.equity)}+${at(ROW.debtDrawn)}-${at(ROW.debtRepaid)}`,
+            [ROW.netChange]: `${at(ROW.operating)}+${at(ROW.investing)}+${at(ROW.financing)}`,
+            [ROW.endingCash]: `${prev(ROW.endingCash)}+${at(ROW.netChange)}`,
+            [ROW.cash]: at(ROW.endingCash),
+            [ROW.receivables]: `${at(ROW.revenue)}*${refs.receivableDays}/${refs.daysPerMonth}`,
+            [ROW.inventory]: `${at(ROW.cogs)}*${refs.inventoryDays}/${refs.daysPerMonth}`,
+            [ROW.ppe]: `${prev(ROW.ppe)}+${at(ROW.capex)}-${at(ROW.depreciation)}`,
+            [ROW.totalAssets]: `SUM(${at(ROW.cash)}:${at(ROW.ppe)})`,
+            [ROW.payables]: `${at(ROW.cogs)}*${refs.payableDays}/${refs.daysPerMonth}`,
+            [ROW.debt]: `Debt!${c}${debtRows.balance}`,
+            [ROW.totalLiabilities]: `${at(ROW.payables)}+${at(ROW.debt)}`,
+            [ROW.paidInCapital]: `${prev(ROW.paidInCapital)}+${at(ROW.equity)}`,
+            [ROW.retainedEarnings]: `${prev(ROW.retainedEarnings)}+${at(ROW.netIncome)}`,
+            [ROW.totalEquity]: `${at(ROW.paidInCapital)}+${at(ROW.retainedEarnings)}`,
+            [ROW.totalLiabilitiesEquity]: `${at(ROW.totalLiabilities)}+${at(ROW.totalEquity)}`,
+            [ROW.balanceCheck]: `${at(ROW.totalAssets)}-${at(ROW.totalLiabilitiesEquity)}`
+        };
+
+        const period = output.statements.monthly[m - 1];
+        writeFormulas(sheet, m + 2, formulas, period);
+    }
+
+    formatRows(sheet, months + 2);
+    sheet.views = [{ state: 'frozen', xSplit: 2, ySplit: 2 }];
+}
+
+/**
+ * Annual roll-up: flows sum the monthly columns for the year, balances take the year-end month
+ */
+function writeAnnual(sheet: Worksheet, output: FinancialModelingOutput, years: number): void {
+    sheet.getColumn(1).width = 32;
+    writeLabels(sheet);
+
+    sheet.getCell(ROW.month, 1).value = 'Year';
+    sheet.getCell(ROW.year, 1).value = 'Year-end month';
+    for (let y = 1; y <= years; y++) {
+        sheet.getCell(ROW.month, y + 1).value = `Y${y}`;
+        sheet.getCell(ROW.year, y + 1).value = y * 12;
+    }
+    styleHeaderRow(sheet, ROW.month, years + 1);
+
+    const lastColumn = columnName(years * 12 + 2);
+    for (let y = 1; y <= years; y++) {
+        const yearEnd = columnName(y * 12 + 2);
+        const formulas: Record<number, string> = {};
+        LINES.forEach(line => {
+            if (line.row === ROW.incomeHeader || line.row === ROW.cashHeader || line.row === ROW.balanceHeader) return;
+            formulas[line.row] = FLOW_ROWS.has(line.row)
+                ? `SUMIF(Monthly!$C$${ROW.year}:$${lastColumn}$${ROW.year},${y},Monthly!$C${line.row}:$${lastColumn}${line.row})`
+                : `Monthly!${yearEnd}${line.row}`;
+        });
+        writeFormulas(sheet, y + 1, formulas, output.statements.annual[y - 1]);
+        sheet.getColumn(y + 1).width = 16;
+    }
+
+    formatRows(sheet, years + 1);
+    sheet.views = [{ state: 'frozen', xSplit: 1, ySplit: 1 }];
+}
+
+function writeSummary(sheet: Worksheet, output: FinancialModelingOutput, options: WorkbookOptions, years: number): void {
+    sheet.getColumn(1).width = 40;
+    sheet.getColumn(2).width = 20;
+    title(sheet, options.title || 'Financial Model', `Generated ${new Date().toISOString().split('T')[0]}`);
+
+    const y5 = Math.min(5, years);
+    const y5Column = columnName(y5 + 1);
+    const live: Array<[string, string, string]> = [
+        ['Year 1 revenue', `Annual!B${ROW.revenue}`, MONEY_FORMAT],
+        [`Year ${y5} revenue`, `Annual!${y5Column}${ROW.revenue}`, MONEY_FORMAT],
+        ['Year 1 gross margin', `IFERROR(Annual!B${ROW.grossProfit}/Annual!B${ROW.revenue},0)`, PERCENT_FORMAT],
+        [`Year ${y5} EBITDA margin`, `IFERROR(Annual!${y5Column}${ROW.ebitda}/Annual!${y5Column}${ROW.revenue},0)`, PERCENT_FORMAT],
+        ['Ending cash', `Annual!${columnName(years + 1)}${ROW.endingCash}`, MONEY_FORMAT],
+        ['Balance check (should be 0)', `SUMPRODUCT(ABS(Annual!B${ROW.balanceCheck}:${columnName(years + 1)}${ROW.balanceCheck}))`, MONEY_FORMAT]
+    ];
+    header(sheet, 4, ['Live metrics', 'Value']);
+    live.forEach(([label, formula, format], i) => {
+        sheet.getCell(5 + i, 1).value = label;
+        sheet.getCell(5 + i, 2).value = { formula };
+        sheet.getCell(5 + i, 2).numFmt = format;
+    });
+
+    const metrics = output.summary_metrics;
+    const atExport: Array<[string, number | string]> = [
+        ['EBITDA break-even month', metrics.break_even_month > 0 ? metrics.break_even_month : 'Not reached'],
+        ['Net income positive month', metrics.profitability_month > 0 ? metrics.profitability_month : 'Not reached'],
+        ['Total capital required', metrics.total_capital_required],
+        ['Peak monthly burn', metrics.peak_burn_rate],
+        ['Revenue CAGR Y1-Y5', metrics.cagr_y1_y5 / 100]
+    ];
+    let row = 6 + live.length;
+    header(sheet, row, ['Metrics at export', 'Value']);
+    atExport.forEach(([label, value], i) => {
+        const cell = sheet.getCell(row + 1 + i, 2);
+        sheet.getCell(row + 1 + i, 1).value = label;
+        cell.value = value;
+        cell.numFmt = label.includes('CAGR') ? PERCENT_FORMAT : MONEY_FORMAT;
+    });
+
+    row += atExport.length + 2;
+    const notes = [
+        ...output.validation_results.errors.map(e => `Error: ${e}`),
+        ...output.validation_results.warnings.map(w => `Warning: ${w}`)
+    ];
+    header(sheet, row, ['Validation', '']);
+    (notes.length > 0 ? notes : ['All checks passed']).forEach((note, i) => {
+        sheet.getCell(row + 1 + i, 1).value = note;
+    });
+}
+
+function writeLabels(sheet: Worksheet): void {
+    LINES.forEach(line => {
+        const cell = sheet.getCell(line.row, 1);
+        cell.value = line.label;
+        if (line.row === ROW.incomeHeader || line.row === ROW.cashHeader || line.row === ROW.balanceHeader) {
+            sheet.getRow(line.row).fill = SECTION_FILL;
+            sheet.getRow(line.row).font = { bold: true } as Partial<Font>;
+        } else if (line.bold) {
+            cell.font = { bold: true } as Partial<Font>;
+        }
+    });
+}
+
+function writeFormulas(
+    sheet: Worksheet,
+    column: number,
+    formulas: Record<number, string>,
+    period?: FinancialStatementPeriod
+): void {
+    LINES.forEach(line => {
+        const formula = formulas[line.row];
+        if (!formula) return;
+        const result = period && line.value ? line.value(period) : undefined;
+        sheet.getCell(line.row, column).value = result === undefined ? { formula } : { formula, result };
+    });
+}
+
+function formatRows(sheet: Worksheet, lastColumn: number): void {
+    for (let row = ROW.incomeHeader; row <= ROW.balanceCheck; row++) {
+        for (let column = 2; column <= lastColumn; column++) {
+            sheet.getCell(row, column).numFmt = MONEY_FORMAT;
+        }
+    }
+    for (let column = 2; column <= lastColumn; column++) {
+        if (sheet.getColumn(column).width === undefined) sheet.getColumn(column).width = 14;
+    }
+}
+
+function monthHeader(sheet: Worksheet, row: number, months: number): void {
+    sheet.getCell(row, 1).value = 'Month';
+    sheet.getCell(row, 2).value = 'Opening';
+    for (let m = 1; m <= months; m++) {
+        sheet.getCell(row, m + 2).value = m;
+    }
+    styleHeaderRow(sheet, row, months + 2);
+}
+
+function title(sheet: Worksheet, text: string, subtitle: string): void {
+    sheet.getCell(1, 1).value = text;
+    sheet.getCell(1, 1).font = { bold: true, size: 16, color: { argb: COLORS.black } } as Partial<Font>;
+    sheet.getCell(2, 1).value = subtitle;
+    sheet.getCell(2, 1).font = { italic: true } as Partial<Font>;
+}
+
+function header(sheet: Worksheet, row: number, labels: string[]): void {
+    labels.forEach((label, i) => {
+        sheet.getCell(row, i + 1).value = label;
+    });
+    styleHeaderRow(sheet, row, labels.length);
+}
+
+function styleHeaderRow(sheet: Worksheet, row: number, columns: number): void {
+    for (let c = 1; c <= columns; c++) {
+        const cell = sheet.getCell(row, c);
+        cell.fill = HEADER_FILL;
+        cell.font = { bold: true, color: { argb: COLORS.white } } as Partial<Font>;
+    }
+}
+
+function inputCell(sheet: Worksheet, row: number, column: number, value: any, numFmt?: string): void {
+    const cell = sheet.getCell(row, column);
+    cell.value = value;
+    cell.fill = INPUT_FILL;
+    if (numFmt) cell.numFmt = numFmt;
+}
+
+function columnName(index: number): string {
+    let name = '';
+    let n = index;
+    while (n > 0) {
+        const remainder = (n - 1) % 26;
+        name = String.fromCharCode(65 + remainder) + name;
+        n = Math.floor((n - 1) / 26);
+    }
+    return name;
+}
+
+function round(value: number): number {
+    return Math.round(value * 100) / 100;
+}
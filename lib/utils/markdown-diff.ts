@@ -0,0 +1,192 @@
+/**
+ * Markdown Diff
+ * Section-level comparison of two markdown documents. Sections are matched by their heading
+ * path (e.g. "Market Analysis > TAM"); modified sections carry a line diff.
+ */
+
+export interface MarkdownSection {
+    id: string; // Heading path; "" for the text before the first heading
+    heading: string;
+    level: number; // 1-6, 0 for the preamble
+    content: string; // Body without the heading line
+}
+
+export interface LineChange {
+    type: 'added' | 'removed' | 'unchanged';
+    text: string;
+}
+
+export interface SectionDiff {
+    id: string;
+    heading: string;
+    level: number;
+    status: 'added' | 'removed' | 'modified' | 'unchanged';
+    lines?: LineChange[]; // Omitted for unchanged sections
+}
+
+export interface MarkdownDiff {
+    sections: SectionDiff[];
+    summary: { added: number; removed: number; modified: number; unchanged: number };
+}
+
+const HEADING_PATTERN = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const FENCE_PATTERN = /^\s*(```|~~~)/;
+const MAX_LCS_CELLS = 1000000;
+
+/**
+ * Split markdown into sections at every heading (headings inside code fences are ignored)
+ */
+export function splitSections(markdown: string): MarkdownSection[] {
+    const sections: MarkdownSection[] = [];
+    const path: { level: number; heading: string }[] = [];
+    const seen = new Map<string, number>();
+    let current: MarkdownSection = { id: '', heading: '', level: 0, content: '' };
+    let body: string[] = [];
+    let inFence = false;
+
+    const flush = () => {
+        current.content = body.join('\n').replace(/^\s*\n|\s+$/g, '');
+        if (current.level > 0 || current.content) sections.push(current);
+    };
+
+    for (const line of markdown.replace(/\r\n/g, '\n').split('\n')) {
+        if (FENCE_PATTERN.test(line)) inFence = !inFence;
+        const match = inFence ? null : line.match(HEADING_PATTERN);
+        if (!match) {
+            body.push(line);
+            continue;
+        }
+
+        flush();
+        const level = match[1].length;
+        const heading = match[2];
+        while (path.length > 0 && path[path.length - 1].level >= level) path.pop();
+        path.push({ level, heading });
+
+        let id = path.map(entry => entry.heading).join(' > ');
+        const count = (seen.get(id) || 0) + 1;
+        seen.set(id, count);
+        if (count > 1) id = `${id} (${count})`;
+
+        current = { id, heading, level, content: '' };
+        body = [];
+    }
+    flush();
+
+    return sections;
+}
+
+/**
+ * Line diff (longest common subsequence); very large inputs fall back to remove-all/add-all
+ */
+export function diffLines(before: string[], after: string[]): LineChange[] {
+    let start = 0;
+    while (start < before.length && start < after.length && before[start] === after[start]) start++;
+    let endBefore = before.length;
+    let endAfter = after.length;
+    while (endBefore > start && endAfter > start && before[endBefore - 1] === after[endAfter - 1]) {
+        endBefore--;
+        endAfter--;
+    }
+
+    const head = before.slice(0, start).map(text => ({ type: 'unchanged' as const, text }));
+    const tail = before.slice(endBefore).map(text => ({ type: 'unchanged' as const, text }));
+    const a = before.slice(start, endBefore);
+    const b = after.slice(start, endAfter);
+
+    if (a.length * b.length > MAX_LCS_CELLS) {
+        return [
+            ...head,
+            ...a.map(text => ({ type: 'removed' as const, text })),
+            ...b.map(text => ({ type: 'added' as const, text })),
+            ...tail
+        ];
+    }
+
+    // lengths[i][j] = LCS length of a[i..] and b[j..]
+    const lengths: number[][] = [];
+    for (let i = a.length; i >= 0; i--) {
+        lengths[i] = [];
+        for (let j = b.length; j >= 0; j--) {
+            lengths[i][j] = i === a.length || j === b.length
+                ? 0
+                : a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+        }
+    }
+
+    const middle: LineChange[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < a.length || j < b.length) {
+        if (i < a.length && j < b.length && a[i] === b[j]) {
+            middle.push({ type: 'unchanged', text: a[i] });
+            i++;
+            j++;
+        } else if (i < a.length && (j === b.length || lengths[i + 1][j] >= lengths[i][j + 1])) {
+            middle.push({ type: 'removed', text: a[i++] });
+        } else {
+            middle.push({ type: 'added', text: b[j++] });
+        }
+    }
+
+    return [...head, ...middle, ...tail];
+}
+
+/**
+ * Compare two markdown documents section by section, in the order of the newer document
+ * (removed sections appear where they used to be)
+ */
+export function diffMarkdown(before: string, after: string): MarkdownDiff {
+    const oldSections = splitSections(before);
+    const newSections = splitSections(after);
+    const oldIndex = new Map(oldSections.map((section, index) => [section.id, index]));
+    const matched = new Set<number>();
+    newSections.forEach(section => {
+        const index = oldIndex.get(section.id);
+        if (index !== undefined) matched.add(index);
+    });
+
+    const sections: SectionDiff[] = [];
+    const whole = (section: MarkdownSection, status: 'added' | 'removed'): SectionDiff => ({
+        id: section.id,
+        heading: section.heading,
+        level: section.level,
+        status,
+        lines: section.content ? section.content.split('\n').map(text => ({ type: status, text })) : []
+    });
+    let cursor = 0;
+
+    for (const section of newSections) {
+        const index = oldIndex.get(section.id);
+        if (index === undefined) {
+            sections.push(whole(section, 'added'));
+            continue;
+        }
+
+        for (; cursor < index; cursor++) {
+            if (!matched.has(cursor)) sections.push(whole(oldSections[cursor], 'removed'));
+        }
+        cursor = Math.max(cursor, index + 1);
+
+        const previous = oldSections[index];
+        if (previous.content === section.content) {
+            sections.push({ id: section.id, heading: section.heading, level: section.level, status: 'unchanged' });
+        } else {
+            sections.push({
+                id: section.id,
+                heading: section.heading,
+                level: section.level,
+                status: 'modified',
+                lines: diffLines(previous.content.split('\n'), section.content.split('\n'))
+            });
+        }
+    }
+    for (; cursor < oldSections.length; cursor++) {
+        if (!matched.has(cursor)) sections.push(whole(oldSections[cursor], 'removed'));
+    }
+
+    const summary = { added: 0, removed: 0, modified: 0, unchanged: 0 };
+    sections.forEach(section => { summary[section.status]++; });
+
+    return { sections, summary };
+}
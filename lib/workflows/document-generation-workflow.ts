@@ -6,6 +6,17 @@
 
 import { getClaudeAgentExecutor, AgentExecutionContext } from '@/lib/orchestrator/claude-agent-executor';
 import { logger } from '@/backend/utils/logger';
+import { getDocumentVersionStore, DocumentVersion } from '@/lib/services/document-versions';
+import {
+    DOCUMENT_STRUCTURES,
+    DocumentSection,
+    joinDocumentSections,
+    parseDocumentSections,
+    preserveLockedSections,
+    replaceSection
+} from '@/lib/workflows/document-sections';
+import { DocumentSectionError } from '@/backend/utils/types';
+import { getAgentExperiments } from '@/backend/services/agent-experiments';
 
 export interface DocumentAnswers {
     [key: string]: any;
@@ -25,8 +36,21 @@ export interface WorkflowMetadata {
     totalTokensUsed: { input: number; output: number };
 }
 
+export interface SectionSummary extends DocumentSection {
+    locked: boolean;
+    wordCount: number;
+}
+
+export interface SectionUpdateResult {
+    document: GeneratedDocument;
+    version: DocumentVersion;
+    section: SectionSummary;
+    metadata?: WorkflowMetadata; // Agent runs behind a regenerated section
+}
+
 export class DocumentGenerationWorkflow {
     private executor;
+    private sectionUpdates: Map<string, Promise<unknown>> = new Map(); // Per-document chain, so section updates don't overwrite each other
 
     constructor() {
         this.executor = getClaudeAgentExecutor();
@@ -39,7 +63,7 @@ export class DocumentGenerationWorkflow {
     async generateAllDocuments(
         answers: DocumentAnswers,
         sessionId?: string
-    ): Promise<{ documents: GeneratedDocument[]; metadata: WorkflowMetadata }> {
+    ): Promise<{ documents: GeneratedDocument[]; metadata: WorkflowMetadata; versions: DocumentVersion[] }> {
         const startTime = Date.now();
 
         logger.info('🚀 Starting document generation workflow', { sessionId });
@@ -53,17 +77,28 @@ export class DocumentGenerationWorkflow {
             // Step 2: Generate each document using agent outputs
             logger.info('📝 Phase 2: Generating documents...');
 
-            const documents = await this.generateDocuments(answers, agentOutputs, sessionId);
+            let documents = await this.generateDocuments(answers, agentOutputs, sessionId);
 
             // Step 3: Calculate metadata
             const metadata = this.calculateMetadata(agentOutputs, startTime);
 
+            // Step 4: Keep locked sections verbatim and store this run as a new version of each document.
+            // When the locks can't be read the run is returned but not stored, so locked sections survive.
+            let versions: DocumentVersion[] = [];
+            if (sessionId) {
+                const preserved = await this.applyLockedSections(sessionId, documents);
+                if (preserved) {
+                    documents = preserved;
+                    versions = await this.saveVersions(sessionId, answers, documents);
+                }
+            }
+
             logger.info('✅ Document generation workflow complete', {
                 documentCount: documents.length,
                 totalTimeMs: metadata.totalExecutionTimeMs
             });
 
-            return { documents, metadata };
+            return { documents, metadata, versions };
 
         } catch (error) {
             logger.error('❌ Document generation workflow failed', error);
@@ -71,6 +106,162 @@ export class DocumentGenerationWorkflow {
         }
     }
 
+    /**
+     * Sections of the latest stored version of a document, with their feeding agents and locks
+     */
+    async listSections(
+        sessionId: string,
+        documentType: string
+    ): Promise<{ version: DocumentVersion; sections: SectionSummary[] } | null> {
+        const store = getDocumentVersionStore();
+        const current = await store.getLatestVersion(sessionId, documentType);
+        if (!current) return null;
+
+        const locked = await store.getLockedSections(sessionId, documentType);
+        const { sections } = parseDocumentSections(documentType, current.document.content);
+        return {
+            version: current.version,
+            sections: sections.map(section => this.summarizeSection(section, locked))
+        };
+    }
+
+    /**
+     * Regenerate one section of the latest stored version, re-running only the agents that feed it.
+     * Uses the answers the version was generated from unless new answers are given.
+     */
+    async regenerateSection(
+        sessionId: string,
+        documentType: string,
+        sectionId: string,
+        options: { answers?: DocumentAnswers; instructions?: string } = {}
+    ): Promise<SectionUpdateResult> {
+        const startTime = Date.now();
+        const store = getDocumentVersionStore();
+        const { current, parsed, section } = await this.loadSection(sessionId, documentType, sectionId);
+
+        const locked = await store.getLockedSections(sessionId, documentType);
+        if (locked.includes(sectionId)) {
+            throw new DocumentSectionError(`Section "${section.title}" is locked; unlock it to regenerate`, 'locked', { sectionId });
+        }
+
+        const answers = options.answers || current.answers || {};
+        logger.info('🔁 Regenerating document section', { sessionId, documentType, sectionId, agents: section.agents });
+
+        const agentOutputs = section.agents.length > 0
+            ? await this.executor.executeAgentSequence(section.agents, { sessionId, allAnswers: answers, regeneration: true })
+            : {};
+
+        const { generateSection } = await import('@/lib/generators/section-generator');
+        const content = await generateSection(answers, agentOutputs, {
+            documentName: DOCUMENT_STRUCTURES[documentType]?.name || documentType,
+            section,
+            outline: parsed.sections.map(entry => entry.title),
+            instructions: options.instructions,
+            sessionId
+        });
+
+        // Splice into the latest version, which may have changed while the section was generated
+        const { updated, version } = await this.updateDocument(sessionId, documentType, async () => {
+            const latest = await this.loadSection(sessionId, documentType, sectionId);
+            const updated = joinDocumentSections(replaceSection(latest.parsed, sectionId, content));
+            const version = await store.saveVersion(sessionId, documentType, updated, {
+                origin: 'section_regenerated',
+                section: sectionId,
+                answersKey: options.answers ? await store.saveAnswers(sessionId, options.answers) : current.version.answersKey
+            });
+            return { updated, version };
+        });
+
+        return {
+            document: this.formatDocument(documentType, updated),
+            version,
+            section: this.summarizeSection({ ...section, content }, locked),
+            metadata: this.calculateMetadata(agentOutputs, startTime)
+        };
+    }
+
+    /**
+     * Replace one section with the user's own markdown (the original heading is kept unless one is given)
+     */
+    async editSection(
+        sessionId: string,
+        documentType: string,
+        sectionId: string,
+        markdown: string
+    ): Promise<SectionUpdateResult> {
+        const store = getDocumentVersionStore();
+        const { section, content, updated, version } = await this.updateDocument(sessionId, documentType, async () => {
+            const { current, parsed, section } = await this.loadSection(sessionId, documentType, sectionId);
+
+            const content = /^#{1,6}\s/.test(markdown.trim())
+                ? markdown.trim()
+                : `${section.content.split('\n')[0]}\n\n${markdown.trim()}`;
+            const updated = joinDocumentSections(replaceSection(parsed, sectionId, content));
+            const version = await store.saveVersion(sessionId, documentType, updated, {
+                origin: 'edited',
+                section: sectionId,
+                answersKey: current.version.answersKey
+            });
+            return { section, content, updated, version };
+        });
+
+        logger.info('✏️ Document section edited', { sessionId, documentType, sectionId, version: version.version });
+
+        // Count the edit against the agents whose output fed this section
+        const experiments = getAgentExperiments();
+        await Promise.all(section.agents.map(agentId => experiments.recordUserEdit(sessionId, agentId)));
+
+        return {
+            document: this.formatDocument(documentType, updated),
+            version,
+            section: this.summarizeSection({ ...section, content }, await store.getLockedSections(sessionId, documentType))
+        };
+    }
+
+    /**
+     * Run a read-modify-write of a stored document after the previous one for the same
+     * (session, document) has finished, so concurrent section updates don't lose changes
+     */
+    private async updateDocument<T>(sessionId: string, documentType: string, update: () => Promise<T>): Promise<T> {
+        const key = `${sessionId}:${documentType}`;
+        const previous = this.sectionUpdates.get(key) || Promise.resolve();
+        const next = previous.catch(() => undefined).then(update);
+        this.sectionUpdates.set(key, next);
+        try {
+            return await next;
+        } finally {
+            if (this.sectionUpdates.get(key) === next) this.sectionUpdates.delete(key);
+        }
+    }
+
+    private async loadSection(sessionId: string, documentType: string, sectionId: string) {
+        const current = await getDocumentVersionStore().getLatestVersion(sessionId, documentType);
+        if (!current) {
+            throw new DocumentSectionError(`No stored ${documentType} for this session; generate documents first`, 'not_found');
+        }
+
+        const parsed = parseDocumentSections(documentType, current.document.content);
+        const section = parsed.sections.find(entry => entry.id === sectionId);
+        if (!section) {
+            throw new DocumentSectionError(`Section not found: ${sectionId}`, 'not_found', {
+                sections: parsed.sections.map(entry => entry.id)
+            });
+        }
+        return { current, parsed, section };
+    }
+
+    private summarizeSection(section: DocumentSection, locked: string[]): SectionSummary {
+        return {
+            id: section.id,
+            title: section.title,
+            level: section.level,
+            content: section.content,
+            agents: section.agents,
+            locked: locked.includes(section.id),
+            wordCount: section.content.split(/\s+/).length
+        };
+    }
+
     /**
      * Phase 1: Execute agents to gather business intelligence
      */
@@ -130,11 +321,11 @@ export class DocumentGenerationWorkflow {
             pitchDeck,
             analysis
         ] = await Promise.all([
-            generateCompanyProfile(answers, agentOutputs),
-            generateBusinessPlan(answers, agentOutputs),
-            generateFinancialModel(answers, agentOutputs),
-            generatePitchDeck(answers, agentOutputs),
-            generateAnalysis(answers, agentOutputs)
+            generateCompanyProfile(answers, agentOutputs, sessionId),
+            generateBusinessPlan(answers, agentOutputs, sessionId),
+            generateFinancialModel(answers, agentOutputs, sessionId),
+            generatePitchDeck(answers, agentOutputs, sessionId),
+            generateAnalysis(answers, agentOutputs, sessionId)
         ]);
 
         // Format documents
@@ -149,6 +340,46 @@ export class DocumentGenerationWorkflow {
         return documents;
     }
 
+    /**
+     * Copy locked sections from each document's latest stored version into the new one.
+     * Returns null when the locks or previous versions can't be read.
+     */
+    private async applyLockedSections(
+        sessionId: string,
+        documents: GeneratedDocument[]
+    ): Promise<GeneratedDocument[] | null> {
+        const store = getDocumentVersionStore();
+        try {
+            return await Promise.all(documents.map(async doc => {
+                const locked = await store.getLockedSections(sessionId, doc.type);
+                const previous = locked.length > 0 ? await store.getLatestVersion(sessionId, doc.type) : null;
+                if (!previous) return doc;
+
+                logger.info('🔒 Keeping locked sections', { documentType: doc.type, sections: locked });
+                return this.formatDocument(doc.type, preserveLockedSections(doc.type, previous.document.content, doc.content, locked));
+            }));
+        } catch (error) {
+            logger.error('Failed to apply locked sections; this run is not stored as a new version', { sessionId, error });
+            return null;
+        }
+    }
+
+    /**
+     * Store the documents with the answers that produced them; storage failures don't fail the run
+     */
+    private async saveVersions(
+        sessionId: string,
+        answers: DocumentAnswers,
+        documents: GeneratedDocument[]
+    ): Promise<DocumentVersion[]> {
+        try {
+            return await getDocumentVersionStore().saveGeneration(sessionId, answers, documents);
+        } catch (error) {
+            logger.error('Failed to store document versions', { sessionId, error });
+            return [];
+        }
+    }
+
     /**
      * Format document with metadata
      */
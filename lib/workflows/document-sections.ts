@@ -0,0 +1,237 @@
+/**
+ * Document Sections
+ * Models generated markdown documents as addressable top-level sections (e.g. "Market Analysis")
+ * and records which agents' outputs feed each one, so a single section can be regenerated,
+ * locked or edited without touching the rest of the document.
+ */
+
+export interface SectionSpec {
+    id: string;
+    match: RegExp; // Tested against the section heading
+    agents: string[]; // Agents whose outputs feed the section
+}
+
+export interface DocumentStructure {
+    name: string;
+    agents: string[]; // Agents feeding the whole document (used for sections without a spec)
+    sections: SectionSpec[];
+}
+
+export interface DocumentSection {
+    id: string;
+    title: string;
+    level: number;
+    content: string; // Heading line plus body, exactly as in the document
+    agents: string[];
+}
+
+export interface ParsedDocument {
+    preamble: string | null; // Text before the first section (title, intro)
+    sections: DocumentSection[];
+}
+
+const CORE_AGENTS = ['market_analyst', 'customer_profiler', 'financial_modeler', 'gtm_strategist'];
+const HEADING_PATTERN = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const FENCE_PATTERN = /^\s*(```|~~~)/;
+
+export const DOCUMENT_STRUCTURES: Record<string, DocumentStructure> = {
+    company_profile: {
+        name: 'Company Profile',
+        agents: ['market_analyst', 'customer_profiler'],
+        sections: [
+            { id: 'brand_essence', match: /brand essence|vision|mission/i, agents: [] },
+            { id: 'executive_narrative', match: /executive narrative|who we are/i, agents: ['market_analyst', 'customer_profiler'] },
+            { id: 'solution', match: /solution|what we offer/i, agents: ['customer_profiler'] },
+            { id: 'customers', match: /who we serve|customers?/i, agents: ['customer_profiler'] },
+            { id: 'brand_position', match: /brand position/i, agents: ['market_analyst'] }
+        ]
+    },
+    business_plan: {
+        name: 'Business Plan',
+        agents: CORE_AGENTS,
+        sections: [
+            { id: 'executive_summary', match: /executive summary/i, agents: CORE_AGENTS },
+            { id: 'market_analysis', match: /market analysis/i, agents: ['market_analyst'] },
+            { id: 'customer_strategy', match: /customer|product strategy/i, agents: ['customer_profiler'] },
+            { id: 'business_model', match: /business model|revenue strategy/i, agents: ['financial_modeler'] },
+            { id: 'financial_projections', match: /financial (projections|summary|plan)/i, agents: ['financial_modeler'] },
+            { id: 'go_to_market', match: /go[- ]to[- ]market|\bgtm\b/i, agents: ['gtm_strategist'] },
+            { id: 'operations', match: /operation/i, agents: [] },
+            { id: 'risk_analysis', match: /risk/i, agents: ['market_analyst', 'financial_modeler'] },
+            { id: 'funding', match: /funding|investment/i, agents: ['financial_modeler'] }
+        ]
+    },
+    financial_model: {
+        name: 'Financial Model',
+        agents: ['financial_modeler'],
+        sections: [
+            { id: 'financial_summary', match: /executive summary|financial summary/i, agents: ['financial_modeler'] },
+            { id: 'revenue', match: /revenue/i, agents: ['financial_modeler'] },
+            { id: 'costs', match: /cost/i, agents: ['financial_modeler'] },
+            { id: 'profitability', match: /profit/i, agents: ['financial_modeler'] },
+            { id: 'cash_flow', match: /cash flow|capital requirements/i, agents: ['financial_modeler'] },
+            { id: 'unit_economics', match: /unit economics/i, agents: ['financial_modeler'] },
+            { id: 'scenarios', match: /scenario/i, agents: ['financial_modeler'] },
+            { id: 'valuation', match: /valuation/i, agents: ['financial_modeler'] },
+            { id: 'assumptions', match: /assumption/i, agents: ['financial_modeler'] },
+            { id: 'risks', match: /risk/i, agents: ['financial_modeler'] }
+        ]
+    },
+    pitch_deck: {
+        name: 'Pitch Deck',
+        agents: CORE_AGENTS,
+        sections: [
+            { id: 'cover', match: /cover|title slide/i, agents: [] },
+            { id: 'problem', match: /problem/i, agents: ['customer_profiler'] },
+            { id: 'solution', match: /solution/i, agents: ['customer_profiler'] },
+            { id: 'market', match: /market(?! strategy)/i, agents: ['market_analyst'] },
+            { id: 'product', match: /product|how it works|demo/i, agents: ['customer_profiler'] },
+            { id: 'traction', match: /traction|validation/i, agents: [] },
+            { id: 'business_model', match: /business model|make money/i, agents: ['financial_modeler'] },
+            { id: 'go_to_market', match: /go[- ]to[- ]market|\bgtm\b/i, agents: ['gtm_strategist'] },
+            { id: 'competition', match: /competition|why we win/i, agents: ['market_analyst'] },
+            { id: 'team', match: /team/i, agents: [] },
+            { id: 'financials', match: /financial|roi/i, agents: ['financial_modeler'] },
+            { id: 'ask', match: /\bask\b|investment/i, agents: ['financial_modeler'] },
+            { id: 'vision', match: /vision/i, agents: [] }
+        ]
+    },
+    before_after_analysis: {
+        name: 'Analysis',
+        agents: CORE_AGENTS,
+        sections: [
+            { id: 'executive_assessment', match: /executive assessment/i, agents: CORE_AGENTS },
+            { id: 'swot', match: /swot/i, agents: CORE_AGENTS },
+            { id: 'gap_analysis', match: /gap analysis/i, agents: CORE_AGENTS },
+            { id: 'risk_heatmap', match: /risk/i, agents: ['market_analyst', 'financial_modeler'] },
+            { id: 'competitive_positioning', match: /competitive|positioning/i, agents: ['market_analyst'] },
+            { id: 'financial_realism', match: /financial/i, agents: ['financial_modeler'] },
+            { id: 'market_timing', match: /market timing/i, agents: ['market_analyst'] },
+            { id: 'execution', match: /execution/i, agents: [] },
+            { id: 'recommendations', match: /recommendation/i, agents: CORE_AGENTS },
+            { id: 'blue_ocean', match: /blue ocean/i, agents: ['market_analyst', 'gtm_strategist'] },
+            { id: 'final_verdict', match: /verdict/i, agents: CORE_AGENTS }
+        ]
+    }
+};
+
+/**
+ * Split a document into its top-level sections. The section level is the highest heading
+ * level used more than once, so a lone title heading stays in the preamble.
+ */
+export function parseDocumentSections(documentType: string, markdown: string): ParsedDocument {
+    const structure = DOCUMENT_STRUCTURES[documentType];
+    const lines = markdown.split('\n');
+
+    const headings: { line: number; level: number; title: string }[] = [];
+    let inFence = false;
+    lines.forEach((line, index) => {
+        if (FENCE_PATTERN.test(line)) inFence = !inFence;
+        const match = inFence ? null : line.match(HEADING_PATTERN);
+        if (match) headings.push({ line: index, level: match[1].length, title: match[2] });
+    });
+
+    const counts = new Map<number, number>();
+    headings.forEach(heading => counts.set(heading.level, (counts.get(heading.level) || 0) + 1));
+    const repeated = Array.from(counts.keys()).filter(level => (counts.get(level) || 0) > 1);
+    const sectionLevel = repeated.length > 0
+        ? Math.min(...repeated)
+        : headings.length > 0 ? Math.min(...headings.map(heading => heading.level)) : 0;
+
+    const starts = headings.filter((heading, index) =>
+        heading.level <= sectionLevel && !(index === 0 && heading.level < sectionLevel));
+    if (starts.length === 0) {
+        return { preamble: markdown, sections: [] };
+    }
+
+    const used = new Set<string>();
+    const sections = starts.map((heading, index) => {
+        const end = index + 1 < starts.length ? starts[index + 1].line : lines.length;
+        const spec = structure?.sections.find(candidate => !used.has(candidate.id) && candidate.match.test(heading.title));
+
+        let id = spec ? spec.id : slugify(heading.title);
+        for (let suffix = 2; used.has(id); suffix++) id = `${spec ? spec.id : slugify(heading.title)}_${suffix}`;
+        used.add(id);
+
+        return {
+            id,
+            title: heading.title,
+            level: heading.level,
+            content: lines.slice(heading.line, end).join('\n'),
+            agents: spec ? spec.agents : structure?.agents || CORE_AGENTS
+        };
+    });
+
+    return {
+        preamble: starts[0].line > 0 ? lines.slice(0, starts[0].line).join('\n') : null,
+        sections
+    };
+}
+
+/**
+ * Reassemble a parsed document (inverse of parseDocumentSections)
+ */
+export function joinDocumentSections(document: ParsedDocument): string {
+    const chunks = document.sections.map(section => section.content);
+    return (document.preamble !== null ? [document.preamble, ...chunks] : chunks).join('\n');
+}
+
+/**
+ * Replace one section's markdown, keeping the spacing that followed the old section
+ */
+export function replaceSection(document: ParsedDocument, sectionId: string, content: string): ParsedDocument {
+    return {
+        ...document,
+        sections: document.sections.map(section => section.id === sectionId
+            ? { ...section, content: content.replace(/\s+$/, '') + trailingWhitespace(section.content) }
+            : section)
+    };
+}
+
+/**
+ * Carry locked sections from the previous version into a freshly generated one, verbatim.
+ * A locked section the new version lacks goes back after the section it used to follow.
+ */
+export function preserveLockedSections(
+    documentType: string,
+    previous: string,
+    next: string,
+    lockedIds: string[]
+): string {
+    const old = parseDocumentSections(documentType, previous);
+    let document = parseDocumentSections(documentType, next);
+
+    old.sections.forEach((section, index) => {
+        if (lockedIds.indexOf(section.id) === -1) return;
+
+        if (document.sections.some(candidate => candidate.id === section.id)) {
+            document = replaceSection(document, section.id, section.content);
+            return;
+        }
+
+        const before = index > 0 ? old.sections[index - 1].id : null;
+        const position = before ? document.sections.findIndex(candidate => candidate.id === before) : -1;
+        const sections = document.sections.slice();
+        const insertAt = position === -1 ? sections.length : position + 1;
+        if (insertAt > 0 && !/\n\s*$/.test(sections[insertAt - 1].content)) {
+            sections[insertAt - 1] = { ...sections[insertAt - 1], content: sections[insertAt - 1].content + '\n' };
+        }
+        sections.splice(insertAt, 0, { ...section, content: section.content.replace(/\s+$/, '') + '\n' });
+        document = { ...document, sections };
+    });
+
+    return joinDocumentSections(document);
+}
+
+function trailingWhitespace(value: string): string {
+    const match = value.match(/\s*$/);
+    return match ? match[0] : '';
+}
+
+function slugify(title: string): string {
+    return title
+        .toLowerCase()
+        .replace(/^(slide\s+\d+|[ivxlc]+\.|\d+(\.\d+)*\.?)\s*[:.-]?\s*/, '')
+        .replace(/[^a-z0-9]+/g, '_')
+        .replace(/^_+|_+$/g, '') || 'section';
+}
@@ -2,7 +2,10 @@
 const nextConfig = {
   reactStrictMode: true,
   swcMinify: true,
-  experimental: {},
+  experimental: {
+    instrumentationHook: true, // Agent reference report on startup (instrumentation.ts)
+    serverComponentsExternalPackages: ['pdf-parse'], // Loads its bundled pdf.js build with a dynamic require
+  },
   env: {
     GROQ_API_KEY: process.env.GROQ_API_KEY,
     ANTHROPIC_API_KEY: process.env.ANTHROPIC_API_KEY,
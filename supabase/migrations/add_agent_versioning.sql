@@ -0,0 +1,23 @@
+-- Migration: agent prompt versioning / A-B experiments
+-- Records which agent version produced each output plus per-run token usage,
+-- cost and user edits (see backend/services/agent-experiments.ts)
+-- Run this in Supabase SQL editor
+
+ALTER TABLE agent_activity_log ADD COLUMN IF NOT EXISTS agent_version TEXT DEFAULT 'v1';
+ALTER TABLE agent_activity_log ADD COLUMN IF NOT EXISTS input_tokens INTEGER;
+ALTER TABLE agent_activity_log ADD COLUMN IF NOT EXISTS output_tokens INTEGER;
+ALTER TABLE agent_activity_log ADD COLUMN IF NOT EXISTS cost_usd NUMERIC(12, 6);
+ALTER TABLE agent_activity_log ADD COLUMN IF NOT EXISTS user_edits INTEGER DEFAULT 0;
+ALTER TABLE agent_activity_log ADD COLUMN IF NOT EXISTS regeneration BOOLEAN DEFAULT FALSE;
+-- Client-generated ("session-...") ids cannot satisfy the session_id foreign key
+ALTER TABLE agent_activity_log ADD COLUMN IF NOT EXISTS client_session_id TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_agent_log_client_session ON agent_activity_log(client_session_id);
+CREATE INDEX IF NOT EXISTS idx_agent_log_agent_version ON agent_activity_log(agent_id, agent_version);
+
+-- Allow users to count edits against their own agent outputs
+DROP POLICY IF EXISTS "Users can update own agent logs" ON agent_activity_log;
+CREATE POLICY "Users can update own agent logs" ON agent_activity_log
+    FOR UPDATE USING (
+        session_id IN (SELECT id FROM questionnaire_sessions WHERE user_id = auth.uid())
+    );
@@ -0,0 +1,6 @@
+-- Migration: MCP auto-populated fields
+-- Stores values the MCP rules derived from answers, with their provenance and whether
+-- the user accepted or overrode them (see backend/mcp/engine.ts)
+-- Run this in Supabase SQL editor
+
+ALTER TABLE questionnaire_sessions ADD COLUMN IF NOT EXISTS auto_populated JSONB DEFAULT '{}';
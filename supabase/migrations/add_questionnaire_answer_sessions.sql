@@ -0,0 +1,36 @@
+-- Migration: questionnaire answer sessions
+-- The questionnaire page generates its own text session ids (session_<timestamp>) and answers
+-- anonymously, so its answers and auto-populated values cannot live in questionnaire_sessions
+-- (UUID ids, RLS on auth.uid()). This table is keyed by that text id and is only written by the
+-- server with the service role key (see backend/services/session-storage.ts)
+-- Run this in Supabase SQL editor
+
+CREATE TABLE IF NOT EXISTS questionnaire_answer_sessions (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL,
+
+  current_phase INTEGER DEFAULT 0,
+  current_question_index INTEGER DEFAULT 0,
+  completed BOOLEAN DEFAULT FALSE,
+  completed_phases INTEGER[] DEFAULT ARRAY[]::INTEGER[],
+
+  answers JSONB DEFAULT '{}',
+  messages JSONB DEFAULT '[]',
+  auto_populated JSONB DEFAULT '{}',
+
+  language VARCHAR(10) DEFAULT 'en-US',
+  channel TEXT DEFAULT 'web',
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_answer_sessions_updated_at ON questionnaire_answer_sessions(updated_at);
+
+-- No policies: only the service role (which bypasses RLS) can read or write these rows
+ALTER TABLE questionnaire_answer_sessions ENABLE ROW LEVEL SECURITY;
+
+DROP TRIGGER IF EXISTS update_answer_sessions_updated_at ON questionnaire_answer_sessions;
+CREATE TRIGGER update_answer_sessions_updated_at
+    BEFORE UPDATE ON questionnaire_answer_sessions
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
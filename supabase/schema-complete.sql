@@ -19,6 +19,7 @@ DROP POLICY IF EXISTS "Users can view own conversations" ON conversation_history
 DROP POLICY IF EXISTS "Users can insert own conversations" ON conversation_history;
 DROP POLICY IF EXISTS "Users can view own agent logs" ON agent_activity_log;
 DROP POLICY IF EXISTS "Users can insert own agent logs" ON agent_activity_log;
+DROP POLICY IF EXISTS "Users can update own agent logs" ON agent_activity_log;
 
 -- =============================================================================
 -- 1. QUESTIONNAIRE SESSIONS TABLE
@@ -38,6 +39,7 @@ CREATE TABLE IF NOT EXISTS questionnaire_sessions (
   answers JSONB DEFAULT '{}',
   messages JSONB DEFAULT '[]',
   accumulated_context JSONB DEFAULT '{}',
+  auto_populated JSONB DEFAULT '{}',
   
   -- Metadata
   language VARCHAR(10) DEFAULT 'en-US',
@@ -60,6 +62,9 @@ BEGIN
     IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'questionnaire_sessions' AND column_name = 'accumulated_context') THEN
         ALTER TABLE questionnaire_sessions ADD COLUMN accumulated_context JSONB DEFAULT '{}';
     END IF;
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'questionnaire_sessions' AND column_name = 'auto_populated') THEN
+        ALTER TABLE questionnaire_sessions ADD COLUMN auto_populated JSONB DEFAULT '{}';
+    END IF;
 END $$;
 
 -- =============================================================================
@@ -92,10 +97,13 @@ CREATE TABLE IF NOT EXISTS conversation_history (
 CREATE TABLE IF NOT EXISTS agent_activity_log (
     id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
     session_id UUID REFERENCES questionnaire_sessions(id) ON DELETE CASCADE,
+    -- Client-generated ("session-...") ids, written by the service role only
+    client_session_id TEXT,
     
     -- Agent Info
     agent_id TEXT NOT NULL,
     agent_name TEXT,
+    agent_version TEXT DEFAULT 'v1',
     skill_used TEXT[],
     
     -- Execution details
@@ -105,10 +113,42 @@ CREATE TABLE IF NOT EXISTS agent_activity_log (
     success BOOLEAN DEFAULT TRUE,
     error_message TEXT,
     
+    -- Usage & feedback (agent version experiments)
+    input_tokens INTEGER,
+    output_tokens INTEGER,
+    cost_usd NUMERIC(12, 6),
+    user_edits INTEGER DEFAULT 0,
+    regeneration BOOLEAN DEFAULT FALSE,
+    
     -- Timestamps
     created_at TIMESTAMPTZ DEFAULT NOW()
 );
 
+-- =============================================================================
+-- 4. QUESTIONNAIRE ANSWER SESSIONS TABLE
+-- Sessions keyed by the questionnaire page's own text ids (answered anonymously);
+-- written by the server with the service role key
+-- =============================================================================
+CREATE TABLE IF NOT EXISTS questionnaire_answer_sessions (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  
+  current_phase INTEGER DEFAULT 0,
+  current_question_index INTEGER DEFAULT 0,
+  completed BOOLEAN DEFAULT FALSE,
+  completed_phases INTEGER[] DEFAULT ARRAY[]::INTEGER[],
+  
+  answers JSONB DEFAULT '{}',
+  messages JSONB DEFAULT '[]',
+  auto_populated JSONB DEFAULT '{}',
+  
+  language VARCHAR(10) DEFAULT 'en-US',
+  channel TEXT DEFAULT 'web',
+  
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
 -- =============================================================================
 -- INDEXES for performance
 -- =============================================================================
@@ -118,7 +158,10 @@ CREATE INDEX IF NOT EXISTS idx_sessions_updated_at ON questionnaire_sessions(upd
 CREATE INDEX IF NOT EXISTS idx_conversation_session ON conversation_history(session_id);
 CREATE INDEX IF NOT EXISTS idx_conversation_created ON conversation_history(created_at);
 CREATE INDEX IF NOT EXISTS idx_agent_log_session ON agent_activity_log(session_id);
+CREATE INDEX IF NOT EXISTS idx_agent_log_client_session ON agent_activity_log(client_session_id);
 CREATE INDEX IF NOT EXISTS idx_agent_log_agent_id ON agent_activity_log(agent_id);
+CREATE INDEX IF NOT EXISTS idx_agent_log_agent_version ON agent_activity_log(agent_id, agent_version);
+CREATE INDEX IF NOT EXISTS idx_answer_sessions_updated_at ON questionnaire_answer_sessions(updated_at);
 
 -- =============================================================================
 -- ROW LEVEL SECURITY (RLS)
@@ -126,6 +169,8 @@ CREATE INDEX IF NOT EXISTS idx_agent_log_agent_id ON agent_activity_log(agent_id
 ALTER TABLE questionnaire_sessions ENABLE ROW LEVEL SECURITY;
 ALTER TABLE conversation_history ENABLE ROW LEVEL SECURITY;
 ALTER TABLE agent_activity_log ENABLE ROW LEVEL SECURITY;
+-- No policies on questionnaire_answer_sessions: only the service role can access it
+ALTER TABLE questionnaire_answer_sessions ENABLE ROW LEVEL SECURITY;
 
 -- Sessions policies
 CREATE POLICY "Users can view own sessions" ON questionnaire_sessions
@@ -162,6 +207,11 @@ CREATE POLICY "Users can insert own agent logs" ON agent_activity_log
         session_id IN (SELECT id FROM questionnaire_sessions WHERE user_id = auth.uid())
     );
 
+CREATE POLICY "Users can update own agent logs" ON agent_activity_log
+    FOR UPDATE USING (
+        session_id IN (SELECT id FROM questionnaire_sessions WHERE user_id = auth.uid())
+    );
+
 -- =============================================================================
 -- TRIGGERS for auto-updating timestamps
 -- =============================================================================
@@ -178,6 +228,11 @@ CREATE TRIGGER update_sessions_updated_at
     BEFORE UPDATE ON questionnaire_sessions
     FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
+DROP TRIGGER IF EXISTS update_answer_sessions_updated_at ON questionnaire_answer_sessions;
+CREATE TRIGGER update_answer_sessions_updated_at 
+    BEFORE UPDATE ON questionnaire_answer_sessions
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
 -- =============================================================================
 -- VERIFICATION
 -- =============================================================================
@@ -189,7 +244,7 @@ END $$;
 -- Show all tables
 SELECT table_name FROM information_schema.tables 
 WHERE table_schema = 'public' 
-AND table_name IN ('questionnaire_sessions', 'conversation_history', 'agent_activity_log');
+AND table_name IN ('questionnaire_sessions', 'conversation_history', 'agent_activity_log', 'questionnaire_answer_sessions');
 
 -- Show questionnaire_sessions columns
 SELECT column_name, data_type, is_nullable 